@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "health_score_snapshots" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "score" INTEGER NOT NULL,
+    "innerCircleScore" INTEGER NOT NULL,
+    "eventParticipationScore" INTEGER NOT NULL,
+    "relationshipDiversityScore" INTEGER NOT NULL,
+    "reminderResponseScore" INTEGER NOT NULL,
+    "specialDatesScore" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "health_score_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "health_score_snapshots_userId_date_key" ON "health_score_snapshots"("userId", "date");
+
+-- CreateIndex
+CREATE INDEX "health_score_snapshots_userId_idx" ON "health_score_snapshots"("userId");
+
+-- AddForeignKey
+ALTER TABLE "health_score_snapshots" ADD CONSTRAINT "health_score_snapshots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
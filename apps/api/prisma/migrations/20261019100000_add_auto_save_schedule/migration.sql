@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "savings_goals" ADD COLUMN "nextAutoSaveAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_savingsGoalId_externalTransactionId_key" ON "transactions"("savingsGoalId", "externalTransactionId");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "reminders" ADD COLUMN "occurrenceDate" TIMESTAMP(3),
+ADD COLUMN "seriesId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "reminders_seriesId_idx" ON "reminders"("seriesId");
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "event_occurrences" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "occurrenceDate" DATE NOT NULL,
+    "date" TIMESTAMP(3),
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "status" "EventStatus",
+    "estimatedCost" DECIMAL(10,2),
+    "actualCost" DECIMAL(10,2),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_occurrences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_occurrence_rsvps" (
+    "id" TEXT NOT NULL,
+    "occurrenceId" TEXT NOT NULL,
+    "attendeeId" TEXT NOT NULL,
+    "rsvpStatus" "RSVPStatus" NOT NULL,
+    "rsvpDate" TIMESTAMP(3),
+    "plusOnes" INTEGER NOT NULL DEFAULT 0,
+    "notes" TEXT,
+
+    CONSTRAINT "event_occurrence_rsvps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_occurrences_eventId_idx" ON "event_occurrences"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_occurrences_eventId_occurrenceDate_key" ON "event_occurrences"("eventId", "occurrenceDate");
+
+-- CreateIndex
+CREATE INDEX "event_occurrence_rsvps_attendeeId_idx" ON "event_occurrence_rsvps"("attendeeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_occurrence_rsvps_occurrenceId_attendeeId_key" ON "event_occurrence_rsvps"("occurrenceId", "attendeeId");
+
+-- AddForeignKey
+ALTER TABLE "event_occurrences" ADD CONSTRAINT "event_occurrences_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_occurrence_rsvps" ADD CONSTRAINT "event_occurrence_rsvps_occurrenceId_fkey" FOREIGN KEY ("occurrenceId") REFERENCES "event_occurrences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_occurrence_rsvps" ADD CONSTRAINT "event_occurrence_rsvps_attendeeId_fkey" FOREIGN KEY ("attendeeId") REFERENCES "event_attendees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "event_attendees" ADD COLUMN "rsvpTokenVersion" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "EventEmailKind" AS ENUM ('INVITATION', 'UPDATE', 'REMINDER', 'CANCELLATION');
+
+-- CreateEnum
+CREATE TYPE "EmailDeliveryStatus" AS ENUM ('SENT', 'FAILED', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "icsSequence" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "event_email_deliveries" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "attendeeId" TEXT NOT NULL,
+    "kind" "EventEmailKind" NOT NULL,
+    "status" "EmailDeliveryStatus" NOT NULL,
+    "recipient" TEXT,
+    "transport" TEXT NOT NULL,
+    "providerMessageId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_email_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_email_deliveries_eventId_createdAt_idx" ON "event_email_deliveries"("eventId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "event_email_deliveries_attendeeId_idx" ON "event_email_deliveries"("attendeeId");
+
+-- AddForeignKey
+ALTER TABLE "event_email_deliveries" ADD CONSTRAINT "event_email_deliveries_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_email_deliveries" ADD CONSTRAINT "event_email_deliveries_attendeeId_fkey" FOREIGN KEY ("attendeeId") REFERENCES "event_attendees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ai_cache_entries" (
+    "key" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_cache_entries_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "ai_quota_usage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "windowStart" TIMESTAMP(3) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_quota_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_cache_entries_expiresAt_idx" ON "ai_cache_entries"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "ai_quota_usage_windowStart_idx" ON "ai_quota_usage"("windowStart");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_quota_usage_userId_scope_windowStart_key" ON "ai_quota_usage"("userId", "scope", "windowStart");
+
+-- AddForeignKey
+ALTER TABLE "ai_quota_usage" ADD CONSTRAINT "ai_quota_usage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "WritingStyleCategory" AS ENUM ('CLOSE', 'CASUAL', 'PROFESSIONAL');
+
+-- CreateTable
+CREATE TABLE "writing_style_samples" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "category" "WritingStyleCategory" NOT NULL,
+    "promptId" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "response" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "writing_style_samples_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "writing_style_samples_userId_category_idx" ON "writing_style_samples"("userId", "category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "writing_style_samples_userId_promptId_key" ON "writing_style_samples"("userId", "promptId");
+
+-- AddForeignKey
+ALTER TABLE "writing_style_samples" ADD CONSTRAINT "writing_style_samples_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
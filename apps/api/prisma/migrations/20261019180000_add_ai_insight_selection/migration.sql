@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ai_insights" ADD COLUMN     "selectedOption" TEXT,
+ADD COLUMN     "usedContent" TEXT;
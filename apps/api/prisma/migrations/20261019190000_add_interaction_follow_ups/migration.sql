@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "FollowUpStatus" AS ENUM ('PENDING', 'CONFIRMED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "interaction_follow_ups" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+    "interactionId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "detail" TEXT NOT NULL,
+    "excerpt" TEXT,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "status" "FollowUpStatus" NOT NULL DEFAULT 'PENDING',
+    "reminderId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "interaction_follow_ups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "interaction_follow_ups_reminderId_key" ON "interaction_follow_ups"("reminderId");
+
+-- CreateIndex
+CREATE INDEX "interaction_follow_ups_userId_status_idx" ON "interaction_follow_ups"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "interaction_follow_ups_interactionId_idx" ON "interaction_follow_ups"("interactionId");
+
+-- AddForeignKey
+ALTER TABLE "interaction_follow_ups" ADD CONSTRAINT "interaction_follow_ups_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "interaction_follow_ups" ADD CONSTRAINT "interaction_follow_ups_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "interaction_follow_ups" ADD CONSTRAINT "interaction_follow_ups_interactionId_fkey" FOREIGN KEY ("interactionId") REFERENCES "interactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "interaction_follow_ups" ADD CONSTRAINT "interaction_follow_ups_reminderId_fkey" FOREIGN KEY ("reminderId") REFERENCES "reminders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
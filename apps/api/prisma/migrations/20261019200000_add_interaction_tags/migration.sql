@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "interactions" ADD COLUMN     "sentimentInferred" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "topics" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Auto-logged calls were stored as NEUTRAL without anything to base it on
+UPDATE "interactions" SET "sentiment" = NULL WHERE "sentiment" = 'NEUTRAL' AND "notes" LIKE '%[auto%';
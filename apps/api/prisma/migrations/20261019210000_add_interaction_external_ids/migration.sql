@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "InteractionSource" AS ENUM ('MANUAL', 'CALL_LOG', 'QUICK_LOG');
+
+-- AlterTable
+ALTER TABLE "interactions" ADD COLUMN     "source" "InteractionSource" NOT NULL DEFAULT 'MANUAL',
+ADD COLUMN     "externalId" TEXT;
+
+-- Synced interactions used to be marked in their notes as [auto:<id>] or [auto-logged]
+UPDATE "interactions"
+SET "source" = CASE WHEN "notes" LIKE '%[auto:quick-%' THEN 'QUICK_LOG'::"InteractionSource" ELSE 'CALL_LOG'::"InteractionSource" END,
+    "externalId" = substring("notes" from '\[auto:([^\]]+)\]')
+WHERE "notes" LIKE '%[auto%';
+
+-- Overlapping syncs could log the same call twice; only the first keeps its id
+WITH "ranked" AS (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "relationshipId", "source", "externalId" ORDER BY "createdAt", "id") AS "position"
+  FROM "interactions"
+  WHERE "externalId" IS NOT NULL
+)
+UPDATE "interactions"
+SET "externalId" = NULL
+FROM "ranked"
+WHERE "interactions"."id" = "ranked"."id" AND "ranked"."position" > 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "interactions_relationshipId_source_externalId_key" ON "interactions"("relationshipId", "source", "externalId");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "contacts" ADD COLUMN     "emailHash" TEXT,
+ADD COLUMN     "phoneHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "contacts_userId_phoneHash_idx" ON "contacts"("userId", "phoneHash");
+
+-- CreateIndex
+CREATE INDEX "contacts_userId_emailHash_idx" ON "contacts"("userId", "emailHash");
+
+-- Existing rows are indexed by `npm run jobs:backfill-blind-indexes`, which needs the
+-- application keys to decrypt phone and email
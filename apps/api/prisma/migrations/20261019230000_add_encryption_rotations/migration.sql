@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "EncryptionRotationStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "encryption_rotations" (
+    "id" TEXT NOT NULL,
+    "keyId" TEXT NOT NULL,
+    "status" "EncryptionRotationStatus" NOT NULL DEFAULT 'RUNNING',
+    "progress" JSONB NOT NULL DEFAULT '{}',
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "encryption_rotations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "encryption_rotations_keyId_status_idx" ON "encryption_rotations"("keyId", "status");
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ImportSource" ADD VALUE 'FILE';
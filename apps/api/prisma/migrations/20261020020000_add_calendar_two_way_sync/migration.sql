@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "CalendarConflictPolicy" AS ENUM ('SOCAP_WINS', 'GOOGLE_WINS', 'ASK');
+
+-- CreateEnum
+CREATE TYPE "CalendarSyncStatus" AS ENUM ('RUNNING', 'SUCCESS', 'PARTIAL', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "CalendarConflictStatus" AS ENUM ('PENDING', 'RESOLVED');
+
+-- AlterTable
+ALTER TABLE "calendar_credentials" ADD COLUMN     "syncToken" TEXT,
+ADD COLUMN     "conflictPolicy" "CalendarConflictPolicy" NOT NULL DEFAULT 'ASK';
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "calendarEtag" TEXT,
+ADD COLUMN     "calendarSyncHash" TEXT;
+
+-- CreateTable
+CREATE TABLE "calendar_sync_logs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "CalendarSyncStatus" NOT NULL DEFAULT 'RUNNING',
+    "fullSync" BOOLEAN NOT NULL DEFAULT false,
+    "pulled" INTEGER NOT NULL DEFAULT 0,
+    "pushed" INTEGER NOT NULL DEFAULT 0,
+    "conflicts" INTEGER NOT NULL DEFAULT 0,
+    "changes" JSONB NOT NULL DEFAULT '[]',
+    "errors" TEXT[],
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "calendar_sync_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "calendar_sync_conflicts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "googleEventId" TEXT NOT NULL,
+    "socapVersion" JSONB NOT NULL,
+    "googleVersion" JSONB NOT NULL,
+    "googleEtag" TEXT,
+    "status" "CalendarConflictStatus" NOT NULL DEFAULT 'PENDING',
+    "resolution" "CalendarConflictPolicy",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "calendar_sync_conflicts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "calendar_sync_logs_userId_startedAt_idx" ON "calendar_sync_logs"("userId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "calendar_sync_conflicts_userId_status_idx" ON "calendar_sync_conflicts"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "calendar_sync_conflicts_eventId_status_idx" ON "calendar_sync_conflicts"("eventId", "status");
+
+-- AddForeignKey
+ALTER TABLE "calendar_sync_logs" ADD CONSTRAINT "calendar_sync_logs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_sync_conflicts" ADD CONSTRAINT "calendar_sync_conflicts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_sync_conflicts" ADD CONSTRAINT "calendar_sync_conflicts_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "CalendarProvider" ADD VALUE 'CALDAV';
+
+-- AlterTable
+ALTER TABLE "calendar_credentials" ALTER COLUMN "refreshTokenEncrypted" DROP NOT NULL,
+ALTER COLUMN "tokenExpiresAt" DROP NOT NULL,
+ADD COLUMN     "serverUrl" TEXT,
+ADD COLUMN     "username" TEXT;
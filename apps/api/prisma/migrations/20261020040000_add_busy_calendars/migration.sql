@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "BusyCalendarSource" AS ENUM ('ACCOUNT', 'DEVICE');
+
+-- CreateTable
+CREATE TABLE "busy_calendars" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "source" "BusyCalendarSource" NOT NULL,
+    "calendarId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "provider" "CalendarProvider",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "busy_calendars_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "device_busy_blocks" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "calendarId" TEXT NOT NULL,
+    "start" TIMESTAMP(3) NOT NULL,
+    "end" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_busy_blocks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "busy_calendars_userId_source_calendarId_key" ON "busy_calendars"("userId", "source", "calendarId");
+
+-- CreateIndex
+CREATE INDEX "device_busy_blocks_userId_start_idx" ON "device_busy_blocks"("userId", "start");
+
+-- AddForeignKey
+ALTER TABLE "busy_calendars" ADD CONSTRAINT "busy_calendars_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "device_busy_blocks" ADD CONSTRAINT "device_busy_blocks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
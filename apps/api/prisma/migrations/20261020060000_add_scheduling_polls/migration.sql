@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "SchedulingPollStatus" AS ENUM ('OPEN', 'FINALIZED');
+
+-- CreateEnum
+CREATE TYPE "PollVoteChoice" AS ENUM ('YES', 'IF_NEEDED', 'NO');
+
+-- CreateTable
+CREATE TABLE "scheduling_polls" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "SchedulingPollStatus" NOT NULL DEFAULT 'OPEN',
+    "message" TEXT,
+    "closesAt" TIMESTAMP(3),
+    "chosenOptionId" TEXT,
+    "finalizedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduling_polls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scheduling_poll_options" (
+    "id" TEXT NOT NULL,
+    "pollId" TEXT NOT NULL,
+    "start" TIMESTAMP(3) NOT NULL,
+    "end" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduling_poll_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scheduling_poll_votes" (
+    "id" TEXT NOT NULL,
+    "optionId" TEXT NOT NULL,
+    "attendeeId" TEXT NOT NULL,
+    "choice" "PollVoteChoice" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduling_poll_votes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduling_polls_eventId_key" ON "scheduling_polls"("eventId");
+
+-- CreateIndex
+CREATE INDEX "scheduling_polls_userId_idx" ON "scheduling_polls"("userId");
+
+-- CreateIndex
+CREATE INDEX "scheduling_poll_options_pollId_idx" ON "scheduling_poll_options"("pollId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduling_poll_votes_optionId_attendeeId_key" ON "scheduling_poll_votes"("optionId", "attendeeId");
+
+-- CreateIndex
+CREATE INDEX "scheduling_poll_votes_attendeeId_idx" ON "scheduling_poll_votes"("attendeeId");
+
+-- AddForeignKey
+ALTER TABLE "scheduling_polls" ADD CONSTRAINT "scheduling_polls_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduling_polls" ADD CONSTRAINT "scheduling_polls_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduling_poll_options" ADD CONSTRAINT "scheduling_poll_options_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "scheduling_polls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduling_poll_votes" ADD CONSTRAINT "scheduling_poll_votes_optionId_fkey" FOREIGN KEY ("optionId") REFERENCES "scheduling_poll_options"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduling_poll_votes" ADD CONSTRAINT "scheduling_poll_votes_attendeeId_fkey" FOREIGN KEY ("attendeeId") REFERENCES "event_attendees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "event_email_deliveries" DROP COLUMN "recipient";
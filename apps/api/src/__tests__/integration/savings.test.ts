@@ -0,0 +1,164 @@
+import request from 'supertest';
+import { createTestApp } from '../utils/testApp';
+import { TestFactory, TestCleanup } from '../utils/testHelpers';
+import * as firebase from '../../config/firebase';
+import { AuditAction } from '../../services/auditService';
+import { prisma } from '../setup';
+
+// Mock Firebase
+jest.mock('../../config/firebase');
+const mockFirebase = firebase as jest.Mocked<typeof firebase>;
+
+describe('Savings API Integration Tests', () => {
+  const app = createTestApp();
+  let testUser: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    await TestCleanup.cleanAll();
+    testUser = await TestFactory.createUser();
+    authToken = 'Bearer test-token';
+
+    mockFirebase.verifyIdToken.mockResolvedValue({
+      uid: 'firebase-uid',
+      email: testUser.email,
+      email_verified: true,
+    } as any);
+  });
+
+  afterEach(async () => {
+    if (testUser) {
+      await TestCleanup.cleanUser(testUser.id);
+    }
+  });
+
+  async function createGoal(targetAmount = 100) {
+    const response = await request(app)
+      .post('/api/savings')
+      .set('Authorization', authToken)
+      .send({ name: 'Weekend trip', targetAmount });
+    return response.body;
+  }
+
+  describe('POST /api/savings', () => {
+    it('should create a goal and write an audit record', async () => {
+      const response = await request(app)
+        .post('/api/savings')
+        .set('Authorization', authToken)
+        .send({ name: 'Weekend trip', targetAmount: 250 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.name).toBe('Weekend trip');
+
+      const audit = await prisma.auditLog.findFirst({
+        where: { userId: testUser.id, action: AuditAction.SAVINGS_GOAL_CREATED },
+      });
+      expect(audit).not.toBeNull();
+      expect(audit!.action).toBe(AuditAction.SAVINGS_GOAL_CREATED);
+      expect(audit!.details).toMatchObject({ goalId: response.body.id });
+    });
+
+    it('should return 400 for a non-positive target', async () => {
+      const response = await request(app)
+        .post('/api/savings')
+        .set('Authorization', authToken)
+        .send({ name: 'Bad goal', targetAmount: 0 });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('deposits and withdrawals', () => {
+    it('should deposit and complete the goal at its target', async () => {
+      const goal = await createGoal(100);
+
+      const response = await request(app)
+        .post(`/api/savings/${goal.id}/deposit`)
+        .set('Authorization', authToken)
+        .send({ amount: 100 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.goal.status).toBe('COMPLETED');
+
+      const audit = await prisma.auditLog.findFirst({
+        where: { userId: testUser.id, action: AuditAction.TRANSACTION_CREATED },
+      });
+      expect(audit).not.toBeNull();
+      expect(audit!.action).toBe(AuditAction.TRANSACTION_CREATED);
+      expect(audit!.details).toMatchObject({
+        transactionId: response.body.transaction.id,
+        goalId: goal.id,
+      });
+    });
+
+    it('should reject withdrawing more than the balance', async () => {
+      const goal = await createGoal(100);
+
+      const response = await request(app)
+        .post(`/api/savings/${goal.id}/withdraw`)
+        .set('Authorization', authToken)
+        .send({ amount: 10 });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/savings/:id/transactions', () => {
+    it('should paginate transaction history', async () => {
+      const goal = await createGoal(1000);
+      for (const amount of [10, 20, 30]) {
+        await request(app)
+          .post(`/api/savings/${goal.id}/deposit`)
+          .set('Authorization', authToken)
+          .send({ amount });
+      }
+
+      const response = await request(app)
+        .get(`/api/savings/${goal.id}/transactions?page=1&limit=2`)
+        .set('Authorization', authToken);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.pagination.total).toBe(3);
+      expect(response.body.pagination.hasNext).toBe(true);
+    });
+
+    it('should return 400 for a page below 1 or a limit over 100', async () => {
+      const goal = await createGoal(1000);
+
+      for (const query of ['page=-1', 'page=abc', 'limit=0', 'limit=500']) {
+        const response = await request(app)
+          .get(`/api/savings/${goal.id}/transactions?${query}`)
+          .set('Authorization', authToken);
+
+        expect(response.status).toBe(400);
+      }
+    });
+  });
+
+  describe('event linking', () => {
+    it('should link and unlink a goal to an event', async () => {
+      const goal = await createGoal(100);
+      const event = await TestFactory.createEvent(testUser.id);
+
+      const linkResponse = await request(app)
+        .put(`/api/savings/${goal.id}/event`)
+        .set('Authorization', authToken)
+        .send({ eventId: event.id });
+
+      expect(linkResponse.status).toBe(200);
+      expect(linkResponse.body.eventId).toBe(event.id);
+
+      let linkedEvent = await prisma.event.findUnique({ where: { id: event.id } });
+      expect(linkedEvent?.linkedSavingsGoalId).toBe(goal.id);
+
+      const unlinkResponse = await request(app)
+        .delete(`/api/savings/${goal.id}/event`)
+        .set('Authorization', authToken);
+
+      expect(unlinkResponse.status).toBe(200);
+      linkedEvent = await prisma.event.findUnique({ where: { id: event.id } });
+      expect(linkedEvent?.linkedSavingsGoalId).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { prisma } from '../../../lib/prisma';
+import { AIService, getQuotaConfig, setAIStore } from '../../../services/aiService';
+import { MemoryAIStore, PrismaAIStore } from '../../../services/aiStore';
+import { LLMProvider, setLLMProvider } from '../../../services/llmProviders';
+
+jest.mock('../../../lib/prisma', () => ({
+  prisma: { aIQuotaUsage: { updateMany: jest.fn(), createMany: jest.fn() } },
+}));
+
+const mockQuotaUsage = prisma.aIQuotaUsage as unknown as { updateMany: jest.Mock; createMany: jest.Mock };
+
+const ideas = [
+  {
+    name: 'Picnic',
+    description: 'Lunch in the park',
+    estimatedCost: 10,
+    duration: '2 hours',
+    venueType: 'outdoor',
+    tips: ['Bring a blanket'],
+  },
+];
+
+const params = { budgetTier: 'BUDGET' as const, groupSize: 4 };
+
+describe('AI quotas and cache', () => {
+  const savedEnv = { ...process.env };
+  let store: MemoryAIStore;
+  let complete: jest.Mock;
+
+  beforeEach(() => {
+    store = new MemoryAIStore();
+    setAIStore(store);
+    complete = jest.fn().mockResolvedValue({
+      content: JSON.stringify(ideas),
+      json: ideas,
+      usage: { promptTokens: 500, completionTokens: 200, totalTokens: 700 },
+      provider: 'test',
+      model: 'test-model',
+    });
+    const provider: LLMProvider = { name: 'test', complete };
+    setLLMProvider(provider);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    setAIStore(null);
+    setLLMProvider(null);
+    process.env = { ...savedEnv };
+  });
+
+  it('reads limits from the environment, ignoring invalid values', () => {
+    const config = getQuotaConfig({ AI_DAILY_REQUEST_LIMIT: '5', AI_EVENT_IDEAS_DAILY_LIMIT: 'lots' });
+
+    expect(config.dailyRequestLimit).toBe(5);
+    expect(config.featureDailyLimits.event_ideas).toBe(10);
+    expect(config.monthlyTokenBudget).toBe(200000);
+  });
+
+  it('caches responses in the store and records actual token usage', async () => {
+    await expect(AIService.generateEventIdeas('user-1', params)).resolves.toEqual(ideas);
+    await expect(AIService.generateEventIdeas('user-1', params)).resolves.toEqual(ideas);
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(store.cache.size).toBe(1);
+    expect(store.tokenUsage).toEqual([
+      expect.objectContaining({ userId: 'user-1', feature: 'event_ideas', tokens: 700, model: 'test-model' }),
+    ]);
+  });
+
+  it('enforces per-feature limits without using up the daily total', async () => {
+    process.env.AI_EVENT_IDEAS_DAILY_LIMIT = '1';
+
+    await AIService.generateEventIdeas('user-1', params);
+    const limited = await AIService.generateEventIdeas('user-1', { ...params, groupSize: 8 });
+
+    expect(limited).not.toEqual(ideas);
+    expect(complete).toHaveBeenCalledTimes(1);
+
+    const stats = await AIService.getUsageStats('user-1');
+    expect(stats.today).toBe(1);
+    expect(stats.features.event_ideas).toEqual({ used: 1, limit: 1, remaining: 0 });
+  });
+
+  it('refunds the feature quota when the daily total is exhausted', async () => {
+    process.env.AI_DAILY_REQUEST_LIMIT = '1';
+
+    await AIService.generateEventIdeas('user-1', params);
+    await AIService.generateRelationshipTip('user-1');
+
+    const stats = await AIService.getUsageStats('user-1');
+    expect(stats.remaining).toBe(0);
+    expect(stats.features.relationship_tip.used).toBe(0);
+  });
+
+  it('stops calling the model once the monthly token budget is spent', async () => {
+    process.env.AI_MONTHLY_TOKEN_BUDGET = '500';
+
+    await AIService.generateEventIdeas('user-1', params);
+    const result = await AIService.generateEventIdeas('user-1', { ...params, groupSize: 8 });
+
+    expect(result).not.toEqual(ideas);
+    expect(complete).toHaveBeenCalledTimes(1);
+
+    const stats = await AIService.getUsageStats('user-1');
+    expect(stats.tokens).toMatchObject({ used: 700, limit: 500, remaining: 0 });
+  });
+
+  it('reports reset times at the next UTC day and month', async () => {
+    const stats = await AIService.getUsageStats('user-1', new Date('2026-10-19T15:30:00Z'));
+
+    expect(stats.resetAt).toEqual(new Date('2026-10-20T00:00:00Z'));
+    expect(stats.tokens.resetAt).toEqual(new Date('2026-11-01T00:00:00Z'));
+    expect(stats.remaining).toBe(50);
+  });
+
+  it('keeps quotas per user', async () => {
+    process.env.AI_EVENT_IDEAS_DAILY_LIMIT = '1';
+
+    await AIService.generateEventIdeas('user-1', params);
+    await AIService.generateEventIdeas('user-2', { ...params, groupSize: 8 });
+
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  describe('PrismaAIStore.consumeQuota', () => {
+    const key = { userId: 'user-1', scope: 'event_ideas', windowStart: new Date('2026-10-19T00:00:00Z') };
+
+    beforeEach(() => {
+      mockQuotaUsage.updateMany.mockReset();
+      mockQuotaUsage.createMany.mockReset();
+    });
+
+    it('increments the window row while under the limit', async () => {
+      mockQuotaUsage.updateMany.mockResolvedValueOnce({ count: 1 });
+
+      await expect(new PrismaAIStore().consumeQuota(key, 5)).resolves.toBe(true);
+      expect(mockQuotaUsage.createMany).not.toHaveBeenCalled();
+    });
+
+    it('retries the increment when a concurrent request created the window row first', async () => {
+      mockQuotaUsage.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+      mockQuotaUsage.createMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(new PrismaAIStore().consumeQuota(key, 5)).resolves.toBe(true);
+      expect(mockQuotaUsage.updateMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('denies once the window row is at the limit', async () => {
+      mockQuotaUsage.updateMany.mockResolvedValue({ count: 0 });
+      mockQuotaUsage.createMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(new PrismaAIStore().consumeQuota(key, 5)).resolves.toBe(false);
+      expect(mockQuotaUsage.updateMany).toHaveBeenCalledTimes(2);
+    });
+  });
+});
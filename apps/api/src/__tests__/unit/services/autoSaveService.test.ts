@@ -0,0 +1,73 @@
+import { Prisma } from '@prisma/client';
+import { getNextAutoSaveDate, getAutoSaveKey, isBehindPace } from '../../../services/autoSaveService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('AutoSaveService - scheduling', () => {
+  describe('getNextAutoSaveDate', () => {
+    const from = new Date('2026-03-10T09:00:00.000Z');
+
+    it('should add one day for DAILY', () => {
+      expect(getNextAutoSaveDate(from, 'DAILY').toISOString()).toBe('2026-03-11T09:00:00.000Z');
+    });
+
+    it('should add seven days for WEEKLY', () => {
+      expect(getNextAutoSaveDate(from, 'WEEKLY').toISOString()).toBe('2026-03-17T09:00:00.000Z');
+    });
+
+    it('should add fourteen days for BIWEEKLY', () => {
+      expect(getNextAutoSaveDate(from, 'BIWEEKLY').toISOString()).toBe('2026-03-24T09:00:00.000Z');
+    });
+
+    it('should add one calendar month for MONTHLY', () => {
+      expect(getNextAutoSaveDate(from, 'MONTHLY').toISOString()).toBe('2026-04-10T09:00:00.000Z');
+    });
+
+    it('should clamp MONTHLY to the end of shorter months', () => {
+      const endOfJanuary = new Date('2026-01-31T09:00:00.000Z');
+      expect(getNextAutoSaveDate(endOfJanuary, 'MONTHLY').toISOString()).toBe('2026-02-28T09:00:00.000Z');
+    });
+
+    it('should roll MONTHLY over the year boundary', () => {
+      const december = new Date('2026-12-15T09:00:00.000Z');
+      expect(getNextAutoSaveDate(december, 'MONTHLY').toISOString()).toBe('2027-01-15T09:00:00.000Z');
+    });
+  });
+
+  describe('getAutoSaveKey', () => {
+    it('should produce a stable key per period', () => {
+      const dueAt = new Date('2026-03-10T09:00:00.000Z');
+      expect(getAutoSaveKey(dueAt)).toBe(getAutoSaveKey(new Date(dueAt.getTime())));
+      expect(getAutoSaveKey(dueAt)).not.toBe(getAutoSaveKey(new Date(dueAt.getTime() + DAY_MS)));
+    });
+  });
+
+  describe('isBehindPace', () => {
+    const createdAt = new Date('2026-01-01T00:00:00.000Z');
+    const deadline = new Date('2026-01-31T00:00:00.000Z');
+    const midpoint = new Date('2026-01-16T00:00:00.000Z');
+
+    const goal = (currentAmount: number) => ({
+      createdAt,
+      deadline,
+      targetAmount: new Prisma.Decimal(300),
+      currentAmount: new Prisma.Decimal(currentAmount),
+    });
+
+    it('should flag goals well below the straight-line pace', () => {
+      expect(isBehindPace(goal(50), midpoint)).toBe(true);
+    });
+
+    it('should not flag goals on pace', () => {
+      expect(isBehindPace(goal(150), midpoint)).toBe(false);
+    });
+
+    it('should not flag goals without a deadline', () => {
+      expect(isBehindPace({ ...goal(0), deadline: null }, midpoint)).toBe(false);
+    });
+
+    it('should not flag goals in their first week', () => {
+      expect(isBehindPace(goal(0), new Date('2026-01-03T00:00:00.000Z'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CALDAV_FOREIGN_URL_ERROR, CalDAVClient, parseICSEvents } from '../../../services/caldavClient';
+import { buildCalendar } from '../../../utils/ics';
+
+/**
+ * A small Radicale-style CalDAV server: one user whose principal doubles as
+ * the calendar home, holding an event calendar, a task list and a plain folder
+ */
+function startServer(): Promise<{ url: string; server: http.Server; objects: Map<string, string> }> {
+  const objects = new Map<string, string>();
+  let nextEtag = 1;
+  const etags = new Map<string, string>();
+
+  const xmlEscape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const multistatus = (responses: string) =>
+    '<?xml version="1.0"?><D:multistatus xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav" ' +
+    `xmlns:ICAL="http://apple.com/ns/ical/">${responses}</D:multistatus>`;
+  const ok = (href: string, props: string) =>
+    `<D:response><D:href>${href}</D:href><D:propstat><D:prop>${props}</D:prop>` +
+    '<D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>';
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const auth = Buffer.from((req.headers.authorization ?? '').replace(/^Basic /, ''), 'base64').toString();
+      if (auth !== 'alice:app-password') {
+        res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="Radicale"' }).end();
+        return;
+      }
+
+      const path = req.url ?? '/';
+      const send207 = (xml: string) => res.writeHead(207, { 'Content-Type': 'text/xml' }).end(xml);
+
+      if (req.method === 'PROPFIND' && path === '/') {
+        // calendar-home-set isn't known here, so it comes back in a 404 propstat
+        send207(
+          multistatus(
+            '<D:response><D:href>/</D:href>' +
+              '<D:propstat><D:prop><D:current-user-principal><D:href>/alice/</D:href></D:current-user-principal>' +
+              '</D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat>' +
+              '<D:propstat><D:prop><C:calendar-home-set/></D:prop><D:status>HTTP/1.1 404 Not Found</D:status>' +
+              '</D:propstat></D:response>'
+          )
+        );
+      } else if (req.method === 'PROPFIND' && path === '/alice/' && req.headers.depth === '0') {
+        send207(multistatus(ok('/alice/', '<C:calendar-home-set><D:href>/alice/</D:href></C:calendar-home-set>')));
+      } else if (req.method === 'PROPFIND' && path === '/alice/') {
+        const writable = '<D:current-user-privilege-set><D:privilege><D:all/></D:privilege></D:current-user-privilege-set>';
+        send207(
+          multistatus(
+            ok('/alice/', '<D:resourcetype><D:collection/><D:principal/></D:resourcetype>') +
+              ok(
+                '/alice/work/',
+                '<D:resourcetype><D:collection/><C:calendar/></D:resourcetype><D:displayname>Work</D:displayname>' +
+                  '<ICAL:calendar-color>#3366FFFF</ICAL:calendar-color>' +
+                  `<C:supported-calendar-component-set><C:comp name="VEVENT"/></C:supported-calendar-component-set>${writable}`
+              ) +
+              ok(
+                '/alice/tasks/',
+                '<D:resourcetype><D:collection/><C:calendar/></D:resourcetype><D:displayname>Tasks</D:displayname>' +
+                  '<C:supported-calendar-component-set><C:comp name="VTODO"/></C:supported-calendar-component-set>'
+              ) +
+              ok('/alice/notes/', '<D:resourcetype><D:collection/></D:resourcetype>')
+          )
+        );
+      } else if (req.method === 'REPORT' && path === '/alice/work/') {
+        const responses = [...objects.entries()]
+          .filter(([href]) => href.startsWith(path))
+          .map(([href, ics]) =>
+            ok(href, `<D:getetag>${etags.get(href)}</D:getetag><C:calendar-data>${xmlEscape(ics)}</C:calendar-data>`)
+          );
+        send207(multistatus(responses.join('')));
+      } else if (req.method === 'PUT') {
+        if (req.headers['if-none-match'] === '*' && objects.has(path)) {
+          res.writeHead(412).end();
+          return;
+        }
+        const created = !objects.has(path);
+        const etag = `"${nextEtag++}"`;
+        objects.set(path, body);
+        etags.set(path, etag);
+        res.writeHead(created ? 201 : 204, { ETag: etag }).end();
+      } else if (req.method === 'DELETE') {
+        res.writeHead(objects.delete(path) ? 204 : 404).end();
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ url: `http://127.0.0.1:${port}/`, server, objects });
+    });
+  });
+}
+
+describe('CalDAVClient', () => {
+  let url: string;
+  let server: http.Server;
+  let objects: Map<string, string>;
+  let client: CalDAVClient;
+
+  beforeAll(async () => {
+    ({ url, server, objects } = await startServer());
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    objects.clear();
+    client = new CalDAVClient(url, 'alice', 'app-password');
+  });
+
+  it('discovers the event calendars through the principal', async () => {
+    const calendars = await client.listCalendars();
+
+    expect(calendars).toEqual([{ url: `${url}alice/work/`, displayName: 'Work', color: '#3366FF', readOnly: false }]);
+  });
+
+  it('rejects a wrong password', async () => {
+    await expect(new CalDAVClient(url, 'alice', 'wrong').listCalendars()).rejects.toThrow(
+      'CalDAV authentication failed'
+    );
+  });
+
+  it('writes an event and reads it back at the same instant', async () => {
+    const calendarUrl = `${url}alice/work/`;
+    const href = client.eventUrl(calendarUrl, 'event-1');
+    const ics = buildCalendar([
+      {
+        uid: 'event-1',
+        start: new Date('2026-11-15T00:00:00.000Z'),
+        end: new Date('2026-11-15T02:00:00.000Z'),
+        timeZone: 'America/New_York',
+        summary: 'Dinner, then drinks',
+      },
+    ]);
+
+    const saved = await client.putEvent(href, ics, { create: true });
+    expect(saved).toEqual({ href: `${url}alice/work/event-1.ics`, etag: expect.stringMatching(/^"\d+"$/) });
+    expect(objects.get('/alice/work/event-1.ics')).toContain('DTSTART;TZID=America/New_York:20261114T190000');
+
+    const events = await client.listEvents(
+      calendarUrl,
+      new Date('2026-11-14T00:00:00.000Z'),
+      new Date('2026-11-16T00:00:00.000Z')
+    );
+    expect(events).toEqual([
+      {
+        href: saved.href,
+        etag: saved.etag,
+        uid: 'event-1',
+        summary: 'Dinner, then drinks',
+        start: new Date('2026-11-15T00:00:00.000Z'),
+        end: new Date('2026-11-15T02:00:00.000Z'),
+        allDay: false,
+        transparent: false,
+        cancelled: false,
+      },
+    ]);
+  });
+
+  it('does not create over an existing event, but updates it', async () => {
+    const href = client.eventUrl(`${url}alice/work/`, 'event-1');
+    const ics = buildCalendar([{ uid: 'event-1', start: new Date(), end: new Date(), summary: 'Lunch' }]);
+
+    const created = await client.putEvent(href, ics, { create: true });
+    await expect(client.putEvent(href, ics, { create: true })).rejects.toThrow('failed with status 412');
+
+    const updated = await client.putEvent(href, ics, { etag: created.etag });
+    expect(updated.etag).not.toBe(created.etag);
+  });
+
+  it('deletes events, treating one already gone as deleted', async () => {
+    const href = client.eventUrl(`${url}alice/work/`, 'event-1');
+    await client.putEvent(href, buildCalendar([{ uid: 'event-1', start: new Date(), end: new Date(), summary: 'x' }]));
+
+    await client.deleteEvent(href);
+    expect(objects.size).toBe(0);
+    await expect(client.deleteEvent(href)).resolves.toBeUndefined();
+  });
+
+  it('refuses to send requests to another origin', async () => {
+    const metadata = 'http://169.254.169.254/latest/meta-data/';
+
+    await expect(client.listEvents(metadata, new Date(), new Date())).rejects.toThrow(CALDAV_FOREIGN_URL_ERROR);
+    await expect(client.deleteEvent(metadata)).rejects.toThrow(CALDAV_FOREIGN_URL_ERROR);
+    expect(() => client.ownUrl('//evil.example/alice/')).toThrow(CALDAV_FOREIGN_URL_ERROR);
+    expect(client.ownUrl('/alice/work/')).toBe(`${url}alice/work/`);
+  });
+
+  it('runs the URL check before every request', async () => {
+    const checkUrl = jest.fn().mockRejectedValue(new Error('Server URL must point to a public address'));
+    const checked = new CalDAVClient(url, 'alice', 'app-password', { checkUrl });
+
+    await expect(checked.listCalendars()).rejects.toThrow('Server URL must point to a public address');
+    expect(checkUrl).toHaveBeenCalledWith(url);
+  });
+});
+
+describe('parseICSEvents', () => {
+  it('reads all-day, free and cancelled events', () => {
+    const events = parseICSEvents(
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:a',
+        'DTSTART;VALUE=DATE:20261120',
+        'SUMMARY:Holiday\\, long weekend',
+        'TRANSP:TRANSPARENT',
+        'BEGIN:VALARM',
+        'TRIGGER:-PT15M',
+        'END:VALARM',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:b',
+        'DTSTART:20261121T150000Z',
+        'DURATION:PT1H30M',
+        'STATUS:CANCELLED',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n')
+    );
+
+    expect(events).toEqual([
+      {
+        uid: 'a',
+        summary: 'Holiday, long weekend',
+        start: new Date('2026-11-20T00:00:00.000Z'),
+        end: new Date('2026-11-21T00:00:00.000Z'),
+        allDay: true,
+        transparent: true,
+        cancelled: false,
+      },
+      {
+        uid: 'b',
+        summary: null,
+        start: new Date('2026-11-21T15:00:00.000Z'),
+        end: new Date('2026-11-21T16:30:00.000Z'),
+        allDay: false,
+        transparent: false,
+        cancelled: true,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { Event, EventOccurrence, EventStatus } from '@prisma/client';
+import { buildCalendarFeed } from '../../../services/calendarFeedService';
+
+const since = new Date('2026-01-01T00:00:00Z');
+
+const makeEvent = (overrides: Partial<Event> = {}, occurrences: Partial<EventOccurrence>[] = []) =>
+  ({
+    id: 'event-1',
+    title: 'Book club',
+    description: null,
+    date: new Date('2026-03-05T00:00:00Z'),
+    startTime: '19:00',
+    endTime: '21:00',
+    timezone: 'Europe/London',
+    locationName: null,
+    locationAddress: null,
+    status: EventStatus.CONFIRMED,
+    isRecurring: false,
+    recurringPattern: null,
+    icsSequence: 0,
+    updatedAt: new Date('2026-02-01T00:00:00Z'),
+    ...overrides,
+    occurrences: occurrences.map((occurrence) => ({
+      id: 'occ-1',
+      eventId: 'event-1',
+      occurrenceDate: new Date('2026-04-02T00:00:00Z'),
+      date: null,
+      startTime: null,
+      endTime: null,
+      status: null,
+      estimatedCost: null,
+      actualCost: null,
+      notes: null,
+      createdAt: new Date('2026-02-10T00:00:00Z'),
+      updatedAt: new Date('2026-02-10T00:00:00Z'),
+      ...occurrence,
+    })),
+  }) as unknown as Event & { occurrences: EventOccurrence[] };
+
+const contact = {
+  id: 'contact-1',
+  name: 'Alex',
+  birthday: new Date('1990-06-15T00:00:00Z'),
+  anniversary: null,
+  updatedAt: new Date('2026-01-15T00:00:00Z'),
+};
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+describe('buildCalendarFeed', () => {
+  it('publishes events in their own timezone', () => {
+    const { body } = buildCalendarFeed([makeEvent()], [], since);
+
+    expect(body).toContain('METHOD:PUBLISH');
+    expect(body).toContain('TZID:Europe/London');
+    expect(body).toContain('DTSTART;TZID=Europe/London:20260305T190000');
+    expect(body).toContain('STATUS:CONFIRMED');
+  });
+
+  it('publishes birthdays as yearly all-day events', () => {
+    const { body } = buildCalendarFeed([], [contact], since);
+
+    expect(body).toContain('UID:birthday-contact-1@socap');
+    expect(body).toContain("SUMMARY:Alex's birthday");
+    expect(body).toContain('DTSTART;VALUE=DATE:19900615');
+    expect(body).toContain('DTEND;VALUE=DATE:19900616');
+    expect(body).toContain('RRULE:FREQ=YEARLY');
+  });
+
+  it('keeps leap-day anniversaries in common years', () => {
+    const { body } = buildCalendarFeed(
+      [],
+      [{ ...contact, birthday: null, anniversary: new Date('2000-02-29T00:00:00Z') }],
+      since
+    );
+
+    expect(body).toContain("SUMMARY:Alex's anniversary");
+    expect(body).toContain('RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1');
+  });
+
+  it('writes cancelled occurrences as EXDATEs and other overrides as RECURRENCE-IDs', () => {
+    const event = makeEvent({ isRecurring: true, recurringPattern: { rrule: 'FREQ=MONTHLY;BYDAY=1TH' } }, [
+      { id: 'occ-1', occurrenceDate: new Date('2026-04-02T00:00:00Z'), status: EventStatus.CANCELLED },
+      { id: 'occ-2', occurrenceDate: new Date('2026-05-07T00:00:00Z'), startTime: '20:00', notes: 'Upstairs' },
+    ]);
+    const body = unfold(buildCalendarFeed([event], [], since).body);
+
+    expect(body).toContain('RRULE:FREQ=MONTHLY;BYDAY=1TH');
+    expect(body).toContain('EXDATE;TZID=Europe/London:20260402T190000');
+    expect(body).toContain('RECURRENCE-ID;TZID=Europe/London:20260507T190000');
+    expect(body).toContain('DTSTART;TZID=Europe/London:20260507T200000');
+    expect(body).toContain('DESCRIPTION:Upstairs');
+    expect(body.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+  });
+
+  it('keeps the same ETag until something changes', () => {
+    const first = buildCalendarFeed([makeEvent()], [contact], since);
+    const again = buildCalendarFeed([makeEvent()], [contact], since);
+    const changed = buildCalendarFeed(
+      [makeEvent({ title: 'Book club!', updatedAt: new Date('2026-03-01T00:00:00Z') })],
+      [contact],
+      since
+    );
+
+    expect(again.etag).toBe(first.etag);
+    expect(changed.etag).not.toBe(first.etag);
+    expect(first.lastModified).toEqual(new Date('2026-02-01T00:00:00Z'));
+    expect(changed.lastModified).toEqual(new Date('2026-03-01T00:00:00Z'));
+  });
+});
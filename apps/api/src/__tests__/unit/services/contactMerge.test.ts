@@ -0,0 +1,242 @@
+import { RSVPStatus } from '@prisma/client';
+import { prisma } from '../../../lib/prisma';
+import { ContactMergeService } from '../../../services/contactMergeService';
+import { RelationshipService } from '../../../services/relationshipService';
+
+jest.mock('../../../lib/prisma', () => ({
+  prisma: { contact: { findFirst: jest.fn() }, $transaction: jest.fn() },
+}));
+jest.mock('../../../services/relationshipService', () => ({
+  RelationshipService: { recalculateHealthScore: jest.fn() },
+}));
+
+const mockPrisma = prisma as unknown as { contact: { findFirst: jest.Mock }; $transaction: jest.Mock };
+
+const makeContact = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  userId: 'user-1',
+  name: 'Sam Lee',
+  phone: null,
+  email: null,
+  notes: null,
+  isDeleted: false,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+const makeRelationship = (id: string, contactId: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  userId: 'user-1',
+  contactId,
+  tier: 'FRIENDS',
+  relationshipType: null,
+  communicationFrequency: null,
+  customLabel: null,
+  sharedInterests: [],
+  importantDates: [],
+  lastContactDate: null,
+  ...overrides,
+});
+
+// Answers findMany by the contactId or attendeeId it's asked for
+const byOwner = (rows: Record<string, unknown[]>) =>
+  jest.fn(({ where }) => Promise.resolve(rows[where.contactId ?? where.attendeeId] ?? []));
+
+describe('ContactMergeService.mergeContacts', () => {
+  let tx: Record<string, Record<string, jest.Mock>>;
+
+  beforeEach(() => {
+    const count = () => jest.fn().mockResolvedValue({ count: 0 });
+    tx = {
+      relationship: { findUnique: jest.fn().mockResolvedValue(null), update: jest.fn(), delete: jest.fn() },
+      interaction: { count: jest.fn(), findMany: jest.fn().mockResolvedValue([]), deleteMany: count(), updateMany: count() },
+      eventAttendee: { findMany: jest.fn().mockResolvedValue([]), update: jest.fn(), delete: jest.fn() },
+      eventOccurrenceRSVP: { findMany: jest.fn().mockResolvedValue([]), deleteMany: count(), updateMany: count() },
+      schedulingPollVote: { findMany: jest.fn().mockResolvedValue([]), deleteMany: count(), updateMany: count() },
+      eventEmailDelivery: { updateMany: count() },
+      reminder: { updateMany: count() },
+      aIInsight: { updateMany: count() },
+      interactionFollowUp: { updateMany: count() },
+      contact: { update: jest.fn(({ where }) => Promise.resolve(makeContact(where.id))) },
+    };
+    mockPrisma.contact.findFirst.mockImplementation(({ where }) => Promise.resolve(makeContact(where.id)));
+    mockPrisma.$transaction.mockImplementation((fn) => fn(tx));
+    (RelationshipService.recalculateHealthScore as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const merge = (relationship?: 'survivor' | 'duplicate') =>
+    ContactMergeService.mergeContacts('user-1', 'keep', { duplicateId: 'dup', relationship });
+
+  it('soft-deletes the duplicate with a pointer to the survivor', async () => {
+    await merge();
+
+    expect(tx.contact.update).toHaveBeenCalledWith({
+      where: { id: 'dup' },
+      data: { isDeleted: true, mergedIntoId: 'keep', phoneHash: null, emailHash: null },
+    });
+  });
+
+  it('rejects merging a contact into itself before touching data', async () => {
+    await expect(
+      ContactMergeService.mergeContacts('user-1', 'keep', { duplicateId: 'keep' })
+    ).rejects.toThrow('Cannot merge a contact into itself');
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  describe('relationships', () => {
+    it('keeps the survivor relationship when only the survivor has one', async () => {
+      tx.relationship.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(where.userId_contactId.contactId === 'keep' ? makeRelationship('rel-keep', 'keep') : null)
+      );
+
+      const summary = await merge();
+
+      expect(tx.relationship.update).not.toHaveBeenCalled();
+      expect(tx.relationship.delete).not.toHaveBeenCalled();
+      expect(summary.moved.interactions).toBe(0);
+      expect(RelationshipService.recalculateHealthScore).toHaveBeenCalledWith('rel-keep');
+    });
+
+    it("hands the duplicate's relationship over when the survivor has none", async () => {
+      tx.relationship.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(where.userId_contactId.contactId === 'dup' ? makeRelationship('rel-dup', 'dup') : null)
+      );
+      tx.interaction.count.mockResolvedValue(3);
+
+      const summary = await merge();
+
+      expect(tx.relationship.update).toHaveBeenCalledWith({ where: { id: 'rel-dup' }, data: { contactId: 'keep' } });
+      expect(tx.relationship.delete).not.toHaveBeenCalled();
+      expect(summary.moved.interactions).toBe(3);
+      expect(RelationshipService.recalculateHealthScore).toHaveBeenCalledWith('rel-dup');
+    });
+
+    it('folds both relationships into one, deduping synced calls on source and external id', async () => {
+      tx.relationship.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.userId_contactId.contactId === 'keep'
+            ? makeRelationship('rel-keep', 'keep', { tier: 'CLOSE_FRIENDS', sharedInterests: ['hiking'] })
+            : makeRelationship('rel-dup', 'dup', { tier: 'ACQUAINTANCES', sharedInterests: ['hiking', 'chess'] })
+        )
+      );
+      tx.interaction.findMany.mockResolvedValue([{ source: 'CALL_LOG', externalId: 'call-1' }]);
+      tx.interaction.deleteMany.mockResolvedValue({ count: 1 });
+      tx.interaction.updateMany.mockResolvedValue({ count: 4 });
+
+      const summary = await merge('duplicate');
+
+      expect(tx.interaction.deleteMany).toHaveBeenCalledWith({
+        where: { relationshipId: 'rel-dup', OR: [{ source: 'CALL_LOG', externalId: 'call-1' }] },
+      });
+      expect(tx.interaction.updateMany).toHaveBeenCalledWith({
+        where: { relationshipId: 'rel-dup' },
+        data: { relationshipId: 'rel-keep' },
+      });
+      expect(tx.relationship.delete).toHaveBeenCalledWith({ where: { id: 'rel-dup' } });
+      expect(tx.relationship.update).toHaveBeenCalledWith({
+        where: { id: 'rel-keep' },
+        data: expect.objectContaining({ tier: 'ACQUAINTANCES', sharedInterests: ['hiking', 'chess'] }),
+      });
+      expect(summary.moved.interactions).toBe(4);
+      expect(summary.removed.interactions).toBe(1);
+    });
+  });
+
+  describe('event attendance', () => {
+    it('moves invitations to events only the duplicate was invited to', async () => {
+      tx.eventAttendee.findMany = byOwner({ dup: [{ id: 'att-dup', eventId: 'event-1', rsvpStatus: RSVPStatus.PENDING }] });
+
+      const summary = await merge();
+
+      expect(tx.eventAttendee.update).toHaveBeenCalledWith({ where: { id: 'att-dup' }, data: { contactId: 'keep' } });
+      expect(tx.eventAttendee.delete).not.toHaveBeenCalled();
+      expect(summary.moved.eventAttendees).toBe(1);
+      expect(summary.removed.eventAttendees).toBe(0);
+    });
+
+    it("keeps the duplicate's answer over the survivor's pending invitation", async () => {
+      tx.eventAttendee.findMany = byOwner({
+        keep: [{ id: 'att-keep', eventId: 'event-1', rsvpStatus: RSVPStatus.PENDING }],
+        dup: [{ id: 'att-dup', eventId: 'event-1', rsvpStatus: RSVPStatus.CONFIRMED }],
+      });
+
+      const summary = await merge();
+
+      expect(tx.eventAttendee.delete).toHaveBeenCalledWith({ where: { id: 'att-keep' } });
+      expect(tx.eventAttendee.update).toHaveBeenCalledWith({ where: { id: 'att-dup' }, data: { contactId: 'keep' } });
+      expect(tx.eventEmailDelivery.updateMany).toHaveBeenCalledWith({
+        where: { attendeeId: 'att-keep' },
+        data: { attendeeId: 'att-dup' },
+      });
+      expect(summary.moved.eventAttendees).toBe(1);
+      expect(summary.removed.eventAttendees).toBe(1);
+    });
+
+    it("keeps the survivor's invitation when both answered, taking over the duplicate's records", async () => {
+      tx.eventAttendee.findMany = byOwner({
+        keep: [{ id: 'att-keep', eventId: 'event-1', rsvpStatus: RSVPStatus.DECLINED }],
+        dup: [{ id: 'att-dup', eventId: 'event-1', rsvpStatus: RSVPStatus.CONFIRMED }],
+      });
+      tx.eventOccurrenceRSVP.findMany = byOwner({
+        'att-keep': [
+          { id: 'rsvp-keep-1', occurrenceId: 'occ-1', rsvpStatus: RSVPStatus.PENDING },
+          { id: 'rsvp-keep-2', occurrenceId: 'occ-2', rsvpStatus: RSVPStatus.MAYBE },
+        ],
+        'att-dup': [
+          { id: 'rsvp-dup-1', occurrenceId: 'occ-1', rsvpStatus: RSVPStatus.CONFIRMED },
+          { id: 'rsvp-dup-2', occurrenceId: 'occ-2', rsvpStatus: RSVPStatus.DECLINED },
+          { id: 'rsvp-dup-3', occurrenceId: 'occ-3', rsvpStatus: RSVPStatus.CONFIRMED },
+        ],
+      });
+
+      const summary = await merge();
+
+      expect(tx.eventAttendee.delete).toHaveBeenCalledWith({ where: { id: 'att-dup' } });
+      expect(tx.eventAttendee.update).not.toHaveBeenCalled();
+      expect(tx.eventOccurrenceRSVP.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['rsvp-keep-1', 'rsvp-dup-2'] } },
+      });
+      expect(tx.eventOccurrenceRSVP.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['rsvp-dup-1', 'rsvp-dup-3'] } },
+        data: { attendeeId: 'att-keep' },
+      });
+      expect(tx.eventEmailDelivery.updateMany).toHaveBeenCalledWith({
+        where: { attendeeId: 'att-dup' },
+        data: { attendeeId: 'att-keep' },
+      });
+      // Records move before the losing invitation is deleted
+      expect(tx.eventEmailDelivery.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.eventAttendee.delete.mock.invocationCallOrder[0]
+      );
+      expect(summary.moved.eventAttendees).toBe(0);
+      expect(summary.removed).toEqual({ interactions: 0, eventAttendees: 1, occurrenceRsvps: 2, pollVotes: 0 });
+    });
+
+    it('moves poll votes to the kept invitation, keeping its own vote on a shared option', async () => {
+      tx.eventAttendee.findMany = byOwner({
+        keep: [{ id: 'att-keep', eventId: 'event-1', rsvpStatus: RSVPStatus.PENDING }],
+        dup: [{ id: 'att-dup', eventId: 'event-1', rsvpStatus: RSVPStatus.PENDING }],
+      });
+      tx.schedulingPollVote.findMany = byOwner({ 'att-keep': [{ optionId: 'option-1' }] });
+      tx.schedulingPollVote.deleteMany.mockResolvedValue({ count: 1 });
+
+      const summary = await merge();
+
+      expect(tx.schedulingPollVote.deleteMany).toHaveBeenCalledWith({
+        where: { attendeeId: 'att-dup', optionId: { in: ['option-1'] } },
+      });
+      expect(tx.schedulingPollVote.updateMany).toHaveBeenCalledWith({
+        where: { attendeeId: 'att-dup' },
+        data: { attendeeId: 'att-keep' },
+      });
+      expect(tx.schedulingPollVote.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.eventAttendee.delete.mock.invocationCallOrder[0]
+      );
+      expect(summary.removed.pollVotes).toBe(1);
+    });
+  });
+});
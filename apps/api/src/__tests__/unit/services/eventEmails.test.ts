@@ -0,0 +1,162 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Event, EventStatus, RSVPStatus } from '@prisma/client';
+import { deliverEmail, renderEventEmail, setEmailTransport } from '../../../services/emailService';
+import { createTransportFromEnv, FileTransport, MemoryTransport } from '../../../services/emailTransports';
+import { buildEventInvitationICS } from '../../../services/eventEmailService';
+
+const event = {
+  id: 'event-1',
+  title: 'Birthday <dinner>',
+  description: 'Bring a gift',
+  date: new Date('2026-07-04T00:00:00Z'),
+  startTime: '18:00',
+  endTime: '21:00',
+  timezone: 'America/New_York',
+  locationName: 'Luigi’s',
+  locationAddress: '1 Main St',
+  status: EventStatus.PLANNING,
+  isRecurring: false,
+  recurringPattern: null,
+  icsSequence: 3,
+  updatedAt: new Date('2026-06-01T00:00:00Z'),
+} as unknown as Event;
+
+const organizer = { name: 'Sam Lee', email: 'sam@example.com' };
+const attendee = { name: 'Alex', email: 'alex@example.com', rsvpStatus: RSVPStatus.PENDING };
+
+describe('event emails', () => {
+  afterEach(() => setEmailTransport(null));
+
+  describe('deliverEmail', () => {
+    it('sends through the configured transport', async () => {
+      const transport = new MemoryTransport();
+      setEmailTransport(transport);
+
+      const result = await deliverEmail({
+        to: 'alex@example.com',
+        subject: 'Hello',
+        text: 'Hi',
+        attachments: [{ filename: 'invite.ics', content: 'BEGIN:VCALENDAR' }],
+      });
+
+      expect(result).toEqual({ success: true, messageId: 'memory-1' });
+      expect(transport.messages).toHaveLength(1);
+      expect(transport.messages[0].attachments?.[0].filename).toBe('invite.ics');
+    });
+
+    it('reports transport failures instead of throwing', async () => {
+      setEmailTransport({
+        name: 'broken',
+        send: async () => {
+          throw new Error('connection refused');
+        },
+      });
+
+      await expect(deliverEmail({ to: 'alex@example.com', subject: 'Hello', text: 'Hi' })).resolves.toEqual({
+        success: false,
+        error: 'connection refused',
+      });
+    });
+  });
+
+  describe('FileTransport', () => {
+    it('writes the message and its attachments to disk', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'emails-'));
+      try {
+        const { messageId } = await new FileTransport(dir).send({
+          from: 'noreply@example.com',
+          to: 'alex@example.com',
+          subject: 'Hello',
+          text: 'Hi',
+          attachments: [{ filename: 'invite.ics', content: 'BEGIN:VCALENDAR' }],
+        });
+
+        const messageDir = path.join(dir, messageId!);
+        const message = JSON.parse(await fs.readFile(path.join(messageDir, 'message.json'), 'utf8'));
+        expect(message.subject).toBe('Hello');
+        expect(message.attachments).toEqual([{ filename: 'invite.ics' }]);
+        expect(await fs.readFile(path.join(messageDir, 'invite.ics'), 'utf8')).toBe('BEGIN:VCALENDAR');
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('createTransportFromEnv', () => {
+    it('picks a transport from EMAIL_TRANSPORT', () => {
+      expect(createTransportFromEnv({ EMAIL_TRANSPORT: 'memory' }).name).toBe('memory');
+      expect(createTransportFromEnv({ EMAIL_TRANSPORT: 'file', EMAIL_CAPTURE_DIR: '/tmp/x' }).name).toBe('file');
+    });
+
+    it('requires credentials for the transports that need them', () => {
+      expect(() => createTransportFromEnv({ EMAIL_TRANSPORT: 'smtp' })).toThrow('SMTP_URL');
+      expect(() => createTransportFromEnv({ EMAIL_TRANSPORT: 'resend' })).toThrow('RESEND_API_KEY');
+      expect(() => createTransportFromEnv({ EMAIL_TRANSPORT: 'pigeon' })).toThrow('Unknown EMAIL_TRANSPORT');
+    });
+  });
+
+  describe('renderEventEmail', () => {
+    const context = {
+      attendeeName: 'Alex',
+      organizerName: 'Sam Lee',
+      eventTitle: 'Birthday <dinner>',
+      eventDate: event.date,
+      startTime: '18:00',
+      endTime: '21:00',
+      location: 'Luigi’s, 1 Main St',
+      rsvpUrl: 'https://example.com/rsvp/abc',
+    };
+
+    it('renders an invitation with the RSVP link', () => {
+      const email = renderEventEmail('INVITATION', context);
+
+      expect(email.subject).toBe("You're invited: Birthday <dinner>");
+      expect(email.text).toContain('When: Saturday, July 4, 2026, 18:00 – 21:00');
+      expect(email.text).toContain('RSVP: https://example.com/rsvp/abc');
+      expect(email.html).toContain('Birthday &lt;dinner&gt;');
+      expect(email.html).not.toContain('<dinner>');
+    });
+
+    it('leaves the RSVP link out of cancellations', () => {
+      const email = renderEventEmail('CANCELLATION', context);
+
+      expect(email.subject).toBe('Event Cancelled: Birthday <dinner>');
+      expect(email.text).not.toContain('https://example.com/rsvp/abc');
+    });
+  });
+
+  describe('buildEventInvitationICS', () => {
+    it('builds a REQUEST for the recipient only', () => {
+      const ics = buildEventInvitationICS(event, 'REQUEST', organizer, attendee);
+
+      expect(ics).toContain('METHOD:REQUEST');
+      expect(ics).toContain('UID:event-1@socap');
+      expect(ics).toContain('SEQUENCE:3');
+      expect(ics).toContain('DTSTART;TZID=America/New_York:20260704T180000');
+      expect(ics).toContain('BEGIN:VTIMEZONE');
+      expect(ics).toContain('STATUS:TENTATIVE');
+      expect(ics.replace(/\r\n /g, '')).toContain('PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:alex@example.com');
+      expect(ics.match(/ATTENDEE/g)).toHaveLength(1);
+    });
+
+    it('marks cancellations as CANCELLED', () => {
+      const ics = buildEventInvitationICS(event, 'CANCEL', organizer, attendee);
+
+      expect(ics).toContain('METHOD:CANCEL');
+      expect(ics).toContain('STATUS:CANCELLED');
+    });
+
+    it('includes the recurrence rule of recurring events', () => {
+      const ics = buildEventInvitationICS(
+        { ...event, isRecurring: true, recurringPattern: { frequency: 'WEEKLY' } },
+        'REQUEST',
+        organizer,
+        attendee
+      );
+
+      expect(ics).toContain('RRULE:FREQ=WEEKLY');
+    });
+  });
+});
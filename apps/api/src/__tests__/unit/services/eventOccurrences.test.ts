@@ -0,0 +1,147 @@
+import { Event, EventOccurrence, EventStatus, Prisma } from '@prisma/client';
+import {
+  expandEventOccurrences,
+  getEventRecurrenceRule,
+  normalizeEventRecurrencePattern,
+  toOccurrenceDate,
+} from '../../../services/eventOccurrenceService';
+import { RecurrenceRuleError } from '../../../errors/recurrenceErrors';
+
+const makeEvent = (overrides: Partial<Event> = {}): Event =>
+  ({
+    id: 'event-1',
+    userId: 'user-1',
+    title: 'Book club',
+    description: null,
+    date: new Date('2026-01-15T18:00:00Z'),
+    startTime: '18:00',
+    endTime: '20:00',
+    status: EventStatus.CONFIRMED,
+    estimatedCost: 50,
+    actualCost: null,
+    isRecurring: true,
+    recurringPattern: { rrule: 'FREQ=MONTHLY' },
+    ...overrides,
+  }) as unknown as Event;
+
+const makeOverride = (overrides: Partial<EventOccurrence>): EventOccurrence =>
+  ({
+    id: 'occ-1',
+    eventId: 'event-1',
+    occurrenceDate: new Date('2026-03-15T00:00:00Z'),
+    date: null,
+    startTime: null,
+    endTime: null,
+    status: null,
+    estimatedCost: null,
+    actualCost: null,
+    notes: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }) as EventOccurrence;
+
+const from = new Date('2026-01-01T00:00:00Z');
+const to = new Date('2026-04-30T23:59:59Z');
+
+describe('eventOccurrenceService', () => {
+  describe('expandEventOccurrences', () => {
+    it('expands a monthly series within the window, keeping the time of day', () => {
+      const result = expandEventOccurrences(makeEvent(), [], from, to);
+
+      expect(result.map((e) => e.date.toISOString())).toEqual([
+        '2026-01-15T18:00:00.000Z',
+        '2026-02-15T18:00:00.000Z',
+        '2026-03-15T18:00:00.000Z',
+        '2026-04-15T18:00:00.000Z',
+      ]);
+      expect(result[1].occurrenceDate).toEqual(new Date('2026-02-15T00:00:00Z'));
+      expect(result[1].occurrenceId).toBeNull();
+    });
+
+    it('passes non-recurring events through only when inside the window', () => {
+      const event = makeEvent({ isRecurring: false, recurringPattern: null });
+
+      expect(expandEventOccurrences(event, [], from, to)).toEqual([event]);
+      expect(expandEventOccurrences(event, [], new Date('2026-02-01T00:00:00Z'), to)).toEqual([]);
+    });
+
+    it('applies overrides to a single occurrence', () => {
+      const override = makeOverride({ status: EventStatus.CANCELLED, estimatedCost: new Prisma.Decimal(80) });
+      const result = expandEventOccurrences(makeEvent(), [override], from, to);
+
+      const march = result.find((e) => e.occurrenceDate?.toISOString() === '2026-03-15T00:00:00.000Z')!;
+      expect(march.status).toBe(EventStatus.CANCELLED);
+      expect(march.estimatedCost).toEqual(new Prisma.Decimal(80));
+      expect(march.occurrenceId).toBe('occ-1');
+      expect(result.filter((e) => e.status === EventStatus.CANCELLED)).toHaveLength(1);
+    });
+
+    it('moves a rescheduled occurrence out of the window', () => {
+      const override = makeOverride({ date: new Date('2026-05-02T18:00:00Z') });
+      const result = expandEventOccurrences(makeEvent(), [override], from, to);
+
+      expect(result).toHaveLength(3);
+      expect(result.some((e) => e.occurrenceDate?.getUTCMonth() === 2)).toBe(false);
+    });
+
+    it('includes an occurrence rescheduled into the window from outside it', () => {
+      const override = makeOverride({
+        occurrenceDate: new Date('2026-05-15T00:00:00Z'),
+        date: new Date('2026-04-28T18:00:00Z'),
+      });
+      const result = expandEventOccurrences(makeEvent(), [override], from, to);
+
+      expect(result).toHaveLength(5);
+      expect(result[4].date).toEqual(new Date('2026-04-28T18:00:00Z'));
+      expect(result[4].occurrenceDate).toEqual(new Date('2026-05-15T00:00:00Z'));
+    });
+
+    it('ignores overrides for dates the rule does not produce', () => {
+      const override = makeOverride({
+        occurrenceDate: new Date('2026-05-16T00:00:00Z'),
+        date: new Date('2026-04-28T18:00:00Z'),
+      });
+
+      expect(expandEventOccurrences(makeEvent(), [override], from, to)).toHaveLength(4);
+    });
+
+    it('supports the legacy frequency pattern', () => {
+      const event = makeEvent({ recurringPattern: { frequency: 'WEEKLY' } });
+      const result = expandEventOccurrences(event, [], from, new Date('2026-02-01T00:00:00Z'));
+
+      expect(result).toHaveLength(3);
+      expect(result[2].date).toEqual(new Date('2026-01-29T18:00:00Z'));
+    });
+
+    it('stops at the rule COUNT', () => {
+      const event = makeEvent({ recurringPattern: { rrule: 'FREQ=MONTHLY;COUNT=2' } });
+
+      expect(expandEventOccurrences(event, [], from, to)).toHaveLength(2);
+    });
+  });
+
+  describe('getEventRecurrenceRule', () => {
+    it('returns null for non-recurring events', () => {
+      expect(getEventRecurrenceRule({ isRecurring: false, recurringPattern: null })).toBeNull();
+    });
+
+    it('rejects patterns without a rule', () => {
+      expect(() => getEventRecurrenceRule({ isRecurring: true, recurringPattern: { foo: 'bar' } })).toThrow(
+        RecurrenceRuleError
+      );
+    });
+  });
+
+  describe('normalizeEventRecurrencePattern', () => {
+    it('stores legacy patterns as an rrule', () => {
+      expect(normalizeEventRecurrencePattern({ frequency: 'YEARLY' })).toEqual({ rrule: 'FREQ=YEARLY' });
+    });
+  });
+
+  describe('toOccurrenceDate', () => {
+    it('truncates to UTC midnight', () => {
+      expect(toOccurrenceDate(new Date('2026-03-15T23:30:00Z'))).toEqual(new Date('2026-03-15T00:00:00Z'));
+    });
+  });
+});
@@ -158,4 +158,49 @@ describe('DashboardService - Health Score', () => {
       expect(result.score).toBeLessThanOrEqual(expectedMax);
     });
   });
+
+  describe('health score snapshots', () => {
+    it('should record a snapshot with all component scores', async () => {
+      const snapshot = await dashboardService.recordHealthScoreSnapshot(testUser.id);
+
+      expect(snapshot.userId).toBe(testUser.id);
+      expect(snapshot.score).toBeGreaterThanOrEqual(0);
+      expect(snapshot.score).toBeLessThanOrEqual(100);
+      expect(snapshot.innerCircleScore).toBeGreaterThanOrEqual(0);
+      expect(snapshot.specialDatesScore).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should keep a single snapshot per user per day', async () => {
+      await dashboardService.recordHealthScoreSnapshot(testUser.id);
+      await dashboardService.recordHealthScoreSnapshot(testUser.id);
+
+      const count = await prisma.healthScoreSnapshot.count({
+        where: { userId: testUser.id },
+      });
+
+      expect(count).toBe(1);
+    });
+
+    it('should backfill past days and skip existing snapshots', async () => {
+      await prisma.user.update({
+        where: { id: testUser.id },
+        data: { createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000) },
+      });
+
+      const written = await dashboardService.backfillHealthScoreSnapshots(testUser.id, 5);
+      const rerun = await dashboardService.backfillHealthScoreSnapshots(testUser.id, 5);
+
+      expect(written).toBe(5);
+      expect(rerun).toBe(0);
+    });
+
+    it('should read history from stored snapshots only', async () => {
+      await dashboardService.recordHealthScoreSnapshot(testUser.id);
+
+      const history = await dashboardService.getHealthScoreHistory(testUser.id, 30);
+
+      expect(history).toHaveLength(1);
+      expect(history[0].components).toHaveProperty('reminderResponseScore');
+    });
+  });
 });
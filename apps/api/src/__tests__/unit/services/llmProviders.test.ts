@@ -0,0 +1,97 @@
+import { extractJSON, getFeatureModel, OpenAIProvider, setLLMProvider, StubProvider } from '../../../services/llmProviders';
+
+const request = {
+  feature: 'event_ideas' as const,
+  model: 'test-model',
+  messages: [{ role: 'user' as const, content: 'Give me ideas' }],
+  maxTokens: 100,
+  temperature: 0,
+  json: 'array' as const,
+};
+
+describe('extractJSON', () => {
+  it('finds JSON wrapped in prose or code fences', () => {
+    expect(extractJSON('Sure!\n```json\n{"a": 1}\n```', 'object')).toEqual({ a: 1 });
+    expect(extractJSON('Here: [1, 2]', 'array')).toEqual([1, 2]);
+  });
+
+  it('returns undefined for missing or malformed JSON', () => {
+    expect(extractJSON('no json here', 'object')).toBeUndefined();
+    expect(extractJSON('{"a": }', 'object')).toBeUndefined();
+  });
+});
+
+describe('StubProvider', () => {
+  it('replies with the fixture for the feature, parsed as JSON', async () => {
+    const provider = new StubProvider({ event_ideas: [{ name: 'Picnic' }] });
+    const completion = await provider.complete(request);
+
+    expect(completion.json).toEqual([{ name: 'Picnic' }]);
+    expect(completion).toMatchObject({ provider: 'stub', model: 'test-model' });
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('is deterministic, including token counts', async () => {
+    const provider = new StubProvider();
+    const [first, second] = [await provider.complete(request), await provider.complete(request)];
+
+    expect(second).toEqual(first);
+    expect(first.usage.totalTokens).toBe(first.usage.promptTokens + first.usage.completionTokens);
+    expect(first.usage.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('falls back to built-in fixtures for features not configured', async () => {
+    const completion = await new StubProvider({}).complete({ ...request, feature: 'relationship_tip', json: 'object' });
+    expect(completion.json).toMatchObject({ title: expect.any(String), actionItem: expect.any(String) });
+  });
+
+  it('throws for a feature explicitly set to null', async () => {
+    await expect(new StubProvider({ event_ideas: null }).complete(request)).rejects.toThrow('No stub fixture');
+  });
+});
+
+describe('getFeatureModel', () => {
+  afterEach(() => setLLMProvider(null));
+
+  it('has no provider for OpenAI without an API key', () => {
+    expect(getFeatureModel('event_ideas', {})).toBeNull();
+  });
+
+  it('uses OpenAI with the default model when a key is set', () => {
+    const target = getFeatureModel('event_ideas', { OPENAI_API_KEY: 'sk-test' });
+    expect(target?.provider).toBeInstanceOf(OpenAIProvider);
+    expect(target?.model).toBe('gpt-4o-mini');
+  });
+
+  it('lets each feature choose its own provider and model', () => {
+    const env = {
+      AI_PROVIDER: 'stub',
+      AI_MODEL: 'shared-model',
+      AI_EVENT_IDEAS_PROVIDER: 'openai-compatible',
+      AI_EVENT_IDEAS_MODEL: 'llama3',
+      AI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',
+    };
+
+    const ideas = getFeatureModel('event_ideas', env);
+    const tip = getFeatureModel('relationship_tip', env);
+
+    expect(ideas?.provider.name).toBe('openai-compatible');
+    expect(ideas?.model).toBe('llama3');
+    expect(tip?.provider).toBeInstanceOf(StubProvider);
+    expect(tip?.model).toBe('shared-model');
+  });
+
+  it('requires a base URL for the OpenAI-compatible provider', () => {
+    expect(() => getFeatureModel('event_ideas', { AI_PROVIDER: 'openai-compatible' })).toThrow('AI_COMPATIBLE_BASE_URL');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => getFeatureModel('event_ideas', { AI_PROVIDER: 'carrier-pigeon' })).toThrow('Unknown AI provider');
+  });
+
+  it('uses the override for every feature', () => {
+    const stub = new StubProvider();
+    setLLMProvider(stub);
+    expect(getFeatureModel('message_suggestions', { AI_MESSAGE_SUGGESTIONS_MODEL: 'm' })).toEqual({ provider: stub, model: 'm' });
+  });
+});
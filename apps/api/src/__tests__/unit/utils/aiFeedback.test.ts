@@ -0,0 +1,139 @@
+import { AIInsightType } from '@prisma/client';
+import {
+  buildMessagePreferencePrompt,
+  buildStarterPreferencePrompt,
+  deriveMessagePreferences,
+  deriveStarterPreferences,
+  FeedbackInsight,
+  summarizeFeedback,
+} from '../../../utils/aiFeedback';
+
+let clock = 0;
+
+const insight = (overrides: Partial<FeedbackInsight> = {}): FeedbackInsight => ({
+  type: AIInsightType.MESSAGE_SUGGESTION,
+  contactId: 'contact-1',
+  content: JSON.stringify({
+    context: 'check-in',
+    suggestions: { casual: 'hey you!', warm: 'miss you lots', thoughtful: 'been thinking of you' },
+  }),
+  context: null,
+  wasUsed: false,
+  feedback: null,
+  selectedOption: null,
+  usedContent: null,
+  createdAt: new Date(Date.UTC(2026, 0, 1) + clock++ * 60_000),
+  ...overrides,
+});
+
+describe('deriveMessagePreferences', () => {
+  it('needs consistent picks before calling a tone preferred', () => {
+    const twoPicks = [
+      insight({ wasUsed: true, selectedOption: 'warm' }),
+      insight({ wasUsed: true, selectedOption: 'warm' }),
+    ];
+    expect(deriveMessagePreferences(twoPicks).preferredTone).toBeNull();
+
+    const mostlyWarm = [
+      ...twoPicks,
+      insight({ wasUsed: true, selectedOption: 'warm' }),
+      insight({ wasUsed: true, selectedOption: 'casual' }),
+    ];
+    const preferences = deriveMessagePreferences(mostlyWarm);
+    expect(preferences.preferredTone).toBe('warm');
+    expect(preferences.toneCounts).toEqual({ casual: 1, warm: 3, thoughtful: 0 });
+  });
+
+  it('ignores suggestions that were never used', () => {
+    const preferences = deriveMessagePreferences([insight({ selectedOption: 'casual' })]);
+    expect(preferences.toneCounts.casual).toBe(0);
+    expect(preferences.sentExamples).toEqual([]);
+  });
+
+  it('prefers what was actually sent, then the picked suggestion, favouring the same contact', () => {
+    const preferences = deriveMessagePreferences(
+      [
+        insight({ wasUsed: true, selectedOption: 'casual', contactId: 'contact-2' }),
+        insight({ wasUsed: true, selectedOption: 'warm', usedContent: 'miss you lots, dinner soon?' }),
+      ],
+      { contactId: 'contact-1', messageContext: 'check-in' }
+    );
+
+    expect(preferences.sentExamples).toEqual(['miss you lots, dinner soon?', 'hey you!']);
+  });
+
+  it('reads the message context from either column', () => {
+    const preferences = deriveMessagePreferences(
+      [
+        insight({
+          wasUsed: true,
+          usedContent: 'happy birthday!!',
+          context: { messageContext: 'birthday' },
+          contactId: null,
+        }),
+        insight({ wasUsed: true, usedContent: 'how was the trip', contactId: null }),
+      ],
+      { messageContext: 'birthday' }
+    );
+
+    expect(preferences.sentExamples[0]).toBe('happy birthday!!');
+  });
+});
+
+describe('buildMessagePreferencePrompt', () => {
+  it('is empty with nothing learned', () => {
+    const nothing = { preferredTone: null, toneCounts: { casual: 0, warm: 0, thoughtful: 0 }, sentExamples: [] };
+    expect(buildMessagePreferencePrompt(nothing)).toBe('');
+  });
+
+  it('includes sent examples and the preferred tone', () => {
+    const prompt = buildMessagePreferencePrompt({
+      preferredTone: 'casual',
+      toneCounts: { casual: 4, warm: 0, thoughtful: 0 },
+      sentExamples: ['yo!'],
+    });
+    expect(prompt).toContain('- "yo!"');
+    expect(prompt).toContain('CASUAL option');
+  });
+});
+
+describe('starter preferences', () => {
+  it('collects used starters and topics from unhelpful sets', () => {
+    const preferences = deriveStarterPreferences(
+      [
+        insight({ type: AIInsightType.CONVERSATION_STARTER, wasUsed: true, usedContent: 'Seen any good films?' }),
+        insight({
+          type: AIInsightType.CONVERSATION_STARTER,
+          feedback: 'not_helpful',
+          content: JSON.stringify({ starters: [{ topic: 'Work', opener: 'How is work?' }] }),
+        }),
+      ],
+      'contact-1'
+    );
+
+    expect(preferences).toEqual({ used: ['Seen any good films?'], disliked: ['Work'] });
+    expect(buildStarterPreferencePrompt(preferences)).toContain('avoid these:\n- Work');
+  });
+});
+
+describe('summarizeFeedback', () => {
+  it('reports acceptance per feature and per message context', () => {
+    const analytics = summarizeFeedback([
+      insight({ wasUsed: true, selectedOption: 'warm', feedback: 'helpful' }),
+      insight(),
+      insight({ content: JSON.stringify({ context: 'birthday' }), wasUsed: true, selectedOption: 'casual' }),
+      insight({ type: AIInsightType.EVENT_IDEA, feedback: 'not_helpful' }),
+      insight({ type: AIInsightType.TOKEN_USAGE }),
+    ]);
+
+    expect(analytics.features).toEqual([
+      { type: AIInsightType.MESSAGE_SUGGESTION, generated: 3, used: 2, helpful: 1, notHelpful: 0, acceptanceRate: 67 },
+      { type: AIInsightType.EVENT_IDEA, generated: 1, used: 0, helpful: 0, notHelpful: 1, acceptanceRate: 0 },
+    ]);
+    expect(analytics.messageContexts).toEqual([
+      { context: 'check-in', generated: 2, used: 1, helpful: 1, notHelpful: 0, acceptanceRate: 50 },
+      { context: 'birthday', generated: 1, used: 1, helpful: 0, notHelpful: 0, acceptanceRate: 100 },
+    ]);
+    expect(analytics.tones).toEqual({ casual: 1, warm: 1, thoughtful: 0 });
+  });
+});
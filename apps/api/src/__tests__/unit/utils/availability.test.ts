@@ -0,0 +1,156 @@
+import {
+  AvailabilityParticipant,
+  findCommonFreeSlots,
+  getDefaultSlots,
+  rankSlots,
+  subtractRanges,
+} from '../../../utils/availability';
+import { getWorkingHours, getWorkingRanges, getWorkingWindow } from '../../../utils/workingHours';
+
+const at = (iso: string) => new Date(`${iso}:00.000Z`);
+
+const participant = (
+  name: string,
+  timeZone: string,
+  workingHours: unknown = null
+): AvailabilityParticipant => ({
+  userId: name.toLowerCase(),
+  name,
+  timeZone,
+  workingHours: getWorkingWindow(workingHours),
+});
+
+describe('Working hours', () => {
+  it('fills in defaults and drops invalid days', () => {
+    expect(getWorkingHours(null)).toEqual({ start: '09:00', end: '21:00', days: [0, 1, 2, 3, 4, 5, 6] });
+    expect(getWorkingHours({ start: '08:30', end: 'late', days: [5, 1, 9, 1] })).toEqual({
+      start: '08:30',
+      end: '21:00',
+      days: [1, 5],
+    });
+  });
+
+  it('returns working ranges in the local timezone, skipping days off', () => {
+    // Fri 13 - Sun 15 Nov 2026, weekdays only, New York (UTC-5)
+    const ranges = getWorkingRanges(
+      getWorkingWindow({ start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5] }),
+      'America/New_York',
+      at('2026-11-13T00:00'),
+      at('2026-11-16T00:00')
+    );
+
+    expect(ranges).toEqual([{ start: at('2026-11-13T14:00'), end: at('2026-11-13T22:00') }]);
+  });
+
+  it('keeps an overnight window that started the day before', () => {
+    const ranges = getWorkingRanges(
+      getWorkingWindow({ start: '18:00', end: '02:00', days: [5] }),
+      'UTC',
+      at('2026-11-14T00:00'),
+      at('2026-11-14T12:00')
+    );
+
+    expect(ranges).toEqual([{ start: at('2026-11-14T00:00'), end: at('2026-11-14T02:00') }]);
+  });
+});
+
+describe('Availability', () => {
+  const alice = participant('Alice', 'America/New_York');
+  const bruno = participant('Bruno', 'Europe/Lisbon');
+
+  it('finds time inside everyone\'s working hours and outside busy time', () => {
+    // New York 09:00-21:00 is 14:00-02:00 UTC; Lisbon 09:00-21:00 is 09:00-21:00 UTC
+    const slots = findCommonFreeSlots(
+      [alice, bruno],
+      [{ start: at('2026-11-16T15:00'), end: at('2026-11-16T16:00') }],
+      at('2026-11-16T00:00'),
+      at('2026-11-17T00:00'),
+      60
+    );
+
+    expect(slots).toEqual([
+      { start: at('2026-11-16T14:00'), end: at('2026-11-16T15:00'), durationMinutes: 60 },
+      { start: at('2026-11-16T16:00'), end: at('2026-11-16T21:00'), durationMinutes: 300 },
+    ]);
+  });
+
+  it('cuts overlapping busy intervals given in any order', () => {
+    const free = subtractRanges(
+      [{ start: at('2026-11-16T09:00'), end: at('2026-11-16T17:00') }],
+      [
+        { start: at('2026-11-16T12:00'), end: at('2026-11-16T13:00') },
+        { start: at('2026-11-16T08:00'), end: at('2026-11-16T10:00') },
+        { start: at('2026-11-16T12:30'), end: at('2026-11-16T14:00') },
+      ]
+    );
+
+    expect(free).toEqual([
+      { start: at('2026-11-16T10:00'), end: at('2026-11-16T12:00') },
+      { start: at('2026-11-16T14:00'), end: at('2026-11-16T17:00') },
+    ]);
+  });
+
+  it('scores each participant in their local time and explains it', () => {
+    const [slot] = rankSlots(
+      [{ start: at('2026-11-16T19:00'), end: at('2026-11-16T20:00'), durationMinutes: 60 }],
+      [alice, bruno]
+    );
+
+    expect(slot.participants).toEqual([
+      {
+        userId: 'alice',
+        name: 'Alice',
+        timeZone: 'America/New_York',
+        localStart: '2026-11-16T14:00',
+        localEnd: '2026-11-16T15:00',
+        score: 65,
+        reasons: ['Prime afternoon time', 'Weekday'],
+      },
+      {
+        userId: 'bruno',
+        name: 'Bruno',
+        timeZone: 'Europe/Lisbon',
+        localStart: '2026-11-16T19:00',
+        localEnd: '2026-11-16T20:00',
+        score: 55,
+        reasons: ['Weekday'],
+      },
+    ]);
+    // Half the mean (60) plus half the lowest (55)
+    expect(slot.score).toBe(58);
+    expect(slot.reasons).toEqual([
+      'Alice: Mon 2:00 PM - 3:00 PM (America/New_York) - Prime afternoon time, Weekday',
+      'Bruno: Mon 7:00 PM - 8:00 PM (Europe/Lisbon) - Weekday',
+    ]);
+  });
+
+  it('ranks a slot that is early for one participant below one that suits both', () => {
+    const tokyo = participant('Chiyo', 'Asia/Tokyo', { start: '07:00', end: '23:00', days: [0, 1, 2, 3, 4, 5, 6] });
+    const ranked = rankSlots(
+      [
+        // 07:00 in Tokyo, 22:00 the evening before in Lisbon
+        { start: at('2026-11-16T22:00'), end: at('2026-11-16T23:00'), durationMinutes: 60 },
+        // 18:00 in Tokyo, 09:00 in Lisbon
+        { start: at('2026-11-17T09:00'), end: at('2026-11-17T10:00'), durationMinutes: 60 },
+      ],
+      [bruno, tokyo]
+    );
+
+    expect(ranked.map((slot) => slot.start)).toEqual([at('2026-11-17T09:00'), at('2026-11-16T22:00')]);
+  });
+
+  it('suggests default blocks in the first participant\'s timezone within everyone\'s hours', () => {
+    const slots = getDefaultSlots(
+      [bruno, participant('Alice', 'America/New_York', { start: '09:00', end: '17:00', days: [1] })],
+      at('2026-11-16T00:00'),
+      at('2026-11-17T00:00'),
+      60
+    );
+
+    // Lisbon's 14:00-17:00 and 18:00-20:00 fall in New York's 09:00-17:00 (14:00-22:00 UTC)
+    expect(slots).toEqual([
+      { start: at('2026-11-16T14:00'), end: at('2026-11-16T17:00'), durationMinutes: 180 },
+      { start: at('2026-11-16T18:00'), end: at('2026-11-16T20:00'), durationMinutes: 120 },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { blindIndex, contactBlindIndexes, normalizeEmail, normalizePhone } from '../../../utils/blindIndex';
+
+describe('normalizePhone', () => {
+  it('formats numbers as E.164', () => {
+    expect(normalizePhone('(555) 123-4567')).toBe('+15551234567');
+    expect(normalizePhone('1-555-123-4567')).toBe('+15551234567');
+    expect(normalizePhone('+44 7700 900123')).toBe('+447700900123');
+    expect(normalizePhone('0044 7700 900123')).toBe('+447700900123');
+  });
+
+  it('applies the default country code and drops the trunk prefix', () => {
+    expect(normalizePhone('07700 900123', '44')).toBe('+447700900123');
+  });
+
+  it('rejects values that cannot be phone numbers', () => {
+    expect(normalizePhone('611')).toBeNull();
+    expect(normalizePhone('john')).toBeNull();
+    expect(normalizePhone('')).toBeNull();
+    expect(normalizePhone(null)).toBeNull();
+  });
+});
+
+describe('normalizeEmail', () => {
+  it('lowercases and trims', () => {
+    expect(normalizeEmail('  Jane.Doe@Example.com ')).toBe('jane.doe@example.com');
+    expect(normalizeEmail('jane')).toBeNull();
+  });
+});
+
+describe('blindIndex', () => {
+  const originalKey = process.env.BLIND_INDEX_KEY;
+
+  beforeEach(() => {
+    process.env.BLIND_INDEX_KEY = 'test-blind-index-key';
+  });
+
+  afterAll(() => {
+    if (originalKey) {
+      process.env.BLIND_INDEX_KEY = originalKey;
+    } else {
+      delete process.env.BLIND_INDEX_KEY;
+    }
+  });
+
+  it('is the same for differently formatted copies of a value', () => {
+    expect(blindIndex('phone', '(555) 123-4567')).toBe(blindIndex('phone', '+1 555 123 4567'));
+    expect(blindIndex('email', 'Jane@Example.com')).toBe(blindIndex('email', 'jane@example.com'));
+    expect(blindIndex('phone', '(555) 123-4567')).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('depends on the key', () => {
+    const before = blindIndex('email', 'jane@example.com');
+    process.env.BLIND_INDEX_KEY = 'another-key';
+    expect(blindIndex('email', 'jane@example.com')).not.toBe(before);
+  });
+
+  it('only indexes the fields being written', () => {
+    expect(contactBlindIndexes({ email: 'jane@example.com' })).toEqual({
+      emailHash: blindIndex('email', 'jane@example.com'),
+    });
+    expect(contactBlindIndexes({ phone: null })).toEqual({ phoneHash: null });
+  });
+});
@@ -0,0 +1,70 @@
+import { BusyInterval, normalizeDeviceBlocks, overlapping } from '../../../utils/busyTime';
+
+const at = (time: string) => new Date(`2026-11-14T${time}:00.000Z`);
+
+describe('overlapping', () => {
+  const interval = (calendarName: string, start: string, end: string): BusyInterval => ({
+    start: at(start),
+    end: at(end),
+    calendarId: calendarName.toLowerCase(),
+    calendarName,
+    source: 'account',
+  });
+
+  it('returns intervals overlapping the range, earliest first', () => {
+    const intervals = [
+      interval('Work', '18:30', '19:30'),
+      interval('Personal', '17:00', '18:15'),
+      interval('Gym', '17:30', '18:30'),
+    ];
+
+    expect(overlapping(intervals, at('18:00'), at('20:00')).map((i) => i.calendarName)).toEqual([
+      'Personal',
+      'Gym',
+      'Work',
+    ]);
+  });
+
+  it('ignores intervals that only touch the range', () => {
+    const intervals = [interval('Work', '16:00', '18:00'), interval('Personal', '20:00', '21:00')];
+
+    expect(overlapping(intervals, at('18:00'), at('20:00'))).toEqual([]);
+  });
+});
+
+describe('normalizeDeviceBlocks', () => {
+  it('keeps selected calendars, clips to the window and merges overlaps per calendar', () => {
+    const blocks = normalizeDeviceBlocks(
+      [
+        { calendarId: 'home', start: at('07:00'), end: at('09:00') },
+        { calendarId: 'home', start: at('08:30'), end: at('10:00') },
+        { calendarId: 'work', start: at('09:00'), end: at('11:00') },
+        { calendarId: 'birthdays', start: at('09:00'), end: at('10:00') },
+        { calendarId: 'work', start: at('22:00'), end: at('23:30') },
+      ],
+      ['home', 'work'],
+      at('08:00'),
+      at('23:00')
+    );
+
+    expect(blocks).toEqual([
+      { calendarId: 'home', start: at('08:00'), end: at('10:00') },
+      { calendarId: 'work', start: at('09:00'), end: at('11:00') },
+      { calendarId: 'work', start: at('22:00'), end: at('23:00') },
+    ]);
+  });
+
+  it('drops blocks outside the window or with no length', () => {
+    const blocks = normalizeDeviceBlocks(
+      [
+        { calendarId: 'home', start: at('05:00'), end: at('06:00') },
+        { calendarId: 'home', start: at('12:00'), end: at('12:00') },
+      ],
+      ['home'],
+      at('08:00'),
+      at('23:00')
+    );
+
+    expect(blocks).toEqual([]);
+  });
+});
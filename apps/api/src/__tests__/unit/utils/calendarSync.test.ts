@@ -0,0 +1,108 @@
+import {
+  SyncedFields,
+  changedFields,
+  decideSync,
+  eventSyncFields,
+  googleEventSyncFields,
+  resolveSyncAction,
+  syncHash,
+} from '../../../utils/calendarSync';
+
+const base: SyncedFields = {
+  date: '2026-11-14',
+  startTime: '19:00',
+  endTime: '21:00',
+  location: 'Blue Door Cafe',
+  cancelled: false,
+};
+
+describe('eventSyncFields', () => {
+  it('reads the UTC day and prefers the address as the location', () => {
+    const fields = eventSyncFields({
+      date: new Date('2026-11-14T00:00:00.000Z'),
+      startTime: '19:00',
+      endTime: '21:00',
+      locationName: 'Blue Door Cafe',
+      locationAddress: '12 Main St',
+      status: 'CANCELLED',
+    });
+
+    expect(fields).toEqual({
+      date: '2026-11-14',
+      startTime: '19:00',
+      endTime: '21:00',
+      location: '12 Main St',
+      cancelled: true,
+    });
+  });
+});
+
+describe('googleEventSyncFields', () => {
+  it('converts times into the event timezone', () => {
+    const fields = googleEventSyncFields(
+      {
+        status: 'confirmed',
+        location: ' Corner Bistro ',
+        start: { dateTime: '2026-11-15T02:30:00Z' },
+        end: { dateTime: '2026-11-15T04:00:00Z' },
+      },
+      base,
+      'America/New_York'
+    );
+
+    expect(fields).toEqual({
+      date: '2026-11-14',
+      startTime: '21:30',
+      endTime: '23:00',
+      location: 'Corner Bistro',
+      cancelled: false,
+    });
+  });
+
+  it('spans the whole day for all-day events', () => {
+    const fields = googleEventSyncFields({ start: { date: '2026-11-20' }, end: { date: '2026-11-21' } }, base, 'UTC');
+
+    expect(fields).toMatchObject({ date: '2026-11-20', startTime: '00:00', endTime: '23:59', location: null });
+  });
+
+  it('only marks deleted events as cancelled', () => {
+    expect(googleEventSyncFields({ status: 'cancelled' }, base, 'UTC')).toEqual({ ...base, cancelled: true });
+  });
+});
+
+describe('changedFields', () => {
+  it('lists the fields that differ', () => {
+    expect(changedFields(base, { ...base, startTime: '20:00', location: null })).toEqual(['startTime', 'location']);
+    expect(changedFields(base, { ...base })).toEqual([]);
+  });
+});
+
+describe('decideSync', () => {
+  const baseHash = syncHash(base);
+  const moved = { ...base, startTime: '20:00', endTime: '22:00' };
+  const relocated = { ...base, location: 'Corner Bistro' };
+
+  it('does nothing when both sides agree', () => {
+    expect(decideSync(baseHash, base, { ...base })).toBe('none');
+    expect(decideSync(baseHash, moved, { ...moved })).toBe('none');
+  });
+
+  it('pulls or pushes when only one side changed', () => {
+    expect(decideSync(baseHash, base, moved)).toBe('pull');
+    expect(decideSync(baseHash, moved, base)).toBe('push');
+  });
+
+  it('is a conflict when both sides changed or there is no base', () => {
+    expect(decideSync(baseHash, moved, relocated)).toBe('conflict');
+    expect(decideSync(null, base, moved)).toBe('conflict');
+  });
+});
+
+describe('resolveSyncAction', () => {
+  it('applies the conflict policy to conflicts only', () => {
+    expect(resolveSyncAction('conflict', 'SOCAP_WINS')).toBe('push');
+    expect(resolveSyncAction('conflict', 'GOOGLE_WINS')).toBe('pull');
+    expect(resolveSyncAction('conflict', 'ASK')).toBe('ask');
+    expect(resolveSyncAction('pull', 'SOCAP_WINS')).toBe('pull');
+  });
+});
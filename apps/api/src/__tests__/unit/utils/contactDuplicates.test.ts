@@ -0,0 +1,110 @@
+import {
+  findDuplicatePairs,
+  mergeConflicts,
+  nameSimilarity,
+  normalizeName,
+  resolveMergedFields,
+} from '../../../utils/contactDuplicates';
+
+const contact = (id: string, name: string, phoneHash: string | null = null, emailHash: string | null = null) => ({
+  id,
+  name,
+  phoneHash,
+  emailHash,
+});
+
+describe('normalizeName', () => {
+  it('ignores case, accents, punctuation and word order', () => {
+    expect(normalizeName('Doe, John')).toBe('doe john');
+    expect(normalizeName('  josé   GARCÍA ')).toBe('garcia jose');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('scores typos higher than different names', () => {
+    expect(nameSimilarity('Jonathan Smith', 'Jonathon Smith')).toBeGreaterThan(0.9);
+    expect(nameSimilarity('Jonathan Smith', 'Maria Lopez')).toBeLessThan(0.7);
+  });
+});
+
+describe('findDuplicatePairs', () => {
+  it('flags contacts sharing a phone or email', () => {
+    const pairs = findDuplicatePairs([
+      contact('a', 'Johnny', 'p1'),
+      contact('b', 'John Doe', 'p1', 'e1'),
+      contact('c', 'Work email', null, 'e1'),
+      contact('d', 'Someone Else', 'p2'),
+    ]);
+
+    expect(pairs).toEqual(
+      expect.arrayContaining([
+        { contactIds: ['a', 'b'], reasons: ['phone'], score: 1 },
+        { contactIds: ['b', 'c'], reasons: ['email'], score: 1 },
+      ])
+    );
+    expect(pairs).toHaveLength(2);
+  });
+
+  it('flags similar full names but not similar single names', () => {
+    const pairs = findDuplicatePairs([
+      contact('a', 'Jonathan Smith'),
+      contact('b', 'Smith, Jonathon'),
+      contact('c', 'Sam'),
+      contact('d', 'Pam'),
+    ]);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].contactIds).toEqual(['a', 'b']);
+    expect(pairs[0].reasons).toEqual(['name']);
+  });
+
+  it('combines reasons and ranks shared details first', () => {
+    const pairs = findDuplicatePairs([
+      contact('a', 'Ann Lee', 'p1'),
+      contact('b', 'ann lee', 'p1'),
+      contact('c', 'Robert Brown'),
+      contact('d', 'Robert Browne'),
+    ]);
+
+    expect(pairs[0]).toEqual({ contactIds: ['a', 'b'], reasons: ['phone', 'name'], score: 1 });
+    expect(pairs[1].contactIds).toEqual(['c', 'd']);
+    expect(pairs[1].score).toBeLessThan(1);
+  });
+});
+
+describe('mergeConflicts', () => {
+  it('lists fields both contacts fill in differently', () => {
+    expect(
+      mergeConflicts(
+        { name: 'John Doe', phone: '555-0100', email: null, birthday: new Date('1990-01-01') },
+        { name: 'John Doe ', phone: '555-0199', email: 'john@example.com', birthday: new Date('1990-01-01') }
+      )
+    ).toEqual(['phone']);
+  });
+});
+
+describe('resolveMergedFields', () => {
+  const survivor = { name: 'John Doe', phone: '555-0100', email: null, notes: '' };
+  const duplicate = { name: 'Johnny', phone: '555-0199', email: 'john@example.com', notes: 'Met at work' };
+
+  it("keeps the survivor's values and fills its gaps by default", () => {
+    const { data, fromDuplicate } = resolveMergedFields(survivor, duplicate);
+
+    expect(data).toMatchObject({ name: 'John Doe', phone: '555-0100', email: 'john@example.com', notes: 'Met at work' });
+    expect(fromDuplicate).toEqual(['email', 'notes']);
+  });
+
+  it('follows field choices', () => {
+    const { data, fromDuplicate } = resolveMergedFields(survivor, duplicate, { phone: 'duplicate', notes: 'survivor' });
+
+    expect(data).toMatchObject({ phone: '555-0199', email: 'john@example.com', notes: '' });
+    expect(fromDuplicate).toEqual(['phone', 'email']);
+  });
+
+  it('never empties the name', () => {
+    const { data, fromDuplicate } = resolveMergedFields(survivor, { ...duplicate, name: ' ' }, { name: 'duplicate' });
+
+    expect(data.name).toBe('John Doe');
+    expect(fromDuplicate).not.toContain('name');
+  });
+});
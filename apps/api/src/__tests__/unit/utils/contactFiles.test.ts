@@ -0,0 +1,194 @@
+import {
+  contactsToCsv,
+  contactsToVCards,
+  ExportContact,
+  isYearlessDate,
+  normalizeTier,
+  parseContactDate,
+  readCsvContacts,
+  readVCardContacts,
+  splitInterests,
+  suggestColumnMapping,
+} from '../../../utils/contactFiles';
+
+const exported: ExportContact = {
+  name: 'Jane Roe',
+  phone: '+1 555 0100',
+  email: 'jane@example.com',
+  birthday: new Date('1990-03-15T00:00:00Z'),
+  anniversary: new Date('2015-06-20T00:00:00Z'),
+  notes: 'Loves jazz, hates mornings',
+  bio: null,
+  profileImage: null,
+  tier: 'CLOSE_FRIENDS',
+  sharedInterests: ['hiking', 'jazz'],
+};
+
+describe('parseContactDate', () => {
+  it('reads ISO, US and European dates as UTC midnight', () => {
+    const expected = new Date('1990-03-15T00:00:00Z');
+    expect(parseContactDate('1990-03-15')).toEqual(expected);
+    expect(parseContactDate('19900315')).toEqual(expected);
+    expect(parseContactDate('1990-03-15T00:00:00Z')).toEqual(expected);
+    expect(parseContactDate('3/15/1990')).toEqual(expected);
+    expect(parseContactDate('15/3/1990')).toEqual(expected);
+    expect(parseContactDate('15.03.1990')).toEqual(expected);
+  });
+
+  it('rejects impossible dates and other text', () => {
+    expect(parseContactDate('1990-02-30')).toBeNull();
+    expect(parseContactDate('next tuesday')).toBeNull();
+  });
+});
+
+describe('isYearlessDate', () => {
+  it('spots dates written without a year', () => {
+    expect(isYearlessDate('--0315')).toBe(true);
+    expect(isYearlessDate('--03-15')).toBe(true);
+    expect(isYearlessDate('3/15')).toBe(true);
+    expect(isYearlessDate('1990-03-15')).toBe(false);
+  });
+});
+
+describe('normalizeTier and splitInterests', () => {
+  it('normalizes labels and lists', () => {
+    expect(normalizeTier(' Close friends ')).toBe('CLOSE_FRIENDS');
+    expect(normalizeTier('inner-circle')).toBe('INNER_CIRCLE');
+    expect(splitInterests('hiking, jazz; hiking ::: chess')).toEqual(['hiking', 'jazz', 'chess']);
+  });
+});
+
+describe('suggestColumnMapping', () => {
+  it('recognizes Google export headers', () => {
+    expect(
+      suggestColumnMapping(['First Name', 'Middle Name', 'Last Name', 'Birthday', 'Notes', 'E-mail 1 - Value', 'Phone 1 - Value'])
+    ).toEqual({
+      firstName: 'First Name',
+      middleName: 'Middle Name',
+      lastName: 'Last Name',
+      birthday: 'Birthday',
+      notes: 'Notes',
+      email: 'E-mail 1 - Value',
+      phone: 'Phone 1 - Value',
+    });
+  });
+
+  it('recognizes Outlook export headers, preferring the mobile number', () => {
+    expect(
+      suggestColumnMapping(['First Name', 'Last Name', 'E-mail Address', 'Home Phone', 'Mobile Phone', 'Anniversary'])
+    ).toEqual({
+      firstName: 'First Name',
+      lastName: 'Last Name',
+      email: 'E-mail Address',
+      phone: 'Mobile Phone',
+      anniversary: 'Anniversary',
+    });
+  });
+});
+
+describe('readCsvContacts', () => {
+  it('builds names from parts and takes the first of several values', () => {
+    const csv = [
+      'First Name,Last Name,E-mail 1 - Value,Phone 1 - Value,Birthday',
+      'John,Doe,john@example.com ::: jd@work.com,555-0100,0/0/00',
+    ].join('\n');
+
+    const { records } = readCsvContacts(csv);
+
+    expect(records).toEqual([
+      expect.objectContaining({
+        row: 2,
+        name: 'John Doe',
+        email: 'john@example.com',
+        phone: '555-0100',
+        birthday: null,
+      }),
+    ]);
+  });
+
+  it('follows a given mapping and rejects unknown columns', () => {
+    const csv = 'Who,Cell\nJane,555-0100';
+
+    expect(readCsvContacts(csv, { name: 'Who', phone: 'Cell' }).records[0]).toMatchObject({
+      name: 'Jane',
+      phone: '555-0100',
+    });
+    expect(() => readCsvContacts(csv, { name: 'Name' })).toThrow('Column not found: Name');
+  });
+});
+
+describe('readVCardContacts', () => {
+  it('reads names, preferred values and anniversaries from other apps', () => {
+    const vcf = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:Doe;John;Q;Dr.;',
+      'TEL;TYPE=HOME:555-0199',
+      'TEL;TYPE=CELL,pref:555-0100',
+      'EMAIL:john@example.com',
+      'BDAY:1985-07-04',
+      'item1.X-ABDATE:2010-06-12',
+      'item1.X-ABLABEL:_$!<Anniversary>!$_',
+      'PHOTO;ENCODING=b;TYPE=JPEG:/9j/4AAQSkZJRgABAQ',
+      'END:VCARD',
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'FN:Jane Roe',
+      'TEL;VALUE=uri:tel:+1-555-0100',
+      'ANNIVERSARY:--0620',
+      'END:VCARD',
+    ].join('\r\n');
+
+    const [john, jane] = readVCardContacts(vcf);
+
+    expect(john).toMatchObject({
+      row: 1,
+      name: 'Dr. John Q Doe',
+      phone: '555-0100',
+      email: 'john@example.com',
+      birthday: '1985-07-04',
+      anniversary: '2010-06-12',
+      profileImage: null,
+    });
+    expect(jane).toMatchObject({ name: 'Jane Roe', phone: '+1-555-0100', anniversary: '--0620' });
+  });
+});
+
+describe('export', () => {
+  it('writes CSV with custom columns that reads back in', () => {
+    const csv = contactsToCsv([exported]);
+
+    expect(csv.split('\r\n')[0]).toBe('Name,Phone,Email,Birthday,Anniversary,Tier,Shared Interests,Notes,Bio,Photo');
+    expect(readCsvContacts(csv).records[0]).toMatchObject({
+      name: 'Jane Roe',
+      phone: '+1 555 0100',
+      birthday: '1990-03-15',
+      anniversary: '2015-06-20',
+      tier: 'CLOSE_FRIENDS',
+      sharedInterests: ['hiking', 'jazz'],
+      notes: 'Loves jazz, hates mornings',
+    });
+  });
+
+  it('writes vCard 3.0 and 4.0 that read back in', () => {
+    const v3 = contactsToVCards([exported], '3.0');
+    const v4 = contactsToVCards([exported], '4.0');
+
+    expect(v3).toContain('N:Roe;Jane;;;\r\n');
+    expect(v3).toContain('X-ANNIVERSARY:2015-06-20\r\n');
+    expect(v3).toContain('NOTE:Loves jazz\\, hates mornings\r\n');
+    expect(v4).toContain('BDAY:19900315\r\n');
+    expect(v4).toContain('ANNIVERSARY:20150620\r\n');
+
+    for (const vcf of [v3, v4]) {
+      expect(readVCardContacts(vcf)[0]).toMatchObject({
+        name: 'Jane Roe',
+        email: 'jane@example.com',
+        tier: 'CLOSE_FRIENDS',
+        sharedInterests: ['hiking', 'jazz'],
+        notes: 'Loves jazz, hates mornings',
+      });
+      expect(parseContactDate(readVCardContacts(vcf)[0].anniversary!)).toEqual(exported.anniversary);
+    }
+  });
+});
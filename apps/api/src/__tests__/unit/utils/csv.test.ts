@@ -0,0 +1,42 @@
+import { formatCsv, parseCsv } from '../../../utils/csv';
+
+describe('parseCsv', () => {
+  it('reads quoted cells with commas, quotes and newlines', () => {
+    const text = 'Name,Notes\r\n"Doe, John","Said ""hi""\nthen left"\r\nJane,\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['Name', 'Notes'],
+      ['Doe, John', 'Said "hi"\nthen left'],
+      ['Jane', ''],
+    ]);
+  });
+
+  it('detects semicolon delimiters and skips a BOM and blank lines', () => {
+    expect(parseCsv('\uFEFFFirst Name;Last Name\n\nJohn;Doe')).toEqual([
+      ['First Name', 'Last Name'],
+      ['John', 'Doe'],
+    ]);
+  });
+});
+
+describe('formatCsv', () => {
+  it('quotes cells that need it', () => {
+    expect(formatCsv([['Name', 'Notes'], ['Doe, John', 'Said "hi"'], ['Jane', null]])).toBe(
+      'Name,Notes\r\n"Doe, John","Said ""hi"""\r\nJane,\r\n'
+    );
+  });
+
+  it('defuses formulas but leaves phone numbers alone', () => {
+    expect(formatCsv([['=HYPERLINK("x")', '+1 555 0100', '-5', '@SUM(A1)']])).toBe(
+      `"'=HYPERLINK(""x"")",+1 555 0100,-5,'@SUM(A1)\r\n`
+    );
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [
+      ['a', 'b,c'],
+      ['line\nbreak', '"quoted"'],
+    ];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+});
@@ -1,4 +1,15 @@
-import { encrypt, decrypt, encryptObject, decryptObject, isEncrypted, generateEncryptionKey } from '../../../utils/encryption';
+import crypto from 'crypto';
+import {
+  encrypt,
+  decrypt,
+  encryptObject,
+  decryptObject,
+  isEncrypted,
+  generateEncryptionKey,
+  getActiveKeyId,
+  needsReEncryption,
+  reEncrypt,
+} from '../../../utils/encryption';
 
 describe('Encryption Utils', () => {
   // Set a test encryption key
@@ -182,4 +193,95 @@ describe('Encryption Utils', () => {
       expect(key1).not.toBe(key2);
     });
   });
+
+  describe('key rotation', () => {
+    const oldKey = generateEncryptionKey();
+    const newKey = generateEncryptionKey();
+
+    // Ciphertext in the pre-keyring iv:authTag:data format
+    const legacyEncrypt = (text: string, hexKey: string) => {
+      const iv = crypto.randomBytes(16);
+      const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(hexKey, 'hex'), iv);
+      const data = cipher.update(text, 'utf8', 'hex') + cipher.final('hex');
+      return `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${data}`;
+    };
+
+    const useKeys = (keys: string, activeKeyId?: string) => {
+      process.env.ENCRYPTION_KEYS = keys;
+      if (activeKeyId) {
+        process.env.ENCRYPTION_KEY_ID = activeKeyId;
+      } else {
+        delete process.env.ENCRYPTION_KEY_ID;
+      }
+    };
+
+    afterEach(() => {
+      delete process.env.ENCRYPTION_KEYS;
+      delete process.env.ENCRYPTION_KEY_ID;
+    });
+
+    it('should tag new ciphertexts with the active key id', () => {
+      useKeys(`new:${newKey},old:${oldKey}`);
+
+      const encrypted = encrypt('tagged');
+      expect(getActiveKeyId()).toBe('new');
+      expect(encrypted.startsWith('v2:new:')).toBe(true);
+      expect(isEncrypted(encrypted)).toBe(true);
+    });
+
+    it('should decrypt a mix of legacy, old-key and new-key data', () => {
+      const legacy = legacyEncrypt('legacy value', oldKey);
+      useKeys(`old:${oldKey}`);
+      const fromOldKey = encrypt('old value');
+
+      useKeys(`new:${newKey},old:${oldKey}`);
+      const fromNewKey = encrypt('new value');
+
+      expect(isEncrypted(legacy)).toBe(true);
+      expect(decrypt(legacy)).toBe('legacy value');
+      expect(decrypt(fromOldKey)).toBe('old value');
+      expect(decrypt(fromNewKey)).toBe('new value');
+
+      const decrypted = decryptObject({ phone: legacy, email: fromOldKey, notes: fromNewKey }, ['phone', 'email', 'notes']);
+      expect(decrypted).toEqual({ phone: 'legacy value', email: 'old value', notes: 'new value' });
+    });
+
+    it('should re-encrypt only data not under the active key', () => {
+      useKeys(`old:${oldKey}`);
+      const fromOldKey = encrypt('rotate me');
+
+      useKeys(`new:${newKey},old:${oldKey}`);
+      const current = encrypt('already current');
+      const legacy = legacyEncrypt('legacy value', oldKey);
+
+      expect(needsReEncryption(fromOldKey)).toBe(true);
+      expect(needsReEncryption(legacy)).toBe(true);
+      expect(needsReEncryption(current)).toBe(false);
+      expect(needsReEncryption('plain text')).toBe(false);
+      expect(needsReEncryption(null)).toBe(false);
+
+      const rotated = reEncrypt(fromOldKey);
+      expect(rotated.startsWith('v2:new:')).toBe(true);
+      expect(decrypt(rotated)).toBe('rotate me');
+      expect(decrypt(reEncrypt(legacy))).toBe('legacy value');
+      expect(reEncrypt(current)).toBe(current);
+    });
+
+    it('should fail on data from a key that has left the keyring', () => {
+      useKeys(`old:${oldKey}`);
+      const fromOldKey = encrypt('gone');
+
+      useKeys(`new:${newKey}`);
+      expect(() => decrypt(fromOldKey)).toThrow('Failed to decrypt data');
+      expect(decryptObject({ phone: fromOldKey }, ['phone']).phone).toBeNull();
+    });
+
+    it('should use ENCRYPTION_KEY_ID to pick the active key', () => {
+      useKeys(`new:${newKey},old:${oldKey}`, 'old');
+      expect(encrypt('pinned').startsWith('v2:old:')).toBe(true);
+
+      useKeys(`new:${newKey}`, 'missing');
+      expect(() => encrypt('nowhere')).toThrow('Failed to encrypt data');
+    });
+  });
 });
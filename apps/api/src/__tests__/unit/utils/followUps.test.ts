@@ -0,0 +1,74 @@
+import { describeLocalDate, followUpKey, MAX_FOLLOW_UPS, normalizeFollowUps } from '../../../utils/followUps';
+
+// Monday 19 October 2026, 14:00 in New York
+const interactionDate = new Date('2026-10-19T18:00:00Z');
+const options = { interactionDate, timeZone: 'America/New_York', now: interactionDate };
+
+describe('describeLocalDate', () => {
+  it('uses the local calendar day', () => {
+    expect(describeLocalDate(new Date('2026-10-20T02:00:00Z'), 'America/New_York')).toBe('2026-10-19 (Monday)');
+    expect(describeLocalDate(new Date('2026-10-20T02:00:00Z'), 'Europe/London')).toBe('2026-10-20 (Tuesday)');
+  });
+});
+
+describe('normalizeFollowUps', () => {
+  it('schedules mentioned dates for the morning in the user timezone', () => {
+    const [followUp] = normalizeFollowUps(
+      [{ title: 'Ask how the interview went', detail: 'Interview is Thursday', dueDate: '2026-10-23' }],
+      options
+    );
+
+    expect(followUp).toEqual({
+      title: 'Ask how the interview went',
+      detail: 'Interview is Thursday',
+      excerpt: null,
+      dueDate: new Date('2026-10-23T13:00:00Z'),
+    });
+  });
+
+  it('falls back to a few days after the interaction without a usable date', () => {
+    const followUps = normalizeFollowUps(
+      { followUps: [{ title: 'Send the book link', dueDate: null }, { title: 'Call back', dueDate: '2026-02-30' }] },
+      options
+    );
+
+    expect(followUps.map((followUp) => followUp.dueDate)).toEqual([
+      new Date('2026-10-22T13:00:00Z'),
+      new Date('2026-10-22T13:00:00Z'),
+    ]);
+    expect(followUps[0].detail).toBe('Send the book link');
+  });
+
+  it('moves dates that have already passed to tomorrow morning', () => {
+    const [followUp] = normalizeFollowUps([{ title: 'Send photos', dueDate: '2026-10-01' }], options);
+    expect(followUp.dueDate).toEqual(new Date('2026-10-20T13:00:00Z'));
+  });
+
+  it('drops untitled and duplicate items and caps the list', () => {
+    const items = [
+      { title: '  ' },
+      'not an object',
+      { title: 'Send photos' },
+      { title: 'send photos' },
+      ...Array.from({ length: 10 }, (_, i) => ({ title: `Item ${i}` })),
+    ];
+
+    const followUps = normalizeFollowUps(items, options);
+    expect(followUps).toHaveLength(MAX_FOLLOW_UPS);
+    expect(followUps[0].title).toBe('Send photos');
+    expect(followUps[1].title).toBe('Item 0');
+  });
+
+  it('returns nothing for replies that are not a list', () => {
+    expect(normalizeFollowUps({ title: 'Send photos' }, options)).toEqual([]);
+    expect(normalizeFollowUps(undefined, options)).toEqual([]);
+    expect(normalizeFollowUps({ followUps: 'Send photos' }, options)).toEqual([]);
+  });
+});
+
+describe('followUpKey', () => {
+  it('matches titles that differ only in case and spacing', () => {
+    expect(followUpKey('  Send  the photos ')).toBe(followUpKey('send the Photos'));
+    expect(followUpKey('Send photos')).not.toBe(followUpKey('Send the photos'));
+  });
+});
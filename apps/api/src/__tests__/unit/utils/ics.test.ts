@@ -0,0 +1,226 @@
+import {
+  buildCalendar,
+  buildVTimezone,
+  escapeText,
+  findOffsetTransitions,
+  foldLine,
+  formatICSDateTime,
+  parseTimeOfDay,
+  resolveEventTimes,
+} from '../../../utils/ics';
+
+describe('ics', () => {
+  describe('escapeText', () => {
+    it('escapes commas, semicolons, backslashes and newlines', () => {
+      expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+    });
+  });
+
+  describe('foldLine', () => {
+    it('leaves short lines alone', () => {
+      expect(foldLine('SUMMARY:Dinner')).toBe('SUMMARY:Dinner');
+    });
+
+    it('folds long lines at 75 octets with a leading space', () => {
+      const folded = foldLine(`DESCRIPTION:${'x'.repeat(200)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach((line, i) => {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+        if (i > 0) expect(line.startsWith(' ')).toBe(true);
+      });
+      expect(lines.map((line, i) => (i > 0 ? line.slice(1) : line)).join('')).toBe(`DESCRIPTION:${'x'.repeat(200)}`);
+    });
+
+    it('never splits a multi-byte character', () => {
+      const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`);
+
+      folded.split('\r\n').forEach((line) => expect(line).not.toContain('�'));
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+    });
+  });
+
+  describe('parseTimeOfDay', () => {
+    it('parses 24-hour and 12-hour times', () => {
+      expect(parseTimeOfDay('18:30')).toEqual({ hour: 18, minute: 30 });
+      expect(parseTimeOfDay('7:05 PM')).toEqual({ hour: 19, minute: 5 });
+      expect(parseTimeOfDay('12:00 am')).toEqual({ hour: 0, minute: 0 });
+    });
+
+    it('rejects anything else', () => {
+      expect(parseTimeOfDay('evening')).toBeNull();
+      expect(parseTimeOfDay('25:00')).toBeNull();
+      expect(parseTimeOfDay(undefined)).toBeNull();
+    });
+  });
+
+  describe('resolveEventTimes', () => {
+    const day = new Date('2026-07-04T00:00:00Z');
+
+    it('converts local times in the event timezone to UTC', () => {
+      const { start, end, allDay } = resolveEventTimes(day, '18:00', '21:00', 'America/New_York');
+
+      expect(allDay).toBe(false);
+      expect(start.toISOString()).toBe('2026-07-04T22:00:00.000Z');
+      expect(end.toISOString()).toBe('2026-07-05T01:00:00.000Z');
+    });
+
+    it('rolls an end time before the start into the next day', () => {
+      const { start, end } = resolveEventTimes(day, '22:00', '01:00', 'UTC');
+
+      expect(end.getTime() - start.getTime()).toBe(3 * 60 * 60 * 1000);
+    });
+
+    it('falls back to an all-day event without a usable start time', () => {
+      const { start, end, allDay } = resolveEventTimes(day, '', '', 'UTC');
+
+      expect(allDay).toBe(true);
+      expect(start.toISOString()).toBe('2026-07-04T00:00:00.000Z');
+      expect(end.toISOString()).toBe('2026-07-05T00:00:00.000Z');
+    });
+  });
+
+  describe('buildCalendar', () => {
+    const now = new Date('2026-06-01T09:00:00Z');
+
+    it('builds a CRLF-terminated REQUEST calendar', () => {
+      const ics = buildCalendar(
+        [
+          {
+            uid: 'event-1@socap',
+            sequence: 2,
+            start: new Date('2026-07-04T22:00:00Z'),
+            end: new Date('2026-07-05T01:00:00Z'),
+            summary: 'Dinner, drinks',
+            location: 'The Pub; upstairs',
+            status: 'CONFIRMED',
+            rrule: 'FREQ=MONTHLY',
+            organizer: { name: 'Sam Lee', email: 'sam@example.com' },
+            attendees: [{ name: 'Alex', email: 'alex@example.com', partstat: 'ACCEPTED' }],
+          },
+        ],
+        { method: 'REQUEST', now }
+      );
+
+      expect(ics.endsWith('\r\n')).toBe(true);
+      expect(ics.split('\r\n').filter(Boolean)).toEqual([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//SoCap//Events//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:REQUEST',
+        'BEGIN:VEVENT',
+        'UID:event-1@socap',
+        'DTSTAMP:20260601T090000Z',
+        'SEQUENCE:2',
+        'DTSTART:20260704T220000Z',
+        'DTEND:20260705T010000Z',
+        'RRULE:FREQ=MONTHLY',
+        'SUMMARY:Dinner\\, drinks',
+        'LOCATION:The Pub\\; upstairs',
+        'STATUS:CONFIRMED',
+        'ORGANIZER;CN=Sam Lee:mailto:sam@example.com',
+        'ATTENDEE;CN=Alex;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=TRUE:mailto:al',
+        ' ex@example.com',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ]);
+    });
+
+    it('writes all-day events as DATE values', () => {
+      const ics = buildCalendar(
+        [
+          {
+            uid: 'event-2@socap',
+            start: new Date('2026-07-04T00:00:00Z'),
+            end: new Date('2026-07-05T00:00:00Z'),
+            allDay: true,
+            summary: 'Picnic',
+          },
+        ],
+        { now }
+      );
+
+      expect(ics).toContain('DTSTART;VALUE=DATE:20260704');
+      expect(ics).toContain('DTEND;VALUE=DATE:20260705');
+      expect(ics).not.toContain('METHOD:');
+    });
+  });
+
+  describe('VTIMEZONE', () => {
+    it('finds DST transitions to the minute', () => {
+      const transitions = findOffsetTransitions(
+        'America/New_York',
+        new Date('2026-01-01T00:00:00Z'),
+        new Date('2026-12-31T00:00:00Z')
+      );
+
+      expect(transitions).toEqual([
+        { at: new Date('2026-03-08T07:00:00Z'), offsetFrom: -300, offsetTo: -240 },
+        { at: new Date('2026-11-01T06:00:00Z'), offsetFrom: -240, offsetTo: -300 },
+      ]);
+    });
+
+    it('writes one observance per offset change', () => {
+      const lines = buildVTimezone('America/New_York', new Date('2026-01-01T00:00:00Z'), new Date('2026-12-31T00:00:00Z'));
+
+      expect(lines).toEqual([
+        'BEGIN:VTIMEZONE',
+        'TZID:America/New_York',
+        'BEGIN:STANDARD',
+        'DTSTART:20251231T190000',
+        'TZOFFSETFROM:-0500',
+        'TZOFFSETTO:-0500',
+        'TZNAME:EST',
+        'END:STANDARD',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20260308T020000',
+        'TZOFFSETFROM:-0500',
+        'TZOFFSETTO:-0400',
+        'TZNAME:EDT',
+        'END:DAYLIGHT',
+        'BEGIN:STANDARD',
+        'DTSTART:20261101T020000',
+        'TZOFFSETFROM:-0400',
+        'TZOFFSETTO:-0500',
+        'TZNAME:EST',
+        'END:STANDARD',
+        'END:VTIMEZONE',
+      ]);
+    });
+
+    it('writes a single observance for zones without DST', () => {
+      const lines = buildVTimezone('Asia/Kolkata', new Date('2026-01-01T00:00:00Z'), new Date('2027-01-01T00:00:00Z'));
+
+      expect(lines.filter((line) => line.startsWith('BEGIN:'))).toEqual(['BEGIN:VTIMEZONE', 'BEGIN:STANDARD']);
+      expect(lines).toContain('TZOFFSETTO:+0530');
+    });
+
+    it('writes zoned events with TZID and includes their VTIMEZONE', () => {
+      const ics = buildCalendar(
+        [
+          {
+            uid: 'event-3@socap',
+            start: new Date('2026-07-04T22:00:00Z'),
+            end: new Date('2026-07-05T01:00:00Z'),
+            timeZone: 'America/New_York',
+            summary: 'Dinner',
+            rrule: 'FREQ=WEEKLY',
+            exdates: [new Date('2026-07-11T22:00:00Z')],
+          },
+        ],
+        { now: new Date('2026-06-01T09:00:00Z') }
+      );
+
+      expect(ics).toContain('TZID:America/New_York');
+      expect(ics).toContain('DTSTART;TZID=America/New_York:20260704T180000');
+      expect(ics).toContain('EXDATE;TZID=America/New_York:20260711T180000');
+      expect(ics.indexOf('BEGIN:VTIMEZONE')).toBeLessThan(ics.indexOf('BEGIN:VEVENT'));
+    });
+  });
+
+  it('formats UTC date-times without separators', () => {
+    expect(formatICSDateTime(new Date('2026-01-02T03:04:05.678Z'))).toBe('20260102T030405Z');
+  });
+});
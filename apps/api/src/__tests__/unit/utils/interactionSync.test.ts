@@ -0,0 +1,28 @@
+import { summarizeSyncResults, syncedInteractionNotes } from '../../../utils/interactionSync';
+
+describe('syncedInteractionNotes', () => {
+  it('describes the direction when there is one', () => {
+    expect(syncedInteractionNotes('incoming', 'CALL')).toBe('incoming call');
+    expect(syncedInteractionNotes('outgoing', 'VIDEO_CALL')).toBe('outgoing video call');
+    expect(syncedInteractionNotes(undefined, 'CALL')).toBeNull();
+  });
+});
+
+describe('summarizeSyncResults', () => {
+  it('counts duplicates as skipped and lists failures', () => {
+    const summary = summarizeSyncResults([
+      { index: 0, externalId: 'a', status: 'created', interactionId: 'i1' },
+      { index: 1, externalId: 'b', status: 'duplicate', interactionId: 'i0' },
+      { index: 2, status: 'skipped', error: 'No matching contact' },
+      { index: 3, externalId: 'd', status: 'failed', error: 'Invalid date' },
+    ]);
+
+    expect(summary).toEqual({
+      created: 1,
+      skipped: 2,
+      duplicates: 1,
+      failed: 1,
+      errors: ['Item 3: Invalid date'],
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { Sentiment } from '@prisma/client';
+import {
+  buildSentimentTrend,
+  extractTopics,
+  inferSentiment,
+  normalizeTopics,
+  sentimentDirection,
+  suggestSharedInterests,
+} from '../../../utils/interactionTags';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2026-10-19T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY);
+
+describe('inferSentiment', () => {
+  it.each([
+    ['Great dinner, we laughed all night', Sentiment.POSITIVE],
+    ['She was stressed and upset about the move', Sentiment.NEGATIVE],
+    ["Wasn't fun, pretty awkward", Sentiment.NEGATIVE],
+    ['Good chat but he seemed tired', Sentiment.NEUTRAL],
+  ])('reads "%s" as %s', (notes, sentiment) => {
+    expect(inferSentiment(notes)).toBe(sentiment);
+  });
+
+  it('has no opinion without signal words or on auto-logged calls', () => {
+    expect(inferSentiment('Talked about the weekend')).toBeNull();
+    expect(inferSentiment('incoming call [auto:123]')).toBeNull();
+    expect(inferSentiment('')).toBeNull();
+  });
+});
+
+describe('topics', () => {
+  it('tags notes by keyword, most mentioned first', () => {
+    expect(extractTopics('Went hiking, then talked about her new job and the interview')).toEqual(['work', 'fitness']);
+    expect(extractTopics('[auto-logged]')).toEqual([]);
+  });
+
+  it('normalizes user and model topics', () => {
+    expect(normalizeTopics(['  Board Games ', 'board games', 42, 'Hiking'])).toEqual(['board games', 'hiking']);
+    expect(normalizeTopics('hiking')).toEqual([]);
+  });
+
+  it('suggests recurring topics that are not shared interests yet', () => {
+    const suggestions = suggestSharedInterests(
+      [
+        { date: daysAgo(1), topics: ['hiking', 'work'] },
+        { date: daysAgo(5), topics: ['hiking', 'movies'] },
+        { date: daysAgo(9), topics: ['work', 'movies', 'movies'] },
+        { date: daysAgo(20), topics: ['movies'] },
+      ],
+      ['Work']
+    );
+
+    expect(suggestions).toEqual([
+      { topic: 'movies', mentions: 3, lastMentioned: daysAgo(5) },
+      { topic: 'hiking', mentions: 2, lastMentioned: daysAgo(1) },
+    ]);
+  });
+});
+
+describe('sentiment trends', () => {
+  it('averages rated interactions per week, oldest first', () => {
+    const points = buildSentimentTrend(
+      [
+        { date: daysAgo(1), sentiment: Sentiment.POSITIVE },
+        { date: daysAgo(2), sentiment: Sentiment.NEGATIVE },
+        { date: daysAgo(3), sentiment: Sentiment.POSITIVE },
+        { date: daysAgo(4), sentiment: null },
+        { date: daysAgo(20), sentiment: Sentiment.NEUTRAL },
+        { date: daysAgo(60), sentiment: Sentiment.NEGATIVE },
+      ],
+      { now, weeks: 4 }
+    );
+
+    expect(points.map((point) => [point.average, point.count])).toEqual([
+      [null, 0],
+      [0, 1],
+      [null, 0],
+      [0.33, 3],
+    ]);
+    expect(points[0].weekStart).toEqual(daysAgo(28));
+  });
+
+  it('calls the direction from the earlier and recent halves', () => {
+    const trend = (sentiments: Array<Sentiment | null>) =>
+      buildSentimentTrend(
+        sentiments.map((sentiment, week) => ({ date: daysAgo((sentiments.length - week) * 7 - 1), sentiment })),
+        { now, weeks: sentiments.length }
+      );
+
+    expect(sentimentDirection(trend([Sentiment.NEGATIVE, Sentiment.NEUTRAL, Sentiment.POSITIVE, Sentiment.POSITIVE]))).toBe(
+      'improving'
+    );
+    expect(sentimentDirection(trend([Sentiment.POSITIVE, Sentiment.POSITIVE, Sentiment.NEUTRAL, Sentiment.NEGATIVE]))).toBe(
+      'declining'
+    );
+    expect(sentimentDirection(trend([null, null, Sentiment.POSITIVE, Sentiment.POSITIVE]))).toBe('steady');
+  });
+});
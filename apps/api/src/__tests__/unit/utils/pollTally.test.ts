@@ -0,0 +1,75 @@
+import { PollVoteInput, pickBestOption, tallyPoll } from '../../../utils/pollTally';
+
+const at = (time: string) => new Date(`2026-11-14T${time}:00.000Z`);
+
+const options = [
+  { id: 'lunch', start: at('12:00'), end: at('13:00') },
+  { id: 'afternoon', start: at('15:00'), end: at('17:00') },
+  { id: 'dinner', start: at('19:00'), end: at('21:00') },
+];
+
+describe('tallyPoll', () => {
+  it('counts votes per option and leaves the rest pending', () => {
+    const votes: PollVoteInput[] = [
+      { optionId: 'lunch', attendeeId: 'ana', choice: 'YES' },
+      { optionId: 'lunch', attendeeId: 'ben', choice: 'NO' },
+      { optionId: 'dinner', attendeeId: 'ana', choice: 'IF_NEEDED' },
+      { optionId: 'dinner', attendeeId: 'ben', choice: 'YES' },
+    ];
+
+    expect(tallyPoll(options, votes, ['ana', 'ben', 'cleo'])).toEqual([
+      { optionId: 'lunch', start: at('12:00'), end: at('13:00'), yes: 1, ifNeeded: 0, no: 1, pending: 1, best: false },
+      {
+        optionId: 'afternoon',
+        start: at('15:00'),
+        end: at('17:00'),
+        yes: 0,
+        ifNeeded: 0,
+        no: 0,
+        pending: 3,
+        best: false,
+      },
+      { optionId: 'dinner', start: at('19:00'), end: at('21:00'), yes: 1, ifNeeded: 1, no: 0, pending: 1, best: true },
+    ]);
+  });
+
+  it('ignores votes from guests no longer on the event', () => {
+    const [lunch] = tallyPoll(options, [{ optionId: 'lunch', attendeeId: 'gone', choice: 'YES' }], ['ana']);
+
+    expect(lunch).toMatchObject({ yes: 0, pending: 1, best: false });
+  });
+
+  it('breaks ties on availability with firm yeses', () => {
+    const tallies = tallyPoll(
+      options,
+      [
+        { optionId: 'lunch', attendeeId: 'ana', choice: 'IF_NEEDED' },
+        { optionId: 'afternoon', attendeeId: 'ana', choice: 'YES' },
+      ],
+      ['ana']
+    );
+
+    expect(tallies.filter((tally) => tally.best).map((tally) => tally.optionId)).toEqual(['afternoon']);
+  });
+});
+
+describe('pickBestOption', () => {
+  it('suggests the earliest of equally good options', () => {
+    const tallies = tallyPoll(
+      options,
+      [
+        { optionId: 'dinner', attendeeId: 'ana', choice: 'YES' },
+        { optionId: 'afternoon', attendeeId: 'ana', choice: 'YES' },
+      ],
+      ['ana']
+    );
+
+    expect(pickBestOption(tallies)?.optionId).toBe('afternoon');
+  });
+
+  it('suggests nothing until someone can make an option', () => {
+    const tallies = tallyPoll(options, [{ optionId: 'lunch', attendeeId: 'ana', choice: 'NO' }], ['ana']);
+
+    expect(pickBestOption(tallies)).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import dns, { LookupAddress } from 'dns';
+import https from 'https';
+import {
+  PUBLIC_URL_ERRORS,
+  assertPublicUrl,
+  isPrivateAddress,
+  publicHttpsAgent,
+  publicLookup,
+} from '../../../utils/publicUrl';
+
+describe('isPrivateAddress', () => {
+  it.each(['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0'])(
+    'blocks IPv4 %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+
+  it.each(['::1', '::', 'fe80::1', 'fd00::1', '::ffff:169.254.169.254', '::ffff:127.0.0.1'])(
+    'blocks IPv6 %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+
+  it('allows public addresses', () => {
+    expect(isPrivateAddress('17.253.144.10')).toBe(false);
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('requires https', async () => {
+    await expect(assertPublicUrl('http://17.253.144.10/')).rejects.toThrow(PUBLIC_URL_ERRORS.NOT_HTTPS);
+  });
+
+  it('rejects private and link-local hosts', async () => {
+    await expect(assertPublicUrl('https://169.254.169.254/latest/')).rejects.toThrow(
+      PUBLIC_URL_ERRORS.PRIVATE_ADDRESS
+    );
+    await expect(assertPublicUrl('https://[::1]:8443/')).rejects.toThrow(PUBLIC_URL_ERRORS.PRIVATE_ADDRESS);
+  });
+
+  it('resolves host names before checking them', async () => {
+    await expect(assertPublicUrl('https://localhost/')).rejects.toThrow(PUBLIC_URL_ERRORS.PRIVATE_ADDRESS);
+  });
+
+  it('accepts a public address', async () => {
+    await expect(assertPublicUrl('https://17.253.144.10/')).resolves.toBeUndefined();
+  });
+});
+
+describe('publicLookup', () => {
+  type LookupCallback = (error: null, found: LookupAddress[]) => void;
+  const resolveTo = (addresses: LookupAddress[]) =>
+    jest
+      .spyOn(dns, 'lookup')
+      .mockImplementation(((_host: string, _options: unknown, callback: LookupCallback) =>
+        callback(null, addresses)) as unknown as typeof dns.lookup);
+
+  const lookup = (options: dns.LookupOptions) =>
+    new Promise<{ error: Error | null; address: string | LookupAddress[]; family?: number }>((resolve) =>
+      publicLookup('caldav.example.com', options, (error, address, family) => resolve({ error, address, family }))
+    );
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fails when the host now resolves to a private address', async () => {
+    resolveTo([
+      { address: '17.253.144.10', family: 4 },
+      { address: '169.254.169.254', family: 4 },
+    ]);
+
+    const { error } = await lookup({});
+    expect(error?.message).toBe(PUBLIC_URL_ERRORS.PRIVATE_ADDRESS);
+  });
+
+  it('answers in the shape the socket asked for', async () => {
+    resolveTo([{ address: '17.253.144.10', family: 4 }]);
+
+    await expect(lookup({})).resolves.toEqual({ error: null, address: '17.253.144.10', family: 4 });
+    await expect(lookup({ all: true })).resolves.toEqual({
+      error: null,
+      address: [{ address: '17.253.144.10', family: 4 }],
+      family: undefined,
+    });
+  });
+
+  it('keeps the agent from connecting to a private address', async () => {
+    const error = await new Promise<Error>((resolve) =>
+      https.get('https://localhost:1/', { agent: publicHttpsAgent }).on('error', resolve)
+    );
+
+    expect(error.message).toBe(PUBLIC_URL_ERRORS.PRIVATE_ADDRESS);
+  });
+});
@@ -0,0 +1,332 @@
+import {
+  parseRRule,
+  formatRRule,
+  validateRecurrenceRule,
+  getOccurrences,
+  getNextOccurrence,
+  isOccurrence,
+  RecurrenceRule,
+} from '../../../utils/recurrence';
+import { RecurrenceRuleError } from '../../../errors/recurrenceErrors';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('Recurrence engine', () => {
+  describe('parseRRule', () => {
+    it('should parse all supported rule parts', () => {
+      const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;BYMONTH=1,6;COUNT=5;WKST=SU');
+      expect(rule).toEqual({
+        frequency: 'MONTHLY',
+        interval: 2,
+        byWeekday: [
+          { weekday: 2, nth: 2 },
+          { weekday: 5, nth: -1 },
+        ],
+        byMonth: [1, 6],
+        count: 5,
+        weekStart: 0,
+      });
+    });
+
+    it('should default INTERVAL to 1 and WKST to Monday', () => {
+      expect(parseRRule('FREQ=DAILY')).toEqual({ frequency: 'DAILY', interval: 1, weekStart: 1 });
+    });
+
+    it('should parse date-only and date-time UNTIL values', () => {
+      expect(parseRRule('FREQ=DAILY;UNTIL=20260331').until!.toISOString()).toBe('2026-03-31T23:59:59.000Z');
+      expect(parseRRule('FREQ=DAILY;UNTIL=20260331T120000Z').until!.toISOString()).toBe('2026-03-31T12:00:00.000Z');
+    });
+
+    it('should be case-insensitive', () => {
+      expect(parseRRule('freq=weekly;byday=mo,we').byWeekday).toEqual([{ weekday: 1 }, { weekday: 3 }]);
+    });
+
+    it.each([
+      ['', 'empty'],
+      ['INTERVAL=2', 'FREQ is required'],
+      ['FREQ=HOURLY', 'Unsupported frequency'],
+      ['FREQ=DAILY;INTERVAL=0', 'INTERVAL'],
+      ['FREQ=DAILY;COUNT=3;UNTIL=20260101', 'COUNT and UNTIL'],
+      ['FREQ=WEEKLY;BYDAY=2MO', 'ordinals'],
+      ['FREQ=MONTHLY;BYMONTHDAY=0', 'BYMONTHDAY'],
+      ['FREQ=MONTHLY;BYMONTHDAY=32', 'BYMONTHDAY'],
+      ['FREQ=YEARLY;BYMONTH=13', 'BYMONTH'],
+      ['FREQ=DAILY;BYSETPOS=1', 'BYSETPOS requires'],
+      ['FREQ=DAILY;BYHOUR=9', 'Unsupported rule part'],
+      ['FREQ=DAILY;FREQ=WEEKLY', 'Duplicate'],
+      ['FREQ=WEEKLY;BYDAY=XX', 'Invalid BYDAY'],
+    ])('should reject %p', (value, message) => {
+      expect(() => parseRRule(value)).toThrow(RecurrenceRuleError);
+      expect(() => parseRRule(value)).toThrow(message);
+    });
+  });
+
+  describe('formatRRule', () => {
+    it('should round-trip through parseRRule', () => {
+      const value = 'FREQ=MONTHLY;INTERVAL=3;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;UNTIL=20261231T235959Z;WKST=SU';
+      expect(formatRRule(parseRRule(value))).toBe(value);
+    });
+
+    it('should omit default parts', () => {
+      expect(formatRRule({ frequency: 'WEEKLY', interval: 1, weekStart: 1 })).toBe('FREQ=WEEKLY');
+    });
+  });
+
+  describe('validateRecurrenceRule', () => {
+    it('should validate rules built in code', () => {
+      const rule: RecurrenceRule = { frequency: 'DAILY', interval: 1.5, weekStart: 1 };
+      expect(() => validateRecurrenceRule(rule)).toThrow('INTERVAL');
+    });
+  });
+
+  describe('getOccurrences', () => {
+    it('should expand DAILY with an interval', () => {
+      const rule = parseRRule('FREQ=DAILY;INTERVAL=3;COUNT=4');
+      expect(iso(getOccurrences(rule, new Date('2026-01-30T09:00:00.000Z')))).toEqual([
+        '2026-01-30T09:00:00.000Z',
+        '2026-02-02T09:00:00.000Z',
+        '2026-02-05T09:00:00.000Z',
+        '2026-02-08T09:00:00.000Z',
+      ]);
+    });
+
+    it('should filter DAILY by weekday', () => {
+      const rule = parseRRule('FREQ=DAILY;BYDAY=SA,SU;COUNT=3');
+      // 2026-03-05 is a Thursday
+      expect(iso(getOccurrences(rule, new Date('2026-03-05T10:00:00.000Z')))).toEqual([
+        '2026-03-07T10:00:00.000Z',
+        '2026-03-08T10:00:00.000Z',
+        '2026-03-14T10:00:00.000Z',
+      ]);
+    });
+
+    it('should expand WEEKLY on the start weekday by default', () => {
+      const rule = parseRRule('FREQ=WEEKLY;COUNT=3');
+      expect(iso(getOccurrences(rule, new Date('2026-03-03T18:00:00.000Z')))).toEqual([
+        '2026-03-03T18:00:00.000Z',
+        '2026-03-10T18:00:00.000Z',
+        '2026-03-17T18:00:00.000Z',
+      ]);
+    });
+
+    it('should expand WEEKLY by weekday every other week', () => {
+      const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=5');
+      // Starts Wednesday 2026-03-04: first match is Friday of the same week
+      expect(iso(getOccurrences(rule, new Date('2026-03-04T08:00:00.000Z')))).toEqual([
+        '2026-03-06T08:00:00.000Z',
+        '2026-03-16T08:00:00.000Z',
+        '2026-03-20T08:00:00.000Z',
+        '2026-03-30T08:00:00.000Z',
+        '2026-04-03T08:00:00.000Z',
+      ]);
+    });
+
+    it('should use WKST to decide which weeks are skipped', () => {
+      // Starts Tuesday 2026-08-04; differs from the Monday-start result (RFC 5545 example)
+      const monday = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,SU;COUNT=4;WKST=MO');
+      const sunday = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,SU;COUNT=4;WKST=SU');
+      const dtstart = new Date('2026-08-04T09:00:00.000Z');
+
+      expect(iso(getOccurrences(monday, dtstart))).toEqual([
+        '2026-08-04T09:00:00.000Z',
+        '2026-08-09T09:00:00.000Z',
+        '2026-08-18T09:00:00.000Z',
+        '2026-08-23T09:00:00.000Z',
+      ]);
+      expect(iso(getOccurrences(sunday, dtstart))).toEqual([
+        '2026-08-04T09:00:00.000Z',
+        '2026-08-16T09:00:00.000Z',
+        '2026-08-18T09:00:00.000Z',
+        '2026-08-30T09:00:00.000Z',
+      ]);
+    });
+
+    it('should skip months without the start day for MONTHLY', () => {
+      const rule = parseRRule('FREQ=MONTHLY;COUNT=4');
+      expect(iso(getOccurrences(rule, new Date('2026-01-31T12:00:00.000Z')))).toEqual([
+        '2026-01-31T12:00:00.000Z',
+        '2026-03-31T12:00:00.000Z',
+        '2026-05-31T12:00:00.000Z',
+        '2026-07-31T12:00:00.000Z',
+      ]);
+    });
+
+    it('should support negative BYMONTHDAY for the last day of the month', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3');
+      expect(iso(getOccurrences(rule, new Date('2026-01-15T12:00:00.000Z')))).toEqual([
+        '2026-01-31T12:00:00.000Z',
+        '2026-02-28T12:00:00.000Z',
+        '2026-03-31T12:00:00.000Z',
+      ]);
+    });
+
+    it('should support ordinal weekdays for MONTHLY', () => {
+      const secondTuesday = parseRRule('FREQ=MONTHLY;BYDAY=2TU;COUNT=3');
+      expect(iso(getOccurrences(secondTuesday, new Date('2026-01-01T19:00:00.000Z')))).toEqual([
+        '2026-01-13T19:00:00.000Z',
+        '2026-02-10T19:00:00.000Z',
+        '2026-03-10T19:00:00.000Z',
+      ]);
+
+      const lastFriday = parseRRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3');
+      expect(iso(getOccurrences(lastFriday, new Date('2026-01-01T19:00:00.000Z')))).toEqual([
+        '2026-01-30T19:00:00.000Z',
+        '2026-02-27T19:00:00.000Z',
+        '2026-03-27T19:00:00.000Z',
+      ]);
+    });
+
+    it('should intersect BYMONTHDAY and BYDAY (Friday the 13th)', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13;COUNT=2');
+      expect(iso(getOccurrences(rule, new Date('2026-01-01T00:00:00.000Z')))).toEqual([
+        '2026-02-13T00:00:00.000Z',
+        '2026-03-13T00:00:00.000Z',
+      ]);
+    });
+
+    it('should apply BYSETPOS within each period (last weekday of the month)', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3');
+      expect(iso(getOccurrences(rule, new Date('2026-01-01T17:00:00.000Z')))).toEqual([
+        '2026-01-30T17:00:00.000Z',
+        '2026-02-27T17:00:00.000Z',
+        '2026-03-31T17:00:00.000Z',
+      ]);
+    });
+
+    it('should only recur Feb 29 in leap years for YEARLY', () => {
+      const rule = parseRRule('FREQ=YEARLY;COUNT=3');
+      expect(iso(getOccurrences(rule, new Date('2024-02-29T10:00:00.000Z')))).toEqual([
+        '2024-02-29T10:00:00.000Z',
+        '2028-02-29T10:00:00.000Z',
+        '2032-02-29T10:00:00.000Z',
+      ]);
+    });
+
+    it('should support YEARLY with BYMONTH and an ordinal weekday (US Thanksgiving)', () => {
+      const rule = parseRRule('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;COUNT=3');
+      expect(iso(getOccurrences(rule, new Date('2026-01-01T15:00:00.000Z')))).toEqual([
+        '2026-11-26T15:00:00.000Z',
+        '2027-11-25T15:00:00.000Z',
+        '2028-11-23T15:00:00.000Z',
+      ]);
+    });
+
+    it('should count YEARLY ordinal weekdays across the whole year without BYMONTH', () => {
+      const rule = parseRRule('FREQ=YEARLY;BYDAY=1MO,-1MO;COUNT=2');
+      expect(iso(getOccurrences(rule, new Date('2026-01-01T09:00:00.000Z')))).toEqual([
+        '2026-01-05T09:00:00.000Z',
+        '2026-12-28T09:00:00.000Z',
+      ]);
+    });
+
+    it('should stop at UNTIL inclusively', () => {
+      const rule = parseRRule('FREQ=DAILY;UNTIL=20260303T090000Z');
+      expect(iso(getOccurrences(rule, new Date('2026-03-01T09:00:00.000Z')))).toEqual([
+        '2026-03-01T09:00:00.000Z',
+        '2026-03-02T09:00:00.000Z',
+        '2026-03-03T09:00:00.000Z',
+      ]);
+    });
+
+    it('should not include dtstart when it does not match the rule', () => {
+      const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO;COUNT=1');
+      // 2026-03-04 is a Wednesday
+      expect(iso(getOccurrences(rule, new Date('2026-03-04T09:00:00.000Z')))).toEqual(['2026-03-09T09:00:00.000Z']);
+    });
+
+    it('should keep local wall-clock time across DST changes', () => {
+      const rule = parseRRule('FREQ=WEEKLY;COUNT=3');
+      // 09:00 in New York: EST before 2026-03-08, EDT after
+      const occurrences = getOccurrences(rule, new Date('2026-03-01T14:00:00.000Z'), { timeZone: 'America/New_York' });
+      expect(iso(occurrences)).toEqual([
+        '2026-03-01T14:00:00.000Z',
+        '2026-03-08T13:00:00.000Z',
+        '2026-03-15T13:00:00.000Z',
+      ]);
+    });
+
+    it('should use the local date in the rule timezone for BYDAY', () => {
+      // 2026-03-02T23:30Z is already Tuesday 08:30 in Tokyo
+      const rule = parseRRule('FREQ=WEEKLY;BYDAY=TU;COUNT=2');
+      const occurrences = getOccurrences(rule, new Date('2026-03-02T23:30:00.000Z'), { timeZone: 'Asia/Tokyo' });
+      expect(iso(occurrences)).toEqual(['2026-03-02T23:30:00.000Z', '2026-03-09T23:30:00.000Z']);
+    });
+
+    it('should return only occurrences inside a from/to window', () => {
+      const rule = parseRRule('FREQ=DAILY');
+      const occurrences = getOccurrences(rule, new Date('2026-01-01T09:00:00.000Z'), {
+        from: new Date('2026-06-10T00:00:00.000Z'),
+        to: new Date('2026-06-12T23:59:59.000Z'),
+      });
+      expect(iso(occurrences)).toEqual([
+        '2026-06-10T09:00:00.000Z',
+        '2026-06-11T09:00:00.000Z',
+        '2026-06-12T09:00:00.000Z',
+      ]);
+    });
+
+    it('should count occurrences before the window toward COUNT', () => {
+      const rule = parseRRule('FREQ=DAILY;COUNT=10');
+      const occurrences = getOccurrences(rule, new Date('2026-01-01T09:00:00.000Z'), {
+        from: new Date('2026-01-08T00:00:00.000Z'),
+      });
+      expect(iso(occurrences)).toEqual([
+        '2026-01-08T09:00:00.000Z',
+        '2026-01-09T09:00:00.000Z',
+        '2026-01-10T09:00:00.000Z',
+      ]);
+    });
+
+    it('should drop exdates without extending COUNT', () => {
+      const rule = parseRRule('FREQ=DAILY;COUNT=3');
+      const occurrences = getOccurrences(rule, new Date('2026-01-01T09:00:00.000Z'), {
+        exdates: [new Date('2026-01-02T09:00:00.000Z')],
+      });
+      expect(iso(occurrences)).toEqual(['2026-01-01T09:00:00.000Z', '2026-01-03T09:00:00.000Z']);
+    });
+
+    it('should respect limit and cap unbounded rules', () => {
+      const rule = parseRRule('FREQ=DAILY');
+      const dtstart = new Date('2026-01-01T09:00:00.000Z');
+      expect(getOccurrences(rule, dtstart, { limit: 5 })).toHaveLength(5);
+      expect(getOccurrences(rule, dtstart)).toHaveLength(1000);
+    });
+
+    it('should terminate for rules that never match', () => {
+      const rule = parseRRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30');
+      expect(getOccurrences(rule, new Date('2026-01-01T00:00:00.000Z'))).toEqual([]);
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO,TH;COUNT=4');
+    const dtstart = new Date('2026-03-02T09:00:00.000Z'); // Monday
+
+    it('should return the first occurrence strictly after a date', () => {
+      expect(getNextOccurrence(rule, dtstart, dtstart)!.toISOString()).toBe('2026-03-05T09:00:00.000Z');
+      expect(getNextOccurrence(rule, dtstart, new Date('2026-03-06T00:00:00.000Z'))!.toISOString()).toBe(
+        '2026-03-09T09:00:00.000Z'
+      );
+    });
+
+    it('should skip exdates', () => {
+      const next = getNextOccurrence(rule, dtstart, dtstart, { exdates: [new Date('2026-03-05T09:00:00.000Z')] });
+      expect(next!.toISOString()).toBe('2026-03-09T09:00:00.000Z');
+    });
+
+    it('should return null once the series has ended', () => {
+      expect(getNextOccurrence(rule, dtstart, new Date('2026-03-12T09:00:00.000Z'))).toBeNull();
+    });
+  });
+
+  describe('isOccurrence', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYDAY=1SA');
+    const dtstart = new Date('2026-01-03T10:00:00.000Z');
+
+    it('should match generated instants exactly', () => {
+      expect(isOccurrence(rule, dtstart, new Date('2026-02-07T10:00:00.000Z'))).toBe(true);
+      expect(isOccurrence(rule, dtstart, new Date('2026-02-07T11:00:00.000Z'))).toBe(false);
+      expect(isOccurrence(rule, dtstart, new Date('2026-02-14T10:00:00.000Z'))).toBe(false);
+    });
+  });
+});
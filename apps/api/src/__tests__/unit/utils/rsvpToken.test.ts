@@ -0,0 +1,68 @@
+import { signRSVPToken, verifyRSVPToken } from '../../../utils/rsvpToken';
+import { RSVPTokenError } from '../../../errors/rsvpErrors';
+
+const SECRET = 'test-rsvp-secret';
+const now = new Date('2026-03-01T12:00:00Z');
+const payload = {
+  attendeeId: 'attendee-1',
+  version: 2,
+  expiresAt: new Date('2026-03-10T00:00:00Z'),
+};
+
+describe('rsvpToken', () => {
+  it('round-trips a signed payload', () => {
+    const token = signRSVPToken(payload, SECRET);
+
+    expect(verifyRSVPToken(token, SECRET, now)).toEqual(payload);
+  });
+
+  it('round-trips a poll-scoped payload', () => {
+    const pollPayload = { ...payload, pollId: 'poll-1' };
+    const token = signRSVPToken(pollPayload, SECRET);
+
+    expect(verifyRSVPToken(token, SECRET, now)).toEqual(pollPayload);
+  });
+
+  it('produces URL-safe tokens', () => {
+    expect(signRSVPToken(payload, SECRET)).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+  });
+
+  it('rejects tokens signed with another secret', () => {
+    const token = signRSVPToken(payload, 'other-secret');
+
+    expect(() => verifyRSVPToken(token, SECRET, now)).toThrow(RSVPTokenError);
+  });
+
+  it('rejects a tampered payload', () => {
+    const [, signature] = signRSVPToken(payload, SECRET).split('.');
+    const forged = Buffer.from(JSON.stringify({ a: 'attendee-2', v: 2, exp: 1900000000 })).toString('base64url');
+
+    expect(() => verifyRSVPToken(`${forged}.${signature}`, SECRET, now)).toThrow('Invalid RSVP link');
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(() => verifyRSVPToken('not-a-token', SECRET, now)).toThrow(RSVPTokenError);
+    expect(() => verifyRSVPToken('a.b.c', SECRET, now)).toThrow(RSVPTokenError);
+  });
+
+  it('reports expired tokens with the EXPIRED code', () => {
+    const token = signRSVPToken(payload, SECRET);
+
+    try {
+      verifyRSVPToken(token, SECRET, new Date('2026-03-10T00:00:01Z'));
+      fail('expected verifyRSVPToken to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(RSVPTokenError);
+      expect((error as RSVPTokenError).code).toBe('EXPIRED');
+    }
+  });
+
+  it('throws when no secret is configured', () => {
+    const original = process.env.RSVP_TOKEN_SECRET;
+    delete process.env.RSVP_TOKEN_SECRET;
+
+    expect(() => signRSVPToken(payload)).toThrow('RSVP_TOKEN_SECRET environment variable is not set');
+
+    if (original !== undefined) process.env.RSVP_TOKEN_SECRET = original;
+  });
+});
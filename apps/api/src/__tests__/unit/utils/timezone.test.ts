@@ -0,0 +1,134 @@
+import {
+  isValidTimezone,
+  resolveTimezone,
+  getZonedParts,
+  zonedTimeToUtc,
+  startOfZonedDay,
+  calendarDaysBetween,
+} from '../../../utils/timezone';
+import { isQuietTime, getQuietHoursEnd, getQuietWindow } from '../../../utils/quietHours';
+
+describe('Timezone utilities', () => {
+  describe('isValidTimezone / resolveTimezone', () => {
+    it('should accept IANA names and reject unknown ones', () => {
+      expect(isValidTimezone('Asia/Tokyo')).toBe(true);
+      expect(isValidTimezone('Not/AZone')).toBe(false);
+      expect(isValidTimezone('')).toBe(false);
+    });
+
+    it('should fall back to UTC for invalid timezones', () => {
+      expect(resolveTimezone('Europe/Berlin')).toBe('Europe/Berlin');
+      expect(resolveTimezone('Mars/Olympus')).toBe('UTC');
+      expect(resolveTimezone(null)).toBe('UTC');
+    });
+  });
+
+  describe('getZonedParts', () => {
+    it('should return the local date and time in Tokyo', () => {
+      const parts = getZonedParts(new Date('2026-03-10T23:30:00.000Z'), 'Asia/Tokyo');
+      expect(parts).toMatchObject({ year: 2026, month: 3, day: 11, hour: 8, minute: 30, weekday: 3 });
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should convert a local time to UTC', () => {
+      const result = zonedTimeToUtc({ year: 2026, month: 7, day: 1, hour: 8 }, 'America/New_York');
+      expect(result.toISOString()).toBe('2026-07-01T12:00:00.000Z');
+    });
+
+    it('should resolve times skipped by spring-forward to after the gap', () => {
+      // 2026-03-08 02:30 does not exist in New York
+      const result = zonedTimeToUtc({ year: 2026, month: 3, day: 8, hour: 2, minute: 30 }, 'America/New_York');
+      expect(result.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+      expect(getZonedParts(result, 'America/New_York')).toMatchObject({ hour: 3, minute: 30 });
+    });
+
+    it('should resolve repeated times on fall-back to the first occurrence', () => {
+      // 2026-11-01 01:30 happens twice in New York (EDT then EST)
+      const result = zonedTimeToUtc({ year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, 'America/New_York');
+      expect(result.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    });
+  });
+
+  describe('startOfZonedDay', () => {
+    it('should return local midnight as a UTC instant', () => {
+      const now = new Date('2026-03-10T23:30:00.000Z');
+      expect(startOfZonedDay(now, 'Asia/Tokyo').toISOString()).toBe('2026-03-10T15:00:00.000Z');
+      expect(startOfZonedDay(now, 'Asia/Tokyo', 1).toISOString()).toBe('2026-03-11T15:00:00.000Z');
+    });
+
+    it('should produce a 23-hour day across spring-forward', () => {
+      const now = new Date('2026-03-08T12:00:00.000Z');
+      const start = startOfZonedDay(now, 'America/New_York');
+      const end = startOfZonedDay(now, 'America/New_York', 1);
+      expect((end.getTime() - start.getTime()) / (60 * 60 * 1000)).toBe(23);
+    });
+  });
+
+  describe('calendarDaysBetween', () => {
+    it('should count calendar days across month and year boundaries', () => {
+      expect(calendarDaysBetween({ year: 2026, month: 12, day: 30 }, { year: 2027, month: 1, day: 2 })).toBe(3);
+      expect(calendarDaysBetween({ year: 2026, month: 3, day: 2 }, { year: 2026, month: 2, day: 28 })).toBe(-2);
+    });
+  });
+});
+
+describe('Quiet hours', () => {
+  const overnight = { enabled: true, start: '22:30', end: '07:15' };
+
+  describe('getQuietWindow', () => {
+    it('should accept minute-level and legacy whole-hour preferences', () => {
+      expect(getQuietWindow(overnight)).toEqual({ startMinute: 1350, endMinute: 435 });
+      expect(getQuietWindow({ enabled: true, startHour: 22, endHour: 8 })).toEqual({
+        startMinute: 1320,
+        endMinute: 480,
+      });
+    });
+
+    it('should return null when disabled or unset', () => {
+      expect(getQuietWindow({ ...overnight, enabled: false })).toBeNull();
+      expect(getQuietWindow(undefined)).toBeNull();
+      expect(getQuietWindow({ enabled: true, start: '09:00', end: '09:00' })).toBeNull();
+    });
+  });
+
+  describe('isQuietTime', () => {
+    it('should evaluate quiet hours in the user timezone, not the server timezone', () => {
+      // 13:45 UTC is 22:45 in Tokyo
+      const now = new Date('2026-03-10T13:45:00.000Z');
+      expect(isQuietTime(now, overnight, 'Asia/Tokyo')).toBe(true);
+      expect(isQuietTime(now, overnight, 'UTC')).toBe(false);
+    });
+
+    it('should respect minute boundaries', () => {
+      expect(isQuietTime(new Date('2026-03-10T22:29:00.000Z'), overnight, 'UTC')).toBe(false);
+      expect(isQuietTime(new Date('2026-03-10T22:30:00.000Z'), overnight, 'UTC')).toBe(true);
+      expect(isQuietTime(new Date('2026-03-11T07:14:00.000Z'), overnight, 'UTC')).toBe(true);
+      expect(isQuietTime(new Date('2026-03-11T07:15:00.000Z'), overnight, 'UTC')).toBe(false);
+    });
+
+    it('should handle same-day windows', () => {
+      const afternoon = { enabled: true, start: '13:00', end: '14:30' };
+      expect(isQuietTime(new Date('2026-03-10T14:00:00.000Z'), afternoon, 'UTC')).toBe(true);
+      expect(isQuietTime(new Date('2026-03-10T15:00:00.000Z'), afternoon, 'UTC')).toBe(false);
+    });
+  });
+
+  describe('getQuietHoursEnd', () => {
+    it('should end the same local morning when called after midnight', () => {
+      // 02:00 in Tokyo -> 07:15 Tokyo the same day
+      const now = new Date('2026-03-10T17:00:00.000Z');
+      expect(getQuietHoursEnd(now, overnight, 'Asia/Tokyo')!.toISOString()).toBe('2026-03-10T22:15:00.000Z');
+    });
+
+    it('should end the next local morning when called before midnight', () => {
+      // 23:00 in New York on the night clocks spring forward
+      const now = new Date('2026-03-08T04:00:00.000Z');
+      expect(getQuietHoursEnd(now, overnight, 'America/New_York')!.toISOString()).toBe('2026-03-08T11:15:00.000Z');
+    });
+
+    it('should return null when quiet hours are not configured', () => {
+      expect(getQuietHoursEnd(new Date(), null, 'UTC')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { formatVCard, isPreferred, parseVCards, splitValue, textValue } from '../../../utils/vcard';
+
+describe('parseVCards', () => {
+  it('reads several cards with folded lines, groups and parameters', () => {
+    const text = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:John Doe',
+      'NOTE:Met at the conference\\, ',
+      ' talked about hiking\\nand jazz',
+      'TEL;TYPE=CELL,pref:+1 555 0100',
+      'item1.X-ABDATE:2010-06-12',
+      'END:VCARD',
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'FN:Jane Roe',
+      'EMAIL;PREF=1;TYPE="work,internet":jane@example.com',
+      'END:VCARD',
+    ].join('\r\n');
+
+    const cards = parseVCards(text);
+
+    expect(cards).toHaveLength(2);
+    expect(cards[0]).toMatchObject({ line: 1, version: '3.0' });
+    expect(cards[1]).toMatchObject({ line: 9, version: '4.0' });
+
+    const [fn, note, tel, abdate] = cards[0].properties;
+    expect(textValue(fn)).toBe('John Doe');
+    expect(textValue(note)).toBe('Met at the conference, talked about hiking\nand jazz');
+    expect(tel.params.TYPE).toEqual(['CELL', 'pref']);
+    expect(isPreferred(tel)).toBe(true);
+    expect(abdate).toMatchObject({ group: 'item1', name: 'X-ABDATE' });
+
+    const email = cards[1].properties[1];
+    expect(email.params.TYPE).toEqual(['work', 'internet']);
+    expect(isPreferred(email)).toBe(true);
+  });
+});
+
+describe('splitValue', () => {
+  it('splits on unescaped separators only', () => {
+    expect(splitValue('Doe;John;;Dr.;', ';')).toEqual(['Doe', 'John', '', 'Dr.', '']);
+    expect(splitValue('hiking,rock\\, paper,jazz', ',')).toEqual(['hiking', 'rock, paper', 'jazz']);
+  });
+});
+
+describe('formatVCard', () => {
+  it('writes a card with CRLF line endings, quoting parameter values that need it', () => {
+    expect(
+      formatVCard('4.0', [
+        { name: 'FN', value: 'John Doe' },
+        { name: 'TEL', params: { TYPE: 'cell,voice' }, value: '+15550100' },
+      ])
+    ).toBe('BEGIN:VCARD\r\nVERSION:4.0\r\nFN:John Doe\r\nTEL;TYPE="cell,voice":+15550100\r\nEND:VCARD\r\n');
+  });
+});
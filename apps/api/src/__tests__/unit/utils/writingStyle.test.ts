@@ -0,0 +1,41 @@
+import { RelationshipTier, WritingStyleCategory } from '@prisma/client';
+import { buildWritingStylePrompt, styleCategoryForTier } from '../../../utils/writingStyle';
+
+describe('styleCategoryForTier', () => {
+  it.each([
+    [RelationshipTier.INNER_CIRCLE, WritingStyleCategory.CLOSE],
+    [RelationshipTier.CLOSE_FRIENDS, WritingStyleCategory.CLOSE],
+    [RelationshipTier.FRIENDS, WritingStyleCategory.CASUAL],
+    [RelationshipTier.ACQUAINTANCES, WritingStyleCategory.CASUAL],
+    [RelationshipTier.PROFESSIONAL, WritingStyleCategory.PROFESSIONAL],
+    [null, WritingStyleCategory.CASUAL],
+  ])('maps %s to %s', (tier, category) => {
+    expect(styleCategoryForTier(tier)).toBe(category);
+  });
+});
+
+describe('buildWritingStylePrompt', () => {
+  it('is empty without samples', () => {
+    expect(buildWritingStylePrompt(WritingStyleCategory.CLOSE, [])).toBe('');
+    expect(buildWritingStylePrompt(WritingStyleCategory.CLOSE, [{ prompt: 'Say hi', response: '   ' }])).toBe('');
+  });
+
+  it('lists each situation with what the user wrote', () => {
+    const prompt = buildWritingStylePrompt(WritingStyleCategory.PROFESSIONAL, [
+      { prompt: 'Thank a colleague', response: 'Thanks so much for staying late yesterday!' },
+    ]);
+
+    expect(prompt).toContain('professional contacts');
+    expect(prompt).toContain('Situation: Thank a colleague');
+    expect(prompt).toContain('What I wrote: Thanks so much for staying late yesterday!');
+  });
+
+  it('caps the number and length of samples', () => {
+    const samples = Array.from({ length: 10 }, (_, i) => ({ prompt: `Prompt ${i}`, response: 'x'.repeat(1000) }));
+    const prompt = buildWritingStylePrompt(WritingStyleCategory.CASUAL, samples);
+
+    expect(prompt.match(/^Example \d+$/gm)).toHaveLength(6);
+    expect(prompt).not.toContain('x'.repeat(600));
+    expect(prompt).toContain(`${'x'.repeat(599)}…`);
+  });
+});
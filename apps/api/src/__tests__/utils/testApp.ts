@@ -5,6 +5,7 @@ import authRoutes from '../../routes/authRoutes';
 import contactRoutes from '../../routes/contactRoutes';
 import eventRoutes from '../../routes/eventRoutes';
 import dashboardRoutes from '../../routes/dashboardRoutes';
+import savingsRoutes from '../../routes/savingsRoutes';
 import {
   errorHandler,
   notFoundHandler,
@@ -31,6 +32,7 @@ export function createTestApp() {
   app.use('/api/contacts', contactRoutes);
   app.use('/api/events', eventRoutes);
   app.use('/api/dashboard', dashboardRoutes);
+  app.use('/api/savings', savingsRoutes);
 
   // 404 handler
   app.use(notFoundHandler);
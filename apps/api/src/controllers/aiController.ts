@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { AIService } from '../services/aiService';
+import { AIFeedbackService } from '../services/aiFeedbackService';
 import { prisma } from '../lib/prisma';
 import { UserService } from '../services/userService';
 import { AuthenticatedRequest } from '../types/express';
@@ -86,6 +87,7 @@ export const getMessageSuggestions = async (req: AuthenticatedRequest, res: Resp
           context,
           suggestions,
         }),
+        context: { messageContext: context },
       },
     });
 
@@ -313,7 +315,7 @@ export const submitFeedback = async (req: AuthenticatedRequest, res: Response):
       return;
     }
 
-    const { insightId, wasUsed, feedback } = req.body;
+    const { insightId, wasUsed, feedback, selectedOption, usedContent } = req.body;
 
     if (!insightId) {
       res.status(400).json({ error: 'insightId is required' });
@@ -325,28 +327,32 @@ export const submitFeedback = async (req: AuthenticatedRequest, res: Response):
       return;
     }
 
-    // Verify insight belongs to user
-    const insight = await prisma.aIInsight.findFirst({
-      where: {
-        id: insightId,
-        userId,
-      },
-    });
+    if (selectedOption !== undefined && typeof selectedOption !== 'string') {
+      res.status(400).json({ error: 'selectedOption must be a string' });
+      return;
+    }
 
-    if (!insight) {
-      res.status(404).json({ error: 'Insight not found' });
+    if (usedContent !== undefined && (typeof usedContent !== 'string' || usedContent.length > 5000)) {
+      res.status(400).json({ error: 'usedContent must be a string of at most 5000 characters' });
       return;
     }
 
-    // Update the insight with feedback
-    const updatedInsight = await prisma.aIInsight.update({
-      where: { id: insightId },
-      data: {
+    // Update the insight with feedback (scoped to the user)
+    let updatedInsight;
+    try {
+      updatedInsight = await AIFeedbackService.recordFeedback(userId, insightId, {
         wasUsed,
         feedback: feedback || null,
-        updatedAt: new Date(),
-      },
-    });
+        selectedOption,
+        usedContent,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Insight not found') {
+        res.status(404).json({ error: 'Insight not found' });
+        return;
+      }
+      throw error;
+    }
 
     res.json({
       success: true,
@@ -355,6 +361,7 @@ export const submitFeedback = async (req: AuthenticatedRequest, res: Response):
         insightId: updatedInsight.id,
         wasUsed: updatedInsight.wasUsed,
         feedback: updatedInsight.feedback,
+        selectedOption: updatedInsight.selectedOption,
       },
     });
   } catch (error) {
@@ -366,6 +373,40 @@ export const submitFeedback = async (req: AuthenticatedRequest, res: Response):
   }
 };
 
+/**
+ * Get how often AI suggestions are used, per feature and per message context
+ * GET /ai/feedback/analytics
+ */
+export const getFeedbackAnalytics = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const userId = await getLocalUserId(req.user.uid, req.user.email);
+    if (!userId) {
+      res.status(401).json({ error: 'User not found' });
+      return;
+    }
+
+    const days = req.query.days === undefined ? 90 : parseInt(req.query.days as string, 10);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      res.status(400).json({ error: 'days must be between 1 and 365' });
+      return;
+    }
+
+    const analytics = await AIFeedbackService.getAnalytics(userId, new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+    res.json(analytics);
+  } catch (error) {
+    console.error('Get feedback analytics error:', error);
+    res.status(500).json({
+      error: 'Failed to get feedback analytics',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
 /**
  * Get AI usage stats for the current user
  * GET /ai/usage
@@ -401,12 +442,9 @@ export const getUsageStats = async (req: AuthenticatedRequest, res: Response): P
       return acc;
     }, {} as Record<string, number>);
 
-    // Response format expected by frontend
+    // today/limit/remaining/resetAt is the shape the frontend reads
     res.json({
-      today: stats.today || 0,
-      limit: stats.limit || 50,
-      remaining: stats.remaining || 50,
-      resetAt: stats.resetAt || new Date().toISOString(),
+      ...stats,
       insights: {
         total: totalInsights,
         used: usedInsights,
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { createUser as createFirebaseUser, deleteUser as deleteFirebaseUser, verifyIdToken } from '../config/firebase';
 import { UserService } from '../services/userService';
 import { ContactService } from '../services/contactService';
@@ -19,6 +20,7 @@ import {
   UpdateProfileInput,
 } from '../validators/authValidators';
 import { prisma } from '../lib/prisma';
+import { getWorkingHours } from '../utils/workingHours';
 import { FirebaseUserCreationError, FirebaseTokenError } from '../errors/firebaseErrors';
 
 /**
@@ -392,6 +394,7 @@ export async function getProfile(req: AuthenticatedRequest, res: Response): Prom
         profileImage: localUser.profileImage,
         bio: localUser.bio,
         timezone: localUser.timezone,
+        workingHours: getWorkingHours(localUser.workingHours),
         isVerified: localUser.isVerified,
         createdAt: localUser.createdAt,
         updatedAt: localUser.updatedAt,
@@ -452,6 +455,18 @@ export async function updateProfile(req: AuthenticatedRequest, res: Response): P
       updateData.bio = validatedData.bio === '' ? null : validatedData.bio;
     }
     if (validatedData.timezone !== undefined) updateData.timezone = validatedData.timezone;
+    if (validatedData.workingHours !== undefined) {
+      updateData.workingHours = validatedData.workingHours === null
+        ? Prisma.DbNull
+        : getWorkingHours(validatedData.workingHours);
+    }
+    if (validatedData.notificationPreferences !== undefined) {
+      // Merge so clients can update a subset of preferences
+      updateData.notificationPreferences = {
+        ...((localUser.notificationPreferences as Record<string, unknown> | null) ?? {}),
+        ...validatedData.notificationPreferences,
+      };
+    }
 
     const updatedUser = await UserService.updateUser(localUser.id, updateData);
 
@@ -466,6 +481,8 @@ export async function updateProfile(req: AuthenticatedRequest, res: Response): P
         profileImage: updatedUser.profileImage,
         bio: updatedUser.bio,
         timezone: updatedUser.timezone,
+        workingHours: getWorkingHours(updatedUser.workingHours),
+        notificationPreferences: updatedUser.notificationPreferences,
       },
     });
   } catch (error) {
@@ -648,6 +665,7 @@ export async function exportData(req: AuthenticatedRequest, res: Response): Prom
         profileImage: localUser.profileImage,
         timezone: localUser.timezone,
         notificationPreferences: localUser.notificationPreferences,
+        workingHours: localUser.workingHours,
         isVerified: localUser.isVerified,
         isActive: localUser.isActive,
         createdAt: localUser.createdAt,
@@ -1,9 +1,20 @@
-import { Response } from 'express';
+import { Request, Response } from 'express';
 import { z } from 'zod';
-import { googleCalendarService } from '../services/googleCalendarService';
+import { CalendarProvider } from '@prisma/client';
+import {
+  disconnectCalendar as disconnectCalendarProvider,
+  getCalendarConnection,
+  getCalendarProvider,
+  syncEventToProvider,
+} from '../services/calendarProviders';
 import { availabilityService } from '../services/availabilityService';
 import { UserService } from '../services/userService';
 import { EventService } from '../services/eventService';
+import { CalendarFeedService } from '../services/calendarFeedService';
+import { CALENDAR_SYNC_ERRORS, CalendarSyncService } from '../services/calendarSyncService';
+import { BUSY_CALENDAR_ERRORS, BusyCalendarService } from '../services/busyCalendarService';
+import { CALDAV_FOREIGN_URL_ERROR } from '../services/caldavClient';
+import { PUBLIC_URL_ERRORS } from '../utils/publicUrl';
 import { AuthenticatedRequest } from '../types/express';
 
 // Validation schemas
@@ -27,10 +38,113 @@ const checkConflictsSchema = z.object({
   endTime: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
 });
 
+const authUrlQuerySchema = z.object({
+  provider: z.enum(['google', 'outlook']).default('google'),
+});
+
+const connectCalDAVSchema = z
+  .object({
+    provider: z.enum(['apple', 'caldav']),
+    serverUrl: z
+      .string()
+      .url()
+      .refine((url) => url.startsWith('https://'), { message: 'Server URL must use https' })
+      .optional(),
+    username: z.string().min(1),
+    password: z.string().min(1),
+  })
+  .refine((data) => data.provider === 'apple' || data.serverUrl, {
+    message: 'Server URL is required for CalDAV',
+    path: ['serverUrl'],
+  });
+
+const busyCalendarChoiceSchema = z.object({
+  calendarId: z.string().min(1).max(1000),
+  name: z.string().trim().min(1).max(200),
+});
+
+const busyCalendarsSchema = z.object({
+  account: z.array(busyCalendarChoiceSchema).max(50).default([]),
+  device: z.array(busyCalendarChoiceSchema).max(50).default([]),
+});
+
+// Device busy time is uploaded for at most this long a window at once
+const MAX_DEVICE_BUSY_WINDOW_MS = 120 * 24 * 60 * 60 * 1000;
+
+const deviceBusyBlocksSchema = z
+  .object({
+    timeMin: z.string().datetime(),
+    timeMax: z.string().datetime(),
+    blocks: z
+      .array(
+        z.object({
+          calendarId: z.string().min(1).max(1000),
+          start: z.string().datetime(),
+          end: z.string().datetime(),
+        })
+      )
+      .max(5000),
+  })
+  .refine(
+    (data) => {
+      const window = new Date(data.timeMax).getTime() - new Date(data.timeMin).getTime();
+      return window > 0 && window <= MAX_DEVICE_BUSY_WINDOW_MS;
+    },
+    { message: 'timeMax must be after timeMin and at most 120 days later', path: ['timeMax'] }
+  );
+
 const syncEventSchema = z.object({
   eventId: z.string().uuid(),
 });
 
+const syncLogQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const resolveSyncConflictSchema = z.object({
+  resolution: z.enum(['SOCAP_WINS', 'GOOGLE_WINS']),
+});
+
+const syncSettingsSchema = z.object({
+  conflictPolicy: z.enum(['SOCAP_WINS', 'GOOGLE_WINS', 'ASK']),
+});
+
+// Provider names used in URLs and responses
+const PROVIDERS: Record<string, CalendarProvider> = {
+  google: CalendarProvider.GOOGLE,
+  outlook: CalendarProvider.OUTLOOK,
+  apple: CalendarProvider.APPLE,
+  caldav: CalendarProvider.CALDAV,
+};
+
+// Errors connecting a CalDAV account that are the user's to fix
+const CALDAV_CONNECT_ERRORS = [
+  'CalDAV authentication failed',
+  'No calendars found for this CalDAV account',
+  CALDAV_FOREIGN_URL_ERROR,
+  ...Object.values(PUBLIC_URL_ERRORS),
+];
+
+const SYNC_ERROR_STATUS: Record<string, number> = {
+  'Calendar not connected': 401,
+  'Two-way sync is only available for Google Calendar': 400,
+  'Calendar sync is already running': 409,
+  'Event not found': 404,
+  'Conflict not found': 404,
+  'Conflict already resolved': 409,
+};
+
+/**
+ * Respond to a known two-way sync error; returns false for anything else
+ */
+function sendSyncError(res: Response, error: unknown): boolean {
+  if (!(error instanceof Error) || !CALENDAR_SYNC_ERRORS.includes(error.message)) {
+    return false;
+  }
+  res.status(SYNC_ERROR_STATUS[error.message]).json({ error: error.message });
+  return true;
+}
+
 /**
  * Helper to get local user ID from Firebase UID
  */
@@ -43,20 +157,29 @@ async function getLocalUserId(firebaseUid: string, email?: string): Promise<stri
 }
 
 /**
- * Get OAuth URL for Google Calendar
- * GET /calendar/auth/url
+ * Get OAuth URL for Google or Outlook Calendar
+ * GET /calendar/auth/url?provider=google|outlook
  */
 export async function getAuthUrl(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
-    
-    const authUrl = googleCalendarService.getAuthUrl(localUserId);
+    const { provider } = authUrlQuerySchema.parse(req.query);
+
+    const authUrl = getCalendarProvider(PROVIDERS[provider]).getAuthUrl!(localUserId);
     
     res.json({
       success: true,
       authUrl,
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
     console.error('Get auth URL error:', error);
     res.status(500).json({
       error: 'Failed to generate auth URL',
@@ -67,7 +190,7 @@ export async function getAuthUrl(req: AuthenticatedRequest, res: Response): Prom
 
 /**
  * OAuth callback handler
- * GET /calendar/auth/callback
+ * GET /calendar/auth/:provider/callback (GET /calendar/auth/callback for Google)
  */
 export async function handleAuthCallback(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
@@ -90,7 +213,13 @@ export async function handleAuthCallback(req: AuthenticatedRequest, res: Respons
       return;
     }
 
-    await googleCalendarService.handleCallback(code, userId);
+    const adapter = getCalendarProvider(PROVIDERS[(req.params.provider as string | undefined) ?? 'google']);
+    if (!adapter || adapter.authType !== 'oauth') {
+      res.status(404).json({ error: 'Unknown calendar provider' });
+      return;
+    }
+
+    await adapter.connect(userId, { code });
 
     // Redirect to success page or app
     const redirectUrl = process.env.CALENDAR_AUTH_REDIRECT_SUCCESS || '/calendar/connected';
@@ -102,6 +231,43 @@ export async function handleAuthCallback(req: AuthenticatedRequest, res: Respons
   }
 }
 
+/**
+ * Connect an iCloud or CalDAV calendar with a username and app password
+ * POST /calendar/connect/caldav
+ */
+export async function connectCalDAV(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { provider, serverUrl, username, password } = connectCalDAVSchema.parse(req.body);
+
+    await getCalendarProvider(PROVIDERS[provider]).connect(localUserId, { serverUrl, username, password });
+
+    res.status(201).json({
+      success: true,
+      provider,
+      message: 'Calendar connected successfully',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+    if (error instanceof Error && CALDAV_CONNECT_ERRORS.includes(error.message)) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    console.error('Connect CalDAV calendar error:', error);
+    res.status(500).json({
+      error: 'Failed to connect calendar',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 /**
  * Disconnect calendar (revoke access)
  * POST /calendar/disconnect
@@ -110,7 +276,7 @@ export async function disconnectCalendar(req: AuthenticatedRequest, res: Respons
   try {
     const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
     
-    await googleCalendarService.revokeAccess(localUserId);
+    await disconnectCalendarProvider(localUserId);
 
     res.json({
       success: true,
@@ -133,15 +299,18 @@ export async function getConnectionStatus(req: AuthenticatedRequest, res: Respon
   try {
     const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
     
-    const isConnected = await googleCalendarService.isConnected(localUserId);
-    const primaryCalendarId = isConnected 
-      ? await googleCalendarService.getPrimaryCalendarId(localUserId)
-      : null;
+    const connection = await getCalendarConnection(localUserId);
+    const syncSettings = await CalendarSyncService.getSettings(localUserId);
 
     res.json({
-      connected: isConnected,
-      provider: isConnected ? 'google' : null,
-      primaryCalendarId,
+      connected: !!connection,
+      provider: connection?.credential.provider.toLowerCase() ?? null,
+      // The login for password-based providers, so people can tell which account is connected
+      username: connection?.credential.username ?? null,
+      primaryCalendarId: connection?.credential.primaryCalendarId ?? null,
+      twoWaySync: connection?.credential.provider === CalendarProvider.GOOGLE,
+      conflictPolicy: syncSettings?.conflictPolicy ?? null,
+      lastSyncAt: syncSettings?.lastSyncAt ?? null,
     });
   } catch (error) {
     console.error('Get connection status error:', error);
@@ -160,7 +329,16 @@ export async function listCalendars(req: AuthenticatedRequest, res: Response): P
   try {
     const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
     
-    const calendars = await googleCalendarService.listCalendars(localUserId);
+    const connection = await getCalendarConnection(localUserId);
+    if (!connection) {
+      res.status(401).json({
+        error: 'Calendar not connected',
+        message: 'Please connect a calendar first',
+      });
+      return;
+    }
+
+    const calendars = await connection.adapter.listCalendars(localUserId);
 
     res.json({
       success: true,
@@ -172,7 +350,7 @@ export async function listCalendars(req: AuthenticatedRequest, res: Response): P
     if (error instanceof Error && error.message.includes('not connected')) {
       res.status(401).json({
         error: 'Calendar not connected',
-        message: 'Please connect your Google Calendar first',
+        message: 'Please connect a calendar first',
       });
       return;
     }
@@ -211,6 +389,7 @@ export async function findAvailability(req: AuthenticatedRequest, res: Response)
     const userIds = params.userIds?.length ? params.userIds : [localUserId];
 
     const result = await availabilityService.findAvailability({
+      requesterId: localUserId,
       userIds,
       startDate: new Date(params.startDate),
       endDate: new Date(params.endDate),
@@ -282,7 +461,107 @@ export async function checkConflicts(req: AuthenticatedRequest, res: Response):
 }
 
 /**
- * Sync app event to Google Calendar
+ * Get which calendars count toward busy time
+ * GET /calendar/busy-calendars
+ */
+export async function getBusyCalendars(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+
+    const settings = await BusyCalendarService.getSettings(localUserId);
+
+    res.json({
+      success: true,
+      ...settings,
+    });
+  } catch (error) {
+    console.error('Get busy calendars error:', error);
+    res.status(500).json({
+      error: 'Failed to get busy calendars',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Choose which account and device calendars count toward busy time
+ * PUT /calendar/busy-calendars
+ */
+export async function updateBusyCalendars(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const choices = busyCalendarsSchema.parse(req.body);
+
+    const settings = await BusyCalendarService.updateSettings(localUserId, choices);
+
+    res.json({
+      success: true,
+      ...settings,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+    if (error instanceof Error && BUSY_CALENDAR_ERRORS.includes(error.message)) {
+      res.status(error.message === 'Calendar not connected' ? 401 : 400).json({ error: error.message });
+      return;
+    }
+
+    console.error('Update busy calendars error:', error);
+    res.status(500).json({
+      error: 'Failed to update busy calendars',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Upload busy time read from device calendars for a window
+ * PUT /calendar/busy-calendars/device-blocks
+ */
+export async function uploadDeviceBusyBlocks(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const params = deviceBusyBlocksSchema.parse(req.body);
+
+    const stored = await BusyCalendarService.uploadDeviceBlocks(
+      localUserId,
+      new Date(params.timeMin),
+      new Date(params.timeMax),
+      params.blocks.map((block) => ({
+        calendarId: block.calendarId,
+        start: new Date(block.start),
+        end: new Date(block.end),
+      }))
+    );
+
+    res.json({
+      success: true,
+      stored,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    console.error('Upload device busy blocks error:', error);
+    res.status(500).json({
+      error: 'Failed to upload device busy time',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Sync app event to the connected calendar
  * POST /calendar/sync
  */
 export async function syncEventToCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -299,32 +578,22 @@ export async function syncEventToCalendar(req: AuthenticatedRequest, res: Respon
     }
 
     // Check if calendar is connected
-    const isConnected = await googleCalendarService.isConnected(localUserId);
-    if (!isConnected) {
+    const connection = await getCalendarConnection(localUserId);
+    if (!connection) {
       res.status(401).json({
         error: 'Calendar not connected',
-        message: 'Please connect your Google Calendar first',
+        message: 'Please connect a calendar first',
       });
       return;
     }
 
-    // Sync to Google Calendar
-    const googleEventId = await googleCalendarService.syncEventToCalendar(localUserId, {
-      id: event.id,
-      title: event.title,
-      description: event.description || undefined,
-      date: event.date,
-      startTime: event.startTime,
-      endTime: event.endTime,
-      timezone: event.timezone,
-      locationName: event.locationName || undefined,
-      locationAddress: event.locationAddress || undefined,
-      calendarEventId: event.calendarEventId,
-    });
+    const calendarEventId = await syncEventToProvider(localUserId, connection, event);
 
     res.json({
       success: true,
-      googleEventId,
+      calendarEventId,
+      // Kept for clients that predate other providers
+      googleEventId: calendarEventId,
       message: event.calendarEventId ? 'Event updated in calendar' : 'Event added to calendar',
     });
   } catch (error) {
@@ -345,7 +614,7 @@ export async function syncEventToCalendar(req: AuthenticatedRequest, res: Respon
 }
 
 /**
- * Remove event from Google Calendar
+ * Remove event from the connected calendar
  * DELETE /calendar/sync/:eventId
  */
 export async function unsyncEvent(req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -365,11 +634,19 @@ export async function unsyncEvent(req: AuthenticatedRequest, res: Response): Pro
       return;
     }
 
-    // Delete from Google Calendar
-    await googleCalendarService.deleteEvent(localUserId, 'primary', event.calendarEventId);
+    const connection = await getCalendarConnection(localUserId);
+    if (!connection) {
+      res.status(401).json({
+        error: 'Calendar not connected',
+        message: 'Please connect a calendar first',
+      });
+      return;
+    }
+
+    await connection.adapter.deleteEvent(localUserId, 'primary', event.calendarEventId);
 
-    // Clear the calendar event ID from app event
-    await EventService.updateEvent(localUserId, eventId, { calendarEventId: undefined });
+    // Clear the calendar link from app event
+    await CalendarSyncService.unlinkEvent(localUserId, event.id);
 
     res.json({
       success: true,
@@ -384,6 +661,156 @@ export async function unsyncEvent(req: AuthenticatedRequest, res: Response): Pro
   }
 }
 
+/**
+ * Run a two-way sync with Google Calendar now
+ * POST /calendar/sync/run
+ */
+export async function runCalendarSync(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+
+    const run = await CalendarSyncService.sync(localUserId);
+
+    res.json({
+      success: true,
+      run,
+    });
+  } catch (error) {
+    if (sendSyncError(res, error)) return;
+
+    console.error('Run calendar sync error:', error);
+    res.status(500).json({
+      error: 'Failed to sync calendar',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get recent sync runs
+ * GET /calendar/sync/log
+ */
+export async function getSyncLog(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { limit } = syncLogQuerySchema.parse(req.query);
+
+    const runs = await CalendarSyncService.getLog(localUserId, limit);
+
+    res.json({
+      success: true,
+      runs,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    console.error('Get sync log error:', error);
+    res.status(500).json({
+      error: 'Failed to get sync log',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get events changed on both sides, waiting for the user to pick one
+ * GET /calendar/sync/conflicts
+ */
+export async function getSyncConflicts(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+
+    const conflicts = await CalendarSyncService.getConflicts(localUserId);
+
+    res.json({
+      success: true,
+      conflicts,
+    });
+  } catch (error) {
+    console.error('Get sync conflicts error:', error);
+    res.status(500).json({
+      error: 'Failed to get sync conflicts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Resolve a sync conflict by keeping one side
+ * POST /calendar/sync/conflicts/:conflictId/resolve
+ */
+export async function resolveSyncConflict(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { resolution } = resolveSyncConflictSchema.parse(req.body);
+
+    const conflict = await CalendarSyncService.resolveConflict(
+      localUserId,
+      req.params.conflictId as string,
+      resolution
+    );
+
+    res.json({
+      success: true,
+      conflict,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+    if (sendSyncError(res, error)) return;
+
+    console.error('Resolve sync conflict error:', error);
+    res.status(500).json({
+      error: 'Failed to resolve sync conflict',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Update two-way sync settings
+ * PUT /calendar/sync/settings
+ */
+export async function updateSyncSettings(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { conflictPolicy } = syncSettingsSchema.parse(req.body);
+
+    await CalendarSyncService.updateSettings(localUserId, conflictPolicy);
+
+    res.json({
+      success: true,
+      conflictPolicy,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+    if (sendSyncError(res, error)) return;
+
+    console.error('Update sync settings error:', error);
+    res.status(500).json({
+      error: 'Failed to update sync settings',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 /**
  * Get calendar events (for preview/debugging)
  * GET /calendar/events
@@ -402,7 +829,16 @@ export async function getCalendarEvents(req: AuthenticatedRequest, res: Response
       return;
     }
 
-    const events = await googleCalendarService.getEvents(
+    const connection = await getCalendarConnection(localUserId);
+    if (!connection) {
+      res.status(401).json({
+        error: 'Calendar not connected',
+        message: 'Please connect a calendar first',
+      });
+      return;
+    }
+
+    const events = await connection.adapter.listEvents(
       localUserId,
       calendarId as string,
       new Date(timeMin as string),
@@ -411,15 +847,7 @@ export async function getCalendarEvents(req: AuthenticatedRequest, res: Response
 
     res.json({
       success: true,
-      events: events.map((e) => ({
-        id: e.id,
-        summary: e.summary,
-        description: e.description,
-        location: e.location,
-        start: e.start,
-        end: e.end,
-        status: e.status,
-      })),
+      events,
       count: events.length,
     });
   } catch (error) {
@@ -428,7 +856,7 @@ export async function getCalendarEvents(req: AuthenticatedRequest, res: Response
     if (error instanceof Error && error.message.includes('not connected')) {
       res.status(401).json({
         error: 'Calendar not connected',
-        message: 'Please connect your Google Calendar first',
+        message: 'Please connect a calendar first',
       });
       return;
     }
@@ -439,3 +867,114 @@ export async function getCalendarEvents(req: AuthenticatedRequest, res: Response
     });
   }
 }
+
+/**
+ * Get the status of the user's iCalendar feed
+ * GET /calendar/feed
+ */
+export async function getFeedStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+
+    const status = await CalendarFeedService.getStatus(localUserId);
+
+    res.json(status);
+  } catch (error) {
+    console.error('Get calendar feed status error:', error);
+    res.status(500).json({
+      error: 'Failed to get calendar feed status',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Create or rotate the user's secret feed URL
+ * POST /calendar/feed/rotate
+ */
+export async function rotateFeed(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+
+    const link = await CalendarFeedService.rotate(localUserId);
+
+    res.status(201).json({
+      success: true,
+      ...link,
+    });
+  } catch (error) {
+    console.error('Rotate calendar feed error:', error);
+    res.status(500).json({
+      error: 'Failed to create calendar feed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Revoke the user's feed URL
+ * DELETE /calendar/feed
+ */
+export async function revokeFeed(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+
+    await CalendarFeedService.revoke(localUserId);
+
+    res.json({
+      success: true,
+      message: 'Calendar feed revoked',
+    });
+  } catch (error) {
+    console.error('Revoke calendar feed error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke calendar feed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Serve the iCalendar feed for a secret token
+ * GET /calendar/feed/:token(.ics)
+ * Honors If-None-Match so polling calendar apps get 304s for unchanged feeds.
+ */
+export async function getFeed(req: Request, res: Response): Promise<void> {
+  try {
+    const token = (req.params.token as string).replace(/\.ics$/i, '');
+    const feed = await CalendarFeedService.renderFeed(token);
+
+    res.set({
+      ETag: feed.etag,
+      'Last-Modified': feed.lastModified.toUTCString(),
+      'Cache-Control': 'private, max-age=300',
+    });
+
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (
+      ifNoneMatch &&
+      ifNoneMatch.split(',').some((tag) => {
+        const trimmed = tag.trim().replace(/^W\//, '');
+        return trimmed === '*' || trimmed === feed.etag;
+      })
+    ) {
+      res.status(304).end();
+      return;
+    }
+
+    res.type('text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="socap.ics"');
+    res.send(feed.body);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Calendar feed not found') {
+      res.status(404).json({ error: 'Calendar feed not found' });
+      return;
+    }
+
+    console.error('Get calendar feed error:', error);
+    res.status(500).json({
+      error: 'Failed to get calendar feed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -4,6 +4,10 @@ import { ContactService, CreateContactData, UpdateContactData } from '../service
 import { RelationshipService, UpdateRelationshipData } from '../services/relationshipService';
 import { InteractionService, CreateInteractionData, AutoLogInteractionData } from '../services/interactionService';
 import { UserService } from '../services/userService';
+import { FollowUpService } from '../services/followUpService';
+import { ContactMergeService } from '../services/contactMergeService';
+import { ContactFileService, CONTACT_FILE_ERRORS } from '../services/contactFileService';
+import { auditService, AuditAction } from '../services/auditService';
 import { AuthenticatedRequest } from '../types/express';
 import { prisma } from '../lib/prisma';
 import { RelationshipTier, RelationshipType, CommunicationFrequency } from '@prisma/client';
@@ -14,13 +18,24 @@ import {
   updateRelationshipSchema,
   logInteractionSchema,
   getContactsQuerySchema,
+  getFollowUpsQuerySchema,
+  confirmFollowUpSchema,
+  mergeContactsSchema,
+  importContactFileSchema,
+  exportContactsQuerySchema,
   CreateContactInput,
   UpdateContactInput,
   ImportContactsInput,
   UpdateRelationshipInput,
   LogInteractionInput,
   GetContactsQuery,
+  GetFollowUpsQuery,
+  ConfirmFollowUpInput,
+  MergeContactsInput,
+  ImportContactFileInput,
+  ExportContactsQuery,
 } from '../validators/contactValidators';
+import { MAX_SYNC_BATCH } from '../utils/interactionSync';
 
 /**
  * Helper to get local user ID from Firebase UID
@@ -249,6 +264,126 @@ export async function importContacts(req: AuthenticatedRequest, res: Response):
   }
 }
 
+function isContactFileError(error: unknown): error is Error {
+  return error instanceof Error && CONTACT_FILE_ERRORS.some((prefix) => error.message.startsWith(prefix));
+}
+
+/**
+ * Read a vCard or CSV file and show what would be imported
+ * POST /contacts/import/preview
+ */
+export async function previewContactFile(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const validated: ImportContactFileInput = importContactFileSchema.parse(req.body);
+
+    const preview = ContactFileService.preview(validated.content, validated.format, validated.mapping);
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+    if (isContactFileError(error)) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    console.error('Preview contact file error:', error);
+    res.status(500).json({
+      error: 'Failed to read contact file',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Import contacts from a vCard or CSV file
+ * POST /contacts/import/file
+ */
+export async function importContactFile(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const validated: ImportContactFileInput = importContactFileSchema.parse(req.body);
+
+    const { contacts, ...summary } = await ContactFileService.importFile(
+      localUserId,
+      validated.content,
+      validated.format,
+      validated.mapping
+    );
+
+    await auditService.log(AuditAction.DATA_IMPORT, localUserId, req, {
+      format: validated.format,
+      created: summary.created,
+      duplicates: summary.duplicates,
+      skipped: summary.skipped,
+      invalid: summary.invalid,
+    });
+
+    res.status(201).json({
+      success: true,
+      summary: { ...summary, contacts },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+    if (isContactFileError(error)) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    console.error('Import contact file error:', error);
+    res.status(500).json({
+      error: 'Failed to import contacts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Download all contacts as vCards or CSV
+ * GET /contacts/export
+ */
+export async function exportContacts(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const query: ExportContactsQuery = exportContactsQuerySchema.parse(req.query);
+
+    const file = await ContactFileService.exportContacts(localUserId, query.format, query.version);
+
+    await auditService.log(AuditAction.DATA_EXPORT, localUserId, req, {
+      format: query.format,
+      count: file.count,
+    });
+
+    res.type(file.contentType);
+    res.set('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.body);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    console.error('Export contacts error:', error);
+    res.status(500).json({
+      error: 'Failed to export contacts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 /**
  * Update relationship settings for a contact
  * PUT /contacts/:id/relationship
@@ -362,6 +497,7 @@ export async function logInteraction(req: AuthenticatedRequest, res: Response):
       duration: validated.duration,
       notes: validated.notes,
       sentiment: validated.sentiment,
+      topics: validated.topics,
     };
 
     // Log interaction and update relationship
@@ -370,9 +506,19 @@ export async function logInteraction(req: AuthenticatedRequest, res: Response):
     // Recalculate health score
     await RelationshipService.recalculateHealthScore(relationship.id);
 
+    // Follow-ups are a bonus; the interaction is logged either way
+    let followUps;
+    if (validated.extractFollowUps) {
+      followUps = await FollowUpService.extractFromInteraction(localUserId, contact, interaction).catch((error) => {
+        console.warn('Follow-up extraction failed:', error);
+        return [];
+      });
+    }
+
     res.status(201).json({
       success: true,
       interaction,
+      ...(followUps && { followUps }),
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -465,9 +611,10 @@ export async function batchLogInteractions(req: AuthenticatedRequest, res: Respo
           date: z.string(),
           duration: z.number().optional(),
           direction: z.enum(['incoming', 'outgoing']).optional(),
-          externalId: z.string().optional(),
+          source: z.enum(['CALL_LOG', 'QUICK_LOG']).optional(),
+          externalId: z.string().min(1).max(200).optional(),
         })
-      ),
+      ).max(MAX_SYNC_BATCH),
     });
 
     const { interactions } = batchSchema.parse(req.body);
@@ -477,8 +624,9 @@ export async function batchLogInteractions(req: AuthenticatedRequest, res: Respo
       interactions as AutoLogInteractionData[]
     );
 
+    // Failed items are listed in result.results and can be sent again
     res.json({
-      success: true,
+      success: result.failed === 0,
       ...result,
     });
   } catch (error) {
@@ -519,3 +667,238 @@ export async function getLastSyncTime(req: AuthenticatedRequest, res: Response):
     });
   }
 }
+
+/**
+ * Suggest shared interests from topics that keep coming up in interactions
+ * GET /contacts/:id/interest-suggestions
+ */
+export async function getSharedInterestSuggestions(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const contactId = req.params.id as string;
+
+    const contact = await ContactService.getContactById(localUserId, contactId);
+    if (!contact) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+
+    const suggestions = await RelationshipService.getSharedInterestSuggestions(localUserId, contactId);
+    res.json({ suggestions });
+  } catch (error) {
+    console.error('Get shared interest suggestions error:', error);
+    res.status(500).json({
+      error: 'Failed to get shared interest suggestions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Have the AI look for follow-ups in an interaction logged earlier
+ * POST /contacts/:id/interactions/:interactionId/follow-ups
+ */
+export async function extractInteractionFollowUps(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const contactId = req.params.id as string;
+    const interactionId = req.params.interactionId as string;
+
+    const contact = await ContactService.getContactById(localUserId, contactId);
+    if (!contact) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+
+    const interaction = await prisma.interaction.findFirst({
+      where: { id: interactionId, relationship: { userId: localUserId, contactId } },
+    });
+    if (!interaction) {
+      res.status(404).json({ error: 'Interaction not found' });
+      return;
+    }
+
+    const followUps = await FollowUpService.extractFromInteraction(localUserId, contact, interaction);
+    res.status(201).json({ followUps });
+  } catch (error) {
+    console.error('Extract follow-ups error:', error);
+    res.status(500).json({
+      error: 'Failed to extract follow-ups',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * List follow-ups found in interaction notes
+ * GET /contacts/follow-ups
+ * Query params: status, contactId, interactionId
+ */
+export async function getFollowUps(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const query: GetFollowUpsQuery = getFollowUpsQuerySchema.parse(req.query);
+
+    const followUps = await FollowUpService.getFollowUps(localUserId, query);
+    res.json({ followUps });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    console.error('Get follow-ups error:', error);
+    res.status(500).json({
+      error: 'Failed to get follow-ups',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Accept a follow-up, creating a reminder for it
+ * POST /contacts/follow-ups/:followUpId/confirm
+ */
+export async function confirmFollowUp(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const validated: ConfirmFollowUpInput = confirmFollowUpSchema.parse(req.body ?? {});
+
+    const result = await FollowUpService.confirmFollowUp(localUserId, req.params.followUpId as string, {
+      title: validated.title,
+      message: validated.message,
+      scheduledDate: validated.scheduledDate ? new Date(validated.scheduledDate) : undefined,
+    });
+
+    res.status(201).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+    if (error instanceof Error && error.message === 'Follow-up not found') {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === 'Follow-up already resolved') {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+
+    console.error('Confirm follow-up error:', error);
+    res.status(500).json({
+      error: 'Failed to confirm follow-up',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Dismiss a follow-up
+ * POST /contacts/follow-ups/:followUpId/reject
+ */
+export async function rejectFollowUp(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+
+    const followUp = await FollowUpService.rejectFollowUp(localUserId, req.params.followUpId as string);
+    res.json({
+      success: true,
+      followUp,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Follow-up not found') {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === 'Follow-up already resolved') {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+
+    console.error('Reject follow-up error:', error);
+    res.status(500).json({
+      error: 'Failed to reject follow-up',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Contacts that look like the same person
+ * GET /contacts/duplicates
+ */
+export async function getDuplicateContacts(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+
+    const candidates = await ContactMergeService.findDuplicates(localUserId);
+    res.json({ candidates });
+  } catch (error) {
+    console.error('Get duplicate contacts error:', error);
+    res.status(500).json({
+      error: 'Failed to find duplicate contacts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Merge another contact into this one
+ * POST /contacts/:id/merge
+ */
+export async function mergeContacts(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const survivorId = req.params.id as string;
+    const validated: MergeContactsInput = mergeContactsSchema.parse(req.body);
+
+    const summary = await ContactMergeService.mergeContacts(localUserId, survivorId, validated);
+
+    // Ids and counts only; the merged values stay encrypted
+    await auditService.log(AuditAction.CONTACT_MERGED, localUserId, req, {
+      survivorId,
+      duplicateId: validated.duplicateId,
+      fieldsFromDuplicate: summary.fromDuplicate,
+      relationship: validated.relationship ?? 'survivor',
+      moved: summary.moved,
+      removed: summary.removed,
+    });
+
+    res.json({
+      success: true,
+      ...summary,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+    if (error instanceof Error && error.message === 'Contact not found') {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === 'Cannot merge a contact into itself') {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    console.error('Merge contacts error:', error);
+    res.status(500).json({
+      error: 'Failed to merge contacts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
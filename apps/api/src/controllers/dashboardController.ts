@@ -1,5 +1,9 @@
 import { Response } from 'express';
-import { dashboardService } from '../services/dashboardService';
+import {
+  dashboardService,
+  HEALTH_SCORE_HISTORY_RANGES,
+  HealthScoreHistoryRange,
+} from '../services/dashboardService';
 import { UserService } from '../services/userService';
 import { AuthenticatedRequest } from '../types/express';
 
@@ -61,22 +65,33 @@ export async function getInsights(req: AuthenticatedRequest, res: Response): Pro
 /**
  * Get health score history
  * GET /dashboard/health-score/history
- * Query: days (optional, default 30)
+ * Query: days (optional, one of 30, 90, 365; default 30)
  */
 export async function getHealthScoreHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
-    const days = parseInt(req.query.days as string) || 30;
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : 30;
 
-    // Get health score history
-    const history = await dashboardService.getInsights(localUserId);
-    const healthScoreHistory = history.healthScoreHistory.slice(-days);
+    if (!HEALTH_SCORE_HISTORY_RANGES.includes(days as HealthScoreHistoryRange)) {
+      res.status(400).json({
+        success: false,
+        error: `days must be one of ${HEALTH_SCORE_HISTORY_RANGES.join(', ')}`,
+      });
+      return;
+    }
+
+    const [history, current] = await Promise.all([
+      dashboardService.getHealthScoreHistory(localUserId, days),
+      dashboardService.calculateHealthScore(localUserId),
+    ]);
 
     res.json({
       success: true,
       data: {
-        history: healthScoreHistory,
-        currentScore: history.averageHealthScore,
+        history,
+        currentScore: current.score,
+        currentComponents: current.components,
+        days,
       },
     });
   } catch (error) {
@@ -6,13 +6,15 @@ import {
   UpdateEventData,
   UpdateRSVPData,
 } from '../services/eventService';
+import { EventOccurrenceService } from '../services/eventOccurrenceService';
 import { NotificationService } from '../services/notificationService';
+import { RSVPService } from '../services/rsvpService';
 import { UserService } from '../services/userService';
-import { sendEventCancellationEmails } from '../services/emailService';
+import { EventEmailService } from '../services/eventEmailService';
 import { AuthenticatedRequest } from '../types/express';
 import { BudgetTier, EventStatus, RSVPStatus } from '@prisma/client';
-import { prisma } from '../lib/prisma';
 import { getEventTemplates, getTemplateById, getTemplatesByCategory, getTemplateCategories } from '../config/eventTemplates';
+import { RecurrenceRuleError } from '../errors/recurrenceErrors';
 
 // Validation schemas
 const createEventSchema = z.object({
@@ -46,8 +48,26 @@ const createEventSchema = z.object({
   attendeeIds: z.array(z.string()).optional(),
 });
 
+const occurrenceDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Occurrence date must be YYYY-MM-DD');
+
 const updateEventSchema = createEventSchema.partial().extend({
   updateFutureOccurrences: z.boolean().optional(),
+  occurrenceDate: occurrenceDateSchema.optional(),
+});
+
+const getOccurrencesQuerySchema = z.object({
+  from: z.string().refine((val) => !isNaN(Date.parse(val)), { message: 'Invalid date format' }),
+  to: z.string().refine((val) => !isNaN(Date.parse(val)), { message: 'Invalid date format' }),
+});
+
+const updateOccurrenceSchema = z.object({
+  date: z.string().refine((val) => !isNaN(Date.parse(val)), { message: 'Invalid date format' }).optional(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  status: z.nativeEnum(EventStatus).optional(),
+  estimatedCost: z.number().min(0).optional(),
+  actualCost: z.number().min(0).optional(),
+  notes: z.string().max(1000).optional(),
 });
 
 const addAttendeesSchema = z.object({
@@ -60,12 +80,49 @@ const updateRSVPSchema = z.object({
   dietaryRestrictions: z.string().optional(),
 });
 
+const createRSVPLinkSchema = z.object({
+  regenerate: z.boolean().optional(),
+});
+
+const sendInvitationsSchema = z.object({
+  attendeeIds: z.array(z.string().uuid()).optional(),
+  resend: z.boolean().optional(),
+});
+
 const searchVenuesSchema = z.object({
   query: z.string().min(1, 'Search query is required'),
   location: z.string().optional(),
   type: z.string().optional(),
 });
 
+/**
+ * Map recurrence and occurrence errors to HTTP responses
+ * Returns true if the error was handled
+ */
+function handleRecurrenceError(error: unknown, res: Response): boolean {
+  if (error instanceof RecurrenceRuleError) {
+    res.status(400).json({
+      error: 'Invalid recurrence rule',
+      message: error.message,
+    });
+    return true;
+  }
+
+  if (error instanceof Error) {
+    if (['Event not found', 'Occurrence not found', 'Attendee not found'].includes(error.message)) {
+      res.status(404).json({ error: error.message });
+      return true;
+    }
+
+    if (error.message === 'Event is not recurring' || error.message === 'Cannot split a series at its first occurrence') {
+      res.status(400).json({ error: error.message });
+      return true;
+    }
+  }
+
+  return false;
+}
+
 /**
  * Helper to get local user ID from Firebase UID
  */
@@ -224,6 +281,8 @@ export async function createEvent(req: AuthenticatedRequest, res: Response): Pro
       return;
     }
 
+    if (handleRecurrenceError(error, res)) return;
+
     console.error('Create event error:', error);
     res.status(500).json({
       error: 'Failed to create event',
@@ -265,6 +324,7 @@ export async function updateEvent(req: AuthenticatedRequest, res: Response): Pro
       ...(validated.linkedSavingsGoalId !== undefined && { linkedSavingsGoalId: validated.linkedSavingsGoalId }),
       ...(validated.calendarEventId !== undefined && { calendarEventId: validated.calendarEventId }),
       ...(validated.updateFutureOccurrences !== undefined && { updateFutureOccurrences: validated.updateFutureOccurrences }),
+      ...(validated.occurrenceDate && { occurrenceDate: new Date(validated.occurrenceDate) }),
     };
 
     const event = await EventService.updateEvent(localUserId, id, data);
@@ -283,10 +343,7 @@ export async function updateEvent(req: AuthenticatedRequest, res: Response): Pro
       return;
     }
 
-    if (error instanceof Error && error.message === 'Event not found') {
-      res.status(404).json({ error: 'Event not found' });
-      return;
-    }
+    if (handleRecurrenceError(error, res)) return;
 
     console.error('Update event error:', error);
     res.status(500).json({
@@ -308,15 +365,6 @@ export async function cancelEvent(req: AuthenticatedRequest, res: Response): Pro
 
     const { event, attendeeUserIds } = await EventService.cancelEvent(localUserId, id);
 
-    // Get organizer name for emails
-    const organizer = await prisma.user.findUnique({
-      where: { id: localUserId },
-      select: { firstName: true, lastName: true },
-    });
-    const organizerName = organizer
-      ? `${organizer.firstName} ${organizer.lastName}`
-      : 'The organizer';
-
     // Send push notifications to attendees
     if (attendeeUserIds.length > 0) {
       for (const userId of attendeeUserIds) {
@@ -333,24 +381,12 @@ export async function cancelEvent(req: AuthenticatedRequest, res: Response): Pro
       }
     }
 
-    // Send cancellation emails to all attendees with email addresses
-    const attendeesForEmail = (event.attendees || []).map((a: any) => ({
-      name: a.contact?.name || 'Guest',
-      email: a.contact?.email || null,
-    }));
-
+    // Send cancellation emails (with a CANCEL .ics) to all attendees with email addresses
     let emailResult = { sent: 0, failed: 0 };
-    if (attendeesForEmail.length > 0) {
-      try {
-        emailResult = await sendEventCancellationEmails(
-          event.title,
-          event.date,
-          organizerName,
-          attendeesForEmail
-        );
-      } catch (emailError) {
-        console.error('Failed to send cancellation emails:', emailError);
-      }
+    try {
+      emailResult = await EventEmailService.sendCancellations(localUserId, event.id);
+    } catch (emailError) {
+      console.error('Failed to send cancellation emails:', emailError);
     }
 
     res.json({
@@ -519,6 +555,143 @@ export async function updateRSVP(req: AuthenticatedRequest, res: Response): Prom
   }
 }
 
+/**
+ * Create a public RSVP link for an attendee
+ * POST /events/:id/attendees/:attendeeId/rsvp-link
+ * Body: { regenerate?: boolean } - regenerating revokes earlier links
+ */
+export async function createRSVPLink(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id: eventId, attendeeId } = req.params;
+    const validated = createRSVPLinkSchema.parse(req.body ?? {});
+
+    const link = await RSVPService.createRSVPLink(localUserId, eventId as string, attendeeId as string, {
+      regenerate: validated.regenerate,
+    });
+
+    res.status(201).json(link);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error && (error.message === 'Event not found' || error.message === 'Attendee not found')) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'Event has already taken place') {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    console.error('Create RSVP link error:', error);
+    res.status(500).json({
+      error: 'Failed to create RSVP link',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Email invitations (with RSVP link and .ics) to attendees
+ * POST /events/:id/invitations
+ * Body: { attendeeIds?: string[], resend?: boolean }
+ */
+export async function sendInvitations(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+    const validated = sendInvitationsSchema.parse(req.body ?? {});
+
+    const result = await EventEmailService.sendInvitations(localUserId, id as string, validated);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'Event not found') {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    console.error('Send invitations error:', error);
+    res.status(500).json({
+      error: 'Failed to send invitations',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Email attendees that the event's details changed
+ * POST /events/:id/send-updates
+ */
+export async function sendEventUpdates(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+
+    const result = await EventEmailService.sendUpdates(localUserId, id as string);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Event not found') {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    console.error('Send event updates error:', error);
+    res.status(500).json({
+      error: 'Failed to send event updates',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get email delivery history per attendee
+ * GET /events/:id/email-deliveries
+ */
+export async function getEmailDeliveries(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+
+    const attendees = await EventEmailService.getDeliveries(localUserId, id as string);
+
+    res.json({ data: attendees });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Event not found') {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    console.error('Get email deliveries error:', error);
+    res.status(500).json({
+      error: 'Failed to get email deliveries',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 /**
  * Get pre-defined event templates
  * GET /events/templates
@@ -619,13 +792,22 @@ export async function sendRSVPReminders(req: AuthenticatedRequest, res: Response
     const { id: eventId } = req.params;
 
     const reminderCount = await EventService.sendRSVPReminders(eventId, localUserId);
+    const emails = await EventEmailService.sendRSVPReminderEmails(localUserId, eventId as string);
 
     res.json({
       success: true,
       message: `Sent ${reminderCount} RSVP reminder(s)`,
       reminderCount,
+      emailsSent: emails.sent,
+      emailsFailed: emails.failed,
+      emailsSkipped: emails.skipped,
     });
   } catch (error) {
+    if (error instanceof Error && error.message === 'Event not found') {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
     console.error('Send RSVP reminders error:', error);
     res.status(500).json({
       error: 'Failed to send RSVP reminders',
@@ -633,3 +815,189 @@ export async function sendRSVPReminders(req: AuthenticatedRequest, res: Response
     });
   }
 }
+
+/**
+ * List occurrences of a recurring event
+ * GET /events/:id/occurrences
+ * Query: from, to
+ */
+export async function getEventOccurrences(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+    const validated = getOccurrencesQuerySchema.parse(req.query);
+
+    const occurrences = await EventOccurrenceService.getOccurrences(
+      localUserId,
+      id as string,
+      new Date(validated.from),
+      new Date(validated.to)
+    );
+
+    res.json({ data: occurrences });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    if (handleRecurrenceError(error, res)) return;
+
+    console.error('Get event occurrences error:', error);
+    res.status(500).json({
+      error: 'Failed to get event occurrences',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get a single occurrence with attendees and their RSVPs for that date
+ * GET /events/:id/occurrences/:date
+ */
+export async function getEventOccurrence(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id, date } = req.params;
+    const occurrenceDate = occurrenceDateSchema.parse(date);
+
+    const occurrence = await EventOccurrenceService.getOccurrence(localUserId, id as string, new Date(occurrenceDate));
+
+    res.json(occurrence);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    if (handleRecurrenceError(error, res)) return;
+
+    console.error('Get event occurrence error:', error);
+    res.status(500).json({
+      error: 'Failed to get event occurrence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Override a single occurrence (reschedule, cost, status, notes)
+ * PUT /events/:id/occurrences/:date
+ */
+export async function updateEventOccurrence(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id, date } = req.params;
+    const occurrenceDate = occurrenceDateSchema.parse(date);
+    const validated = updateOccurrenceSchema.parse(req.body);
+
+    const { date: newDate, ...changes } = validated;
+    const occurrence = await EventOccurrenceService.updateOccurrence(localUserId, id as string, new Date(occurrenceDate), {
+      ...changes,
+      ...(newDate && { date: new Date(newDate) }),
+    });
+
+    res.json(occurrence);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    if (handleRecurrenceError(error, res)) return;
+
+    console.error('Update event occurrence error:', error);
+    res.status(500).json({
+      error: 'Failed to update event occurrence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Cancel a single occurrence of a recurring event
+ * POST /events/:id/occurrences/:date/cancel
+ */
+export async function cancelEventOccurrence(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id, date } = req.params;
+    const occurrenceDate = occurrenceDateSchema.parse(date);
+
+    const occurrence = await EventOccurrenceService.cancelOccurrence(localUserId, id as string, new Date(occurrenceDate));
+
+    res.json({
+      success: true,
+      message: 'Occurrence cancelled successfully',
+      occurrence,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    if (handleRecurrenceError(error, res)) return;
+
+    console.error('Cancel event occurrence error:', error);
+    res.status(500).json({
+      error: 'Failed to cancel event occurrence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Update an attendee's RSVP for a single occurrence
+ * PUT /events/:id/occurrences/:date/attendees/:attendeeId/rsvp
+ * Body: { status, plusOnes? }
+ */
+export async function updateOccurrenceRSVP(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id, date, attendeeId } = req.params;
+    const occurrenceDate = occurrenceDateSchema.parse(date);
+    const validated = updateRSVPSchema.parse(req.body);
+
+    const rsvp = await EventOccurrenceService.updateOccurrenceRSVP(
+      localUserId,
+      id as string,
+      new Date(occurrenceDate),
+      attendeeId as string,
+      { status: validated.status, plusOnes: validated.plusOnes }
+    );
+
+    res.json({
+      success: true,
+      rsvp,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    if (handleRecurrenceError(error, res)) return;
+
+    console.error('Update occurrence RSVP error:', error);
+    res.status(500).json({
+      error: 'Failed to update occurrence RSVP',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -1,19 +1,76 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
+import { z } from 'zod';
 import { ReminderService } from '../services/reminderService';
+import { UserService } from '../services/userService';
 import { ReminderType, ReminderStatus } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { AuthenticatedRequest } from '../types/express';
+import { RecurrenceRuleError } from '../errors/recurrenceErrors';
+import {
+  recurringPatternSchema,
+  recurrenceScopeSchema,
+  skipOccurrenceSchema,
+  getOccurrencesQuerySchema,
+} from '../validators/reminderValidators';
+
+/**
+ * Helper to get local user ID from Firebase UID
+ */
+async function getLocalUserId(firebaseUid: string, email?: string): Promise<string> {
+  const localUser = await UserService.getUserByEmail(email || '');
+  if (!localUser) {
+    throw new Error('User not found in local database');
+  }
+  return localUser.id;
+}
+
+/**
+ * Map validation and recurrence errors to HTTP responses
+ * Returns true if the error was handled
+ */
+function handleRecurrenceError(error: unknown, res: Response): boolean {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({
+      error: 'Validation error',
+      issues: error.issues,
+    });
+    return true;
+  }
+
+  if (error instanceof RecurrenceRuleError) {
+    res.status(400).json({
+      error: 'Invalid recurrence rule',
+      message: error.message,
+    });
+    return true;
+  }
+
+  if (error instanceof Error) {
+    if (error.message === 'Reminder not found' || error.message === 'Occurrence not found') {
+      res.status(404).json({ error: error.message });
+      return true;
+    }
+
+    if (error.message === 'Reminder is not recurring' || error.message === 'Reminder occurrence is no longer pending') {
+      res.status(400).json({ error: error.message });
+      return true;
+    }
+  }
+
+  return false;
+}
 
 /**
  * Get reminders with filters and pagination
  * GET /reminders
  */
-export const getReminders = async (req: Request, res: Response): Promise<void> => {
+export const getReminders = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const userId = req.user?.id;
-    if (!userId) {
+    if (!req.user?.uid) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
+    const userId = await getLocalUserId(req.user.uid, req.user.email || '');
 
     const {
       type,
@@ -86,13 +143,13 @@ export const getReminders = async (req: Request, res: Response): Promise<void> =
  * Get a single reminder by ID
  * GET /reminders/:id
  */
-export const getReminder = async (req: Request, res: Response): Promise<void> => {
+export const getReminder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const userId = req.user?.id;
-    if (!userId) {
+    if (!req.user?.uid) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
+    const userId = await getLocalUserId(req.user.uid, req.user.email || '');
 
     const { id } = req.params;
 
@@ -129,13 +186,13 @@ export const getReminder = async (req: Request, res: Response): Promise<void> =>
  * Create a custom reminder
  * POST /reminders
  */
-export const createReminder = async (req: Request, res: Response): Promise<void> => {
+export const createReminder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const userId = req.user?.id;
-    if (!userId) {
+    if (!req.user?.uid) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
+    const userId = await getLocalUserId(req.user.uid, req.user.email || '');
 
     const {
       contactId,
@@ -174,7 +231,7 @@ export const createReminder = async (req: Request, res: Response): Promise<void>
       message,
       scheduledDate: new Date(scheduledDate),
       isRecurring: isRecurring ?? false,
-      recurringPattern,
+      recurringPattern: recurringPattern ? recurringPatternSchema.parse(recurringPattern) : undefined,
     });
 
     res.status(201).json({
@@ -182,6 +239,8 @@ export const createReminder = async (req: Request, res: Response): Promise<void>
       data: reminder,
     });
   } catch (error) {
+    if (handleRecurrenceError(error, res)) return;
+
     console.error('Create reminder error:', error);
     res.status(500).json({
       error: 'Failed to create reminder',
@@ -193,17 +252,19 @@ export const createReminder = async (req: Request, res: Response): Promise<void>
 /**
  * Update a reminder
  * PUT /reminders/:id
+ * For pending recurring reminders, `scope` picks THIS occurrence or all
+ * FUTURE occurrences (default).
  */
-export const updateReminder = async (req: Request, res: Response): Promise<void> => {
+export const updateReminder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const userId = req.user?.id;
-    if (!userId) {
+    if (!req.user?.uid) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
+    const userId = await getLocalUserId(req.user.uid, req.user.email || '');
 
     const { id } = req.params;
-    const { title, message, scheduledDate, isRecurring, recurringPattern, status } = req.body;
+    const { title, message, scheduledDate, isRecurring, recurringPattern, status, scope } = req.body;
 
     // Verify reminder belongs to user
     const existing = await prisma.reminder.findFirst({
@@ -215,20 +276,32 @@ export const updateReminder = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const reminder = await ReminderService.updateReminder(id, {
+    const data = {
       ...(title && { title }),
       ...(message && { message }),
       ...(scheduledDate && { scheduledDate: new Date(scheduledDate) }),
       ...(isRecurring !== undefined && { isRecurring }),
-      ...(recurringPattern && { recurringPattern }),
+      ...(recurringPattern && { recurringPattern: recurringPatternSchema.parse(recurringPattern) }),
       ...(status && { status }),
-    });
+    };
+
+    const reminder =
+      existing.isRecurring && existing.status === ReminderStatus.PENDING
+        ? await ReminderService.updateRecurringReminder(
+            userId,
+            id as string,
+            data,
+            recurrenceScopeSchema.parse(scope ?? 'FUTURE')
+          )
+        : await ReminderService.updateReminder(id as string, data);
 
     res.json({
       success: true,
       data: reminder,
     });
   } catch (error) {
+    if (handleRecurrenceError(error, res)) return;
+
     console.error('Update reminder error:', error);
     res.status(500).json({
       error: 'Failed to update reminder',
@@ -241,13 +314,13 @@ export const updateReminder = async (req: Request, res: Response): Promise<void>
  * Dismiss a reminder
  * POST /reminders/:id/dismiss
  */
-export const dismissReminder = async (req: Request, res: Response): Promise<void> => {
+export const dismissReminder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const userId = req.user?.id;
-    if (!userId) {
+    if (!req.user?.uid) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
+    const userId = await getLocalUserId(req.user.uid, req.user.email || '');
 
     const { id } = req.params;
 
@@ -276,17 +349,89 @@ export const dismissReminder = async (req: Request, res: Response): Promise<void
   }
 };
 
+/**
+ * Skip one occurrence of a recurring reminder
+ * POST /reminders/:id/skip
+ */
+export const skipOccurrence = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user?.uid) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    const userId = await getLocalUserId(req.user.uid, req.user.email || '');
+
+    const { id } = req.params;
+    const { occurrenceDate } = skipOccurrenceSchema.parse(req.body ?? {});
+
+    const reminder = await ReminderService.skipOccurrence(
+      userId,
+      id as string,
+      occurrenceDate ? new Date(occurrenceDate) : undefined
+    );
+
+    res.json({
+      success: true,
+      data: reminder,
+    });
+  } catch (error) {
+    if (handleRecurrenceError(error, res)) return;
+
+    console.error('Skip occurrence error:', error);
+    res.status(500).json({
+      error: 'Failed to skip occurrence',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * List upcoming occurrences of a recurring reminder
+ * GET /reminders/:id/occurrences
+ */
+export const getOccurrences = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user?.uid) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    const userId = await getLocalUserId(req.user.uid, req.user.email || '');
+
+    const { id } = req.params;
+    const query = getOccurrencesQuerySchema.parse(req.query);
+
+    const occurrences = await ReminderService.getUpcomingOccurrences(userId, id as string, {
+      from: query.from ? new Date(query.from) : undefined,
+      to: query.to ? new Date(query.to) : undefined,
+      limit: query.limit,
+    });
+
+    res.json({
+      success: true,
+      data: occurrences,
+    });
+  } catch (error) {
+    if (handleRecurrenceError(error, res)) return;
+
+    console.error('Get occurrences error:', error);
+    res.status(500).json({
+      error: 'Failed to get occurrences',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
 /**
  * Snooze a reminder
  * POST /reminders/:id/snooze
  */
-export const snoozeReminder = async (req: Request, res: Response): Promise<void> => {
+export const snoozeReminder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const userId = req.user?.id;
-    if (!userId) {
+    if (!req.user?.uid) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
+    const userId = await getLocalUserId(req.user.uid, req.user.email || '');
 
     const { id } = req.params;
     const { duration } = req.body; // Duration in minutes
@@ -335,13 +480,13 @@ export const snoozeReminder = async (req: Request, res: Response): Promise<void>
  * Mark reminder as acted on
  * POST /reminders/:id/acted
  */
-export const markAsActedOn = async (req: Request, res: Response): Promise<void> => {
+export const markAsActedOn = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const userId = req.user?.id;
-    if (!userId) {
+    if (!req.user?.uid) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
+    const userId = await getLocalUserId(req.user.uid, req.user.email || '');
 
     const { id } = req.params;
 
@@ -381,13 +526,13 @@ export const markAsActedOn = async (req: Request, res: Response): Promise<void>
  * Delete a reminder
  * DELETE /reminders/:id
  */
-export const deleteReminder = async (req: Request, res: Response): Promise<void> => {
+export const deleteReminder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const userId = req.user?.id;
-    if (!userId) {
+    if (!req.user?.uid) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
+    const userId = await getLocalUserId(req.user.uid, req.user.email || '');
 
     const { id } = req.params;
 
@@ -422,13 +567,13 @@ export const deleteReminder = async (req: Request, res: Response): Promise<void>
  * Get reminder stats
  * GET /reminders/stats
  */
-export const getReminderStats = async (req: Request, res: Response): Promise<void> => {
+export const getReminderStats = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const userId = req.user?.id;
-    if (!userId) {
+    if (!req.user?.uid) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
+    const userId = await getLocalUserId(req.user.uid, req.user.email || '');
 
     const [pending, sent, dismissed, completed, byType] = await Promise.all([
       prisma.reminder.count({ where: { userId, status: ReminderStatus.PENDING } }),
@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { RSVPStatus } from '@prisma/client';
+import { RSVPService } from '../services/rsvpService';
+import { RSVPTokenError } from '../errors/rsvpErrors';
+
+// Validation schemas
+const respondSchema = z.object({
+  status: z.enum([RSVPStatus.CONFIRMED, RSVPStatus.DECLINED, RSVPStatus.MAYBE]),
+  plusOnes: z.number().int().min(0).max(20).optional(),
+  dietaryRestrictions: z.string().max(500).optional(),
+});
+
+/**
+ * Map token errors to HTTP responses
+ * Returns true if the error was handled
+ */
+function handleTokenError(error: unknown, res: Response): boolean {
+  if (error instanceof RSVPTokenError) {
+    res.status(error.code === 'EXPIRED' ? 410 : 404).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * View the invitation behind an RSVP link
+ * GET /rsvp/:token
+ */
+export async function getInvitation(req: Request, res: Response): Promise<void> {
+  try {
+    const invitation = await RSVPService.getInvitation(req.params.token as string);
+    res.json(invitation);
+  } catch (error) {
+    if (handleTokenError(error, res)) return;
+
+    console.error('Get RSVP invitation error:', error);
+    res.status(500).json({
+      error: 'Failed to get invitation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Respond to an invitation
+ * POST /rsvp/:token
+ * Body: { status, plusOnes?, dietaryRestrictions? }
+ */
+export async function respondToInvitation(req: Request, res: Response): Promise<void> {
+  try {
+    const validated = respondSchema.parse(req.body);
+    const invitation = await RSVPService.respond(req.params.token as string, validated);
+
+    res.json({
+      success: true,
+      invitation,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation error',
+        issues: error.issues,
+      });
+      return;
+    }
+
+    if (handleTokenError(error, res)) return;
+
+    console.error('Respond to RSVP error:', error);
+    res.status(500).json({
+      error: 'Failed to record RSVP',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
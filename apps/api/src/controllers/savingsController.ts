@@ -0,0 +1,388 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { SavingsService, CreateGoalData, UpdateGoalData } from '../services/savingsService';
+import { auditService, AuditAction } from '../services/auditService';
+import { UserService } from '../services/userService';
+import { AuthenticatedRequest } from '../types/express';
+import {
+  createGoalSchema,
+  updateGoalSchema,
+  goalTransactionSchema,
+  linkEventSchema,
+  getTransactionsQuerySchema,
+  CreateGoalInput,
+  UpdateGoalInput,
+  GoalTransactionInput,
+  LinkEventInput,
+  GetTransactionsQuery,
+} from '../validators/savingsValidators';
+
+/**
+ * Helper to get local user ID from Firebase UID
+ */
+async function getLocalUserId(firebaseUid: string, email?: string): Promise<string> {
+  const localUser = await UserService.getUserByEmail(email || '');
+  if (!localUser) {
+    throw new Error('User not found in local database');
+  }
+  return localUser.id;
+}
+
+/**
+ * Map known service errors to HTTP responses
+ * Returns true if the error was handled
+ */
+function handleKnownError(error: unknown, res: Response): boolean {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({
+      error: 'Validation error',
+      issues: error.issues,
+    });
+    return true;
+  }
+
+  if (error instanceof Error) {
+    if (error.message === 'Savings goal not found' || error.message === 'Event not found') {
+      res.status(404).json({ error: error.message });
+      return true;
+    }
+
+    if (error.message.includes('Insufficient') || error.message.includes('inactive')) {
+      res.status(400).json({ error: error.message });
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Get all savings goals for the authenticated user
+ * GET /savings
+ */
+export async function getGoals(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const goals = await SavingsService.getGoals(localUserId);
+
+    res.json({ data: goals });
+  } catch (error) {
+    console.error('Get savings goals error:', error);
+    res.status(500).json({
+      error: 'Failed to get savings goals',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get a single savings goal with its transactions
+ * GET /savings/:id
+ */
+export async function getGoalById(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+
+    const goal = await SavingsService.getGoalById(localUserId, id as string);
+    if (!goal) {
+      res.status(404).json({ error: 'Savings goal not found' });
+      return;
+    }
+
+    res.json(goal);
+  } catch (error) {
+    console.error('Get savings goal error:', error);
+    res.status(500).json({
+      error: 'Failed to get savings goal',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Create a savings goal
+ * POST /savings
+ */
+export async function createGoal(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const validated: CreateGoalInput = createGoalSchema.parse(req.body);
+
+    const data: CreateGoalData = {
+      name: validated.name,
+      targetAmount: validated.targetAmount,
+      currency: validated.currency,
+      deadline: validated.deadline ? new Date(validated.deadline) : undefined,
+      autoSaveEnabled: validated.autoSaveEnabled,
+      autoSaveAmount: validated.autoSaveAmount,
+      autoSaveFrequency: validated.autoSaveFrequency,
+    };
+
+    let goal = await SavingsService.createGoal(localUserId, data);
+
+    // Link after creation so both sides of the goal/event link are set
+    if (validated.eventId) {
+      goal = await SavingsService.linkGoalToEvent(localUserId, goal.id, validated.eventId);
+    }
+
+    await auditService.logSavingsGoal(AuditAction.SAVINGS_GOAL_CREATED, localUserId, req, goal.id, {
+      targetAmount: validated.targetAmount,
+      currency: goal.currency,
+      eventId: validated.eventId,
+    });
+
+    res.status(201).json(goal);
+  } catch (error) {
+    if (handleKnownError(error, res)) return;
+
+    console.error('Create savings goal error:', error);
+    res.status(500).json({
+      error: 'Failed to create savings goal',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Update a savings goal
+ * PUT /savings/:id
+ */
+export async function updateGoal(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+    const validated: UpdateGoalInput = updateGoalSchema.parse(req.body);
+
+    const data: UpdateGoalData = {
+      ...(validated.name && { name: validated.name }),
+      ...(validated.targetAmount !== undefined && { targetAmount: validated.targetAmount }),
+      ...(validated.currency && { currency: validated.currency }),
+      ...(validated.deadline && { deadline: new Date(validated.deadline) }),
+      ...(validated.autoSaveEnabled !== undefined && { autoSaveEnabled: validated.autoSaveEnabled }),
+      ...(validated.autoSaveAmount !== undefined && { autoSaveAmount: validated.autoSaveAmount }),
+      ...(validated.autoSaveFrequency && { autoSaveFrequency: validated.autoSaveFrequency }),
+      ...(validated.status && { status: validated.status }),
+    };
+
+    const goal = await SavingsService.updateGoal(localUserId, id as string, data);
+
+    await auditService.logSavingsGoal(AuditAction.SAVINGS_GOAL_UPDATED, localUserId, req, goal.id, {
+      changes: Object.keys(data),
+    });
+
+    res.json(goal);
+  } catch (error) {
+    if (handleKnownError(error, res)) return;
+
+    console.error('Update savings goal error:', error);
+    res.status(500).json({
+      error: 'Failed to update savings goal',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Delete a savings goal and its transactions
+ * DELETE /savings/:id
+ */
+export async function deleteGoal(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+
+    const goal = await SavingsService.deleteGoal(localUserId, id as string);
+
+    await auditService.logSavingsGoal(AuditAction.SAVINGS_GOAL_DELETED, localUserId, req, goal.id, {
+      currentAmount: goal.currentAmount.toNumber(),
+      currency: goal.currency,
+    });
+
+    res.json({
+      success: true,
+      message: 'Savings goal deleted successfully',
+    });
+  } catch (error) {
+    if (handleKnownError(error, res)) return;
+
+    console.error('Delete savings goal error:', error);
+    res.status(500).json({
+      error: 'Failed to delete savings goal',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Deposit into a savings goal
+ * POST /savings/:id/deposit
+ */
+export async function deposit(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+    const validated: GoalTransactionInput = goalTransactionSchema.parse(req.body);
+
+    const existingGoal = await SavingsService.getGoalById(localUserId, id as string);
+    if (!existingGoal) {
+      res.status(404).json({ error: 'Savings goal not found' });
+      return;
+    }
+
+    const result = await SavingsService.addContribution(existingGoal.id, validated.amount, validated.description);
+
+    await auditService.logTransaction(
+      AuditAction.TRANSACTION_CREATED,
+      localUserId,
+      req,
+      result.transaction.id,
+      validated.amount,
+      existingGoal.currency,
+      { goalId: existingGoal.id, type: result.transaction.type }
+    );
+
+    if (result.goal.status !== existingGoal.status) {
+      await auditService.logSavingsGoal(AuditAction.SAVINGS_GOAL_UPDATED, localUserId, req, existingGoal.id, {
+        status: result.goal.status,
+      });
+    }
+
+    res.status(201).json(result);
+  } catch (error) {
+    if (handleKnownError(error, res)) return;
+
+    console.error('Deposit error:', error);
+    res.status(500).json({
+      error: 'Failed to deposit into savings goal',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Withdraw from a savings goal
+ * POST /savings/:id/withdraw
+ */
+export async function withdraw(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+    const validated: GoalTransactionInput = goalTransactionSchema.parse(req.body);
+
+    const existingGoal = await SavingsService.getGoalById(localUserId, id as string);
+    if (!existingGoal) {
+      res.status(404).json({ error: 'Savings goal not found' });
+      return;
+    }
+
+    const result = await SavingsService.withdrawFromGoal(existingGoal.id, validated.amount, validated.description);
+
+    await auditService.logTransaction(
+      AuditAction.TRANSACTION_CREATED,
+      localUserId,
+      req,
+      result.transaction.id,
+      validated.amount,
+      existingGoal.currency,
+      { goalId: existingGoal.id, type: result.transaction.type }
+    );
+
+    res.status(201).json(result);
+  } catch (error) {
+    if (handleKnownError(error, res)) return;
+
+    console.error('Withdraw error:', error);
+    res.status(500).json({
+      error: 'Failed to withdraw from savings goal',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get paginated transaction history for a savings goal
+ * GET /savings/:id/transactions
+ * Query: page, limit, type, dateFrom, dateTo
+ */
+export async function getTransactions(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+    const query: GetTransactionsQuery = getTransactionsQuerySchema.parse(req.query);
+
+    const filters = {
+      ...(query.type && { type: query.type }),
+      ...(query.dateFrom && { dateFrom: new Date(query.dateFrom) }),
+      ...(query.dateTo && { dateTo: new Date(query.dateTo) }),
+    };
+
+    const pagination = { page: query.page, limit: query.limit };
+
+    const result = await SavingsService.getTransactions(localUserId, id as string, filters, pagination);
+    res.json(result);
+  } catch (error) {
+    if (handleKnownError(error, res)) return;
+
+    console.error('Get transactions error:', error);
+    res.status(500).json({
+      error: 'Failed to get transactions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Link a savings goal to an event
+ * PUT /savings/:id/event
+ */
+export async function linkEvent(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+    const validated: LinkEventInput = linkEventSchema.parse(req.body);
+
+    const goal = await SavingsService.linkGoalToEvent(localUserId, id as string, validated.eventId);
+
+    await auditService.logSavingsGoal(AuditAction.SAVINGS_GOAL_UPDATED, localUserId, req, goal.id, {
+      linkedEventId: validated.eventId,
+    });
+
+    res.json(goal);
+  } catch (error) {
+    if (handleKnownError(error, res)) return;
+
+    console.error('Link savings goal error:', error);
+    res.status(500).json({
+      error: 'Failed to link savings goal to event',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Unlink a savings goal from its event
+ * DELETE /savings/:id/event
+ */
+export async function unlinkEvent(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const { id } = req.params;
+
+    const goal = await SavingsService.unlinkGoalFromEvent(localUserId, id as string);
+
+    await auditService.logSavingsGoal(AuditAction.SAVINGS_GOAL_UPDATED, localUserId, req, goal.id, {
+      unlinkedEvent: true,
+    });
+
+    res.json(goal);
+  } catch (error) {
+    if (handleKnownError(error, res)) return;
+
+    console.error('Unlink savings goal error:', error);
+    res.status(500).json({
+      error: 'Failed to unlink savings goal from event',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
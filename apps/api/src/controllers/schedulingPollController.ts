@@ -0,0 +1,252 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { PollVoteChoice } from '@prisma/client';
+import { SCHEDULING_POLL_ERRORS, SchedulingPollService } from '../services/schedulingPollService';
+import { UserService } from '../services/userService';
+import { RSVPTokenError } from '../errors/rsvpErrors';
+import { AuthenticatedRequest } from '../types/express';
+
+const MAX_POLL_OPTIONS = 20;
+
+// Validation schemas
+const pollOptionSchema = z
+  .object({
+    start: z.string().datetime(),
+    end: z.string().datetime(),
+  })
+  .refine((option) => new Date(option.end) > new Date(option.start), {
+    message: 'Option must end after it starts',
+  });
+
+const createPollSchema = z.object({
+  options: z.array(pollOptionSchema).min(2, 'Offer at least two times').max(MAX_POLL_OPTIONS),
+  message: z.string().max(500).optional(),
+  closesAt: z.string().datetime().optional(),
+});
+
+const finalizePollSchema = z.object({
+  optionId: z.string().uuid(),
+  syncToCalendar: z.boolean().optional(),
+});
+
+// At most one vote per option, and no more votes than a poll can have options
+const voteSchema = z.object({
+  votes: z
+    .array(
+      z.object({
+        optionId: z.string().uuid(),
+        choice: z.nativeEnum(PollVoteChoice),
+      })
+    )
+    .min(1)
+    .max(MAX_POLL_OPTIONS)
+    .refine((votes) => new Set(votes.map((vote) => vote.optionId)).size === votes.length, {
+      message: 'Vote on each option at most once',
+    }),
+});
+
+const NOT_FOUND_ERRORS = ['Event not found', 'Poll not found'];
+
+/**
+ * Helper to get local user ID from Firebase UID
+ */
+async function getLocalUserId(firebaseUid: string, email?: string): Promise<string> {
+  const localUser = await UserService.getUserByEmail(email || '');
+  if (!localUser) {
+    throw new Error('User not found in local database');
+  }
+  return localUser.id;
+}
+
+/**
+ * Map known poll errors to HTTP responses
+ * Returns true if the error was handled
+ */
+function handlePollError(error: unknown, res: Response): boolean {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({
+      error: 'Validation error',
+      issues: error.issues,
+    });
+    return true;
+  }
+
+  if (error instanceof RSVPTokenError) {
+    res.status(error.code === 'EXPIRED' ? 410 : 404).json({ error: error.message });
+    return true;
+  }
+
+  if (error instanceof Error && SCHEDULING_POLL_ERRORS.includes(error.message)) {
+    res.status(NOT_FOUND_ERRORS.includes(error.message) ? 404 : 400).json({ error: error.message });
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Open a scheduling poll on an event
+ * POST /events/:id/poll
+ * Body: { options: [{ start, end }], message?, closesAt? }
+ */
+export async function createPoll(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const validated = createPollSchema.parse(req.body);
+
+    const poll = await SchedulingPollService.createPoll(localUserId, req.params.id as string, {
+      options: validated.options.map((option) => ({ start: new Date(option.start), end: new Date(option.end) })),
+      message: validated.message,
+      closesAt: validated.closesAt ? new Date(validated.closesAt) : undefined,
+    });
+
+    res.status(201).json(poll);
+  } catch (error) {
+    if (handlePollError(error, res)) return;
+
+    console.error('Create poll error:', error);
+    res.status(500).json({
+      error: 'Failed to create poll',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Get an event's poll with the tally so far
+ * GET /events/:id/poll
+ */
+export async function getPoll(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const poll = await SchedulingPollService.getPoll(localUserId, req.params.id as string);
+
+    res.json(poll);
+  } catch (error) {
+    if (handlePollError(error, res)) return;
+
+    console.error('Get poll error:', error);
+    res.status(500).json({
+      error: 'Failed to get poll',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Create voting links for every attendee
+ * POST /events/:id/poll/links
+ */
+export async function createPollLinks(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const links = await SchedulingPollService.createPollLinks(localUserId, req.params.id as string);
+
+    res.status(201).json({ links });
+  } catch (error) {
+    if (handlePollError(error, res)) return;
+
+    console.error('Create poll links error:', error);
+    res.status(500).json({
+      error: 'Failed to create poll links',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Finalize a poll, moving the event to the chosen time
+ * POST /events/:id/poll/finalize
+ * Body: { optionId, syncToCalendar? }
+ */
+export async function finalizePoll(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    const validated = finalizePollSchema.parse(req.body);
+
+    const result = await SchedulingPollService.finalizePoll(localUserId, req.params.id as string, validated.optionId, {
+      syncToCalendar: validated.syncToCalendar,
+    });
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    if (handlePollError(error, res)) return;
+
+    console.error('Finalize poll error:', error);
+    res.status(500).json({
+      error: 'Failed to finalize poll',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Delete an event's poll
+ * DELETE /events/:id/poll
+ */
+export async function deletePoll(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const localUserId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    await SchedulingPollService.deletePoll(localUserId, req.params.id as string);
+
+    res.json({
+      success: true,
+      message: 'Poll deleted',
+    });
+  } catch (error) {
+    if (handlePollError(error, res)) return;
+
+    console.error('Delete poll error:', error);
+    res.status(500).json({
+      error: 'Failed to delete poll',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * View the poll behind a guest's link
+ * GET /polls/:token
+ */
+export async function getPollBallot(req: Request, res: Response): Promise<void> {
+  try {
+    const ballot = await SchedulingPollService.getBallot(req.params.token as string);
+    res.json(ballot);
+  } catch (error) {
+    if (handlePollError(error, res)) return;
+
+    console.error('Get poll ballot error:', error);
+    res.status(500).json({
+      error: 'Failed to get poll',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Vote on a poll's options
+ * POST /polls/:token
+ * Body: { votes: [{ optionId, choice }] }
+ */
+export async function submitPollVotes(req: Request, res: Response): Promise<void> {
+  try {
+    const validated = voteSchema.parse(req.body);
+    const ballot = await SchedulingPollService.vote(req.params.token as string, validated.votes);
+
+    res.json({
+      success: true,
+      ballot,
+    });
+  } catch (error) {
+    if (handlePollError(error, res)) return;
+
+    console.error('Submit poll votes error:', error);
+    res.status(500).json({
+      error: 'Failed to record votes',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,158 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { WritingStyleCategory } from '@prisma/client';
+import { WritingStyleService } from '../services/writingStyleService';
+import { AuthenticatedRequest } from '../types/express';
+import { getLocalUserId } from './aiController';
+
+// Validation schemas
+const categorySchema = z.nativeEnum(WritingStyleCategory);
+
+const sampleBodySchema = z.object({
+  category: categorySchema,
+  prompt: z.string().trim().min(1).max(2000),
+  response: z.string().trim().min(20, 'Response must be at least 20 characters').max(5000),
+});
+
+const syncSamplesSchema = z.object({
+  samples: z.array(sampleBodySchema.extend({ promptId: z.string().trim().min(1).max(100) })).max(50),
+  overwrite: z.boolean().optional(),
+});
+
+const clearQuerySchema = z.object({
+  category: categorySchema.optional(),
+});
+
+/**
+ * Get everything the AI has learned about how the user writes
+ * GET /ai/writing-style
+ */
+export const getWritingStyleProfile = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    if (!userId) {
+      res.status(401).json({ error: 'User not found' });
+      return;
+    }
+
+    const profile = await WritingStyleService.getProfile(userId);
+    res.json(profile);
+  } catch (error) {
+    console.error('Get writing style profile error:', error);
+    res.status(500).json({
+      error: 'Failed to get writing style profile',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Upload samples stored on a device
+ * POST /ai/writing-style/sync
+ */
+export const syncWritingStyleSamples = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    if (!userId) {
+      res.status(401).json({ error: 'User not found' });
+      return;
+    }
+
+    const { samples, overwrite } = syncSamplesSchema.parse(req.body);
+    const profile = await WritingStyleService.syncSamples(userId, samples, { overwrite });
+    res.json(profile);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', issues: error.issues });
+      return;
+    }
+    console.error('Sync writing style samples error:', error);
+    res.status(500).json({
+      error: 'Failed to sync writing style samples',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Add or edit the sample for one prompt
+ * PUT /ai/writing-style/samples/:promptId
+ */
+export const saveWritingStyleSample = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    if (!userId) {
+      res.status(401).json({ error: 'User not found' });
+      return;
+    }
+
+    const data = sampleBodySchema.parse(req.body);
+    const sample = await WritingStyleService.saveSample(userId, { ...data, promptId: req.params.promptId as string });
+    res.json(sample);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', issues: error.issues });
+      return;
+    }
+    console.error('Save writing style sample error:', error);
+    res.status(500).json({
+      error: 'Failed to save writing style sample',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Forget the sample for one prompt
+ * DELETE /ai/writing-style/samples/:promptId
+ */
+export const deleteWritingStyleSample = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    if (!userId) {
+      res.status(401).json({ error: 'User not found' });
+      return;
+    }
+
+    await WritingStyleService.deleteSample(userId, req.params.promptId as string);
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Writing style sample not found') {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    console.error('Delete writing style sample error:', error);
+    res.status(500).json({
+      error: 'Failed to delete writing style sample',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Forget one category, or the whole profile
+ * DELETE /ai/writing-style?category=CLOSE
+ */
+export const clearWritingStyle = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = await getLocalUserId(req.user!.uid, req.user!.email || '');
+    if (!userId) {
+      res.status(401).json({ error: 'User not found' });
+      return;
+    }
+
+    const { category } = clearQuerySchema.parse(req.query);
+    const deleted = await WritingStyleService.clear(userId, category);
+    res.json({ deleted });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', issues: error.issues });
+      return;
+    }
+    console.error('Clear writing style error:', error);
+    res.status(500).json({
+      error: 'Failed to clear writing style',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
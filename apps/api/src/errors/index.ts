@@ -1 +1,3 @@
 export * from './firebaseErrors';
+export * from './recurrenceErrors';
+export * from './rsvpErrors';
@@ -0,0 +1,10 @@
+/**
+ * Error thrown when a recurrence rule is malformed or unsupported
+ */
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+    Object.setPrototypeOf(this, RecurrenceRuleError.prototype);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Error thrown when a public RSVP token is malformed, tampered with, expired or revoked
+ */
+export class RSVPTokenError extends Error {
+  constructor(message: string, public code: 'INVALID' | 'EXPIRED' = 'INVALID') {
+    super(message);
+    this.name = 'RSVPTokenError';
+    Object.setPrototypeOf(this, RSVPTokenError.prototype);
+  }
+}
@@ -11,6 +11,9 @@ import calendarRoutes from './routes/calendarRoutes';
 import dashboardRoutes from './routes/dashboardRoutes';
 import securityRoutes from './routes/securityRoutes';
 import interestRoutes from './routes/interestRoutes';
+import savingsRoutes from './routes/savingsRoutes';
+import rsvpRoutes from './routes/rsvpRoutes';
+import pollRoutes from './routes/pollRoutes';
 import {
   securityMiddleware,
   additionalSecurityHeaders,
@@ -20,7 +23,7 @@ import {
   notFoundHandler,
   requestLogger,
 } from './middleware';
-import { aiLimiter } from './middleware/rateLimiter';
+import { aiLimiter, rsvpLimiter } from './middleware/rateLimiter';
 
 // Load environment variables
 dotenv.config();
@@ -85,6 +88,11 @@ app.use('/api/calendar', calendarRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/security', securityRoutes);
 app.use('/api/interests', interestRoutes);
+app.use('/api/savings', savingsRoutes);
+// Public RSVP links for guests who are not app users
+app.use('/api/rsvp', rsvpLimiter, rsvpRoutes);
+// Public scheduling poll links, signed like RSVP links
+app.use('/api/polls', rsvpLimiter, pollRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -106,11 +114,18 @@ app.listen(PORT, '0.0.0.0', () => {
     console.log(`🤖 AI endpoints: http://localhost:${PORT}/api/ai`);
     console.log(`📆 Calendar endpoints: http://localhost:${PORT}/api/calendar`);
     console.log(`📊 Dashboard endpoints: http://localhost:${PORT}/api/dashboard`);
+    console.log(`💰 Savings endpoints: http://localhost:${PORT}/api/savings`);
 });
 
-// Start reminder cron jobs (only in production or if enabled)
+// Start reminder, savings and calendar sync cron jobs (only in production or if enabled)
 if (process.env.ENABLE_CRON_JOBS === 'true' || process.env.NODE_ENV === 'production') {
   import('./jobs/reminderCron').then(({ startReminderCronJobs }) => {
     startReminderCronJobs();
   });
+  import('./jobs/savingsCron').then(({ startSavingsCronJobs }) => {
+    startSavingsCronJobs();
+  });
+  import('./jobs/calendarSyncCron').then(({ startCalendarSyncCronJobs }) => {
+    startCalendarSyncCronJobs();
+  });
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+import dotenv from 'dotenv';
+import { prisma } from '../lib/prisma';
+import { decryptContactFields } from '../middleware/encryption';
+import { contactBlindIndexes } from '../utils/blindIndex';
+
+dotenv.config();
+
+const BATCH_SIZE = 500;
+
+/**
+ * Backfill phone and email blind indexes for existing contacts
+ * Decrypts each contact's phone and email and stores their HMACs. Also needed
+ * after changing BLIND_INDEX_KEY or DEFAULT_PHONE_COUNTRY_CODE.
+ *
+ * Usage: npm run jobs:backfill-blind-indexes -- [--all]
+ * Without --all, only contacts with a phone or email but no index are updated.
+ */
+export async function backfillBlindIndexes(all: boolean): Promise<void> {
+  const where = all
+    ? {}
+    : {
+        OR: [
+          { phone: { not: null }, phoneHash: null },
+          { email: { not: null }, emailHash: null },
+        ],
+      };
+
+  console.log(`[Backfill] Indexing ${await prisma.contact.count({ where })} contacts...`);
+
+  let updated = 0;
+  let cursor: string | undefined;
+  for (;;) {
+    const contacts = await prisma.contact.findMany({
+      where,
+      select: { id: true, phone: true, email: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+    if (contacts.length === 0) break;
+    cursor = contacts[contacts.length - 1].id;
+
+    for (const contact of contacts) {
+      try {
+        const { phone, email } = decryptContactFields(contact);
+        await prisma.contact.update({
+          where: { id: contact.id },
+          data: contactBlindIndexes({ phone, email }),
+        });
+        updated++;
+      } catch (error) {
+        console.error(`[Backfill] Error indexing contact ${contact.id}:`, error);
+      }
+    }
+  }
+
+  console.log(`[Backfill] Indexed ${updated} contacts`);
+}
+
+if (require.main === module) {
+  backfillBlindIndexes(process.argv.slice(2).includes('--all'))
+    .catch((error) => {
+      console.error('[Backfill] Failed:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
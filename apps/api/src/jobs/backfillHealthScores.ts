@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+import { dashboardService } from '../services/dashboardService';
+import { prisma } from '../lib/prisma';
+
+dotenv.config();
+
+/**
+ * Backfill daily health score snapshots for every active user
+ * Recomputes past days from existing interactions, events and reminders.
+ *
+ * Usage: npm run jobs:backfill-health-scores -- [days] [--overwrite]
+ */
+export async function backfillHealthScores(days: number, overwrite: boolean): Promise<void> {
+  const users = await prisma.user.findMany({
+    where: { isActive: true },
+    select: { id: true },
+  });
+
+  console.log(`[Backfill] Backfilling ${days} days of health scores for ${users.length} users...`);
+
+  let total = 0;
+  for (const user of users) {
+    try {
+      const written = await dashboardService.backfillHealthScoreSnapshots(user.id, days, { overwrite });
+      total += written;
+    } catch (error) {
+      console.error(`[Backfill] Error backfilling health scores for user ${user.id}:`, error);
+    }
+  }
+
+  console.log(`[Backfill] Wrote ${total} health score snapshots`);
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const days = parseInt(args.find((arg) => !arg.startsWith('--')) || '365', 10);
+  const overwrite = args.includes('--overwrite');
+
+  backfillHealthScores(days, overwrite)
+    .catch((error) => {
+      console.error('[Backfill] Failed:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
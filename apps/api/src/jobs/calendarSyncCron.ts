@@ -0,0 +1,20 @@
+import cron from 'node-cron';
+import { CalendarSyncService } from '../services/calendarSyncService';
+
+/**
+ * Initialize and start calendar sync cron jobs
+ */
+export function startCalendarSyncCronJobs(): void {
+  // Pull Google Calendar changes and push SoCap edits every 15 minutes
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      console.log('[Cron] Syncing calendars...');
+      const result = await CalendarSyncService.syncAll();
+      console.log(`[Cron] Calendars synced: ${result.users} users, ${result.failed} failed`);
+    } catch (error) {
+      console.error('[Cron] Error syncing calendars:', error);
+    }
+  });
+
+  console.log('✅ Calendar sync cron jobs started');
+}
@@ -0,0 +1,57 @@
+import dotenv from 'dotenv';
+import { EncryptionRotationService, RotationProgress } from '../services/encryptionRotationService';
+import { prisma } from '../lib/prisma';
+
+dotenv.config();
+
+function summarize(progress: RotationProgress): string {
+  return (
+    `key "${progress.keyId}" ${progress.status}: ${progress.scanned}/${progress.total} rows scanned (${progress.percent}%), ` +
+    `${progress.reEncrypted} re-encrypted, ${progress.failed} failed`
+  );
+}
+
+/**
+ * Re-encrypt contacts and calendar credentials with the active encryption key
+ * Safe to run while the API is serving; stop it at any time and run it again to resume.
+ *
+ * Rotating a key:
+ * 1. Add the new key to ENCRYPTION_KEYS, keep the old one, and set ENCRYPTION_KEY_ID to it
+ * 2. Restart the API so new data uses the new key
+ * 3. Run this job until it completes
+ * 4. Remove the old key
+ *
+ * Usage: npm run jobs:reencrypt -- [--status] [--batch-size=200]
+ */
+export async function reencryptData(batchSize?: number): Promise<void> {
+  console.log('[Rotation] Re-encrypting stored data with the active key...');
+
+  const progress = await EncryptionRotationService.rotate({
+    batchSize,
+    onProgress: (update) => console.log(`[Rotation] ${summarize(update)}`),
+  });
+
+  console.log(`[Rotation] Done: ${summarize(progress)}`);
+  if (progress.failed > 0) {
+    console.warn('[Rotation] Some rows could not be decrypted with any key in the keyring; see errors above');
+  }
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const batchArg = args.find((arg) => arg.startsWith('--batch-size='));
+  const batchSize = batchArg ? parseInt(batchArg.split('=')[1], 10) : undefined;
+
+  const run = args.includes('--status')
+    ? EncryptionRotationService.getProgress().then((progress) =>
+        console.log(progress ? `[Rotation] ${summarize(progress)}` : '[Rotation] No rotation has run yet')
+      )
+    : reencryptData(batchSize);
+
+  run
+    .catch((error) => {
+      console.error('[Rotation] Failed:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
@@ -1,6 +1,43 @@
 import cron from 'node-cron';
 import { ReminderProcessor } from '../services/reminderProcessor';
+import { dashboardService } from '../services/dashboardService';
+import { AIService } from '../services/aiService';
 import { prisma } from '../lib/prisma';
+import { resolveTimezone, getZonedParts } from '../utils/timezone';
+
+// Local hour at which daily reminders are generated
+const DAILY_REMINDER_HOUR = 8;
+
+// Local hour and weekday (0 = Sunday) for the weekly summary
+const WEEKLY_SUMMARY_HOUR = 9;
+const WEEKLY_SUMMARY_WEEKDAY = 0;
+
+// Matches the 15-minute tick of the per-timezone jobs
+const LOCAL_SLOT_MINUTES = 15;
+
+/**
+ * Active users whose local time is within the 15-minute slot starting at `hour`
+ * Jobs run every 15 minutes, so each user is picked up exactly once per day
+ * (or per week when `weekday` is given), including half-hour offset timezones.
+ */
+async function getUsersAtLocalTime(
+  now: Date,
+  hour: number,
+  weekday?: number
+): Promise<Array<{ id: string; timeZone: string }>> {
+  const users = await prisma.user.findMany({
+    where: { isActive: true },
+    select: { id: true, timezone: true },
+  });
+
+  return users
+    .map((user) => ({ id: user.id, timeZone: resolveTimezone(user.timezone) }))
+    .filter((user) => {
+      const local = getZonedParts(now, user.timeZone);
+      if (weekday !== undefined && local.weekday !== weekday) return false;
+      return local.hour === hour && local.minute < LOCAL_SLOT_MINUTES;
+    });
+}
 
 /**
  * Initialize and start all reminder cron jobs
@@ -17,20 +54,20 @@ export function startReminderCronJobs(): void {
     }
   });
 
-  // Generate new reminders daily at 8 AM
-  cron.schedule('0 8 * * *', async () => {
+  // Generate new reminders daily at 8 AM in each user's own timezone
+  cron.schedule('*/15 * * * *', async () => {
     try {
-      console.log('[Cron] Generating daily reminders...');
-      const users = await prisma.user.findMany({
-        where: { isActive: true },
-        select: { id: true },
-      });
+      const now = new Date();
+      const users = await getUsersAtLocalTime(now, DAILY_REMINDER_HOUR);
+      if (users.length === 0) return;
+
+      console.log(`[Cron] Generating daily reminders for ${users.length} users...`);
 
       for (const user of users) {
         try {
           await ReminderProcessor.generateReachOutReminders(user.id);
-          await ReminderProcessor.generateBirthdayReminders(user.id);
-          await ReminderProcessor.generateEventReminders(user.id);
+          await ReminderProcessor.generateBirthdayReminders(user.id, user.timeZone);
+          await ReminderProcessor.generateEventReminders(user.id, user.timeZone);
         } catch (error) {
           console.error(`[Cron] Error generating reminders for user ${user.id}:`, error);
         }
@@ -42,14 +79,14 @@ export function startReminderCronJobs(): void {
     }
   });
 
-  // Generate weekly summaries on Sunday at 9 AM
-  cron.schedule('0 9 * * 0', async () => {
+  // Generate weekly summaries on Sunday at 9 AM in each user's own timezone
+  cron.schedule('*/15 * * * *', async () => {
     try {
-      console.log('[Cron] Generating weekly summaries...');
-      const users = await prisma.user.findMany({
-        where: { isActive: true },
-        select: { id: true },
-      });
+      const now = new Date();
+      const users = await getUsersAtLocalTime(now, WEEKLY_SUMMARY_HOUR, WEEKLY_SUMMARY_WEEKDAY);
+      if (users.length === 0) return;
+
+      console.log(`[Cron] Generating weekly summaries for ${users.length} users...`);
 
       for (const user of users) {
         try {
@@ -65,5 +102,39 @@ export function startReminderCronJobs(): void {
     }
   });
 
+  // Snapshot the previous day's health score for every user nightly at 00:05 UTC
+  cron.schedule('5 0 * * *', async () => {
+    try {
+      console.log('[Cron] Recording health score snapshots...');
+      const users = await prisma.user.findMany({
+        where: { isActive: true },
+        select: { id: true },
+      });
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+      for (const user of users) {
+        try {
+          await dashboardService.recordHealthScoreSnapshot(user.id, yesterday);
+        } catch (error) {
+          console.error(`[Cron] Error recording health score snapshot for user ${user.id}:`, error);
+        }
+      }
+
+      console.log('[Cron] Health score snapshots recorded');
+    } catch (error) {
+      console.error('[Cron] Error recording health score snapshots:', error);
+    }
+  }, { timezone: 'UTC' });
+
+  // Clear expired AI cache entries and yesterday's quota counters hourly
+  cron.schedule('20 * * * *', async () => {
+    try {
+      const { cacheEntries, quotaWindows } = await AIService.purgeExpired();
+      console.log(`[Cron] Purged ${cacheEntries} AI cache entries and ${quotaWindows} quota counters`);
+    } catch (error) {
+      console.error('[Cron] Error purging AI cache:', error);
+    }
+  });
+
   console.log('✅ Reminder cron jobs started');
 }
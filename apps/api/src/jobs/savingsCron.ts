@@ -0,0 +1,34 @@
+import cron from 'node-cron';
+import { AutoSaveService } from '../services/autoSaveService';
+
+/**
+ * Initialize and start all savings cron jobs
+ */
+export function startSavingsCronJobs(): void {
+  // Post due auto-save contributions every hour
+  // Runs are idempotent, so a missed or repeated run only catches up
+  cron.schedule('0 * * * *', async () => {
+    try {
+      console.log('[Cron] Processing auto-saves...');
+      const result = await AutoSaveService.processAutoSaves();
+      console.log(
+        `[Cron] Auto-saves processed: ${result.contributions} contributions across ${result.goalsProcessed} goals, ${result.completed} completed`
+      );
+    } catch (error) {
+      console.error('[Cron] Error processing auto-saves:', error);
+    }
+  });
+
+  // Check savings goals against their deadline pace daily at 10 AM
+  cron.schedule('0 10 * * *', async () => {
+    try {
+      console.log('[Cron] Checking savings goal pace...');
+      const remindersCreated = await AutoSaveService.checkGoalPace();
+      console.log(`[Cron] Savings pace checked: ${remindersCreated} reminders created`);
+    } catch (error) {
+      console.error('[Cron] Error checking savings goal pace:', error);
+    }
+  });
+
+  console.log('✅ Savings cron jobs started');
+}
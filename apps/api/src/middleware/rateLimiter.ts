@@ -43,6 +43,17 @@ export const aiLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+/**
+ * Public RSVP links (unauthenticated, keyed by IP)
+ */
+export const rsvpLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: isDevelopment ? 200 : 30, // 200 requests in dev, 30 in prod
+  message: 'Too many RSVP requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 /**
  * Legacy exports for backward compatibility
  * These map to the new limiters
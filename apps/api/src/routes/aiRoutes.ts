@@ -6,9 +6,17 @@ import {
   getConversationStarters,
   getRelationshipTip,
   submitFeedback,
+  getFeedbackAnalytics,
   getUsageStats,
   getInsightHistory,
 } from '../controllers/aiController';
+import {
+  getWritingStyleProfile,
+  syncWritingStyleSamples,
+  saveWritingStyleSample,
+  deleteWritingStyleSample,
+  clearWritingStyle,
+} from '../controllers/writingStyleController';
 
 const router = Router();
 
@@ -57,10 +65,19 @@ router.get('/relationship-tip', getRelationshipTip);
  * @route   POST /ai/feedback
  * @desc    Submit feedback for an AI insight (for improving suggestions)
  * @access  Private
- * @body    { insightId, wasUsed, feedback? }
+ * @body    { insightId, wasUsed, feedback?, selectedOption?, usedContent? }
+ * @selectedOption casual | warm | thoughtful for message suggestions
  */
 router.post('/feedback', submitFeedback);
 
+/**
+ * @route   GET /ai/feedback/analytics
+ * @desc    Acceptance rate of AI suggestions per feature and per message context
+ * @access  Private
+ * @query   days? - Look-back window (default: 90, max: 365)
+ */
+router.get('/feedback/analytics', getFeedbackAnalytics);
+
 /**
  * @route   GET /ai/usage or /ai/usage-stats
  * @desc    Get AI usage stats for the current user
@@ -81,4 +98,43 @@ router.get('/usage-stats', getUsageStats); // Alias for frontend compatibility
 router.get('/history', getInsightHistory);
 router.get('/insight-history', getInsightHistory); // Alias for frontend compatibility
 
+/**
+ * @route   GET /ai/writing-style
+ * @desc    Get the user's writing style samples, grouped by category
+ * @access  Private
+ */
+router.get('/writing-style', getWritingStyleProfile);
+
+/**
+ * @route   POST /ai/writing-style/sync
+ * @desc    Upload writing style samples saved on a device
+ * @access  Private
+ * @body    { samples: [{ promptId, category, prompt, response }], overwrite? }
+ */
+router.post('/writing-style/sync', syncWritingStyleSamples);
+
+/**
+ * @route   PUT /ai/writing-style/samples/:promptId
+ * @desc    Add or edit the writing style sample for a prompt
+ * @access  Private
+ * @body    { category, prompt, response }
+ * @category CLOSE | CASUAL | PROFESSIONAL
+ */
+router.put('/writing-style/samples/:promptId', saveWritingStyleSample);
+
+/**
+ * @route   DELETE /ai/writing-style/samples/:promptId
+ * @desc    Delete the writing style sample for a prompt
+ * @access  Private
+ */
+router.delete('/writing-style/samples/:promptId', deleteWritingStyleSample);
+
+/**
+ * @route   DELETE /ai/writing-style
+ * @desc    Delete a whole writing style category, or every sample
+ * @access  Private
+ * @query   category? - CLOSE | CASUAL | PROFESSIONAL
+ */
+router.delete('/writing-style', clearWritingStyle);
+
 export default router;
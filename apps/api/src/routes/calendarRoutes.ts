@@ -2,14 +2,27 @@ import { Router } from 'express';
 import {
   getAuthUrl,
   handleAuthCallback,
+  connectCalDAV,
   disconnectCalendar,
   getConnectionStatus,
   listCalendars,
   findAvailability,
   checkConflicts,
+  getBusyCalendars,
+  updateBusyCalendars,
+  uploadDeviceBusyBlocks,
   syncEventToCalendar,
   unsyncEvent,
+  runCalendarSync,
+  getSyncLog,
+  getSyncConflicts,
+  resolveSyncConflict,
+  updateSyncSettings,
   getCalendarEvents,
+  getFeedStatus,
+  rotateFeed,
+  revokeFeed,
+  getFeed,
 } from '../controllers/calendarController';
 import { authMiddleware } from '../middleware/auth';
 
@@ -17,7 +30,8 @@ const router = Router();
 
 /**
  * @route   GET /calendar/auth/url
- * @desc    Get OAuth URL for Google Calendar authorization
+ * @desc    Get OAuth URL for Google or Outlook Calendar authorization
+ * @query   provider (google | outlook, default google)
  * @access  Private
  */
 router.get('/auth/url', authMiddleware, getAuthUrl);
@@ -29,9 +43,24 @@ router.get('/auth/url', authMiddleware, getAuthUrl);
  */
 router.get('/auth/callback', handleAuthCallback);
 
+/**
+ * @route   GET /calendar/auth/:provider/callback
+ * @desc    OAuth callback handler for a named provider (google, outlook)
+ * @access  Public (state parameter contains user ID)
+ */
+router.get('/auth/:provider/callback', handleAuthCallback);
+
+/**
+ * @route   POST /calendar/connect/caldav
+ * @desc    Connect an iCloud or CalDAV calendar (Fastmail, Nextcloud, ...) with an app password
+ * @body    { provider: 'apple' | 'caldav', serverUrl? (required for caldav), username, password }
+ * @access  Private
+ */
+router.post('/connect/caldav', authMiddleware, connectCalDAV);
+
 /**
  * @route   POST /calendar/disconnect
- * @desc    Disconnect/revoke Google Calendar access
+ * @desc    Disconnect/revoke access to the connected calendar
  * @access  Private
  */
 router.post('/disconnect', authMiddleware, disconnectCalendar);
@@ -45,7 +74,7 @@ router.get('/status', authMiddleware, getConnectionStatus);
 
 /**
  * @route   GET /calendar/calendars
- * @desc    List user's Google Calendars
+ * @desc    List the calendars in the user's connected account
  * @access  Private
  */
 router.get('/calendars', authMiddleware, listCalendars);
@@ -60,7 +89,9 @@ router.get('/events', authMiddleware, getCalendarEvents);
 
 /**
  * @route   GET /calendar/availability
- * @desc    Find available time slots across multiple users
+ * @desc    Find available time slots across multiple users, within everyone's working hours and
+ *          scored in each participant's timezone; only the requester and users in their contacts
+ *          (matched by email) are checked
  * @query   userIds[], startDate, endDate, minDurationMinutes, preferences
  * @access  Private
  */
@@ -68,25 +99,115 @@ router.get('/availability', authMiddleware, findAvailability);
 
 /**
  * @route   GET /calendar/conflicts
- * @desc    Check for calendar conflicts for a given time
+ * @desc    Check for conflicts across the calendars that count toward busy time
  * @query   date, startTime, endTime
  * @access  Private
  */
 router.get('/conflicts', authMiddleware, checkConflicts);
 
+/**
+ * @route   GET /calendar/busy-calendars
+ * @desc    Account and device calendars, and which count toward busy time
+ * @access  Private
+ */
+router.get('/busy-calendars', authMiddleware, getBusyCalendars);
+
+/**
+ * @route   PUT /calendar/busy-calendars
+ * @desc    Choose the calendars that count toward busy time (none chosen = the primary calendar);
+ *          account calendars must be listed by the connected account
+ * @body    { account: [{ calendarId, name }], device: [{ calendarId, name }] }
+ * @access  Private
+ */
+router.put('/busy-calendars', authMiddleware, updateBusyCalendars);
+
+/**
+ * @route   PUT /calendar/busy-calendars/device-blocks
+ * @desc    Replace busy time from device calendars within a window (at most 120 days)
+ * @body    { timeMin, timeMax, blocks: [{ calendarId, start, end }] }
+ * @access  Private
+ */
+router.put('/busy-calendars/device-blocks', authMiddleware, uploadDeviceBusyBlocks);
+
 /**
  * @route   POST /calendar/sync
- * @desc    Sync an app event to Google Calendar
+ * @desc    Sync an app event to the connected calendar
  * @body    { eventId: string }
  * @access  Private
  */
 router.post('/sync', authMiddleware, syncEventToCalendar);
 
+/**
+ * @route   POST /calendar/sync/run
+ * @desc    Two-way sync with Google Calendar: pull changes made there, push changes made here
+ * @access  Private
+ */
+router.post('/sync/run', authMiddleware, runCalendarSync);
+
+/**
+ * @route   GET /calendar/sync/log
+ * @desc    Recent sync runs with what each one pulled, pushed or flagged
+ * @query   limit (default 20)
+ * @access  Private
+ */
+router.get('/sync/log', authMiddleware, getSyncLog);
+
+/**
+ * @route   GET /calendar/sync/conflicts
+ * @desc    Events changed in both SoCap and Google, waiting for the user to pick one
+ * @access  Private
+ */
+router.get('/sync/conflicts', authMiddleware, getSyncConflicts);
+
+/**
+ * @route   POST /calendar/sync/conflicts/:conflictId/resolve
+ * @desc    Keep the SoCap or the Google version of a conflicting event
+ * @body    { resolution: 'SOCAP_WINS' | 'GOOGLE_WINS' }
+ * @access  Private
+ */
+router.post('/sync/conflicts/:conflictId/resolve', authMiddleware, resolveSyncConflict);
+
+/**
+ * @route   PUT /calendar/sync/settings
+ * @desc    Set how sync conflicts are settled
+ * @body    { conflictPolicy: 'SOCAP_WINS' | 'GOOGLE_WINS' | 'ASK' }
+ * @access  Private
+ */
+router.put('/sync/settings', authMiddleware, updateSyncSettings);
+
 /**
  * @route   DELETE /calendar/sync/:eventId
- * @desc    Remove an event from Google Calendar (unsync)
+ * @desc    Remove an event from the connected calendar (unsync)
  * @access  Private
  */
 router.delete('/sync/:eventId', authMiddleware, unsyncEvent);
 
+/**
+ * @route   GET /calendar/feed
+ * @desc    Get the status of the user's iCalendar feed subscription
+ * @access  Private
+ */
+router.get('/feed', authMiddleware, getFeedStatus);
+
+/**
+ * @route   POST /calendar/feed/rotate
+ * @desc    Create the secret feed URL, or replace it (the old URL stops working)
+ * @access  Private
+ */
+router.post('/feed/rotate', authMiddleware, rotateFeed);
+
+/**
+ * @route   DELETE /calendar/feed
+ * @desc    Revoke the feed URL
+ * @access  Private
+ */
+router.delete('/feed', authMiddleware, revokeFeed);
+
+/**
+ * @route   GET /calendar/feed/:token.ics
+ * @desc    iCalendar feed of events, birthdays and anniversaries (supports If-None-Match)
+ * @access  Public (secret token in the URL)
+ */
+router.get('/feed/:token', getFeed);
+
 export default router;
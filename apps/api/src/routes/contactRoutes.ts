@@ -6,11 +6,21 @@ import {
   updateContact,
   deleteContact,
   importContacts,
+  previewContactFile,
+  importContactFile,
+  exportContacts,
   updateRelationship,
   logInteraction,
   getInteractionHistory,
   batchLogInteractions,
   getLastSyncTime,
+  extractInteractionFollowUps,
+  getSharedInterestSuggestions,
+  getFollowUps,
+  confirmFollowUp,
+  rejectFollowUp,
+  getDuplicateContacts,
+  mergeContacts,
 } from '../controllers/contactController';
 import { authMiddleware } from '../middleware/auth';
 
@@ -41,10 +51,36 @@ router.post('/', createContact);
  */
 router.post('/import', importContacts);
 
+/**
+ * @route   POST /contacts/import/preview
+ * @desc    Read a vCard or CSV file and show each row as it would be imported, with its errors
+ * @access  Private
+ * @body    { format: 'vcard' | 'csv', content, mapping?: { [field]: csvHeader } }
+ */
+router.post('/import/preview', previewContactFile);
+
+/**
+ * @route   POST /contacts/import/file
+ * @desc    Import the valid rows of a vCard or CSV file, skipping contacts that already exist
+ * @access  Private
+ * @body    { format: 'vcard' | 'csv', content, mapping?: { [field]: csvHeader } }
+ */
+router.post('/import/file', importContactFile);
+
+/**
+ * @route   GET /contacts/export
+ * @desc    Download all contacts, with tier and shared interests as custom fields
+ * @access  Private
+ * @query   format ('vcard' | 'csv', default 'vcard'), version ('3.0' | '4.0', vCard only)
+ */
+router.get('/export', exportContacts);
+
 /**
  * @route   POST /contacts/sync/interactions
- * @desc    Batch log interactions from call logs, etc.
+ * @desc    Batch log interactions from call logs, etc. Idempotent per source and externalId,
+ *          with a result per item so failed ones can be retried
  * @access  Private
+ * @body    { interactions: [{ contactId?, contactPhone?, type, date, duration?, direction?, source?, externalId? }] }
  */
 router.post('/sync/interactions', batchLogInteractions);
 
@@ -55,6 +91,36 @@ router.post('/sync/interactions', batchLogInteractions);
  */
 router.get('/sync/last', getLastSyncTime);
 
+/**
+ * @route   GET /contacts/follow-ups
+ * @desc    List follow-ups the AI found in interaction notes
+ * @access  Private
+ * @query   status (PENDING | CONFIRMED | REJECTED), contactId, interactionId
+ */
+router.get('/follow-ups', getFollowUps);
+
+/**
+ * @route   POST /contacts/follow-ups/:followUpId/confirm
+ * @desc    Accept a follow-up and create a CUSTOM reminder for it
+ * @access  Private
+ * @body    { title?, message?, scheduledDate? }
+ */
+router.post('/follow-ups/:followUpId/confirm', confirmFollowUp);
+
+/**
+ * @route   POST /contacts/follow-ups/:followUpId/reject
+ * @desc    Dismiss a follow-up without creating a reminder
+ * @access  Private
+ */
+router.post('/follow-ups/:followUpId/reject', rejectFollowUp);
+
+/**
+ * @route   GET /contacts/duplicates
+ * @desc    Pairs of contacts that look like the same person (shared phone or email, or similar names)
+ * @access  Private
+ */
+router.get('/duplicates', getDuplicateContacts);
+
 /**
  * @route   GET /contacts/:id
  * @desc    Get a single contact by ID with full details
@@ -83,13 +149,37 @@ router.delete('/:id', deleteContact);
  */
 router.put('/:id/relationship', updateRelationship);
 
+/**
+ * @route   POST /contacts/:id/merge
+ * @desc    Merge a duplicate contact into this one, moving its history over
+ * @access  Private
+ * @body    { duplicateId, fields?: { [field]: 'survivor' | 'duplicate' }, relationship?: 'survivor' | 'duplicate' }
+ */
+router.post('/:id/merge', mergeContacts);
+
+/**
+ * @route   GET /contacts/:id/interest-suggestions
+ * @desc    Suggest shared interests from topics tagged on interactions
+ * @access  Private
+ */
+router.get('/:id/interest-suggestions', getSharedInterestSuggestions);
+
 /**
  * @route   POST /contacts/:id/interactions
  * @desc    Log an interaction with a contact
  * @access  Private
+ * @body    { type, date, duration?, notes?, sentiment?, topics?, extractFollowUps? }
  */
 router.post('/:id/interactions', logInteraction);
 
+/**
+ * @route   POST /contacts/:id/interactions/:interactionId/follow-ups
+ * @desc    Have the AI look for follow-ups in an interaction's notes; returns only ones not
+ *          already found for the interaction (in any status)
+ * @access  Private
+ */
+router.post('/:id/interactions/:interactionId/follow-ups', extractInteractionFollowUps);
+
 /**
  * @route   GET /contacts/:id/interactions
  * @desc    Get interaction history for a contact
@@ -15,7 +15,7 @@ router.get('/', authMiddleware, dashboardController.getDashboard);
 // GET /dashboard/insights - Get detailed insights
 router.get('/insights', authMiddleware, dashboardController.getInsights);
 
-// GET /dashboard/health-score/history - Get health score history
+// GET /dashboard/health-score/history?days=30|90|365 - Get stored daily health score history
 router.get('/health-score/history', authMiddleware, dashboardController.getHealthScoreHistory);
 
 export default router;
@@ -10,10 +10,26 @@ import {
   addAttendees,
   removeAttendee,
   updateRSVP,
+  createRSVPLink,
+  sendInvitations,
+  sendEventUpdates,
+  getEmailDeliveries,
   sendRSVPReminders,
   getEventTemplatesHandler,
   searchVenues,
+  getEventOccurrences,
+  getEventOccurrence,
+  updateEventOccurrence,
+  cancelEventOccurrence,
+  updateOccurrenceRSVP,
 } from '../controllers/eventController';
+import {
+  createPoll,
+  getPoll,
+  createPollLinks,
+  finalizePoll,
+  deletePoll,
+} from '../controllers/schedulingPollController';
 import { authMiddleware } from '../middleware/auth';
 
 const router = Router();
@@ -24,7 +40,8 @@ router.use(authMiddleware);
 /**
  * @route   GET /events
  * @desc    Get all events for the authenticated user
- * @query   status, startDate, endDate, page, limit, view (list|calendar), year, month
+ *          Recurring events are expanded into occurrences when a date range is given
+ * @query   status, dateFrom, dateTo, page, limit, view (list|calendar), year, month
  * @access  Private
  */
 router.get('/', getEvents);
@@ -72,7 +89,8 @@ router.get('/:id', getEventById);
 /**
  * @route   PUT /events/:id
  * @desc    Update an event (handles recurring event updates)
- * @body    any event fields, updateFutureOccurrences (for recurring events)
+ * @body    any event fields, updateFutureOccurrences + occurrenceDate (YYYY-MM-DD)
+ *          to split a recurring series and edit that occurrence and all later ones
  * @access  Private
  */
 router.put('/:id', updateEvent);
@@ -115,9 +133,113 @@ router.delete('/:id/attendees/:attendeeId', removeAttendee);
  */
 router.put('/:id/attendees/:attendeeId/rsvp', updateRSVP);
 
+/**
+ * @route   POST /events/:id/attendees/:attendeeId/rsvp-link
+ * @desc    Create a signed, expiring link the guest can RSVP through without an account
+ * @body    { regenerate?: boolean } - revokes links issued earlier
+ * @access  Private
+ */
+router.post('/:id/attendees/:attendeeId/rsvp-link', createRSVPLink);
+
+/**
+ * @route   POST /events/:id/poll
+ * @desc    Open a scheduling poll: guests vote on candidate times through their own links
+ * @body    { options: [{ start, end }] (2-20), message?, closesAt? }
+ * @access  Private
+ */
+router.post('/:id/poll', createPoll);
+
+/**
+ * @route   GET /events/:id/poll
+ * @desc    Get the event's poll with each option's tally and who voted what
+ * @access  Private
+ */
+router.get('/:id/poll', getPoll);
+
+/**
+ * @route   DELETE /events/:id/poll
+ * @desc    Delete the event's poll and its votes
+ * @access  Private
+ */
+router.delete('/:id/poll', deletePoll);
+
+/**
+ * @route   POST /events/:id/poll/links
+ * @desc    Create a signed voting link for every attendee
+ * @access  Private
+ */
+router.post('/:id/poll/links', createPollLinks);
+
+/**
+ * @route   POST /events/:id/poll/finalize
+ * @desc    Move the event to the chosen option and close the poll
+ * @body    { optionId, syncToCalendar?: boolean }
+ * @access  Private
+ */
+router.post('/:id/poll/finalize', finalizePoll);
+
+/**
+ * @route   GET /events/:id/occurrences
+ * @desc    List occurrences of a recurring event with overrides applied
+ * @query   from, to (required)
+ * @access  Private
+ */
+router.get('/:id/occurrences', getEventOccurrences);
+
+/**
+ * @route   GET /events/:id/occurrences/:date
+ * @desc    Get one occurrence (YYYY-MM-DD) with attendees and their RSVPs for it
+ * @access  Private
+ */
+router.get('/:id/occurrences/:date', getEventOccurrence);
+
+/**
+ * @route   PUT /events/:id/occurrences/:date
+ * @desc    Override one occurrence: date, startTime, endTime, status, costs, notes
+ * @access  Private
+ */
+router.put('/:id/occurrences/:date', updateEventOccurrence);
+
+/**
+ * @route   POST /events/:id/occurrences/:date/cancel
+ * @desc    Cancel one occurrence without affecting the rest of the series
+ * @access  Private
+ */
+router.post('/:id/occurrences/:date/cancel', cancelEventOccurrence);
+
+/**
+ * @route   PUT /events/:id/occurrences/:date/attendees/:attendeeId/rsvp
+ * @desc    Update an attendee's RSVP for one occurrence
+ * @body    { status: RSVPStatus, plusOnes?: number }
+ * @access  Private
+ */
+router.put('/:id/occurrences/:date/attendees/:attendeeId/rsvp', updateOccurrenceRSVP);
+
+/**
+ * @route   POST /events/:id/invitations
+ * @desc    Email invitations with an RSVP link and .ics attachment
+ * @body    { attendeeIds?: string[], resend?: boolean } - already-invited attendees are skipped unless resend
+ * @access  Private
+ */
+router.post('/:id/invitations', sendInvitations);
+
+/**
+ * @route   POST /events/:id/send-updates
+ * @desc    Email attendees the event's updated details with a new .ics
+ * @access  Private
+ */
+router.post('/:id/send-updates', sendEventUpdates);
+
+/**
+ * @route   GET /events/:id/email-deliveries
+ * @desc    Who was emailed what and when, per attendee
+ * @access  Private
+ */
+router.get('/:id/email-deliveries', getEmailDeliveries);
+
 /**
  * @route   POST /events/:id/send-rsvp-reminders
- * @desc    Send RSVP reminders to attendees who haven't responded
+ * @desc    Send RSVP reminders to attendees who haven't responded (in-app and email)
  * @access  Private
  */
 router.post('/:id/send-rsvp-reminders', sendRSVPReminders);
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { getPollBallot, submitPollVotes } from '../controllers/schedulingPollController';
+
+const router = Router();
+
+// No authentication: the signed token in the URL identifies the guest and the poll
+
+/**
+ * @route   GET /polls/:token
+ * @desc    View the poll's options, vote counts and the guest's own votes
+ * @access  Public (signed token)
+ */
+router.get('/:token', getPollBallot);
+
+/**
+ * @route   POST /polls/:token
+ * @desc    Vote on the poll's options; notifies the organizer
+ * @body    { votes: [{ optionId, choice: YES | IF_NEEDED | NO }] } (one per option, at most 20)
+ * @access  Public (signed token)
+ */
+router.post('/:token', submitPollVotes);
+
+export default router;
@@ -7,6 +7,8 @@ import {
   updateReminder,
   dismissReminder,
   snoozeReminder,
+  skipOccurrence,
+  getOccurrences,
   markAsActedOn,
   deleteReminder,
   getReminderStats,
@@ -44,11 +46,21 @@ router.get('/', getReminders);
  */
 router.get('/:id', getReminder);
 
+/**
+ * @route   GET /reminders/:id/occurrences
+ * @desc    List upcoming occurrences of a recurring reminder
+ * @access  Private
+ * @query   from, to - ISO datetime window
+ * @query   limit - Max occurrences (default: 20, max: 100)
+ */
+router.get('/:id/occurrences', getOccurrences);
+
 /**
  * @route   POST /reminders
  * @desc    Create a custom reminder
  * @access  Private
  * @body    { type, title, message, scheduledDate, contactId?, eventId?, isRecurring?, recurringPattern? }
+ *          recurringPattern: { rrule, timeZone? } e.g. { rrule: "FREQ=MONTHLY;BYDAY=-1FR;COUNT=6" }
  */
 router.post('/', createReminder);
 
@@ -56,7 +68,8 @@ router.post('/', createReminder);
  * @route   PUT /reminders/:id
  * @desc    Update a reminder
  * @access  Private
- * @body    { title?, message?, scheduledDate?, isRecurring?, recurringPattern?, status? }
+ * @body    { title?, message?, scheduledDate?, isRecurring?, recurringPattern?, status?, scope? }
+ *          scope: THIS | FUTURE (recurring reminders only, default FUTURE)
  */
 router.put('/:id', updateReminder);
 
@@ -67,6 +80,14 @@ router.put('/:id', updateReminder);
  */
 router.post('/:id/dismiss', dismissReminder);
 
+/**
+ * @route   POST /reminders/:id/skip
+ * @desc    Skip one occurrence of a recurring reminder
+ * @access  Private
+ * @body    { occurrenceDate? } - Defaults to the reminder's own occurrence
+ */
+router.post('/:id/skip', skipOccurrence);
+
 /**
  * @route   POST /reminders/:id/snooze
  * @desc    Snooze a reminder for a specified duration
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { getInvitation, respondToInvitation } from '../controllers/rsvpController';
+
+const router = Router();
+
+// No authentication: the signed token in the URL identifies the attendee
+
+/**
+ * @route   GET /rsvp/:token
+ * @desc    View event details and the guest's current response
+ * @access  Public (signed token)
+ */
+router.get('/:token', getInvitation);
+
+/**
+ * @route   POST /rsvp/:token
+ * @desc    Set the guest's RSVP; notifies the organizer and may auto-confirm the event
+ * @body    { status: CONFIRMED | DECLINED | MAYBE, plusOnes?, dietaryRestrictions? }
+ * @access  Public (signed token)
+ */
+router.post('/:token', respondToInvitation);
+
+export default router;
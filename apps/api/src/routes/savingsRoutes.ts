@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import {
+  getGoals,
+  getGoalById,
+  createGoal,
+  updateGoal,
+  deleteGoal,
+  deposit,
+  withdraw,
+  getTransactions,
+  linkEvent,
+  unlinkEvent,
+} from '../controllers/savingsController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+
+// All savings routes require authentication
+router.use(authMiddleware);
+
+/**
+ * @route   GET /savings
+ * @desc    Get all savings goals with their latest transactions
+ * @access  Private
+ */
+router.get('/', getGoals);
+
+/**
+ * @route   POST /savings
+ * @desc    Create a savings goal, optionally linked to an event
+ * @body    name, targetAmount, currency?, deadline?, eventId?,
+ *          autoSaveEnabled?, autoSaveAmount?, autoSaveFrequency?
+ * @access  Private
+ */
+router.post('/', createGoal);
+
+/**
+ * @route   GET /savings/:id
+ * @desc    Get a single savings goal with all transactions
+ * @access  Private
+ */
+router.get('/:id', getGoalById);
+
+/**
+ * @route   PUT /savings/:id
+ * @desc    Update a savings goal
+ * @access  Private
+ */
+router.put('/:id', updateGoal);
+
+/**
+ * @route   DELETE /savings/:id
+ * @desc    Delete a savings goal and its transactions
+ * @access  Private
+ */
+router.delete('/:id', deleteGoal);
+
+/**
+ * @route   POST /savings/:id/deposit
+ * @desc    Deposit into a savings goal
+ * @body    { amount: number, description?: string }
+ * @access  Private
+ */
+router.post('/:id/deposit', deposit);
+
+/**
+ * @route   POST /savings/:id/withdraw
+ * @desc    Withdraw from a savings goal
+ * @body    { amount: number, description?: string }
+ * @access  Private
+ */
+router.post('/:id/withdraw', withdraw);
+
+/**
+ * @route   GET /savings/:id/transactions
+ * @desc    Get paginated transaction history for a savings goal
+ * @query   page, limit, type, dateFrom, dateTo
+ * @access  Private
+ */
+router.get('/:id/transactions', getTransactions);
+
+/**
+ * @route   PUT /savings/:id/event
+ * @desc    Link a savings goal to an event
+ * @body    { eventId: string }
+ * @access  Private
+ */
+router.put('/:id/event', linkEvent);
+
+/**
+ * @route   DELETE /savings/:id/event
+ * @desc    Unlink a savings goal from its event
+ * @access  Private
+ */
+router.delete('/:id/event', unlinkEvent);
+
+export default router;
@@ -0,0 +1,113 @@
+import { AIInsightType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import {
+  deriveMessagePreferences,
+  deriveStarterPreferences,
+  FeedbackAnalytics,
+  FeedbackInsight,
+  MessagePreferences,
+  StarterPreferences,
+  summarizeFeedback,
+} from '../utils/aiFeedback';
+
+// How far back generation looks for the user's picks
+const PREFERENCE_HISTORY = 100;
+
+const FEEDBACK_SELECT = {
+  type: true,
+  contactId: true,
+  content: true,
+  context: true,
+  wasUsed: true,
+  feedback: true,
+  selectedOption: true,
+  usedContent: true,
+  createdAt: true,
+} as const;
+
+export interface InsightFeedbackInput {
+  wasUsed: boolean;
+  feedback?: string | null;
+  // Which suggestion was picked, e.g. the message tone
+  selectedOption?: string | null;
+  // The text that was actually sent, after any edits
+  usedContent?: string | null;
+}
+
+/**
+ * Reads feedback on AI insights back into generation and reporting
+ */
+export class AIFeedbackService {
+  /**
+   * Record what the user did with an insight
+   */
+  static async recordFeedback(userId: string, insightId: string, input: InsightFeedbackInput) {
+    const insight = await prisma.aIInsight.findFirst({ where: { id: insightId, userId } });
+    if (!insight) {
+      throw new Error('Insight not found');
+    }
+
+    return prisma.aIInsight.update({
+      where: { id: insightId },
+      data: {
+        wasUsed: input.wasUsed,
+        feedback: input.feedback ?? insight.feedback,
+        // Keep an earlier pick when a later call (e.g. a thumbs up) doesn't say which one
+        selectedOption: input.selectedOption ?? insight.selectedOption,
+        usedContent: input.usedContent ?? insight.usedContent,
+      },
+    });
+  }
+
+  /**
+   * Tone preference and sent examples for message suggestions
+   */
+  static async getMessagePreferences(
+    userId: string,
+    contactId: string,
+    messageContext: string
+  ): Promise<MessagePreferences> {
+    const insights = await prisma.aIInsight.findMany({
+      where: { userId, type: AIInsightType.MESSAGE_SUGGESTION, wasUsed: true },
+      select: FEEDBACK_SELECT,
+      orderBy: { createdAt: 'desc' },
+      take: PREFERENCE_HISTORY,
+    });
+
+    return deriveMessagePreferences(insights as FeedbackInsight[], { contactId, messageContext });
+  }
+
+  /**
+   * Starters the user used and topics they didn't like
+   */
+  static async getStarterPreferences(userId: string, contactId: string): Promise<StarterPreferences> {
+    const insights = await prisma.aIInsight.findMany({
+      where: {
+        userId,
+        type: AIInsightType.CONVERSATION_STARTER,
+        OR: [{ wasUsed: true }, { feedback: 'not_helpful' }],
+      },
+      select: FEEDBACK_SELECT,
+      orderBy: { createdAt: 'desc' },
+      take: PREFERENCE_HISTORY,
+    });
+
+    return deriveStarterPreferences(insights as FeedbackInsight[], contactId);
+  }
+
+  /**
+   * Acceptance rates per feature and per message occasion since a date
+   */
+  static async getAnalytics(userId: string, since: Date): Promise<FeedbackAnalytics & { since: Date }> {
+    try {
+      const insights = await prisma.aIInsight.findMany({
+        where: { userId, type: { not: AIInsightType.TOKEN_USAGE }, createdAt: { gte: since } },
+        select: FEEDBACK_SELECT,
+      });
+
+      return { since, ...summarizeFeedback(insights as FeedbackInsight[]) };
+    } catch (error) {
+      throw new Error(`Failed to get AI feedback analytics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -1,7 +1,15 @@
-import OpenAI from 'openai';
 import crypto from 'crypto';
+import { Sentiment } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { ContactService } from './contactService';
+import { AIStore, TOTAL_QUOTA_SCOPE, createAIStoreFromEnv } from './aiStore';
+import { LLMMessage, getFeatureModel } from './llmProviders';
+import { WritingStyleService } from './writingStyleService';
+import { buildWritingStylePrompt, styleCategoryForTier } from '../utils/writingStyle';
+import { AIFeedbackService } from './aiFeedbackService';
+import { buildMessagePreferencePrompt, buildStarterPreferencePrompt } from '../utils/aiFeedback';
+import { describeLocalDate, FollowUpDraft, MAX_FOLLOW_UPS, normalizeFollowUps } from '../utils/followUps';
+import { MAX_TOPICS, normalizeTopics } from '../utils/interactionTags';
 
 // Types
 interface MessageSuggestions {
@@ -54,14 +62,116 @@ interface EventIdeaParams {
   restrictions?: string[];
 }
 
-// In-memory cache
-const cache = new Map<string, { data: any; expiresAt: number }>();
+interface FollowUpExtractionParams {
+  contactName: string;
+  notes: string;
+  interactionDate: Date;
+  timeZone: string;
+}
+
+interface InteractionTags {
+  sentiment: Sentiment | null;
+  topics: string[];
+}
+
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
-// Rate limiting tracking
-const rateLimitTracker = new Map<string, { count: number; resetAt: number }>();
-const RATE_LIMIT_MAX = 50; // 50 requests per day per user
-const RATE_LIMIT_WINDOW = 24 * 60 * 60 * 1000; // 24 hours
+export type AIFeature =
+  | 'message_suggestions'
+  | 'event_ideas'
+  | 'conversation_starters'
+  | 'relationship_tip'
+  | 'follow_ups'
+  | 'interaction_tags';
+
+export interface AIQuotaConfig {
+  dailyRequestLimit: number;
+  monthlyTokenBudget: number;
+  featureDailyLimits: Record<AIFeature, number>;
+}
+
+export interface AIQuotaStatus {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface AIUsageStats {
+  today: number;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  features: Record<AIFeature, AIQuotaStatus>;
+  tokens: AIQuotaStatus & { resetAt: Date };
+}
+
+const DEFAULT_QUOTAS: AIQuotaConfig = {
+  dailyRequestLimit: 50,
+  monthlyTokenBudget: 200000,
+  featureDailyLimits: {
+    message_suggestions: 30,
+    event_ideas: 10,
+    conversation_starters: 20,
+    relationship_tip: 5,
+    follow_ups: 20,
+    interaction_tags: 30,
+  },
+};
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined ? NaN : parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Quota limits, overridable per deployment
+ * AI_DAILY_REQUEST_LIMIT, AI_MONTHLY_TOKEN_BUDGET and AI_<FEATURE>_DAILY_LIMIT
+ * (e.g. AI_EVENT_IDEAS_DAILY_LIMIT).
+ */
+export function getQuotaConfig(env: NodeJS.ProcessEnv = process.env): AIQuotaConfig {
+  const featureDailyLimits = { ...DEFAULT_QUOTAS.featureDailyLimits };
+  for (const feature of Object.keys(featureDailyLimits) as AIFeature[]) {
+    featureDailyLimits[feature] = readLimit(
+      env[`AI_${feature.toUpperCase()}_DAILY_LIMIT`],
+      featureDailyLimits[feature]
+    );
+  }
+
+  return {
+    dailyRequestLimit: readLimit(env.AI_DAILY_REQUEST_LIMIT, DEFAULT_QUOTAS.dailyRequestLimit),
+    monthlyTokenBudget: readLimit(env.AI_MONTHLY_TOKEN_BUDGET, DEFAULT_QUOTAS.monthlyTokenBudget),
+    featureDailyLimits,
+  };
+}
+
+// Request quotas reset at midnight UTC, token budgets on the 1st of the month
+function startOfUTCDay(date: Date, offsetDays = 0): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + offsetDays));
+}
+
+function startOfUTCMonth(date: Date, offsetMonths = 0): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offsetMonths, 1));
+}
+
+let store: AIStore | null = null;
+
+/**
+ * Get the store holding the response cache and quota ledger, creating it from the environment on first use
+ */
+export function getAIStore(): AIStore {
+  if (!store) {
+    store = createAIStoreFromEnv();
+  }
+  return store;
+}
+
+/**
+ * Replace the AI store (tests)
+ * Pass null to go back to the environment's store.
+ */
+export function setAIStore(next: AIStore | null): void {
+  store = next;
+}
 
 // Fallback responses
 const FALLBACK_MESSAGE_SUGGESTIONS: MessageSuggestions = {
@@ -123,25 +233,6 @@ const FALLBACK_RELATIONSHIP_TIP: RelationshipTip = {
 };
 
 export class AIService {
-  private static openai: OpenAI | null = null;
-
-  /**
-   * Initialize OpenAI client
-   */
-  private static getClient(): OpenAI | null {
-    if (!this.openai) {
-      const apiKey = process.env.OPENAI_API_KEY;
-      console.log('🔑 OpenAI API Key status:', apiKey ? `Set (${apiKey.substring(0, 10)}...)` : 'NOT SET');
-      if (!apiKey) {
-        console.warn('⚠️ OPENAI_API_KEY not configured. AI features will use fallback responses.');
-        return null;
-      }
-      this.openai = new OpenAI({ apiKey });
-      console.log('✅ OpenAI client initialized');
-    }
-    return this.openai;
-  }
-
   /**
    * Generate cache key from input parameters
    */
@@ -153,63 +244,78 @@ export class AIService {
   /**
    * Get cached response if available
    */
-  private static getFromCache<T>(key: string): T | null {
-    const cached = cache.get(key);
-    if (cached && cached.expiresAt > Date.now()) {
-      return cached.data as T;
+  private static async getFromCache<T>(key: string): Promise<T | null> {
+    try {
+      return await getAIStore().getCached<T>(key);
+    } catch (error) {
+      console.warn('Failed to read AI cache:', error);
+      return null;
     }
-    cache.delete(key);
-    return null;
   }
 
   /**
    * Store response in cache
    */
-  private static setCache(key: string, data: any): void {
-    cache.set(key, {
-      data,
-      expiresAt: Date.now() + CACHE_TTL,
-    });
+  private static async setCache(key: string, data: any): Promise<void> {
+    try {
+      await getAIStore().setCached(key, data, new Date(Date.now() + CACHE_TTL));
+    } catch (error) {
+      // Non-critical, the next request just regenerates
+      console.warn('Failed to write AI cache:', error);
+    }
   }
 
   /**
-   * Check and update rate limit for user
+   * Take one request from the user's daily and per-feature quotas
+   * Fails closed when the ledger can't be reached, so an outage can't run up the bill.
    */
-  private static checkRateLimit(userId: string): { allowed: boolean; remaining: number } {
-    const now = Date.now();
-    const userLimit = rateLimitTracker.get(userId);
-
-    if (!userLimit || userLimit.resetAt < now) {
-      // Reset or initialize
-      rateLimitTracker.set(userId, {
-        count: 1,
-        resetAt: now + RATE_LIMIT_WINDOW,
-      });
-      return { allowed: true, remaining: RATE_LIMIT_MAX - 1 };
-    }
+  private static async checkRateLimit(userId: string, feature: AIFeature): Promise<{ allowed: boolean }> {
+    const config = getQuotaConfig();
+    const windowStart = startOfUTCDay(new Date());
+    const featureKey = { userId, scope: feature, windowStart };
+    const active = getAIStore();
+
+    try {
+      if (!(await active.consumeQuota(featureKey, config.featureDailyLimits[feature]))) {
+        return { allowed: false };
+      }
 
-    if (userLimit.count >= RATE_LIMIT_MAX) {
-      return { allowed: false, remaining: 0 };
+      if (!(await active.consumeQuota({ userId, scope: TOTAL_QUOTA_SCOPE, windowStart }, config.dailyRequestLimit))) {
+        await active.refundQuota(featureKey);
+        return { allowed: false };
+      }
+
+      return { allowed: true };
+    } catch (error) {
+      console.error('Failed to check AI quota:', error);
+      return { allowed: false };
     }
+  }
 
-    userLimit.count++;
-    return { allowed: true, remaining: RATE_LIMIT_MAX - userLimit.count };
+  /**
+   * Whether the user has tokens left in this month's budget
+   */
+  private static async hasTokenBudget(userId: string): Promise<boolean> {
+    try {
+      const used = await getAIStore().getTokensUsed(userId, startOfUTCMonth(new Date()));
+      return used < getQuotaConfig().monthlyTokenBudget;
+    } catch (error) {
+      console.error('Failed to check AI token budget:', error);
+      return false;
+    }
   }
 
   /**
-   * Track token usage (for monitoring)
+   * Track token usage (recorded as a TOKEN_USAGE insight)
    */
-  private static async trackUsage(userId: string, tokens: number, feature: string): Promise<void> {
+  private static async trackUsage(
+    userId: string,
+    tokens: number,
+    feature: AIFeature,
+    source: { provider: string; model: string }
+  ): Promise<void> {
     try {
-      // Store in AI insights table for tracking
-      await prisma.aIInsight.create({
-        data: {
-          userId,
-          type: 'TOKEN_USAGE',
-          content: JSON.stringify({ tokens, feature }),
-          createdAt: new Date(),
-        },
-      });
+      await getAIStore().recordTokenUsage({ userId, tokens, feature, provider: source.provider, model: source.model });
     } catch (error) {
       // Non-critical, just log
       console.warn('Failed to track AI usage:', error);
@@ -217,60 +323,32 @@ export class AIService {
   }
 
   /**
-   * Make OpenAI API call with retry logic
+   * Run a completion on the feature's configured provider and record the tokens it used
+   * Returns null when no provider is configured or the call fails, so callers use their fallback.
    */
-  private static async callOpenAI(
-    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
-    options: { maxTokens?: number; temperature?: number } = {}
-  ): Promise<string | null> {
-    console.log('🌐 Calling OpenAI API...');
-    const client = this.getClient();
-    if (!client) {
-      console.warn('❌ No OpenAI client available');
+  private static async complete(
+    userId: string,
+    feature: AIFeature,
+    messages: LLMMessage[],
+    options: { maxTokens: number; temperature: number; json: 'object' | 'array' }
+  ): Promise<{ content: string; json?: unknown } | null> {
+    const target = getFeatureModel(feature);
+    if (!target) {
+      console.warn(`No AI provider configured for ${feature}. Using fallback responses.`);
       return null;
     }
 
-    const { maxTokens = 500, temperature = 0.7 } = options;
-    const maxRetries = 3;
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`📡 OpenAI request attempt ${attempt}/${maxRetries}...`);
-        const response = await client.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages,
-          max_tokens: maxTokens,
-          temperature,
-        });
-
-        const content = response.choices[0]?.message?.content || null;
-        console.log('✅ OpenAI response received:', content ? `${content.substring(0, 100)}...` : 'empty');
-        return content;
-      } catch (error: any) {
-        lastError = error;
-        
-        // Handle rate limiting
-        if (error?.status === 429) {
-          const retryAfter = parseInt(error?.headers?.['retry-after'] || '5', 10);
-          console.warn(`OpenAI rate limited. Retrying in ${retryAfter}s (attempt ${attempt}/${maxRetries})`);
-          await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
-          continue;
-        }
-
-        // Handle other retryable errors
-        if (error?.status >= 500 && attempt < maxRetries) {
-          console.warn(`OpenAI server error. Retrying (attempt ${attempt}/${maxRetries})`);
-          await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
-          continue;
-        }
-
-        break;
-      }
-    }
+    try {
+      const completion = await target.provider.complete({ feature, model: target.model, messages, ...options });
+      console.log(`✅ ${completion.provider}/${completion.model} response for ${feature} (${completion.usage.totalTokens} tokens)`);
 
-    console.error('OpenAI API call failed:', lastError);
-    return null;
+      // Tokens are spent whether or not the reply parses
+      await this.trackUsage(userId, completion.usage.totalTokens, feature, completion);
+      return completion;
+    } catch (error) {
+      console.error(`AI completion for ${feature} failed:`, error);
+      return null;
+    }
   }
 
   /**
@@ -284,20 +362,34 @@ export class AIService {
     console.log('🤖 generateMessageSuggestions called:', { userId, contactId, context });
     
     // Check rate limit
-    const rateLimit = this.checkRateLimit(userId);
+    const rateLimit = await this.checkRateLimit(userId, 'message_suggestions');
     if (!rateLimit.allowed) {
       console.warn(`User ${userId} exceeded AI rate limit`);
       return FALLBACK_MESSAGE_SUGGESTIONS;
     }
 
-    // Check cache
-    const cacheKey = this.getCacheKey('message', { contactId, context });
-    const cached = this.getFromCache<MessageSuggestions>(cacheKey);
+    // Learn from suggestions the user actually sent
+    const preferencePrompt = await AIFeedbackService.getMessagePreferences(userId, contactId, context)
+      .then(buildMessagePreferencePrompt)
+      .catch((error) => {
+        console.warn('Failed to load AI feedback preferences:', error);
+        return '';
+      });
+
+    // Check cache (editing the writing style profile or new feedback invalidates it)
+    const styleVersion = await WritingStyleService.getVersion(userId).catch(() => null);
+    const cacheKey = this.getCacheKey('message', { contactId, context, styleVersion, preferencePrompt });
+    const cached = await this.getFromCache<MessageSuggestions>(cacheKey);
     if (cached) {
       console.log('📦 Returning cached suggestions');
       return cached;
     }
 
+    if (!(await this.hasTokenBudget(userId))) {
+      console.warn(`User ${userId} has used this month's AI token budget`);
+      return FALLBACK_MESSAGE_SUGGESTIONS;
+    }
+
     try {
       // Get contact details (pass both userId and contactId)
       const contact = await ContactService.getContactWithDetails(userId, contactId);
@@ -323,6 +415,14 @@ export class AIService {
       };
 
       const contextDescription = contextDescriptions[context] || contextDescriptions['general'];
+
+      // Write in the user's own voice for this kind of relationship, when they've taught us one
+      const styleCategory = styleCategoryForTier(relationship?.tier);
+      const styleSamples = await WritingStyleService.getSamples(userId, styleCategory).catch((error) => {
+        console.warn('Failed to load writing style samples:', error);
+        return [];
+      });
+      const writingStyleContext = buildWritingStylePrompt(styleCategory, styleSamples);
       
       // Build shared interests context with specifics
       const sharedInterests = contact.interests as string[] || [];
@@ -348,7 +448,7 @@ CRITICAL RULES:
 9. Each tone should feel distinctly DIFFERENT, not just rephrased
 
 The context is: ${contextDescription}
-
+${writingStyleContext ? `\n${writingStyleContext}\n` : ''}${preferencePrompt ? `\n${preferencePrompt}\n` : ''}
 Return ONLY valid JSON - no explanations.`;
 
       const userPrompt = `Write ${context.toUpperCase()} messages for my ${relationship?.tier?.replace('_', ' ')?.toLowerCase() || 'friend'} named ${contact.name}.
@@ -370,25 +470,21 @@ Write 3 genuinely different messages:
 
 Remember: These should sound like a real human wrote them, not AI. Use their name if it feels natural.`;
 
-      const response = await this.callOpenAI(
+      const response = await this.complete(
+        userId,
+        'message_suggestions',
         [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
-        { maxTokens: 200, temperature: 0.7 }
+        { maxTokens: 200, temperature: 0.7, json: 'object' }
       );
 
-      if (!response) return FALLBACK_MESSAGE_SUGGESTIONS;
+      if (!response || !response.json) return FALLBACK_MESSAGE_SUGGESTIONS;
 
-      // Parse JSON response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) return FALLBACK_MESSAGE_SUGGESTIONS;
+      const suggestions = response.json as MessageSuggestions;
 
-      const suggestions = JSON.parse(jsonMatch[0]) as MessageSuggestions;
-      
-      // Cache and track
-      this.setCache(cacheKey, suggestions);
-      await this.trackUsage(userId, 200, 'message_suggestions');
+      await this.setCache(cacheKey, suggestions);
 
       return suggestions;
     } catch (error) {
@@ -405,7 +501,7 @@ Remember: These should sound like a real human wrote them, not AI. Use their nam
     params: EventIdeaParams
   ): Promise<EventIdea[]> {
     // Check rate limit
-    const rateLimit = this.checkRateLimit(userId);
+    const rateLimit = await this.checkRateLimit(userId, 'event_ideas');
     if (!rateLimit.allowed) {
       console.warn(`User ${userId} exceeded AI rate limit`);
       return FALLBACK_EVENT_IDEAS;
@@ -413,9 +509,13 @@ Remember: These should sound like a real human wrote them, not AI. Use their nam
 
     // Check cache
     const cacheKey = this.getCacheKey('events', params);
-    const cached = this.getFromCache<EventIdea[]>(cacheKey);
+    const cached = await this.getFromCache<EventIdea[]>(cacheKey);
     if (cached) return cached;
 
+    if (!(await this.hasTokenBudget(userId))) {
+      return FALLBACK_EVENT_IDEAS;
+    }
+
     try {
       const budgetRanges: Record<BudgetTier, string> = {
         FREE: '$0 (free activities only)',
@@ -453,25 +553,21 @@ Return a JSON array with exactly 10 ideas:
   "tips": ["Helpful tip 1", "Helpful tip 2"]
 }, ...]`;
 
-      const response = await this.callOpenAI(
+      const response = await this.complete(
+        userId,
+        'event_ideas',
         [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
-        { maxTokens: 1000, temperature: 0.8 }
+        { maxTokens: 1000, temperature: 0.8, json: 'array' }
       );
 
-      if (!response) return FALLBACK_EVENT_IDEAS;
+      if (!response || !Array.isArray(response.json)) return FALLBACK_EVENT_IDEAS;
 
-      // Parse JSON response
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) return FALLBACK_EVENT_IDEAS;
+      const ideas = response.json as EventIdea[];
 
-      const ideas = JSON.parse(jsonMatch[0]) as EventIdea[];
-      
-      // Cache and track
-      this.setCache(cacheKey, ideas);
-      await this.trackUsage(userId, 1000, 'event_ideas');
+      await this.setCache(cacheKey, ideas);
 
       return ideas;
     } catch (error) {
@@ -488,16 +584,27 @@ Return a JSON array with exactly 10 ideas:
     contactId: string
   ): Promise<ConversationStarter[]> {
     // Check rate limit
-    const rateLimit = this.checkRateLimit(userId);
+    const rateLimit = await this.checkRateLimit(userId, 'conversation_starters');
     if (!rateLimit.allowed) {
       return FALLBACK_CONVERSATION_STARTERS;
     }
 
     // Check cache
-    const cacheKey = this.getCacheKey('conversation', { contactId });
-    const cached = this.getFromCache<ConversationStarter[]>(cacheKey);
+    const preferencePrompt = await AIFeedbackService.getStarterPreferences(userId, contactId)
+      .then(buildStarterPreferencePrompt)
+      .catch((error) => {
+        console.warn('Failed to load AI feedback preferences:', error);
+        return '';
+      });
+
+    const cacheKey = this.getCacheKey('conversation', { contactId, preferencePrompt });
+    const cached = await this.getFromCache<ConversationStarter[]>(cacheKey);
     if (cached) return cached;
 
+    if (!(await this.hasTokenBudget(userId))) {
+      return FALLBACK_CONVERSATION_STARTERS;
+    }
+
     try {
       const contact = await ContactService.getContactWithDetails(userId, contactId);
       if (!contact) return FALLBACK_CONVERSATION_STARTERS;
@@ -516,7 +623,7 @@ CRITICAL RULES:
 6. Follow-ups should flow naturally, like you're genuinely curious
 7. Mix depths: some light/fun, some deeper/meaningful
 8. For close relationships, be more casual and fun
-
+${preferencePrompt ? `\n${preferencePrompt}\n` : ''}
 Return ONLY valid JSON array - no explanations.`;
 
       const userPrompt = `Create 5 conversation starters for ${contact.name}:
@@ -536,23 +643,21 @@ Return a JSON array:
 
 Make each one feel different - some fun/light, some thoughtful. ${hasInterests ? `At least 3 should reference their interests: ${interests.join(', ')}` : ''}`;
 
-      const response = await this.callOpenAI(
+      const response = await this.complete(
+        userId,
+        'conversation_starters',
         [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
-        { maxTokens: 500, temperature: 0.7 }
+        { maxTokens: 500, temperature: 0.7, json: 'array' }
       );
 
-      if (!response) return FALLBACK_CONVERSATION_STARTERS;
+      if (!response || !Array.isArray(response.json)) return FALLBACK_CONVERSATION_STARTERS;
 
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) return FALLBACK_CONVERSATION_STARTERS;
+      const starters = response.json as ConversationStarter[];
 
-      const starters = JSON.parse(jsonMatch[0]) as ConversationStarter[];
-      
-      this.setCache(cacheKey, starters);
-      await this.trackUsage(userId, 500, 'conversation_starters');
+      await this.setCache(cacheKey, starters);
 
       return starters;
     } catch (error) {
@@ -566,16 +671,20 @@ Make each one feel different - some fun/light, some thoughtful. ${hasInterests ?
    */
   static async generateRelationshipTip(userId: string): Promise<RelationshipTip> {
     // Check rate limit
-    const rateLimit = this.checkRateLimit(userId);
+    const rateLimit = await this.checkRateLimit(userId, 'relationship_tip');
     if (!rateLimit.allowed) {
       return FALLBACK_RELATIONSHIP_TIP;
     }
 
     // Check cache (per user, refreshes daily)
     const cacheKey = this.getCacheKey('tip', { userId, date: new Date().toDateString() });
-    const cached = this.getFromCache<RelationshipTip>(cacheKey);
+    const cached = await this.getFromCache<RelationshipTip>(cacheKey);
     if (cached) return cached;
 
+    if (!(await this.hasTokenBudget(userId))) {
+      return FALLBACK_RELATIONSHIP_TIP;
+    }
+
     try {
       // Get user's relationship stats and contacts needing attention
       const [contactCount, innerCircleCount, recentInteractions, neglectedContacts] = await Promise.all([
@@ -650,23 +759,21 @@ Return:
   "source": "Attribution for quote OR relevant research finding"
 }`;
 
-      const response = await this.callOpenAI(
+      const response = await this.complete(
+        userId,
+        'relationship_tip',
         [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
-        { maxTokens: 400, temperature: 0.8 }
+        { maxTokens: 400, temperature: 0.8, json: 'object' }
       );
 
-      if (!response) return FALLBACK_RELATIONSHIP_TIP;
+      if (!response || !response.json) return FALLBACK_RELATIONSHIP_TIP;
 
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) return FALLBACK_RELATIONSHIP_TIP;
+      const tip = response.json as RelationshipTip;
 
-      const tip = JSON.parse(jsonMatch[0]) as RelationshipTip;
-      
-      this.setCache(cacheKey, tip);
-      await this.trackUsage(userId, 400, 'relationship_tip');
+      await this.setCache(cacheKey, tip);
 
       return tip;
     } catch (error) {
@@ -676,45 +783,199 @@ Return:
   }
 
   /**
-   * Get user's AI usage stats
+   * Pull follow-up commitments and the dates they're due out of interaction notes
+   * Returns an empty list when the quota is spent or no model is available; there's
+   * no sensible canned fallback for someone else's notes.
    */
-  static async getUsageStats(userId: string): Promise<{
-    requestsToday: number;
-    requestsRemaining: number;
-    resetAt: Date;
-  }> {
-    const userLimit = rateLimitTracker.get(userId);
-    
-    if (!userLimit || userLimit.resetAt < Date.now()) {
-      return {
-        requestsToday: 0,
-        requestsRemaining: RATE_LIMIT_MAX,
-        resetAt: new Date(Date.now() + RATE_LIMIT_WINDOW),
+  static async extractFollowUps(userId: string, params: FollowUpExtractionParams): Promise<FollowUpDraft[]> {
+    const notes = params.notes.trim();
+    if (!notes) return [];
+
+    const rateLimit = await this.checkRateLimit(userId, 'follow_ups');
+    if (!rateLimit.allowed) return [];
+
+    const interactionDay = describeLocalDate(params.interactionDate, params.timeZone);
+    const normalize = (raw: unknown) =>
+      normalizeFollowUps(raw, { interactionDate: params.interactionDate, timeZone: params.timeZone });
+
+    const cacheKey = this.getCacheKey('follow-ups', { userId, notes, interactionDay, contactName: params.contactName });
+    const cached = await this.getFromCache<unknown[]>(cacheKey);
+    if (cached) return normalize(cached);
+
+    if (!(await this.hasTokenBudget(userId))) return [];
+
+    try {
+      const systemPrompt = `You read someone's private notes from a conversation with ${params.contactName} and find the things they should follow up on.
+
+Only include:
+1. Things the note-taker said they would do ("send her the book link", "introduce him to Sam")
+2. Things worth checking back on later ("ask how the interview went", "see if the move went OK")
+
+Rules:
+- At most ${MAX_FOLLOW_UPS} items; return an empty array if there's nothing to follow up on
+- Don't invent commitments that aren't in the notes
+- Resolve dates relative to the day of the conversation. If a follow-up is about something happening on a date (an interview, a trip), set dueDate to the day AFTER it
+- Use null for dueDate when no date or timeframe is mentioned
+
+Return ONLY a valid JSON array - no explanations.`;
+
+      const userPrompt = `Conversation with ${params.contactName} on ${interactionDay}.
+
+Notes:
+---
+${notes}
+---
+
+Return a JSON array:
+[{
+  "title": "Short reminder title, starting with a verb (e.g. Send Maya the book link)",
+  "detail": "One sentence on what to do and why",
+  "dueDate": "YYYY-MM-DD or null",
+  "excerpt": "The words from the notes this came from"
+}, ...]`;
+
+      const response = await this.complete(
+        userId,
+        'follow_ups',
+        [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        { maxTokens: 500, temperature: 0.2, json: 'array' }
+      );
+
+      if (!response || !Array.isArray(response.json)) return [];
+
+      await this.setCache(cacheKey, response.json);
+
+      return normalize(response.json);
+    } catch (error) {
+      console.error('Extract follow-ups error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read the sentiment and topics of an interaction from its notes
+   * Returns null when the model isn't available, so callers can fall back to keyword tagging.
+   */
+  static async tagInteraction(userId: string, notes: string): Promise<InteractionTags | null> {
+    const text = notes.trim();
+    if (!text) return null;
+
+    const rateLimit = await this.checkRateLimit(userId, 'interaction_tags');
+    if (!rateLimit.allowed) return null;
+
+    const cacheKey = this.getCacheKey('interaction-tags', { notes: text });
+    const cached = await this.getFromCache<InteractionTags>(cacheKey);
+    if (cached) return cached;
+
+    if (!(await this.hasTokenBudget(userId))) return null;
+
+    try {
+      const systemPrompt = `You tag someone's private notes about an interaction with a friend, family member or colleague.
+
+- sentiment: how the interaction went for the note-taker - POSITIVE, NEUTRAL or NEGATIVE. Use null if the notes don't say
+- topics: up to ${MAX_TOPICS} short, lowercase topics that were talked about or done together (e.g. "hiking", "new job", "wedding planning"). Prefer interests over one-off details
+
+Return ONLY valid JSON.`;
+
+      const userPrompt = `Notes:
+${text}
+
+Return:
+{
+  "sentiment": "POSITIVE" | "NEUTRAL" | "NEGATIVE" | null,
+  "topics": ["topic", ...]
+}`;
+
+      const response = await this.complete(
+        userId,
+        'interaction_tags',
+        [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        { maxTokens: 150, temperature: 0, json: 'object' }
+      );
+
+      if (!response || !response.json) return null;
+
+      const raw = response.json as { sentiment?: unknown; topics?: unknown };
+      const tags: InteractionTags = {
+        sentiment: Object.values(Sentiment).includes(raw.sentiment as Sentiment) ? (raw.sentiment as Sentiment) : null,
+        topics: normalizeTopics(raw.topics),
       };
+
+      await this.setCache(cacheKey, tags);
+
+      return tags;
+    } catch (error) {
+      console.error('Tag interaction error:', error);
+      return null;
     }
+  }
+
+  /**
+   * Get user's AI usage stats: today's requests overall and per feature, and this month's tokens
+   */
+  static async getUsageStats(userId: string, now: Date = new Date()): Promise<AIUsageStats> {
+    const config = getQuotaConfig();
+    const active = getAIStore();
+    const [counts, tokensUsed] = await Promise.all([
+      active.getQuotaCounts(userId, startOfUTCDay(now)),
+      active.getTokensUsed(userId, startOfUTCMonth(now)),
+    ]);
+
+    const status = (used: number, limit: number): AIQuotaStatus => ({
+      used,
+      limit,
+      remaining: Math.max(0, limit - used),
+    });
+
+    const features = Object.fromEntries(
+      (Object.keys(config.featureDailyLimits) as AIFeature[]).map((feature) => [
+        feature,
+        status(counts[feature] ?? 0, config.featureDailyLimits[feature]),
+      ])
+    ) as Record<AIFeature, AIQuotaStatus>;
+
+    const today = status(counts[TOTAL_QUOTA_SCOPE] ?? 0, config.dailyRequestLimit);
 
     return {
-      requestsToday: userLimit.count,
-      requestsRemaining: Math.max(0, RATE_LIMIT_MAX - userLimit.count),
-      resetAt: new Date(userLimit.resetAt),
+      today: today.used,
+      limit: today.limit,
+      remaining: today.remaining,
+      resetAt: startOfUTCDay(now, 1),
+      features,
+      tokens: { ...status(tokensUsed, config.monthlyTokenBudget), resetAt: startOfUTCMonth(now, 1) },
     };
   }
 
   /**
    * Clear cache (for admin/maintenance)
    */
-  static clearCache(): void {
-    cache.clear();
-    console.log('AI service cache cleared');
+  static async clearCache(): Promise<void> {
+    const removed = await getAIStore().clearCache();
+    console.log(`AI service cache cleared (${removed} entries)`);
+  }
+
+  /**
+   * Drop expired cache entries and quota counters from previous days
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<{ cacheEntries: number; quotaWindows: number }> {
+    const active = getAIStore();
+    const [cacheEntries, quotaWindows] = await Promise.all([
+      active.purgeExpired(now),
+      active.pruneQuotas(startOfUTCDay(now)),
+    ]);
+    return { cacheEntries, quotaWindows };
   }
 
   /**
    * Get cache stats
    */
-  static getCacheStats(): { size: number; keys: string[] } {
-    return {
-      size: cache.size,
-      keys: Array.from(cache.keys()),
-    };
+  static async getCacheStats(): Promise<{ size: number; keys: string[] }> {
+    return getAIStore().getCacheStats();
   }
 }
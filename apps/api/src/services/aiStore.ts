@@ -0,0 +1,286 @@
+import { prisma } from '../lib/prisma';
+
+/**
+ * A counter that can be consumed up to a limit within a window
+ * `scope` is either a feature name or TOTAL_QUOTA_SCOPE for the overall daily count.
+ */
+export interface QuotaKey {
+  userId: string;
+  scope: string;
+  windowStart: Date;
+}
+
+export interface TokenUsageRecord {
+  userId: string;
+  feature: string;
+  tokens: number;
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * Where the AI response cache, request quotas and token ledger live
+ * The Prisma store is shared by every API instance and survives restarts;
+ * the memory store is for tests and single-process development.
+ */
+export interface AIStore {
+  readonly name: string;
+  getCached<T>(key: string, now?: Date): Promise<T | null>;
+  setCached(key: string, data: unknown, expiresAt: Date): Promise<void>;
+  clearCache(): Promise<number>;
+  purgeExpired(now?: Date): Promise<number>;
+  getCacheStats(): Promise<{ size: number; keys: string[] }>;
+  /**
+   * Add one to the counter unless it has reached `limit`
+   * Returns false (and leaves the counter alone) when the limit is reached.
+   */
+  consumeQuota(key: QuotaKey, limit: number): Promise<boolean>;
+  /**
+   * Give back a unit taken by consumeQuota
+   */
+  refundQuota(key: QuotaKey): Promise<void>;
+  /**
+   * Counters for every scope the user touched in the window
+   */
+  getQuotaCounts(userId: string, windowStart: Date): Promise<Record<string, number>>;
+  /**
+   * Drop counters for windows that started before `before`
+   */
+  pruneQuotas(before: Date): Promise<number>;
+  recordTokenUsage(usage: TokenUsageRecord): Promise<void>;
+  getTokensUsed(userId: string, since: Date): Promise<number>;
+}
+
+export const TOTAL_QUOTA_SCOPE = 'total';
+
+function readTokens(content: unknown): number {
+  if (typeof content === 'string') {
+    try {
+      return readTokens(JSON.parse(content));
+    } catch {
+      return 0;
+    }
+  }
+  const tokens = (content as { tokens?: unknown } | null)?.tokens;
+  return typeof tokens === 'number' && Number.isFinite(tokens) ? tokens : 0;
+}
+
+/**
+ * Postgres-backed store: ai_cache_entries, ai_quota_usage, and TOKEN_USAGE rows in ai_insights
+ */
+export class PrismaAIStore implements AIStore {
+  readonly name = 'prisma';
+
+  async getCached<T>(key: string, now: Date = new Date()): Promise<T | null> {
+    const entry = await prisma.aICacheEntry.findUnique({ where: { key } });
+    if (!entry) return null;
+
+    if (entry.expiresAt <= now) {
+      await prisma.aICacheEntry.deleteMany({ where: { key, expiresAt: { lte: now } } });
+      return null;
+    }
+
+    return entry.data as T;
+  }
+
+  async setCached(key: string, data: unknown, expiresAt: Date): Promise<void> {
+    const value = data as object;
+    await prisma.aICacheEntry.upsert({
+      where: { key },
+      create: { key, data: value, expiresAt },
+      update: { data: value, expiresAt },
+    });
+  }
+
+  async clearCache(): Promise<number> {
+    const { count } = await prisma.aICacheEntry.deleteMany({});
+    return count;
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const { count } = await prisma.aICacheEntry.deleteMany({ where: { expiresAt: { lte: now } } });
+    return count;
+  }
+
+  async getCacheStats(): Promise<{ size: number; keys: string[] }> {
+    const entries = await prisma.aICacheEntry.findMany({
+      where: { expiresAt: { gt: new Date() } },
+      select: { key: true },
+      orderBy: { createdAt: 'desc' },
+    });
+    return { size: entries.length, keys: entries.map((entry) => entry.key) };
+  }
+
+  async consumeQuota(key: QuotaKey, limit: number): Promise<boolean> {
+    if (limit <= 0) return false;
+
+    // Conditional increment keeps concurrent requests from different instances under the limit
+    const increment = async () => {
+      const { count } = await prisma.aIQuotaUsage.updateMany({
+        where: { ...key, count: { lt: limit } },
+        data: { count: { increment: 1 } },
+      });
+      return count > 0;
+    };
+    if (await increment()) return true;
+
+    // No row yet for this window, or the row is already at the limit
+    const { count: created } = await prisma.aIQuotaUsage.createMany({
+      data: [{ ...key, count: 1 }],
+      skipDuplicates: true,
+    });
+    if (created > 0) return true;
+
+    // Another request created the window's row between our update and insert
+    return increment();
+  }
+
+  async refundQuota(key: QuotaKey): Promise<void> {
+    await prisma.aIQuotaUsage.updateMany({
+      where: { ...key, count: { gt: 0 } },
+      data: { count: { decrement: 1 } },
+    });
+  }
+
+  async getQuotaCounts(userId: string, windowStart: Date): Promise<Record<string, number>> {
+    const rows = await prisma.aIQuotaUsage.findMany({ where: { userId, windowStart } });
+    return Object.fromEntries(rows.map((row) => [row.scope, row.count]));
+  }
+
+  async pruneQuotas(before: Date): Promise<number> {
+    const { count } = await prisma.aIQuotaUsage.deleteMany({ where: { windowStart: { lt: before } } });
+    return count;
+  }
+
+  async recordTokenUsage(usage: TokenUsageRecord): Promise<void> {
+    await prisma.aIInsight.create({
+      data: {
+        userId: usage.userId,
+        type: 'TOKEN_USAGE',
+        content: { tokens: usage.tokens, feature: usage.feature, provider: usage.provider, model: usage.model },
+      },
+    });
+  }
+
+  async getTokensUsed(userId: string, since: Date): Promise<number> {
+    const rows = await prisma.aIInsight.findMany({
+      where: { userId, type: 'TOKEN_USAGE', createdAt: { gte: since } },
+      select: { content: true },
+    });
+    // Older rows stored the payload as a JSON string
+    return rows.reduce((total, row) => total + readTokens(row.content), 0);
+  }
+}
+
+/**
+ * Keeps everything in process memory, for tests
+ */
+export class MemoryAIStore implements AIStore {
+  readonly name = 'memory';
+  readonly cache = new Map<string, { data: unknown; expiresAt: Date }>();
+  readonly quotas = new Map<string, number>();
+  readonly tokenUsage: Array<TokenUsageRecord & { createdAt: Date }> = [];
+
+  constructor(private clock: () => Date = () => new Date()) {}
+
+  private quotaKey(key: QuotaKey): string {
+    return `${key.userId}|${key.windowStart.toISOString()}|${key.scope}`;
+  }
+
+  async getCached<T>(key: string, now: Date = this.clock()): Promise<T | null> {
+    const entry = this.cache.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= now) {
+      this.cache.delete(key);
+      return null;
+    }
+    return entry.data as T;
+  }
+
+  async setCached(key: string, data: unknown, expiresAt: Date): Promise<void> {
+    this.cache.set(key, { data, expiresAt });
+  }
+
+  async clearCache(): Promise<number> {
+    const size = this.cache.size;
+    this.cache.clear();
+    return size;
+  }
+
+  async purgeExpired(now: Date = this.clock()): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async getCacheStats(): Promise<{ size: number; keys: string[] }> {
+    return { size: this.cache.size, keys: Array.from(this.cache.keys()) };
+  }
+
+  async consumeQuota(key: QuotaKey, limit: number): Promise<boolean> {
+    const id = this.quotaKey(key);
+    const count = this.quotas.get(id) ?? 0;
+    if (count >= limit) return false;
+    this.quotas.set(id, count + 1);
+    return true;
+  }
+
+  async refundQuota(key: QuotaKey): Promise<void> {
+    const id = this.quotaKey(key);
+    const count = this.quotas.get(id) ?? 0;
+    if (count > 0) this.quotas.set(id, count - 1);
+  }
+
+  async getQuotaCounts(userId: string, windowStart: Date): Promise<Record<string, number>> {
+    const prefix = `${userId}|${windowStart.toISOString()}|`;
+    const counts: Record<string, number> = {};
+    for (const [id, count] of this.quotas) {
+      if (id.startsWith(prefix)) counts[id.slice(prefix.length)] = count;
+    }
+    return counts;
+  }
+
+  async pruneQuotas(before: Date): Promise<number> {
+    let removed = 0;
+    for (const id of Array.from(this.quotas.keys())) {
+      if (new Date(id.split('|')[1]) < before) {
+        this.quotas.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async recordTokenUsage(usage: TokenUsageRecord): Promise<void> {
+    this.tokenUsage.push({ ...usage, createdAt: this.clock() });
+  }
+
+  async getTokensUsed(userId: string, since: Date): Promise<number> {
+    return this.tokenUsage
+      .filter((usage) => usage.userId === userId && usage.createdAt >= since)
+      .reduce((total, usage) => total + usage.tokens, 0);
+  }
+}
+
+/**
+ * Pick a store from the environment
+ * AI_STORE=prisma (the default) uses Postgres and AI_STORE=memory keeps state
+ * in-process; any other value throws rather than silently picking one.
+ */
+export function createAIStoreFromEnv(env: NodeJS.ProcessEnv = process.env): AIStore {
+  const kind = env.AI_STORE?.toLowerCase() || 'prisma';
+
+  switch (kind) {
+    case 'prisma':
+      return new PrismaAIStore();
+    case 'memory':
+      return new MemoryAIStore();
+    default:
+      throw new Error(`Unknown AI_STORE: ${kind}`);
+  }
+}
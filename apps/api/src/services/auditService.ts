@@ -23,6 +23,7 @@ export enum AuditAction {
   DATA_EXPORT = 'DATA_EXPORT',
   DATA_IMPORT = 'DATA_IMPORT',
   BULK_DELETE = 'BULK_DELETE',
+  CONTACT_MERGED = 'CONTACT_MERGED',
   
   // Financial operations
   TRANSACTION_CREATED = 'TRANSACTION_CREATED',
@@ -203,7 +204,8 @@ export class AuditService {
     req: Request,
     transactionId: string,
     amount?: number,
-    currency?: string
+    currency?: string,
+    details?: Record<string, any>
   ): Promise<void> {
     await this.log(
       action,
@@ -213,6 +215,28 @@ export class AuditService {
         transactionId,
         amount,
         currency,
+        ...details,
+      }
+    );
+  }
+
+  /**
+   * Log savings goal change
+   */
+  async logSavingsGoal(
+    action: AuditAction.SAVINGS_GOAL_CREATED | AuditAction.SAVINGS_GOAL_UPDATED | AuditAction.SAVINGS_GOAL_DELETED,
+    userId: string,
+    req: Request,
+    goalId: string,
+    details?: Record<string, any>
+  ): Promise<void> {
+    await this.log(
+      action,
+      userId,
+      req,
+      {
+        goalId,
+        ...details,
       }
     );
   }
@@ -0,0 +1,300 @@
+import { AutoSaveFrequency, Prisma, ReminderType, SavingsGoal, SavingsGoalStatus, TransactionType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { ReminderService } from './reminderService';
+
+// Upper bound on missed periods posted for one goal in a single run
+const MAX_CATCH_UP_PERIODS = 100;
+
+// A goal is behind pace when saved < expected * tolerance
+const BEHIND_PACE_TOLERANCE = 0.9;
+
+// Don't check pace until a goal has been running this long
+const MIN_DAYS_BEFORE_PACE_CHECK = 7;
+
+// Don't repeat the behind-pace reminder more often than this
+const BEHIND_PACE_REMINDER_COOLDOWN_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the next auto-save date after `from` for a frequency
+ * Monthly schedules clamp to the last day of shorter months.
+ */
+export function getNextAutoSaveDate(from: Date, frequency: AutoSaveFrequency): Date {
+  switch (frequency) {
+    case 'DAILY':
+      return new Date(from.getTime() + DAY_MS);
+    case 'WEEKLY':
+      return new Date(from.getTime() + 7 * DAY_MS);
+    case 'BIWEEKLY':
+      return new Date(from.getTime() + 14 * DAY_MS);
+    case 'MONTHLY': {
+      const next = new Date(from);
+      const day = next.getUTCDate();
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+      next.setUTCDate(Math.min(day, daysInMonth));
+      return next;
+    }
+    default:
+      throw new Error(`Unsupported auto-save frequency: ${frequency}`);
+  }
+}
+
+/**
+ * Key stored in Transaction.externalTransactionId for an auto-save period
+ * The unique (savingsGoalId, externalTransactionId) index makes each period
+ * post at most once, even across restarts or parallel instances.
+ */
+export function getAutoSaveKey(dueAt: Date): string {
+  return `auto-save:${dueAt.toISOString()}`;
+}
+
+/**
+ * Check whether a goal's savings are behind the straight-line pace to its deadline
+ */
+export function isBehindPace(
+  goal: Pick<SavingsGoal, 'createdAt' | 'deadline' | 'targetAmount' | 'currentAmount'>,
+  now: Date = new Date()
+): boolean {
+  if (!goal.deadline) return false;
+
+  const start = goal.createdAt.getTime();
+  const end = goal.deadline.getTime();
+  if (end <= start || now.getTime() >= end) return false;
+  if (now.getTime() - start < MIN_DAYS_BEFORE_PACE_CHECK * DAY_MS) return false;
+
+  const elapsedFraction = (now.getTime() - start) / (end - start);
+  const expected = goal.targetAmount.toNumber() * elapsedFraction;
+
+  return goal.currentAmount.toNumber() < expected * BEHIND_PACE_TOLERANCE;
+}
+
+type AutoSaveGoal = SavingsGoal & {
+  autoSaveAmount: Prisma.Decimal;
+  autoSaveFrequency: AutoSaveFrequency;
+};
+
+export class AutoSaveService {
+  /**
+   * Post due AUTO_SAVE contributions for every active auto-save goal
+   * Missed periods (server down, skipped run) are caught up on the next run.
+   */
+  static async processAutoSaves(now: Date = new Date()): Promise<{
+    goalsProcessed: number;
+    contributions: number;
+    completed: number;
+  }> {
+    try {
+      const goals = await prisma.savingsGoal.findMany({
+        where: {
+          status: SavingsGoalStatus.ACTIVE,
+          autoSaveEnabled: true,
+          autoSaveAmount: { gt: 0 },
+          autoSaveFrequency: { not: null },
+          OR: [{ nextAutoSaveAt: null }, { nextAutoSaveAt: { lte: now } }],
+        },
+      });
+
+      let contributions = 0;
+      let completed = 0;
+
+      for (const goal of goals) {
+        try {
+          const result = await this.processGoal(goal as AutoSaveGoal, now);
+          contributions += result.contributions;
+          if (result.completed) completed++;
+        } catch (error) {
+          console.error(`Failed to process auto-save for goal ${goal.id}:`, error);
+        }
+      }
+
+      return { goalsProcessed: goals.length, contributions, completed };
+    } catch (error) {
+      console.error('Process auto-saves error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remind users whose goals have fallen behind their deadline pace
+   * Returns the number of reminders created
+   */
+  static async checkGoalPace(now: Date = new Date()): Promise<number> {
+    try {
+      const goals = await prisma.savingsGoal.findMany({
+        where: {
+          status: SavingsGoalStatus.ACTIVE,
+          deadline: { gt: now },
+        },
+      });
+
+      let remindersCreated = 0;
+
+      for (const goal of goals) {
+        try {
+          if (!isBehindPace(goal, now)) continue;
+
+          const title = `Savings goal "${goal.name}" is falling behind`;
+          const existing = await prisma.reminder.findFirst({
+            where: {
+              userId: goal.userId,
+              type: ReminderType.SAVINGS,
+              title,
+              createdAt: { gte: new Date(now.getTime() - BEHIND_PACE_REMINDER_COOLDOWN_DAYS * DAY_MS) },
+            },
+          });
+          if (existing) continue;
+
+          const remaining = goal.targetAmount.minus(goal.currentAmount);
+          const daysLeft = Math.ceil((goal.deadline!.getTime() - now.getTime()) / DAY_MS);
+
+          await ReminderService.createReminder(goal.userId, {
+            eventId: goal.eventId ?? undefined,
+            type: ReminderType.SAVINGS,
+            title,
+            message: `You still need ${goal.currency} ${remaining.toFixed(2)} with ${daysLeft} day${daysLeft === 1 ? '' : 's'} left. Consider adding a contribution.`,
+            scheduledDate: now,
+          });
+          remindersCreated++;
+        } catch (error) {
+          console.error(`Failed to check pace for goal ${goal.id}:`, error);
+        }
+      }
+
+      return remindersCreated;
+    } catch (error) {
+      console.error('Check goal pace error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Post every due period for a single goal
+   */
+  private static async processGoal(
+    goal: AutoSaveGoal,
+    now: Date
+  ): Promise<{ contributions: number; completed: boolean }> {
+    // First time the scheduler sees this goal: anchor the schedule one period out
+    if (!goal.nextAutoSaveAt) {
+      await prisma.savingsGoal.updateMany({
+        where: { id: goal.id, nextAutoSaveAt: null },
+        data: { nextAutoSaveAt: getNextAutoSaveDate(now, goal.autoSaveFrequency) },
+      });
+      return { contributions: 0, completed: false };
+    }
+
+    let dueAt = goal.nextAutoSaveAt;
+    let contributions = 0;
+
+    for (let period = 0; period < MAX_CATCH_UP_PERIODS && dueAt <= now; period++) {
+      const result = await this.postAutoSave(goal, dueAt);
+      if (!result.claimed) break;
+      if (result.posted) contributions++;
+
+      if (result.completed) {
+        await this.notifyGoalReached(goal);
+        return { contributions, completed: true };
+      }
+
+      dueAt = getNextAutoSaveDate(dueAt, goal.autoSaveFrequency);
+    }
+
+    return { contributions, completed: false };
+  }
+
+  /**
+   * Post the contribution for one period
+   * The period is claimed by advancing nextAutoSaveAt only if it still equals
+   * dueAt, so a concurrent or repeated run can't post it twice.
+   */
+  private static async postAutoSave(
+    goal: AutoSaveGoal,
+    dueAt: Date
+  ): Promise<{ claimed: boolean; posted: boolean; completed: boolean }> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const claim = await tx.savingsGoal.updateMany({
+          where: {
+            id: goal.id,
+            status: SavingsGoalStatus.ACTIVE,
+            autoSaveEnabled: true,
+            nextAutoSaveAt: dueAt,
+          },
+          data: { nextAutoSaveAt: getNextAutoSaveDate(dueAt, goal.autoSaveFrequency) },
+        });
+
+        if (claim.count === 0) {
+          return { claimed: false, posted: false, completed: false };
+        }
+
+        const current = await tx.savingsGoal.findUniqueOrThrow({ where: { id: goal.id } });
+        const remaining = current.targetAmount.minus(current.currentAmount);
+
+        if (remaining.lte(0)) {
+          await tx.savingsGoal.update({
+            where: { id: goal.id },
+            data: { status: SavingsGoalStatus.COMPLETED, nextAutoSaveAt: null },
+          });
+          return { claimed: true, posted: false, completed: true };
+        }
+
+        // Stop at the target: the last contribution only tops the goal up
+        const amount = Prisma.Decimal.min(goal.autoSaveAmount, remaining);
+
+        await tx.transaction.create({
+          data: {
+            savingsGoalId: goal.id,
+            amount,
+            type: TransactionType.AUTO_SAVE,
+            date: dueAt,
+            description: 'Auto-save',
+            externalTransactionId: getAutoSaveKey(dueAt),
+          },
+        });
+
+        const completed = amount.gte(remaining);
+
+        await tx.savingsGoal.update({
+          where: { id: goal.id },
+          data: {
+            currentAmount: { increment: amount },
+            ...(completed && { status: SavingsGoalStatus.COMPLETED, nextAutoSaveAt: null }),
+            updatedAt: new Date(),
+          },
+        });
+
+        return { claimed: true, posted: true, completed };
+      });
+    } catch (error) {
+      // Period already posted by another run: move the schedule past it
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        await prisma.savingsGoal.updateMany({
+          where: { id: goal.id, nextAutoSaveAt: dueAt },
+          data: { nextAutoSaveAt: getNextAutoSaveDate(dueAt, goal.autoSaveFrequency) },
+        });
+        return { claimed: true, posted: false, completed: false };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create a SAVINGS reminder (delivered as a push by the reminder processor)
+   */
+  private static async notifyGoalReached(goal: SavingsGoal): Promise<void> {
+    try {
+      await ReminderService.createReminder(goal.userId, {
+        eventId: goal.eventId ?? undefined,
+        type: ReminderType.SAVINGS,
+        title: `🎉 Savings goal "${goal.name}" reached!`,
+        message: `You've saved ${goal.currency} ${goal.targetAmount.toFixed(2)} for ${goal.name}. Auto-save contributions have stopped.`,
+        scheduledDate: new Date(),
+      });
+    } catch (error) {
+      console.error(`Failed to notify goal reached for goal ${goal.id}:`, error);
+    }
+  }
+}
@@ -1,30 +1,30 @@
-import { googleCalendarService, BusyTime } from './googleCalendarService';
+import { BusyCalendarService } from './busyCalendarService';
+import { BusySource, overlapping } from '../utils/busyTime';
+import {
+  AvailabilityParticipant,
+  AvailabilityPreferences,
+  RankedTimeSlot,
+  findCommonFreeSlots,
+  getDefaultSlots,
+  rankSlots,
+} from '../utils/availability';
+import { blindIndex } from '../utils/blindIndex';
+import { resolveEventTimes } from '../utils/ics';
+import { resolveTimezone } from '../utils/timezone';
+import { getWorkingWindow, TimeRange } from '../utils/workingHours';
 import { prisma } from '../lib/prisma';
 
 // Types
-export interface TimeSlot {
-  start: Date;
-  end: Date;
-  durationMinutes: number;
-}
-
-export interface RankedTimeSlot extends TimeSlot {
-  score: number;
-  reasons: string[];
-}
+export type { TimeSlot, RankedTimeSlot, ParticipantSlotScore } from '../utils/availability';
 
 export interface AvailabilityParams {
+  // The user asking; only they and users in their contacts can be checked
+  requesterId: string;
   userIds: string[];
   startDate: Date;
   endDate: Date;
   minDurationMinutes: number;
-  preferences?: {
-    preferredTimeOfDay?: 'morning' | 'afternoon' | 'evening';
-    preferWeekends?: boolean;
-    avoidEarlyMorning?: boolean; // Before 9am
-    avoidLateNight?: boolean; // After 9pm
-    preferredDays?: number[]; // 0-6, Sunday = 0
-  };
+  preferences?: AvailabilityPreferences;
 }
 
 export interface AvailabilityResult {
@@ -44,6 +44,10 @@ export interface ConflictResult {
     summary?: string;
     start: string;
     end: string;
+    // The calendar the conflicting time is on
+    calendarId: string;
+    calendarName: string;
+    source: BusySource;
   }>;
 }
 
@@ -54,70 +58,49 @@ export interface ConflictResult {
 export class AvailabilityService {
   /**
    * Find available time slots for multiple users
+   * Busy time comes from every calendar each user counts (see BusyCalendarService).
+   * Slots fall within every participant's working hours and are scored in
+   * each participant's own timezone. Users the requester isn't connected with
+   * are left out like unknown ones, so their schedules and details stay private.
    */
   async findAvailability(params: AvailabilityParams): Promise<AvailabilityResult> {
     const {
-      userIds,
+      requesterId,
       startDate,
       endDate,
       minDurationMinutes,
       preferences = {},
     } = params;
 
+    const userIds = await this.getVisibleUserIds(requesterId, params.userIds);
+    const participants = await this.getParticipants(userIds);
+
     // Get busy times for all users who have connected calendars
-    const busyTimesPerUser: BusyTime[][] = [];
+    const busyTimes: TimeRange[] = [];
     let participantsWithCalendar = 0;
 
     for (const userId of userIds) {
       try {
-        const isConnected = await googleCalendarService.isConnected(userId);
-        if (!isConnected) continue;
+        const { hasCalendar, intervals } = await BusyCalendarService.getBusyTime(userId, startDate, endDate);
+        if (!hasCalendar) continue;
 
         participantsWithCalendar++;
-
-        const primaryCalendarId = await googleCalendarService.getPrimaryCalendarId(userId);
-        if (!primaryCalendarId) continue;
-
-        const busyTimes = await googleCalendarService.getBusyTimes(
-          userId,
-          [primaryCalendarId],
-          startDate,
-          endDate
-        );
-
-        const userBusy = busyTimes[primaryCalendarId] || [];
-        busyTimesPerUser.push(userBusy);
+        busyTimes.push(...intervals);
       } catch (error) {
         console.error(`Error getting busy times for user ${userId}:`, error);
         // Continue with other users
       }
     }
 
-    // If no calendars are connected, return empty slots with all working hours
-    if (participantsWithCalendar === 0) {
-      return {
-        slots: this.generateDefaultSlots(startDate, endDate, minDurationMinutes, preferences),
-        participantsChecked: userIds.length,
-        participantsWithCalendar: 0,
-        dateRange: {
-          start: startDate.toISOString(),
-          end: endDate.toISOString(),
-        },
-      };
-    }
-
-    // Merge all busy times
-    const allBusyTimes = this.mergeBusyTimes(busyTimesPerUser.flat());
-
-    // Find free slots
-    const freeSlots = this.findFreeSlots(startDate, endDate, allBusyTimes, minDurationMinutes);
-
-    // Rank slots by preferences
-    const rankedSlots = this.rankSlots(freeSlots, preferences);
+    // If no calendars are connected, suggest typical times within everyone's working hours
+    const freeSlots =
+      participantsWithCalendar === 0
+        ? getDefaultSlots(participants, startDate, endDate, minDurationMinutes)
+        : findCommonFreeSlots(participants, busyTimes, startDate, endDate, minDurationMinutes);
 
     // Return top 5 slots
     return {
-      slots: rankedSlots.slice(0, 5),
+      slots: rankSlots(freeSlots, participants, preferences).slice(0, 5),
       participantsChecked: userIds.length,
       participantsWithCalendar,
       dateRange: {
@@ -128,7 +111,8 @@ export class AvailabilityService {
   }
 
   /**
-   * Check for calendar conflicts
+   * Check for calendar conflicts across every calendar the user counts
+   * The start and end times are read in the user's timezone.
    */
   async getConflicts(
     userId: string,
@@ -137,33 +121,33 @@ export class AvailabilityService {
     endTime: string
   ): Promise<ConflictResult> {
     try {
-      const isConnected = await googleCalendarService.isConnected(userId);
-      if (!isConnected) {
-        return { hasConflict: false, conflicts: [] };
-      }
-
       // Build datetime range
-      const dateStr = date.toISOString().split('T')[0];
-      const startDateTime = new Date(`${dateStr}T${startTime}:00`);
-      const endDateTime = new Date(`${dateStr}T${endTime}:00`);
-
-      // Get events for the time range
-      const events = await googleCalendarService.getEvents(
-        userId,
-        'primary',
-        startDateTime,
-        endDateTime
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } });
+      const { start: startDateTime, end: endDateTime } = resolveEventTimes(
+        date,
+        startTime,
+        endTime,
+        user?.timezone
       );
 
-      if (events.length === 0) {
+      // Get busy time for the range, with event details where the calendar has them
+      const { intervals } = await BusyCalendarService.getBusyTime(userId, startDateTime, endDateTime, {
+        withEvents: true,
+      });
+      const busy = overlapping(intervals, startDateTime, endDateTime);
+
+      if (busy.length === 0) {
         return { hasConflict: false, conflicts: [] };
       }
 
-      const conflicts = events.map((event) => ({
-        id: event.id || undefined,
-        summary: event.summary || undefined,
-        start: event.start?.dateTime || event.start?.date || '',
-        end: event.end?.dateTime || event.end?.date || '',
+      const conflicts = busy.map((interval) => ({
+        id: interval.eventId,
+        summary: interval.summary || undefined,
+        start: interval.start.toISOString(),
+        end: interval.end.toISOString(),
+        calendarId: interval.calendarId,
+        calendarName: interval.calendarName,
+        source: interval.source,
       }));
 
       return {
@@ -178,285 +162,59 @@ export class AvailabilityService {
   }
 
   /**
-   * Merge overlapping busy times
-   */
-  private mergeBusyTimes(busyTimes: BusyTime[]): BusyTime[] {
-    if (busyTimes.length === 0) return [];
-
-    // Sort by start time
-    const sorted = [...busyTimes].sort(
-      (a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()
-    );
-
-    const merged: BusyTime[] = [sorted[0]];
-
-    for (let i = 1; i < sorted.length; i++) {
-      const current = sorted[i];
-      const last = merged[merged.length - 1];
-
-      if (new Date(current.start) <= new Date(last.end)) {
-        // Overlapping - extend the end time if needed
-        last.end = new Date(Math.max(
-          new Date(last.end).getTime(),
-          new Date(current.end).getTime()
-        )).toISOString();
-      } else {
-        // No overlap - add as new busy period
-        merged.push(current);
-      }
-    }
-
-    return merged;
-  }
-
-  /**
-   * Find free time slots between busy times
+   * The requested users the requester may see: themselves, and users whose
+   * email is on one of their contacts
    */
-  private findFreeSlots(
-    startDate: Date,
-    endDate: Date,
-    busyTimes: BusyTime[],
-    minDurationMinutes: number
-  ): TimeSlot[] {
-    const slots: TimeSlot[] = [];
-    let currentTime = new Date(startDate);
-
-    // Define working hours (9am - 9pm)
-    const workingHours = { start: 9, end: 21 };
-
-    for (const busy of busyTimes) {
-      const busyStart = new Date(busy.start);
-      const busyEnd = new Date(busy.end);
-
-      // Find free time before this busy period
-      while (currentTime < busyStart && currentTime < endDate) {
-        const slotStart = this.adjustToWorkingHours(currentTime, workingHours);
-        
-        if (slotStart >= endDate) break;
-        
-        // Find the end of this potential slot
-        let slotEnd = new Date(slotStart);
-        slotEnd.setHours(workingHours.end, 0, 0, 0);
-
-        // Constrain to busy start or end date
-        if (slotEnd > busyStart) slotEnd = new Date(busyStart);
-        if (slotEnd > endDate) slotEnd = new Date(endDate);
-
-        const durationMinutes = (slotEnd.getTime() - slotStart.getTime()) / 60000;
-
-        if (durationMinutes >= minDurationMinutes) {
-          slots.push({
-            start: slotStart,
-            end: slotEnd,
-            durationMinutes,
-          });
-        }
-
-        // Move to next day
-        currentTime = new Date(slotStart);
-        currentTime.setDate(currentTime.getDate() + 1);
-        currentTime.setHours(workingHours.start, 0, 0, 0);
-      }
-
-      // Move past busy period
-      if (busyEnd > currentTime) {
-        currentTime = new Date(busyEnd);
-      }
-    }
-
-    // Check for free time after last busy period
-    while (currentTime < endDate) {
-      const slotStart = this.adjustToWorkingHours(currentTime, workingHours);
-      
-      if (slotStart >= endDate) break;
-
-      let slotEnd = new Date(slotStart);
-      slotEnd.setHours(workingHours.end, 0, 0, 0);
-
-      if (slotEnd > endDate) slotEnd = new Date(endDate);
-
-      const durationMinutes = (slotEnd.getTime() - slotStart.getTime()) / 60000;
-
-      if (durationMinutes >= minDurationMinutes) {
-        slots.push({
-          start: slotStart,
-          end: slotEnd,
-          durationMinutes,
-        });
-      }
-
-      // Move to next day
-      currentTime = new Date(slotStart);
-      currentTime.setDate(currentTime.getDate() + 1);
-      currentTime.setHours(workingHours.start, 0, 0, 0);
-    }
-
-    return slots;
-  }
-
-  /**
-   * Adjust time to working hours
-   */
-  private adjustToWorkingHours(
-    time: Date,
-    workingHours: { start: number; end: number }
-  ): Date {
-    const adjusted = new Date(time);
-    
-    if (adjusted.getHours() < workingHours.start) {
-      adjusted.setHours(workingHours.start, 0, 0, 0);
-    } else if (adjusted.getHours() >= workingHours.end) {
-      // Move to next day
-      adjusted.setDate(adjusted.getDate() + 1);
-      adjusted.setHours(workingHours.start, 0, 0, 0);
-    }
-
-    return adjusted;
-  }
-
-  /**
-   * Rank time slots by preferences
-   */
-  private rankSlots(
-    slots: TimeSlot[],
-    preferences: AvailabilityParams['preferences']
-  ): RankedTimeSlot[] {
-    const prefs = preferences || {};
-
-    return slots
-      .map((slot) => {
-        let score = 50; // Base score
-        const reasons: string[] = [];
-
-        const hour = slot.start.getHours();
-        const dayOfWeek = slot.start.getDay();
-        const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-
-        // Time of day preferences
-        if (prefs.preferredTimeOfDay === 'morning' && hour >= 9 && hour < 12) {
-          score += 20;
-          reasons.push('Morning time (preferred)');
-        } else if (prefs.preferredTimeOfDay === 'afternoon' && hour >= 12 && hour < 17) {
-          score += 20;
-          reasons.push('Afternoon time (preferred)');
-        } else if (prefs.preferredTimeOfDay === 'evening' && hour >= 17 && hour < 21) {
-          score += 20;
-          reasons.push('Evening time (preferred)');
-        }
-
-        // Default: prefer afternoon
-        if (!prefs.preferredTimeOfDay && hour >= 14 && hour < 18) {
-          score += 10;
-          reasons.push('Prime afternoon time');
-        }
-
-        // Avoid early morning
-        if (prefs.avoidEarlyMorning !== false && hour < 9) {
-          score -= 30;
-          reasons.push('Early morning (less convenient)');
-        }
-
-        // Avoid late night
-        if (prefs.avoidLateNight !== false && hour >= 21) {
-          score -= 30;
-          reasons.push('Late evening (less convenient)');
-        }
-
-        // Weekend preferences
-        if (prefs.preferWeekends && isWeekend) {
-          score += 15;
-          reasons.push('Weekend (preferred)');
-        } else if (!prefs.preferWeekends && !isWeekend) {
-          score += 5;
-          reasons.push('Weekday');
-        }
-
-        // Preferred days
-        if (prefs.preferredDays?.includes(dayOfWeek)) {
-          score += 15;
-          reasons.push('Preferred day');
-        }
-
-        // Bonus for longer slots
-        if (slot.durationMinutes >= 180) {
-          score += 10;
-          reasons.push('Extended availability');
-        }
-
-        return {
-          ...slot,
-          score,
-          reasons,
-        };
-      })
-      .sort((a, b) => b.score - a.score);
+  private async getVisibleUserIds(requesterId: string, userIds: string[]): Promise<string[]> {
+    const requested = [...new Set(userIds)];
+    const others = requested.filter((userId) => userId !== requesterId);
+    if (others.length === 0) return requested;
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: others } },
+      select: { id: true, email: true },
+    });
+    const hashes = new Map(users.map((user) => [user.id, blindIndex('email', user.email)]));
+    const known = await prisma.contact.findMany({
+      where: {
+        userId: requesterId,
+        isDeleted: false,
+        emailHash: { in: [...hashes.values()].filter((hash): hash is string => !!hash) },
+      },
+      select: { emailHash: true },
+    });
+    const connected = new Set(known.map((contact) => contact.emailHash));
+
+    return requested.filter((userId) => {
+      if (userId === requesterId) return true;
+      const hash = hashes.get(userId);
+      return !!hash && connected.has(hash);
+    });
   }
 
   /**
-   * Generate default time slots when no calendars are connected
+   * Timezone and working hours for each user; unknown users are left out
    */
-  private generateDefaultSlots(
-    startDate: Date,
-    endDate: Date,
-    minDurationMinutes: number,
-    preferences: AvailabilityParams['preferences']
-  ): RankedTimeSlot[] {
-    const slots: TimeSlot[] = [];
-    const current = new Date(startDate);
-
-    while (current < endDate) {
-      // Morning slot (10am - 12pm)
-      const morningStart = new Date(current);
-      morningStart.setHours(10, 0, 0, 0);
-      const morningEnd = new Date(current);
-      morningEnd.setHours(12, 0, 0, 0);
-
-      if (morningEnd <= endDate && morningStart >= startDate) {
-        slots.push({
-          start: morningStart,
-          end: morningEnd,
-          durationMinutes: 120,
-        });
-      }
-
-      // Afternoon slot (2pm - 5pm)
-      const afternoonStart = new Date(current);
-      afternoonStart.setHours(14, 0, 0, 0);
-      const afternoonEnd = new Date(current);
-      afternoonEnd.setHours(17, 0, 0, 0);
-
-      if (afternoonEnd <= endDate && afternoonStart >= startDate) {
-        slots.push({
-          start: afternoonStart,
-          end: afternoonEnd,
-          durationMinutes: 180,
-        });
-      }
-
-      // Evening slot (6pm - 8pm)
-      const eveningStart = new Date(current);
-      eveningStart.setHours(18, 0, 0, 0);
-      const eveningEnd = new Date(current);
-      eveningEnd.setHours(20, 0, 0, 0);
-
-      if (eveningEnd <= endDate && eveningStart >= startDate) {
-        slots.push({
-          start: eveningStart,
-          end: eveningEnd,
-          durationMinutes: 120,
-        });
-      }
-
-      // Move to next day
-      current.setDate(current.getDate() + 1);
-      current.setHours(0, 0, 0, 0);
-    }
-
-    // Filter by minimum duration and rank
-    return this.rankSlots(
-      slots.filter((s) => s.durationMinutes >= minDurationMinutes),
-      preferences
-    ).slice(0, 5);
+  private async getParticipants(userIds: string[]): Promise<AvailabilityParticipant[]> {
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, firstName: true, timezone: true, workingHours: true },
+    });
+
+    // Keep the requested order so the first user's timezone leads default suggestions
+    return userIds.flatMap((userId) => {
+      const user = users.find((candidate) => candidate.id === userId);
+      return user
+        ? [
+            {
+              userId: user.id,
+              name: user.firstName,
+              timeZone: resolveTimezone(user.timezone),
+              workingHours: getWorkingWindow(user.workingHours),
+            },
+          ]
+        : [];
+    });
   }
 }
 
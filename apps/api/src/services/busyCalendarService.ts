@@ -0,0 +1,254 @@
+import { BusyCalendar, BusyCalendarSource, CalendarProvider } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { BusyInterval, DeviceBusyBlockInput, normalizeDeviceBlocks } from '../utils/busyTime';
+import { getCalendarConnection } from './calendarProviders';
+
+// Most device busy blocks kept from a single upload
+const MAX_DEVICE_BLOCKS = 5000;
+
+export const BUSY_CALENDAR_ERRORS = ['Calendar not connected', 'Calendar not found in the connected account'];
+
+export interface BusyCalendarChoice {
+  calendarId: string;
+  name: string;
+}
+
+export interface AccountBusyCalendar extends BusyCalendarChoice {
+  color: string | null;
+  primary: boolean;
+  selected: boolean;
+}
+
+export interface BusyCalendarSettings {
+  // Calendars in the connected account, empty when none is connected
+  account: AccountBusyCalendar[];
+  // Device calendars the mobile app uploads busy time for
+  device: Array<BusyCalendarChoice & { lastUploadedAt: Date | null }>;
+}
+
+export interface BusyTimeResult {
+  // Whether the user has any calendar to read busy time from
+  hasCalendar: boolean;
+  intervals: BusyInterval[];
+}
+
+/**
+ * Busy Calendar Service
+ * Which calendars count toward a user's busy time, and reading busy time from
+ * all of them: calendars in the connected account (the primary one unless the
+ * user picked others) plus device calendars whose busy blocks the mobile app
+ * uploads, since the server can't read those itself.
+ */
+export class BusyCalendarService {
+  /**
+   * The account's calendars marked with which ones count, plus the device calendars that count
+   */
+  static async getSettings(userId: string): Promise<BusyCalendarSettings> {
+    const [rows, connection] = await Promise.all([
+      prisma.busyCalendar.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      getCalendarConnection(userId),
+    ]);
+
+    let account: AccountBusyCalendar[] = [];
+    if (connection) {
+      const chosen = this.accountRows(rows, connection.credential.provider);
+      const calendars = await connection.adapter.listCalendars(userId);
+      account = calendars.map((calendar) => {
+        const primary = calendar.id === connection.credential.primaryCalendarId || !!calendar.primary;
+        return {
+          calendarId: calendar.id,
+          name: calendar.summary,
+          color: calendar.backgroundColor ?? null,
+          primary,
+          selected: chosen.length ? chosen.some((row) => row.calendarId === calendar.id) : primary,
+        };
+      });
+    }
+
+    const deviceRows = rows.filter((row) => row.source === BusyCalendarSource.DEVICE);
+    const uploads = await prisma.deviceBusyBlock.groupBy({
+      by: ['calendarId'],
+      where: { userId, calendarId: { in: deviceRows.map((row) => row.calendarId) } },
+      _max: { createdAt: true },
+    });
+
+    return {
+      account,
+      device: deviceRows.map((row) => ({
+        calendarId: row.calendarId,
+        name: row.name,
+        lastUploadedAt: uploads.find((upload) => upload.calendarId === row.calendarId)?._max.createdAt ?? null,
+      })),
+    };
+  }
+
+  /**
+   * Replace the calendars that count toward busy time
+   * Account calendars must be ones the connected account lists; their names
+   * are taken from it. Device calendars dropped from the list have their
+   * uploaded blocks deleted.
+   */
+  static async updateSettings(
+    userId: string,
+    choices: { account: BusyCalendarChoice[]; device: BusyCalendarChoice[] }
+  ): Promise<BusyCalendarSettings> {
+    const connection = choices.account.length ? await getCalendarConnection(userId) : null;
+    if (choices.account.length && !connection) {
+      throw new Error('Calendar not connected');
+    }
+
+    const listed = connection ? await connection.adapter.listCalendars(userId) : [];
+    const accountNames = new Map(listed.map((calendar) => [calendar.id, calendar.summary]));
+    if (choices.account.some((choice) => !accountNames.has(choice.calendarId))) {
+      throw new Error('Calendar not found in the connected account');
+    }
+
+    const deviceIds = choices.device.map((choice) => choice.calendarId);
+
+    await prisma.$transaction([
+      prisma.busyCalendar.deleteMany({ where: { userId } }),
+      prisma.busyCalendar.createMany({
+        data: [
+          ...choices.account.map((choice) => ({
+            userId,
+            source: BusyCalendarSource.ACCOUNT,
+            calendarId: choice.calendarId,
+            name: accountNames.get(choice.calendarId) || choice.name,
+            provider: connection!.credential.provider,
+          })),
+          ...choices.device.map((choice) => ({
+            userId,
+            source: BusyCalendarSource.DEVICE,
+            calendarId: choice.calendarId,
+            name: choice.name,
+          })),
+        ],
+        skipDuplicates: true,
+      }),
+      prisma.deviceBusyBlock.deleteMany({ where: { userId, calendarId: { notIn: deviceIds } } }),
+    ]);
+
+    return this.getSettings(userId);
+  }
+
+  /**
+   * Replace the device busy blocks within a window with a fresh read from the device
+   * Blocks for calendars that don't count are ignored. Returns how many were kept.
+   */
+  static async uploadDeviceBlocks(
+    userId: string,
+    timeMin: Date,
+    timeMax: Date,
+    blocks: DeviceBusyBlockInput[]
+  ): Promise<number> {
+    const rows = await prisma.busyCalendar.findMany({
+      where: { userId, source: BusyCalendarSource.DEVICE },
+      select: { calendarId: true },
+    });
+    const normalized = normalizeDeviceBlocks(
+      blocks,
+      rows.map((row) => row.calendarId),
+      timeMin,
+      timeMax
+    ).slice(0, MAX_DEVICE_BLOCKS);
+
+    await prisma.$transaction([
+      prisma.deviceBusyBlock.deleteMany({
+        where: { userId, start: { lt: timeMax }, end: { gt: timeMin } },
+      }),
+      prisma.deviceBusyBlock.createMany({
+        data: normalized.map((block) => ({ userId, ...block })),
+      }),
+    ]);
+
+    return normalized.length;
+  }
+
+  /**
+   * Busy time from every calendar that counts, between two instants
+   * `withEvents` reads account calendars event by event so each interval has
+   * the event's id and title (for conflict checks); otherwise free/busy is used.
+   * A calendar that can't be read is skipped and logged.
+   */
+  static async getBusyTime(
+    userId: string,
+    timeMin: Date,
+    timeMax: Date,
+    options: { withEvents?: boolean } = {}
+  ): Promise<BusyTimeResult> {
+    const [rows, connection] = await Promise.all([
+      prisma.busyCalendar.findMany({ where: { userId } }),
+      getCalendarConnection(userId),
+    ]);
+    const intervals: BusyInterval[] = [];
+
+    if (connection) {
+      const { adapter, credential } = connection;
+      const chosen = this.accountRows(rows, credential.provider);
+      const calendars: BusyCalendarChoice[] = chosen.length
+        ? chosen
+        : credential.primaryCalendarId
+          ? [{ calendarId: credential.primaryCalendarId, name: 'Primary calendar' }]
+          : [];
+
+      for (const calendar of calendars) {
+        try {
+          if (options.withEvents) {
+            const events = await adapter.listEvents(userId, calendar.calendarId, timeMin, timeMax);
+            intervals.push(
+              ...events
+                .filter((event) => event.busy)
+                .map((event) => ({
+                  start: event.start,
+                  end: event.end,
+                  calendarId: calendar.calendarId,
+                  calendarName: calendar.name,
+                  source: 'account' as const,
+                  eventId: event.id,
+                  summary: event.summary,
+                }))
+            );
+          } else {
+            const busyTimes = await adapter.getBusyTimes(userId, [calendar.calendarId], timeMin, timeMax);
+            intervals.push(
+              ...(busyTimes[calendar.calendarId] || []).map((busy) => ({
+                start: new Date(busy.start),
+                end: new Date(busy.end),
+                calendarId: calendar.calendarId,
+                calendarName: calendar.name,
+                source: 'account' as const,
+              }))
+            );
+          }
+        } catch (error) {
+          console.error(`Error reading busy time from calendar ${calendar.calendarId} for user ${userId}:`, error);
+        }
+      }
+    }
+
+    const deviceRows = rows.filter((row) => row.source === BusyCalendarSource.DEVICE);
+    if (deviceRows.length) {
+      const names = new Map(deviceRows.map((row) => [row.calendarId, row.name]));
+      const blocks = await prisma.deviceBusyBlock.findMany({
+        where: { userId, calendarId: { in: [...names.keys()] }, start: { lt: timeMax }, end: { gt: timeMin } },
+        orderBy: { start: 'asc' },
+      });
+      intervals.push(
+        ...blocks.map((block) => ({
+          start: block.start,
+          end: block.end,
+          calendarId: block.calendarId,
+          calendarName: names.get(block.calendarId) ?? 'Device calendar',
+          source: 'device' as const,
+        }))
+      );
+    }
+
+    return { hasCalendar: !!connection || deviceRows.length > 0, intervals };
+  }
+
+  // Account calendars chosen while the current provider was connected
+  private static accountRows(rows: BusyCalendar[], provider: CalendarProvider): BusyCalendar[] {
+    return rows.filter((row) => row.source === BusyCalendarSource.ACCOUNT && row.provider === provider);
+  }
+}
@@ -0,0 +1,255 @@
+import { CalendarProvider } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { encrypt, decrypt } from '../utils/encryption';
+import { buildCalendar } from '../utils/ics';
+import { assertPublicUrl, publicHttpsAgent } from '../utils/publicUrl';
+import { CalDAVClient } from './caldavClient';
+import type { BusyTime, CalendarInfo } from './googleCalendarService';
+import type {
+  CalendarProviderAdapter,
+  ConnectInput,
+  ProviderEvent,
+  ProviderEventInput,
+  ProviderEventRef,
+} from './calendarProviders';
+
+/**
+ * CalDAV Calendar Service
+ * Connects iCloud and generic CalDAV servers (Fastmail, Nextcloud, Radicale)
+ * with a username and app password. The password is stored encrypted in the
+ * access token column, alongside the server URL and username. Servers must be
+ * public https hosts, and calendar and event ids must live on the server.
+ */
+export class CalDAVCalendarService implements CalendarProviderAdapter {
+  readonly authType = 'password' as const;
+
+  constructor(
+    readonly provider: CalendarProvider,
+    // Server used when the user doesn't give one (iCloud)
+    private defaultServerUrl?: string,
+    // Domain whose hosts may hold the account's calendars besides the server's own
+    private trustedDomain?: string
+  ) {}
+
+  /**
+   * Check the account and save it
+   * Fails if the server rejects the login or has no calendars for it. New
+   * events go to the first calendar the account can write to.
+   */
+  async connect(userId: string, input: ConnectInput): Promise<void> {
+    if (!('password' in input)) {
+      throw new Error('CalDAV calendars connect with a username and password');
+    }
+
+    const serverUrl = input.serverUrl || this.defaultServerUrl;
+    if (!serverUrl) {
+      throw new Error('CalDAV server URL is required');
+    }
+
+    await assertPublicUrl(serverUrl);
+    const client = this.createClient(serverUrl, input.username, input.password);
+    const calendars = await client.listCalendars();
+    if (calendars.length === 0) {
+      throw new Error('No calendars found for this CalDAV account');
+    }
+    const primary = calendars.find((calendar) => !calendar.readOnly) ?? calendars[0];
+
+    const data = {
+      provider: this.provider,
+      accessTokenEncrypted: encrypt(input.password),
+      refreshTokenEncrypted: null,
+      tokenExpiresAt: null,
+      scope: null,
+      serverUrl,
+      username: input.username,
+      primaryCalendarId: primary.url,
+      syncToken: null,
+      isActive: true,
+    };
+
+    await prisma.calendarCredential.upsert({
+      where: { userId },
+      update: { ...data, updatedAt: new Date() },
+      create: { userId, ...data },
+    });
+  }
+
+  async disconnect(userId: string): Promise<void> {
+    await prisma.calendarCredential.delete({ where: { userId } }).catch(() => {
+      // Ignore if credentials don't exist
+    });
+  }
+
+  async listCalendars(userId: string): Promise<CalendarInfo[]> {
+    const { client, primaryCalendarId } = await this.getClient(userId);
+
+    try {
+      const calendars = await client.listCalendars();
+      return calendars.map((calendar) => ({
+        id: calendar.url,
+        summary: calendar.displayName,
+        primary: calendar.url === primaryCalendarId,
+        backgroundColor: calendar.color || undefined,
+        accessRole: calendar.readOnly ? 'reader' : 'owner',
+      }));
+    } catch (error) {
+      console.error('List CalDAV calendars error:', error);
+      throw new Error(`Failed to list calendars: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async listEvents(userId: string, calendarId: string, timeMin: Date, timeMax: Date): Promise<ProviderEvent[]> {
+    const { client, primaryCalendarId } = await this.getClient(userId);
+
+    try {
+      const events = await client.listEvents(
+        this.calendarUrl(client, calendarId, primaryCalendarId),
+        timeMin,
+        timeMax
+      );
+      return events
+        .filter((event) => !event.cancelled)
+        .map((event) => ({
+          id: event.href,
+          summary: event.summary,
+          start: event.start,
+          end: event.end,
+          allDay: event.allDay,
+          busy: !event.transparent,
+        }));
+    } catch (error) {
+      console.error('Get CalDAV events error:', error);
+      throw new Error(`Failed to get events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Busy times per calendar, read from events since CalDAV free-busy reports
+   * aren't supported everywhere (iCloud doesn't)
+   */
+  async getBusyTimes(
+    userId: string,
+    calendarIds: string[],
+    timeMin: Date,
+    timeMax: Date
+  ): Promise<Record<string, BusyTime[]>> {
+    const busyTimes: Record<string, BusyTime[]> = {};
+
+    for (const calendarId of calendarIds) {
+      const events = await this.listEvents(userId, calendarId, timeMin, timeMax);
+      busyTimes[calendarId] = events
+        .filter((event) => event.busy)
+        .map((event) => ({ start: event.start.toISOString(), end: event.end.toISOString() }));
+    }
+
+    return busyTimes;
+  }
+
+  async createEvent(userId: string, calendarId: string, event: ProviderEventInput): Promise<ProviderEventRef> {
+    const { client, primaryCalendarId } = await this.getClient(userId);
+    const href = client.eventUrl(this.calendarUrl(client, calendarId, primaryCalendarId), event.uid);
+
+    try {
+      const saved = await client.putEvent(href, this.toICS(event), { create: true });
+      await this.touch(userId);
+      return { id: saved.href, etag: saved.etag };
+    } catch (error) {
+      console.error('Create CalDAV event error:', error);
+      throw new Error(`Failed to create event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Replace an event; `eventId` is the resource URL returned when it was created
+   */
+  async updateEvent(
+    userId: string,
+    _calendarId: string,
+    eventId: string,
+    event: ProviderEventInput
+  ): Promise<ProviderEventRef> {
+    const { client } = await this.getClient(userId);
+
+    try {
+      const saved = await client.putEvent(client.ownUrl(eventId), this.toICS(event));
+      await this.touch(userId);
+      return { id: saved.href, etag: saved.etag };
+    } catch (error) {
+      console.error('Update CalDAV event error:', error);
+      throw new Error(`Failed to update event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteEvent(userId: string, _calendarId: string, eventId: string): Promise<void> {
+    const { client } = await this.getClient(userId);
+
+    try {
+      await client.deleteEvent(client.ownUrl(eventId));
+      await this.touch(userId);
+    } catch (error) {
+      console.error('Delete CalDAV event error:', error);
+      throw new Error(`Failed to delete event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async getClient(userId: string): Promise<{ client: CalDAVClient; primaryCalendarId: string | null }> {
+    const credential = await prisma.calendarCredential.findUnique({ where: { userId } });
+    if (
+      !credential?.isActive ||
+      credential.provider !== this.provider ||
+      !credential.serverUrl ||
+      !credential.username
+    ) {
+      throw new Error('Calendar not connected. Please authenticate first.');
+    }
+
+    const password = decrypt(credential.accessTokenEncrypted);
+    return {
+      client: this.createClient(credential.serverUrl, credential.username, password),
+      primaryCalendarId: credential.primaryCalendarId,
+    };
+  }
+
+  // Every request re-checks the host, and the connection itself only goes to the
+  // public addresses it resolves to, since DNS can change between the two
+  private createClient(serverUrl: string, username: string, password: string): CalDAVClient {
+    return new CalDAVClient(serverUrl, username, password, {
+      trustedDomain: this.trustedDomain,
+      checkUrl: assertPublicUrl,
+      httpsAgent: publicHttpsAgent,
+    });
+  }
+
+  private calendarUrl(client: CalDAVClient, calendarId: string, primaryCalendarId: string | null): string {
+    if (calendarId !== 'primary') {
+      return client.ownUrl(calendarId);
+    }
+    if (!primaryCalendarId) {
+      throw new Error('No default calendar set for this account');
+    }
+    return primaryCalendarId;
+  }
+
+  private toICS(event: ProviderEventInput): string {
+    return buildCalendar([
+      {
+        uid: event.uid,
+        start: event.start,
+        end: event.end,
+        timeZone: event.timeZone,
+        summary: event.summary,
+        description: event.description,
+        location: event.location,
+        status: event.cancelled ? 'CANCELLED' : 'CONFIRMED',
+        lastModified: new Date(),
+      },
+    ]);
+  }
+
+  private async touch(userId: string): Promise<void> {
+    await prisma.calendarCredential.update({
+      where: { userId },
+      data: { lastSyncAt: new Date() },
+    });
+  }
+}
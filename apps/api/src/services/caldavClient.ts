@@ -0,0 +1,524 @@
+import axios, { AxiosInstance, Method } from 'axios';
+import { Agent } from 'https';
+import { isValidTimezone, zonedTimeToUtc } from '../utils/timezone';
+
+/**
+ * Minimal CalDAV (RFC 4791) client
+ * Enough of WebDAV to find a user's calendars, read events in a time range and
+ * write single events, which is what iCloud, Fastmail, Nextcloud and Radicale
+ * all support. Responses are parsed with a small namespace-aware XML reader.
+ */
+
+const DAV = 'DAV:';
+const CALDAV = 'urn:ietf:params:xml:ns:caldav';
+const APPLE_ICAL = 'http://apple.com/ns/ical/';
+
+const REQUEST_TIMEOUT_MS = 15000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CalDAVCalendar {
+  url: string;
+  displayName: string;
+  color: string | null;
+  readOnly: boolean;
+}
+
+export interface CalDAVEvent {
+  href: string;
+  etag: string | null;
+  uid: string;
+  summary: string | null;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  // TRANSP:TRANSPARENT events don't block time
+  transparent: boolean;
+  cancelled: boolean;
+}
+
+export interface CalDAVWriteResult {
+  href: string;
+  etag: string | null;
+}
+
+export interface CalDAVClientOptions {
+  // Sibling hosts the server may hand out hrefs on (iCloud homes live on pNN-caldav.icloud.com)
+  trustedDomain?: string;
+  // Checked before every request, e.g. that the host resolves to a public address
+  checkUrl?: (url: string) => Promise<void>;
+  // Agent for https connections, e.g. one that refuses to connect to private addresses
+  httpsAgent?: Agent;
+}
+
+export const CALDAV_FOREIGN_URL_ERROR = 'CalDAV URL is outside the connected server';
+
+// ==================== XML ====================
+
+export interface XmlElement {
+  namespace: string;
+  name: string;
+  // Keyed by qualified name as written, e.g. "name" or "xml:lang"
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Parse an XML document into elements keyed by namespace URI and local name
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { namespace: '', name: '#document', attributes: {}, children: [], text: '' };
+  const stack: Array<{ element: XmlElement; namespaces: Record<string, string> }> = [
+    { element: root, namespaces: { xml: 'http://www.w3.org/XML/1998/namespace' } },
+  ];
+  const token = new RegExp(
+    [
+      /<!\[CDATA\[([\s\S]*?)\]\]>/.source,
+      // Comments, processing instructions and doctypes are skipped
+      /<!--[\s\S]*?-->|<[?!][\s\S]*?>/.source,
+      /<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.source,
+      /([^<]+)/.source,
+    ].join('|'),
+    'g'
+  );
+
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(xml))) {
+    const [, cdata, closing, tagName, attributeText, selfClosing, text] = match;
+    const top = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      top.element.text += cdata;
+    } else if (text !== undefined) {
+      top.element.text += decodeEntities(text);
+    } else if (tagName && closing) {
+      if (stack.length > 1) stack.pop();
+    } else if (tagName) {
+      const namespaces = { ...top.namespaces };
+      const attributes: Record<string, string> = {};
+      const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(attributeText))) {
+        const [, key, doubleQuoted, singleQuoted] = attribute;
+        const value = decodeEntities(doubleQuoted ?? singleQuoted);
+        if (key === 'xmlns') namespaces[''] = value;
+        else if (key.startsWith('xmlns:')) namespaces[key.slice(6)] = value;
+        else attributes[key] = value;
+      }
+
+      const colon = tagName.indexOf(':');
+      const prefix = colon === -1 ? '' : tagName.slice(0, colon);
+      const element: XmlElement = {
+        namespace: namespaces[prefix] ?? '',
+        name: tagName.slice(colon + 1),
+        attributes,
+        children: [],
+        text: '',
+      };
+      top.element.children.push(element);
+      if (!selfClosing) stack.push({ element, namespaces });
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Every descendant element with a namespace and local name
+ */
+export function findElements(element: XmlElement, namespace: string, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of element.children) {
+    if (child.namespace === namespace && child.name === name) found.push(child);
+    found.push(...findElements(child, namespace, name));
+  }
+  return found;
+}
+
+function findElement(element: XmlElement, namespace: string, name: string): XmlElement | null {
+  return findElements(element, namespace, name)[0] ?? null;
+}
+
+interface DavResponse {
+  href: string;
+  // Properties from the propstat blocks with a 2xx status
+  props: XmlElement[];
+}
+
+/**
+ * The responses of a 207 Multi-Status body
+ */
+function parseMultistatus(xml: string): DavResponse[] {
+  return findElements(parseXml(xml), DAV, 'response').map((response) => {
+    const href = findElement(response, DAV, 'href')?.text.trim() ?? '';
+    const props = response.children
+      .filter((child) => child.namespace === DAV && child.name === 'propstat')
+      .filter((propstat) => /\s2\d\d\s/.test(` ${findElement(propstat, DAV, 'status')?.text ?? 'HTTP/1.1 200 OK'} `))
+      .flatMap((propstat) => findElement(propstat, DAV, 'prop')?.children ?? []);
+    return { href, props };
+  });
+}
+
+function prop(response: DavResponse, namespace: string, name: string): XmlElement | null {
+  return response.props.find((p) => p.namespace === namespace && p.name === name) ?? null;
+}
+
+// ==================== iCalendar ====================
+
+interface ICSProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseICSLine(line: string): ICSProperty | null {
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const equals = part.indexOf('=');
+    if (equals > 0) params[part.slice(0, equals).toUpperCase()] = part.slice(equals + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+function parseICSDate(property: ICSProperty): { date: Date; allDay: boolean } | null {
+  const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const parts = { year: +year, month: +month, day: +day };
+  if (hour === undefined) {
+    return { date: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)), allDay: true };
+  }
+
+  const time = { ...parts, hour: +hour, minute: +minute, second: +second };
+  const timeZone = property.params.TZID;
+  if (!utc && timeZone && isValidTimezone(timeZone)) {
+    return { date: zonedTimeToUtc(time, timeZone), allDay: false };
+  }
+  // UTC, or floating / unknown-timezone times read as UTC
+  return {
+    date: new Date(Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second)),
+    allDay: false,
+  };
+}
+
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part ?? '0');
+  const totalDays = +weeks * 7 + +days;
+  const ms = (((totalDays * 24 + +hours) * 60 + +minutes) * 60 + +seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * The VEVENTs of an iCalendar object, with times resolved to UTC instants
+ * Events whose start can't be read are skipped.
+ */
+export function parseICSEvents(text: string): Array<Omit<CalDAVEvent, 'href' | 'etag'>> {
+  const lines = text.split(/\r\n|\r|\n/).reduce<string[]>((unfolded, line) => {
+    if (/^[ \t]/.test(line) && unfolded.length) unfolded[unfolded.length - 1] += line.slice(1);
+    else if (line.trim()) unfolded.push(line);
+    return unfolded;
+  }, []);
+
+  const events: Array<Omit<CalDAVEvent, 'href' | 'etag'>> = [];
+  let current: ICSProperty[] | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    const property = parseICSLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT' && !current) {
+        current = [];
+        depth = 0;
+      } else if (current) {
+        depth++;
+      }
+    } else if (property.name === 'END' && current) {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      const get = (name: string) => current!.find((p) => p.name === name);
+      const start = get('DTSTART') && parseICSDate(get('DTSTART')!);
+      if (start) {
+        const endProperty = get('DTEND') && parseICSDate(get('DTEND')!);
+        const duration = get('DURATION') && parseDuration(get('DURATION')!.value);
+        const end = endProperty
+          ? endProperty.date
+          : new Date(start.date.getTime() + (duration ?? (start.allDay ? DAY_MS : 0)));
+
+        events.push({
+          uid: get('UID')?.value.trim() ?? '',
+          summary: get('SUMMARY') ? unescapeText(get('SUMMARY')!.value) : null,
+          start: start.date,
+          end,
+          allDay: start.allDay,
+          transparent: get('TRANSP')?.value.trim().toUpperCase() === 'TRANSPARENT',
+          cancelled: get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+        });
+      }
+      current = null;
+    } else if (current && depth === 0) {
+      current.push(property);
+    }
+  }
+
+  return events;
+}
+
+function formatUTC(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// ==================== Client ====================
+
+/**
+ * A CalDAV account
+ * `serverUrl` can be the server root (discovery finds the calendars through
+ * current-user-principal and calendar-home-set) or a calendar home directly.
+ * Requests only go to the server's own origin (or its trusted domain), so
+ * neither the server nor a caller can send the credentials elsewhere.
+ */
+export class CalDAVClient {
+  private http: AxiosInstance;
+  private origin: string;
+
+  constructor(
+    private serverUrl: string,
+    username: string,
+    password: string,
+    private options: CalDAVClientOptions = {}
+  ) {
+    this.origin = new URL(serverUrl).origin;
+    this.http = axios.create({
+      auth: { username, password },
+      timeout: REQUEST_TIMEOUT_MS,
+      responseType: 'text',
+      transformResponse: (data) => data,
+      validateStatus: () => true,
+      // A redirect could lead anywhere; discovery works from the hrefs instead
+      maxRedirects: 0,
+      httpsAgent: options.httpsAgent,
+    });
+  }
+
+  /**
+   * Resolve an href against the server, refusing one on another origin
+   */
+  ownUrl(href: string, base: string = this.serverUrl): string {
+    const url = new URL(href, base);
+    const { trustedDomain } = this.options;
+    const trusted =
+      url.origin === this.origin ||
+      (!!trustedDomain && url.protocol === 'https:' && url.hostname.endsWith(`.${trustedDomain}`));
+    if (!trusted || url.username || url.password) {
+      throw new Error(CALDAV_FOREIGN_URL_ERROR);
+    }
+    return url.toString();
+  }
+
+  private async request(
+    method: string,
+    url: string,
+    options: { body?: string; depth?: 0 | 1; headers?: Record<string, string>; allow?: number[] } = {}
+  ): Promise<{ status: number; data: string; etag: string | null }> {
+    this.ownUrl(url);
+    await this.options.checkUrl?.(url);
+
+    const response = await this.http.request<string>({
+      method: method as Method,
+      url,
+      data: options.body,
+      headers: {
+        ...(options.body && { 'Content-Type': 'application/xml; charset=utf-8' }),
+        ...(options.depth !== undefined && { Depth: String(options.depth) }),
+        ...options.headers,
+      },
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('CalDAV authentication failed');
+    }
+    if (response.status >= 400 && !options.allow?.includes(response.status)) {
+      throw new Error(`CalDAV ${method} ${new URL(url).pathname} failed with status ${response.status}`);
+    }
+
+    const etag = response.headers.etag;
+    return { status: response.status, data: response.data ?? '', etag: typeof etag === 'string' ? etag : null };
+  }
+
+  private async propfind(url: string, depth: 0 | 1, props: string): Promise<DavResponse[]> {
+    const body =
+      '<?xml version="1.0" encoding="utf-8"?>' +
+      `<d:propfind xmlns:d="${DAV}" xmlns:c="${CALDAV}" xmlns:a="${APPLE_ICAL}"><d:prop>${props}</d:prop></d:propfind>`;
+    const { data } = await this.request('PROPFIND', url, { body, depth });
+    return parseMultistatus(data);
+  }
+
+  private resolve(href: string, base: string = this.serverUrl): string {
+    return this.ownUrl(href, base);
+  }
+
+  /**
+   * The collection holding the user's calendars
+   */
+  async findCalendarHome(): Promise<string> {
+    const [root] = await this.propfind(this.serverUrl, 0, '<d:current-user-principal/><c:calendar-home-set/>');
+    const hrefIn = (response: DavResponse | undefined, namespace: string, name: string) => {
+      const element = response && prop(response, namespace, name);
+      return (element && findElement(element, DAV, 'href')?.text.trim()) || null;
+    };
+
+    const homeHref = hrefIn(root, CALDAV, 'calendar-home-set');
+    if (homeHref) {
+      return this.resolve(homeHref);
+    }
+
+    const principalHref = hrefIn(root, DAV, 'current-user-principal');
+    if (!principalHref) {
+      // No discovery support: assume the URL given is the calendar home
+      return this.serverUrl;
+    }
+
+    const principalUrl = this.resolve(principalHref);
+    const [principal] = await this.propfind(principalUrl, 0, '<c:calendar-home-set/>');
+    const principalHomeHref = hrefIn(principal, CALDAV, 'calendar-home-set');
+    return principalHomeHref ? this.resolve(principalHomeHref, principalUrl) : principalUrl;
+  }
+
+  /**
+   * Calendars that can hold events
+   */
+  async listCalendars(): Promise<CalDAVCalendar[]> {
+    const home = await this.findCalendarHome();
+    const responses = await this.propfind(
+      home,
+      1,
+      '<d:resourcetype/><d:displayname/><a:calendar-color/><c:supported-calendar-component-set/>' +
+        '<d:current-user-privilege-set/>'
+    );
+
+    return responses
+      .filter((response) => {
+        const type = prop(response, DAV, 'resourcetype');
+        if (!type || !findElement(type, CALDAV, 'calendar')) return false;
+        // Calendars limited to tasks (VTODO) can't hold events
+        const components = prop(response, CALDAV, 'supported-calendar-component-set');
+        const comps = components ? findElements(components, CALDAV, 'comp') : [];
+        return comps.length === 0 || comps.some((comp) => comp.attributes.name?.toUpperCase() === 'VEVENT');
+      })
+      .map((response) => {
+        const url = this.resolve(response.href, home);
+        const privileges = prop(response, DAV, 'current-user-privilege-set');
+        const color = prop(response, APPLE_ICAL, 'calendar-color')?.text.trim();
+        const lastSegment = new URL(url).pathname.split('/').filter(Boolean).pop();
+        return {
+          url,
+          displayName:
+            prop(response, DAV, 'displayname')?.text.trim() ||
+            (lastSegment ? decodeURIComponent(lastSegment) : 'Calendar'),
+          // Apple writes #RRGGBBAA
+          color: color ? color.slice(0, 7) : null,
+          readOnly: privileges
+            ? !['all', 'write', 'write-content', 'bind'].some((name) => findElement(privileges, DAV, name))
+            : false,
+        };
+      });
+  }
+
+  /**
+   * Events overlapping a time range
+   * Asks the server to expand recurring events into instances; servers that
+   * can't only return the master, whose first occurrence may fall outside.
+   */
+  async listEvents(calendarUrl: string, timeMin: Date, timeMax: Date): Promise<CalDAVEvent[]> {
+    const range = `start="${formatUTC(timeMin)}" end="${formatUTC(timeMax)}"`;
+    const body =
+      '<?xml version="1.0" encoding="utf-8"?>' +
+      `<c:calendar-query xmlns:d="${DAV}" xmlns:c="${CALDAV}">` +
+      `<d:prop><d:getetag/><c:calendar-data><c:expand ${range}/></c:calendar-data></d:prop>` +
+      `<c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT"><c:time-range ${range}/>` +
+      '</c:comp-filter></c:comp-filter></c:filter></c:calendar-query>';
+
+    const { data } = await this.request('REPORT', calendarUrl, { body, depth: 1 });
+
+    return parseMultistatus(data).flatMap((response) => {
+      const calendarData = prop(response, CALDAV, 'calendar-data')?.text;
+      if (!calendarData) return [];
+      const etag = prop(response, DAV, 'getetag')?.text.trim() || null;
+      const href = this.resolve(response.href, calendarUrl);
+
+      return parseICSEvents(calendarData)
+        .filter((event) => event.start < timeMax && event.end > timeMin)
+        .map((event) => ({ ...event, href, etag }));
+    });
+  }
+
+  /**
+   * URL for a new event resource in a calendar
+   */
+  eventUrl(calendarUrl: string, uid: string): string {
+    const base = calendarUrl.endsWith('/') ? calendarUrl : `${calendarUrl}/`;
+    return this.resolve(`${encodeURIComponent(uid)}.ics`, base);
+  }
+
+  /**
+   * Write an iCalendar object
+   * `create` fails rather than overwrite an existing resource; an `etag` only
+   * overwrites the version it names.
+   */
+  async putEvent(
+    href: string,
+    ics: string,
+    options: { create?: boolean; etag?: string | null } = {}
+  ): Promise<CalDAVWriteResult> {
+    const { etag } = await this.request('PUT', href, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        ...(options.create && { 'If-None-Match': '*' }),
+        ...(!options.create && options.etag && { 'If-Match': options.etag }),
+      },
+      body: ics,
+    });
+    return { href, etag };
+  }
+
+  /**
+   * Delete an event resource; one that's already gone is fine
+   */
+  async deleteEvent(href: string): Promise<void> {
+    await this.request('DELETE', href, { allow: [404, 410] });
+  }
+}
@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+import { CalendarFeed, Contact, Event, EventOccurrence, EventStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getEventRecurrenceRule } from './eventOccurrenceService';
+import { buildCalendar, ICSEvent, resolveEventTimes } from '../utils/ics';
+import { formatRRule } from '../utils/recurrence';
+import { resolveTimezone } from '../utils/timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One-off events older than this are left out of the feed
+export const FEED_HISTORY_DAYS = 365;
+
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  createdAt: Date | null;
+  rotatedAt: Date | null;
+  lastAccessedAt: Date | null;
+}
+
+export interface CalendarFeedLink {
+  url: string;
+  webcalUrl: string;
+  createdAt: Date;
+}
+
+export interface RenderedFeed {
+  body: string;
+  etag: string;
+  lastModified: Date;
+}
+
+type FeedEvent = Event & { occurrences: EventOccurrence[] };
+type FeedContact = Pick<Contact, 'id' | 'name' | 'birthday' | 'anniversary' | 'updatedAt'>;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toICSStatus(status: EventStatus): ICSEvent['status'] {
+  if (status === EventStatus.CANCELLED) return 'CANCELLED';
+  if (status === EventStatus.CONFIRMED || status === EventStatus.COMPLETED) return 'CONFIRMED';
+  return 'TENTATIVE';
+}
+
+function eventToICS(event: FeedEvent): ICSEvent[] {
+  const timeZone = resolveTimezone(event.timezone);
+  const { start, end, allDay } = resolveEventTimes(event.date, event.startTime, event.endTime, timeZone);
+  const location = [event.locationName, event.locationAddress].filter(Boolean).join(', ') || null;
+
+  let rrule: string | null = null;
+  try {
+    const rule = getEventRecurrenceRule(event);
+    rrule = rule ? formatRRule(rule) : null;
+  } catch {
+    // Publish just the first occurrence of a series with an unreadable rule
+  }
+
+  const master: ICSEvent = {
+    uid: `${event.id}@socap`,
+    sequence: event.icsSequence,
+    start,
+    end,
+    allDay,
+    timeZone,
+    summary: event.title,
+    description: event.description,
+    location,
+    status: toICSStatus(event.status),
+    rrule,
+    lastModified: event.updatedAt,
+  };
+
+  if (!rrule) return [master];
+
+  // Cancelled occurrences become EXDATEs; other overrides become RECURRENCE-ID instances
+  const originalStart = (occurrence: EventOccurrence) =>
+    resolveEventTimes(occurrence.occurrenceDate, event.startTime, event.endTime, timeZone).start;
+
+  master.exdates = event.occurrences
+    .filter((occurrence) => occurrence.status === EventStatus.CANCELLED)
+    .map(originalStart);
+
+  const overrides = event.occurrences
+    .filter((occurrence) => occurrence.status !== EventStatus.CANCELLED)
+    .map((occurrence): ICSEvent => {
+      const times = resolveEventTimes(
+        occurrence.date ?? occurrence.occurrenceDate,
+        occurrence.startTime ?? event.startTime,
+        occurrence.endTime ?? event.endTime,
+        timeZone
+      );
+
+      return {
+        ...master,
+        ...times,
+        rrule: null,
+        exdates: [],
+        recurrenceId: originalStart(occurrence),
+        description: occurrence.notes ?? event.description,
+        status: toICSStatus(occurrence.status ?? event.status),
+        lastModified: occurrence.updatedAt,
+      };
+    });
+
+  return [master, ...overrides];
+}
+
+function anniversaryToICS(contact: FeedContact, kind: 'birthday' | 'anniversary', date: Date): ICSEvent {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // Keep Feb 29 dates on the last day of February in common years
+  const isLeapDay = start.getUTCMonth() === 1 && start.getUTCDate() === 29;
+
+  return {
+    uid: `${kind}-${contact.id}@socap`,
+    start,
+    end: new Date(start.getTime() + DAY_MS),
+    allDay: true,
+    summary: `${contact.name}'s ${kind}`,
+    rrule: isLeapDay ? 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1' : 'FREQ=YEARLY',
+    lastModified: contact.updatedAt,
+  };
+}
+
+/**
+ * Render a user's events and contacts' birthdays/anniversaries as an iCalendar feed
+ * DTSTAMP is the latest modification time rather than the request time, so an
+ * unchanged feed renders byte-for-byte the same and keeps its ETag.
+ */
+export function buildCalendarFeed(events: FeedEvent[], contacts: FeedContact[], since: Date): RenderedFeed {
+  const entries: ICSEvent[] = [
+    ...events.flatMap(eventToICS),
+    ...contacts.flatMap((contact) => [
+      ...(contact.birthday ? [anniversaryToICS(contact, 'birthday', contact.birthday)] : []),
+      ...(contact.anniversary ? [anniversaryToICS(contact, 'anniversary', contact.anniversary)] : []),
+    ]),
+  ];
+
+  const lastModified = new Date(
+    Math.max(
+      since.getTime(),
+      ...events.flatMap((event) => [event.updatedAt.getTime(), ...event.occurrences.map((o) => o.updatedAt.getTime())]),
+      ...contacts.map((contact) => contact.updatedAt.getTime())
+    )
+  );
+
+  const body = buildCalendar(entries, { method: 'PUBLISH', name: 'SoCap', now: lastModified });
+  const etag = `"${crypto.createHash('sha256').update(body).digest('base64url').slice(0, 32)}"`;
+
+  return { body, etag, lastModified };
+}
+
+/**
+ * Secret per-user iCalendar feed URLs
+ * Only a hash of the token is stored; rotating issues a new URL and revoking deletes it.
+ */
+export class CalendarFeedService {
+  /**
+   * Base URL the feed token is appended to
+   */
+  static getBaseUrl(): string {
+    return `${(process.env.API_URL || 'http://localhost:3000').replace(/\/+$/, '')}/api/calendar/feed`;
+  }
+
+  /**
+   * Whether the user has a feed, and when it was last polled
+   */
+  static async getStatus(userId: string): Promise<CalendarFeedStatus> {
+    const feed = await prisma.calendarFeed.findUnique({ where: { userId } });
+
+    return {
+      enabled: !!feed,
+      createdAt: feed?.createdAt ?? null,
+      rotatedAt: feed?.rotatedAt ?? null,
+      lastAccessedAt: feed?.lastAccessedAt ?? null,
+    };
+  }
+
+  /**
+   * Create the user's feed URL, or replace it (the old URL stops working)
+   */
+  static async rotate(userId: string): Promise<CalendarFeedLink> {
+    try {
+      const token = crypto.randomBytes(32).toString('base64url');
+      const tokenHash = hashToken(token);
+
+      const feed = await prisma.calendarFeed.upsert({
+        where: { userId },
+        create: { userId, tokenHash },
+        update: { tokenHash, rotatedAt: new Date(), lastAccessedAt: null },
+      });
+
+      const url = `${this.getBaseUrl()}/${token}.ics`;
+      return {
+        url,
+        webcalUrl: url.replace(/^https?:/, 'webcal:'),
+        createdAt: feed.rotatedAt ?? feed.createdAt,
+      };
+    } catch (error) {
+      throw new Error(`Failed to create calendar feed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Turn the feed off
+   */
+  static async revoke(userId: string): Promise<void> {
+    await prisma.calendarFeed.deleteMany({ where: { userId } });
+  }
+
+  /**
+   * Render the feed for a token
+   * Throws 'Calendar feed not found' for unknown or revoked tokens.
+   */
+  static async renderFeed(token: string): Promise<RenderedFeed> {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!feed) {
+      throw new Error('Calendar feed not found');
+    }
+
+    const historyStart = new Date(Date.now() - FEED_HISTORY_DAYS * DAY_MS);
+
+    const [events, contacts] = await Promise.all([
+      prisma.event.findMany({
+        where: {
+          userId: feed.userId,
+          OR: [{ isRecurring: true }, { date: { gte: historyStart } }],
+        },
+        include: { occurrences: true },
+        orderBy: { date: 'asc' },
+      }),
+      prisma.contact.findMany({
+        where: {
+          userId: feed.userId,
+          isDeleted: false,
+          OR: [{ birthday: { not: null } }, { anniversary: { not: null } }],
+        },
+        select: { id: true, name: true, birthday: true, anniversary: true, updatedAt: true },
+      }),
+    ]);
+
+    await this.touch(feed);
+
+    return buildCalendarFeed(events, contacts, feed.rotatedAt ?? feed.createdAt);
+  }
+
+  private static async touch(feed: CalendarFeed): Promise<void> {
+    try {
+      await prisma.calendarFeed.update({
+        where: { id: feed.id },
+        data: { lastAccessedAt: new Date() },
+      });
+    } catch (error) {
+      // Feed was revoked mid-request, or a transient write failure; serving still succeeds
+      console.error('Failed to record calendar feed access:', error);
+    }
+  }
+}
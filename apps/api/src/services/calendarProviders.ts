@@ -0,0 +1,257 @@
+import { CalendarCredential, CalendarProvider } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { resolveEventTimes } from '../utils/ics';
+import { BusyTime, CalendarInfo, googleCalendarService } from './googleCalendarService';
+import { CalDAVCalendarService } from './caldavCalendarService';
+import { microsoftCalendarService } from './microsoftCalendarService';
+
+/**
+ * An event as read from a provider, with times as UTC instants
+ */
+export interface ProviderEvent {
+  id: string;
+  summary: string | null;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  // Events marked free (Google transparency, Outlook showAs, CalDAV TRANSP) don't block time
+  busy: boolean;
+}
+
+export interface ProviderEventInput {
+  // SoCap event id; CalDAV uses it as the iCalendar UID
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  timeZone: string;
+  cancelled?: boolean;
+}
+
+export interface ProviderEventRef {
+  id: string;
+  etag: string | null;
+}
+
+export interface PasswordCredentials {
+  // Defaults to the provider's server where there is one (iCloud)
+  serverUrl?: string;
+  username: string;
+  password: string;
+}
+
+export type ConnectInput = { code: string } | PasswordCredentials;
+
+/**
+ * A calendar service people can connect
+ * `calendarId` may be "primary" for the account's default calendar. Methods
+ * throw "Calendar not connected" when the user has no active credential for
+ * this provider.
+ */
+export interface CalendarProviderAdapter {
+  readonly provider: CalendarProvider;
+  readonly authType: 'oauth' | 'password';
+  // OAuth providers: the consent page, which returns `userId` as the state
+  getAuthUrl?(userId: string): string;
+  // Finish connecting with an OAuth code, or check and save account credentials
+  connect(userId: string, input: ConnectInput): Promise<void>;
+  disconnect(userId: string): Promise<void>;
+  listCalendars(userId: string): Promise<CalendarInfo[]>;
+  listEvents(userId: string, calendarId: string, timeMin: Date, timeMax: Date): Promise<ProviderEvent[]>;
+  getBusyTimes(
+    userId: string,
+    calendarIds: string[],
+    timeMin: Date,
+    timeMax: Date
+  ): Promise<Record<string, BusyTime[]>>;
+  createEvent(userId: string, calendarId: string, event: ProviderEventInput): Promise<ProviderEventRef>;
+  updateEvent(
+    userId: string,
+    calendarId: string,
+    eventId: string,
+    event: ProviderEventInput
+  ): Promise<ProviderEventRef>;
+  deleteEvent(userId: string, calendarId: string, eventId: string): Promise<void>;
+}
+
+export interface CalendarConnection {
+  adapter: CalendarProviderAdapter;
+  credential: CalendarCredential;
+}
+
+/**
+ * Google Calendar through GoogleCalendarService
+ */
+export class GoogleCalendarAdapter implements CalendarProviderAdapter {
+  readonly provider = CalendarProvider.GOOGLE;
+  readonly authType = 'oauth' as const;
+
+  getAuthUrl(userId: string): string {
+    return googleCalendarService.getAuthUrl(userId);
+  }
+
+  async connect(userId: string, input: ConnectInput): Promise<void> {
+    if (!('code' in input)) {
+      throw new Error('Google Calendar connects through OAuth');
+    }
+    await googleCalendarService.handleCallback(input.code, userId);
+  }
+
+  async disconnect(userId: string): Promise<void> {
+    await googleCalendarService.revokeAccess(userId);
+  }
+
+  async listCalendars(userId: string): Promise<CalendarInfo[]> {
+    return googleCalendarService.listCalendars(userId);
+  }
+
+  async listEvents(userId: string, calendarId: string, timeMin: Date, timeMax: Date): Promise<ProviderEvent[]> {
+    const events = await googleCalendarService.getEvents(userId, calendarId, timeMin, timeMax);
+    return events
+      .filter((event) => event.id && event.status !== 'cancelled' && (event.start?.dateTime || event.start?.date))
+      .map((event) => {
+        const allDay = !event.start?.dateTime;
+        return {
+          id: event.id!,
+          summary: event.summary || null,
+          start: new Date(event.start?.dateTime || `${event.start?.date}T00:00:00Z`),
+          end: new Date(event.end?.dateTime || `${event.end?.date ?? event.start?.date}T00:00:00Z`),
+          allDay,
+          busy: event.transparency !== 'transparent',
+        };
+      });
+  }
+
+  async getBusyTimes(
+    userId: string,
+    calendarIds: string[],
+    timeMin: Date,
+    timeMax: Date
+  ): Promise<Record<string, BusyTime[]>> {
+    return googleCalendarService.getBusyTimes(userId, calendarIds, timeMin, timeMax);
+  }
+
+  async createEvent(userId: string, calendarId: string, event: ProviderEventInput): Promise<ProviderEventRef> {
+    const created = await googleCalendarService.createEvent(userId, calendarId, this.toGoogleEvent(event));
+    return { id: created.id || '', etag: created.etag || null };
+  }
+
+  async updateEvent(
+    userId: string,
+    calendarId: string,
+    eventId: string,
+    event: ProviderEventInput
+  ): Promise<ProviderEventRef> {
+    const updated = await googleCalendarService.updateEvent(userId, calendarId, eventId, this.toGoogleEvent(event));
+    return { id: updated.id || eventId, etag: updated.etag || null };
+  }
+
+  async deleteEvent(userId: string, calendarId: string, eventId: string): Promise<void> {
+    await googleCalendarService.deleteEvent(userId, calendarId, eventId);
+  }
+
+  private toGoogleEvent(event: ProviderEventInput) {
+    return {
+      summary: event.summary,
+      description: event.description,
+      location: event.location,
+      start: { dateTime: event.start.toISOString(), timeZone: event.timeZone },
+      end: { dateTime: event.end.toISOString(), timeZone: event.timeZone },
+      status: event.cancelled ? ('cancelled' as const) : ('confirmed' as const),
+    };
+  }
+}
+
+const ICLOUD_CALDAV_URL = 'https://caldav.icloud.com/';
+
+const adapters: Record<CalendarProvider, CalendarProviderAdapter> = {
+  GOOGLE: new GoogleCalendarAdapter(),
+  APPLE: new CalDAVCalendarService(CalendarProvider.APPLE, ICLOUD_CALDAV_URL, 'icloud.com'),
+  CALDAV: new CalDAVCalendarService(CalendarProvider.CALDAV),
+  OUTLOOK: microsoftCalendarService,
+};
+
+/**
+ * The adapter for a provider
+ */
+export function getCalendarProvider(provider: CalendarProvider): CalendarProviderAdapter {
+  return adapters[provider];
+}
+
+/**
+ * The user's connected calendar and its adapter, or null if none is active
+ */
+export async function getCalendarConnection(userId: string): Promise<CalendarConnection | null> {
+  const credential = await prisma.calendarCredential.findUnique({ where: { userId } });
+  if (!credential?.isActive) {
+    return null;
+  }
+  return { adapter: getCalendarProvider(credential.provider), credential };
+}
+
+/**
+ * Disconnect whichever calendar the user has, including one whose login stopped working
+ */
+export async function disconnectCalendar(userId: string): Promise<void> {
+  const credential = await prisma.calendarCredential.findUnique({ where: { userId }, select: { provider: true } });
+  if (credential) {
+    await getCalendarProvider(credential.provider).disconnect(userId);
+  }
+}
+
+/**
+ * Add or update an app event in the user's connected calendar
+ * Google goes through GoogleCalendarService so two-way sync state is kept;
+ * other providers get the event written and linked here.
+ */
+export async function syncEventToProvider(
+  userId: string,
+  connection: CalendarConnection,
+  appEvent: {
+    id: string;
+    title: string;
+    description?: string | null;
+    date: Date;
+    startTime: string;
+    endTime: string;
+    timezone: string;
+    locationName?: string | null;
+    locationAddress?: string | null;
+    status: string;
+    calendarEventId?: string | null;
+  }
+): Promise<string> {
+  if (connection.credential.provider === CalendarProvider.GOOGLE) {
+    return googleCalendarService.syncEventToCalendar(userId, {
+      ...appEvent,
+      description: appEvent.description || undefined,
+      locationName: appEvent.locationName || undefined,
+      locationAddress: appEvent.locationAddress || undefined,
+    });
+  }
+
+  const { start, end } = resolveEventTimes(appEvent.date, appEvent.startTime, appEvent.endTime, appEvent.timezone);
+  const input: ProviderEventInput = {
+    uid: appEvent.id,
+    summary: appEvent.title,
+    description: appEvent.description || undefined,
+    location: appEvent.locationAddress || appEvent.locationName || undefined,
+    start,
+    end,
+    timeZone: appEvent.timezone,
+    cancelled: appEvent.status === 'CANCELLED',
+  };
+
+  const saved = appEvent.calendarEventId
+    ? await connection.adapter.updateEvent(userId, 'primary', appEvent.calendarEventId, input)
+    : await connection.adapter.createEvent(userId, 'primary', input);
+
+  await prisma.event.update({
+    where: { id: appEvent.id },
+    data: { calendarEventId: saved.id, calendarEtag: saved.etag },
+  });
+
+  return saved.id;
+}
@@ -0,0 +1,434 @@
+import {
+  CalendarConflictPolicy,
+  CalendarConflictStatus,
+  CalendarSyncConflict,
+  CalendarSyncLog,
+  CalendarSyncStatus,
+  Event,
+  EventStatus,
+  Prisma,
+} from '@prisma/client';
+import { calendar_v3 } from 'googleapis';
+import { prisma } from '../lib/prisma';
+import {
+  SyncAction,
+  SyncedField,
+  SyncedFields,
+  changedFields,
+  decideSync,
+  eventSyncFields,
+  googleEventSyncFields,
+  resolveSyncAction,
+  syncHash,
+} from '../utils/calendarSync';
+import { CalendarChanges, googleCalendarService } from './googleCalendarService';
+
+// A RUNNING sync that hasn't finished in this long is assumed dead
+const STALE_AFTER_MS = 5 * 60 * 1000;
+const DEFAULT_LOG_LIMIT = 20;
+
+export interface SyncChange {
+  eventId: string;
+  title: string;
+  action: 'pulled' | 'pushed' | 'conflict';
+  // Empty for a push when Google's copy hadn't changed and so wasn't fetched
+  fields: SyncedField[];
+}
+
+export interface SyncAllResult {
+  users: number;
+  failed: number;
+}
+
+type LinkedEvent = Event & { calendarConflicts: CalendarSyncConflict[] };
+
+// Rethrown as-is so controllers can map them to 4xx responses
+export const CALENDAR_SYNC_ERRORS = [
+  'Calendar not connected',
+  'Calendar sync is already running',
+  'Event not found',
+  'Conflict not found',
+  'Conflict already resolved',
+  'Two-way sync is only available for Google Calendar',
+];
+
+/**
+ * Two-way sync between SoCap events and the user's primary Google Calendar
+ * Pulls what changed in Google since the last run using sync tokens, pushes
+ * events edited in SoCap, and settles events changed on both sides with the
+ * user's conflict policy. Only events already linked to Google take part.
+ */
+export class CalendarSyncService {
+  /**
+   * Run a sync for one user and return its log entry
+   */
+  static async sync(userId: string): Promise<CalendarSyncLog> {
+    const credential = await prisma.calendarCredential.findUnique({ where: { userId } });
+    if (!credential?.isActive) {
+      throw new Error('Calendar not connected');
+    }
+    if (credential.provider !== 'GOOGLE') {
+      throw new Error('Two-way sync is only available for Google Calendar');
+    }
+
+    const run = await this.startRun(userId);
+    const changes: SyncChange[] = [];
+    const errors: string[] = [];
+
+    try {
+      let fullSync = !credential.syncToken;
+      let result: CalendarChanges;
+      try {
+        result = await googleCalendarService.listChanges(userId, 'primary', credential.syncToken);
+      } catch (error) {
+        if (!(error instanceof Error && error.message === 'Sync token expired')) throw error;
+        fullSync = true;
+        result = await googleCalendarService.listChanges(userId, 'primary', null);
+      }
+
+      const googleEvents = new Map(result.events.filter((event) => event.id).map((event) => [event.id!, event]));
+      const events = await prisma.event.findMany({
+        where: { userId, calendarEventId: { not: null } },
+        include: { calendarConflicts: { where: { status: CalendarConflictStatus.PENDING } } },
+      });
+
+      for (const event of events) {
+        try {
+          const change = await this.reconcile(
+            userId,
+            event,
+            googleEvents.get(event.calendarEventId!),
+            credential.conflictPolicy
+          );
+          if (change) changes.push(change);
+        } catch (error) {
+          errors.push(`${event.title}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      // Keep the old token after a failure, so the same changes are listed again next time
+      await prisma.calendarCredential.update({
+        where: { userId },
+        data: {
+          syncToken: errors.length ? credential.syncToken : result.nextSyncToken,
+          lastSyncAt: new Date(),
+        },
+      });
+
+      return await prisma.calendarSyncLog.update({
+        where: { id: run.id },
+        data: {
+          status: errors.length ? CalendarSyncStatus.PARTIAL : CalendarSyncStatus.SUCCESS,
+          fullSync,
+          pulled: changes.filter((change) => change.action === 'pulled').length,
+          pushed: changes.filter((change) => change.action === 'pushed').length,
+          conflicts: changes.filter((change) => change.action === 'conflict').length,
+          changes: changes as unknown as Prisma.InputJsonValue,
+          errors,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await prisma.calendarSyncLog.update({
+        where: { id: run.id },
+        data: {
+          status: CalendarSyncStatus.FAILED,
+          changes: changes as unknown as Prisma.InputJsonValue,
+          errors: [...errors, message],
+          completedAt: new Date(),
+        },
+      });
+      throw new Error(`Failed to sync calendar: ${message}`);
+    }
+  }
+
+  /**
+   * Sync every user with an active Google connection (used by the cron job)
+   */
+  static async syncAll(): Promise<SyncAllResult> {
+    const credentials = await prisma.calendarCredential.findMany({
+      where: { isActive: true, provider: 'GOOGLE' },
+      select: { userId: true },
+    });
+
+    let failed = 0;
+    for (const { userId } of credentials) {
+      try {
+        await this.sync(userId);
+      } catch (error) {
+        failed++;
+        console.error(`[CalendarSync] Error syncing user ${userId}:`, error);
+      }
+    }
+
+    return { users: credentials.length, failed };
+  }
+
+  /**
+   * Recent sync runs, newest first
+   */
+  static async getLog(userId: string, limit: number = DEFAULT_LOG_LIMIT): Promise<CalendarSyncLog[]> {
+    try {
+      return await prisma.calendarSyncLog.findMany({
+        where: { userId },
+        orderBy: { startedAt: 'desc' },
+        take: limit,
+      });
+    } catch (error) {
+      throw new Error(`Failed to get sync log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Conflicts waiting for the user to pick a side
+   */
+  static async getConflicts(userId: string) {
+    try {
+      return await prisma.calendarSyncConflict.findMany({
+        where: { userId, status: CalendarConflictStatus.PENDING },
+        include: { event: { select: { id: true, title: true, date: true, timezone: true } } },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      throw new Error(`Failed to get sync conflicts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Settle a conflict by keeping the SoCap or the Google version
+   */
+  static async resolveConflict(
+    userId: string,
+    conflictId: string,
+    resolution: Exclude<CalendarConflictPolicy, 'ASK'>
+  ): Promise<CalendarSyncConflict> {
+    try {
+      const conflict = await prisma.calendarSyncConflict.findFirst({
+        where: { id: conflictId, userId },
+        include: { event: true },
+      });
+      if (!conflict) {
+        throw new Error('Conflict not found');
+      }
+      if (conflict.status === CalendarConflictStatus.RESOLVED) {
+        throw new Error('Conflict already resolved');
+      }
+
+      if (resolution === CalendarConflictPolicy.GOOGLE_WINS) {
+        const googleVersion = conflict.googleVersion as unknown as SyncedFields;
+        await this.applyGoogleVersion(conflict.event, googleVersion, conflict.googleEtag);
+      } else {
+        await this.pushEvent(userId, conflict.event);
+      }
+
+      return await prisma.calendarSyncConflict.update({
+        where: { id: conflict.id },
+        data: { status: CalendarConflictStatus.RESOLVED, resolution, resolvedAt: new Date() },
+      });
+    } catch (error) {
+      if (error instanceof Error && CALENDAR_SYNC_ERRORS.includes(error.message)) {
+        throw error;
+      }
+      throw new Error(`Failed to resolve conflict: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * The user's conflict policy and when they last synced, or null if not connected
+   */
+  static async getSettings(
+    userId: string
+  ): Promise<{ conflictPolicy: CalendarConflictPolicy; lastSyncAt: Date | null } | null> {
+    const credential = await prisma.calendarCredential.findUnique({
+      where: { userId },
+      select: { isActive: true, conflictPolicy: true, lastSyncAt: true },
+    });
+    return credential?.isActive
+      ? { conflictPolicy: credential.conflictPolicy, lastSyncAt: credential.lastSyncAt }
+      : null;
+  }
+
+  /**
+   * Change how conflicts are settled from the next sync on
+   */
+  static async updateSettings(userId: string, conflictPolicy: CalendarConflictPolicy): Promise<CalendarConflictPolicy> {
+    const { count } = await prisma.calendarCredential.updateMany({
+      where: { userId, isActive: true },
+      data: { conflictPolicy },
+    });
+    if (count === 0) {
+      throw new Error('Calendar not connected');
+    }
+    return conflictPolicy;
+  }
+
+  /**
+   * Forget an event's Google link after it was removed from the calendar
+   */
+  static async unlinkEvent(userId: string, eventId: string): Promise<void> {
+    const { count } = await prisma.event.updateMany({
+      where: { id: eventId, userId },
+      data: { calendarEventId: null, calendarEtag: null, calendarSyncHash: null },
+    });
+    if (count === 0) {
+      throw new Error('Event not found');
+    }
+    await prisma.calendarSyncConflict.deleteMany({
+      where: { eventId, status: CalendarConflictStatus.PENDING },
+    });
+  }
+
+  private static async startRun(userId: string): Promise<CalendarSyncLog> {
+    const running = await prisma.calendarSyncLog.findFirst({
+      where: { userId, status: CalendarSyncStatus.RUNNING },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    if (running) {
+      if (Date.now() - running.updatedAt.getTime() < STALE_AFTER_MS) {
+        throw new Error('Calendar sync is already running');
+      }
+      await prisma.calendarSyncLog.update({
+        where: { id: running.id },
+        data: {
+          status: CalendarSyncStatus.FAILED,
+          errors: [...running.errors, 'Interrupted'],
+          completedAt: new Date(),
+        },
+      });
+    }
+
+    return prisma.calendarSyncLog.create({ data: { userId } });
+  }
+
+  /**
+   * Bring one linked event and its Google copy back in line
+   * An event missing from the changes (or with the etag we last saw) is
+   * unchanged in Google since both sides last agreed.
+   */
+  private static async reconcile(
+    userId: string,
+    event: LinkedEvent,
+    googleEvent: calendar_v3.Schema$Event | undefined,
+    policy: CalendarConflictPolicy
+  ): Promise<SyncChange | null> {
+    const local = eventSyncFields(event);
+    const remote =
+      googleEvent && googleEvent.etag !== event.calendarEtag
+        ? googleEventSyncFields(googleEvent, local, event.timezone)
+        : null;
+    const pending = event.calendarConflicts[0];
+
+    let action: SyncAction = remote
+      ? resolveSyncAction(decideSync(event.calendarSyncHash, local, remote), policy)
+      : syncHash(local) === event.calendarSyncHash
+        ? 'none'
+        : 'push';
+    // Leave an event with an open conflict alone until the user settles it
+    if (pending && action !== 'none') action = 'ask';
+
+    const change = (kind: SyncChange['action'], fields: SyncedField[]): SyncChange => ({
+      eventId: event.id,
+      title: event.title,
+      action: kind,
+      fields,
+    });
+
+    switch (action) {
+      case 'pull':
+        await this.applyGoogleVersion(event, remote!, googleEvent!.etag);
+        return change('pulled', changedFields(local, remote!));
+
+      case 'push':
+        await this.pushEvent(userId, event);
+        return change('pushed', remote ? changedFields(remote, local) : []);
+
+      case 'ask': {
+        // Without a new Google version this is a pending conflict; only SoCap edits are news
+        if (!remote && syncHash(local) === syncHash(pending!.socapVersion as unknown as SyncedFields)) {
+          return null;
+        }
+        const googleVersion = remote ?? (pending!.googleVersion as unknown as SyncedFields);
+        const data = {
+          googleEventId: event.calendarEventId!,
+          socapVersion: local as unknown as Prisma.InputJsonValue,
+          googleVersion: googleVersion as unknown as Prisma.InputJsonValue,
+          googleEtag: remote ? (googleEvent!.etag ?? null) : pending!.googleEtag,
+        };
+        if (pending) {
+          await prisma.calendarSyncConflict.update({ where: { id: pending.id }, data });
+        } else {
+          await prisma.calendarSyncConflict.create({ data: { ...data, userId, eventId: event.id } });
+        }
+        return change('conflict', changedFields(local, googleVersion));
+      }
+
+      default:
+        // Both sides agree, whatever happened in between
+        if (pending) {
+          await prisma.calendarSyncConflict.update({
+            where: { id: pending.id },
+            data: { status: CalendarConflictStatus.RESOLVED, resolvedAt: new Date() },
+          });
+        }
+        if (remote && syncHash(remote) !== event.calendarSyncHash) {
+          await prisma.event.update({
+            where: { id: event.id },
+            data: { calendarEtag: googleEvent!.etag ?? null, calendarSyncHash: syncHash(remote) },
+          });
+        }
+        return null;
+    }
+  }
+
+  /**
+   * Write Google's version of the synced fields into the event
+   * A location from Google is plain text, so the place details that went with
+   * the old one are cleared.
+   */
+  private static async applyGoogleVersion(
+    event: Event,
+    fields: SyncedFields,
+    etag: string | null | undefined
+  ): Promise<void> {
+    const changed = changedFields(eventSyncFields(event), fields);
+    const data: Prisma.EventUpdateInput = {
+      calendarEtag: etag ?? null,
+      calendarSyncHash: syncHash(fields),
+      updatedAt: new Date(),
+    };
+
+    if (changed.includes('date')) data.date = new Date(`${fields.date}T00:00:00.000Z`);
+    if (changed.includes('startTime')) data.startTime = fields.startTime;
+    if (changed.includes('endTime')) data.endTime = fields.endTime;
+    if (changed.includes('location')) {
+      data.locationName = fields.location;
+      data.locationAddress = null;
+      data.locationPlaceId = null;
+      data.locationLat = null;
+      data.locationLng = null;
+    }
+    if (changed.includes('cancelled')) {
+      data.status = fields.cancelled ? EventStatus.CANCELLED : EventStatus.CONFIRMED;
+    }
+
+    await prisma.event.update({ where: { id: event.id }, data });
+  }
+
+  private static async pushEvent(userId: string, event: Event): Promise<void> {
+    await googleCalendarService.syncEventToCalendar(userId, {
+      id: event.id,
+      title: event.title,
+      description: event.description || undefined,
+      date: event.date,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      timezone: event.timezone,
+      locationName: event.locationName || undefined,
+      locationAddress: event.locationAddress || undefined,
+      status: event.status,
+      calendarEventId: event.calendarEventId,
+    });
+  }
+}
@@ -0,0 +1,234 @@
+import { ImportSource, RelationshipTier } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { decryptContactFields } from '../middleware/encryption';
+import {
+  ColumnMapping,
+  ContactFileFormat,
+  ContactRecord,
+  ExportContact,
+  MAX_IMPORT_ROWS,
+  contactsToCsv,
+  contactsToVCards,
+  isYearlessDate,
+  normalizeTier,
+  parseContactDate,
+  readCsvContacts,
+  readVCardContacts,
+} from '../utils/contactFiles';
+import { VCardVersion } from '../utils/vcard';
+import { ContactService, ImportContactData, ImportSummary } from './contactService';
+
+export interface ImportRowResult {
+  row: number;
+  name: string;
+  // What would be imported; null when the row has errors
+  contact: ImportContactData | null;
+  errors: string[];
+  // Data left out of an otherwise fine row
+  warnings: string[];
+}
+
+export interface FileImportPreview {
+  format: ContactFileFormat;
+  // CSV only: the file's headers and the mapping used to read it
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportRowResult[];
+  valid: number;
+  invalid: number;
+}
+
+export interface FileImportSummary extends ImportSummary {
+  invalid: number;
+  errors: Array<{ row: number; errors: string[] }>;
+}
+
+export interface ContactFileExport {
+  filename: string;
+  contentType: string;
+  body: string;
+  count: number;
+}
+
+// Problems with the file itself, rethrown as-is (matched by prefix)
+export const CONTACT_FILE_ERRORS = ['No contacts found in file', 'Too many contacts', 'Column not found'];
+
+const MAX_NAME_LENGTH = 200;
+const MAX_BIO_LENGTH = 500;
+
+const DATE_LABELS = { birthday: 'Birthday', anniversary: 'Anniversary' } as const;
+
+/**
+ * Importing contacts from vCard and CSV files, and exporting them back out
+ */
+export class ContactFileService {
+  /**
+   * Read and validate a file without importing anything
+   */
+  static preview(content: string, format: ContactFileFormat, mapping?: ColumnMapping): FileImportPreview {
+    const { headers, mapping: usedMapping, records } =
+      format === 'csv'
+        ? readCsvContacts(content, mapping)
+        : { headers: [], mapping: {}, records: readVCardContacts(content) };
+
+    if (records.length === 0) {
+      throw new Error('No contacts found in file');
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Too many contacts: ${records.length} (at most ${MAX_IMPORT_ROWS} per file)`);
+    }
+
+    const rows = records.map((record) => this.validateRecord(record));
+    const valid = rows.filter((row) => row.contact).length;
+
+    return { format, headers, mapping: usedMapping, rows, valid, invalid: rows.length - valid };
+  }
+
+  /**
+   * Import a file's valid rows
+   * Rows with errors are reported back and skipped; the rest go through the
+   * regular import, so contacts already saved are counted as duplicates.
+   */
+  static async importFile(
+    userId: string,
+    content: string,
+    format: ContactFileFormat,
+    mapping?: ColumnMapping
+  ): Promise<FileImportSummary> {
+    try {
+      const { rows, invalid } = this.preview(content, format, mapping);
+      const contacts = rows.flatMap((row) => (row.contact ? [row.contact] : []));
+
+      const summary: ImportSummary = contacts.length
+        ? await ContactService.importContacts(userId, contacts)
+        : { created: 0, skipped: 0, duplicates: 0, contacts: [] };
+
+      return {
+        ...summary,
+        invalid,
+        errors: rows.filter((row) => row.errors.length > 0).map(({ row, errors }) => ({ row, errors })),
+      };
+    } catch (error) {
+      if (error instanceof Error && CONTACT_FILE_ERRORS.some((prefix) => error.message.startsWith(prefix))) {
+        throw error;
+      }
+      throw new Error(`Failed to import contacts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * All of a user's contacts as a vCard or CSV file
+   */
+  static async exportContacts(
+    userId: string,
+    format: ContactFileFormat,
+    version: VCardVersion = '3.0'
+  ): Promise<ContactFileExport> {
+    try {
+      const contacts = await prisma.contact.findMany({
+        where: { userId, isDeleted: false },
+        include: { relationships: { where: { userId }, take: 1 } },
+        orderBy: { name: 'asc' },
+      });
+
+      const rows: ExportContact[] = contacts.map(({ relationships, ...contact }) => {
+        const decrypted = decryptContactFields(contact);
+        return {
+          name: decrypted.name,
+          phone: decrypted.phone,
+          email: decrypted.email,
+          birthday: decrypted.birthday,
+          anniversary: decrypted.anniversary,
+          notes: decrypted.notes,
+          bio: decrypted.bio,
+          profileImage: decrypted.profileImage,
+          tier: relationships[0]?.tier ?? null,
+          sharedInterests: relationships[0]?.sharedInterests ?? [],
+        };
+      });
+
+      const filename = `socap-contacts-${new Date().toISOString().slice(0, 10)}`;
+      return format === 'csv'
+        ? {
+            filename: `${filename}.csv`,
+            contentType: 'text/csv; charset=utf-8',
+            body: contactsToCsv(rows),
+            count: rows.length,
+          }
+        : {
+            filename: `${filename}.vcf`,
+            contentType: 'text/vcard; charset=utf-8',
+            body: contactsToVCards(rows, version),
+            count: rows.length,
+          };
+    } catch (error) {
+      throw new Error(`Failed to export contacts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Check a record against the same rules as creating a contact by hand
+   */
+  private static validateRecord(record: ContactRecord): ImportRowResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!record.name) {
+      errors.push('Name is required');
+    } else if (record.name.length > MAX_NAME_LENGTH) {
+      errors.push('Name is too long');
+    }
+    if (!record.phone && !record.email) {
+      errors.push('A phone number or email is required');
+    }
+    if (record.email && !z.email().safeParse(record.email).success) {
+      errors.push(`Invalid email: ${record.email}`);
+    }
+    if (record.bio && record.bio.length > MAX_BIO_LENGTH) {
+      errors.push('Bio is too long');
+    }
+
+    const dates: { birthday?: Date; anniversary?: Date } = {};
+    for (const field of ['birthday', 'anniversary'] as const) {
+      const value = record[field];
+      if (!value) continue;
+
+      if (isYearlessDate(value)) {
+        warnings.push(`${DATE_LABELS[field]} has no year and was left out`);
+        continue;
+      }
+      const date = parseContactDate(value);
+      if (date) dates[field] = date;
+      else errors.push(`Invalid ${field}: ${value}`);
+    }
+
+    let tier: RelationshipTier | undefined;
+    if (record.tier) {
+      const normalized = normalizeTier(record.tier);
+      if (normalized in RelationshipTier) tier = normalized as RelationshipTier;
+      else warnings.push(`Unknown tier "${record.tier}", the default was used`);
+    }
+
+    return {
+      row: record.row,
+      name: record.name,
+      contact: errors.length
+        ? null
+        : {
+            name: record.name,
+            phone: record.phone ?? undefined,
+            email: record.email ?? undefined,
+            profileImage: record.profileImage ?? undefined,
+            bio: record.bio ?? undefined,
+            notes: record.notes ?? undefined,
+            ...dates,
+            importSource: ImportSource.FILE,
+            tier,
+            sharedInterests: record.sharedInterests,
+          },
+      errors,
+      warnings,
+    };
+  }
+}
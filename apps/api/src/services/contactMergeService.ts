@@ -0,0 +1,352 @@
+import { Contact, Prisma, Relationship, RSVPStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { decryptContactFields, encryptContactFields } from '../middleware/encryption';
+import { contactBlindIndexes } from '../utils/blindIndex';
+import {
+  DuplicatePair,
+  findDuplicatePairs,
+  mergeConflicts,
+  MergeChoice,
+  MergeField,
+  MergeFieldChoices,
+  resolveMergedFields,
+} from '../utils/contactDuplicates';
+import { RelationshipService } from './relationshipService';
+
+const MAX_DUPLICATE_CANDIDATES = 50;
+
+export interface DuplicateCandidate extends DuplicatePair {
+  contacts: [Contact, Contact];
+  // Fields both contacts fill in differently, for the user to pick from
+  conflicts: MergeField[];
+}
+
+export interface MergeContactsData {
+  duplicateId: string;
+  fields?: MergeFieldChoices;
+  // Whose tier, type, frequency and label the merged relationship keeps
+  relationship?: MergeChoice;
+}
+
+export interface MergeSummary {
+  contact: Contact;
+  fromDuplicate: MergeField[];
+  moved: {
+    interactions: number;
+    eventAttendees: number;
+    reminders: number;
+    aiInsights: number;
+    followUps: number;
+  };
+  // Rows dropped because the survivor already had the same one
+  removed: {
+    interactions: number;
+    eventAttendees: number;
+    occurrenceRsvps: number;
+    pollVotes: number;
+  };
+}
+
+// Errors thrown before any data changes, rethrown as-is
+const MERGE_ERRORS = ['Contact not found', 'Cannot merge a contact into itself'];
+
+/**
+ * Finding and merging contacts that are the same person
+ */
+export class ContactMergeService {
+  /**
+   * Likely duplicates among the user's contacts, most likely first
+   */
+  static async findDuplicates(userId: string): Promise<DuplicateCandidate[]> {
+    try {
+      const contacts = await prisma.contact.findMany({
+        where: { userId, isDeleted: false },
+        orderBy: { createdAt: 'asc' },
+      });
+      const byId = new Map(contacts.map((contact) => [contact.id, contact]));
+
+      return findDuplicatePairs(contacts)
+        .slice(0, MAX_DUPLICATE_CANDIDATES)
+        .map((pair) => {
+          // Oldest first, as the suggested survivor
+          const [a, b] = pair.contactIds
+            .map((id) => decryptContactFields(byId.get(id)!) as Contact)
+            .sort((x, y) => x.createdAt.getTime() - y.createdAt.getTime());
+          return { ...pair, contactIds: [a.id, b.id], contacts: [a, b], conflicts: mergeConflicts(a, b) };
+        });
+    } catch (error) {
+      throw new Error(`Failed to find duplicate contacts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Merge a duplicate into the surviving contact
+   * Interactions, event attendance, reminders, AI insights and follow-ups move to
+   * the survivor, the two relationships become one, and the duplicate is
+   * soft-deleted with a pointer to the survivor.
+   */
+  static async mergeContacts(userId: string, survivorId: string, data: MergeContactsData): Promise<MergeSummary> {
+    try {
+      if (survivorId === data.duplicateId) {
+        throw new Error('Cannot merge a contact into itself');
+      }
+
+      const [survivor, duplicate] = await Promise.all(
+        [survivorId, data.duplicateId].map((id) =>
+          prisma.contact.findFirst({ where: { id, userId, isDeleted: false } })
+        )
+      );
+      if (!survivor || !duplicate) {
+        throw new Error('Contact not found');
+      }
+
+      const { data: fields, fromDuplicate } = resolveMergedFields(
+        decryptContactFields(survivor),
+        decryptContactFields(duplicate),
+        data.fields
+      );
+
+      const summary = await prisma.$transaction(async (tx) => {
+        const { relationshipId, interactions, removedInteractions } = await this.mergeRelationships(
+          tx,
+          userId,
+          survivor.id,
+          duplicate.id,
+          data.relationship ?? 'survivor'
+        );
+        const attendees = await this.mergeAttendees(tx, survivor.id, duplicate.id);
+
+        const moveTo = { where: { contactId: duplicate.id }, data: { contactId: survivor.id } };
+        const [reminders, aiInsights, followUps] = await Promise.all([
+          tx.reminder.updateMany(moveTo),
+          tx.aIInsight.updateMany(moveTo),
+          tx.interactionFollowUp.updateMany(moveTo),
+        ]);
+
+        const contact = await tx.contact.update({
+          where: { id: survivor.id },
+          data: {
+            ...encryptContactFields(fields),
+            ...contactBlindIndexes({ phone: fields.phone ?? null, email: fields.email ?? null }),
+          } as Prisma.ContactUpdateInput,
+        });
+        await tx.contact.update({
+          where: { id: duplicate.id },
+          data: { isDeleted: true, mergedIntoId: survivor.id, phoneHash: null, emailHash: null },
+        });
+
+        return {
+          relationshipId,
+          result: {
+            contact: decryptContactFields(contact) as Contact,
+            fromDuplicate,
+            moved: {
+              interactions,
+              eventAttendees: attendees.moved,
+              reminders: reminders.count,
+              aiInsights: aiInsights.count,
+              followUps: followUps.count,
+            },
+            removed: {
+              interactions: removedInteractions,
+              eventAttendees: attendees.removed,
+              occurrenceRsvps: attendees.removedOccurrenceRsvps,
+              pollVotes: attendees.removedPollVotes,
+            },
+          },
+        };
+      });
+
+      if (summary.relationshipId) {
+        await RelationshipService.recalculateHealthScore(summary.relationshipId).catch((error) =>
+          console.warn('Health score recalculation after merge failed:', error)
+        );
+      }
+
+      return summary.result;
+    } catch (error) {
+      if (error instanceof Error && MERGE_ERRORS.includes(error.message)) {
+        throw error;
+      }
+      throw new Error(`Failed to merge contacts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Fold the duplicate's relationship into the survivor's, or hand it over if the survivor has none
+   */
+  private static async mergeRelationships(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    survivorId: string,
+    duplicateId: string,
+    keepSettingsOf: MergeChoice
+  ): Promise<{ relationshipId: string | null; interactions: number; removedInteractions: number }> {
+    const [keep, drop] = await Promise.all(
+      [survivorId, duplicateId].map((contactId) =>
+        tx.relationship.findUnique({ where: { userId_contactId: { userId, contactId } } })
+      )
+    );
+
+    if (!drop) {
+      return { relationshipId: keep?.id ?? null, interactions: 0, removedInteractions: 0 };
+    }
+    if (!keep) {
+      await tx.relationship.update({ where: { id: drop.id }, data: { contactId: survivorId } });
+      const interactions = await tx.interaction.count({ where: { relationshipId: drop.id } });
+      return { relationshipId: drop.id, interactions, removedInteractions: 0 };
+    }
+
+    // A synced call logged against both contacts is the same call; keep one copy
+    const keptSynced = await tx.interaction.findMany({
+      where: { relationshipId: keep.id, externalId: { not: null } },
+      select: { source: true, externalId: true },
+    });
+    const removed = keptSynced.length
+      ? await tx.interaction.deleteMany({
+          where: {
+            relationshipId: drop.id,
+            OR: keptSynced.map(({ source, externalId }) => ({ source, externalId })),
+          },
+        })
+      : { count: 0 };
+
+    const moved = await tx.interaction.updateMany({
+      where: { relationshipId: drop.id },
+      data: { relationshipId: keep.id },
+    });
+
+    const settings: Relationship = keepSettingsOf === 'duplicate' ? drop : keep;
+    const importantDates = [...keep.importantDates, ...drop.importantDates].filter(
+      (date, index, all) => all.findIndex((other) => JSON.stringify(other) === JSON.stringify(date)) === index
+    );
+    const lastContactDate = [keep.lastContactDate, drop.lastContactDate]
+      .filter((date): date is Date => date !== null)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+
+    await tx.relationship.delete({ where: { id: drop.id } });
+    await tx.relationship.update({
+      where: { id: keep.id },
+      data: {
+        tier: settings.tier,
+        relationshipType: settings.relationshipType,
+        communicationFrequency: settings.communicationFrequency,
+        customLabel: settings.customLabel,
+        sharedInterests: Array.from(new Set([...keep.sharedInterests, ...drop.sharedInterests])),
+        importantDates: importantDates as Prisma.InputJsonValue[],
+        lastContactDate: lastContactDate ?? null,
+      },
+    });
+
+    return { relationshipId: keep.id, interactions: moved.count, removedInteractions: removed.count };
+  }
+
+  /**
+   * Move the duplicate's event invitations over
+   * Where both were invited to the same event, the invitation with an answer wins,
+   * the survivor's when both or neither answered. The losing invitation's
+   * occurrence RSVPs, poll votes and email history move to the winner before it's deleted.
+   */
+  private static async mergeAttendees(
+    tx: Prisma.TransactionClient,
+    survivorId: string,
+    duplicateId: string
+  ): Promise<{ moved: number; removed: number; removedOccurrenceRsvps: number; removedPollVotes: number }> {
+    const [kept, incoming] = await Promise.all(
+      [survivorId, duplicateId].map((contactId) =>
+        tx.eventAttendee.findMany({ where: { contactId }, select: { id: true, eventId: true, rsvpStatus: true } })
+      )
+    );
+    const keptByEvent = new Map(kept.map((attendee) => [attendee.eventId, attendee]));
+
+    let moved = 0;
+    let removed = 0;
+    let removedOccurrenceRsvps = 0;
+    let removedPollVotes = 0;
+    for (const attendee of incoming) {
+      const existing = keptByEvent.get(attendee.eventId);
+      if (!existing) {
+        await tx.eventAttendee.update({ where: { id: attendee.id }, data: { contactId: survivorId } });
+        moved++;
+        continue;
+      }
+
+      const incomingWins = existing.rsvpStatus === RSVPStatus.PENDING && attendee.rsvpStatus !== RSVPStatus.PENDING;
+      const [winner, loser] = incomingWins ? [attendee, existing] : [existing, attendee];
+      const dropped = await this.moveAttendeeRecords(tx, loser.id, winner.id);
+      removedOccurrenceRsvps += dropped.occurrenceRsvps;
+      removedPollVotes += dropped.pollVotes;
+      await tx.eventAttendee.delete({ where: { id: loser.id } });
+      if (incomingWins) {
+        await tx.eventAttendee.update({ where: { id: attendee.id }, data: { contactId: survivorId } });
+        moved++;
+      }
+      removed++;
+    }
+
+    return { moved, removed, removedOccurrenceRsvps, removedPollVotes };
+  }
+
+  /**
+   * Hand one invitation's occurrence RSVPs, poll votes and email deliveries to another for the same event
+   * Where both answered the same occurrence, the same rule as the invitations picks the one kept;
+   * where both voted on the same poll option, the receiving invitation's vote stays.
+   * Returns how many RSVPs and votes were dropped.
+   */
+  private static async moveAttendeeRecords(
+    tx: Prisma.TransactionClient,
+    fromAttendeeId: string,
+    toAttendeeId: string
+  ): Promise<{ occurrenceRsvps: number; pollVotes: number }> {
+    const [kept, incoming] = await Promise.all(
+      [toAttendeeId, fromAttendeeId].map((attendeeId) =>
+        tx.eventOccurrenceRSVP.findMany({
+          where: { attendeeId },
+          select: { id: true, occurrenceId: true, rsvpStatus: true },
+        })
+      )
+    );
+    const keptByOccurrence = new Map(kept.map((rsvp) => [rsvp.occurrenceId, rsvp]));
+
+    const dropIds: string[] = [];
+    const moveIds: string[] = [];
+    for (const rsvp of incoming) {
+      const existing = keptByOccurrence.get(rsvp.occurrenceId);
+      if (!existing) {
+        moveIds.push(rsvp.id);
+      } else if (existing.rsvpStatus === RSVPStatus.PENDING && rsvp.rsvpStatus !== RSVPStatus.PENDING) {
+        dropIds.push(existing.id);
+        moveIds.push(rsvp.id);
+      } else {
+        dropIds.push(rsvp.id);
+      }
+    }
+
+    if (dropIds.length) {
+      await tx.eventOccurrenceRSVP.deleteMany({ where: { id: { in: dropIds } } });
+    }
+    if (moveIds.length) {
+      await tx.eventOccurrenceRSVP.updateMany({ where: { id: { in: moveIds } }, data: { attendeeId: toAttendeeId } });
+    }
+
+    const keptOptionIds = (
+      await tx.schedulingPollVote.findMany({ where: { attendeeId: toAttendeeId }, select: { optionId: true } })
+    ).map((vote) => vote.optionId);
+    const droppedVotes = keptOptionIds.length
+      ? await tx.schedulingPollVote.deleteMany({
+          where: { attendeeId: fromAttendeeId, optionId: { in: keptOptionIds } },
+        })
+      : { count: 0 };
+    await tx.schedulingPollVote.updateMany({
+      where: { attendeeId: fromAttendeeId },
+      data: { attendeeId: toAttendeeId },
+    });
+
+    await tx.eventEmailDelivery.updateMany({
+      where: { attendeeId: fromAttendeeId },
+      data: { attendeeId: toAttendeeId },
+    });
+
+    return { occurrenceRsvps: dropIds.length, pollVotes: droppedVotes.count };
+  }
+}
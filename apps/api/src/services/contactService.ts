@@ -2,6 +2,7 @@ import { Prisma, Contact, ImportSource, RelationshipTier, RelationshipType, Comm
 import { prisma } from '../lib/prisma';
 import { PaginationParams, PaginatedResponse, getPaginationParams, createPaginatedResponse } from '../types/pagination';
 import { encryptContactFields, decryptContactFields } from '../middleware/encryption';
+import { blindIndex, contactBlindIndexes } from '../utils/blindIndex';
 
 export interface CreateContactData {
   name: string;
@@ -34,6 +35,12 @@ export interface ContactFilters {
   tier?: string;
 }
 
+// Relationship settings can come with an imported contact, e.g. from a SoCap export
+export interface ImportContactData extends CreateContactData {
+  tier?: RelationshipTier;
+  sharedInterests?: string[];
+}
+
 export interface ImportSummary {
   created: number;
   skipped: number;
@@ -64,6 +71,7 @@ export class ContactService {
           name: encryptedData.name,
           phone: encryptedData.phone || null,
           email: encryptedData.email || null,
+          ...contactBlindIndexes({ phone: data.phone ?? null, email: data.email ?? null }),
           profileImage: encryptedData.profileImage || null,
           birthday: encryptedData.birthday || null,
           anniversary: encryptedData.anniversary || null,
@@ -94,11 +102,7 @@ export class ContactService {
         userId,
         isDeleted: filters?.isDeleted ?? false,
         ...(filters?.importSource && { importSource: filters.importSource }),
-        // Note: Search only by name since email/phone are encrypted
-        // Encrypted fields cannot be searched directly in the database
-        ...(filters?.search && {
-          name: { contains: filters.search, mode: 'insensitive' },
-        }),
+        ...(filters?.search && { OR: this.searchConditions(filters.search) }),
       };
 
       const [contacts, total] = await Promise.all([
@@ -174,6 +178,7 @@ export class ContactService {
         where: { id: contactId },
         data: {
           ...encryptedData,
+          ...contactBlindIndexes(data),
           updatedAt: new Date(),
         },
       });
@@ -248,6 +253,7 @@ export class ContactService {
           name: encryptedData.name,
           phone: encryptedData.phone || null,
           email: encryptedData.email || null,
+          ...contactBlindIndexes({ phone: data.phone ?? null, email: data.email ?? null }),
           profileImage: encryptedData.profileImage || null,
           birthday: encryptedData.birthday || null,
           anniversary: encryptedData.anniversary || null,
@@ -299,13 +305,7 @@ export class ContactService {
         userId,
         isDeleted: filters?.isDeleted ?? false,
         ...(filters?.importSource && { importSource: filters.importSource }),
-        ...(filters?.search && {
-          OR: [
-            { name: { contains: filters.search, mode: 'insensitive' } },
-            { email: { contains: filters.search, mode: 'insensitive' } },
-            { phone: { contains: filters.search, mode: 'insensitive' } },
-          ],
-        }),
+        ...(filters?.search && { OR: this.searchConditions(filters.search) }),
         ...(filters?.tier && {
           relationships: {
             some: {
@@ -400,36 +400,34 @@ export class ContactService {
    */
   static async importContacts(
     userId: string,
-    contacts: CreateContactData[]
+    contacts: ImportContactData[]
   ): Promise<ImportSummary> {
     try {
       const created: Contact[] = [];
       const skipped: string[] = [];
       const duplicates: string[] = [];
 
-      for (const contactData of contacts) {
-        // Check for duplicates by phone or email
-        // Since fields are encrypted, we need to encrypt the search values first
-        let existingContact = null;
-        
-        if (contactData.phone || contactData.email) {
-          // Encrypt the values we're searching for
-          const encryptedPhone = contactData.phone ? encryptContactFields({ phone: contactData.phone }).phone : null;
-          const encryptedEmail = contactData.email ? encryptContactFields({ email: contactData.email }).email : null;
-
-          existingContact = await prisma.contact.findFirst({
-            where: {
-              userId,
-              isDeleted: false,
-              OR: [
-                ...(encryptedPhone ? [{ phone: encryptedPhone }] : []),
-                ...(encryptedEmail ? [{ email: encryptedEmail }] : []),
-              ],
-            },
-          });
-        }
+      // Match on blind indexes, since the encrypted values never compare equal
+      const indexed = contacts.map((contactData) => ({
+        contactData,
+        ...contactBlindIndexes({ phone: contactData.phone ?? null, email: contactData.email ?? null }),
+      }));
+      const phoneHashes = indexed.map(({ phoneHash }) => phoneHash).filter(Boolean) as string[];
+      const emailHashes = indexed.map(({ emailHash }) => emailHash).filter(Boolean) as string[];
 
-        if (existingContact) {
+      const existing = await prisma.contact.findMany({
+        where: {
+          userId,
+          isDeleted: false,
+          OR: [{ phoneHash: { in: phoneHashes } }, { emailHash: { in: emailHashes } }],
+        },
+        select: { phoneHash: true, emailHash: true },
+      });
+      // Also catches the same person listed twice in one import
+      const seen = new Set(existing.flatMap(({ phoneHash, emailHash }) => [phoneHash, emailHash]).filter(Boolean));
+
+      for (const { contactData, phoneHash, emailHash } of indexed) {
+        if ((phoneHash && seen.has(phoneHash)) || (emailHash && seen.has(emailHash))) {
           duplicates.push(contactData.name);
           continue;
         }
@@ -440,6 +438,9 @@ export class ContactService {
           continue;
         }
 
+        if (phoneHash) seen.add(phoneHash);
+        if (emailHash) seen.add(emailHash);
+
         try {
           // Encrypt sensitive fields
           const encryptedData = encryptContactFields(contactData);
@@ -450,7 +451,10 @@ export class ContactService {
               name: encryptedData.name,
               phone: encryptedData.phone || null,
               email: encryptedData.email || null,
+              phoneHash,
+              emailHash,
               profileImage: encryptedData.profileImage || null,
+              bio: encryptedData.bio || null,
               birthday: encryptedData.birthday || null,
               anniversary: encryptedData.anniversary || null,
               notes: encryptedData.notes || null,
@@ -463,11 +467,11 @@ export class ContactService {
             data: {
               userId,
               contactId: contact.id,
-              tier: RelationshipTier.ACQUAINTANCES,
+              tier: contactData.tier ?? RelationshipTier.ACQUAINTANCES,
               relationshipType: RelationshipType.OTHER,
               communicationFrequency: CommunicationFrequency.MONTHLY,
               healthScore: 50,
-              sharedInterests: [],
+              sharedInterests: contactData.sharedInterests ?? [],
               importantDates: [],
             },
           });
@@ -501,12 +505,10 @@ export class ContactService {
     try {
       const { skip, take } = getPaginationParams(pagination);
 
-      // Note: Search only by name since email/phone are encrypted
-      // Encrypted fields cannot be searched directly in the database
       const where: Prisma.ContactWhereInput = {
         userId,
         isDeleted: false,
-        name: { contains: query, mode: 'insensitive' },
+        OR: this.searchConditions(query),
       };
 
       const [contacts, total] = await Promise.all([
@@ -527,4 +529,20 @@ export class ContactService {
       throw new Error(`Failed to search contacts: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
+
+  /**
+   * Search terms for a contact query
+   * Names match on substrings; phone and email are encrypted, so they only
+   * match exactly, through their blind indexes.
+   */
+  private static searchConditions(query: string): Prisma.ContactWhereInput[] {
+    const phoneHash = blindIndex('phone', query);
+    const emailHash = blindIndex('email', query);
+
+    return [
+      { name: { contains: query, mode: 'insensitive' } },
+      ...(phoneHash ? [{ phoneHash }] : []),
+      ...(emailHash ? [{ emailHash }] : []),
+    ];
+  }
 }
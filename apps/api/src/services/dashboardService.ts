@@ -1,5 +1,19 @@
 import { prisma } from '../lib/prisma';
-import { RelationshipTier, InteractionType, ReminderStatus, ReminderType, EventStatus } from '@prisma/client';
+import {
+  RelationshipTier,
+  InteractionType,
+  ReminderStatus,
+  ReminderType,
+  EventStatus,
+  HealthScoreSnapshot,
+  Interaction,
+} from '@prisma/client';
+import {
+  SentimentDirection,
+  SentimentTrendPoint,
+  buildSentimentTrend,
+  sentimentDirection,
+} from '../utils/interactionTags';
 
 // Types
 export interface DashboardData {
@@ -32,7 +46,27 @@ export interface InsightsData {
   topContacts: any[];
   neglectedTiers: RelationshipTier[];
   averageHealthScore: number;
-  healthScoreHistory: { date: Date; score: number }[];
+  healthScoreHistory: HealthScoreHistoryEntry[];
+  sentimentTrends: SentimentTrends;
+}
+
+export interface SentimentTrendLine {
+  points: SentimentTrendPoint[];
+  direction: SentimentDirection;
+}
+
+export interface SentimentTrends {
+  weeks: number;
+  overall: SentimentTrendLine;
+  byTier: Record<RelationshipTier, SentimentTrendLine>;
+  byContact: Array<
+    SentimentTrendLine & {
+      contactId: string;
+      name: string;
+      tier: RelationshipTier;
+      ratedInteractions: number;
+    }
+  >;
 }
 
 export interface HealthScoreComponents {
@@ -43,6 +77,33 @@ export interface HealthScoreComponents {
   specialDatesScore: number;
 }
 
+export interface HealthScoreHistoryEntry {
+  date: Date;
+  score: number;
+  components: HealthScoreComponents;
+}
+
+/**
+ * Ranges (in days) supported by the health score history endpoint
+ */
+export const HEALTH_SCORE_HISTORY_RANGES = [30, 90, 365] as const;
+export type HealthScoreHistoryRange = (typeof HEALTH_SCORE_HISTORY_RANGES)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sentiment trends cover the same window getInsights already loads interactions for
+const SENTIMENT_TREND_WEEKS = 8;
+// Contacts need this many rated interactions in the window to get their own trend line
+const MIN_RATED_FOR_CONTACT_TREND = 2;
+const MAX_CONTACT_TRENDS = 10;
+
+/**
+ * Normalize a date to midnight UTC, the key used for daily snapshots
+ */
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
 /**
  * Dashboard Service
  * Handles dashboard data aggregation and health score calculation
@@ -50,23 +111,30 @@ export interface HealthScoreComponents {
 export class DashboardService {
   /**
    * Calculate health score for a user
+   * Pass `asOf` to recompute the score as it stood at a past point in time
+   * (used when backfilling snapshots); only rows that existed by then count.
    */
-  async calculateHealthScore(userId: string): Promise<{
+  async calculateHealthScore(userId: string, asOf: Date = new Date()): Promise<{
     score: number;
     components: HealthScoreComponents;
   }> {
-    const now = new Date();
+    const now = asOf;
     const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
 
     // Get user's relationships
     const relationships = await prisma.relationship.findMany({
-      where: { userId },
+      where: {
+        userId,
+        createdAt: { lte: now },
+      },
       include: {
         contact: true,
         interactions: {
           where: {
-            date: { gte: thirtyDaysAgo },
+            date: { gte: thirtyDaysAgo, lte: now },
+          },
+          orderBy: {
+            date: 'desc',
           },
         },
       },
@@ -78,20 +146,22 @@ export class DashboardService {
     );
     const innerCircleScore = this.calculateInnerCircleScore(
       innerCircleContacts,
-      thirtyDaysAgo
+      thirtyDaysAgo,
+      now
     );
 
     // Component 2: Event Participation (20%)
     const eventsThisMonth = await prisma.event.findMany({
       where: {
         userId,
-        date: { gte: thirtyDaysAgo },
+        date: { gte: thirtyDaysAgo, lte: now },
         status: { not: EventStatus.CANCELLED },
       },
     });
-    const eventParticipationScore = this.calculateEventParticipationScore(
+    const eventParticipationScore = await this.calculateEventParticipationScore(
       eventsThisMonth,
-      userId
+      userId,
+      now
     );
 
     // Component 3: Relationship Diversity (15%)
@@ -103,15 +173,15 @@ export class DashboardService {
     const reminders = await prisma.reminder.findMany({
       where: {
         userId,
-        scheduledDate: { gte: thirtyDaysAgo },
+        scheduledDate: { gte: thirtyDaysAgo, lte: now },
       },
     });
-    const reminderResponseScore = this.calculateReminderResponseScore(reminders);
+    const reminderResponseScore = this.calculateReminderResponseScore(reminders, now);
 
     // Component 5: Special Dates (10%)
     const specialDatesScore = await this.calculateSpecialDatesScore(
       userId,
-      thirtyDaysAgo
+      now
     );
 
     // Calculate weighted total
@@ -139,18 +209,23 @@ export class DashboardService {
    */
   private calculateInnerCircleScore(
     innerCircleContacts: any[],
-    sinceDate: Date
+    sinceDate: Date,
+    now: Date
   ): number {
     if (innerCircleContacts.length === 0) return 50; // Neutral score if no inner circle
 
     let totalScore = 0;
-    const now = new Date();
 
     for (const relationship of innerCircleContacts) {
       const frequency = relationship.communicationFrequency;
-      const lastContact = relationship.lastContactDate
-        ? new Date(relationship.lastContactDate)
-        : null;
+      // lastContactDate only reflects today; for past dates fall back to the
+      // most recent interaction inside the window
+      const lastContact =
+        relationship.lastContactDate && new Date(relationship.lastContactDate) <= now
+          ? new Date(relationship.lastContactDate)
+          : relationship.interactions[0]
+          ? new Date(relationship.interactions[0].date)
+          : null;
 
       // Expected days between contacts based on frequency
       const expectedDays = this.getExpectedDaysForFrequency(frequency);
@@ -204,9 +279,9 @@ export class DashboardService {
    */
   private async calculateEventParticipationScore(
     eventsThisMonth: any[],
-    userId: string
+    userId: string,
+    now: Date
   ): Promise<number> {
-    const now = new Date();
     const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
     const sixtyDaysAgo = new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000);
 
@@ -230,7 +305,7 @@ export class DashboardService {
           userId,
         },
         event: {
-          date: { gte: thirtyDaysAgo },
+          date: { gte: thirtyDaysAgo, lte: now },
           status: { not: EventStatus.CANCELLED },
         },
         rsvpStatus: 'CONFIRMED',
@@ -284,10 +359,9 @@ export class DashboardService {
   /**
    * Calculate Reminder Response score (15% weight)
    */
-  private calculateReminderResponseScore(reminders: any[]): number {
+  private calculateReminderResponseScore(reminders: any[], now: Date): number {
     if (reminders.length === 0) return 50; // Neutral if no reminders
 
-    const now = new Date();
     const completedReminders = reminders.filter(
       (r) => r.status === ReminderStatus.COMPLETED
     ).length;
@@ -312,15 +386,15 @@ export class DashboardService {
    */
   private async calculateSpecialDatesScore(
     userId: string,
-    sinceDate: Date
+    now: Date
   ): Promise<number> {
-    const now = new Date();
     const yearStart = new Date(now.getFullYear(), 0, 1);
 
     // Get contacts with birthdays/anniversaries
     const contacts = await prisma.contact.findMany({
       where: {
         userId,
+        createdAt: { lte: now },
         OR: [
           { birthday: { not: null } },
           { anniversary: { not: null } },
@@ -519,9 +593,22 @@ export class DashboardService {
     pastDate: Date,
     currentScore: number
   ): Promise<number> {
-    // Simplified: calculate score based on past data
-    // In production, you'd query stored daily health scores from a HealthScoreHistory table
-    // For now, we'll use a simplified calculation that looks at past interactions
+    // Prefer the stored daily snapshot when the nightly job has recorded one
+    const pastSnapshot = await prisma.healthScoreSnapshot.findUnique({
+      where: {
+        userId_date: {
+          userId,
+          date: startOfUtcDay(pastDate),
+        },
+      },
+    });
+
+    if (pastSnapshot) {
+      return currentScore - pastSnapshot.score;
+    }
+
+    // No snapshot yet (new user or before the first nightly run):
+    // estimate the trend from interaction counts instead
     const now = new Date();
     const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
     
@@ -851,9 +938,11 @@ export class DashboardService {
     // Average health score (current)
     const { score: averageHealthScore } = await this.calculateHealthScore(userId);
 
-    // Health score history (last 30 days) - simplified, would use stored scores in production
+    // Health score history (last 30 days) from stored daily snapshots
     const healthScoreHistory = await this.getHealthScoreHistory(userId, 30);
 
+    const sentimentTrends = this.getSentimentTrends(relationships, now);
+
     return {
       communicationTrends: {
         thisWeek: thisWeekInteractions.length,
@@ -867,35 +956,173 @@ export class DashboardService {
       neglectedTiers,
       averageHealthScore,
       healthScoreHistory,
+      sentimentTrends,
     };
   }
 
   /**
-   * Get health score history
+   * Weekly sentiment lines overall, per tier and for the contacts with enough rated interactions
    */
-  private async getHealthScoreHistory(
+  private getSentimentTrends(
+    relationships: Array<{
+      contactId: string;
+      tier: RelationshipTier;
+      contact: { name: string };
+      interactions: Interaction[];
+    }>,
+    now: Date
+  ): SentimentTrends {
+    const options = { now, weeks: SENTIMENT_TREND_WEEKS };
+    const line = (interactions: Interaction[]): SentimentTrendLine => {
+      const points = buildSentimentTrend(interactions, options);
+      return { points, direction: sentimentDirection(points) };
+    };
+
+    const byTier = {} as Record<RelationshipTier, SentimentTrendLine>;
+    Object.values(RelationshipTier).forEach((tier) => {
+      byTier[tier] = line(relationships.filter((r) => r.tier === tier).flatMap((r) => r.interactions));
+    });
+
+    const byContact = relationships
+      .map((r) => {
+        const trend = line(r.interactions);
+        return {
+          contactId: r.contactId,
+          name: r.contact.name,
+          tier: r.tier,
+          ratedInteractions: trend.points.reduce((sum, point) => sum + point.count, 0),
+          ...trend,
+        };
+      })
+      .filter((trend) => trend.ratedInteractions >= MIN_RATED_FOR_CONTACT_TREND)
+      .sort((a, b) => b.ratedInteractions - a.ratedInteractions)
+      .slice(0, MAX_CONTACT_TRENDS);
+
+    return {
+      weeks: SENTIMENT_TREND_WEEKS,
+      overall: line(relationships.flatMap((r) => r.interactions)),
+      byTier,
+      byContact,
+    };
+  }
+
+  /**
+   * Get health score history from stored daily snapshots
+   * Days without a snapshot are omitted rather than estimated
+   */
+  async getHealthScoreHistory(
     userId: string,
     days: number
-  ): Promise<{ date: Date; score: number }[]> {
-    // Simplified implementation - in production, you'd query stored daily scores
-    // from a HealthScoreHistory table that's populated by a daily cron job
-    const history: { date: Date; score: number }[] = [];
-    const now = new Date();
+  ): Promise<HealthScoreHistoryEntry[]> {
+    const since = startOfUtcDay(new Date(Date.now() - (days - 1) * DAY_MS));
+
+    const snapshots = await prisma.healthScoreSnapshot.findMany({
+      where: {
+        userId,
+        date: { gte: since },
+      },
+      orderBy: {
+        date: 'asc',
+      },
+    });
+
+    return snapshots.map((snapshot) => this.toHistoryEntry(snapshot));
+  }
+
+  /**
+   * Record (or refresh) the health score snapshot for a single day
+   * The score is computed as of the end of that UTC day, or now if the day
+   * has not finished yet.
+   */
+  async recordHealthScoreSnapshot(
+    userId: string,
+    day: Date = new Date()
+  ): Promise<HealthScoreSnapshot> {
+    const date = startOfUtcDay(day);
+    const endOfDay = new Date(date.getTime() + DAY_MS - 1);
+    const asOf = endOfDay < new Date() ? endOfDay : new Date();
 
-    // Calculate current score once
-    const { score: currentScore } = await this.calculateHealthScore(userId);
-
-    // Generate history with slight variations to simulate trends
-    // In production, this would be actual stored daily scores
-    for (let i = days - 1; i >= 0; i--) {
-      const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000);
-      // Simulate slight daily variations (±5 points)
-      const variation = Math.floor(Math.random() * 11) - 5;
-      const score = Math.max(0, Math.min(100, currentScore + variation));
-      history.push({ date, score });
+    const { score, components } = await this.calculateHealthScore(userId, asOf);
+
+    return prisma.healthScoreSnapshot.upsert({
+      where: {
+        userId_date: { userId, date },
+      },
+      create: {
+        userId,
+        date,
+        score,
+        ...components,
+      },
+      update: {
+        score,
+        ...components,
+      },
+    });
+  }
+
+  /**
+   * Backfill daily snapshots for past days from existing interactions,
+   * events and reminders. Days that already have a snapshot are skipped
+   * unless `overwrite` is set. Never goes back before the user signed up.
+   * Returns the number of snapshots written.
+   */
+  async backfillHealthScoreSnapshots(
+    userId: string,
+    days: number = 365,
+    options: { overwrite?: boolean } = {}
+  ): Promise<number> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { createdAt: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
     }
 
-    return history;
+    const today = startOfUtcDay(new Date());
+    const earliest = new Date(
+      Math.max(today.getTime() - (days - 1) * DAY_MS, startOfUtcDay(user.createdAt).getTime())
+    );
+
+    const existing = options.overwrite
+      ? []
+      : await prisma.healthScoreSnapshot.findMany({
+          where: {
+            userId,
+            date: { gte: earliest },
+          },
+          select: { date: true },
+        });
+    const existingDays = new Set(existing.map((snapshot) => snapshot.date.getTime()));
+
+    let written = 0;
+    for (let time = earliest.getTime(); time <= today.getTime(); time += DAY_MS) {
+      if (existingDays.has(time)) continue;
+
+      await this.recordHealthScoreSnapshot(userId, new Date(time));
+      written++;
+    }
+
+    return written;
+  }
+
+  /**
+   * Map a stored snapshot to a history entry
+   */
+  private toHistoryEntry(snapshot: HealthScoreSnapshot): HealthScoreHistoryEntry {
+    return {
+      date: snapshot.date,
+      score: snapshot.score,
+      components: {
+        innerCircleScore: snapshot.innerCircleScore,
+        eventParticipationScore: snapshot.eventParticipationScore,
+        relationshipDiversityScore: snapshot.relationshipDiversityScore,
+        reminderResponseScore: snapshot.reminderResponseScore,
+        specialDatesScore: snapshot.specialDatesScore,
+      },
+    };
   }
 }
 
@@ -1,119 +1,191 @@
-import { Resend } from 'resend';
-
-// Initialize Resend client
-function getResendClient(): Resend | null {
-  const apiKey = process.env.RESEND_API_KEY;
-  if (!apiKey) {
-    console.warn('[EmailService] RESEND_API_KEY not configured — emails will be logged only.');
-    return null;
+import { EventEmailKind } from '@prisma/client';
+import { EmailAttachment, EmailTransport, createTransportFromEnv } from './emailTransports';
+
+const FROM_ADDRESS = process.env.EMAIL_FROM || 'onboarding@resend.dev';
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Get the active email transport, creating it from the environment on first use
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createTransportFromEnv();
   }
-  return new Resend(apiKey);
+  return transport;
 }
 
-const FROM_ADDRESS = process.env.EMAIL_FROM || 'onboarding@resend.dev';
+/**
+ * Replace the email transport (tests, local capture)
+ * Pass null to go back to the environment's transport.
+ */
+export function setEmailTransport(next: EmailTransport | null): void {
+  transport = next;
+}
 
 export interface EmailOptions {
   to: string;
   subject: string;
   text: string;
   html?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailDeliveryResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
 }
 
 /**
- * Send a single email via Resend. Falls back to console logging when not configured.
+ * Send a single email through the active transport, reporting the outcome
  */
-export async function sendEmail(options: EmailOptions): Promise<boolean> {
-  const resend = getResendClient();
-
-  if (!resend) {
-    console.log(`[EmailService] (no API key) Would send to ${options.to}: ${options.subject}`);
-    console.log(`  Body: ${options.text}`);
-    return true; // Treat as successful in dev
-  }
+export async function deliverEmail(options: EmailOptions): Promise<EmailDeliveryResult> {
+  const active = getEmailTransport();
 
   try {
-    const { error } = await resend.emails.send({
-      from: FROM_ADDRESS,
-      to: options.to,
-      subject: options.subject,
-      text: options.text,
-      html: options.html,
-    });
-
-    if (error) {
-      console.error(`[EmailService] Resend error for ${options.to}:`, error);
-      return false;
-    }
-
-    console.log(`[EmailService] Sent email to ${options.to}: ${options.subject}`);
-    return true;
+    const { messageId } = await active.send({ from: FROM_ADDRESS, ...options });
+    console.log(`[EmailService] Sent email to ${options.to} via ${active.name}: ${options.subject}`);
+    return { success: true, messageId };
   } catch (error) {
-    console.error(`[EmailService] Failed to send email to ${options.to}:`, error);
-    return false;
+    console.error(`[EmailService] Failed to send email to ${options.to} via ${active.name}:`, error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
 
 /**
- * Send cancellation emails to all attendees of an event.
+ * Send a single email. Falls back to console logging when no transport is configured.
  */
-export async function sendEventCancellationEmails(
-  eventTitle: string,
-  eventDate: Date,
-  organizerName: string,
-  attendees: { name: string; email: string | null }[]
-): Promise<{ sent: number; failed: number }> {
-  let sent = 0;
-  let failed = 0;
-
-  const formattedDate = new Date(eventDate).toLocaleDateString('en-US', {
+export async function sendEmail(options: EmailOptions): Promise<boolean> {
+  const { success } = await deliverEmail(options);
+  return success;
+}
+
+export interface EventEmailContext {
+  attendeeName: string;
+  organizerName: string;
+  eventTitle: string;
+  eventDate: Date;
+  startTime?: string | null;
+  endTime?: string | null;
+  location?: string | null;
+  description?: string | null;
+  rsvpUrl?: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatEventDate(date: Date): string {
+  // Event dates are calendar days stored at UTC midnight
+  return new Date(date).toLocaleDateString('en-US', {
     weekday: 'long',
     month: 'long',
     day: 'numeric',
     year: 'numeric',
+    timeZone: 'UTC',
   });
+}
 
-  for (const attendee of attendees) {
-    if (!attendee.email) {
-      console.log(`[EmailService] Skipping ${attendee.name} — no email address`);
-      failed++;
-      continue;
-    }
-
-    const subject = `Event Cancelled: ${eventTitle}`;
-    const text = [
-      `Hi ${attendee.name},`,
-      '',
-      `We wanted to let you know that the event "${eventTitle}" scheduled for ${formattedDate} has been cancelled by ${organizerName}.`,
-      '',
-      'We apologize for any inconvenience. If you have any questions, please reach out to the organizer.',
-      '',
-      'Best regards,',
-      'SoCap',
-    ].join('\n');
-
-    const html = `
+const EMAIL_COPY: Record<EventEmailKind, { subject: string; heading: string; intro: string; cta?: string }> = {
+  INVITATION: {
+    subject: "You're invited: {title}",
+    heading: "You're Invited",
+    intro: '{organizer} has invited you to <strong>"{title}"</strong>.',
+    cta: 'RSVP',
+  },
+  UPDATE: {
+    subject: 'Event Updated: {title}',
+    heading: 'Event Updated',
+    intro: '{organizer} has updated the details for <strong>"{title}"</strong>.',
+    cta: 'View or change your RSVP',
+  },
+  REMINDER: {
+    subject: 'Reminder: please RSVP for {title}',
+    heading: 'Can You Make It?',
+    intro: "{organizer} is still waiting to hear whether you can make it to <strong>\"{title}\"</strong>.",
+    cta: 'RSVP',
+  },
+  CANCELLATION: {
+    subject: 'Event Cancelled: {title}',
+    heading: 'Event Cancelled',
+    intro: 'We wanted to let you know that the event <strong>"{title}"</strong> has been cancelled by <strong>{organizer}</strong>.',
+  },
+};
+
+/**
+ * Render an event email for one attendee
+ */
+export function renderEventEmail(kind: EventEmailKind, context: EventEmailContext): RenderedEmail {
+  const copy = EMAIL_COPY[kind];
+  const formattedDate = formatEventDate(context.eventDate);
+  const time = context.startTime
+    ? context.endTime
+      ? `${context.startTime} – ${context.endTime}`
+      : context.startTime
+    : null;
+
+  const fill = (template: string, escape: (value: string) => string) =>
+    template.replace('{title}', escape(context.eventTitle)).replace('{organizer}', escape(context.organizerName));
+  const plain = (value: string) => value;
+  const intro = fill(copy.intro, escapeHtml);
+  const introText = fill(copy.intro, plain).replace(/<\/?strong>/g, '');
+
+  const details = [
+    `When: ${formattedDate}${time ? `, ${time}` : ''}`,
+    ...(context.location ? [`Where: ${context.location}`] : []),
+  ];
+  const rsvpUrl = kind === 'CANCELLATION' ? null : context.rsvpUrl;
+
+  const text = [
+    `Hi ${context.attendeeName},`,
+    '',
+    introText,
+    '',
+    ...details,
+    ...(context.description && kind !== 'CANCELLATION' ? ['', context.description] : []),
+    ...(rsvpUrl ? ['', `${copy.cta}: ${rsvpUrl}`] : []),
+    '',
+    kind === 'CANCELLATION'
+      ? 'We apologize for any inconvenience. If you have any questions, please reach out to the organizer.'
+      : 'A calendar invitation is attached.',
+    '',
+    'Best regards,',
+    'SoCap',
+  ].join('\n');
+
+  const html = `
       <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
-        <h2 style="color: #1a1a2e; margin-bottom: 8px;">Event Cancelled</h2>
-        <p style="color: #555; font-size: 15px;">Hi ${attendee.name},</p>
-        <p style="color: #555; font-size: 15px;">
-          We wanted to let you know that the event <strong>"${eventTitle}"</strong>
-          scheduled for <strong>${formattedDate}</strong> has been cancelled by <strong>${organizerName}</strong>.
-        </p>
-        <div style="background: #fff3f3; border-left: 4px solid #e53e3e; padding: 16px; border-radius: 4px; margin: 20px 0;">
-          <p style="color: #e53e3e; font-weight: 600; margin: 0;">This event has been cancelled.</p>
+        <h2 style="color: #1a1a2e; margin-bottom: 8px;">${copy.heading}</h2>
+        <p style="color: #555; font-size: 15px;">Hi ${escapeHtml(context.attendeeName)},</p>
+        <p style="color: #555; font-size: 15px;">${intro}</p>
+        <div style="background: ${kind === 'CANCELLATION' ? '#fff3f3' : '#f4f6fb'}; border-left: 4px solid ${kind === 'CANCELLATION' ? '#e53e3e' : '#4a5bdc'}; padding: 16px; border-radius: 4px; margin: 20px 0;">
+          ${details.map((line) => `<p style="color: #333; margin: 4px 0;">${escapeHtml(line)}</p>`).join('\n          ')}
         </div>
+        ${context.description && kind !== 'CANCELLATION' ? `<p style="color: #555; font-size: 15px;">${escapeHtml(context.description)}</p>` : ''}
+        ${rsvpUrl ? `<p style="margin: 24px 0;"><a href="${escapeHtml(rsvpUrl)}" style="background: #4a5bdc; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; font-weight: 600;">${copy.cta}</a></p>` : ''}
         <p style="color: #555; font-size: 15px;">
-          We apologize for any inconvenience. If you have any questions, please reach out to the organizer.
+          ${kind === 'CANCELLATION' ? 'We apologize for any inconvenience. If you have any questions, please reach out to the organizer.' : 'A calendar invitation is attached.'}
         </p>
         <p style="color: #999; font-size: 13px; margin-top: 32px;">Best regards,<br/>SoCap</p>
       </div>
     `;
 
-    const success = await sendEmail({ to: attendee.email, subject, text, html });
-    if (success) sent++;
-    else failed++;
-  }
-
-  console.log(`[EmailService] Cancellation emails — sent: ${sent}, failed: ${failed}`);
-  return { sent, failed };
+  return {
+    subject: fill(copy.subject, plain),
+    text,
+    html,
+  };
 }
@@ -0,0 +1,189 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Resend } from 'resend';
+import nodemailer from 'nodemailer';
+
+export interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailSendResult {
+  messageId?: string;
+}
+
+/**
+ * A way of delivering email
+ * `send` throws when delivery fails.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+/**
+ * Delivers through the Resend API
+ */
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend';
+  private client: Resend;
+
+  constructor(apiKey: string) {
+    this.client = new Resend(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const { data, error } = await this.client.emails.send({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: typeof attachment.content === 'string' ? Buffer.from(attachment.content) : attachment.content,
+        contentType: attachment.contentType,
+      })),
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return { messageId: data?.id };
+  }
+}
+
+/**
+ * Delivers through an SMTP server (e.g. Mailpit or MailHog for local capture)
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(url: string) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments,
+    });
+
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Writes each message to a directory as JSON, with attachments alongside
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `${Date.now()}-${randomUUID()}`;
+    const messageDir = path.join(this.directory, messageId);
+    await fs.mkdir(messageDir, { recursive: true });
+
+    const attachments = message.attachments ?? [];
+    for (const attachment of attachments) {
+      await fs.writeFile(path.join(messageDir, path.basename(attachment.filename)), attachment.content);
+    }
+
+    await fs.writeFile(
+      path.join(messageDir, 'message.json'),
+      JSON.stringify(
+        {
+          ...message,
+          attachments: attachments.map(({ filename, contentType }) => ({ filename, contentType })),
+        },
+        null,
+        2
+      )
+    );
+
+    return { messageId };
+  }
+}
+
+/**
+ * Keeps sent messages in memory, for tests
+ */
+export class MemoryTransport implements EmailTransport {
+  readonly name = 'memory';
+  readonly messages: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    this.messages.push(message);
+    return { messageId: `memory-${this.messages.length}` };
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+/**
+ * Logs messages instead of sending them (development default without credentials)
+ */
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    console.log(`[EmailService] (no transport configured) Would send to ${message.to}: ${message.subject}`);
+    console.log(`  Body: ${message.text}`);
+    if (message.attachments?.length) {
+      console.log(`  Attachments: ${message.attachments.map((a) => a.filename).join(', ')}`);
+    }
+    return {};
+  }
+}
+
+/**
+ * Pick a transport from the environment
+ * EMAIL_TRANSPORT selects one explicitly (resend | smtp | file | memory | console);
+ * otherwise Resend is used when RESEND_API_KEY is set, and console logging when not.
+ */
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const kind = env.EMAIL_TRANSPORT?.toLowerCase() || (env.RESEND_API_KEY ? 'resend' : 'console');
+
+  switch (kind) {
+    case 'resend':
+      if (!env.RESEND_API_KEY) {
+        throw new Error('RESEND_API_KEY must be set when EMAIL_TRANSPORT=resend');
+      }
+      return new ResendTransport(env.RESEND_API_KEY);
+    case 'smtp':
+      if (!env.SMTP_URL) {
+        throw new Error('SMTP_URL must be set when EMAIL_TRANSPORT=smtp');
+      }
+      return new SmtpTransport(env.SMTP_URL);
+    case 'file':
+      return new FileTransport(env.EMAIL_CAPTURE_DIR || path.join(process.cwd(), 'tmp', 'emails'));
+    case 'memory':
+      return new MemoryTransport();
+    case 'console':
+      console.warn('[EmailService] No email transport configured — emails will be logged only.');
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${kind}`);
+  }
+}
@@ -0,0 +1,237 @@
+import { EncryptionRotation, EncryptionRotationStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getActiveKeyId, hasEncryptionKey, needsReEncryption, reEncrypt } from '../utils/encryption';
+
+const DEFAULT_BATCH_SIZE = 200;
+// A RUNNING rotation that hasn't saved progress for this long is assumed dead and resumed
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+type EncryptedRow = { id: string } & Record<string, string | null>;
+
+/**
+ * A table with encrypted columns
+ * `update` only writes if the columns still hold the values read, so a row the
+ * user changed mid-rotation (already under the new key) isn't overwritten.
+ */
+interface RotationTarget {
+  name: string;
+  fields: string[];
+  count(): Promise<number>;
+  page(afterId: string | null, take: number): Promise<EncryptedRow[]>;
+  update(id: string, previous: Record<string, string | null>, data: Record<string, string>): Promise<number>;
+}
+
+const TARGETS: RotationTarget[] = [
+  {
+    name: 'contacts',
+    fields: ['phone', 'email', 'notes'],
+    count: () => prisma.contact.count(),
+    page: (afterId, take) =>
+      prisma.contact.findMany({
+        where: afterId ? { id: { gt: afterId } } : {},
+        select: { id: true, phone: true, email: true, notes: true },
+        orderBy: { id: 'asc' },
+        take,
+      }),
+    update: async (id, previous, data) =>
+      (await prisma.contact.updateMany({ where: { id, ...previous }, data })).count,
+  },
+  {
+    name: 'calendarCredentials',
+    fields: ['accessTokenEncrypted', 'refreshTokenEncrypted'],
+    count: () => prisma.calendarCredential.count(),
+    page: (afterId, take) =>
+      prisma.calendarCredential.findMany({
+        where: afterId ? { id: { gt: afterId } } : {},
+        select: { id: true, accessTokenEncrypted: true, refreshTokenEncrypted: true },
+        orderBy: { id: 'asc' },
+        take,
+      }),
+    update: async (id, previous, data) =>
+      (await prisma.calendarCredential.updateMany({ where: { id, ...(previous as Record<string, string>) }, data }))
+        .count,
+  },
+];
+
+export interface TableProgress {
+  // Last id processed; the next batch starts after it
+  cursor: string | null;
+  scanned: number;
+  reEncrypted: number;
+  failed: number;
+  done: boolean;
+}
+
+export interface RotationProgress {
+  rotationId: string;
+  keyId: string;
+  status: EncryptionRotationStatus;
+  total: number;
+  scanned: number;
+  reEncrypted: number;
+  failed: number;
+  percent: number;
+  tables: Record<string, TableProgress>;
+  error: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+}
+
+export interface RotateOptions {
+  batchSize?: number;
+  onProgress?: (progress: RotationProgress) => void;
+}
+
+/**
+ * Re-encrypts stored data with the active encryption key
+ * Runs in batches and saves its cursor after each one, so an interrupted run
+ * picks up where it stopped. Rows that fail to decrypt are counted and skipped.
+ */
+export class EncryptionRotationService {
+  /**
+   * Re-encrypt everything not yet under the active key, resuming an unfinished run for it
+   */
+  static async rotate(options: RotateOptions = {}): Promise<RotationProgress> {
+    if (!hasEncryptionKey()) {
+      throw new Error('ENCRYPTION_KEY environment variable is not set');
+    }
+
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    let rotation = await this.startOrResume(getActiveKeyId());
+    const tables = this.tablesOf(rotation);
+
+    try {
+      for (const target of TARGETS) {
+        const table = tables[target.name];
+
+        while (!table.done) {
+          const rows = await target.page(table.cursor, batchSize);
+          for (const row of rows) {
+            await this.rotateRow(target, row, table);
+          }
+
+          table.cursor = rows.length ? rows[rows.length - 1].id : table.cursor;
+          table.done = rows.length < batchSize;
+
+          rotation = await prisma.encryptionRotation.update({
+            where: { id: rotation.id },
+            data: { progress: tables as unknown as Prisma.InputJsonObject },
+          });
+          options.onProgress?.(this.toProgress(rotation));
+        }
+      }
+
+      rotation = await prisma.encryptionRotation.update({
+        where: { id: rotation.id },
+        data: { status: EncryptionRotationStatus.COMPLETED, completedAt: new Date(), error: null },
+      });
+      return this.toProgress(rotation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await prisma.encryptionRotation
+        .update({ where: { id: rotation.id }, data: { status: EncryptionRotationStatus.FAILED, error: message } })
+        .catch(() => undefined);
+      throw new Error(`Failed to rotate encryption key: ${message}`);
+    }
+  }
+
+  /**
+   * Progress of the latest rotation, or null if there's never been one
+   */
+  static async getProgress(): Promise<RotationProgress | null> {
+    try {
+      const rotation = await prisma.encryptionRotation.findFirst({ orderBy: { startedAt: 'desc' } });
+      return rotation ? this.toProgress(rotation) : null;
+    } catch (error) {
+      throw new Error(`Failed to get rotation progress: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static async startOrResume(keyId: string): Promise<EncryptionRotation> {
+    const unfinished = await prisma.encryptionRotation.findFirst({
+      where: { keyId, status: { not: EncryptionRotationStatus.COMPLETED } },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    if (unfinished) {
+      const isLive =
+        unfinished.status === EncryptionRotationStatus.RUNNING &&
+        Date.now() - unfinished.updatedAt.getTime() < STALE_AFTER_MS;
+      if (isLive) {
+        throw new Error(`Rotation ${unfinished.id} to key "${keyId}" is already running`);
+      }
+
+      return prisma.encryptionRotation.update({
+        where: { id: unfinished.id },
+        data: { status: EncryptionRotationStatus.RUNNING, error: null },
+      });
+    }
+
+    const counts = await Promise.all(TARGETS.map((target) => target.count()));
+    return prisma.encryptionRotation.create({
+      data: { keyId, total: counts.reduce((sum, count) => sum + count, 0) },
+    });
+  }
+
+  private static async rotateRow(target: RotationTarget, row: EncryptedRow, table: TableProgress): Promise<void> {
+    table.scanned++;
+
+    const previous: Record<string, string | null> = {};
+    const data: Record<string, string> = {};
+    try {
+      for (const field of target.fields) {
+        const value = row[field];
+        if (value && needsReEncryption(value)) {
+          previous[field] = value;
+          data[field] = reEncrypt(value);
+        }
+      }
+      if (Object.keys(data).length === 0) return;
+
+      // Zero rows means it changed since we read it, and was written with the new key
+      if ((await target.update(row.id, previous, data)) > 0) {
+        table.reEncrypted++;
+      }
+    } catch (error) {
+      table.failed++;
+      console.error(`[Rotation] Error re-encrypting ${target.name} ${row.id}:`, error);
+    }
+  }
+
+  private static tablesOf(rotation: EncryptionRotation): Record<string, TableProgress> {
+    const saved = (rotation.progress ?? {}) as unknown as Record<string, Partial<TableProgress>>;
+    return Object.fromEntries(
+      TARGETS.map((target) => [
+        target.name,
+        { cursor: null, scanned: 0, reEncrypted: 0, failed: 0, done: false, ...saved[target.name] },
+      ])
+    );
+  }
+
+  private static toProgress(rotation: EncryptionRotation): RotationProgress {
+    const tables = this.tablesOf(rotation);
+    const sum = (key: 'scanned' | 'reEncrypted' | 'failed') =>
+      Object.values(tables).reduce((total, table) => total + table[key], 0);
+    const scanned = sum('scanned');
+
+    return {
+      rotationId: rotation.id,
+      keyId: rotation.keyId,
+      status: rotation.status,
+      total: rotation.total,
+      scanned,
+      reEncrypted: sum('reEncrypted'),
+      failed: sum('failed'),
+      percent:
+        rotation.status === EncryptionRotationStatus.COMPLETED
+          ? 100
+          : rotation.total
+            ? Math.min(99, Math.floor((scanned / rotation.total) * 100))
+            : 0,
+      tables,
+      error: rotation.error,
+      startedAt: rotation.startedAt,
+      completedAt: rotation.completedAt,
+    };
+  }
+}
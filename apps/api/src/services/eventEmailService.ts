@@ -0,0 +1,346 @@
+import {
+  Contact,
+  EmailDeliveryStatus,
+  Event,
+  EventAttendee,
+  EventEmailDelivery,
+  EventEmailKind,
+  EventStatus,
+  RSVPStatus,
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { deliverEmail, getEmailTransport, renderEventEmail } from './emailService';
+import { RSVPService } from './rsvpService';
+import { getEventRecurrenceRule } from './eventOccurrenceService';
+import { buildCalendar, ICSMethod, ICSPartStat, ICSPerson, resolveEventTimes } from '../utils/ics';
+import { formatRRule } from '../utils/recurrence';
+import { resolveTimezone } from '../utils/timezone';
+import { decryptContactFields } from '../middleware/encryption';
+
+type AttendeeWithContact = EventAttendee & { contact: Contact };
+
+export interface EmailBatchResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+  deliveries: EventEmailDelivery[];
+}
+
+export interface AttendeeEmailStatus {
+  attendeeId: string;
+  name: string;
+  email: string | null;
+  rsvpStatus: RSVPStatus;
+  lastEmailedAt: Date | null;
+  deliveries: EventEmailDelivery[];
+}
+
+export interface SendInvitationsOptions {
+  attendeeIds?: string[];
+  // Also email attendees who were already sent an invitation
+  resend?: boolean;
+}
+
+const PARTSTAT_BY_RSVP: Record<RSVPStatus, ICSPartStat> = {
+  PENDING: 'NEEDS-ACTION',
+  CONFIRMED: 'ACCEPTED',
+  DECLINED: 'DECLINED',
+  MAYBE: 'TENTATIVE',
+};
+
+/**
+ * Build the .ics attachment for one attendee's copy of an event
+ * Only the recipient is listed so guests don't see each other's addresses.
+ */
+export function buildEventInvitationICS(
+  event: Pick<
+    Event,
+    | 'id'
+    | 'title'
+    | 'description'
+    | 'date'
+    | 'startTime'
+    | 'endTime'
+    | 'timezone'
+    | 'locationName'
+    | 'locationAddress'
+    | 'status'
+    | 'isRecurring'
+    | 'recurringPattern'
+    | 'icsSequence'
+    | 'updatedAt'
+  >,
+  method: Extract<ICSMethod, 'REQUEST' | 'CANCEL'>,
+  organizer: ICSPerson,
+  attendee: { name: string; email: string; rsvpStatus: RSVPStatus },
+  options: { url?: string | null; now?: Date } = {}
+): string {
+  const { start, end, allDay } = resolveEventTimes(event.date, event.startTime, event.endTime, event.timezone);
+
+  let rrule: string | null = null;
+  try {
+    const rule = getEventRecurrenceRule(event);
+    rrule = rule ? formatRRule(rule) : null;
+  } catch {
+    // A malformed stored pattern shouldn't block the invitation; send the first occurrence
+  }
+
+  const location = [event.locationName, event.locationAddress].filter(Boolean).join(', ');
+
+  return buildCalendar(
+    [
+      {
+        uid: `${event.id}@socap`,
+        sequence: event.icsSequence,
+        start,
+        end,
+        allDay,
+        timeZone: resolveTimezone(event.timezone),
+        summary: event.title,
+        description: event.description,
+        location: location || null,
+        url: options.url,
+        status:
+          method === 'CANCEL' || event.status === EventStatus.CANCELLED
+            ? 'CANCELLED'
+            : event.status === EventStatus.CONFIRMED
+              ? 'CONFIRMED'
+              : 'TENTATIVE',
+        rrule,
+        organizer,
+        attendees: [{ name: attendee.name, email: attendee.email, partstat: PARTSTAT_BY_RSVP[attendee.rsvpStatus] }],
+        lastModified: event.updatedAt,
+      },
+    ],
+    { method, now: options.now }
+  );
+}
+
+/**
+ * Invitation, update, reminder and cancellation emails to event attendees
+ * Every attempt is recorded in event_email_deliveries.
+ */
+export class EventEmailService {
+  /**
+   * Email invitations with an RSVP link and a REQUEST .ics
+   * Attendees already invited are skipped unless `resend` is set.
+   */
+  static async sendInvitations(
+    userId: string,
+    eventId: string,
+    options: SendInvitationsOptions = {}
+  ): Promise<EmailBatchResult> {
+    return this.sendBatch(userId, eventId, EventEmailKind.INVITATION, async (attendees) => {
+      let selected = options.attendeeIds
+        ? attendees.filter((attendee) => options.attendeeIds!.includes(attendee.id))
+        : attendees;
+
+      if (!options.resend) {
+        const invited = await prisma.eventEmailDelivery.findMany({
+          where: { eventId, kind: EventEmailKind.INVITATION, status: EmailDeliveryStatus.SENT },
+          select: { attendeeId: true },
+        });
+        const invitedIds = new Set(invited.map((delivery) => delivery.attendeeId));
+        selected = selected.filter((attendee) => !invitedIds.has(attendee.id));
+      }
+
+      return selected;
+    });
+  }
+
+  /**
+   * Email every attendee that the event changed; bumps the iCalendar SEQUENCE
+   */
+  static async sendUpdates(userId: string, eventId: string): Promise<EmailBatchResult> {
+    return this.sendBatch(userId, eventId, EventEmailKind.UPDATE, async (attendees) =>
+      attendees.filter((attendee) => attendee.rsvpStatus !== RSVPStatus.DECLINED)
+    );
+  }
+
+  /**
+   * Email attendees who haven't responded yet
+   */
+  static async sendRSVPReminderEmails(userId: string, eventId: string): Promise<EmailBatchResult> {
+    return this.sendBatch(userId, eventId, EventEmailKind.REMINDER, async (attendees) =>
+      attendees.filter((attendee) => attendee.rsvpStatus === RSVPStatus.PENDING)
+    );
+  }
+
+  /**
+   * Email every attendee that the event is cancelled, with a CANCEL .ics
+   */
+  static async sendCancellations(userId: string, eventId: string): Promise<EmailBatchResult> {
+    return this.sendBatch(userId, eventId, EventEmailKind.CANCELLATION, async (attendees) => attendees);
+  }
+
+  /**
+   * Who was emailed what, and when, for each attendee
+   */
+  static async getDeliveries(userId: string, eventId: string): Promise<AttendeeEmailStatus[]> {
+    try {
+      const event = await prisma.event.findFirst({
+        where: { id: eventId, userId },
+        include: {
+          attendees: {
+            include: {
+              contact: { select: { name: true, email: true } },
+              emailDeliveries: { orderBy: { createdAt: 'desc' } },
+            },
+          },
+        },
+      });
+
+      if (!event) {
+        throw new Error('Event not found');
+      }
+
+      return event.attendees.map((attendee) => ({
+        attendeeId: attendee.id,
+        name: attendee.contact.name,
+        email: decryptContactFields(attendee.contact).email,
+        rsvpStatus: attendee.rsvpStatus,
+        lastEmailedAt:
+          attendee.emailDeliveries.find((delivery) => delivery.status === EmailDeliveryStatus.SENT)?.createdAt ?? null,
+        deliveries: attendee.emailDeliveries,
+      }));
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Event not found') {
+        throw error;
+      }
+      throw new Error(`Failed to get email deliveries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static async sendBatch(
+    userId: string,
+    eventId: string,
+    kind: EventEmailKind,
+    selectAttendees: (attendees: AttendeeWithContact[]) => Promise<AttendeeWithContact[]>
+  ): Promise<EmailBatchResult> {
+    try {
+      const existing = await prisma.event.findFirst({
+        where: { id: eventId, userId },
+        include: {
+          attendees: { include: { contact: true } },
+          user: { select: { firstName: true, lastName: true, email: true } },
+        },
+      });
+
+      if (!existing) {
+        throw new Error('Event not found');
+      }
+
+      // Calendar clients only apply an update or cancellation with a higher SEQUENCE
+      const event =
+        kind === EventEmailKind.UPDATE || kind === EventEmailKind.CANCELLATION
+          ? {
+              ...existing,
+              ...(await prisma.event.update({
+                where: { id: eventId },
+                data: { icsSequence: { increment: 1 } },
+              })),
+            }
+          : existing;
+
+      const organizerName = `${event.user.firstName} ${event.user.lastName}`.trim() || 'The organizer';
+      const organizer = { name: organizerName, email: event.user.email };
+      const method = kind === EventEmailKind.CANCELLATION ? 'CANCEL' : 'REQUEST';
+      const transport = getEmailTransport().name;
+
+      const result: EmailBatchResult = { sent: 0, failed: 0, skipped: 0, deliveries: [] };
+
+      for (const attendee of await selectAttendees(event.attendees)) {
+        // Contact emails are stored encrypted
+        const recipient = decryptContactFields(attendee.contact).email;
+
+        if (!recipient) {
+          result.skipped++;
+          result.deliveries.push(
+            await prisma.eventEmailDelivery.create({
+              data: {
+                eventId,
+                attendeeId: attendee.id,
+                kind,
+                status: EmailDeliveryStatus.SKIPPED,
+                transport,
+                error: 'No email address',
+              },
+            })
+          );
+          continue;
+        }
+
+        let rsvpUrl: string | null = null;
+        if (kind !== EventEmailKind.CANCELLATION) {
+          try {
+            rsvpUrl = (await RSVPService.createRSVPLink(userId, eventId, attendee.id)).url;
+          } catch (error) {
+            // Past events or a missing signing secret: send the email without a link
+            console.warn(`[EventEmailService] No RSVP link for attendee ${attendee.id}:`, error);
+          }
+        }
+
+        const rendered = renderEventEmail(kind, {
+          attendeeName: attendee.contact.name,
+          organizerName,
+          eventTitle: event.title,
+          eventDate: event.date,
+          startTime: event.startTime,
+          endTime: event.endTime,
+          location: [event.locationName, event.locationAddress].filter(Boolean).join(', ') || null,
+          description: event.description,
+          rsvpUrl,
+        });
+
+        const ics = buildEventInvitationICS(
+          event,
+          method,
+          organizer,
+          { name: attendee.contact.name, email: recipient, rsvpStatus: attendee.rsvpStatus },
+          { url: rsvpUrl }
+        );
+
+        const delivery = await deliverEmail({
+          to: recipient,
+          ...rendered,
+          attachments: [
+            {
+              filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+              content: ics,
+              contentType: `text/calendar; charset=utf-8; method=${method}`,
+            },
+          ],
+        });
+
+        if (delivery.success) result.sent++;
+        else result.failed++;
+
+        result.deliveries.push(
+          await prisma.eventEmailDelivery.create({
+            data: {
+              eventId,
+              attendeeId: attendee.id,
+              kind,
+              status: delivery.success ? EmailDeliveryStatus.SENT : EmailDeliveryStatus.FAILED,
+              transport,
+              providerMessageId: delivery.messageId,
+              error: delivery.error,
+            },
+          })
+        );
+      }
+
+      console.log(
+        `[EventEmailService] ${kind} emails for event ${eventId} — sent: ${result.sent}, failed: ${result.failed}, skipped: ${result.skipped}`
+      );
+      return result;
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Event not found') {
+        throw error;
+      }
+      throw new Error(
+        `Failed to send ${kind.toLowerCase()} emails: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
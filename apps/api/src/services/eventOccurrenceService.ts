@@ -0,0 +1,482 @@
+import { Prisma, Event, EventOccurrence, EventOccurrenceRSVP, EventStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { RecurrenceRule, parseRRule, formatRRule, getOccurrences, isOccurrence } from '../utils/recurrence';
+import { RecurrenceRuleError } from '../errors/recurrenceErrors';
+import type { UpdateEventData, UpdateRSVPData } from './eventService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Default window for expanding recurring events when a query has no end date
+export const RECURRENCE_EXPANSION_DAYS = 365;
+
+// Errors from getRecurringEvent/assertOccurrence, rethrown as-is
+const OCCURRENCE_ERRORS = ['Event not found', 'Event is not recurring', 'Occurrence not found'];
+
+/**
+ * Stored shape of Event.recurringPattern
+ * Older events may store `{ frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' }`.
+ */
+export interface EventRecurrencePattern {
+  rrule: string;
+}
+
+/**
+ * Per-occurrence overrides
+ */
+export interface UpdateOccurrenceData {
+  date?: Date;
+  startTime?: string;
+  endTime?: string;
+  status?: EventStatus;
+  estimatedCost?: number;
+  actualCost?: number;
+  notes?: string;
+}
+
+/**
+ * An event, or one occurrence of a recurring event with its overrides applied
+ * `occurrenceDate` is the occurrence's original (unmoved) date at UTC midnight.
+ */
+export type ExpandedEvent<T extends Event = Event> = T & {
+  occurrenceDate?: Date;
+  occurrenceId?: string | null;
+};
+
+export type OccurrenceWithRSVPs = EventOccurrence & { rsvps: EventOccurrenceRSVP[] };
+
+/**
+ * Parse an event's recurringPattern into a rule
+ * Returns null for non-recurring events.
+ */
+export function getEventRecurrenceRule(event: Pick<Event, 'isRecurring' | 'recurringPattern'>): RecurrenceRule | null {
+  if (!event.isRecurring || !event.recurringPattern) return null;
+
+  const pattern = event.recurringPattern as Record<string, unknown>;
+  if (typeof pattern.rrule === 'string') return parseRRule(pattern.rrule);
+  if (typeof pattern.frequency === 'string') return parseRRule(`FREQ=${pattern.frequency}`);
+
+  throw new RecurrenceRuleError('Recurrence pattern must include an rrule');
+}
+
+/**
+ * Validate a submitted recurringPattern and return it in stored form
+ */
+export function normalizeEventRecurrencePattern(pattern: unknown): EventRecurrencePattern {
+  const rule = getEventRecurrenceRule({ isRecurring: true, recurringPattern: pattern as Prisma.JsonValue });
+  return { rrule: formatRRule(rule!) };
+}
+
+/**
+ * End of the expansion window for a query that only has a start date
+ */
+export function getDefaultExpansionEnd(from: Date): Date {
+  return new Date(from.getTime() + RECURRENCE_EXPANSION_DAYS * DAY_MS);
+}
+
+/**
+ * UTC midnight of the day an instant falls on (event dates are day-granular)
+ */
+export function toOccurrenceDate(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * The instant of an occurrence: its date plus the series' time of day
+ */
+function occurrenceInstant(event: Pick<Event, 'date'>, occurrenceDate: Date): Date {
+  const timeOfDay = event.date.getTime() - toOccurrenceDate(event.date).getTime();
+  return new Date(toOccurrenceDate(occurrenceDate).getTime() + timeOfDay);
+}
+
+function applyOverride<T extends Event>(event: T, occurrence: Date, override?: EventOccurrence): ExpandedEvent<T> {
+  return {
+    ...event,
+    date: override?.date ?? occurrence,
+    startTime: override?.startTime ?? event.startTime,
+    endTime: override?.endTime ?? event.endTime,
+    status: override?.status ?? event.status,
+    estimatedCost: override?.estimatedCost ?? event.estimatedCost,
+    actualCost: override?.actualCost ?? event.actualCost,
+    occurrenceDate: toOccurrenceDate(occurrence),
+    occurrenceId: override?.id ?? null,
+  };
+}
+
+/**
+ * Expand a recurring event into occurrences dated within [from, to]
+ * Overrides can move an occurrence into or out of the window; cancelled
+ * occurrences are kept (with CANCELLED status) like cancelled events.
+ */
+export function expandEventOccurrences<T extends Event>(
+  event: T,
+  overrides: EventOccurrence[],
+  from: Date,
+  to: Date
+): ExpandedEvent<T>[] {
+  const rule = getEventRecurrenceRule(event);
+  if (!rule) {
+    return event.date >= from && event.date <= to ? [event] : [];
+  }
+
+  const overridesByDay = new Map(overrides.map((override) => [override.occurrenceDate.getTime(), override]));
+  const inRange = (date: Date) => date >= from && date <= to;
+  const expanded: ExpandedEvent<T>[] = [];
+  const seen = new Set<number>();
+
+  for (const occurrence of getOccurrences(rule, event.date, { from, to })) {
+    const day = toOccurrenceDate(occurrence).getTime();
+    seen.add(day);
+    const instance = applyOverride(event, occurrence, overridesByDay.get(day));
+    if (inRange(instance.date)) expanded.push(instance);
+  }
+
+  // Occurrences moved into the window from outside it
+  for (const override of overrides) {
+    const day = override.occurrenceDate.getTime();
+    if (seen.has(day) || !override.date || !inRange(override.date)) continue;
+
+    const occurrence = occurrenceInstant(event, override.occurrenceDate);
+    if (isOccurrence(rule, event.date, occurrence)) {
+      expanded.push(applyOverride(event, occurrence, override));
+    }
+  }
+
+  return expanded.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export class EventOccurrenceService {
+  /**
+   * Expand a list of events for a date window
+   * Non-recurring events pass through when dated inside the window.
+   */
+  static async expandEvents<T extends Event>(events: T[], from: Date, to: Date): Promise<ExpandedEvent<T>[]> {
+    try {
+      const recurringIds = events.filter((event) => event.isRecurring).map((event) => event.id);
+      const overrides =
+        recurringIds.length > 0
+          ? await prisma.eventOccurrence.findMany({ where: { eventId: { in: recurringIds } } })
+          : [];
+
+      const expanded = events.flatMap((event) =>
+        expandEventOccurrences(
+          event,
+          overrides.filter((override) => override.eventId === event.id),
+          from,
+          to
+        )
+      );
+
+      return expanded.sort((a, b) => a.date.getTime() - b.date.getTime());
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
+      throw new Error(`Failed to expand events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List occurrences of a recurring event within [from, to]
+   */
+  static async getOccurrences(userId: string, eventId: string, from: Date, to: Date): Promise<ExpandedEvent[]> {
+    try {
+      const event = await this.getRecurringEvent(userId, eventId);
+      const overrides = await prisma.eventOccurrence.findMany({ where: { eventId } });
+
+      return expandEventOccurrences(event, overrides, from, to);
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
+      if (error instanceof Error && (error.message === 'Event not found' || error.message === 'Event is not recurring')) {
+        throw error;
+      }
+      throw new Error(`Failed to get occurrences: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a single occurrence with the series attendees and their effective RSVPs
+   * An attendee's occurrence RSVP, if any, overrides their series RSVP.
+   */
+  static async getOccurrence(userId: string, eventId: string, occurrenceDate: Date) {
+    try {
+      const event = await this.getRecurringEvent(userId, eventId);
+      const occurrence = this.assertOccurrence(event, occurrenceDate);
+
+      const [override, attendees] = await Promise.all([
+        prisma.eventOccurrence.findUnique({
+          where: { eventId_occurrenceDate: { eventId, occurrenceDate: toOccurrenceDate(occurrenceDate) } },
+          include: { rsvps: true },
+        }),
+        prisma.eventAttendee.findMany({
+          where: { eventId },
+          include: {
+            contact: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                phone: true,
+                profileImage: true,
+              },
+            },
+          },
+          orderBy: { contact: { name: 'asc' } },
+        }),
+      ]);
+
+      const rsvpsByAttendee = new Map((override?.rsvps ?? []).map((rsvp) => [rsvp.attendeeId, rsvp]));
+
+      return {
+        ...applyOverride(event, occurrence, override ?? undefined),
+        notes: override?.notes ?? null,
+        attendees: attendees.map((attendee) => {
+          const rsvp = rsvpsByAttendee.get(attendee.id);
+          return rsvp
+            ? { ...attendee, rsvpStatus: rsvp.rsvpStatus, rsvpDate: rsvp.rsvpDate, plusOnes: rsvp.plusOnes }
+            : attendee;
+        }),
+      };
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
+      if (error instanceof Error && OCCURRENCE_ERRORS.includes(error.message)) {
+        throw error;
+      }
+      throw new Error(`Failed to get occurrence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Override fields of a single occurrence (reschedule, cost, status, notes)
+   */
+  static async updateOccurrence(
+    userId: string,
+    eventId: string,
+    occurrenceDate: Date,
+    data: UpdateOccurrenceData
+  ): Promise<OccurrenceWithRSVPs> {
+    try {
+      const event = await this.getRecurringEvent(userId, eventId);
+      this.assertOccurrence(event, occurrenceDate);
+
+      return await prisma.eventOccurrence.upsert({
+        where: { eventId_occurrenceDate: { eventId, occurrenceDate: toOccurrenceDate(occurrenceDate) } },
+        create: {
+          eventId,
+          occurrenceDate: toOccurrenceDate(occurrenceDate),
+          ...data,
+        },
+        update: {
+          ...data,
+          updatedAt: new Date(),
+        },
+        include: { rsvps: true },
+      });
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
+      if (error instanceof Error && OCCURRENCE_ERRORS.includes(error.message)) {
+        throw error;
+      }
+      throw new Error(`Failed to update occurrence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Cancel a single occurrence without affecting the rest of the series
+   */
+  static async cancelOccurrence(userId: string, eventId: string, occurrenceDate: Date): Promise<OccurrenceWithRSVPs> {
+    return this.updateOccurrence(userId, eventId, occurrenceDate, { status: EventStatus.CANCELLED });
+  }
+
+  /**
+   * Set an attendee's RSVP for one occurrence
+   */
+  static async updateOccurrenceRSVP(
+    userId: string,
+    eventId: string,
+    occurrenceDate: Date,
+    attendeeId: string,
+    data: UpdateRSVPData
+  ): Promise<EventOccurrenceRSVP> {
+    try {
+      const event = await this.getRecurringEvent(userId, eventId);
+      this.assertOccurrence(event, occurrenceDate);
+
+      const attendee = await prisma.eventAttendee.findFirst({
+        where: { id: attendeeId, eventId },
+      });
+
+      if (!attendee) {
+        throw new Error('Attendee not found');
+      }
+
+      const occurrence = await prisma.eventOccurrence.upsert({
+        where: { eventId_occurrenceDate: { eventId, occurrenceDate: toOccurrenceDate(occurrenceDate) } },
+        create: { eventId, occurrenceDate: toOccurrenceDate(occurrenceDate) },
+        update: {},
+      });
+
+      return await prisma.eventOccurrenceRSVP.upsert({
+        where: { occurrenceId_attendeeId: { occurrenceId: occurrence.id, attendeeId } },
+        create: {
+          occurrenceId: occurrence.id,
+          attendeeId,
+          rsvpStatus: data.status,
+          rsvpDate: new Date(),
+          plusOnes: data.plusOnes ?? attendee.plusOnes,
+        },
+        update: {
+          rsvpStatus: data.status,
+          rsvpDate: new Date(),
+          ...(data.plusOnes !== undefined && { plusOnes: data.plusOnes }),
+        },
+      });
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
+      if (error instanceof Error && (OCCURRENCE_ERRORS.includes(error.message) || error.message === 'Attendee not found')) {
+        throw error;
+      }
+      throw new Error(`Failed to update occurrence RSVP: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Split a series at an occurrence: the original series ends just before it
+   * and a new series, with `data` applied, starts there.
+   * Attendees are copied to the new series. Occurrence overrides from the
+   * split onwards move with it unless the date or rule changes, in which case
+   * they no longer line up and are dropped.
+   * Returns the new series.
+   */
+  static async splitSeries(
+    userId: string,
+    eventId: string,
+    occurrenceDate: Date,
+    data: UpdateEventData = {}
+  ): Promise<Event> {
+    try {
+      const event = await this.getRecurringEvent(userId, eventId);
+      const splitAt = this.assertOccurrence(event, occurrenceDate);
+      const rule = getEventRecurrenceRule(event)!;
+
+      if (splitAt.getTime() === event.date.getTime()) {
+        throw new Error('Cannot split a series at its first occurrence');
+      }
+
+      const elapsed = getOccurrences(rule, event.date, { to: new Date(splitAt.getTime() - 1) }).length;
+      const endedRule: RecurrenceRule =
+        rule.count !== undefined
+          ? { ...rule, count: elapsed }
+          : { ...rule, until: new Date(splitAt.getTime() - 1000) };
+      const continuedRule: RecurrenceRule =
+        rule.count !== undefined ? { ...rule, count: rule.count - elapsed } : rule;
+
+      const { recurringPattern, updateFutureOccurrences: _update, occurrenceDate: _occurrence, ...changes } = data;
+      const newPattern =
+        recurringPattern !== undefined && recurringPattern !== null
+          ? normalizeEventRecurrencePattern(recurringPattern)
+          : { rrule: formatRRule(continuedRule) };
+      const keepOverrides = data.date === undefined && recurringPattern === undefined;
+
+      return await prisma.$transaction(async (tx) => {
+        await tx.event.update({
+          where: { id: event.id },
+          data: {
+            recurringPattern: { rrule: formatRRule(endedRule) },
+            updatedAt: new Date(),
+          },
+        });
+
+        const {
+          id: _id,
+          createdAt: _createdAt,
+          updatedAt: _updatedAt,
+          calendarEventId: _calendarEventId,
+          linkedSavingsGoalId: _linkedSavingsGoalId,
+          recurringPattern: _pattern,
+          ...fields
+        } = event;
+
+        const series = await tx.event.create({
+          data: {
+            ...fields,
+            date: splitAt,
+            ...changes,
+            isRecurring: true,
+            recurringPattern: newPattern as unknown as Prisma.InputJsonValue,
+          },
+        });
+
+        const attendees = await tx.eventAttendee.findMany({ where: { eventId: event.id } });
+        const attendeeIdMap = new Map<string, string>();
+        for (const attendee of attendees) {
+          const { id: oldId, eventId: _eventId, ...attendeeFields } = attendee;
+          const copy = await tx.eventAttendee.create({
+            data: { ...attendeeFields, eventId: series.id },
+          });
+          attendeeIdMap.set(oldId, copy.id);
+        }
+
+        const laterOccurrences = { eventId: event.id, occurrenceDate: { gte: toOccurrenceDate(splitAt) } };
+        if (keepOverrides) {
+          const rsvps = await tx.eventOccurrenceRSVP.findMany({ where: { occurrence: laterOccurrences } });
+          for (const rsvp of rsvps) {
+            await tx.eventOccurrenceRSVP.update({
+              where: { id: rsvp.id },
+              data: { attendeeId: attendeeIdMap.get(rsvp.attendeeId)! },
+            });
+          }
+          await tx.eventOccurrence.updateMany({ where: laterOccurrences, data: { eventId: series.id } });
+        } else {
+          await tx.eventOccurrence.deleteMany({ where: laterOccurrences });
+        }
+
+        return series;
+      });
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
+      if (
+        error instanceof Error &&
+        (OCCURRENCE_ERRORS.includes(error.message) || error.message === 'Cannot split a series at its first occurrence')
+      ) {
+        throw error;
+      }
+      throw new Error(`Failed to split series: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static async getRecurringEvent(userId: string, eventId: string): Promise<Event> {
+    const event = await prisma.event.findFirst({
+      where: { id: eventId, userId },
+    });
+
+    if (!event) {
+      throw new Error('Event not found');
+    }
+    if (!getEventRecurrenceRule(event)) {
+      throw new Error('Event is not recurring');
+    }
+
+    return event;
+  }
+
+  /**
+   * Check that a date is an occurrence of the series; returns its instant
+   */
+  private static assertOccurrence(event: Event, occurrenceDate: Date): Date {
+    const occurrence = occurrenceInstant(event, occurrenceDate);
+    if (!isOccurrence(getEventRecurrenceRule(event)!, event.date, occurrence)) {
+      throw new Error('Occurrence not found');
+    }
+    return occurrence;
+  }
+}
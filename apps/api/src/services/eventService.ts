@@ -1,6 +1,14 @@
 import { Prisma, Event, EventStatus, BudgetTier, RSVPStatus, EventAttendee } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { PaginationParams, PaginatedResponse, getPaginationParams, createPaginatedResponse } from '../types/pagination';
+import {
+  EventOccurrenceService,
+  ExpandedEvent,
+  normalizeEventRecurrencePattern,
+  getDefaultExpansionEnd,
+  toOccurrenceDate,
+} from './eventOccurrenceService';
+import { RecurrenceRuleError } from '../errors/recurrenceErrors';
 
 export interface CreateEventData {
   title: string;
@@ -49,6 +57,7 @@ export interface UpdateEventData {
   linkedSavingsGoalId?: string;
   calendarEventId?: string;
   updateFutureOccurrences?: boolean;
+  occurrenceDate?: Date;
 }
 
 export interface EventFilters {
@@ -64,6 +73,8 @@ export interface EventWithAttendeeCount extends Event {
     attendees: number;
   };
   attendeeCount?: number;
+  occurrenceDate?: Date;
+  occurrenceId?: string | null;
 }
 
 export interface CalendarViewEvent {
@@ -75,6 +86,8 @@ export interface CalendarViewEvent {
   status: EventStatus;
   eventType: string;
   attendeeCount: number;
+  isRecurring?: boolean;
+  occurrenceDate?: Date;
 }
 
 export interface AddAttendeeData {
@@ -116,6 +129,11 @@ export class EventService {
    */
   static async createEvent(userId: string, data: CreateEventData): Promise<Event> {
     try {
+      const recurringPattern =
+        data.isRecurring && data.recurringPattern
+          ? (normalizeEventRecurrencePattern(data.recurringPattern) as unknown as Prisma.InputJsonValue)
+          : data.recurringPattern;
+
       const result = await prisma.$transaction(async (tx) => {
         // Create the event
         const event = await tx.event.create({
@@ -138,8 +156,8 @@ export class EventService {
             budgetTier: data.budgetTier,
             status: data.status ?? 'DRAFT',
             isRecurring: data.isRecurring ?? false,
-            ...(data.recurringPattern !== undefined && {
-              recurringPattern: data.recurringPattern,
+            ...(recurringPattern !== undefined && {
+              recurringPattern,
             }),
             linkedSavingsGoalId: data.linkedSavingsGoalId,
             calendarEventId: data.calendarEventId,
@@ -192,6 +210,9 @@ export class EventService {
 
       return completeEvent!;
     } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
       throw new Error(`Failed to create event: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -199,6 +220,7 @@ export class EventService {
   /**
    * Get events with filters, pagination, and attendee counts
    * Supports both list and calendar view modes
+   * With a date filter, recurring events are expanded into their occurrences
    */
   static async getEvents(
     userId: string,
@@ -207,6 +229,10 @@ export class EventService {
     view: 'list' | 'calendar' = 'list'
   ): Promise<PaginatedResponse<EventWithAttendeeCount | CalendarViewEvent>> {
     try {
+      if (filters?.dateFrom || filters?.dateTo) {
+        return await this.getExpandedEvents(userId, filters, pagination, view);
+      }
+
       const { skip, take } = getPaginationParams(pagination);
 
       const where: Prisma.EventWhereInput = {
@@ -246,16 +272,7 @@ export class EventService {
 
       // Transform for calendar view (lightweight)
       if (view === 'calendar') {
-        const calendarEvents: CalendarViewEvent[] = events.map((event) => ({
-          id: event.id,
-          title: event.title,
-          date: event.date,
-          startTime: event.startTime,
-          endTime: event.endTime,
-          status: event.status,
-          eventType: event.eventType,
-          attendeeCount: event._count?.attendees ?? 0,
-        }));
+        const calendarEvents: CalendarViewEvent[] = events.map((event) => this.toCalendarViewEvent(event));
         return createPaginatedResponse(calendarEvents, total, pagination);
       }
 
@@ -271,6 +288,83 @@ export class EventService {
     }
   }
 
+  /**
+   * Date-filtered events with recurring series expanded into occurrences
+   * Occurrences are generated in memory, so filtering by status and
+   * pagination happen after expansion.
+   */
+  private static async getExpandedEvents(
+    userId: string,
+    filters: EventFilters,
+    pagination: PaginationParams | undefined,
+    view: 'list' | 'calendar'
+  ): Promise<PaginatedResponse<EventWithAttendeeCount | CalendarViewEvent>> {
+    const from = filters.dateFrom ?? new Date(0);
+    const to = filters.dateTo ?? getDefaultExpansionEnd(from);
+
+    const events = await prisma.event.findMany({
+      where: {
+        userId,
+        ...(filters.eventType && { eventType: filters.eventType }),
+        ...(filters.budgetTier && { budgetTier: filters.budgetTier }),
+        OR: [
+          { isRecurring: false, date: { gte: from, lte: to } },
+          // Overrides can move occurrences earlier than the series start
+          { isRecurring: true, date: { lte: to } },
+        ],
+      },
+      orderBy: { date: 'asc' },
+      include: {
+        attendees: view === 'list' ? {
+          include: {
+            contact: true,
+          },
+        } : false,
+        _count: {
+          select: { attendees: true },
+        },
+      },
+    });
+
+    const expanded = (await EventOccurrenceService.expandEvents(events, from, to)).filter(
+      (event) => !filters.status || event.status === filters.status
+    );
+
+    const { skip, take } = getPaginationParams(pagination);
+    const page = expanded.slice(skip, skip + take);
+
+    if (view === 'calendar') {
+      return createPaginatedResponse(
+        page.map((event) => this.toCalendarViewEvent(event)),
+        expanded.length,
+        pagination
+      );
+    }
+
+    const eventsWithCount: EventWithAttendeeCount[] = page.map((event) => ({
+      ...event,
+      attendeeCount: event._count?.attendees ?? 0,
+    }));
+
+    return createPaginatedResponse(eventsWithCount, expanded.length, pagination);
+  }
+
+  private static toCalendarViewEvent(
+    event: ExpandedEvent & { _count?: { attendees: number } }
+  ): CalendarViewEvent {
+    return {
+      id: event.id,
+      title: event.title,
+      date: event.date,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      status: event.status,
+      eventType: event.eventType,
+      attendeeCount: event._count?.attendees ?? 0,
+      ...(event.isRecurring && { isRecurring: true, occurrenceDate: event.occurrenceDate }),
+    };
+  }
+
   /**
    * Get events by month for calendar view
    */
@@ -286,10 +380,10 @@ export class EventService {
       const events = await prisma.event.findMany({
         where: {
           userId,
-          date: {
-            gte: startDate,
-            lte: endDate,
-          },
+          OR: [
+            { isRecurring: false, date: { gte: startDate, lte: endDate } },
+            { isRecurring: true, date: { lte: endDate } },
+          ],
         },
         orderBy: { date: 'asc' },
         include: {
@@ -299,16 +393,9 @@ export class EventService {
         },
       });
 
-      return events.map((event) => ({
-        id: event.id,
-        title: event.title,
-        date: event.date,
-        startTime: event.startTime,
-        endTime: event.endTime,
-        status: event.status,
-        eventType: event.eventType,
-        attendeeCount: event._count?.attendees ?? 0,
-      }));
+      const expanded = await EventOccurrenceService.expandEvents(events, startDate, endDate);
+
+      return expanded.map((event) => this.toCalendarViewEvent(event));
     } catch (error) {
       throw new Error(`Failed to get events by month: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -406,25 +493,25 @@ export class EventService {
         throw new Error('Event not found');
       }
 
-      const { recurringPattern, updateFutureOccurrences, ...rest } = data;
-
-      // For recurring events, handle future occurrences if requested
-      if (existingEvent.isRecurring && updateFutureOccurrences) {
-        // Update all future occurrences with the same recurring pattern
-        await prisma.event.updateMany({
-          where: {
-            userId,
-            recurringPattern: existingEvent.recurringPattern as Prisma.InputJsonValue,
-            date: { gte: existingEvent.date },
-          },
-          data: {
-            ...rest,
-            ...(recurringPattern !== undefined && { recurringPattern }),
-            updatedAt: new Date(),
-          },
-        });
+      const { updateFutureOccurrences, occurrenceDate, ...rest } = data;
+
+      // Editing "this and future" occurrences splits the series at that occurrence;
+      // from the first occurrence it's simply an edit of the whole series
+      if (
+        existingEvent.isRecurring &&
+        updateFutureOccurrences &&
+        occurrenceDate &&
+        toOccurrenceDate(occurrenceDate).getTime() !== toOccurrenceDate(existingEvent.date).getTime()
+      ) {
+        const series = await EventOccurrenceService.splitSeries(userId, eventId, occurrenceDate, rest);
+        return (await this.getEventById(userId, series.id))!;
       }
 
+      const recurringPattern =
+        (rest.isRecurring ?? existingEvent.isRecurring) && rest.recurringPattern
+          ? (normalizeEventRecurrencePattern(rest.recurringPattern) as unknown as Prisma.InputJsonValue)
+          : rest.recurringPattern;
+
       const event = await prisma.event.update({
         where: { id: eventId },
         data: {
@@ -444,7 +531,13 @@ export class EventService {
 
       return event;
     } catch (error) {
-      if (error instanceof Error && error.message === 'Event not found') {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
+      if (
+        error instanceof Error &&
+        ['Event not found', 'Occurrence not found', 'Cannot split a series at its first occurrence'].includes(error.message)
+      ) {
         throw error;
       }
       throw new Error(`Failed to update event: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -0,0 +1,153 @@
+import { FollowUpStatus, Interaction, InteractionFollowUp, Reminder, ReminderStatus, ReminderType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { followUpKey } from '../utils/followUps';
+import { AIService } from './aiService';
+import { ReminderService } from './reminderService';
+
+export interface ConfirmFollowUpData {
+  title?: string;
+  message?: string;
+  scheduledDate?: Date;
+}
+
+export interface FollowUpFilters {
+  status?: FollowUpStatus;
+  contactId?: string;
+  interactionId?: string;
+}
+
+// Errors from claim, rethrown as-is
+const FOLLOW_UP_ERRORS = ['Follow-up not found', 'Follow-up already resolved'];
+
+/**
+ * Follow-ups the AI finds in interaction notes
+ * Nothing becomes a reminder until the user confirms it; rejected ones are kept so
+ * the same notes don't keep resurfacing them.
+ */
+export class FollowUpService {
+  /**
+   * Run the AI over an interaction's notes and store what it finds as pending follow-ups
+   * Follow-ups already found for the interaction, whatever their status, aren't
+   * stored again; only the new ones are returned.
+   */
+  static async extractFromInteraction(
+    userId: string,
+    contact: { id: string; name: string },
+    interaction: Pick<Interaction, 'id' | 'date' | 'notes'>
+  ): Promise<InteractionFollowUp[]> {
+    if (!interaction.notes?.trim()) return [];
+
+    try {
+      const timeZone = await ReminderService.getUserTimezone(userId);
+      const drafts = await AIService.extractFollowUps(userId, {
+        contactName: contact.name,
+        notes: interaction.notes,
+        interactionDate: interaction.date,
+        timeZone,
+      });
+
+      const existing = await prisma.interactionFollowUp.findMany({
+        where: { userId, interactionId: interaction.id },
+        select: { title: true },
+      });
+      const known = new Set(existing.map((followUp) => followUpKey(followUp.title)));
+
+      return await prisma.$transaction(
+        drafts
+          .filter((draft) => !known.has(followUpKey(draft.title)))
+          .map((draft) =>
+            prisma.interactionFollowUp.create({
+              data: { userId, contactId: contact.id, interactionId: interaction.id, ...draft },
+            })
+          )
+      );
+    } catch (error) {
+      throw new Error(`Failed to extract follow-ups: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * The user's follow-ups, soonest due first
+   */
+  static async getFollowUps(userId: string, filters: FollowUpFilters = {}): Promise<InteractionFollowUp[]> {
+    try {
+      return await prisma.interactionFollowUp.findMany({
+        where: { userId, ...filters },
+        include: { contact: { select: { id: true, name: true } } },
+        orderBy: { dueDate: 'asc' },
+      });
+    } catch (error) {
+      throw new Error(`Failed to get follow-ups: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Turn a pending follow-up into a CUSTOM reminder for its contact
+   * Title, message and time can be adjusted on the way.
+   */
+  static async confirmFollowUp(
+    userId: string,
+    followUpId: string,
+    data: ConfirmFollowUpData = {}
+  ): Promise<{ followUp: InteractionFollowUp; reminder: Reminder }> {
+    const followUp = await this.claim(userId, followUpId, FollowUpStatus.CONFIRMED);
+
+    try {
+      const reminder = await ReminderService.createReminder(userId, {
+        contactId: followUp.contactId,
+        type: ReminderType.CUSTOM,
+        title: data.title ?? followUp.title,
+        message: data.message ?? followUp.detail,
+        scheduledDate: data.scheduledDate ?? followUp.dueDate,
+        status: ReminderStatus.PENDING,
+      });
+
+      const confirmed = await prisma.interactionFollowUp.update({
+        where: { id: followUp.id },
+        data: { reminderId: reminder.id },
+      });
+
+      return { followUp: confirmed, reminder };
+    } catch (error) {
+      // Put it back so the user can try again
+      await prisma.interactionFollowUp
+        .update({ where: { id: followUp.id }, data: { status: FollowUpStatus.PENDING } })
+        .catch(() => undefined);
+      throw new Error(`Failed to confirm follow-up: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Dismiss a pending follow-up
+   */
+  static async rejectFollowUp(userId: string, followUpId: string): Promise<InteractionFollowUp> {
+    return this.claim(userId, followUpId, FollowUpStatus.REJECTED);
+  }
+
+  /**
+   * Move a follow-up out of PENDING, so confirming twice can't create two reminders
+   */
+  private static async claim(userId: string, followUpId: string, status: FollowUpStatus): Promise<InteractionFollowUp> {
+    try {
+      const { count } = await prisma.interactionFollowUp.updateMany({
+        where: { id: followUpId, userId, status: FollowUpStatus.PENDING },
+        data: { status },
+      });
+
+      const followUp = await prisma.interactionFollowUp.findFirst({ where: { id: followUpId, userId } });
+      if (!followUp) {
+        throw new Error('Follow-up not found');
+      }
+      if (count === 0) {
+        throw new Error('Follow-up already resolved');
+      }
+
+      return followUp;
+    } catch (error) {
+      if (error instanceof Error && FOLLOW_UP_ERRORS.includes(error.message)) {
+        throw error;
+      }
+      throw new Error(`Failed to update follow-up: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
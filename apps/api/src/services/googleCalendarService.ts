@@ -2,6 +2,7 @@ import { google, calendar_v3 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
 import { prisma } from '../lib/prisma';
 import { encrypt, decrypt } from '../utils/encryption';
+import { eventSyncFields, syncHash } from '../utils/calendarSync';
 
 // Google Calendar API scopes
 const SCOPES = [
@@ -28,6 +29,7 @@ export interface CalendarEvent {
     useDefault: boolean;
     overrides?: Array<{ method: string; minutes: number }>;
   };
+  status?: 'confirmed' | 'tentative' | 'cancelled';
 }
 
 export interface CalendarInfo {
@@ -44,6 +46,12 @@ export interface BusyTime {
   end: string;
 }
 
+export interface CalendarChanges {
+  events: calendar_v3.Schema$Event[];
+  // Pass to the next listChanges call to get only what changed after this one
+  nextSyncToken: string | null;
+}
+
 export interface CalendarCredentials {
   accessToken: string;
   refreshToken: string;
@@ -156,6 +164,11 @@ export class GoogleCalendarService {
       await prisma.calendarCredential.upsert({
         where: { userId },
         update: {
+          // Replaces any other provider the user had connected
+          provider: 'GOOGLE',
+          serverUrl: null,
+          username: null,
+          syncToken: null,
           accessTokenEncrypted: encryptedAccessToken,
           refreshTokenEncrypted: encryptedRefreshToken,
           tokenExpiresAt: new Date(tokens.expiry_date || Date.now() + 3600000),
@@ -254,7 +267,13 @@ export class GoogleCalendarService {
       where: { userId },
     });
 
-    if (!credential || !credential.isActive) {
+    if (
+      !credential ||
+      !credential.isActive ||
+      credential.provider !== 'GOOGLE' ||
+      !credential.refreshTokenEncrypted ||
+      !credential.tokenExpiresAt
+    ) {
       return null;
     }
 
@@ -273,14 +292,14 @@ export class GoogleCalendarService {
   }
 
   /**
-   * Check if user has connected calendar
+   * Check if user has connected Google Calendar
    */
   async isConnected(userId: string): Promise<boolean> {
     const credential = await prisma.calendarCredential.findUnique({
       where: { userId },
-      select: { isActive: true },
+      select: { isActive: true, provider: true },
     });
-    return credential?.isActive || false;
+    return (credential?.isActive && credential.provider === 'GOOGLE') || false;
   }
 
   // ==================== Calendar Operations ====================
@@ -376,6 +395,49 @@ export class GoogleCalendarService {
     }
   }
 
+  /**
+   * Events changed since a sync token, or every event when there's no token
+   * Deleted events are included with status "cancelled". Google expires sync
+   * tokens after a while; that throws "Sync token expired" and the caller should
+   * start over without one.
+   */
+  async listChanges(
+    userId: string,
+    calendarId: string = 'primary',
+    syncToken: string | null
+  ): Promise<CalendarChanges> {
+    const auth = await this.getAuthenticatedClient(userId);
+    const calendar = google.calendar({ version: 'v3', auth });
+
+    try {
+      const events: calendar_v3.Schema$Event[] = [];
+      let pageToken: string | undefined;
+      let nextSyncToken: string | null = null;
+
+      do {
+        const response = await calendar.events.list({
+          calendarId,
+          showDeleted: true,
+          maxResults: 250,
+          ...(syncToken && { syncToken }),
+          ...(pageToken && { pageToken }),
+        });
+
+        events.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+        nextSyncToken = response.data.nextSyncToken || nextSyncToken;
+      } while (pageToken);
+
+      return { events, nextSyncToken };
+    } catch (error) {
+      if ((error as { code?: number }).code === 410) {
+        throw new Error('Sync token expired');
+      }
+      console.error('List changes error:', error);
+      throw new Error(`Failed to list calendar changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Create a calendar event
    */
@@ -438,6 +500,7 @@ export class GoogleCalendarService {
           ...(event.end && { end: event.end }),
           ...(event.attendees && { attendees: event.attendees }),
           ...(event.reminders && { reminders: event.reminders }),
+          ...(event.status && { status: event.status }),
         },
       });
 
@@ -497,6 +560,7 @@ export class GoogleCalendarService {
       timezone: string;
       locationName?: string;
       locationAddress?: string;
+      status: string;
       calendarEventId?: string | null;
     }
   ): Promise<string> {
@@ -526,22 +590,37 @@ export class GoogleCalendarService {
       },
     };
 
-    let googleEventId: string;
+    let saved: calendar_v3.Schema$Event;
 
     if (appEvent.calendarEventId) {
-      // Update existing event
-      const updated = await this.updateEvent(userId, 'primary', appEvent.calendarEventId, calendarEvent);
-      googleEventId = updated.id || appEvent.calendarEventId;
+      // Update existing event; this also restores one deleted in Google
+      saved = await this.updateEvent(userId, 'primary', appEvent.calendarEventId, {
+        ...calendarEvent,
+        status: appEvent.status === 'CANCELLED' ? 'cancelled' : 'confirmed',
+      });
     } else {
       // Create new event
-      const created = await this.createEvent(userId, 'primary', calendarEvent);
-      googleEventId = created.id || '';
+      saved = await this.createEvent(userId, 'primary', calendarEvent);
     }
+    const googleEventId = saved.id || appEvent.calendarEventId || '';
 
-    // Update app event with Google Calendar event ID
+    // Update app event with Google Calendar event ID, and record both sides as in agreement
     await prisma.event.update({
       where: { id: appEvent.id },
-      data: { calendarEventId: googleEventId },
+      data: {
+        calendarEventId: googleEventId,
+        calendarEtag: saved.etag || null,
+        calendarSyncHash: syncHash(
+          eventSyncFields({
+            date: appEvent.date,
+            startTime: appEvent.startTime,
+            endTime: appEvent.endTime,
+            locationName: appEvent.locationName || null,
+            locationAddress: appEvent.locationAddress || null,
+            status: appEvent.status,
+          })
+        ),
+      },
     });
 
     return googleEventId;
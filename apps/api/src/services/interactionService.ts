@@ -1,6 +1,11 @@
-import { Prisma, Interaction, InteractionType, Sentiment } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { Prisma, Interaction, InteractionSource, InteractionType, Sentiment } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { PaginationParams, PaginatedResponse, getPaginationParams, createPaginatedResponse } from '../types/pagination';
+import { AIService } from './aiService';
+import { extractTopics, inferSentiment, isAutoLoggedNote, normalizeTopics } from '../utils/interactionTags';
+import { blindIndex } from '../utils/blindIndex';
+import { summarizeSyncResults, SyncItemResult, SyncSummary, syncedInteractionNotes } from '../utils/interactionSync';
 
 export interface CreateInteractionData {
   type: InteractionType;
@@ -8,6 +13,8 @@ export interface CreateInteractionData {
   duration?: number;
   notes?: string;
   sentiment?: Sentiment;
+  // Tagged from the notes when not given
+  topics?: string[];
 }
 
 export interface AutoLogInteractionData {
@@ -18,13 +25,12 @@ export interface AutoLogInteractionData {
   date: string; // ISO string
   duration?: number;
   direction?: 'incoming' | 'outgoing';
+  source?: Exclude<InteractionSource, 'MANUAL'>; // Defaults to CALL_LOG
   externalId?: string; // Unique ID from call log to prevent duplicates
 }
 
-export interface BatchLogResult {
-  created: number;
-  skipped: number;
-  errors: string[];
+export interface BatchLogResult extends SyncSummary {
+  results: SyncItemResult[];
 }
 
 export interface InteractionStats {
@@ -50,6 +56,8 @@ export class InteractionService {
         throw new Error('Relationship not found');
       }
 
+      const tags = await this.tagNotes(relationship.userId, data);
+
       const interaction = await prisma.interaction.create({
         data: {
           relationshipId,
@@ -57,7 +65,7 @@ export class InteractionService {
           date: data.date,
           duration: data.duration,
           notes: data.notes,
-          sentiment: data.sentiment,
+          ...tags,
         },
       });
 
@@ -79,6 +87,35 @@ export class InteractionService {
     }
   }
 
+  /**
+   * Sentiment and topics for a new interaction
+   * The user's own choices win; otherwise the notes are tagged by the AI, falling
+   * back to keyword matching when it's unavailable.
+   */
+  private static async tagNotes(
+    userId: string,
+    data: CreateInteractionData
+  ): Promise<{ sentiment: Sentiment | null; sentimentInferred: boolean; topics: string[] }> {
+    const topics = data.topics ? normalizeTopics(data.topics) : null;
+    const notes = data.notes?.trim();
+
+    if (!notes || isAutoLoggedNote(notes) || (data.sentiment && topics)) {
+      return { sentiment: data.sentiment ?? null, sentimentInferred: false, topics: topics ?? [] };
+    }
+
+    const tags = await AIService.tagInteraction(userId, notes).catch((error) => {
+      console.warn('Interaction tagging failed:', error);
+      return null;
+    });
+
+    const inferred = data.sentiment ? null : (tags?.sentiment ?? inferSentiment(notes));
+    return {
+      sentiment: data.sentiment ?? inferred,
+      sentimentInferred: !data.sentiment && inferred !== null,
+      topics: topics ?? (tags?.topics.length ? tags.topics : extractTopics(notes)),
+    };
+  }
+
   /**
    * Get interaction history for a relationship
    */
@@ -113,115 +150,193 @@ export class InteractionService {
 
   /**
    * Batch log interactions from auto-sync (call logs, etc.)
+   * Idempotent per source and externalId, so a batch can be sent again after a
+   * partial failure; each item's result says whether it still needs retrying.
    */
   static async batchLogInteractions(
     userId: string,
     interactions: AutoLogInteractionData[]
   ): Promise<BatchLogResult> {
-    const result: BatchLogResult = {
-      created: 0,
-      skipped: 0,
-      errors: [],
-    };
+    const results: SyncItemResult[] = interactions.map((interaction, index) => ({
+      index,
+      externalId: interaction.externalId,
+      status: 'skipped',
+    }));
 
-    for (const interaction of interactions) {
-      try {
-        // Find the contact by ID, phone, or name
-        let contact = null;
+    let relationshipIds: Array<string | null>;
+    try {
+      relationshipIds = await this.matchRelationships(userId, interactions);
+    } catch (error) {
+      throw new Error(`Failed to log interactions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
-        if (interaction.contactId) {
-          contact = await prisma.contact.findFirst({
-            where: { id: interaction.contactId, userId },
-            include: { relationship: true },
-          });
-        } else if (interaction.contactPhone) {
-          // Normalize phone number (remove non-digits)
-          const normalizedPhone = interaction.contactPhone.replace(/\D/g, '');
-          contact = await prisma.contact.findFirst({
-            where: {
-              userId,
-              OR: [
-                { phone: { contains: normalizedPhone.slice(-10) } },
-                { phone: interaction.contactPhone },
-              ],
-            },
-            include: { relationship: true },
-          });
-        }
+    const keyOf = (item: { relationshipId: string; source: InteractionSource; externalId: string }) =>
+      `${item.relationshipId}:${item.source}:${item.externalId}`;
+
+    const pending: Array<{ index: number; key: string | null; data: Prisma.InteractionCreateManyInput }> = [];
+    const batchKeys = new Set<string>();
+
+    interactions.forEach((interaction, index) => {
+      const relationshipId = relationshipIds[index];
+      if (!relationshipId) {
+        results[index].error = 'No matching contact';
+        return;
+      }
+
+      const date = new Date(interaction.date);
+      if (isNaN(date.getTime())) {
+        Object.assign(results[index], { status: 'failed', error: 'Invalid date' });
+        return;
+      }
 
-        if (!contact || !contact.relationship) {
-          // Skip if no matching contact found
-          result.skipped++;
-          continue;
+      const source = interaction.source ?? InteractionSource.CALL_LOG;
+      const key = interaction.externalId ? keyOf({ relationshipId, source, externalId: interaction.externalId }) : null;
+      if (key) {
+        if (batchKeys.has(key)) {
+          results[index].status = 'duplicate';
+          return;
         }
+        batchKeys.add(key);
+      }
 
-        // Check for duplicate using externalId if provided
-        if (interaction.externalId) {
-          const existing = await prisma.interaction.findFirst({
-            where: {
-              relationshipId: contact.relationship.id,
-              notes: { contains: `[auto:${interaction.externalId}]` },
-            },
+      pending.push({
+        index,
+        key,
+        data: {
+          // Generated here so created rows can be matched back to their items
+          id: randomUUID(),
+          relationshipId,
+          type: interaction.type,
+          date,
+          duration: interaction.duration,
+          notes: syncedInteractionNotes(interaction.direction, interaction.type),
+          // Call logs say nothing about how it went
+          sentiment: null,
+          source,
+          externalId: interaction.externalId ?? null,
+        },
+      });
+    });
+
+    if (pending.length > 0) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          const synced = pending.filter(({ key }) => key);
+          const existing = synced.length
+            ? await tx.interaction.findMany({
+                where: {
+                  relationshipId: { in: [...new Set(synced.map(({ data }) => data.relationshipId))] },
+                  externalId: { in: [...new Set(synced.map(({ data }) => data.externalId!))] },
+                },
+                select: { id: true, relationshipId: true, source: true, externalId: true },
+              })
+            : [];
+          const existingIds = new Map(existing.map((row) => [keyOf({ ...row, externalId: row.externalId! }), row.id]));
+
+          const toCreate = pending.filter(({ index, key }) => {
+            const existingId = key ? existingIds.get(key) : undefined;
+            if (existingId) {
+              Object.assign(results[index], { status: 'duplicate', interactionId: existingId });
+            }
+            return !existingId;
           });
 
-          if (existing) {
-            result.skipped++;
-            continue;
+          // skipDuplicates covers a concurrent sync inserting the same item first
+          const created = await tx.interaction.createManyAndReturn({
+            data: toCreate.map(({ data }) => data),
+            skipDuplicates: true,
+            select: { id: true },
+          });
+          const createdIds = new Set(created.map((row) => row.id));
+
+          const latestByRelationship = new Map<string, Date>();
+          for (const { index, data } of toCreate) {
+            if (!createdIds.has(data.id!)) {
+              results[index].status = 'duplicate';
+              continue;
+            }
+            Object.assign(results[index], { status: 'created', interactionId: data.id });
+
+            const date = data.date as Date;
+            const latest = latestByRelationship.get(data.relationshipId);
+            if (!latest || date > latest) latestByRelationship.set(data.relationshipId, date);
           }
-        }
-
-        // Create the interaction
-        const notes = [
-          interaction.direction ? `${interaction.direction} ${interaction.type.toLowerCase()}` : null,
-          interaction.externalId ? `[auto:${interaction.externalId}]` : '[auto-logged]',
-        ]
-          .filter(Boolean)
-          .join(' ');
-
-        await prisma.interaction.create({
-          data: {
-            relationshipId: contact.relationship.id,
-            type: interaction.type,
-            date: new Date(interaction.date),
-            duration: interaction.duration,
-            notes,
-            sentiment: 'NEUTRAL',
-          },
-        });
 
-        // Update relationship's last contact date
-        await prisma.relationship.update({
-          where: { id: contact.relationship.id },
-          data: {
-            lastContactDate: new Date(interaction.date),
-            updatedAt: new Date(),
-          },
+          // Older calls synced late shouldn't wind back the last contact date
+          for (const [relationshipId, date] of latestByRelationship) {
+            await tx.relationship.updateMany({
+              where: { id: relationshipId, OR: [{ lastContactDate: null }, { lastContactDate: { lt: date } }] },
+              data: { lastContactDate: date },
+            });
+          }
         });
-
-        result.created++;
       } catch (error) {
-        result.errors.push(
-          `Failed to log interaction: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        for (const { index } of pending) {
+          Object.assign(results[index], { status: 'failed', error: message, interactionId: undefined });
+        }
       }
     }
 
-    return result;
+    return { ...summarizeSyncResults(results), results };
+  }
+
+  /**
+   * The user's relationship for each synced item, by contact id or phone number
+   * Phone numbers are encrypted, so they're matched on their blind index.
+   */
+  private static async matchRelationships(
+    userId: string,
+    interactions: AutoLogInteractionData[]
+  ): Promise<Array<string | null>> {
+    const phoneHashes = interactions.map((interaction) =>
+      interaction.contactId ? null : blindIndex('phone', interaction.contactPhone)
+    );
+    const contactIds = [...new Set(interactions.map((interaction) => interaction.contactId).filter(Boolean))] as string[];
+
+    const contacts = await prisma.contact.findMany({
+      where: {
+        userId,
+        isDeleted: false,
+        OR: [{ id: { in: contactIds } }, { phoneHash: { in: phoneHashes.filter(Boolean) as string[] } }],
+      },
+      select: { id: true, phoneHash: true, relationships: { where: { userId }, select: { id: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const byId = new Map<string, string>();
+    const byPhone = new Map<string, string>();
+    for (const contact of contacts) {
+      const relationshipId = contact.relationships[0]?.id;
+      if (!relationshipId) continue;
+
+      byId.set(contact.id, relationshipId);
+      // The oldest contact wins when two share a number
+      if (contact.phoneHash && !byPhone.has(contact.phoneHash)) byPhone.set(contact.phoneHash, relationshipId);
+    }
+
+    return interactions.map((interaction, index) => {
+      if (interaction.contactId) return byId.get(interaction.contactId) ?? null;
+      const phoneHash = phoneHashes[index];
+      return phoneHash ? (byPhone.get(phoneHash) ?? null) : null;
+    });
   }
 
   /**
    * Get last sync timestamp for a user
+   * The date of the newest interaction synced from the call log.
    */
   static async getLastSyncTime(userId: string): Promise<Date | null> {
-    const lastAutoInteraction = await prisma.interaction.findFirst({
+    const lastSynced = await prisma.interaction.findFirst({
       where: {
         relationship: { userId },
-        notes: { contains: '[auto' },
+        source: InteractionSource.CALL_LOG,
       },
       orderBy: { date: 'desc' },
+      select: { date: true },
     });
 
-    return lastAutoInteraction?.date || null;
+    return lastSynced?.date || null;
   }
 
   /**
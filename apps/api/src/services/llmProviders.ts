@@ -0,0 +1,313 @@
+import fs from 'fs';
+import OpenAI from 'openai';
+import type { AIFeature } from './aiService';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  feature: AIFeature;
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+  // Ask for a JSON object or array; the reply is parsed into `json`
+  json?: 'object' | 'array';
+}
+
+export interface LLMTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  json?: unknown;
+  usage: LLMTokenUsage;
+  provider: string;
+  model: string;
+}
+
+/**
+ * A chat model backend
+ * `complete` throws when the model can't be reached or returns nothing.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+export const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * Pull the first JSON object or array out of a model reply
+ * Models often wrap JSON in prose or code fences; returns undefined when nothing parses.
+ */
+export function extractJSON(content: string, shape: 'object' | 'array'): unknown {
+  const match = content.match(shape === 'object' ? /\{[\s\S]*\}/ : /\[[\s\S]*\]/);
+  if (!match) return undefined;
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return undefined;
+  }
+}
+
+// Rough token count for backends that don't report usage
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function withJSON(completion: LLMCompletion, request: LLMCompletionRequest): LLMCompletion {
+  return request.json ? { ...completion, json: extractJSON(completion.content, request.json) } : completion;
+}
+
+/**
+ * OpenAI, or any server speaking the OpenAI chat completions API (vLLM, Ollama, LM Studio...)
+ */
+export class OpenAIProvider implements LLMProvider {
+  private client: OpenAI;
+  private maxRetries = 3;
+
+  constructor(
+    readonly name: string,
+    options: { apiKey: string; baseURL?: string; organization?: string },
+    // Native JSON mode; many compatible servers reject response_format
+    private jsonMode = true
+  ) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      organization: options.organization,
+    });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    let lastError: unknown = null;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        const response = await this.client.chat.completions.create({
+          model: request.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          // JSON mode only produces objects; arrays are extracted from the text
+          ...(this.jsonMode && request.json === 'object' ? { response_format: { type: 'json_object' as const } } : {}),
+        });
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+          throw new Error(`${this.name} returned an empty response`);
+        }
+
+        const promptTokens = response.usage?.prompt_tokens ?? estimateTokens(request.messages.map((m) => m.content).join('\n'));
+        const completionTokens = response.usage?.completion_tokens ?? estimateTokens(content);
+
+        return withJSON(
+          {
+            content,
+            usage: {
+              promptTokens,
+              completionTokens,
+              totalTokens: response.usage?.total_tokens ?? promptTokens + completionTokens,
+            },
+            provider: this.name,
+            model: response.model || request.model,
+          },
+          request
+        );
+      } catch (error: any) {
+        lastError = error;
+
+        // Handle rate limiting
+        if (error?.status === 429 && attempt < this.maxRetries) {
+          const retryAfter = parseInt(error?.headers?.['retry-after'] || '5', 10);
+          console.warn(`${this.name} rate limited. Retrying in ${retryAfter}s (attempt ${attempt}/${this.maxRetries})`);
+          await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+          continue;
+        }
+
+        // Handle other retryable errors
+        if (error?.status >= 500 && attempt < this.maxRetries) {
+          console.warn(`${this.name} server error. Retrying (attempt ${attempt}/${this.maxRetries})`);
+          await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+          continue;
+        }
+
+        break;
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error(`${this.name} request failed`);
+  }
+}
+
+export type StubFixtures = Partial<Record<AIFeature, unknown>>;
+
+const DEFAULT_STUB_FIXTURES: Record<AIFeature, unknown> = {
+  message_suggestions: {
+    casual: '[stub] Hey! Saw something today that made me think of you, how are things?',
+    warm: "[stub] I've been meaning to message you for ages. How have you been doing lately?",
+    thoughtful: "[stub] I was thinking about our last catch-up and realised how much I miss those chats. Let's find a time soon.",
+  },
+  event_ideas: [
+    {
+      name: '[stub] Sunset picnic',
+      description: 'Pack snacks and catch the sunset at a local park.',
+      estimatedCost: 15,
+      duration: '2-3 hours',
+      venueType: 'outdoor',
+      tips: ['Bring a blanket', 'Check sunset time'],
+    },
+    {
+      name: '[stub] Cook-off night',
+      description: 'Everyone brings one ingredient and you cook together.',
+      estimatedCost: 20,
+      duration: '3 hours',
+      venueType: 'indoor',
+      tips: ['Agree on a cuisine', 'Share the clean-up'],
+    },
+  ],
+  conversation_starters: [
+    {
+      topic: '[stub] Weekend plans',
+      opener: 'Got anything fun lined up this weekend?',
+      followUp: 'Nice, how did that come about?',
+    },
+    {
+      topic: '[stub] Something new',
+      opener: 'Tried anything new lately? Food, shows, anything.',
+      followUp: 'Would you go back?',
+    },
+  ],
+  relationship_tip: {
+    title: '[stub] Small Steps, Strong Bonds',
+    advice: 'Regular small check-ins build closeness faster than rare big gestures.',
+    actionItem: 'Send one friend a two-line message today.',
+    source: 'Stub fixture',
+  },
+  follow_ups: [
+    {
+      title: '[stub] Send the link you mentioned',
+      detail: 'You said you would send them the link after your chat.',
+      dueDate: null,
+      excerpt: 'send the link',
+    },
+  ],
+  interaction_tags: {
+    sentiment: 'POSITIVE',
+    topics: ['[stub] catching up'],
+  },
+};
+
+/**
+ * Deterministic replies from per-feature fixtures, for tests and offline development
+ * Token usage is estimated from the text, so the quota ledger still moves.
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+  readonly requests: LLMCompletionRequest[] = [];
+
+  constructor(private fixtures: StubFixtures = {}) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+
+    const fixture = request.feature in this.fixtures ? this.fixtures[request.feature] : DEFAULT_STUB_FIXTURES[request.feature];
+    if (fixture === undefined || fixture === null) {
+      throw new Error(`No stub fixture for ${request.feature}`);
+    }
+
+    const content = typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+    const promptTokens = estimateTokens(request.messages.map((message) => message.content).join('\n'));
+    const completionTokens = estimateTokens(content);
+
+    return withJSON(
+      {
+        content,
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+        provider: this.name,
+        model: request.model,
+      },
+      request
+    );
+  }
+}
+
+export interface FeatureModel {
+  provider: LLMProvider;
+  model: string;
+}
+
+const providers = new Map<string, LLMProvider>();
+
+function createProvider(kind: string, env: NodeJS.ProcessEnv): LLMProvider | null {
+  switch (kind) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) return null;
+      return new OpenAIProvider('openai', { apiKey: env.OPENAI_API_KEY, organization: env.OPENAI_ORG_ID });
+    case 'openai-compatible':
+      if (!env.AI_COMPATIBLE_BASE_URL) {
+        throw new Error('AI_COMPATIBLE_BASE_URL must be set when using the openai-compatible provider');
+      }
+      return new OpenAIProvider(
+        'openai-compatible',
+        // Local servers usually ignore the key, but the SDK requires one
+        { apiKey: env.AI_COMPATIBLE_API_KEY || 'not-needed', baseURL: env.AI_COMPATIBLE_BASE_URL },
+        env.AI_COMPATIBLE_JSON_MODE === 'true'
+      );
+    case 'stub':
+      return new StubProvider(
+        env.AI_STUB_FIXTURES ? (JSON.parse(fs.readFileSync(env.AI_STUB_FIXTURES, 'utf8')) as StubFixtures) : {}
+      );
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown AI provider: ${kind}`);
+  }
+}
+
+let override: LLMProvider | null = null;
+
+/**
+ * Use one provider for every feature regardless of configuration (tests)
+ * Pass null to go back to the environment's providers.
+ */
+export function setLLMProvider(next: LLMProvider | null): void {
+  override = next;
+  providers.clear();
+}
+
+/**
+ * The provider and model a feature uses
+ * AI_<FEATURE>_PROVIDER / AI_<FEATURE>_MODEL (e.g. AI_EVENT_IDEAS_MODEL) override
+ * AI_PROVIDER / AI_MODEL, which default to OpenAI and OPENAI_MODEL or gpt-4o-mini.
+ * Returns null when the feature has no usable provider (e.g. no API key), so
+ * callers fall back to canned responses.
+ */
+export function getFeatureModel(feature: AIFeature, env: NodeJS.ProcessEnv = process.env): FeatureModel | null {
+  const prefix = `AI_${feature.toUpperCase()}`;
+  const kind = (env[`${prefix}_PROVIDER`] || env.AI_PROVIDER || 'openai').toLowerCase();
+  const model =
+    env[`${prefix}_MODEL`] ||
+    env.AI_MODEL ||
+    (kind === 'openai-compatible' ? env.AI_COMPATIBLE_MODEL : env.OPENAI_MODEL) ||
+    DEFAULT_MODEL;
+
+  if (override) {
+    return { provider: override, model };
+  }
+
+  // Provider instances are shared across features using the same backend
+  if (!providers.has(kind)) {
+    const provider = createProvider(kind, env);
+    if (!provider) return null;
+    providers.set(kind, provider);
+  }
+
+  return { provider: providers.get(kind)!, model };
+}
@@ -0,0 +1,391 @@
+import axios from 'axios';
+import { CalendarProvider } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { encrypt, decrypt } from '../utils/encryption';
+import type { BusyTime, CalendarInfo } from './googleCalendarService';
+import type {
+  CalendarProviderAdapter,
+  ConnectInput,
+  ProviderEvent,
+  ProviderEventInput,
+  ProviderEventRef,
+} from './calendarProviders';
+
+// Microsoft Graph scopes; offline_access is what returns a refresh token
+const SCOPES = ['offline_access', 'Calendars.ReadWrite', 'User.Read'];
+
+const GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+const REQUEST_TIMEOUT_MS = 15000;
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  scope?: string;
+}
+
+interface GraphCalendar {
+  id: string;
+  name: string;
+  hexColor?: string;
+  canEdit?: boolean;
+  isDefaultCalendar?: boolean;
+}
+
+interface GraphEvent {
+  id: string;
+  subject?: string | null;
+  start: { dateTime: string; timeZone: string };
+  end: { dateTime: string; timeZone: string };
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  showAs?: string;
+  '@odata.etag'?: string;
+}
+
+/**
+ * Microsoft Calendar Service
+ * Outlook.com and Microsoft 365 calendars through Microsoft Graph, connected
+ * with OAuth. Times are sent and read in UTC.
+ */
+export class MicrosoftCalendarService implements CalendarProviderAdapter {
+  readonly provider = CalendarProvider.OUTLOOK;
+  readonly authType = 'oauth' as const;
+
+  private clientId: string;
+  private clientSecret: string;
+  private redirectUri: string;
+  private authority: string;
+
+  constructor() {
+    this.clientId = process.env.MICROSOFT_CLIENT_ID || '';
+    this.clientSecret = process.env.MICROSOFT_CLIENT_SECRET || '';
+    this.redirectUri =
+      process.env.MICROSOFT_CALENDAR_REDIRECT_URI || 'http://localhost:3000/api/calendar/auth/outlook/callback';
+    this.authority = `https://login.microsoftonline.com/${process.env.MICROSOFT_TENANT_ID || 'common'}/oauth2/v2.0`;
+  }
+
+  // ==================== OAuth Methods ====================
+
+  /**
+   * Generate OAuth consent URL
+   */
+  getAuthUrl(userId: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      response_type: 'code',
+      redirect_uri: this.redirectUri,
+      response_mode: 'query',
+      scope: SCOPES.join(' '),
+      prompt: 'consent',
+      state: userId, // Pass userId to identify user in callback
+    });
+    return `${this.authority}/authorize?${params.toString()}`;
+  }
+
+  /**
+   * Exchange the OAuth code for tokens and save them
+   */
+  async connect(userId: string, input: ConnectInput): Promise<void> {
+    if (!('code' in input)) {
+      throw new Error('Outlook Calendar connects through OAuth');
+    }
+
+    try {
+      const tokens = await this.requestToken({
+        grant_type: 'authorization_code',
+        code: input.code,
+        redirect_uri: this.redirectUri,
+      });
+      if (!tokens.refresh_token) {
+        throw new Error('Failed to obtain tokens');
+      }
+
+      const calendars = await this.graph<{ value: GraphCalendar[] }>(tokens.access_token, 'GET', '/me/calendars');
+      const primaryCalendar = calendars.value.find((calendar) => calendar.isDefaultCalendar);
+
+      const data = {
+        provider: this.provider,
+        accessTokenEncrypted: encrypt(tokens.access_token),
+        refreshTokenEncrypted: encrypt(tokens.refresh_token),
+        tokenExpiresAt: new Date(Date.now() + tokens.expires_in * 1000),
+        scope: tokens.scope,
+        serverUrl: null,
+        username: null,
+        primaryCalendarId: primaryCalendar?.id,
+        syncToken: null,
+        isActive: true,
+      };
+
+      await prisma.calendarCredential.upsert({
+        where: { userId },
+        update: { ...data, updatedAt: new Date() },
+        create: { userId, ...data },
+      });
+    } catch (error) {
+      console.error('Outlook OAuth callback error:', error);
+      throw new Error(`Failed to complete OAuth flow: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove stored tokens
+   * Graph has no revocation endpoint for a single grant; users remove the app
+   * from their Microsoft account to revoke it there.
+   */
+  async disconnect(userId: string): Promise<void> {
+    await prisma.calendarCredential.delete({ where: { userId } }).catch(() => {
+      // Ignore if credentials don't exist
+    });
+  }
+
+  // ==================== Calendar Operations ====================
+
+  async listCalendars(userId: string): Promise<CalendarInfo[]> {
+    const accessToken = await this.getAccessToken(userId);
+
+    try {
+      const calendars = await this.graph<{ value: GraphCalendar[] }>(accessToken, 'GET', '/me/calendars');
+      return calendars.value.map((calendar) => ({
+        id: calendar.id,
+        summary: calendar.name || 'Untitled',
+        primary: calendar.isDefaultCalendar || false,
+        backgroundColor: calendar.hexColor || undefined,
+        accessRole: calendar.canEdit ? 'owner' : 'reader',
+      }));
+    } catch (error) {
+      console.error('List Outlook calendars error:', error);
+      throw new Error(`Failed to list calendars: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async listEvents(userId: string, calendarId: string, timeMin: Date, timeMax: Date): Promise<ProviderEvent[]> {
+    const accessToken = await this.getAccessToken(userId);
+
+    try {
+      const events = await this.calendarView(accessToken, calendarId, timeMin, timeMax);
+      return events
+        .filter((event) => !event.isCancelled)
+        .map((event) => ({
+          id: event.id,
+          summary: event.subject || null,
+          start: new Date(`${event.start.dateTime}Z`),
+          end: new Date(`${event.end.dateTime}Z`),
+          allDay: event.isAllDay || false,
+          busy: event.showAs !== 'free',
+        }));
+    } catch (error) {
+      console.error('Get Outlook events error:', error);
+      throw new Error(`Failed to get events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getBusyTimes(
+    userId: string,
+    calendarIds: string[],
+    timeMin: Date,
+    timeMax: Date
+  ): Promise<Record<string, BusyTime[]>> {
+    const busyTimes: Record<string, BusyTime[]> = {};
+
+    for (const calendarId of calendarIds) {
+      const events = await this.listEvents(userId, calendarId, timeMin, timeMax);
+      busyTimes[calendarId] = events
+        .filter((event) => event.busy)
+        .map((event) => ({ start: event.start.toISOString(), end: event.end.toISOString() }));
+    }
+
+    return busyTimes;
+  }
+
+  async createEvent(userId: string, calendarId: string, event: ProviderEventInput): Promise<ProviderEventRef> {
+    const accessToken = await this.getAccessToken(userId);
+
+    try {
+      const created = await this.graph<GraphEvent>(accessToken, 'POST', `${this.calendarPath(calendarId)}/events`, {
+        ...this.toGraphEvent(event),
+        // Makes a retried create return the first event instead of a duplicate
+        transactionId: event.uid,
+      });
+      await this.touch(userId);
+      return { id: created.id, etag: created['@odata.etag'] || null };
+    } catch (error) {
+      console.error('Create Outlook event error:', error);
+      throw new Error(`Failed to create event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update an event, or cancel it when the input is cancelled
+   */
+  async updateEvent(
+    userId: string,
+    _calendarId: string,
+    eventId: string,
+    event: ProviderEventInput
+  ): Promise<ProviderEventRef> {
+    const accessToken = await this.getAccessToken(userId);
+    const path = `/me/events/${encodeURIComponent(eventId)}`;
+
+    try {
+      if (event.cancelled) {
+        await this.graph(accessToken, 'POST', `${path}/cancel`, { comment: 'This event was cancelled.' });
+        await this.touch(userId);
+        return { id: eventId, etag: null };
+      }
+
+      const updated = await this.graph<GraphEvent>(accessToken, 'PATCH', path, this.toGraphEvent(event));
+      await this.touch(userId);
+      return { id: updated.id, etag: updated['@odata.etag'] || null };
+    } catch (error) {
+      console.error('Update Outlook event error:', error);
+      throw new Error(`Failed to update event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteEvent(userId: string, _calendarId: string, eventId: string): Promise<void> {
+    const accessToken = await this.getAccessToken(userId);
+
+    try {
+      await this.graph(accessToken, 'DELETE', `/me/events/${encodeURIComponent(eventId)}`);
+      await this.touch(userId);
+    } catch (error) {
+      console.error('Delete Outlook event error:', error);
+      throw new Error(`Failed to delete event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * A valid access token, refreshed if it's about to expire
+   */
+  private async getAccessToken(userId: string): Promise<string> {
+    const credential = await prisma.calendarCredential.findUnique({ where: { userId } });
+    if (!credential?.isActive || credential.provider !== this.provider || !credential.refreshTokenEncrypted) {
+      throw new Error('Calendar not connected. Please authenticate first.');
+    }
+
+    if (credential.tokenExpiresAt && credential.tokenExpiresAt.getTime() > Date.now() + 60000) {
+      return decrypt(credential.accessTokenEncrypted);
+    }
+
+    try {
+      const tokens = await this.requestToken({
+        grant_type: 'refresh_token',
+        refresh_token: decrypt(credential.refreshTokenEncrypted),
+      });
+
+      await prisma.calendarCredential.update({
+        where: { userId },
+        data: {
+          accessTokenEncrypted: encrypt(tokens.access_token),
+          // Microsoft usually rotates the refresh token as well
+          ...(tokens.refresh_token && { refreshTokenEncrypted: encrypt(tokens.refresh_token) }),
+          tokenExpiresAt: new Date(Date.now() + tokens.expires_in * 1000),
+          updatedAt: new Date(),
+        },
+      });
+
+      return tokens.access_token;
+    } catch (error) {
+      console.error('Outlook token refresh error:', error);
+      // Mark credentials as inactive if refresh fails
+      await prisma.calendarCredential.update({
+        where: { userId },
+        data: { isActive: false },
+      });
+      throw new Error('Failed to refresh token. Please re-authenticate.');
+    }
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<TokenResponse> {
+    const response = await axios.post<TokenResponse>(
+      `${this.authority}/token`,
+      new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        scope: SCOPES.join(' '),
+        ...params,
+      }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, timeout: REQUEST_TIMEOUT_MS }
+    );
+    return response.data;
+  }
+
+  private async graph<T = unknown>(
+    accessToken: string,
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+    pathOrUrl: string,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<T> {
+    const response = await axios.request<T>({
+      method,
+      url: pathOrUrl.startsWith('https://') ? pathOrUrl : `${GRAPH_URL}${pathOrUrl}`,
+      data: body,
+      headers: { Authorization: `Bearer ${accessToken}`, ...headers },
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+    return response.data;
+  }
+
+  /**
+   * Every event instance in a range, following Graph's paging links
+   */
+  private async calendarView(
+    accessToken: string,
+    calendarId: string,
+    timeMin: Date,
+    timeMax: Date
+  ): Promise<GraphEvent[]> {
+    const params = new URLSearchParams({
+      startDateTime: timeMin.toISOString(),
+      endDateTime: timeMax.toISOString(),
+      $select: 'id,subject,start,end,isAllDay,isCancelled,showAs',
+      $top: '100',
+    });
+    const events: GraphEvent[] = [];
+    let next: string | undefined = `${this.calendarPath(calendarId)}/calendarView?${params.toString()}`;
+
+    while (next) {
+      const page: { value: GraphEvent[]; '@odata.nextLink'?: string } = await this.graph(
+        accessToken,
+        'GET',
+        next,
+        undefined,
+        { Prefer: 'outlook.timezone="UTC"' }
+      );
+      events.push(...page.value);
+      next = page['@odata.nextLink'];
+    }
+
+    return events;
+  }
+
+  private calendarPath(calendarId: string): string {
+    return calendarId === 'primary' ? '/me/calendar' : `/me/calendars/${encodeURIComponent(calendarId)}`;
+  }
+
+  private toGraphEvent(event: ProviderEventInput) {
+    // Graph takes a wall-clock time plus a timezone name, without an offset
+    const utc = (date: Date) => ({ dateTime: date.toISOString().slice(0, 19), timeZone: 'UTC' });
+    return {
+      subject: event.summary,
+      body: { contentType: 'text', content: event.description || '' },
+      location: { displayName: event.location || '' },
+      start: utc(event.start),
+      end: utc(event.end),
+    };
+  }
+
+  private async touch(userId: string): Promise<void> {
+    await prisma.calendarCredential.update({
+      where: { userId },
+      data: { lastSyncAt: new Date() },
+    });
+  }
+}
+
+// Export singleton instance
+export const microsoftCalendarService = new MicrosoftCalendarService();
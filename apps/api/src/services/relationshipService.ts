@@ -1,5 +1,9 @@
 import { Prisma, Relationship, RelationshipTier, RelationshipType, CommunicationFrequency } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { SharedInterestSuggestion, suggestSharedInterests } from '../utils/interactionTags';
+
+// How many recent interactions shared interest suggestions look at
+const INTEREST_SUGGESTION_HISTORY = 50;
 
 export interface CreateRelationshipData {
   tier: RelationshipTier;
@@ -131,6 +135,34 @@ export class RelationshipService {
     }
   }
 
+  /**
+   * Topics that keep coming up in interactions with a contact but aren't in sharedInterests yet
+   */
+  static async getSharedInterestSuggestions(userId: string, contactId: string): Promise<SharedInterestSuggestion[]> {
+    try {
+      const relationship = await prisma.relationship.findUnique({
+        where: { userId_contactId: { userId, contactId } },
+        select: {
+          sharedInterests: true,
+          interactions: {
+            where: { NOT: { topics: { isEmpty: true } } },
+            select: { date: true, topics: true },
+            orderBy: { date: 'desc' },
+            take: INTEREST_SUGGESTION_HISTORY,
+          },
+        },
+      });
+
+      if (!relationship) {
+        return [];
+      }
+
+      return suggestSharedInterests(relationship.interactions, relationship.sharedInterests);
+    } catch (error) {
+      throw new Error(`Failed to get shared interest suggestions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Get relationships by tier
    */
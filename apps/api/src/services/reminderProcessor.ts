@@ -5,6 +5,13 @@ import { ContactService } from './contactService';
 import { RelationshipService } from './relationshipService';
 import { EventService } from './eventService';
 import { ReminderType, ReminderStatus } from '@prisma/client';
+import {
+  resolveTimezone,
+  getZonedParts,
+  startOfZonedDay,
+  calendarDaysBetween,
+} from '../utils/timezone';
+import { isQuietTime, getQuietHoursEnd } from '../utils/quietHours';
 
 export class ReminderProcessor {
   /**
@@ -37,14 +44,18 @@ export class ReminderProcessor {
               where: { id: reminder.id },
               data: { status: ReminderStatus.DISMISSED },
             });
+            // Keep the series going so it resumes if notifications are re-enabled
+            if (reminder.isRecurring && reminder.recurringPattern) {
+              await ReminderService.advanceSeries(reminder, now);
+            }
             continue;
           }
 
-          // Check quiet hours
-          if (this.isQuietHours(now, prefs?.quietHours)) {
-            // Reschedule for later
-            const nextCheck = new Date(now);
-            nextCheck.setHours(prefs?.quietHours?.endHour || 9, 0, 0, 0);
+          // Check quiet hours in the user's own timezone
+          const timeZone = resolveTimezone(reminder.user.timezone);
+          if (isQuietTime(now, prefs?.quietHours, timeZone)) {
+            // Reschedule for when quiet hours end
+            const nextCheck = getQuietHoursEnd(now, prefs?.quietHours, timeZone)!;
             await prisma.reminder.update({
               where: { id: reminder.id },
               data: { scheduledDate: nextCheck },
@@ -77,7 +88,7 @@ export class ReminderProcessor {
 
           // Handle recurring reminders
           if (reminder.isRecurring && reminder.recurringPattern) {
-            await this.scheduleNextRecurrence(reminder);
+            await ReminderService.advanceSeries(reminder, now);
           }
         } catch (error) {
           console.error(`Failed to process reminder ${reminder.id}:`, error);
@@ -149,21 +160,29 @@ export class ReminderProcessor {
 
   /**
    * Generate birthday reminders (7 days and 1 day before)
+   * "Today" is the user's local date; birthdays are date-only values stored
+   * at UTC midnight, so their calendar day is read in UTC.
    */
-  static async generateBirthdayReminders(userId: string): Promise<void> {
+  static async generateBirthdayReminders(userId: string, timeZone?: string): Promise<void> {
     try {
+      const tz = timeZone ?? (await ReminderService.getUserTimezone(userId));
       const contacts = await ContactService.getContacts(userId, {}, { page: 1, limit: 1000 });
 
+      const now = new Date();
+      const today = getZonedParts(now, tz);
+      const todayStart = startOfZonedDay(now, tz);
+      const tomorrowStart = startOfZonedDay(now, tz, 1);
+
       for (const contact of contacts.data) {
         if (!contact.birthday) continue;
 
         const birthday = new Date(contact.birthday);
-        const today = new Date();
-        const thisYear = new Date(today.getFullYear(), birthday.getMonth(), birthday.getDate());
-        const nextYear = new Date(today.getFullYear() + 1, birthday.getMonth(), birthday.getDate());
-
-        const upcomingBirthday = thisYear >= today ? thisYear : nextYear;
-        const daysUntil = Math.floor((upcomingBirthday.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+        const thisYear = { year: today.year, month: birthday.getUTCMonth() + 1, day: birthday.getUTCDate() };
+        const daysUntilThisYear = calendarDaysBetween(today, thisYear);
+        const daysUntil =
+          daysUntilThisYear >= 0
+            ? daysUntilThisYear
+            : calendarDaysBetween(today, { ...thisYear, year: today.year + 1 });
 
         // Create reminders for 7 days and 1 day before
         for (const daysBefore of [7, 1]) {
@@ -174,8 +193,8 @@ export class ReminderProcessor {
                 contactId: contact.id,
                 type: ReminderType.BIRTHDAY,
                 scheduledDate: {
-                  gte: new Date(today.getFullYear(), today.getMonth(), today.getDate()),
-                  lt: new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1),
+                  gte: todayStart,
+                  lt: tomorrowStart,
                 },
               },
             });
@@ -200,18 +219,34 @@ export class ReminderProcessor {
 
   /**
    * Generate event reminders based on event settings
+   * Days are counted between the user's local date and the event's date.
    */
-  static async generateEventReminders(userId: string): Promise<void> {
+  static async generateEventReminders(userId: string, timeZone?: string): Promise<void> {
     try {
-      const events = await EventService.getEvents(userId, { page: 1, limit: 1000 });
+      const tz = timeZone ?? (await ReminderService.getUserTimezone(userId));
+      const now = new Date();
+      const today = getZonedParts(now, tz);
+      const todayStart = startOfZonedDay(now, tz);
+      const tomorrowStart = startOfZonedDay(now, tz, 1);
+
+      // Bounded window so recurring events are expanded into their occurrences;
+      // padded by a day either side since event dates are UTC calendar days
+      const events = await EventService.getEvents(
+        userId,
+        { dateFrom: startOfZonedDay(now, tz, -1), dateTo: startOfZonedDay(now, tz, 9) },
+        { page: 1, limit: 1000 }
+      );
 
       for (const event of events.data) {
         if (event.status !== 'CONFIRMED' && event.status !== 'PLANNING') continue;
-        if (!event.startDate) continue;
+        if (!event.date) continue;
 
-        const eventDate = new Date(event.startDate);
-        const today = new Date();
-        const daysUntil = Math.floor((eventDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+        const eventDate = new Date(event.date);
+        const daysUntil = calendarDaysBetween(today, {
+          year: eventDate.getUTCFullYear(),
+          month: eventDate.getUTCMonth() + 1,
+          day: eventDate.getUTCDate(),
+        });
 
         // Default reminder days (can be customized per event)
         const reminderDays = [7, 1, 0]; // 1 week, 1 day, day of
@@ -224,8 +259,8 @@ export class ReminderProcessor {
                 eventId: event.id,
                 type: ReminderType.EVENT,
                 scheduledDate: {
-                  gte: new Date(today.getFullYear(), today.getMonth(), today.getDate()),
-                  lt: new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1),
+                  gte: todayStart,
+                  lt: tomorrowStart,
                 },
               },
             });
@@ -268,7 +303,7 @@ export class ReminderProcessor {
         prisma.event.count({
           where: {
             userId,
-            startDate: { gte: weekAgo },
+            date: { gte: weekAgo },
           },
         }),
         prisma.interaction.count({
@@ -292,57 +327,4 @@ export class ReminderProcessor {
       throw error;
     }
   }
-
-  /**
-   * Check if current time is within quiet hours
-   */
-  private static isQuietHours(now: Date, quietHours?: { startHour?: number; endHour?: number }): boolean {
-    if (!quietHours || !quietHours.startHour || !quietHours.endHour) return false;
-
-    const hour = now.getHours();
-    if (quietHours.startHour < quietHours.endHour) {
-      return hour >= quietHours.startHour && hour < quietHours.endHour;
-    } else {
-      // Overnight quiet hours (e.g., 22:00 - 08:00)
-      return hour >= quietHours.startHour || hour < quietHours.endHour;
-    }
-  }
-
-  /**
-   * Schedule next occurrence for recurring reminder
-   */
-  private static async scheduleNextRecurrence(reminder: any): Promise<void> {
-    const pattern = reminder.recurringPattern as any;
-    if (!pattern || !pattern.frequency) return;
-
-    const nextDate = new Date(reminder.scheduledDate);
-    switch (pattern.frequency) {
-      case 'DAILY':
-        nextDate.setDate(nextDate.getDate() + 1);
-        break;
-      case 'WEEKLY':
-        nextDate.setDate(nextDate.getDate() + 7);
-        break;
-      case 'MONTHLY':
-        nextDate.setMonth(nextDate.getMonth() + 1);
-        break;
-      default:
-        return;
-    }
-
-    await prisma.reminder.create({
-      data: {
-        userId: reminder.userId,
-        contactId: reminder.contactId,
-        eventId: reminder.eventId,
-        type: reminder.type,
-        title: reminder.title,
-        message: reminder.message,
-        scheduledDate: nextDate,
-        isRecurring: true,
-        recurringPattern: pattern,
-        status: ReminderStatus.PENDING,
-      },
-    });
-  }
 }
@@ -1,5 +1,16 @@
+import { randomUUID } from 'crypto';
 import { Prisma, Reminder, ReminderType, ReminderStatus } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { resolveTimezone, getZonedParts, zonedTimeToUtc, startOfZonedDay } from '../utils/timezone';
+import {
+  RecurrenceRule,
+  parseRRule,
+  formatRRule,
+  getOccurrences,
+  getNextOccurrence,
+  isOccurrence,
+} from '../utils/recurrence';
+import { RecurrenceRuleError } from '../errors/recurrenceErrors';
 
 export interface CreateReminderData {
   contactId?: string;
@@ -22,6 +33,34 @@ export interface UpdateReminderData {
   status?: ReminderStatus;
 }
 
+/**
+ * Stored shape of Reminder.recurringPattern
+ * `dtstart` anchors COUNT and the local time of day; `exdates` are skipped
+ * occurrences. Older reminders store `{ frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' }`,
+ * which is still accepted and upgraded when the series advances.
+ */
+export interface RecurrencePattern {
+  rrule: string;
+  dtstart: string;
+  timeZone: string;
+  exdates?: string[];
+}
+
+/**
+ * Which occurrences an edit to a recurring reminder applies to
+ */
+export type RecurrenceEditScope = 'THIS' | 'FUTURE';
+
+// Errors from getPendingRecurringReminder, rethrown as-is
+const SERIES_ERRORS = ['Reminder not found', 'Reminder is not recurring', 'Reminder occurrence is no longer pending'];
+
+interface ResolvedSeries {
+  rule: RecurrenceRule;
+  dtstart: Date;
+  timeZone: string;
+  exdates: Date[];
+}
+
 export interface ReminderFilters {
   type?: ReminderType;
   status?: ReminderStatus;
@@ -66,23 +105,43 @@ export class ReminderService {
         }
       }
 
+      // Recurring reminders start at the first occurrence on/after scheduledDate
+      let series: { id: string; pattern: RecurrencePattern; firstOccurrence: Date } | null = null;
+      if (data.isRecurring && data.recurringPattern) {
+        const timeZone = await this.getUserTimezone(userId);
+        const resolved = this.resolveSeries(data.recurringPattern as Prisma.JsonValue, data.scheduledDate, timeZone);
+        const [firstOccurrence] = getOccurrences(resolved.rule, resolved.dtstart, {
+          timeZone: resolved.timeZone,
+          exdates: resolved.exdates,
+          limit: 1,
+        });
+        if (!firstOccurrence) {
+          throw new RecurrenceRuleError('Recurrence rule has no occurrences');
+        }
+        series = { id: randomUUID(), pattern: this.toPattern(resolved), firstOccurrence };
+      }
+
       const reminder = await prisma.reminder.create({
         data: {
+          ...(series && { id: series.id, seriesId: series.id, occurrenceDate: series.firstOccurrence }),
           userId,
           contactId: data.contactId,
           eventId: data.eventId,
           type: data.type,
           title: data.title,
           message: data.message,
-          scheduledDate: data.scheduledDate,
+          scheduledDate: series?.firstOccurrence ?? data.scheduledDate,
           isRecurring: data.isRecurring ?? false,
-          recurringPattern: data.recurringPattern,
+          recurringPattern: series ? (series.pattern as unknown as Prisma.InputJsonValue) : data.recurringPattern,
           status: data.status ?? 'PENDING',
         },
       });
 
       return reminder;
     } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
       if (error instanceof Error && (error.message === 'Contact not found' || error.message === 'Event not found')) {
         throw error;
       }
@@ -163,6 +222,11 @@ export class ReminderService {
         },
       });
 
+      // Dismissing one occurrence doesn't end the series
+      if (reminder.isRecurring && reminder.recurringPattern) {
+        await this.advanceSeries(reminder);
+      }
+
       return reminder;
     } catch (error) {
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
@@ -236,22 +300,24 @@ export class ReminderService {
     contactName: string
   ): Promise<Reminder> {
     try {
+      const timeZone = await this.getUserTimezone(userId);
+
       // Schedule for 6 hours from now
-      const followUpTime = new Date();
-      followUpTime.setHours(followUpTime.getHours() + 6);
-      
-      // Don't schedule past 10 PM - push to next morning at 9 AM
-      if (followUpTime.getHours() >= 22) {
-        followUpTime.setDate(followUpTime.getDate() + 1);
-        followUpTime.setHours(9, 0, 0, 0);
+      let followUpTime = new Date(Date.now() + 6 * 60 * 60 * 1000);
+      const local = getZonedParts(followUpTime, timeZone);
+
+      // Don't schedule past 10 PM local time - push to next morning at 9 AM
+      if (local.hour >= 22) {
+        followUpTime = zonedTimeToUtc({ year: local.year, month: local.month, day: local.day + 1, hour: 9 }, timeZone);
       }
-      
-      // Don't schedule before 8 AM - push to 8 AM same day
-      if (followUpTime.getHours() < 8) {
-        followUpTime.setHours(8, 0, 0, 0);
+
+      // Don't schedule before 8 AM local time - push to 8 AM same day
+      if (local.hour < 8) {
+        followUpTime = zonedTimeToUtc({ year: local.year, month: local.month, day: local.day, hour: 8 }, timeZone);
       }
 
-      // Check if a similar follow-up already exists for today
+      // Check if a similar follow-up already exists for today (user's local day)
+      const now = new Date();
       const existingFollowUp = await prisma.reminder.findFirst({
         where: {
           userId,
@@ -260,8 +326,8 @@ export class ReminderService {
           title: { contains: 'Log your interaction' },
           status: 'PENDING',
           scheduledDate: {
-            gte: new Date(new Date().setHours(0, 0, 0, 0)), // Start of today
-            lte: new Date(new Date().setHours(23, 59, 59, 999)), // End of today
+            gte: startOfZonedDay(now, timeZone), // Start of today
+            lt: startOfZonedDay(now, timeZone, 1), // Start of tomorrow
           },
         },
       });
@@ -331,4 +397,315 @@ export class ReminderService {
       throw new Error(`Failed to delete reminder: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
+
+  /**
+   * Create the next pending reminder in a recurring series
+   * The next occurrence is the first one after both this reminder's occurrence
+   * and `after`, so missed occurrences aren't replayed. Returns null when the
+   * series has ended.
+   */
+  static async advanceSeries(reminder: Reminder, after: Date = new Date()): Promise<Reminder | null> {
+    try {
+      if (!reminder.isRecurring || !reminder.recurringPattern) return null;
+
+      const seriesId = reminder.seriesId ?? reminder.id;
+      const current = reminder.occurrenceDate ?? reminder.scheduledDate;
+
+      // Only one pending occurrence per series
+      const pending = await prisma.reminder.findFirst({
+        where: {
+          seriesId,
+          isRecurring: true,
+          status: ReminderStatus.PENDING,
+          id: { not: reminder.id },
+        },
+      });
+      if (pending) return pending;
+
+      const timeZone = await this.getUserTimezone(reminder.userId);
+      const series = this.resolveSeries(reminder.recurringPattern, current, timeZone);
+      const next = getNextOccurrence(series.rule, series.dtstart, current > after ? current : after, {
+        timeZone: series.timeZone,
+        exdates: series.exdates,
+      });
+      if (!next) return null;
+
+      return await prisma.reminder.create({
+        data: {
+          userId: reminder.userId,
+          contactId: reminder.contactId,
+          eventId: reminder.eventId,
+          type: reminder.type,
+          title: reminder.title,
+          message: reminder.message,
+          scheduledDate: next,
+          occurrenceDate: next,
+          seriesId,
+          isRecurring: true,
+          recurringPattern: this.toPattern(series) as unknown as Prisma.InputJsonValue,
+          status: ReminderStatus.PENDING,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to schedule next occurrence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Skip a single occurrence of a recurring reminder
+   * Defaults to the reminder's own occurrence, which moves it to the next one
+   * (or dismisses it when the series has ended). A later occurrence can be
+   * skipped by passing its date.
+   */
+  static async skipOccurrence(userId: string, reminderId: string, occurrenceDate?: Date): Promise<Reminder> {
+    try {
+      const reminder = await this.getPendingRecurringReminder(userId, reminderId);
+      const timeZone = await this.getUserTimezone(userId);
+      const current = reminder.occurrenceDate ?? reminder.scheduledDate;
+      const series = this.resolveSeries(reminder.recurringPattern!, current, timeZone);
+
+      const target = occurrenceDate ?? current;
+      if (target < current || !isOccurrence(series.rule, series.dtstart, target, { timeZone: series.timeZone })) {
+        throw new Error('Occurrence not found');
+      }
+
+      if (!series.exdates.some((date) => date.getTime() === target.getTime())) {
+        series.exdates.push(target);
+      }
+      const recurringPattern = this.toPattern(series) as unknown as Prisma.InputJsonValue;
+
+      if (target.getTime() !== current.getTime()) {
+        return await prisma.reminder.update({
+          where: { id: reminder.id },
+          data: { recurringPattern, updatedAt: new Date() },
+        });
+      }
+
+      const next = getNextOccurrence(series.rule, series.dtstart, current, {
+        timeZone: series.timeZone,
+        exdates: series.exdates,
+      });
+
+      return await prisma.reminder.update({
+        where: { id: reminder.id },
+        data: next
+          ? { recurringPattern, scheduledDate: next, occurrenceDate: next, updatedAt: new Date() }
+          : { recurringPattern, status: ReminderStatus.DISMISSED, updatedAt: new Date() },
+      });
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
+      if (error instanceof Error && (SERIES_ERRORS.includes(error.message) || error.message === 'Occurrence not found')) {
+        throw error;
+      }
+      throw new Error(`Failed to skip occurrence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Edit a recurring reminder
+   * THIS detaches the pending occurrence into a one-off reminder and schedules
+   * the next occurrence unchanged. FUTURE rewrites the series from this
+   * occurrence on; a new scheduledDate or recurringPattern restarts the rule
+   * there, carrying over whatever is left of COUNT.
+   */
+  static async updateRecurringReminder(
+    userId: string,
+    reminderId: string,
+    data: UpdateReminderData,
+    scope: RecurrenceEditScope
+  ): Promise<Reminder> {
+    try {
+      const reminder = await this.getPendingRecurringReminder(userId, reminderId);
+      const current = reminder.occurrenceDate ?? reminder.scheduledDate;
+
+      if (scope === 'THIS') {
+        if (data.recurringPattern !== undefined || data.isRecurring !== undefined) {
+          throw new RecurrenceRuleError('Recurrence can only be changed for future occurrences');
+        }
+
+        await this.advanceSeries(reminder, current);
+
+        return await prisma.reminder.update({
+          where: { id: reminder.id },
+          data: {
+            ...data,
+            isRecurring: false,
+            recurringPattern: Prisma.DbNull,
+            updatedAt: new Date(),
+          },
+        });
+      }
+
+      // Ending the series: keep this occurrence as a one-off
+      if (data.isRecurring === false) {
+        return await prisma.reminder.update({
+          where: { id: reminder.id },
+          data: { ...data, recurringPattern: Prisma.DbNull, updatedAt: new Date() },
+        });
+      }
+
+      if (data.recurringPattern === undefined && data.scheduledDate === undefined) {
+        return await prisma.reminder.update({
+          where: { id: reminder.id },
+          data: { ...data, updatedAt: new Date() },
+        });
+      }
+
+      const timeZone = await this.getUserTimezone(userId);
+      const existing = this.resolveSeries(reminder.recurringPattern!, current, timeZone);
+      const dtstart = data.scheduledDate ?? current;
+
+      let series: ResolvedSeries;
+      if (data.recurringPattern !== undefined) {
+        series = this.resolveSeries(data.recurringPattern as Prisma.JsonValue, dtstart, timeZone);
+      } else {
+        // Same rule from a new start: only the remaining occurrences carry over
+        const rule = { ...existing.rule };
+        if (rule.count !== undefined) {
+          const elapsed = getOccurrences(existing.rule, existing.dtstart, {
+            timeZone: existing.timeZone,
+            to: new Date(current.getTime() - 1),
+          }).length;
+          rule.count = rule.count - elapsed;
+        }
+        series = {
+          rule,
+          dtstart,
+          timeZone: existing.timeZone,
+          exdates: existing.exdates.filter((date) => date >= dtstart),
+        };
+      }
+
+      const [firstOccurrence] = getOccurrences(series.rule, series.dtstart, {
+        timeZone: series.timeZone,
+        exdates: series.exdates,
+        limit: 1,
+      });
+      if (!firstOccurrence) {
+        throw new RecurrenceRuleError('Recurrence rule has no occurrences');
+      }
+
+      return await prisma.reminder.update({
+        where: { id: reminder.id },
+        data: {
+          ...data,
+          scheduledDate: firstOccurrence,
+          occurrenceDate: firstOccurrence,
+          seriesId: reminder.seriesId ?? reminder.id,
+          recurringPattern: this.toPattern(series) as unknown as Prisma.InputJsonValue,
+          updatedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
+      if (error instanceof Error && SERIES_ERRORS.includes(error.message)) {
+        throw error;
+      }
+      throw new Error(`Failed to update reminder: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List upcoming occurrences of a recurring reminder's series
+   */
+  static async getUpcomingOccurrences(
+    userId: string,
+    reminderId: string,
+    options: { from?: Date; to?: Date; limit?: number } = {}
+  ): Promise<Date[]> {
+    try {
+      const reminder = await this.getPendingRecurringReminder(userId, reminderId);
+      const timeZone = await this.getUserTimezone(userId);
+      const current = reminder.occurrenceDate ?? reminder.scheduledDate;
+      const series = this.resolveSeries(reminder.recurringPattern!, current, timeZone);
+
+      return getOccurrences(series.rule, series.dtstart, {
+        timeZone: series.timeZone,
+        exdates: series.exdates,
+        from: options.from && options.from > current ? options.from : current,
+        to: options.to,
+        limit: options.limit ?? 20,
+      });
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw error;
+      }
+      if (error instanceof Error && SERIES_ERRORS.includes(error.message)) {
+        throw error;
+      }
+      throw new Error(`Failed to get occurrences: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Resolve a stored or submitted recurringPattern into a rule and anchor
+   * Legacy `{ frequency }` patterns and patterns without a dtstart are
+   * anchored at `fallbackStart`.
+   */
+  static resolveSeries(pattern: Prisma.JsonValue, fallbackStart: Date, fallbackTimeZone: string): ResolvedSeries {
+    const value = (pattern ?? {}) as Record<string, unknown>;
+
+    let rrule: string;
+    if (typeof value.rrule === 'string') {
+      rrule = value.rrule;
+    } else if (typeof value.frequency === 'string') {
+      rrule = `FREQ=${value.frequency}`;
+    } else {
+      throw new RecurrenceRuleError('Recurrence pattern must include an rrule');
+    }
+
+    const dtstart = typeof value.dtstart === 'string' ? new Date(value.dtstart) : fallbackStart;
+    if (isNaN(dtstart.getTime())) {
+      throw new RecurrenceRuleError('Recurrence pattern has an invalid dtstart');
+    }
+
+    return {
+      rule: parseRRule(rrule),
+      dtstart,
+      timeZone: resolveTimezone(typeof value.timeZone === 'string' ? value.timeZone : fallbackTimeZone),
+      exdates: Array.isArray(value.exdates) ? value.exdates.map((date) => new Date(date as string)) : [],
+    };
+  }
+
+  private static toPattern(series: ResolvedSeries): RecurrencePattern {
+    return {
+      rrule: formatRRule(series.rule),
+      dtstart: series.dtstart.toISOString(),
+      timeZone: series.timeZone,
+      ...(series.exdates.length > 0 && { exdates: series.exdates.map((date) => date.toISOString()) }),
+    };
+  }
+
+  private static async getPendingRecurringReminder(userId: string, reminderId: string): Promise<Reminder> {
+    const reminder = await prisma.reminder.findFirst({
+      where: { id: reminderId, userId },
+    });
+
+    if (!reminder) {
+      throw new Error('Reminder not found');
+    }
+    if (!reminder.isRecurring || !reminder.recurringPattern) {
+      throw new Error('Reminder is not recurring');
+    }
+    if (reminder.status !== ReminderStatus.PENDING) {
+      throw new Error('Reminder occurrence is no longer pending');
+    }
+
+    return reminder;
+  }
+
+  /**
+   * Get a user's IANA timezone, falling back to UTC
+   */
+  static async getUserTimezone(userId: string): Promise<string> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+    return resolveTimezone(user?.timezone);
+  }
 }
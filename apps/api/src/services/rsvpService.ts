@@ -0,0 +1,256 @@
+import { RSVPStatus, EventStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { EventService, UpdateRSVPData } from './eventService';
+import { NotificationService } from './notificationService';
+import { signRSVPToken, verifyRSVPToken } from '../utils/rsvpToken';
+import { RSVPTokenError } from '../errors/rsvpErrors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest an RSVP link stays valid; links for one-off events also expire the day after the event
+export const RSVP_LINK_TTL_DAYS = 30;
+
+// Errors rethrown as-is from organizer-facing methods
+const RSVP_ERRORS = ['Event not found', 'Attendee not found', 'Event has already taken place'];
+
+export interface RSVPLink {
+  attendeeId: string;
+  token: string;
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * What a guest sees when opening their RSVP link
+ * Limited to the event's public details and the guest's own response.
+ */
+export interface PublicInvitation {
+  event: {
+    title: string;
+    description: string | null;
+    eventType: string;
+    date: Date;
+    startTime: string;
+    endTime: string;
+    timezone: string;
+    locationName: string | null;
+    locationAddress: string | null;
+    status: EventStatus;
+    organizer: string;
+  };
+  attendee: {
+    name: string;
+    rsvpStatus: RSVPStatus;
+    rsvpDate: Date | null;
+    plusOnes: number;
+    dietaryRestrictions: string | null;
+  };
+  expiresAt: Date;
+}
+
+const invitationInclude = {
+  contact: { select: { name: true } },
+  event: {
+    include: {
+      user: { select: { id: true, firstName: true, lastName: true } },
+    },
+  },
+} as const;
+
+/**
+ * Public RSVP links for event attendees who are not app users
+ */
+export class RSVPService {
+  /**
+   * Base URL guests are sent to; the token is appended
+   */
+  static getBaseUrl(): string {
+    const base = process.env.RSVP_BASE_URL || `${process.env.API_URL || 'http://localhost:3000'}/api/rsvp`;
+    return base.replace(/\/+$/, '');
+  }
+
+  /**
+   * Create an RSVP link for one attendee
+   * With `regenerate`, links issued earlier for the attendee stop working.
+   */
+  static async createRSVPLink(
+    userId: string,
+    eventId: string,
+    attendeeId: string,
+    options: { regenerate?: boolean } = {}
+  ): Promise<RSVPLink> {
+    try {
+      const event = await prisma.event.findFirst({
+        where: { id: eventId, userId },
+      });
+
+      if (!event) {
+        throw new Error('Event not found');
+      }
+
+      const attendee = await prisma.eventAttendee.findFirst({
+        where: { id: attendeeId, eventId },
+      });
+
+      if (!attendee) {
+        throw new Error('Attendee not found');
+      }
+
+      const now = new Date();
+      let expiresAt = new Date(now.getTime() + RSVP_LINK_TTL_DAYS * DAY_MS);
+      if (!event.isRecurring) {
+        const eventEnd = new Date(event.date.getTime() + DAY_MS);
+        if (eventEnd <= now) {
+          throw new Error('Event has already taken place');
+        }
+        if (eventEnd < expiresAt) expiresAt = eventEnd;
+      }
+
+      const version = options.regenerate
+        ? (
+            await prisma.eventAttendee.update({
+              where: { id: attendeeId },
+              data: { rsvpTokenVersion: { increment: 1 } },
+            })
+          ).rsvpTokenVersion
+        : attendee.rsvpTokenVersion;
+
+      const token = signRSVPToken({ attendeeId, version, expiresAt });
+
+      return {
+        attendeeId,
+        token,
+        url: `${this.getBaseUrl()}/${token}`,
+        expiresAt,
+      };
+    } catch (error) {
+      if (error instanceof Error && RSVP_ERRORS.includes(error.message)) {
+        throw error;
+      }
+      throw new Error(`Failed to create RSVP link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create RSVP links for every attendee of an event
+   */
+  static async createRSVPLinks(userId: string, eventId: string): Promise<RSVPLink[]> {
+    const attendees = await prisma.eventAttendee.findMany({
+      where: { eventId, event: { userId } },
+      select: { id: true },
+    });
+
+    const links: RSVPLink[] = [];
+    for (const attendee of attendees) {
+      links.push(await this.createRSVPLink(userId, eventId, attendee.id));
+    }
+    return links;
+  }
+
+  /**
+   * Get the invitation behind an RSVP token
+   */
+  static async getInvitation(token: string): Promise<PublicInvitation> {
+    const { attendee, expiresAt } = await this.resolveToken(token);
+    return this.toPublicInvitation(attendee, expiresAt);
+  }
+
+  /**
+   * Record a guest's response and notify the organizer
+   * Goes through EventService.updateRSVP so the event auto-confirms once everyone has.
+   */
+  static async respond(token: string, data: UpdateRSVPData): Promise<PublicInvitation> {
+    const { attendee, expiresAt } = await this.resolveToken(token);
+    const { event } = attendee;
+
+    if (event.status === EventStatus.CANCELLED || event.status === EventStatus.COMPLETED) {
+      throw new RSVPTokenError(`This event has been ${event.status.toLowerCase()}`, 'EXPIRED');
+    }
+
+    await EventService.updateRSVP(event.userId, event.id, attendee.id, data);
+
+    try {
+      await NotificationService.sendPushNotification(
+        event.userId,
+        `RSVP: ${event.title}`,
+        `${attendee.contact.name} ${this.describeResponse(data.status)}${data.plusOnes ? ` (+${data.plusOnes})` : ''}`,
+        { type: 'RSVP_UPDATE', eventId: event.id, attendeeId: attendee.id, rsvpStatus: data.status }
+      );
+    } catch (error) {
+      // The RSVP is saved either way; push delivery is best-effort
+      console.error('Failed to notify organizer of RSVP:', error);
+    }
+
+    const updated = await prisma.eventAttendee.findUniqueOrThrow({
+      where: { id: attendee.id },
+      include: invitationInclude,
+    });
+
+    return this.toPublicInvitation(updated, expiresAt);
+  }
+
+  /**
+   * Verify a token and load its attendee, rejecting revoked links
+   */
+  private static async resolveToken(token: string) {
+    const payload = verifyRSVPToken(token);
+    if (payload.pollId) {
+      throw new RSVPTokenError('Invalid RSVP link');
+    }
+
+    const attendee = await prisma.eventAttendee.findUnique({
+      where: { id: payload.attendeeId },
+      include: invitationInclude,
+    });
+
+    if (!attendee || attendee.rsvpTokenVersion !== payload.version) {
+      throw new RSVPTokenError('Invalid RSVP link');
+    }
+
+    return { attendee, expiresAt: payload.expiresAt };
+  }
+
+  private static describeResponse(status: RSVPStatus): string {
+    switch (status) {
+      case RSVPStatus.CONFIRMED:
+        return 'is coming';
+      case RSVPStatus.DECLINED:
+        return "can't make it";
+      case RSVPStatus.MAYBE:
+        return 'might come';
+      default:
+        return 'updated their RSVP';
+    }
+  }
+
+  private static toPublicInvitation(
+    attendee: Awaited<ReturnType<typeof RSVPService.resolveToken>>['attendee'],
+    expiresAt: Date
+  ): PublicInvitation {
+    const { event } = attendee;
+
+    return {
+      event: {
+        title: event.title,
+        description: event.description,
+        eventType: event.eventType,
+        date: event.date,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        timezone: event.timezone,
+        locationName: event.locationName,
+        locationAddress: event.locationAddress,
+        status: event.status,
+        organizer: `${event.user.firstName} ${event.user.lastName}`.trim(),
+      },
+      attendee: {
+        name: attendee.contact.name,
+        rsvpStatus: attendee.rsvpStatus,
+        rsvpDate: attendee.rsvpDate,
+        plusOnes: attendee.plusOnes,
+        dietaryRestrictions: attendee.dietaryRestrictions,
+      },
+      expiresAt,
+    };
+  }
+}
@@ -1,5 +1,6 @@
-import { Prisma, SavingsGoal, SavingsGoalStatus, TransactionType } from '@prisma/client';
+import { Prisma, SavingsGoal, SavingsGoalStatus, Transaction, TransactionType } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { PaginationParams, PaginatedResponse, getPaginationParams, createPaginatedResponse } from '../types/pagination';
 
 export interface CreateGoalData {
   eventId?: string;
@@ -24,6 +25,12 @@ export interface UpdateGoalData {
   status?: SavingsGoalStatus;
 }
 
+export interface TransactionFilters {
+  type?: TransactionType;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
 export class SavingsService {
   /**
    * Create a new savings goal
@@ -116,11 +123,19 @@ export class SavingsService {
         throw new Error('Savings goal not found');
       }
 
+      // Re-anchor the auto-save schedule when it is (re)enabled, its frequency
+      // changes or the goal resumes, so the scheduler doesn't back-post the gap
+      const resetAutoSaveSchedule =
+        (data.autoSaveEnabled === true && !existingGoal.autoSaveEnabled) ||
+        (data.autoSaveFrequency !== undefined && data.autoSaveFrequency !== existingGoal.autoSaveFrequency) ||
+        (data.status === 'ACTIVE' && existingGoal.status !== 'ACTIVE');
+
       const goal = await prisma.savingsGoal.update({
         where: { id: goalId },
         data: {
           ...data,
           autoSaveFrequency: data.autoSaveFrequency as any,
+          ...(resetAutoSaveSchedule && { nextAutoSaveAt: null }),
           updatedAt: new Date(),
         },
       });
@@ -179,7 +194,7 @@ export class SavingsService {
         });
 
         // Check if goal is completed
-        if (updatedGoal.currentAmount >= updatedGoal.targetAmount && updatedGoal.status === 'ACTIVE') {
+        if (updatedGoal.currentAmount.gte(updatedGoal.targetAmount) && updatedGoal.status === 'ACTIVE') {
           await tx.savingsGoal.update({
             where: { id: goalId },
             data: {
@@ -257,4 +272,203 @@ export class SavingsService {
       throw new Error(`Failed to withdraw from goal: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
+
+  /**
+   * Delete savings goal and its transactions
+   * Clears the link on any event that pointed at the goal
+   */
+  static async deleteGoal(userId: string, goalId: string): Promise<SavingsGoal> {
+    try {
+      const existingGoal = await prisma.savingsGoal.findFirst({
+        where: {
+          id: goalId,
+          userId,
+        },
+      });
+
+      if (!existingGoal) {
+        throw new Error('Savings goal not found');
+      }
+
+      const goal = await prisma.$transaction(async (tx) => {
+        await tx.event.updateMany({
+          where: {
+            userId,
+            linkedSavingsGoalId: goalId,
+          },
+          data: { linkedSavingsGoalId: null },
+        });
+
+        return tx.savingsGoal.delete({
+          where: { id: goalId },
+        });
+      });
+
+      return goal;
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Savings goal not found') {
+        throw error;
+      }
+      throw new Error(`Failed to delete savings goal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get paginated transaction history for a savings goal
+   */
+  static async getTransactions(
+    userId: string,
+    goalId: string,
+    filters?: TransactionFilters,
+    pagination?: PaginationParams
+  ): Promise<PaginatedResponse<Transaction>> {
+    try {
+      const goal = await prisma.savingsGoal.findFirst({
+        where: {
+          id: goalId,
+          userId,
+        },
+      });
+
+      if (!goal) {
+        throw new Error('Savings goal not found');
+      }
+
+      const { skip, take } = getPaginationParams(pagination);
+
+      const where: Prisma.TransactionWhereInput = {
+        savingsGoalId: goalId,
+        ...(filters?.type && { type: filters.type }),
+        ...(filters?.dateFrom || filters?.dateTo
+          ? {
+              date: {
+                ...(filters.dateFrom && { gte: filters.dateFrom }),
+                ...(filters.dateTo && { lte: filters.dateTo }),
+              },
+            }
+          : {}),
+      };
+
+      const [transactions, total] = await Promise.all([
+        prisma.transaction.findMany({
+          where,
+          skip,
+          take,
+          orderBy: { date: 'desc' },
+        }),
+        prisma.transaction.count({ where }),
+      ]);
+
+      return createPaginatedResponse(transactions, total, pagination);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Savings goal not found') {
+        throw error;
+      }
+      throw new Error(`Failed to get transactions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Link a savings goal to an event
+   * Sets both the goal's eventId and the event's linkedSavingsGoalId,
+   * replacing any goal previously linked to the event
+   */
+  static async linkGoalToEvent(userId: string, goalId: string, eventId: string): Promise<SavingsGoal> {
+    try {
+      const [goal, event] = await Promise.all([
+        prisma.savingsGoal.findFirst({ where: { id: goalId, userId } }),
+        prisma.event.findFirst({ where: { id: eventId, userId } }),
+      ]);
+
+      if (!goal) {
+        throw new Error('Savings goal not found');
+      }
+
+      if (!event) {
+        throw new Error('Event not found');
+      }
+
+      const linkedGoal = await prisma.$transaction(async (tx) => {
+        // Detach the goal from whichever event it was linked to before
+        if (goal.eventId && goal.eventId !== eventId) {
+          await tx.event.updateMany({
+            where: { id: goal.eventId, linkedSavingsGoalId: goalId },
+            data: { linkedSavingsGoalId: null },
+          });
+        }
+
+        // Detach the event's previous goal
+        if (event.linkedSavingsGoalId && event.linkedSavingsGoalId !== goalId) {
+          await tx.savingsGoal.updateMany({
+            where: { id: event.linkedSavingsGoalId, eventId },
+            data: { eventId: null },
+          });
+        }
+
+        await tx.event.update({
+          where: { id: eventId },
+          data: { linkedSavingsGoalId: goalId },
+        });
+
+        return tx.savingsGoal.update({
+          where: { id: goalId },
+          data: {
+            eventId,
+            updatedAt: new Date(),
+          },
+          include: { event: true },
+        });
+      });
+
+      return linkedGoal;
+    } catch (error) {
+      if (error instanceof Error && (error.message === 'Savings goal not found' || error.message === 'Event not found')) {
+        throw error;
+      }
+      throw new Error(`Failed to link savings goal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Unlink a savings goal from its event
+   */
+  static async unlinkGoalFromEvent(userId: string, goalId: string): Promise<SavingsGoal> {
+    try {
+      const goal = await prisma.savingsGoal.findFirst({
+        where: {
+          id: goalId,
+          userId,
+        },
+      });
+
+      if (!goal) {
+        throw new Error('Savings goal not found');
+      }
+
+      const unlinkedGoal = await prisma.$transaction(async (tx) => {
+        await tx.event.updateMany({
+          where: {
+            userId,
+            linkedSavingsGoalId: goalId,
+          },
+          data: { linkedSavingsGoalId: null },
+        });
+
+        return tx.savingsGoal.update({
+          where: { id: goalId },
+          data: {
+            eventId: null,
+            updatedAt: new Date(),
+          },
+        });
+      });
+
+      return unlinkedGoal;
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Savings goal not found') {
+        throw error;
+      }
+      throw new Error(`Failed to unlink savings goal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 }
@@ -0,0 +1,506 @@
+import { Event, EventStatus, PollVoteChoice, SchedulingPollStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { NotificationService } from './notificationService';
+import { RSVP_LINK_TTL_DAYS } from './rsvpService';
+import { getCalendarConnection, syncEventToProvider } from './calendarProviders';
+import { signRSVPToken, verifyRSVPToken } from '../utils/rsvpToken';
+import { PollOptionTally, pickBestOption, tallyPoll } from '../utils/pollTally';
+import { getZonedParts, resolveTimezone } from '../utils/timezone';
+import { RSVPTokenError } from '../errors/rsvpErrors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Errors rethrown as-is from organizer-facing methods
+export const SCHEDULING_POLL_ERRORS = [
+  'Event not found',
+  'Poll not found',
+  'Poll option not found',
+  'Event already has a poll',
+  'Cannot poll for a cancelled or completed event',
+  "Recurring events can't be scheduled with a poll",
+  'Poll options must be in the future',
+  'Poll must close in the future',
+  'Poll has already been finalized',
+  'Cannot finalize a poll for a cancelled or completed event',
+];
+
+export interface CreatePollData {
+  options: Array<{ start: Date; end: Date }>;
+  message?: string;
+  closesAt?: Date;
+}
+
+export interface PollLink {
+  attendeeId: string;
+  name: string;
+  token: string;
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * The organizer's view of a poll: every option's tally and who voted what
+ */
+export interface OrganizerPoll {
+  id: string;
+  eventId: string;
+  status: SchedulingPollStatus;
+  message: string | null;
+  closesAt: Date | null;
+  chosenOptionId: string | null;
+  finalizedAt: Date | null;
+  createdAt: Date;
+  options: Array<
+    PollOptionTally & { votes: Array<{ attendeeId: string; name: string; choice: PollVoteChoice }> }
+  >;
+  // The best option, earliest first among ties; null until someone can make one
+  suggestedOptionId: string | null;
+  attendees: Array<{ attendeeId: string; name: string; voted: boolean }>;
+}
+
+/**
+ * What a guest sees when opening their poll link
+ * Other guests' votes are shown as counts only.
+ */
+export interface PublicPoll {
+  event: {
+    title: string;
+    description: string | null;
+    eventType: string;
+    timezone: string;
+    locationName: string | null;
+    locationAddress: string | null;
+    organizer: string;
+  };
+  poll: {
+    status: SchedulingPollStatus;
+    message: string | null;
+    closesAt: Date | null;
+    chosenOption: { start: Date; end: Date } | null;
+  };
+  attendee: {
+    name: string;
+  };
+  options: Array<{
+    id: string;
+    start: Date;
+    end: Date;
+    yes: number;
+    ifNeeded: number;
+    no: number;
+    // This guest's answer
+    choice: PollVoteChoice | null;
+  }>;
+  expiresAt: Date;
+}
+
+export interface FinalizePollResult {
+  event: Event;
+  poll: OrganizerPoll;
+  // Only when syncing was asked for; the event keeps its new time either way
+  calendarSync?: { synced: boolean; calendarEventId?: string; error?: string };
+}
+
+const organizerPollInclude = {
+  options: { orderBy: { start: 'asc' }, include: { votes: true } },
+  event: { include: { attendees: { include: { contact: { select: { name: true } } } } } },
+} as const;
+
+const ballotInclude = {
+  contact: { select: { name: true } },
+  event: {
+    include: {
+      user: { select: { id: true, firstName: true, lastName: true } },
+      attendees: { select: { id: true } },
+      schedulingPoll: { include: { options: { orderBy: { start: 'asc' }, include: { votes: true } } } },
+    },
+  },
+} as const;
+
+/**
+ * Scheduling polls
+ * For events whose guests are mostly contacts without calendars to read: the
+ * organizer offers candidate times, each guest votes through their own signed
+ * link (the RSVP link format, scoped to the poll), and finalizing an option
+ * sets the event's date and time.
+ */
+export class SchedulingPollService {
+  /**
+   * Base URL guests are sent to; the token is appended
+   */
+  static getBaseUrl(): string {
+    const base = process.env.POLL_BASE_URL || `${process.env.API_URL || 'http://localhost:3000'}/api/polls`;
+    return base.replace(/\/+$/, '');
+  }
+
+  /**
+   * Open a poll on an event; an event has at most one
+   */
+  static async createPoll(userId: string, eventId: string, data: CreatePollData): Promise<OrganizerPoll> {
+    try {
+      const event = await prisma.event.findFirst({
+        where: { id: eventId, userId },
+        include: { schedulingPoll: { select: { id: true } } },
+      });
+
+      if (!event) {
+        throw new Error('Event not found');
+      }
+      if (event.status === EventStatus.CANCELLED || event.status === EventStatus.COMPLETED) {
+        throw new Error('Cannot poll for a cancelled or completed event');
+      }
+      if (event.isRecurring) {
+        throw new Error("Recurring events can't be scheduled with a poll");
+      }
+      if (event.schedulingPoll) {
+        throw new Error('Event already has a poll');
+      }
+
+      const now = new Date();
+      if (data.options.some((option) => option.start <= now)) {
+        throw new Error('Poll options must be in the future');
+      }
+      if (data.closesAt && data.closesAt <= now) {
+        throw new Error('Poll must close in the future');
+      }
+
+      await prisma.schedulingPoll.create({
+        data: {
+          eventId,
+          userId,
+          message: data.message,
+          closesAt: data.closesAt,
+          options: {
+            create: [...data.options]
+              .sort((a, b) => a.start.getTime() - b.start.getTime())
+              .map((option) => ({ start: option.start, end: option.end })),
+          },
+        },
+      });
+
+      return this.getPoll(userId, eventId);
+    } catch (error) {
+      if (error instanceof Error && SCHEDULING_POLL_ERRORS.includes(error.message)) {
+        throw error;
+      }
+      throw new Error(`Failed to create poll: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * The event's poll with the tally so far
+   */
+  static async getPoll(userId: string, eventId: string): Promise<OrganizerPoll> {
+    const poll = await prisma.schedulingPoll.findFirst({
+      where: { eventId, userId },
+      include: organizerPollInclude,
+    });
+
+    if (!poll) {
+      throw new Error('Poll not found');
+    }
+
+    const names = new Map(poll.event.attendees.map((attendee) => [attendee.id, attendee.contact.name]));
+    const votes = poll.options.flatMap((option) => option.votes);
+    const tallies = tallyPoll(poll.options, votes, [...names.keys()]);
+
+    return {
+      id: poll.id,
+      eventId: poll.eventId,
+      status: poll.status,
+      message: poll.message,
+      closesAt: poll.closesAt,
+      chosenOptionId: poll.chosenOptionId,
+      finalizedAt: poll.finalizedAt,
+      createdAt: poll.createdAt,
+      options: tallies.map((tally, index) => ({
+        ...tally,
+        votes: poll.options[index].votes
+          .filter((vote) => names.has(vote.attendeeId))
+          .map((vote) => ({ attendeeId: vote.attendeeId, name: names.get(vote.attendeeId)!, choice: vote.choice })),
+      })),
+      suggestedOptionId: pickBestOption(tallies)?.optionId ?? null,
+      attendees: poll.event.attendees.map((attendee) => ({
+        attendeeId: attendee.id,
+        name: attendee.contact.name,
+        voted: votes.some((vote) => vote.attendeeId === attendee.id),
+      })),
+    };
+  }
+
+  /**
+   * Create a voting link for every attendee
+   * Links are revoked along with the attendee's RSVP links.
+   */
+  static async createPollLinks(userId: string, eventId: string): Promise<PollLink[]> {
+    const poll = await prisma.schedulingPoll.findFirst({
+      where: { eventId, userId },
+      include: { event: { include: { attendees: { include: { contact: { select: { name: true } } } } } } },
+    });
+
+    if (!poll) {
+      throw new Error('Poll not found');
+    }
+
+    const expiresAt = new Date(Date.now() + RSVP_LINK_TTL_DAYS * DAY_MS);
+    return poll.event.attendees.map((attendee) => {
+      const token = signRSVPToken({
+        attendeeId: attendee.id,
+        version: attendee.rsvpTokenVersion,
+        expiresAt,
+        pollId: poll.id,
+      });
+      return {
+        attendeeId: attendee.id,
+        name: attendee.contact.name,
+        token,
+        url: `${this.getBaseUrl()}/${token}`,
+        expiresAt,
+      };
+    });
+  }
+
+  /**
+   * Pick the winning option: moves the event to that time and closes the poll
+   * Closing the poll and moving the event happen together, and only while the
+   * poll is still open, so concurrent finalizes can't both move the event.
+   * With `syncToCalendar`, the event is then written to the connected calendar;
+   * a failed sync is reported but doesn't undo the new time.
+   */
+  static async finalizePoll(
+    userId: string,
+    eventId: string,
+    optionId: string,
+    options: { syncToCalendar?: boolean } = {}
+  ): Promise<FinalizePollResult> {
+    try {
+      const poll = await prisma.schedulingPoll.findFirst({
+        where: { eventId, userId },
+        include: { options: true, event: { select: { timezone: true, status: true } } },
+      });
+
+      if (!poll) {
+        throw new Error('Poll not found');
+      }
+      if (poll.status === SchedulingPollStatus.FINALIZED) {
+        throw new Error('Poll has already been finalized');
+      }
+      if (poll.event.status === EventStatus.CANCELLED || poll.event.status === EventStatus.COMPLETED) {
+        throw new Error('Cannot finalize a poll for a cancelled or completed event');
+      }
+
+      const option = poll.options.find((candidate) => candidate.id === optionId);
+      if (!option) {
+        throw new Error('Poll option not found');
+      }
+
+      // Event dates are the local calendar day at UTC midnight, with local start/end times
+      const timeZone = resolveTimezone(poll.event.timezone);
+      const start = getZonedParts(option.start, timeZone);
+      const end = getZonedParts(option.end, timeZone);
+      const event = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.schedulingPoll.updateMany({
+          where: { id: poll.id, status: { not: SchedulingPollStatus.FINALIZED } },
+          data: { status: SchedulingPollStatus.FINALIZED, chosenOptionId: option.id, finalizedAt: new Date() },
+        });
+        if (count === 0) {
+          throw new Error('Poll has already been finalized');
+        }
+
+        return tx.event.update({
+          where: { id: eventId },
+          data: {
+            date: new Date(Date.UTC(start.year, start.month - 1, start.day)),
+            startTime: formatTimeOfDay(start),
+            endTime: formatTimeOfDay(end),
+            updatedAt: new Date(),
+          },
+          include: { attendees: { include: { contact: true } }, savingsGoals: true },
+        });
+      });
+
+      const result: FinalizePollResult = { event, poll: await this.getPoll(userId, eventId) };
+
+      if (options.syncToCalendar) {
+        const connection = await getCalendarConnection(userId);
+        if (!connection) {
+          result.calendarSync = { synced: false, error: 'Calendar not connected' };
+        } else {
+          try {
+            const calendarEventId = await syncEventToProvider(userId, connection, event);
+            result.calendarSync = { synced: true, calendarEventId };
+          } catch (error) {
+            console.error(`Failed to sync finalized event ${eventId} to calendar:`, error);
+            result.calendarSync = {
+              synced: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            };
+          }
+        }
+      }
+
+      return result;
+    } catch (error) {
+      if (error instanceof Error && SCHEDULING_POLL_ERRORS.includes(error.message)) {
+        throw error;
+      }
+      throw new Error(`Failed to finalize poll: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete the event's poll and its votes; its links stop working
+   */
+  static async deletePoll(userId: string, eventId: string): Promise<void> {
+    const { count } = await prisma.schedulingPoll.deleteMany({ where: { eventId, userId } });
+    if (count === 0) {
+      throw new Error('Poll not found');
+    }
+  }
+
+  /**
+   * Get the poll behind a guest's link
+   */
+  static async getBallot(token: string): Promise<PublicPoll> {
+    const { attendee, expiresAt } = await this.resolveToken(token);
+    return this.toPublicPoll(attendee, expiresAt);
+  }
+
+  /**
+   * Record a guest's votes and notify the organizer
+   * Options left out keep the guest's earlier answer.
+   */
+  static async vote(
+    token: string,
+    votes: Array<{ optionId: string; choice: PollVoteChoice }>
+  ): Promise<PublicPoll> {
+    const { attendee, expiresAt } = await this.resolveToken(token);
+    const { event } = attendee;
+    const poll = event.schedulingPoll!;
+
+    if (poll.status === SchedulingPollStatus.FINALIZED) {
+      throw new RSVPTokenError('This poll has been finalized', 'EXPIRED');
+    }
+    if (poll.closesAt && poll.closesAt <= new Date()) {
+      throw new RSVPTokenError('This poll has closed', 'EXPIRED');
+    }
+    if (votes.some((vote) => !poll.options.some((option) => option.id === vote.optionId))) {
+      throw new Error('Poll option not found');
+    }
+
+    await prisma.$transaction(
+      votes.map((vote) =>
+        prisma.schedulingPollVote.upsert({
+          where: { optionId_attendeeId: { optionId: vote.optionId, attendeeId: attendee.id } },
+          update: { choice: vote.choice },
+          create: { optionId: vote.optionId, attendeeId: attendee.id, choice: vote.choice },
+        })
+      )
+    );
+
+    try {
+      const available = votes.filter((vote) => vote.choice !== PollVoteChoice.NO).length;
+      await NotificationService.sendPushNotification(
+        event.userId,
+        `Poll: ${event.title}`,
+        `${attendee.contact.name} voted - can make ${available} of ${poll.options.length} times`,
+        { type: 'POLL_VOTE', eventId: event.id, attendeeId: attendee.id }
+      );
+    } catch (error) {
+      // The votes are saved either way; push delivery is best-effort
+      console.error('Failed to notify organizer of poll vote:', error);
+    }
+
+    const updated = await prisma.eventAttendee.findUniqueOrThrow({
+      where: { id: attendee.id },
+      include: ballotInclude,
+    });
+
+    return this.toPublicPoll(updated, expiresAt);
+  }
+
+  /**
+   * Verify a poll token and load its attendee, rejecting revoked links and
+   * links to a poll that was since deleted
+   */
+  private static async resolveToken(token: string) {
+    let payload;
+    try {
+      payload = verifyRSVPToken(token);
+    } catch (error) {
+      if (error instanceof RSVPTokenError) {
+        throw new RSVPTokenError(error.code === 'EXPIRED' ? 'Poll link has expired' : 'Invalid poll link', error.code);
+      }
+      throw error;
+    }
+
+    if (!payload.pollId) {
+      throw new RSVPTokenError('Invalid poll link');
+    }
+
+    const attendee = await prisma.eventAttendee.findUnique({
+      where: { id: payload.attendeeId },
+      include: ballotInclude,
+    });
+
+    if (
+      !attendee ||
+      attendee.rsvpTokenVersion !== payload.version ||
+      attendee.event.schedulingPoll?.id !== payload.pollId
+    ) {
+      throw new RSVPTokenError('Invalid poll link');
+    }
+
+    return { attendee, expiresAt: payload.expiresAt };
+  }
+
+  private static toPublicPoll(
+    attendee: Awaited<ReturnType<typeof SchedulingPollService.resolveToken>>['attendee'],
+    expiresAt: Date
+  ): PublicPoll {
+    const { event } = attendee;
+    const poll = event.schedulingPoll!;
+    const votes = poll.options.flatMap((option) => option.votes);
+    const tallies = tallyPoll(
+      poll.options,
+      votes,
+      event.attendees.map((other) => other.id)
+    );
+    const chosen = poll.options.find((option) => option.id === poll.chosenOptionId);
+
+    return {
+      event: {
+        title: event.title,
+        description: event.description,
+        eventType: event.eventType,
+        timezone: event.timezone,
+        locationName: event.locationName,
+        locationAddress: event.locationAddress,
+        organizer: `${event.user.firstName} ${event.user.lastName}`.trim(),
+      },
+      poll: {
+        status: poll.status,
+        message: poll.message,
+        closesAt: poll.closesAt,
+        chosenOption: chosen ? { start: chosen.start, end: chosen.end } : null,
+      },
+      attendee: {
+        name: attendee.contact.name,
+      },
+      options: tallies.map((tally) => ({
+        id: tally.optionId,
+        start: tally.start,
+        end: tally.end,
+        yes: tally.yes,
+        ifNeeded: tally.ifNeeded,
+        no: tally.no,
+        choice: votes.find((vote) => vote.optionId === tally.optionId && vote.attendeeId === attendee.id)?.choice ?? null,
+      })),
+      expiresAt,
+    };
+  }
+}
+
+function formatTimeOfDay(parts: { hour: number; minute: number }): string {
+  return `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}`;
+}
@@ -0,0 +1,144 @@
+import { WritingStyleCategory, WritingStyleSample } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export interface WritingStyleSampleInput {
+  promptId: string;
+  category: WritingStyleCategory;
+  prompt: string;
+  response: string;
+}
+
+export interface WritingStyleCategoryProfile {
+  category: WritingStyleCategory;
+  sampleCount: number;
+  updatedAt: Date | null;
+  samples: WritingStyleSample[];
+}
+
+export interface WritingStyleProfile {
+  categories: WritingStyleCategoryProfile[];
+  totalSamples: number;
+}
+
+/**
+ * The user's "Teach the AI Your Voice" samples, one per prompt, grouped by style category
+ * These are what message suggestions learn from, so the profile is everything the model knows.
+ */
+export class WritingStyleService {
+  /**
+   * Every sample, grouped by category
+   */
+  static async getProfile(userId: string): Promise<WritingStyleProfile> {
+    try {
+      const samples = await prisma.writingStyleSample.findMany({
+        where: { userId },
+        orderBy: [{ category: 'asc' }, { promptId: 'asc' }],
+      });
+
+      const categories = Object.values(WritingStyleCategory).map((category) => {
+        const inCategory = samples.filter((sample) => sample.category === category);
+        const updatedAt = inCategory.reduce<Date | null>(
+          (latest, sample) => (!latest || sample.updatedAt > latest ? sample.updatedAt : latest),
+          null
+        );
+        return { category, sampleCount: inCategory.length, updatedAt, samples: inCategory };
+      });
+
+      return { categories, totalSamples: samples.length };
+    } catch (error) {
+      throw new Error(`Failed to get writing style profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Samples used to steer suggestions for one category, most recently edited first
+   */
+  static async getSamples(userId: string, category: WritingStyleCategory): Promise<WritingStyleSample[]> {
+    return prisma.writingStyleSample.findMany({
+      where: { userId, category },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Changes whenever a sample is added, edited or removed; part of the AI cache key
+   */
+  static async getVersion(userId: string): Promise<string> {
+    const { _count, _max } = await prisma.writingStyleSample.aggregate({
+      where: { userId },
+      _count: { _all: true },
+      _max: { updatedAt: true },
+    });
+    return `${_count._all}:${_max.updatedAt?.getTime() ?? 0}`;
+  }
+
+  /**
+   * Create or replace the sample for a prompt
+   */
+  static async saveSample(userId: string, input: WritingStyleSampleInput): Promise<WritingStyleSample> {
+    try {
+      const data = { category: input.category, prompt: input.prompt, response: input.response };
+      return await prisma.writingStyleSample.upsert({
+        where: { userId_promptId: { userId, promptId: input.promptId } },
+        create: { userId, promptId: input.promptId, ...data },
+        update: data,
+      });
+    } catch (error) {
+      throw new Error(`Failed to save writing style sample: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Upload samples collected on a device, e.g. from before the profile lived on the server
+   * Samples for prompts the server already has are kept unless `overwrite` is set.
+   */
+  static async syncSamples(
+    userId: string,
+    samples: WritingStyleSampleInput[],
+    options: { overwrite?: boolean } = {}
+  ): Promise<WritingStyleProfile> {
+    try {
+      const existing = await prisma.writingStyleSample.findMany({
+        where: { userId, promptId: { in: samples.map((sample) => sample.promptId) } },
+        select: { promptId: true },
+      });
+      const existingIds = new Set(existing.map((sample) => sample.promptId));
+
+      const toSave = options.overwrite ? samples : samples.filter((sample) => !existingIds.has(sample.promptId));
+
+      await prisma.$transaction(
+        toSave.map((sample) =>
+          prisma.writingStyleSample.upsert({
+            where: { userId_promptId: { userId, promptId: sample.promptId } },
+            create: { userId, ...sample },
+            update: { category: sample.category, prompt: sample.prompt, response: sample.response },
+          })
+        )
+      );
+    } catch (error) {
+      throw new Error(`Failed to sync writing style samples: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return this.getProfile(userId);
+  }
+
+  /**
+   * Forget the sample for one prompt
+   */
+  static async deleteSample(userId: string, promptId: string): Promise<void> {
+    const { count } = await prisma.writingStyleSample.deleteMany({ where: { userId, promptId } });
+    if (count === 0) {
+      throw new Error('Writing style sample not found');
+    }
+  }
+
+  /**
+   * Forget a whole category, or everything when no category is given
+   */
+  static async clear(userId: string, category?: WritingStyleCategory): Promise<number> {
+    const { count } = await prisma.writingStyleSample.deleteMany({
+      where: { userId, ...(category ? { category } : {}) },
+    });
+    return count;
+  }
+}
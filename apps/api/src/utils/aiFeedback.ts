@@ -0,0 +1,252 @@
+import { AIInsightType } from '@prisma/client';
+
+export const MESSAGE_TONES = ['casual', 'warm', 'thoughtful'] as const;
+export type MessageTone = (typeof MESSAGE_TONES)[number];
+
+// A tone counts as the user's preference once they've picked it this often, and at least half the time
+const MIN_TONE_PICKS = 3;
+const MAX_EXAMPLES = 3;
+const MAX_EXAMPLE_LENGTH = 300;
+
+export interface FeedbackInsight {
+  type: AIInsightType;
+  contactId: string | null;
+  content: unknown;
+  context: unknown;
+  wasUsed: boolean;
+  feedback: string | null;
+  selectedOption: string | null;
+  usedContent: string | null;
+  createdAt: Date;
+}
+
+export interface MessagePreferences {
+  preferredTone: MessageTone | null;
+  toneCounts: Record<MessageTone, number>;
+  sentExamples: string[];
+}
+
+export interface StarterPreferences {
+  used: string[];
+  disliked: string[];
+}
+
+export interface FeedbackRate {
+  generated: number;
+  used: number;
+  helpful: number;
+  notHelpful: number;
+  // Percentage of generated insights the user went on to use
+  acceptanceRate: number;
+}
+
+export interface FeedbackAnalytics {
+  features: Array<FeedbackRate & { type: AIInsightType }>;
+  messageContexts: Array<FeedbackRate & { context: string }>;
+  tones: Record<MessageTone, number>;
+}
+
+/**
+ * Insight content was historically stored as a JSON string inside the Json column
+ */
+export function parseInsightContent(content: unknown): Record<string, any> {
+  if (typeof content === 'string') {
+    try {
+      const parsed = JSON.parse(content);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+  return content && typeof content === 'object' ? (content as Record<string, any>) : {};
+}
+
+/**
+ * The MessageContext a message suggestion was generated for
+ */
+export function getInsightMessageContext(insight: Pick<FeedbackInsight, 'content' | 'context'>): string | null {
+  const context = parseInsightContent(insight.context).messageContext ?? parseInsightContent(insight.content).context;
+  return typeof context === 'string' ? context : null;
+}
+
+function isTone(value: string | null): value is MessageTone {
+  return !!value && (MESSAGE_TONES as readonly string[]).includes(value);
+}
+
+function truncate(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_EXAMPLE_LENGTH ? `${trimmed.slice(0, MAX_EXAMPLE_LENGTH - 1).trimEnd()}…` : trimmed;
+}
+
+function uniqueTexts(texts: Array<string | null | undefined>, max: number): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const text of texts) {
+    if (!text?.trim() || seen.has(text.trim())) continue;
+    seen.add(text.trim());
+    result.push(truncate(text));
+    if (result.length >= max) break;
+  }
+  return result;
+}
+
+/**
+ * What the user's past picks say about the message suggestions they want
+ * Sent examples favour the same contact, then the same occasion, newest first.
+ */
+export function deriveMessagePreferences(
+  insights: FeedbackInsight[],
+  target: { contactId?: string | null; messageContext?: string | null } = {}
+): MessagePreferences {
+  const used = insights
+    .filter((insight) => insight.type === AIInsightType.MESSAGE_SUGGESTION && insight.wasUsed)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  const toneCounts = { casual: 0, warm: 0, thoughtful: 0 } as Record<MessageTone, number>;
+  for (const insight of used) {
+    if (isTone(insight.selectedOption)) toneCounts[insight.selectedOption]++;
+  }
+
+  const totalPicks = MESSAGE_TONES.reduce((sum, tone) => sum + toneCounts[tone], 0);
+  const [topTone] = [...MESSAGE_TONES].sort((a, b) => toneCounts[b] - toneCounts[a]);
+  const preferredTone =
+    toneCounts[topTone] >= MIN_TONE_PICKS && toneCounts[topTone] * 2 >= totalPicks ? topTone : null;
+
+  const rank = (insight: FeedbackInsight) =>
+    (target.contactId && insight.contactId === target.contactId ? 2 : 0) +
+    (target.messageContext && getInsightMessageContext(insight) === target.messageContext ? 1 : 0);
+
+  const sentExamples = uniqueTexts(
+    [...used]
+      .sort((a, b) => rank(b) - rank(a))
+      .map((insight) => {
+        if (insight.usedContent) return insight.usedContent;
+        const suggestions = parseInsightContent(insight.content).suggestions;
+        return isTone(insight.selectedOption) && suggestions ? suggestions[insight.selectedOption] : null;
+      }),
+    MAX_EXAMPLES
+  );
+
+  return { preferredTone, toneCounts, sentExamples };
+}
+
+/**
+ * Prompt section steering message suggestions toward what the user actually sends
+ * Empty when there's nothing to learn from yet.
+ */
+export function buildMessagePreferencePrompt(preferences: MessagePreferences): string {
+  const sections: string[] = [];
+
+  if (preferences.sentExamples.length > 0) {
+    sections.push(
+      `MESSAGES I ACTUALLY SENT from earlier suggestions — lean toward this voice, but don't repeat them:\n${preferences.sentExamples
+        .map((example) => `- "${example}"`)
+        .join('\n')}`
+    );
+  }
+
+  if (preferences.preferredTone) {
+    sections.push(
+      `I usually pick the ${preferences.preferredTone.toUpperCase()} option, so make that one especially strong.`
+    );
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Conversation starters the user used, and topics from sets they marked unhelpful
+ */
+export function deriveStarterPreferences(insights: FeedbackInsight[], contactId?: string | null): StarterPreferences {
+  const starters = insights
+    .filter((insight) => insight.type === AIInsightType.CONVERSATION_STARTER)
+    .sort(
+      (a, b) =>
+        Number(b.contactId === contactId) - Number(a.contactId === contactId) ||
+        b.createdAt.getTime() - a.createdAt.getTime()
+    );
+
+  const used = uniqueTexts(
+    starters.filter((insight) => insight.wasUsed).map((insight) => insight.usedContent),
+    MAX_EXAMPLES
+  );
+
+  const disliked = uniqueTexts(
+    starters
+      .filter((insight) => insight.feedback === 'not_helpful')
+      .flatMap((insight) => {
+        const list = parseInsightContent(insight.content).starters;
+        return Array.isArray(list) ? list.map((starter) => (typeof starter === 'string' ? starter : starter?.topic)) : [];
+      }),
+    MAX_EXAMPLES
+  );
+
+  return { used, disliked };
+}
+
+/**
+ * Prompt section for conversation starters; empty when there's nothing to learn from yet
+ */
+export function buildStarterPreferencePrompt(preferences: StarterPreferences): string {
+  const sections: string[] = [];
+
+  if (preferences.used.length > 0) {
+    sections.push(
+      `Starters I've actually used before (similar style works for me, but come up with new ones):\n${preferences.used
+        .map((starter) => `- "${starter}"`)
+        .join('\n')}`
+    );
+  }
+
+  if (preferences.disliked.length > 0) {
+    sections.push(
+      `Topics that didn't work for me — avoid these:\n${preferences.disliked.map((topic) => `- ${topic}`).join('\n')}`
+    );
+  }
+
+  return sections.join('\n\n');
+}
+
+function emptyRate(): FeedbackRate {
+  return { generated: 0, used: 0, helpful: 0, notHelpful: 0, acceptanceRate: 0 };
+}
+
+function addToRate(rate: FeedbackRate, insight: FeedbackInsight): void {
+  rate.generated++;
+  if (insight.wasUsed) rate.used++;
+  if (insight.feedback === 'helpful') rate.helpful++;
+  if (insight.feedback === 'not_helpful') rate.notHelpful++;
+  rate.acceptanceRate = Math.round((rate.used / rate.generated) * 100);
+}
+
+/**
+ * Acceptance per feature, per message occasion, and which tones get picked
+ */
+export function summarizeFeedback(insights: FeedbackInsight[]): FeedbackAnalytics {
+  const features = new Map<AIInsightType, FeedbackRate>();
+  const contexts = new Map<string, FeedbackRate>();
+  const tones = { casual: 0, warm: 0, thoughtful: 0 } as Record<MessageTone, number>;
+
+  for (const insight of insights) {
+    if (insight.type === AIInsightType.TOKEN_USAGE) continue;
+
+    if (!features.has(insight.type)) features.set(insight.type, emptyRate());
+    addToRate(features.get(insight.type)!, insight);
+
+    if (insight.type === AIInsightType.MESSAGE_SUGGESTION) {
+      const context = getInsightMessageContext(insight) ?? 'general';
+      if (!contexts.has(context)) contexts.set(context, emptyRate());
+      addToRate(contexts.get(context)!, insight);
+
+      if (insight.wasUsed && isTone(insight.selectedOption)) tones[insight.selectedOption]++;
+    }
+  }
+
+  return {
+    features: Array.from(features, ([type, rate]) => ({ type, ...rate })),
+    messageContexts: Array.from(contexts, ([context, rate]) => ({ context, ...rate })).sort(
+      (a, b) => b.generated - a.generated
+    ),
+    tones,
+  };
+}
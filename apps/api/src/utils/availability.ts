@@ -0,0 +1,302 @@
+import { getZonedParts } from './timezone';
+import { TimeRange, WorkingWindow, getWorkingRanges } from './workingHours';
+
+/**
+ * Common free time across participants, and how convenient it is for each of
+ * them. Everything about a participant (working hours, time of day, weekday)
+ * is read in their own timezone.
+ */
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+}
+
+export interface AvailabilityPreferences {
+  preferredTimeOfDay?: 'morning' | 'afternoon' | 'evening';
+  preferWeekends?: boolean;
+  avoidEarlyMorning?: boolean; // Before 9am
+  avoidLateNight?: boolean; // After 9pm
+  preferredDays?: number[]; // 0-6, Sunday = 0
+}
+
+export interface AvailabilityParticipant {
+  userId: string;
+  name: string;
+  timeZone: string;
+  workingHours: WorkingWindow;
+}
+
+export interface ParticipantSlotScore {
+  userId: string;
+  name: string;
+  timeZone: string;
+  // Wall-clock start and end in the participant's timezone ("YYYY-MM-DDTHH:mm")
+  localStart: string;
+  localEnd: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface RankedTimeSlot extends TimeSlot {
+  score: number;
+  reasons: string[];
+  participants: ParticipantSlotScore[];
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Suggested blocks (local minutes) when nobody has busy time to read
+const DEFAULT_BLOCKS = [
+  { startMinute: 10 * 60, endMinute: 12 * 60 },
+  { startMinute: 14 * 60, endMinute: 17 * 60 },
+  { startMinute: 18 * 60, endMinute: 20 * 60 },
+];
+
+/**
+ * Ranges covered by both lists; each list must be ordered and non-overlapping
+ */
+export function intersectRanges(a: TimeRange[], b: TimeRange[]): TimeRange[] {
+  const result: TimeRange[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    const start = a[i].start > b[j].start ? a[i].start : b[j].start;
+    const end = a[i].end < b[j].end ? a[i].end : b[j].end;
+    if (end > start) result.push({ start, end });
+
+    if (a[i].end < b[j].end) i++;
+    else j++;
+  }
+
+  return result;
+}
+
+/**
+ * Ranges with the busy intervals cut out (busy intervals may be in any order and overlap)
+ */
+export function subtractRanges(ranges: TimeRange[], busy: TimeRange[]): TimeRange[] {
+  const sorted = [...busy].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const result: TimeRange[] = [];
+
+  for (const range of ranges) {
+    let cursor = range.start;
+    for (const interval of sorted) {
+      if (interval.end <= cursor) continue;
+      if (interval.start >= range.end) break;
+      if (interval.start > cursor) result.push({ start: cursor, end: interval.start });
+      cursor = interval.end;
+    }
+    if (cursor < range.end) result.push({ start: cursor, end: range.end });
+  }
+
+  return result;
+}
+
+/**
+ * Time within every participant's working hours
+ */
+export function getCommonWorkingRanges(
+  participants: AvailabilityParticipant[],
+  rangeStart: Date,
+  rangeEnd: Date
+): TimeRange[] {
+  return participants.reduce<TimeRange[]>(
+    (common, participant) =>
+      intersectRanges(
+        common,
+        getWorkingRanges(participant.workingHours, participant.timeZone, rangeStart, rangeEnd)
+      ),
+    [{ start: rangeStart, end: rangeEnd }]
+  );
+}
+
+/**
+ * Free slots within everyone's working hours and outside everyone's busy time
+ */
+export function findCommonFreeSlots(
+  participants: AvailabilityParticipant[],
+  busy: TimeRange[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  minDurationMinutes: number
+): TimeSlot[] {
+  return toSlots(subtractRanges(getCommonWorkingRanges(participants, rangeStart, rangeEnd), busy), minDurationMinutes);
+}
+
+/**
+ * Suggested slots when there's no busy time to read: late morning, afternoon
+ * and early evening in the first participant's timezone, kept where they fall
+ * within everyone's working hours
+ */
+export function getDefaultSlots(
+  participants: AvailabilityParticipant[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  minDurationMinutes: number
+): TimeSlot[] {
+  if (participants.length === 0) return [];
+
+  const [organizer] = participants;
+  const blocks = DEFAULT_BLOCKS.flatMap((block) =>
+    getWorkingRanges({ ...block, days: [0, 1, 2, 3, 4, 5, 6] }, organizer.timeZone, rangeStart, rangeEnd)
+  ).sort((a, b) => a.start.getTime() - b.start.getTime());
+  const common = getCommonWorkingRanges(participants, rangeStart, rangeEnd);
+
+  const whole = blocks.filter((block) =>
+    common.some((range) => range.start <= block.start && range.end >= block.end)
+  );
+  return toSlots(whole, minDurationMinutes);
+}
+
+/**
+ * Score a slot for each participant in their local time, then overall
+ * The overall score averages the mean and the lowest participant score, so a
+ * slot that's great for most but bad for one doesn't come out on top.
+ */
+export function scoreSlot(
+  slot: TimeSlot,
+  participants: AvailabilityParticipant[],
+  preferences: AvailabilityPreferences = {}
+): RankedTimeSlot {
+  const scores = participants.map((participant) => scoreForParticipant(slot, participant, preferences));
+  const reasons = scores.map(
+    (participant) =>
+      `${participant.name}: ${formatLocalRange(slot, participant.timeZone)} (${participant.timeZone})` +
+      (participant.reasons.length ? ` - ${participant.reasons.join(', ')}` : '')
+  );
+
+  let score = 50;
+  if (scores.length) {
+    const values = scores.map((participant) => participant.score);
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    score = (mean + Math.min(...values)) / 2;
+  }
+
+  // Bonus for longer slots
+  if (slot.durationMinutes >= 180) {
+    score += 10;
+    reasons.push('Extended availability');
+  }
+
+  return { ...slot, score: clampScore(score), reasons, participants: scores };
+}
+
+/**
+ * Score and sort slots, best first (earlier first among equals)
+ */
+export function rankSlots(
+  slots: TimeSlot[],
+  participants: AvailabilityParticipant[],
+  preferences: AvailabilityPreferences = {}
+): RankedTimeSlot[] {
+  return slots
+    .map((slot) => scoreSlot(slot, participants, preferences))
+    .sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime());
+}
+
+function scoreForParticipant(
+  slot: TimeSlot,
+  participant: AvailabilityParticipant,
+  prefs: AvailabilityPreferences
+): ParticipantSlotScore {
+  let score = 50; // Base score
+  const reasons: string[] = [];
+
+  const local = getZonedParts(slot.start, participant.timeZone);
+  const hour = local.hour;
+  const dayOfWeek = local.weekday;
+  const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+
+  // Time of day preferences
+  if (prefs.preferredTimeOfDay === 'morning' && hour >= 9 && hour < 12) {
+    score += 20;
+    reasons.push('Morning time (preferred)');
+  } else if (prefs.preferredTimeOfDay === 'afternoon' && hour >= 12 && hour < 17) {
+    score += 20;
+    reasons.push('Afternoon time (preferred)');
+  } else if (prefs.preferredTimeOfDay === 'evening' && hour >= 17 && hour < 21) {
+    score += 20;
+    reasons.push('Evening time (preferred)');
+  }
+
+  // Default: prefer afternoon
+  if (!prefs.preferredTimeOfDay && hour >= 14 && hour < 18) {
+    score += 10;
+    reasons.push('Prime afternoon time');
+  }
+
+  // Avoid early morning
+  if (prefs.avoidEarlyMorning !== false && hour < 9) {
+    score -= 30;
+    reasons.push('Early morning (less convenient)');
+  }
+
+  // Avoid late night
+  if (prefs.avoidLateNight !== false && hour >= 21) {
+    score -= 30;
+    reasons.push('Late evening (less convenient)');
+  }
+
+  // Weekend preferences
+  if (prefs.preferWeekends && isWeekend) {
+    score += 15;
+    reasons.push('Weekend (preferred)');
+  } else if (!prefs.preferWeekends && !isWeekend) {
+    score += 5;
+    reasons.push('Weekday');
+  }
+
+  // Preferred days
+  if (prefs.preferredDays?.includes(dayOfWeek)) {
+    score += 15;
+    reasons.push('Preferred day');
+  }
+
+  return {
+    userId: participant.userId,
+    name: participant.name,
+    timeZone: participant.timeZone,
+    localStart: formatLocalDateTime(slot.start, participant.timeZone),
+    localEnd: formatLocalDateTime(slot.end, participant.timeZone),
+    score: clampScore(score),
+    reasons,
+  };
+}
+
+function toSlots(ranges: TimeRange[], minDurationMinutes: number): TimeSlot[] {
+  return ranges
+    .map((range) => ({
+      start: range.start,
+      end: range.end,
+      durationMinutes: Math.round((range.end.getTime() - range.start.getTime()) / 60000),
+    }))
+    .filter((slot) => slot.durationMinutes >= minDurationMinutes);
+}
+
+function clampScore(score: number): number {
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function formatLocalDateTime(date: Date, timeZone: string): string {
+  const local = getZonedParts(date, timeZone);
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}T${pad(local.hour)}:${pad(local.minute)}`;
+}
+
+// e.g. "Sat 2:00 PM - 5:00 PM", or "Sat 10:00 PM - Sun 1:00 AM" across midnight
+function formatLocalRange(slot: TimeSlot, timeZone: string): string {
+  const start = getZonedParts(slot.start, timeZone);
+  const end = getZonedParts(slot.end, timeZone);
+  const time = (parts: { hour: number; minute: number }) =>
+    `${parts.hour % 12 || 12}:${pad(parts.minute)} ${parts.hour < 12 ? 'AM' : 'PM'}`;
+  const sameDay = start.year === end.year && start.month === end.month && start.day === end.day;
+
+  return (
+    `${WEEKDAY_NAMES[start.weekday]} ${time(start)} - ` +
+    `${sameDay ? '' : `${WEEKDAY_NAMES[end.weekday]} `}${time(end)}`
+  );
+}
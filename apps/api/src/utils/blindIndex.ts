@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+
+/**
+ * Blind indexes for encrypted contact fields
+ *
+ * Encrypted phone numbers and emails use random IVs, so equal values never have
+ * equal ciphertexts. Alongside each one we store an HMAC-SHA256 of the normalized
+ * value (E.164 phone, lowercase email), which supports exact-match lookups
+ * without revealing the value.
+ *
+ * The HMAC key is BLIND_INDEX_KEY, or derived from ENCRYPTION_KEY when that isn't
+ * set. Changing it means re-running `npm run jobs:backfill-blind-indexes`. With
+ * neither set, like encryption itself, nothing is indexed.
+ */
+
+export type BlindIndexField = 'phone' | 'email';
+
+// E.164 allows at most 15 digits; anything under 7 is an extension or short code
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+function getKey(): Buffer | null {
+  const key = process.env.BLIND_INDEX_KEY;
+  if (key) {
+    return Buffer.from(key, 'utf8');
+  }
+
+  const encryptionKey = process.env.ENCRYPTION_KEY;
+  return encryptionKey ? Buffer.from(crypto.hkdfSync('sha256', encryptionKey, '', 'socap-blind-index', 32)) : null;
+}
+
+/**
+ * Normalize a phone number to E.164, e.g. "(555) 123-4567" -> "+15551234567"
+ * Numbers without a country code get DEFAULT_PHONE_COUNTRY_CODE (1 when unset),
+ * dropping a leading trunk 0. Returns null for anything that can't be a phone number.
+ */
+export function normalizePhone(
+  phone: string | null | undefined,
+  defaultCountryCode: string = process.env.DEFAULT_PHONE_COUNTRY_CODE || '1'
+): string | null {
+  const trimmed = phone?.trim();
+  if (!trimmed) return null;
+
+  let digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (defaultCountryCode === '1' && digits.length === 11 && digits.startsWith('1')) {
+    // North American number written with its country code but no "+"
+  } else {
+    digits = defaultCountryCode + digits.replace(/^0/, '');
+  }
+
+  if (digits.length < MIN_PHONE_DIGITS || digits.length > MAX_PHONE_DIGITS) return null;
+  return `+${digits}`;
+}
+
+/**
+ * Normalize an email for matching: trimmed and lowercase
+ */
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const normalized = email?.trim().toLowerCase();
+  return normalized && normalized.includes('@') ? normalized : null;
+}
+
+/**
+ * HMAC of a normalized value, or null if it doesn't normalize
+ * The field name is part of the input so equal strings in different fields don't match.
+ */
+export function blindIndex(field: BlindIndexField, value: string | null | undefined): string | null {
+  const normalized = field === 'phone' ? normalizePhone(value) : normalizeEmail(value);
+  const key = getKey();
+  if (!normalized || !key) return null;
+
+  return crypto.createHmac('sha256', key).update(`${field}:${normalized}`).digest('hex');
+}
+
+/**
+ * Blind index columns for contact data being written
+ * Only fields present in `data` are returned, so partial updates leave the others alone.
+ */
+export function contactBlindIndexes(data: {
+  phone?: string | null;
+  email?: string | null;
+}): { phoneHash?: string | null; emailHash?: string | null } {
+  return {
+    ...(data.phone !== undefined && { phoneHash: blindIndex('phone', data.phone) }),
+    ...(data.email !== undefined && { emailHash: blindIndex('email', data.email) }),
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Busy time from several calendars
+ * Intervals keep the calendar they came from so a conflict can be explained.
+ */
+
+export type BusySource = 'account' | 'device';
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+  calendarId: string;
+  calendarName: string;
+  source: BusySource;
+  // Only account calendars are read event by event; device uploads carry no details
+  eventId?: string;
+  summary?: string | null;
+}
+
+export interface DeviceBusyBlockInput {
+  calendarId: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Intervals that overlap [start, end), earliest first
+ * Intervals that only touch the range (ending as it starts) don't count.
+ */
+export function overlapping(intervals: BusyInterval[], start: Date, end: Date): BusyInterval[] {
+  return intervals
+    .filter((interval) => interval.start < end && interval.end > start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Device blocks to store for an upload window
+ * Keeps blocks from the selected calendars, clips them to the window, drops
+ * empty ones and merges overlapping blocks within each calendar.
+ */
+export function normalizeDeviceBlocks(
+  blocks: DeviceBusyBlockInput[],
+  calendarIds: string[],
+  timeMin: Date,
+  timeMax: Date
+): DeviceBusyBlockInput[] {
+  const selected = new Set(calendarIds);
+  const clipped = blocks
+    .filter((block) => selected.has(block.calendarId))
+    .map((block) => ({
+      calendarId: block.calendarId,
+      start: new Date(Math.max(block.start.getTime(), timeMin.getTime())),
+      end: new Date(Math.min(block.end.getTime(), timeMax.getTime())),
+    }))
+    .filter((block) => block.end > block.start)
+    .sort((a, b) => a.calendarId.localeCompare(b.calendarId) || a.start.getTime() - b.start.getTime());
+
+  const merged: DeviceBusyBlockInput[] = [];
+  for (const block of clipped) {
+    const last = merged[merged.length - 1];
+    if (last && last.calendarId === block.calendarId && block.start <= last.end) {
+      if (block.end > last.end) last.end = block.end;
+    } else {
+      merged.push({ ...block });
+    }
+  }
+  return merged;
+}
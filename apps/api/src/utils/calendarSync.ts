@@ -0,0 +1,140 @@
+import { createHash } from 'crypto';
+import { getZonedParts, resolveTimezone } from './timezone';
+
+/**
+ * Two-way calendar sync: comparing an event with its copy in Google
+ * Each linked event keeps a hash of the fields below as of the last time both
+ * sides agreed, so a difference can be put down to whichever side moved away
+ * from it, or to both.
+ */
+
+export type ConflictPolicy = 'SOCAP_WINS' | 'GOOGLE_WINS' | 'ASK';
+
+export interface SyncedFields {
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM in the event's timezone
+  endTime: string;
+  location: string | null;
+  cancelled: boolean;
+}
+
+export type SyncedField = keyof SyncedFields;
+
+export type SyncDecision = 'none' | 'pull' | 'push' | 'conflict';
+
+export type SyncAction = 'none' | 'pull' | 'push' | 'ask';
+
+// The parts of a Google event that sync reads (a subset of calendar_v3.Schema$Event)
+export interface GoogleEventFields {
+  status?: string | null;
+  location?: string | null;
+  start?: { date?: string | null; dateTime?: string | null } | null;
+  end?: { date?: string | null; dateTime?: string | null } | null;
+}
+
+const SYNCED_FIELDS: SyncedField[] = ['date', 'startTime', 'endTime', 'location', 'cancelled'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * An event's synced fields; the location is what gets pushed to Google
+ */
+export function eventSyncFields(event: {
+  date: Date;
+  startTime: string;
+  endTime: string;
+  locationName: string | null;
+  locationAddress: string | null;
+  status: string;
+}): SyncedFields {
+  return {
+    date: event.date.toISOString().slice(0, 10),
+    startTime: event.startTime,
+    endTime: event.endTime,
+    location: event.locationAddress || event.locationName || null,
+    cancelled: event.status === 'CANCELLED',
+  };
+}
+
+/**
+ * A Google event's synced fields, with its times read in the event's timezone
+ * Deleted events come back with nothing but their status, so anything missing
+ * is taken from `fallback`. All-day events span the whole day.
+ */
+export function googleEventSyncFields(
+  googleEvent: GoogleEventFields,
+  fallback: SyncedFields,
+  timeZone: string
+): SyncedFields {
+  const cancelled = googleEvent.status === 'cancelled';
+  const start = googleEvent.start;
+  if (!start?.dateTime && !start?.date) {
+    return { ...fallback, cancelled };
+  }
+
+  const tz = resolveTimezone(timeZone);
+  const local = (dateTime: string) => {
+    const parts = getZonedParts(new Date(dateTime), tz);
+    return {
+      date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+      time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+    };
+  };
+
+  let date: string;
+  let startTime: string;
+  let endTime: string;
+  if (start.dateTime) {
+    ({ date, time: startTime } = local(start.dateTime));
+    endTime = googleEvent.end?.dateTime ? local(googleEvent.end.dateTime).time : fallback.endTime;
+  } else {
+    date = start.date!;
+    startTime = '00:00';
+    endTime = '23:59';
+  }
+
+  return { date, startTime, endTime, location: googleEvent.location?.trim() || null, cancelled };
+}
+
+/**
+ * Stable hash of the synced fields
+ */
+export function syncHash(fields: SyncedFields): string {
+  const values = SYNCED_FIELDS.map((field) => fields[field]);
+  return createHash('sha256').update(JSON.stringify(values)).digest('hex');
+}
+
+/**
+ * Fields that differ between two versions
+ */
+export function changedFields(from: SyncedFields, to: SyncedFields): SyncedField[] {
+  return SYNCED_FIELDS.filter((field) => from[field] !== to[field]);
+}
+
+/**
+ * Which way a linked event needs to sync
+ * With no base hash (linked before two-way sync) a difference can't be
+ * attributed to either side, so it's a conflict.
+ */
+export function decideSync(baseHash: string | null, local: SyncedFields, remote: SyncedFields): SyncDecision {
+  const localHash = syncHash(local);
+  const remoteHash = syncHash(remote);
+  if (localHash === remoteHash) return 'none';
+  if (!baseHash) return 'conflict';
+
+  const localChanged = localHash !== baseHash;
+  const remoteChanged = remoteHash !== baseHash;
+  if (remoteChanged && !localChanged) return 'pull';
+  if (localChanged && !remoteChanged) return 'push';
+  return 'conflict';
+}
+
+/**
+ * What to do about a decision under the user's conflict policy
+ */
+export function resolveSyncAction(decision: SyncDecision, policy: ConflictPolicy): SyncAction {
+  if (decision !== 'conflict') return decision;
+  if (policy === 'SOCAP_WINS') return 'push';
+  if (policy === 'GOOGLE_WINS') return 'pull';
+  return 'ask';
+}
@@ -0,0 +1,197 @@
+/**
+ * Duplicate contact detection and merge field resolution
+ *
+ * Phone and email are compared through their blind indexes (see blindIndex.ts),
+ * names with Jaro-Winkler similarity after normalizing case, accents, punctuation
+ * and word order ("Doe, John" and "john doe" are the same name).
+ */
+
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+export interface DuplicateCheckContact {
+  id: string;
+  name: string;
+  phoneHash: string | null;
+  emailHash: string | null;
+}
+
+export interface DuplicatePair {
+  contactIds: [string, string];
+  reasons: DuplicateReason[];
+  // 1 for a shared phone or email, otherwise how alike the names are
+  score: number;
+}
+
+// Names at least this similar are flagged, if both have a first and last name
+export const NAME_MATCH_THRESHOLD = 0.9;
+
+export const MERGE_FIELDS = ['name', 'phone', 'email', 'profileImage', 'bio', 'birthday', 'anniversary', 'notes'] as const;
+export type MergeField = (typeof MERGE_FIELDS)[number];
+export type MergeChoice = 'survivor' | 'duplicate';
+export type MergeFieldChoices = Partial<Record<MergeField, MergeChoice>>;
+export type MergeableContact = { [K in MergeField]?: K extends 'birthday' | 'anniversary' ? Date | null : string | null };
+
+/**
+ * Lowercase, unaccented name tokens in alphabetical order
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j <= Math.min(b.length - 1, i + window); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * How alike two names are, from 0 to 1
+ */
+export function nameSimilarity(a: string, b: string): number {
+  return jaroWinkler(normalizeName(a), normalizeName(b));
+}
+
+/**
+ * Pairs of contacts that look like the same person, most likely first
+ */
+export function findDuplicatePairs(contacts: DuplicateCheckContact[]): DuplicatePair[] {
+  const pairs = new Map<string, DuplicatePair>();
+
+  const flag = (a: string, b: string, reason: DuplicateReason, score: number) => {
+    const contactIds: [string, string] = a < b ? [a, b] : [b, a];
+    const key = contactIds.join('|');
+    const pair = pairs.get(key) ?? { contactIds, reasons: [], score: 0 };
+    if (!pair.reasons.includes(reason)) pair.reasons.push(reason);
+    pair.score = Math.max(pair.score, score);
+    pairs.set(key, pair);
+  };
+
+  // Shared phone or email
+  for (const field of ['phone', 'email'] as const) {
+    const byHash = new Map<string, string[]>();
+    for (const contact of contacts) {
+      const hash = field === 'phone' ? contact.phoneHash : contact.emailHash;
+      if (hash) byHash.set(hash, [...(byHash.get(hash) ?? []), contact.id]);
+    }
+    for (const ids of byHash.values()) {
+      for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) flag(ids[i], ids[j], field, 1);
+      }
+    }
+  }
+
+  // Similar names, only compared within buckets sharing a word's first two letters
+  const names = contacts.map((contact) => ({ id: contact.id, name: normalizeName(contact.name) }));
+  const buckets = new Map<string, number[]>();
+  names.forEach(({ name }, index) => {
+    for (const prefix of new Set(name.split(' ').map((token) => token.slice(0, 2)))) {
+      if (prefix.length === 2) buckets.set(prefix, [...(buckets.get(prefix) ?? []), index]);
+    }
+  });
+
+  const compared = new Set<string>();
+  for (const indexes of buckets.values()) {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const [a, b] = [names[indexes[i]], names[indexes[j]]];
+        const key = `${indexes[i]}|${indexes[j]}`;
+        if (compared.has(key)) continue;
+        compared.add(key);
+
+        // Single names like "Mom" or "Sam" are too short to judge by similarity alone
+        const fullNames = a.name.includes(' ') && b.name.includes(' ');
+        const score = jaroWinkler(a.name, b.name);
+        if (a.name === b.name || (fullNames && score >= NAME_MATCH_THRESHOLD)) {
+          flag(a.id, b.id, 'name', Math.round(score * 100) / 100);
+        }
+      }
+    }
+  }
+
+  return Array.from(pairs.values()).sort((a, b) => b.score - a.score || b.reasons.length - a.reasons.length);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return typeof a === 'string' && typeof b === 'string' ? a.trim() === b.trim() : a === b;
+}
+
+/**
+ * Fields where both contacts have a value and the values differ
+ */
+export function mergeConflicts(survivor: MergeableContact, duplicate: MergeableContact): MergeField[] {
+  return MERGE_FIELDS.filter(
+    (field) => !isEmpty(survivor[field]) && !isEmpty(duplicate[field]) && !sameValue(survivor[field], duplicate[field])
+  );
+}
+
+/**
+ * Field values for the merged contact
+ * Each field follows the user's choice; without one, the survivor's value is
+ * kept unless it's empty. `fromDuplicate` lists the fields taken from the duplicate.
+ */
+export function resolveMergedFields(
+  survivor: MergeableContact,
+  duplicate: MergeableContact,
+  choices: MergeFieldChoices = {}
+): { data: MergeableContact; fromDuplicate: MergeField[] } {
+  const data: Record<string, unknown> = {};
+  const fromDuplicate: MergeField[] = [];
+
+  for (const field of MERGE_FIELDS) {
+    const choice = choices[field] ?? (isEmpty(survivor[field]) && !isEmpty(duplicate[field]) ? 'duplicate' : 'survivor');
+    const value = choice === 'duplicate' ? duplicate[field] : survivor[field];
+    // The name can't be emptied
+    if (field === 'name' && isEmpty(value)) {
+      data.name = survivor.name;
+      continue;
+    }
+
+    data[field] = value ?? null;
+    if (choice === 'duplicate' && !sameValue(value, survivor[field])) fromDuplicate.push(field);
+  }
+
+  return { data: data as MergeableContact, fromDuplicate };
+}
@@ -0,0 +1,393 @@
+import { escapeText } from './ics';
+import { formatCsv, parseCsv } from './csv';
+import {
+  formatVCard,
+  isPreferred,
+  parseVCards,
+  splitValue,
+  textValue,
+  VCardOutputProperty,
+  VCardProperty,
+  VCardVersion,
+} from './vcard';
+
+/**
+ * Contacts in and out of vCard and CSV files
+ *
+ * Reading produces raw ContactRecords for the caller to validate; CSV columns
+ * are matched to fields by a mapping the user can adjust, starting from one
+ * guessed from Google and Outlook export headers. SoCap-only data (tier, shared
+ * interests, bio) is written as X-SOCAP-* vCard properties and extra CSV
+ * columns, which both readers pick up again.
+ */
+
+export type ContactFileFormat = 'vcard' | 'csv';
+
+// Same cap as JSON imports
+export const MAX_IMPORT_ROWS = 1000;
+
+export const IMPORT_FIELDS = [
+  'name',
+  'firstName',
+  'middleName',
+  'lastName',
+  'phone',
+  'email',
+  'birthday',
+  'anniversary',
+  'notes',
+  'bio',
+  'profileImage',
+  'tier',
+  'sharedInterests',
+] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Field -> CSV header it's read from
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+/**
+ * One contact as read from a file, before validation
+ */
+export interface ContactRecord {
+  // CSV: spreadsheet row number (the header is row 1); vCard: line of BEGIN:VCARD
+  row: number;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  // Dates as written in the file
+  birthday: string | null;
+  anniversary: string | null;
+  notes: string | null;
+  bio: string | null;
+  profileImage: string | null;
+  tier: string | null;
+  sharedInterests: string[];
+}
+
+/**
+ * A contact as written to a file
+ */
+export interface ExportContact {
+  name: string;
+  phone: string | null;
+  email: string | null;
+  birthday: Date | null;
+  anniversary: Date | null;
+  notes: string | null;
+  bio: string | null;
+  profileImage: string | null;
+  tier: string | null;
+  sharedInterests: string[];
+}
+
+// Header spellings per field, most specific first, compared lowercase without punctuation
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'fullname', 'displayname'],
+  firstName: ['firstname', 'givenname'],
+  middleName: ['middlename', 'additionalname'],
+  lastName: ['lastname', 'familyname', 'surname'],
+  phone: [
+    'phone',
+    'phonenumber',
+    'mobilephone',
+    'mobile',
+    'cellphone',
+    'phone1value',
+    'primaryphone',
+    'homephone',
+    'businessphone',
+  ],
+  email: ['email', 'emailaddress', 'email1value', 'emailaddress1'],
+  birthday: ['birthday', 'birthdate', 'dateofbirth'],
+  anniversary: ['anniversary'],
+  notes: ['notes', 'note'],
+  bio: ['bio', 'about'],
+  profileImage: ['photo', 'photourl', 'profileimage'],
+  tier: ['tier', 'relationshiptier'],
+  sharedInterests: ['sharedinterests', 'interests'],
+};
+
+const EXPORT_COLUMNS: Array<[string, (contact: ExportContact) => string | null]> = [
+  ['Name', (contact) => contact.name],
+  ['Phone', (contact) => contact.phone],
+  ['Email', (contact) => contact.email],
+  ['Birthday', (contact) => formatDate(contact.birthday)],
+  ['Anniversary', (contact) => formatDate(contact.anniversary)],
+  ['Tier', (contact) => contact.tier],
+  ['Shared Interests', (contact) => contact.sharedInterests.join(', ')],
+  ['Notes', (contact) => contact.notes],
+  ['Bio', (contact) => contact.bio],
+  ['Photo', (contact) => contact.profileImage],
+];
+
+const ANNIVERSARY_PROPERTIES = ['ANNIVERSARY', 'X-ANNIVERSARY', 'X-MS-ANNIVERSARY', 'X-EVOLUTION-ANNIVERSARY'];
+
+function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function formatDate(date: Date | null): string | null {
+  return date ? date.toISOString().slice(0, 10) : null;
+}
+
+function blankToNull(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+// Google packs several values into one cell as "a ::: b"
+function firstValue(value: string | null | undefined): string | null {
+  return blankToNull(value?.split(' ::: ')[0]);
+}
+
+/**
+ * Split a list of interests written as "a, b", "a; b" or Google's "a ::: b"
+ */
+export function splitInterests(value: string | null | undefined): string[] {
+  return Array.from(
+    new Set(
+      (value ?? '')
+        .split(/\s*(?:,|;| ::: )\s*/)
+        .map((interest) => interest.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+/**
+ * Normalize a tier name, e.g. "Close friends" -> "CLOSE_FRIENDS"
+ */
+export function normalizeTier(value: string): string {
+  return value.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Whether a date is written without a year, e.g. "--0315" or "3/15"
+ */
+export function isYearlessDate(value: string): boolean {
+  return /^--\d{2}-?\d{2}$/.test(value.trim()) || /^\d{1,2}[/.]\d{1,2}$/.test(value.trim());
+}
+
+/**
+ * Parse a date-only value as UTC midnight
+ * Accepts ISO (1990-03-15, 19900315, with or without a time), US slashes
+ * (3/15/1990, read day-first when the first number can't be a month) and
+ * European dots (15.03.1990). Returns null for anything else.
+ */
+export function parseContactDate(value: string): Date | null {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = trimmed.match(/^(\d{4})-?(\d{2})-?(\d{2})(?:T[\d:.]*(?:Z|[+-]\d{2}:?\d{2})?)?$/);
+  const numeric = trimmed.match(/^(\d{1,2})([/.])(\d{1,2})\2(\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[3])];
+    const dayFirst = numeric[2] === '.' || first > 12;
+    [year, month, day] = [Number(numeric[4]), dayFirst ? second : first, dayFirst ? first : second];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const valid = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return valid ? date : null;
+}
+
+/**
+ * Guess which column holds each field from a CSV's headers
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const byKey = new Map<string, string>();
+  for (const header of headers) {
+    if (!byKey.has(headerKey(header))) byKey.set(headerKey(header), header);
+  }
+
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const alias = HEADER_ALIASES[field].find((key) => byKey.has(key));
+    if (alias) mapping[field] = byKey.get(alias);
+  }
+  return mapping;
+}
+
+/**
+ * Read contacts from CSV text
+ * Without a mapping, one is suggested from the headers. Throws if the mapping
+ * names a column the file doesn't have.
+ */
+export function readCsvContacts(
+  text: string,
+  mapping?: ColumnMapping
+): { headers: string[]; mapping: ColumnMapping; records: ContactRecord[] } {
+  const [headerRow = [], ...rows] = parseCsv(text);
+  const headers = headerRow.map((header) => header.trim());
+  const columnMapping = mapping ?? suggestColumnMapping(headers);
+
+  const columns: Partial<Record<ImportField, number>> = {};
+  for (const [field, header] of Object.entries(columnMapping) as Array<[ImportField, string]>) {
+    const index = headers.indexOf(header);
+    if (index === -1) {
+      throw new Error(`Column not found: ${header}`);
+    }
+    columns[field] = index;
+  }
+
+  const records = rows.map((cells, index) => {
+    const cell = (field: ImportField) => {
+      const column = columns[field];
+      return column === undefined ? null : blankToNull(cells[column]);
+    };
+    const fullName = [cell('firstName'), cell('middleName'), cell('lastName')].filter(Boolean).join(' ');
+    const date = (field: 'birthday' | 'anniversary') => {
+      const value = cell(field);
+      // Outlook writes "0/0/00" for no date
+      return value && !/^[0/.-]+$/.test(value) ? value : null;
+    };
+
+    return {
+      row: index + 2,
+      name: cell('name') ?? fullName,
+      phone: firstValue(cell('phone')),
+      email: firstValue(cell('email')),
+      birthday: date('birthday'),
+      anniversary: date('anniversary'),
+      notes: cell('notes'),
+      bio: cell('bio'),
+      profileImage: cell('profileImage'),
+      tier: cell('tier'),
+      sharedInterests: splitInterests(cell('sharedInterests')),
+    };
+  });
+
+  return { headers, mapping: columnMapping, records };
+}
+
+function pick(properties: VCardProperty[], name: string): VCardProperty | undefined {
+  const matches = properties.filter((property) => property.name === name && property.value.trim());
+  return matches.find(isPreferred) ?? matches[0];
+}
+
+function vCardName(properties: VCardProperty[]): string {
+  const formatted = pick(properties, 'FN');
+  if (formatted) return textValue(formatted);
+
+  const structured = pick(properties, 'N');
+  if (structured) {
+    const [family, given, additional, prefix, suffix] = splitValue(structured.value, ';').map((part) =>
+      part.replace(/,/g, ' ').trim()
+    );
+    const name = [prefix, given, additional, family, suffix].filter(Boolean).join(' ');
+    if (name) return name;
+  }
+
+  const org = pick(properties, 'ORG');
+  return org ? splitValue(org.value, ';')[0].trim() : '';
+}
+
+function vCardAnniversary(properties: VCardProperty[]): string | null {
+  const direct = properties.find((property) => ANNIVERSARY_PROPERTIES.includes(property.name));
+  if (direct) return textValue(direct);
+
+  // Apple: item1.X-ABDATE:2010-06-12 with item1.X-ABLABEL:_$!<Anniversary>!$_
+  const labelled = properties.find(
+    (property) =>
+      property.name === 'X-ABDATE' &&
+      properties.some(
+        (label) =>
+          label.group === property.group && label.name === 'X-ABLABEL' && /anniversary/i.test(label.value)
+      )
+  );
+  return labelled ? textValue(labelled) : null;
+}
+
+/**
+ * Read contacts from vCard text
+ */
+export function readVCardContacts(text: string): ContactRecord[] {
+  return parseVCards(text).map(({ line, properties }) => {
+    const valueOf = (name: string) => {
+      const property = pick(properties, name);
+      return property ? blankToNull(textValue(property)) : null;
+    };
+    const phone = valueOf('TEL')?.replace(/^tel:/i, '') ?? null;
+    const email = valueOf('EMAIL')?.replace(/^mailto:/i, '') ?? null;
+    const photo = valueOf('PHOTO');
+    const interests = pick(properties, 'X-SOCAP-SHARED-INTERESTS');
+
+    return {
+      row: line,
+      name: vCardName(properties),
+      phone,
+      email,
+      birthday: valueOf('BDAY'),
+      anniversary: vCardAnniversary(properties),
+      notes: valueOf('NOTE'),
+      bio: valueOf('X-SOCAP-BIO'),
+      // Inline (base64) photos are dropped; only links are kept
+      profileImage: photo && /^https?:\/\//i.test(photo) ? photo : null,
+      tier: valueOf('X-SOCAP-TIER'),
+      sharedInterests: interests ? splitValue(interests.value, ',').map((i) => i.trim()).filter(Boolean) : [],
+    };
+  });
+}
+
+/**
+ * Write contacts as CSV, one row each after a header row
+ */
+export function contactsToCsv(contacts: ExportContact[]): string {
+  return formatCsv([
+    EXPORT_COLUMNS.map(([header]) => header),
+    ...contacts.map((contact) => EXPORT_COLUMNS.map(([, value]) => value(contact))),
+  ]);
+}
+
+/**
+ * Write contacts as vCards
+ * 3.0 has no ANNIVERSARY property, so it's written as X-ANNIVERSARY there.
+ */
+export function contactsToVCards(contacts: ExportContact[], version: VCardVersion = '3.0'): string {
+  // 4.0 dates are written in basic format (19900315)
+  const date = (value: Date) => (version === '4.0' ? formatDate(value)!.replace(/-/g, '') : formatDate(value)!);
+
+  return contacts
+    .map((contact) => {
+      // Contacts only have a full name; treat its last word as the family name
+      const words = contact.name.trim().split(/\s+/);
+      const family = words.length > 1 ? words.pop()! : '';
+      const properties: VCardOutputProperty[] = [
+        { name: 'FN', value: escapeText(contact.name) },
+        { name: 'N', value: `${escapeText(family)};${escapeText(words.join(' '))};;;` },
+      ];
+      if (contact.phone) properties.push({ name: 'TEL', params: { TYPE: 'cell' }, value: escapeText(contact.phone) });
+      if (contact.email) properties.push({ name: 'EMAIL', value: escapeText(contact.email) });
+      if (contact.birthday) properties.push({ name: 'BDAY', value: date(contact.birthday) });
+      if (contact.anniversary) {
+        const name = version === '4.0' ? 'ANNIVERSARY' : 'X-ANNIVERSARY';
+        properties.push({ name, value: date(contact.anniversary) });
+      }
+      if (contact.profileImage && /^https?:\/\//i.test(contact.profileImage)) {
+        properties.push(
+          version === '4.0'
+            ? { name: 'PHOTO', value: contact.profileImage }
+            : { name: 'PHOTO', params: { VALUE: 'uri' }, value: contact.profileImage }
+        );
+      }
+      if (contact.notes) properties.push({ name: 'NOTE', value: escapeText(contact.notes) });
+      if (contact.bio) properties.push({ name: 'X-SOCAP-BIO', value: escapeText(contact.bio) });
+      if (contact.tier) properties.push({ name: 'X-SOCAP-TIER', value: escapeText(contact.tier) });
+      if (contact.sharedInterests.length > 0) {
+        properties.push({
+          name: 'X-SOCAP-SHARED-INTERESTS',
+          value: contact.sharedInterests.map(escapeText).join(','),
+        });
+      }
+
+      return formatVCard(version, properties);
+    })
+    .join('');
+}
@@ -0,0 +1,82 @@
+/**
+ * CSV (RFC 4180) reading and writing
+ * Accepts comma, semicolon or tab delimiters (Outlook in some locales writes
+ * semicolons), quoted fields with embedded newlines, and a UTF-8 BOM.
+ */
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=@\t\r]|^[+-](?![\d\s(])/;
+
+/**
+ * The delimiter used most in the header line
+ */
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return DELIMITERS.reduce((best, delimiter) =>
+    header.split(delimiter).length > header.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Parse CSV text into rows of cells
+ * Blank lines are dropped; rows keep whatever number of cells they have.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+function formatCell(value: string | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Write rows as CSV with CRLF line endings
+ */
+export function formatCsv(rows: Array<Array<string | null | undefined>>): string {
+  return rows.map((row) => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -1,42 +1,139 @@
 import crypto from 'crypto';
 
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY;
+/**
+ * AES-256-GCM encryption with a keyring
+ *
+ * Ciphertexts are `v2:<keyId>:<iv>:<authTag>:<data>` (hex), naming the key that
+ * encrypted them. New data always uses the active key; anything encrypted with
+ * a key still in the ring can be decrypted, so keys can be rotated and old data
+ * re-encrypted in the background (see jobs/reencryptData.ts).
+ *
+ * Keys come from:
+ * - ENCRYPTION_KEYS: comma-separated `id:key` pairs
+ * - ENCRYPTION_KEY: a single key, with id `default`
+ * - ENCRYPTION_KEY_ID: the active key; defaults to the first of ENCRYPTION_KEYS, else `default`
+ *
+ * Keys are 64 hex characters (32 bytes); anything else is treated as a passphrase
+ * and stretched with scrypt. Legacy `iv:authTag:data` ciphertexts carry no key id
+ * and are tried against every key in the ring.
+ */
+
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
 const AUTH_TAG_LENGTH = 16;
+const VERSION = 'v2';
+const DEFAULT_KEY_ID = 'default';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface Keyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
 
-if (!ENCRYPTION_KEY) {
+if (!process.env.ENCRYPTION_KEY && !process.env.ENCRYPTION_KEYS) {
   console.warn(
     '⚠️  ENCRYPTION_KEY not set in environment variables. Encryption functions will throw errors.'
   );
 }
 
+function toKey(value: string): Buffer {
+  return /^[0-9a-f]{64}$/i.test(value)
+    ? Buffer.from(value, 'hex')
+    : crypto.scryptSync(value, 'socap-encryption-key', 32);
+}
+
+let cachedKeyring: { config: string; keyring: Keyring } | null = null;
+
 /**
- * Validate encryption key format
+ * The keyring from the environment
+ * Re-read whenever the variables change, so tests and rotations can swap keys.
  */
-function validateKey(): Buffer {
-  if (!ENCRYPTION_KEY) {
-    throw new Error('ENCRYPTION_KEY environment variable is not set');
+export function getKeyring(): Keyring {
+  const { ENCRYPTION_KEYS = '', ENCRYPTION_KEY = '', ENCRYPTION_KEY_ID = '' } = process.env;
+  const config = [ENCRYPTION_KEYS, ENCRYPTION_KEY, ENCRYPTION_KEY_ID].join('|');
+  if (cachedKeyring?.config === config) {
+    return cachedKeyring.keyring;
   }
 
-  // Key should be 64 hex characters (32 bytes)
-  if (ENCRYPTION_KEY.length !== 64) {
+  const keys = new Map<string, Buffer>();
+  for (const entry of ENCRYPTION_KEYS.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator);
+    if (separator <= 0 || !KEY_ID_PATTERN.test(id)) {
+      throw new Error('ENCRYPTION_KEYS must be comma-separated id:key pairs with ids of letters, digits, - and _');
+    }
+    if (keys.has(id)) {
+      throw new Error(`ENCRYPTION_KEYS lists key "${id}" more than once`);
+    }
+    keys.set(id, toKey(entry.slice(separator + 1)));
+  }
+  if (ENCRYPTION_KEY && !keys.has(DEFAULT_KEY_ID)) {
+    keys.set(DEFAULT_KEY_ID, toKey(ENCRYPTION_KEY));
+  }
+
+  const activeKeyId = ENCRYPTION_KEY_ID || keys.keys().next().value || DEFAULT_KEY_ID;
+  const keyring = { activeKeyId, keys };
+  cachedKeyring = { config, keyring };
+  return keyring;
+}
+
+/**
+ * Whether any encryption key is configured
+ */
+export function hasEncryptionKey(): boolean {
+  return getKeyring().keys.size > 0;
+}
+
+/**
+ * Id of the key new data is encrypted with
+ */
+export function getActiveKeyId(): string {
+  return getKeyring().activeKeyId;
+}
+
+function getActiveKey(): { id: string; key: Buffer } {
+  const { activeKeyId, keys } = getKeyring();
+  const key = keys.get(activeKeyId);
+  if (!key) {
     throw new Error(
-      'ENCRYPTION_KEY must be 64 hex characters (32 bytes). Generate one with: node -e "console.log(require(\'crypto\').randomBytes(32).toString(\'hex\'))"'
+      keys.size === 0
+        ? 'ENCRYPTION_KEY environment variable is not set'
+        : `ENCRYPTION_KEY_ID "${activeKeyId}" is not in the keyring`
     );
   }
+  return { id: activeKeyId, key };
+}
 
-  try {
-    return Buffer.from(ENCRYPTION_KEY, 'hex');
-  } catch (error) {
-    throw new Error('ENCRYPTION_KEY must be a valid hex string');
+function parseCiphertext(text: string): { keyId: string | null; iv: string; authTag: string; data: string } | null {
+  const parts = text.split(':');
+  const isHex = (value: string, length?: number) =>
+    /^[0-9a-f]*$/i.test(value) && (length === undefined || value.length === length);
+
+  if (parts.length === 5 && parts[0] === VERSION && KEY_ID_PATTERN.test(parts[1])) {
+    const [, keyId, iv, authTag, data] = parts;
+    if (isHex(iv, IV_LENGTH * 2) && isHex(authTag, AUTH_TAG_LENGTH * 2) && isHex(data)) {
+      return { keyId, iv, authTag, data };
+    }
   }
+  if (parts.length === 3) {
+    const [iv, authTag, data] = parts;
+    if (isHex(iv, IV_LENGTH * 2) && isHex(authTag, AUTH_TAG_LENGTH * 2) && isHex(data)) {
+      return { keyId: null, iv, authTag, data };
+    }
+  }
+  return null;
+}
+
+function decryptWith(key: Buffer, iv: string, authTag: string, data: string): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+  return decipher.update(data, 'hex', 'utf8') + decipher.final('utf8');
 }
 
 /**
- * Encrypt sensitive text data
+ * Encrypt sensitive text data with the active key
  * @param text - Plain text to encrypt
- * @returns Encrypted string in format: iv:authTag:encryptedData
+ * @returns Encrypted string in format: v2:keyId:iv:authTag:encryptedData
  */
 export function encrypt(text: string): string {
   if (!text) {
@@ -44,7 +141,7 @@ export function encrypt(text: string): string {
   }
 
   try {
-    const key = validateKey();
+    const { id, key } = getActiveKey();
     const iv = crypto.randomBytes(IV_LENGTH);
     const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
 
@@ -53,8 +150,7 @@ export function encrypt(text: string): string {
 
     const authTag = cipher.getAuthTag();
 
-    // Return format: iv:authTag:encryptedData
-    return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+    return `${VERSION}:${id}:${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
   } catch (error) {
     console.error('Encryption error:', error);
     throw new Error('Failed to encrypt data');
@@ -62,34 +158,43 @@ export function encrypt(text: string): string {
 }
 
 /**
- * Decrypt sensitive text data
- * @param encryptedText - Encrypted string in format: iv:authTag:encryptedData
- * @returns Decrypted plain text
+ * Decrypt sensitive text data with whichever key in the ring encrypted it
+ * @param encryptedText - v2 or legacy (iv:authTag:encryptedData) ciphertext
+ * @returns Decrypted plain text, or an empty string if the input isn't ciphertext
+ * @throws If the key is unknown or the data fails authentication
  */
 export function decrypt(encryptedText: string): string {
   if (!encryptedText) {
     return encryptedText;
   }
 
+  const parsed = parseCiphertext(encryptedText);
+  if (!parsed) {
+    console.warn('Decryption skipped: data is not in an encrypted format');
+    return '';
+  }
+
   try {
-    const key = validateKey();
-    const parts = encryptedText.split(':');
+    const { keys } = getKeyring();
+    const { keyId, iv, authTag, data } = parsed;
 
-    if (parts.length !== 3) {
-      throw new Error('Invalid encrypted data format');
+    if (keyId !== null) {
+      const key = keys.get(keyId);
+      if (!key) {
+        throw new Error(`Unknown encryption key "${keyId}"`);
+      }
+      return decryptWith(key, iv, authTag, data);
     }
 
-    const [ivHex, authTagHex, encrypted] = parts;
-    const iv = Buffer.from(ivHex, 'hex');
-    const authTag = Buffer.from(authTagHex, 'hex');
-
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(authTag);
-
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-
-    return decrypted;
+    // Legacy ciphertext: the auth tag tells us which key was used
+    for (const key of keys.values()) {
+      try {
+        return decryptWith(key, iv, authTag, data);
+      } catch {
+        // Try the next key
+      }
+    }
+    throw new Error('No key in the keyring can decrypt this data');
   } catch (error) {
     console.error('Decryption error:', error);
     throw new Error('Failed to decrypt data');
@@ -98,14 +203,41 @@ export function decrypt(encryptedText: string): string {
 
 /**
  * Check if a string is encrypted (has the expected format)
- * Format: iv(32 hex chars):authTag(32 hex chars):encryptedData(hex)
+ * Format: v2:keyId:iv(32 hex chars):authTag(32 hex chars):encryptedData(hex),
+ * or the legacy iv:authTag:encryptedData
  */
 export function isEncrypted(text: string): boolean {
   if (!text) {
     return false;
   }
-  const parts = text.split(':');
-  return parts.length === 3 && parts[0].length === 32 && parts[1].length === 32;
+  return parseCiphertext(text) !== null;
+}
+
+/**
+ * Whether a ciphertext should be re-encrypted with the active key
+ * True for legacy ciphertexts and ones made with any other key.
+ */
+export function needsReEncryption(text: string | null | undefined): boolean {
+  if (!text) {
+    return false;
+  }
+  const parsed = parseCiphertext(text);
+  return parsed !== null && parsed.keyId !== getActiveKeyId();
+}
+
+/**
+ * Re-encrypt a ciphertext with the active key
+ * Returns the input unchanged if it's already current or isn't ciphertext.
+ */
+export function reEncrypt(text: string): string {
+  return needsReEncryption(text) ? encrypt(decrypt(text)) : text;
+}
+
+/**
+ * Generate a random 32-byte key as 64 hex characters
+ */
+export function generateEncryptionKey(): string {
+  return crypto.randomBytes(32).toString('hex');
 }
 
 /**
@@ -172,7 +304,7 @@ export function decryptObject<T extends Record<string, any>>(
   }
 
   // If encryption key is not set, return object as-is (data is likely not encrypted)
-  if (!ENCRYPTION_KEY) {
+  if (!hasEncryptionKey()) {
     return obj;
   }
 
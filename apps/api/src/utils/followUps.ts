@@ -0,0 +1,109 @@
+import { getZonedParts, startOfZonedDay, zonedTimeToUtc } from './timezone';
+
+export const MAX_FOLLOW_UPS = 5;
+// Follow-ups with no date in the notes come due this many days after the interaction
+const DEFAULT_DELAY_DAYS = 3;
+// Local hour follow-up reminders are scheduled for
+const FOLLOW_UP_HOUR = 9;
+const MAX_TITLE_LENGTH = 100;
+const MAX_DETAIL_LENGTH = 500;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * A follow-up ready to be stored for the user to confirm
+ */
+export interface FollowUpDraft {
+  title: string;
+  detail: string;
+  excerpt: string | null;
+  dueDate: Date;
+}
+
+function clip(value: unknown, max: number): string {
+  if (typeof value !== 'string') return '';
+  const trimmed = value.trim().replace(/\s+/g, ' ');
+  return trimmed.length > max ? `${trimmed.slice(0, max - 1).trimEnd()}…` : trimmed;
+}
+
+// FOLLOW_UP_HOUR on a local calendar day
+function morningOf(day: { year: number; month: number; day: number }, timeZone: string): Date {
+  return zonedTimeToUtc({ ...day, hour: FOLLOW_UP_HOUR }, timeZone);
+}
+
+function parseLocalDate(value: unknown): { year: number; month: number; day: number } | null {
+  const match = typeof value === 'string' ? value.trim().match(/^(\d{4})-(\d{2})-(\d{2})/) : null;
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const check = new Date(Date.UTC(year, month - 1, day));
+  // Rejects dates like 2026-02-30 that Date.UTC would roll over
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+  return { year, month, day };
+}
+
+/**
+ * Key two follow-ups with the same title (up to case and spacing) share
+ */
+export function followUpKey(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Local date of an instant as "YYYY-MM-DD (Weekday)", so the model can resolve "next Friday"
+ */
+export function describeLocalDate(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone);
+  const iso = `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+  return `${iso} (${WEEKDAY_NAMES[parts.weekday]})`;
+}
+
+/**
+ * Turn the model's follow-up list into drafts with real due dates
+ * Accepts `[...]` or `{ followUps: [...] }`. Items without a title are dropped,
+ * duplicates collapse, and dates are read as local days in the user's timezone.
+ * Missing or unreadable dates fall back to a few days after the interaction;
+ * anything that would already be due moves to tomorrow morning.
+ */
+export function normalizeFollowUps(
+  raw: unknown,
+  options: { interactionDate: Date; timeZone: string; now?: Date }
+): FollowUpDraft[] {
+  const { interactionDate, timeZone, now = new Date() } = options;
+  const items: unknown[] = Array.isArray(raw)
+    ? raw
+    : typeof raw === 'object' && raw !== null && 'followUps' in raw && Array.isArray(raw.followUps)
+      ? raw.followUps
+      : [];
+
+  const fallbackDay = getZonedParts(startOfZonedDay(interactionDate, timeZone, DEFAULT_DELAY_DAYS), timeZone);
+  const tomorrow = morningOf(getZonedParts(startOfZonedDay(now, timeZone, 1), timeZone), timeZone);
+
+  const seen = new Set<string>();
+  const drafts: FollowUpDraft[] = [];
+
+  for (const entry of items) {
+    if (!entry || typeof entry !== 'object') continue;
+    const item = entry as Record<string, unknown>;
+
+    const title = clip(item.title, MAX_TITLE_LENGTH);
+    if (!title || seen.has(followUpKey(title))) continue;
+    seen.add(followUpKey(title));
+
+    let dueDate = morningOf(parseLocalDate(item.dueDate) ?? fallbackDay, timeZone);
+    if (dueDate.getTime() <= now.getTime()) {
+      dueDate = tomorrow;
+    }
+
+    drafts.push({
+      title,
+      detail: clip(item.detail, MAX_DETAIL_LENGTH) || title,
+      excerpt: clip(item.excerpt, MAX_DETAIL_LENGTH) || null,
+      dueDate,
+    });
+
+    if (drafts.length >= MAX_FOLLOW_UPS) break;
+  }
+
+  return drafts;
+}
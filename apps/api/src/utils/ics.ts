@@ -0,0 +1,348 @@
+import { zonedTimeToUtc, resolveTimezone, getZonedParts, getTimezoneOffset } from './timezone';
+
+/**
+ * iCalendar (RFC 5545) generation
+ * Builds single-VEVENT calendars for email invitations (iTIP REQUEST/CANCEL,
+ * RFC 5546) and multi-event feeds. Times are written in UTC unless an event
+ * names a timezone, in which case a matching VTIMEZONE is included.
+ */
+
+export type ICSMethod = 'REQUEST' | 'CANCEL' | 'PUBLISH';
+
+export type ICSPartStat = 'NEEDS-ACTION' | 'ACCEPTED' | 'DECLINED' | 'TENTATIVE';
+
+export interface ICSPerson {
+  name?: string | null;
+  email: string;
+}
+
+export interface ICSAttendee extends ICSPerson {
+  partstat?: ICSPartStat;
+}
+
+export interface ICSEvent {
+  uid: string;
+  sequence?: number;
+  start: Date;
+  end: Date;
+  allDay?: boolean;
+  // Write times as local wall-clock in this IANA timezone (keeps RRULEs DST-correct)
+  timeZone?: string | null;
+  // Original start of the occurrence this VEVENT overrides
+  recurrenceId?: Date | null;
+  exdates?: Date[];
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  rrule?: string | null;
+  organizer?: ICSPerson | null;
+  attendees?: ICSAttendee[];
+  lastModified?: Date;
+}
+
+const PRODID = '-//SoCap//Events//EN';
+const MAX_LINE_OCTETS = 75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 3.1)
+ * Never splits a multi-byte UTF-8 character.
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  // Continuation lines start with a space, which counts toward their 75 octets
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME (e.g. 20260315T180000Z)
+ */
+export function formatICSDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format the UTC calendar day of an instant as a DATE (e.g. 20260315)
+ */
+export function formatICSDate(date: Date): string {
+  return formatICSDateTime(date).slice(0, 8);
+}
+
+/**
+ * Format an instant as a local DATE-TIME in a timezone (e.g. 20260315T140000)
+ */
+export function formatICSLocalDateTime(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return (
+    `${pad(parts.year, 4)}${pad(parts.month)}${pad(parts.day)}` +
+    `T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`
+  );
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+function getTimezoneAbbreviation(date: Date, timeZone: string): string | null {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find((p) => p.type === 'timeZoneName');
+  return part?.value ?? null;
+}
+
+/**
+ * Find the instants a timezone's UTC offset changes within [from, to]
+ * Scans day by day, then narrows each change down to the minute.
+ */
+export function findOffsetTransitions(
+  timeZone: string,
+  from: Date,
+  to: Date
+): Array<{ at: Date; offsetFrom: number; offsetTo: number }> {
+  const transitions: Array<{ at: Date; offsetFrom: number; offsetTo: number }> = [];
+  let previous = from.getTime();
+  let previousOffset = getTimezoneOffset(from, timeZone);
+
+  for (let t = previous + DAY_MS; previous < to.getTime(); t += DAY_MS) {
+    const current = Math.min(t, to.getTime());
+    const offset = getTimezoneOffset(new Date(current), timeZone);
+
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = current;
+      while (high - low > 60000) {
+        const mid = low + Math.floor((high - low) / 120000) * 60000;
+        if (getTimezoneOffset(new Date(mid), timeZone) === previousOffset) low = mid;
+        else high = mid;
+      }
+      transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+      previousOffset = offset;
+    }
+
+    previous = current;
+  }
+
+  return transitions;
+}
+
+/**
+ * Build a VTIMEZONE for an IANA timezone, valid over [from, to]
+ * Each offset change in the range becomes its own STANDARD/DAYLIGHT observance,
+ * so no DST rules have to be inferred.
+ */
+export function buildVTimezone(timeZone: string, from: Date, to: Date): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  const observance = (at: Date, offsetFrom: number, offsetTo: number, daylight: boolean) => {
+    const kind = daylight ? 'DAYLIGHT' : 'STANDARD';
+    const name = getTimezoneAbbreviation(at, timeZone);
+    // DTSTART is the local time of the change, expressed in the offset before it
+    const localStart = formatICSDateTime(new Date(at.getTime() + offsetFrom * 60000)).replace('Z', '');
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${localStart}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      ...(name ? [`TZNAME:${name}`] : []),
+      `END:${kind}`
+    );
+  };
+
+  const transitions = findOffsetTransitions(timeZone, from, to);
+  const initialOffset = getTimezoneOffset(from, timeZone);
+  // Treat the initial offset as daylight time if the first change moves clocks back
+  const initialDaylight = transitions.length > 0 && transitions[0].offsetTo < initialOffset;
+  observance(from, initialOffset, initialOffset, initialDaylight);
+
+  for (const transition of transitions) {
+    observance(transition.at, transition.offsetFrom, transition.offsetTo, transition.offsetTo > transition.offsetFrom);
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+function quoteParam(value: string): string {
+  // Parameter values can't contain quotes; strip them rather than fail
+  const cleaned = value.replace(/"/g, '');
+  return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+function formatPerson(property: string, person: ICSPerson, params: string[] = []): string {
+  const allParams = person.name ? [`CN=${quoteParam(person.name)}`, ...params] : params;
+  const prefix = allParams.length > 0 ? `${property};${allParams.join(';')}` : property;
+  return `${prefix}:mailto:${person.email}`;
+}
+
+/**
+ * Parse an "HH:mm" (or "h:mm AM") time string
+ * Returns null when the string isn't a recognizable time.
+ */
+export function parseTimeOfDay(value: string | null | undefined): { hour: number; minute: number } | null {
+  if (!value) return null;
+
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp][Mm])?$/);
+  if (!match) return null;
+
+  let hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  const meridiem = match[3]?.toUpperCase();
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'PM' ? 12 : 0);
+  }
+
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+}
+
+/**
+ * Resolve an event's day plus local start/end times into UTC instants
+ * The day is read from the date's UTC calendar day, as event dates are stored.
+ * Falls back to an all-day event when the start time can't be parsed.
+ */
+export function resolveEventTimes(
+  date: Date,
+  startTime: string | null | undefined,
+  endTime: string | null | undefined,
+  timeZone: string | null | undefined
+): { start: Date; end: Date; allDay: boolean } {
+  const tz = resolveTimezone(timeZone);
+  const day = { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  const start = parseTimeOfDay(startTime);
+
+  if (!start) {
+    const dayStart = new Date(Date.UTC(day.year, day.month - 1, day.day));
+    return { start: dayStart, end: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000), allDay: true };
+  }
+
+  const startAt = zonedTimeToUtc({ ...day, ...start }, tz);
+  const end = parseTimeOfDay(endTime);
+  let endAt = end ? zonedTimeToUtc({ ...day, ...end }, tz) : new Date(startAt.getTime() + 60 * 60 * 1000);
+
+  // An end time before the start means the event runs past midnight
+  if (endAt <= startAt) {
+    endAt = new Date(endAt.getTime() + 24 * 60 * 60 * 1000);
+  }
+
+  return { start: startAt, end: endAt, allDay: false };
+}
+
+function getLocalTimeZone(event: ICSEvent): string | null {
+  return !event.allDay && event.timeZone && event.timeZone !== 'UTC' ? event.timeZone : null;
+}
+
+function buildEvent(event: ICSEvent, now: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICSDateTime(now)}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+  ];
+
+  const timeZone = getLocalTimeZone(event);
+  const formatTime = (property: string, date: Date) => {
+    if (event.allDay) return `${property};VALUE=DATE:${formatICSDate(date)}`;
+    if (timeZone) return `${property};TZID=${timeZone}:${formatICSLocalDateTime(date, timeZone)}`;
+    return `${property}:${formatICSDateTime(date)}`;
+  };
+
+  lines.push(formatTime('DTSTART', event.start), formatTime('DTEND', event.end));
+  if (event.recurrenceId) lines.push(formatTime('RECURRENCE-ID', event.recurrenceId));
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  for (const exdate of event.exdates ?? []) {
+    lines.push(formatTime('EXDATE', exdate));
+  }
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatICSDateTime(event.lastModified)}`);
+  if (event.organizer) lines.push(formatPerson('ORGANIZER', event.organizer));
+
+  for (const attendee of event.attendees ?? []) {
+    lines.push(
+      formatPerson('ATTENDEE', attendee, [
+        'ROLE=REQ-PARTICIPANT',
+        `PARTSTAT=${attendee.partstat ?? 'NEEDS-ACTION'}`,
+        'RSVP=TRUE',
+      ])
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build a VCALENDAR document
+ * Lines are folded and CRLF-terminated as RFC 5545 requires.
+ */
+export function buildCalendar(
+  events: ICSEvent[],
+  options: { method?: ICSMethod; name?: string; now?: Date } = {}
+): string {
+  const now = options.now ?? new Date();
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+
+  if (options.method) lines.push(`METHOD:${options.method}`);
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+
+  // One VTIMEZONE per timezone referenced, covering its events and a few years ahead
+  const ranges = new Map<string, { from: number; to: number }>();
+  for (const event of events) {
+    const timeZone = getLocalTimeZone(event);
+    if (!timeZone) continue;
+    const range = ranges.get(timeZone) ?? { from: event.start.getTime(), to: now.getTime() + 3 * 365 * DAY_MS };
+    range.from = Math.min(range.from, event.start.getTime());
+    range.to = Math.max(range.to, event.end.getTime());
+    ranges.set(timeZone, range);
+  }
+  for (const [timeZone, range] of ranges) {
+    lines.push(...buildVTimezone(timeZone, new Date(range.from - DAY_MS), new Date(range.to)));
+  }
+
+  for (const event of events) {
+    lines.push(...buildEvent(event, now));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,52 @@
+export const MAX_SYNC_BATCH = 500;
+
+export type SyncItemStatus = 'created' | 'duplicate' | 'skipped' | 'failed';
+
+/**
+ * What happened to one item of a sync batch, by its position in the request
+ * Failed items are safe to send again; everything else is settled.
+ */
+export interface SyncItemResult {
+  index: number;
+  externalId?: string;
+  status: SyncItemStatus;
+  interactionId?: string;
+  error?: string;
+}
+
+export interface SyncSummary {
+  created: number;
+  // Not logged and not worth retrying: no matching contact, or already logged
+  skipped: number;
+  duplicates: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Notes for a synced interaction, e.g. "incoming call"
+ */
+export function syncedInteractionNotes(direction: string | undefined, type: string): string | null {
+  return direction ? `${direction} ${type.toLowerCase().replace(/_/g, ' ')}` : null;
+}
+
+/**
+ * Totals for a batch's item results
+ */
+export function summarizeSyncResults(results: SyncItemResult[]): SyncSummary {
+  const summary: SyncSummary = { created: 0, skipped: 0, duplicates: 0, failed: 0, errors: [] };
+
+  for (const result of results) {
+    if (result.status === 'created') {
+      summary.created++;
+    } else if (result.status === 'failed') {
+      summary.failed++;
+      summary.errors.push(`Item ${result.index}: ${result.error ?? 'Unknown error'}`);
+    } else {
+      summary.skipped++;
+      if (result.status === 'duplicate') summary.duplicates++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,224 @@
+import { Sentiment } from '@prisma/client';
+
+export const MAX_TOPICS = 5;
+const MAX_TOPIC_LENGTH = 40;
+
+// A topic has to come up this often before it's suggested as a shared interest
+const MIN_TOPIC_MENTIONS = 2;
+const MAX_INTEREST_SUGGESTIONS = 5;
+
+export const SENTIMENT_SCORES: Record<Sentiment, number> = {
+  POSITIVE: 1,
+  NEUTRAL: 0,
+  NEGATIVE: -1,
+};
+
+/**
+ * Keyword fallback for topic tagging when no AI provider is available
+ */
+const TOPIC_KEYWORDS: Record<string, string[]> = {
+  work: ['work', 'job', 'boss', 'office', 'promotion', 'interview', 'career', 'project', 'meeting', 'colleague'],
+  family: ['family', 'mom', 'dad', 'mum', 'parents', 'kids', 'son', 'daughter', 'brother', 'sister', 'baby', 'wedding'],
+  travel: ['trip', 'travel', 'vacation', 'holiday', 'flight', 'beach', 'abroad'],
+  health: ['health', 'doctor', 'hospital', 'sick', 'surgery', 'recovery', 'therapy', 'injury'],
+  fitness: ['gym', 'running', 'marathon', 'workout', 'yoga', 'hike', 'hiking', 'climbing', 'cycling'],
+  sports: ['football', 'soccer', 'basketball', 'baseball', 'tennis', 'golf', 'hockey', 'match', 'game day'],
+  food: ['dinner', 'lunch', 'brunch', 'restaurant', 'cooking', 'recipe', 'coffee', 'bakery', 'wine'],
+  music: ['music', 'concert', 'band', 'album', 'gig', 'guitar', 'piano', 'festival'],
+  movies: ['movie', 'movies', 'film', 'cinema', 'series', 'netflix'],
+  books: ['book', 'books', 'novel', 'reading', 'author', 'book club'],
+  gaming: ['gaming', 'video game', 'playstation', 'xbox', 'nintendo', 'board game'],
+  pets: ['dog', 'cat', 'puppy', 'kitten', 'pet', 'vet'],
+  school: ['school', 'class', 'exam', 'university', 'college', 'degree', 'thesis'],
+  home: ['house', 'apartment', 'flat', 'moving', 'renovation', 'garden'],
+  tech: ['tech', 'startup', 'app', 'coding', 'software', 'computer'],
+  art: ['art', 'museum', 'gallery', 'painting', 'photography', 'design'],
+};
+
+const POSITIVE_WORDS = [
+  'great', 'good', 'fun', 'happy', 'excited', 'love', 'loved', 'amazing', 'awesome', 'wonderful', 'lovely',
+  'enjoyed', 'laughed', 'congrats', 'congratulations', 'celebrate', 'celebrated', 'glad', 'nice', 'fantastic',
+  'promotion', 'engaged', 'relaxed', 'proud', 'thankful', 'grateful',
+];
+
+const NEGATIVE_WORDS = [
+  'bad', 'sad', 'upset', 'angry', 'argument', 'argued', 'fight', 'stressed', 'stress', 'worried', 'anxious',
+  'tired', 'awkward', 'tense', 'sick', 'lost', 'breakup', 'divorce', 'funeral', 'hard', 'rough',
+  'disappointed', 'frustrated', 'lonely', 'struggling',
+];
+
+const NEGATIONS = new Set(['not', "n't", 'no', 'never', 'hardly']);
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z']+/g) ?? [];
+}
+
+function mentions(text: string, keyword: string): boolean {
+  return new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text);
+}
+
+/**
+ * Auto-logged interactions (call logs) carry markers, not anything the user wrote
+ */
+export function isAutoLoggedNote(notes: string | null | undefined): boolean {
+  return !!notes && /\[auto(:[^\]]*|-logged)\]/.test(notes);
+}
+
+/**
+ * Best-effort sentiment from the words in the notes
+ * Returns null when nothing in the notes leans either way.
+ */
+export function inferSentiment(notes: string | null | undefined): Sentiment | null {
+  if (!notes?.trim() || isAutoLoggedNote(notes)) return null;
+
+  const tokens = words(notes);
+  let score = 0;
+  let hits = 0;
+
+  tokens.forEach((token, index) => {
+    const polarity = POSITIVE_WORDS.includes(token) ? 1 : NEGATIVE_WORDS.includes(token) ? -1 : 0;
+    if (!polarity) return;
+
+    // "not great", "wasn't fun"
+    const previous = tokens.slice(Math.max(0, index - 2), index);
+    const negated = previous.some((word) => NEGATIONS.has(word) || word.endsWith("n't"));
+    score += negated ? -polarity : polarity;
+    hits++;
+  });
+
+  if (hits === 0) return null;
+  if (score > 0) return Sentiment.POSITIVE;
+  if (score < 0) return Sentiment.NEGATIVE;
+  return Sentiment.NEUTRAL;
+}
+
+/**
+ * Clean up topic tags from the user or the model: lowercase, trimmed, unique
+ */
+export function normalizeTopics(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+
+  const topics: string[] = [];
+  for (const value of raw) {
+    if (typeof value !== 'string') continue;
+    const topic = value.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TOPIC_LENGTH);
+    if (topic && !topics.includes(topic)) topics.push(topic);
+    if (topics.length >= MAX_TOPICS) break;
+  }
+  return topics;
+}
+
+/**
+ * Topic tags by keyword, in order of how often each topic comes up
+ */
+export function extractTopics(notes: string | null | undefined): string[] {
+  if (!notes?.trim() || isAutoLoggedNote(notes)) return [];
+
+  return Object.entries(TOPIC_KEYWORDS)
+    .map(([topic, keywords]) => ({ topic, count: keywords.filter((keyword) => mentions(notes, keyword)).length }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_TOPICS)
+    .map(({ topic }) => topic);
+}
+
+export interface SharedInterestSuggestion {
+  topic: string;
+  mentions: number;
+  lastMentioned: Date;
+}
+
+/**
+ * Topics that keep coming up with a contact and aren't shared interests yet
+ * Most mentioned first, then most recent.
+ */
+export function suggestSharedInterests(
+  interactions: Array<{ date: Date; topics: string[] }>,
+  existing: string[]
+): SharedInterestSuggestion[] {
+  const known = new Set(existing.map((interest) => interest.trim().toLowerCase()));
+  const byTopic = new Map<string, SharedInterestSuggestion>();
+
+  for (const interaction of interactions) {
+    for (const topic of new Set(interaction.topics)) {
+      if (known.has(topic)) continue;
+      const entry = byTopic.get(topic);
+      if (entry) {
+        entry.mentions++;
+        if (interaction.date > entry.lastMentioned) entry.lastMentioned = interaction.date;
+      } else {
+        byTopic.set(topic, { topic, mentions: 1, lastMentioned: interaction.date });
+      }
+    }
+  }
+
+  return Array.from(byTopic.values())
+    .filter((entry) => entry.mentions >= MIN_TOPIC_MENTIONS)
+    .sort((a, b) => b.mentions - a.mentions || b.lastMentioned.getTime() - a.lastMentioned.getTime())
+    .slice(0, MAX_INTEREST_SUGGESTIONS);
+}
+
+export interface SentimentTrendPoint {
+  weekStart: Date;
+  // Mean of POSITIVE = 1, NEUTRAL = 0, NEGATIVE = -1; null for weeks without a rated interaction
+  average: number | null;
+  count: number;
+}
+
+export type SentimentDirection = 'improving' | 'declining' | 'steady';
+
+/**
+ * Weekly average sentiment over the last `weeks` weeks, oldest first
+ * Interactions without a sentiment are ignored.
+ */
+export function buildSentimentTrend(
+  interactions: Array<{ date: Date; sentiment: Sentiment | null }>,
+  options: { now: Date; weeks: number }
+): SentimentTrendPoint[] {
+  const weekMs = 7 * 24 * 60 * 60 * 1000;
+  const end = options.now.getTime();
+  const start = end - options.weeks * weekMs;
+
+  const buckets = Array.from({ length: options.weeks }, (_, i) => ({
+    weekStart: new Date(start + i * weekMs),
+    total: 0,
+    count: 0,
+  }));
+
+  for (const interaction of interactions) {
+    if (!interaction.sentiment) continue;
+    const offset = interaction.date.getTime() - start;
+    if (offset < 0 || interaction.date.getTime() > end) continue;
+
+    const bucket = buckets[Math.min(Math.floor(offset / weekMs), options.weeks - 1)];
+    bucket.total += SENTIMENT_SCORES[interaction.sentiment];
+    bucket.count++;
+  }
+
+  return buckets.map(({ weekStart, total, count }) => ({
+    weekStart,
+    average: count ? Math.round((total / count) * 100) / 100 : null,
+    count,
+  }));
+}
+
+/**
+ * Compare the recent half of a trend with the earlier half
+ */
+export function sentimentDirection(points: SentimentTrendPoint[]): SentimentDirection {
+  const half = Math.floor(points.length / 2);
+  const mean = (slice: SentimentTrendPoint[]) => {
+    const rated = slice.filter((point) => point.average !== null);
+    const count = rated.reduce((sum, point) => sum + point.count, 0);
+    return count ? rated.reduce((sum, point) => sum + point.average! * point.count, 0) / count : null;
+  };
+
+  const earlier = mean(points.slice(0, half));
+  const recent = mean(points.slice(half));
+  if (earlier === null || recent === null) return 'steady';
+
+  // Ignore small wobbles
+  if (recent - earlier >= 0.25) return 'improving';
+  if (earlier - recent >= 0.25) return 'declining';
+  return 'steady';
+}
@@ -0,0 +1,87 @@
+/**
+ * Scheduling poll tallies
+ * Guests answer each option yes, if needed or no; guests who haven't voted
+ * on an option count as pending for it.
+ */
+
+export type PollChoice = 'YES' | 'IF_NEEDED' | 'NO';
+
+export interface PollOptionInput {
+  id: string;
+  start: Date;
+  end: Date;
+}
+
+export interface PollVoteInput {
+  optionId: string;
+  attendeeId: string;
+  choice: PollChoice;
+}
+
+export interface PollOptionTally {
+  optionId: string;
+  start: Date;
+  end: Date;
+  yes: number;
+  ifNeeded: number;
+  no: number;
+  pending: number;
+  // Among the options the most guests can make (a yes breaks ties with an if needed)
+  best: boolean;
+}
+
+/**
+ * Count the votes on each option, in option order
+ * Votes from guests no longer on the event, or on unknown options, are ignored.
+ */
+export function tallyPoll(
+  options: PollOptionInput[],
+  votes: PollVoteInput[],
+  attendeeIds: string[]
+): PollOptionTally[] {
+  const attendees = new Set(attendeeIds);
+
+  const tallies = options.map((option) => {
+    const counts = { yes: 0, ifNeeded: 0, no: 0 };
+    for (const vote of votes) {
+      if (vote.optionId !== option.id || !attendees.has(vote.attendeeId)) continue;
+      if (vote.choice === 'YES') counts.yes++;
+      else if (vote.choice === 'IF_NEEDED') counts.ifNeeded++;
+      else counts.no++;
+    }
+
+    return {
+      optionId: option.id,
+      start: option.start,
+      end: option.end,
+      ...counts,
+      pending: attendees.size - counts.yes - counts.ifNeeded - counts.no,
+      best: false,
+    };
+  });
+
+  const top = [...tallies].sort(compareTallies)[0];
+  if (top && top.yes + top.ifNeeded > 0) {
+    for (const tally of tallies) {
+      tally.best = compareTallies(tally, top) === 0;
+    }
+  }
+
+  return tallies;
+}
+
+/**
+ * The option to suggest finalizing: the best one, earliest first among ties
+ */
+export function pickBestOption(tallies: PollOptionTally[]): PollOptionTally | null {
+  return (
+    tallies
+      .filter((tally) => tally.best)
+      .sort((a, b) => a.start.getTime() - b.start.getTime())[0] ?? null
+  );
+}
+
+// More guests available first, then more firm yeses
+function compareTallies(a: PollOptionTally, b: PollOptionTally): number {
+  return b.yes + b.ifNeeded - (a.yes + a.ifNeeded) || b.yes - a.yes;
+}
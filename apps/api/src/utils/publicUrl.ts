@@ -0,0 +1,106 @@
+import dns, { promises as dnsPromises } from 'dns';
+import https from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+
+/**
+ * Guard for URLs the API fetches on a user's behalf (CalDAV servers)
+ * Only https to hosts that resolve to public addresses, so a user-supplied
+ * URL can't point the API at itself, the cloud metadata service or the
+ * internal network.
+ */
+
+export const PUBLIC_URL_ERRORS = {
+  NOT_HTTPS: 'Server URL must use https',
+  PRIVATE_ADDRESS: 'Server URL must point to a public address',
+  UNRESOLVABLE: 'Server URL host could not be resolved',
+};
+
+const blocked = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local (cloud metadata)
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved, broadcast
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], // Unspecified
+  ['::1', 128], // Loopback
+  ['64:ff9b::', 96], // NAT64 of IPv4 addresses
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is the IPv4 address underneath
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (family === 4) return blocked.check(address, 'ipv4');
+  if (family === 6) return blocked.check(address, 'ipv6');
+  return true;
+}
+
+/**
+ * Throw unless the URL is https and every address its host resolves to is public
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'https:') {
+    throw new Error(PUBLIC_URL_ERRORS.NOT_HTTPS);
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dnsPromises.lookup(host, { all: true, verbatim: true })).map((entry) => entry.address);
+    } catch {
+      throw new Error(PUBLIC_URL_ERRORS.UNRESOLVABLE);
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(PUBLIC_URL_ERRORS.PRIVATE_ADDRESS);
+  }
+}
+
+/**
+ * DNS lookup for sockets that only hands back public addresses
+ * Checking a URL up front isn't enough on its own: the host could resolve
+ * differently by the time the connection is made (DNS rebinding). Resolving
+ * through this at connect time means the address checked is the one used.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+    } else if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(new Error(PUBLIC_URL_ERRORS.PRIVATE_ADDRESS), []);
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Agent for requests to user-supplied hosts, connecting only to public addresses
+export const publicHttpsAgent = new https.Agent({ lookup: publicLookup });
@@ -0,0 +1,106 @@
+import { getZonedParts, zonedTimeToUtc } from './timezone';
+
+/**
+ * Quiet hours as stored in User.notificationPreferences.quietHours
+ * `start`/`end` are "HH:mm" local times; `startHour`/`endHour` are the
+ * older whole-hour fields still sent by existing clients.
+ */
+export interface QuietHoursPreference {
+  enabled?: boolean;
+  start?: string;
+  end?: string;
+  startHour?: number;
+  endHour?: number;
+}
+
+export interface QuietWindow {
+  startMinute: number;
+  endMinute: number;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Parse an "HH:mm" string into minutes since midnight
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Resolve a quiet-hours preference into a minute-level window
+ * Returns null when quiet hours are disabled, unset or zero-length.
+ */
+export function getQuietWindow(quietHours?: QuietHoursPreference | null): QuietWindow | null {
+  if (!quietHours || quietHours.enabled === false) return null;
+
+  const startMinute =
+    quietHours.start !== undefined
+      ? parseTimeOfDay(quietHours.start)
+      : typeof quietHours.startHour === 'number'
+      ? quietHours.startHour * 60
+      : null;
+  const endMinute =
+    quietHours.end !== undefined
+      ? parseTimeOfDay(quietHours.end)
+      : typeof quietHours.endHour === 'number'
+      ? quietHours.endHour * 60
+      : null;
+
+  if (startMinute === null || endMinute === null || startMinute === endMinute) return null;
+
+  return { startMinute, endMinute };
+}
+
+/**
+ * Check if an instant falls inside the user's quiet hours, in their timezone
+ */
+export function isQuietTime(
+  now: Date,
+  quietHours: QuietHoursPreference | null | undefined,
+  timeZone: string
+): boolean {
+  const window = getQuietWindow(quietHours);
+  if (!window) return false;
+
+  const local = getZonedParts(now, timeZone);
+  const minute = local.hour * 60 + local.minute;
+
+  if (window.startMinute < window.endMinute) {
+    return minute >= window.startMinute && minute < window.endMinute;
+  }
+  // Overnight quiet hours (e.g., 22:00 - 08:00)
+  return minute >= window.startMinute || minute < window.endMinute;
+}
+
+/**
+ * Get the next instant at which the user's quiet hours end
+ * Returns null when quiet hours are not configured.
+ */
+export function getQuietHoursEnd(
+  now: Date,
+  quietHours: QuietHoursPreference | null | undefined,
+  timeZone: string
+): Date | null {
+  const window = getQuietWindow(quietHours);
+  if (!window) return null;
+
+  const local = getZonedParts(now, timeZone);
+  const minute = local.hour * 60 + local.minute;
+  // Before the end time today -> today, otherwise the window ends tomorrow
+  const dayOffset = minute < window.endMinute ? 0 : 1;
+  const day = new Date(Date.UTC(local.year, local.month - 1, local.day + dayOffset));
+
+  return zonedTimeToUtc(
+    {
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+      hour: Math.floor(window.endMinute / 60),
+      minute: window.endMinute % 60,
+    },
+    timeZone
+  );
+}
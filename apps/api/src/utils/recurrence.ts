@@ -0,0 +1,517 @@
+/**
+ * Recurrence engine
+ * Parses, validates and expands a practical subset of iCalendar RRULEs
+ * (RFC 5545): FREQ, INTERVAL, BYDAY (with ordinals), BYMONTHDAY, BYMONTH,
+ * BYSETPOS, COUNT, UNTIL and WKST.
+ *
+ * Occurrences keep the wall-clock time of `dtstart` in the given timezone, so
+ * a 09:00 weekly reminder stays at 09:00 local across DST changes. Unlike RFC
+ * 5545, `dtstart` is only an occurrence when it matches the rule.
+ */
+import { RecurrenceRuleError } from '../errors/recurrenceErrors';
+import { getZonedParts, zonedTimeToUtc } from './timezone';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/**
+ * A BYDAY entry: weekday (0 = Sunday) with optional ordinal, e.g. 2TU or -1FR
+ */
+export interface WeekdayRule {
+  weekday: number;
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: WeekdayRule[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  count?: number;
+  until?: Date;
+  weekStart: number; // 0 = Sunday
+}
+
+export interface OccurrenceOptions {
+  timeZone?: string;
+  from?: Date; // inclusive
+  to?: Date; // inclusive
+  limit?: number;
+  exdates?: Date[];
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Hard cap on expanded occurrences when the caller gives no limit
+const MAX_OCCURRENCES = 1000;
+
+// Hard cap on periods walked, so rules that never match can't loop forever
+const MAX_PERIODS = 50000;
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+function dayNumber(date: LocalDate): number {
+  return Date.UTC(date.year, date.month - 1, date.day) / DAY_MS;
+}
+
+function fromDayNumber(value: number): LocalDate {
+  const date = new Date(value * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekdayOf(value: number): number {
+  // Day 0 (1970-01-01) was a Thursday
+  return (((value + 4) % 7) + 7) % 7;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function parseIntList(key: string, value: string): number[] {
+  return value.split(',').map((part) => {
+    if (!/^[+-]?\d+$/.test(part)) {
+      throw new RecurrenceRuleError(`Invalid ${key} value: ${part}`);
+    }
+    return parseInt(part, 10);
+  });
+}
+
+function parseUntil(value: string): Date {
+  const compact = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (compact) {
+    const [, year, month, day, hour, minute, second] = compact;
+    // Date-only UNTIL includes the whole day
+    return hour === undefined
+      ? new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59))
+      : new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new RecurrenceRuleError(`Invalid UNTIL value: ${value}`);
+  }
+  return date;
+}
+
+function formatUntil(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Check a rule for out-of-range or contradictory parts
+ * Throws RecurrenceRuleError describing the first problem found.
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): void {
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+    throw new RecurrenceRuleError(`Unsupported frequency: ${rule.frequency}`);
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    throw new RecurrenceRuleError('INTERVAL must be a positive integer');
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    throw new RecurrenceRuleError('COUNT must be a positive integer');
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RecurrenceRuleError('COUNT and UNTIL cannot both be set');
+  }
+  if (rule.until !== undefined && isNaN(rule.until.getTime())) {
+    throw new RecurrenceRuleError('UNTIL must be a valid date');
+  }
+  if (!Number.isInteger(rule.weekStart) || rule.weekStart < 0 || rule.weekStart > 6) {
+    throw new RecurrenceRuleError('WKST must be a weekday');
+  }
+
+  for (const spec of rule.byWeekday ?? []) {
+    if (!Number.isInteger(spec.weekday) || spec.weekday < 0 || spec.weekday > 6) {
+      throw new RecurrenceRuleError('BYDAY must contain weekdays');
+    }
+    if (spec.nth !== undefined) {
+      if (rule.frequency !== 'MONTHLY' && rule.frequency !== 'YEARLY') {
+        throw new RecurrenceRuleError('BYDAY ordinals are only allowed with MONTHLY or YEARLY');
+      }
+      const limit = rule.frequency === 'YEARLY' && !rule.byMonth ? 53 : 5;
+      if (!Number.isInteger(spec.nth) || spec.nth === 0 || Math.abs(spec.nth) > limit) {
+        throw new RecurrenceRuleError(`BYDAY ordinal must be between -${limit} and ${limit}`);
+      }
+    }
+  }
+
+  for (const day of rule.byMonthDay ?? []) {
+    if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) {
+      throw new RecurrenceRuleError('BYMONTHDAY must be between -31 and 31, excluding 0');
+    }
+  }
+  if (rule.byMonthDay && rule.frequency === 'WEEKLY') {
+    throw new RecurrenceRuleError('BYMONTHDAY is not allowed with WEEKLY');
+  }
+
+  for (const month of rule.byMonth ?? []) {
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+      throw new RecurrenceRuleError('BYMONTH must be between 1 and 12');
+    }
+  }
+
+  if (rule.bySetPos) {
+    if (!rule.byWeekday && !rule.byMonthDay && !rule.byMonth) {
+      throw new RecurrenceRuleError('BYSETPOS requires another BYxxx rule part');
+    }
+    for (const position of rule.bySetPos) {
+      if (!Number.isInteger(position) || position === 0 || Math.abs(position) > 366) {
+        throw new RecurrenceRuleError('BYSETPOS must be between -366 and 366, excluding 0');
+      }
+    }
+  }
+}
+
+/**
+ * Parse an RRULE string, e.g. "FREQ=MONTHLY;BYDAY=-1FR;COUNT=6"
+ * An optional "RRULE:" prefix is accepted.
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  if (!body) {
+    throw new RecurrenceRuleError('Recurrence rule is empty');
+  }
+
+  const parts = new Map<string, string>();
+  for (const segment of body.split(';')) {
+    if (!segment) continue;
+    const [key, val] = segment.split('=');
+    if (!key || val === undefined || val === '') {
+      throw new RecurrenceRuleError(`Invalid rule part: ${segment}`);
+    }
+    const upperKey = key.toUpperCase();
+    if (parts.has(upperKey)) {
+      throw new RecurrenceRuleError(`Duplicate rule part: ${upperKey}`);
+    }
+    parts.set(upperKey, val.toUpperCase());
+  }
+
+  const frequency = parts.get('FREQ');
+  if (!frequency) {
+    throw new RecurrenceRuleError('FREQ is required');
+  }
+
+  const rule: RecurrenceRule = {
+    frequency: frequency as RecurrenceFrequency,
+    interval: 1,
+    weekStart: 1,
+  };
+
+  for (const [key, val] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseIntList(key, val)[0];
+        break;
+      case 'COUNT':
+        rule.count = parseIntList(key, val)[0];
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(val);
+        break;
+      case 'BYDAY':
+        rule.byWeekday = val.split(',').map((part) => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(part);
+          if (!match) {
+            throw new RecurrenceRuleError(`Invalid BYDAY value: ${part}`);
+          }
+          const weekday = WEEKDAY_CODES.indexOf(match[2]);
+          return match[1] ? { weekday, nth: parseInt(match[1], 10) } : { weekday };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(key, val);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(key, val);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(key, val);
+        break;
+      case 'WKST': {
+        const weekStart = WEEKDAY_CODES.indexOf(val);
+        if (weekStart === -1) {
+          throw new RecurrenceRuleError(`Invalid WKST value: ${val}`);
+        }
+        rule.weekStart = weekStart;
+        break;
+      }
+      default:
+        throw new RecurrenceRuleError(`Unsupported rule part: ${key}`);
+    }
+  }
+
+  validateRecurrenceRule(rule);
+  return rule;
+}
+
+/**
+ * Serialize a rule back to an RRULE string (without the "RRULE:" prefix)
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.map((spec) => `${spec.nth ?? ''}${WEEKDAY_CODES[spec.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Check whether a day matches any BYDAY entry
+ * `index` is the 1-based position of the day within its month or year
+ * (`length` days long), used to resolve ordinals like 2TU or -1FR.
+ */
+function matchesWeekday(specs: WeekdayRule[], weekday: number, index: number, length: number): boolean {
+  const fromStart = Math.ceil(index / 7);
+  const fromEnd = -(Math.floor((length - index) / 7) + 1);
+  return specs.some(
+    (spec) => spec.weekday === weekday && (spec.nth === undefined || spec.nth === fromStart || spec.nth === fromEnd)
+  );
+}
+
+/**
+ * Candidate days (as day numbers) for one month of a MONTHLY/YEARLY rule
+ */
+function monthCandidates(rule: RecurrenceRule, year: number, month: number, startDay: number): number[] {
+  const length = daysInMonth(year, month);
+  const first = dayNumber({ year, month, day: 1 });
+
+  let days: number[];
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay
+      .map((day) => (day > 0 ? day : length + day + 1))
+      .filter((day) => day >= 1 && day <= length);
+    if (rule.byWeekday) {
+      days = days.filter((day) => matchesWeekday(rule.byWeekday!, weekdayOf(first + day - 1), day, length));
+    }
+  } else if (rule.byWeekday) {
+    days = [];
+    for (let day = 1; day <= length; day++) {
+      if (matchesWeekday(rule.byWeekday, weekdayOf(first + day - 1), day, length)) days.push(day);
+    }
+  } else {
+    // Months without the start day (e.g. the 31st) are skipped, as in RFC 5545
+    days = startDay <= length ? [startDay] : [];
+  }
+
+  return days.map((day) => first + day - 1);
+}
+
+/**
+ * Candidate days (as day numbers) for one period of the rule, before BYSETPOS
+ */
+function periodCandidates(rule: RecurrenceRule, start: LocalDate, period: number): number[] {
+  const startNumber = dayNumber(start);
+
+  switch (rule.frequency) {
+    case 'DAILY': {
+      const day = startNumber + period * rule.interval;
+      const date = fromDayNumber(day);
+      if (rule.byMonth && !rule.byMonth.includes(date.month)) return [];
+      if (rule.byWeekday && !rule.byWeekday.some((spec) => spec.weekday === weekdayOf(day))) return [];
+      if (rule.byMonthDay) {
+        const length = daysInMonth(date.year, date.month);
+        const matches = rule.byMonthDay.some((d) => (d > 0 ? d : length + d + 1) === date.day);
+        if (!matches) return [];
+      }
+      return [day];
+    }
+
+    case 'WEEKLY': {
+      const weekBegin =
+        startNumber - ((weekdayOf(startNumber) - rule.weekStart + 7) % 7) + period * rule.interval * 7;
+      const weekdays = rule.byWeekday?.map((spec) => spec.weekday) ?? [weekdayOf(startNumber)];
+      const days: number[] = [];
+      for (let offset = 0; offset < 7; offset++) {
+        const day = weekBegin + offset;
+        if (!weekdays.includes(weekdayOf(day))) continue;
+        if (rule.byMonth && !rule.byMonth.includes(fromDayNumber(day).month)) continue;
+        days.push(day);
+      }
+      return days;
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = start.year * 12 + (start.month - 1) + period * rule.interval;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      if (rule.byMonth && !rule.byMonth.includes(month)) return [];
+      return monthCandidates(rule, year, month, start.day);
+    }
+
+    case 'YEARLY': {
+      const year = start.year + period * rule.interval;
+
+      if (rule.byMonth) {
+        return rule.byMonth
+          .slice()
+          .sort((a, b) => a - b)
+          .flatMap((month) => monthCandidates(rule, year, month, start.day));
+      }
+
+      if (rule.byWeekday && !rule.byMonthDay) {
+        // Ordinals count within the whole year (e.g. 20MO = 20th Monday)
+        const first = dayNumber({ year, month: 1, day: 1 });
+        const length = dayNumber({ year: year + 1, month: 1, day: 1 }) - first;
+        const days: number[] = [];
+        for (let index = 1; index <= length; index++) {
+          const day = first + index - 1;
+          if (matchesWeekday(rule.byWeekday, weekdayOf(day), index, length)) days.push(day);
+        }
+        return days;
+      }
+
+      if (rule.byMonthDay) {
+        const days: number[] = [];
+        for (let month = 1; month <= 12; month++) {
+          days.push(...monthCandidates(rule, year, month, start.day));
+        }
+        return days;
+      }
+
+      // Feb 29 starts only recur in leap years
+      if (start.day > daysInMonth(year, start.month)) return [];
+      return [dayNumber({ year, month: start.month, day: start.day })];
+    }
+  }
+}
+
+/**
+ * First day (as a day number) of a period, used to stop walking past a bound
+ */
+function periodFirstDay(rule: RecurrenceRule, start: LocalDate, period: number): number {
+  const startNumber = dayNumber(start);
+  switch (rule.frequency) {
+    case 'DAILY':
+      return startNumber + period * rule.interval;
+    case 'WEEKLY':
+      return startNumber - ((weekdayOf(startNumber) - rule.weekStart + 7) % 7) + period * rule.interval * 7;
+    case 'MONTHLY': {
+      const monthIndex = start.year * 12 + (start.month - 1) + period * rule.interval;
+      return dayNumber({ year: Math.floor(monthIndex / 12), month: (monthIndex % 12) + 1, day: 1 });
+    }
+    case 'YEARLY':
+      return dayNumber({ year: start.year + period * rule.interval, month: 1, day: 1 });
+  }
+}
+
+function applySetPos(days: number[], positions: number[]): number[] {
+  const selected = new Set<number>();
+  for (const position of positions) {
+    const index = position > 0 ? position - 1 : days.length + position;
+    if (index >= 0 && index < days.length) selected.add(days[index]);
+  }
+  return Array.from(selected).sort((a, b) => a - b);
+}
+
+/**
+ * Expand a rule into occurrence instants, in chronological order
+ * COUNT is applied from `dtstart` regardless of `from`, and exdates are
+ * removed after COUNT, so skipping an instance doesn't extend the series.
+ * Without `to` or `limit`, at most 1000 occurrences are returned.
+ */
+export function getOccurrences(rule: RecurrenceRule, dtstart: Date, options: OccurrenceOptions = {}): Date[] {
+  const timeZone = options.timeZone ?? 'UTC';
+  const limit = options.limit ?? MAX_OCCURRENCES;
+  const excluded = new Set((options.exdates ?? []).map((date) => date.getTime()));
+
+  const startParts = getZonedParts(dtstart, timeZone);
+  const start: LocalDate = { year: startParts.year, month: startParts.month, day: startParts.day };
+  const startNumber = dayNumber(start);
+
+  const end =
+    rule.until && options.to
+      ? new Date(Math.min(rule.until.getTime(), options.to.getTime()))
+      : rule.until ?? options.to;
+  // Local dates can run up to a day ahead of UTC; compare periods with a margin
+  const endNumber = end ? dayNumber(getZonedParts(end, 'UTC')) + 1 : undefined;
+  const fromNumber = options.from ? dayNumber(getZonedParts(options.from, 'UTC')) - 1 : undefined;
+
+  const occurrences: Date[] = [];
+  let generated = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    if (endNumber !== undefined && periodFirstDay(rule, start, period) > endNumber) break;
+
+    let days = periodCandidates(rule, start, period).sort((a, b) => a - b);
+    if (rule.bySetPos) days = applySetPos(days, rule.bySetPos);
+
+    for (const day of days) {
+      if (day < startNumber) continue;
+
+      // Days well before `from` still count toward COUNT but need no conversion
+      if (fromNumber !== undefined && day < fromNumber) {
+        generated++;
+        if (rule.count !== undefined && generated >= rule.count) return occurrences;
+        continue;
+      }
+
+      const date = fromDayNumber(day);
+      const occurrence = zonedTimeToUtc(
+        { ...date, hour: startParts.hour, minute: startParts.minute, second: startParts.second },
+        timeZone
+      );
+
+      if (occurrence < dtstart) continue;
+      if (end && occurrence > end) return occurrences;
+
+      generated++;
+
+      if ((!options.from || occurrence >= options.from) && !excluded.has(occurrence.getTime())) {
+        occurrences.push(occurrence);
+        if (occurrences.length >= limit) return occurrences;
+      }
+
+      if (rule.count !== undefined && generated >= rule.count) return occurrences;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Get the first occurrence strictly after `after`, or null when the series has ended
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  after: Date,
+  options: Omit<OccurrenceOptions, 'from' | 'limit'> = {}
+): Date | null {
+  const [next] = getOccurrences(rule, dtstart, { ...options, from: new Date(after.getTime() + 1), limit: 1 });
+  return next ?? null;
+}
+
+/**
+ * Check whether an instant is an occurrence of the rule (ignoring exdates)
+ */
+export function isOccurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  date: Date,
+  options: Pick<OccurrenceOptions, 'timeZone'> = {}
+): boolean {
+  const [match] = getOccurrences(rule, dtstart, { ...options, from: date, to: date, limit: 1 });
+  return match !== undefined && match.getTime() === date.getTime();
+}
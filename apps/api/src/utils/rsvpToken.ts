@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import { RSVPTokenError } from '../errors/rsvpErrors';
+
+/**
+ * Signed RSVP tokens
+ *
+ * A token is `<payload>.<signature>`, both base64url. The payload names the
+ * attendee, the attendee's token version (bumped to revoke earlier links) and
+ * an expiry in epoch seconds; the signature is an HMAC-SHA256 of the payload.
+ * Scheduling poll links also carry the poll, so they can't be used to RSVP.
+ */
+
+export interface RSVPTokenPayload {
+  attendeeId: string;
+  version: number;
+  expiresAt: Date;
+  pollId?: string;
+}
+
+function getSecret(): string {
+  const secret = process.env.RSVP_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('RSVP_TOKEN_SECRET environment variable is not set');
+  }
+  return secret;
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Create a signed RSVP token
+ */
+export function signRSVPToken(payload: RSVPTokenPayload, secret: string = getSecret()): string {
+  const encoded = Buffer.from(
+    JSON.stringify({
+      a: payload.attendeeId,
+      v: payload.version,
+      exp: Math.floor(payload.expiresAt.getTime() / 1000),
+      ...(payload.pollId && { p: payload.pollId }),
+    })
+  ).toString('base64url');
+
+  return `${encoded}.${sign(encoded, secret)}`;
+}
+
+/**
+ * Verify an RSVP token's signature and expiry
+ * Throws RSVPTokenError; the caller still has to check the version against the attendee.
+ */
+export function verifyRSVPToken(token: string, secret: string = getSecret(), now: Date = new Date()): RSVPTokenPayload {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) {
+    throw new RSVPTokenError('Invalid RSVP link');
+  }
+
+  const expected = Buffer.from(sign(encoded, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new RSVPTokenError('Invalid RSVP link');
+  }
+
+  let decoded: { a?: unknown; v?: unknown; exp?: unknown; p?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new RSVPTokenError('Invalid RSVP link');
+  }
+
+  if (
+    typeof decoded.a !== 'string' ||
+    typeof decoded.v !== 'number' ||
+    typeof decoded.exp !== 'number' ||
+    (decoded.p !== undefined && typeof decoded.p !== 'string')
+  ) {
+    throw new RSVPTokenError('Invalid RSVP link');
+  }
+
+  if (decoded.exp * 1000 <= now.getTime()) {
+    throw new RSVPTokenError('RSVP link has expired', 'EXPIRED');
+  }
+
+  return {
+    attendeeId: decoded.a,
+    version: decoded.v,
+    expiresAt: new Date(decoded.exp * 1000),
+    ...(decoded.p !== undefined && { pollId: decoded.p as string }),
+  };
+}
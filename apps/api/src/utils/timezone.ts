@@ -0,0 +1,162 @@
+/**
+ * Timezone utilities
+ * IANA timezone math on top of Intl, so per-user scheduling doesn't depend
+ * on the server's own timezone. All functions are DST-aware.
+ */
+
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+export type LocalDateTime = Pick<ZonedDateTime, 'year' | 'month' | 'day'> &
+  Partial<Pick<ZonedDateTime, 'hour' | 'minute' | 'second'>>;
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is a valid IANA timezone name
+ */
+export function isValidTimezone(timeZone: string | null | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Return the timezone if valid, otherwise UTC
+ */
+export function resolveTimezone(timeZone: string | null | undefined): string {
+  return isValidTimezone(timeZone) ? timeZone! : 'UTC';
+}
+
+/**
+ * Get wall-clock date/time parts for an instant in a timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+    weekday: WEEKDAYS[parts.weekday],
+  };
+}
+
+/**
+ * Get the UTC offset (in minutes, local minus UTC) of a timezone at an instant
+ */
+export function getTimezoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in a timezone to the UTC instant
+ * Times skipped by a DST jump resolve forward (02:30 -> 03:30); times repeated
+ * when clocks fall back resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(local: LocalDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour ?? 0,
+    local.minute ?? 0,
+    local.second ?? 0
+  );
+
+  const offset = getTimezoneOffset(new Date(asUtc), timeZone);
+  let result = asUtc - offset * 60000;
+
+  const adjustedOffset = getTimezoneOffset(new Date(result), timeZone);
+  if (adjustedOffset !== offset) {
+    const alternative = asUtc - adjustedOffset * 60000;
+    if (getTimezoneOffset(new Date(alternative), timeZone) === adjustedOffset) {
+      result = alternative;
+    }
+  }
+
+  return new Date(result);
+}
+
+/**
+ * Get the UTC instant of local midnight for the day containing `date`
+ * Pass `dayOffset` to move whole calendar days forward or back.
+ */
+export function startOfZonedDay(date: Date, timeZone: string, dayOffset: number = 0): Date {
+  const parts = getZonedParts(date, timeZone);
+  // Date.UTC normalizes day overflow, so this also handles month/year boundaries
+  const day = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + dayOffset));
+  return zonedTimeToUtc(
+    { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate() },
+    timeZone
+  );
+}
+
+/**
+ * Minutes since local midnight for an instant in a timezone
+ */
+export function getZonedMinuteOfDay(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  return parts.hour * 60 + parts.minute;
+}
+
+/**
+ * Whole calendar days from one local date to another (ignores time of day)
+ */
+export function calendarDaysBetween(
+  from: Pick<LocalDateTime, 'year' | 'month' | 'day'>,
+  to: Pick<LocalDateTime, 'year' | 'month' | 'day'>
+): number {
+  const fromUtc = Date.UTC(from.year, from.month - 1, from.day);
+  const toUtc = Date.UTC(to.year, to.month - 1, to.day);
+  return Math.round((toUtc - fromUtc) / (24 * 60 * 60 * 1000));
+}
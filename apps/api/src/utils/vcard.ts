@@ -0,0 +1,187 @@
+import { foldLine } from './ics';
+
+/**
+ * vCard 3.0 (RFC 2426) and 4.0 (RFC 6350) reading and writing
+ * Works at the property level: parsing unfolds lines and splits out groups and
+ * parameters, leaving values escaped until a caller asks for them as text.
+ */
+
+export type VCardVersion = '3.0' | '4.0';
+
+export interface VCardProperty {
+  // Apple groups related properties, e.g. item1.X-ABDATE with item1.X-ABLABEL
+  group: string | null;
+  name: string;
+  // Keys uppercased; bare 2.1-style parameters (";WORK") are filed under TYPE
+  params: Record<string, string[]>;
+  value: string;
+}
+
+export interface VCard {
+  // Line of the card's BEGIN:VCARD, for error messages
+  line: number;
+  version: string | null;
+  properties: VCardProperty[];
+}
+
+/**
+ * Split on a separator, skipping separators escaped with a backslash or inside quotes
+ */
+function splitUnescaped(value: string, separator: string, respectQuotes = false): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[++i];
+    } else if (respectQuotes && char === '"') {
+      quoted = !quoted;
+      current += char;
+    } else if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Unescape a TEXT value
+ */
+export function unescapeValue(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+/**
+ * Components of a structured (";") or list (",") value, unescaped
+ */
+export function splitValue(value: string, separator: ';' | ','): string[] {
+  return splitUnescaped(value, separator).map(unescapeValue);
+}
+
+function parseProperty(line: string): VCardProperty | null {
+  // The first colon outside a quoted parameter value ends the name and parameters
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+
+  const [head, ...paramParts] = splitUnescaped(line.slice(0, colon), ';', true);
+  const dot = head.lastIndexOf('.');
+  const params: Record<string, string[]> = {};
+
+  for (const part of paramParts) {
+    const equals = part.indexOf('=');
+    const key = equals === -1 ? 'TYPE' : part.slice(0, equals).toUpperCase();
+    const raw = equals === -1 ? part : part.slice(equals + 1);
+    const values = splitUnescaped(raw, ',', true)
+      .map((v) => v.replace(/^"|"$/g, ''))
+      // 4.0 also writes type lists quoted: TYPE="work,voice"
+      .flatMap((v) => (key === 'TYPE' ? v.split(',') : [v]));
+    params[key] = [...(params[key] ?? []), ...values];
+  }
+
+  return {
+    group: dot === -1 ? null : head.slice(0, dot),
+    name: head.slice(dot + 1).toUpperCase(),
+    params,
+    value: line.slice(colon + 1),
+  };
+}
+
+/**
+ * Parse every vCard in a file
+ */
+export function parseVCards(text: string): VCard[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const cards: VCard[] = [];
+  let current: VCard | null = null;
+  let pending: { line: number; text: string } | null = null;
+
+  const flush = () => {
+    if (!pending) return;
+    const { line, text } = pending;
+    const property = parseProperty(text);
+    pending = null;
+    if (!property) return;
+
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VCARD') {
+      current = { line, version: null, properties: [] };
+      cards.push(current);
+    } else if (property.name === 'END' && property.value.toUpperCase() === 'VCARD') {
+      current = null;
+    } else if (current && property.name === 'VERSION') {
+      current.version = property.value.trim();
+    } else if (current) {
+      current.properties.push(property);
+    }
+  };
+
+  lines.forEach((line, index) => {
+    // Continuation lines start with a space or tab
+    if (pending && /^[ \t]/.test(line)) {
+      pending.text += line.slice(1);
+      return;
+    }
+    flush();
+    if (line.trim()) pending = { line: index + 1, text: line };
+  });
+  flush();
+
+  return cards;
+}
+
+/**
+ * A property's value as plain text
+ */
+export function textValue(property: VCardProperty): string {
+  return unescapeValue(property.value).trim();
+}
+
+/**
+ * Whether a property is marked as preferred (TYPE=pref in 3.0, PREF=1 in 4.0)
+ */
+export function isPreferred(property: VCardProperty): boolean {
+  return (
+    (property.params.TYPE ?? []).some((type) => type.toLowerCase() === 'pref') ||
+    (property.params.PREF ?? []).some((pref) => pref === '1')
+  );
+}
+
+export interface VCardOutputProperty {
+  name: string;
+  params?: Record<string, string>;
+  // Escaped value; plain text goes through escapeText, structured values component by component
+  value: string;
+}
+
+/**
+ * Write one vCard
+ */
+export function formatVCard(version: VCardVersion, properties: VCardOutputProperty[]): string {
+  const lines = [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    ...properties.map(({ name, params, value }) => {
+      const paramText = Object.entries(params ?? {})
+        .map(([key, paramValue]) => `;${key}=${/[:;,]/.test(paramValue) ? `"${paramValue}"` : paramValue}`)
+        .join('');
+      return `${name}${paramText}:${value}`;
+    }),
+    'END:VCARD',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,116 @@
+import { parseTimeOfDay } from './quietHours';
+import { getZonedParts, zonedTimeToUtc } from './timezone';
+
+/**
+ * Working hours as stored in User.workingHours
+ * The hours during which a user can be scheduled, as "HH:mm" local times, and
+ * the weekdays they apply to (0 = Sunday). An end before the start runs past
+ * midnight; an end equal to the start means the whole day.
+ */
+export interface WorkingHoursPreference {
+  start: string;
+  end: string;
+  days: number[];
+}
+
+export interface WorkingWindow {
+  startMinute: number;
+  endMinute: number;
+  days: number[];
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHoursPreference = {
+  start: '09:00',
+  end: '21:00',
+  days: [0, 1, 2, 3, 4, 5, 6],
+};
+
+/**
+ * The user's working hours with defaults filled in for missing or invalid fields
+ */
+export function getWorkingHours(value: unknown): WorkingHoursPreference {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<WorkingHoursPreference>;
+  const start =
+    typeof stored.start === 'string' && parseTimeOfDay(stored.start) !== null
+      ? stored.start
+      : DEFAULT_WORKING_HOURS.start;
+  const end =
+    typeof stored.end === 'string' && parseTimeOfDay(stored.end) !== null ? stored.end : DEFAULT_WORKING_HOURS.end;
+  const days = Array.isArray(stored.days)
+    ? [...new Set(stored.days.filter((day) => Number.isInteger(day) && day >= 0 && day <= 6))]
+    : [...DEFAULT_WORKING_HOURS.days];
+
+  return { start, end, days: days.sort((a, b) => a - b) };
+}
+
+/**
+ * Resolve working hours into a minute-level window
+ */
+export function getWorkingWindow(value: unknown): WorkingWindow {
+  const hours = getWorkingHours(value);
+  return {
+    startMinute: parseTimeOfDay(hours.start)!,
+    endMinute: parseTimeOfDay(hours.end)!,
+    days: hours.days,
+  };
+}
+
+/**
+ * The instants a user is within working hours between two instants, in their timezone
+ * A window that starts on a working day belongs to that day even when it runs
+ * past midnight. Ranges are clipped to [rangeStart, rangeEnd) and in order.
+ */
+export function getWorkingRanges(
+  window: WorkingWindow,
+  timeZone: string,
+  rangeStart: Date,
+  rangeEnd: Date
+): TimeRange[] {
+  const ranges: TimeRange[] = [];
+  const first = getZonedParts(rangeStart, timeZone);
+
+  // Start a day early to catch an overnight window from the day before
+  for (let offset = -1; ; offset++) {
+    const day = new Date(Date.UTC(first.year, first.month - 1, first.day + offset));
+    const date = { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate() };
+    const start = zonedTimeToUtc(
+      { ...date, hour: Math.floor(window.startMinute / 60), minute: window.startMinute % 60 },
+      timeZone
+    );
+    if (start >= rangeEnd) break;
+    if (!window.days.includes(day.getUTCDay())) continue;
+
+    const endDay = window.endMinute > window.startMinute ? day : new Date(day.getTime() + 24 * 60 * 60 * 1000);
+    const end = zonedTimeToUtc(
+      {
+        year: endDay.getUTCFullYear(),
+        month: endDay.getUTCMonth() + 1,
+        day: endDay.getUTCDate(),
+        hour: Math.floor(window.endMinute / 60),
+        minute: window.endMinute % 60,
+      },
+      timeZone
+    );
+
+    const clipped = {
+      start: start < rangeStart ? rangeStart : start,
+      end: end > rangeEnd ? rangeEnd : end,
+    };
+    if (clipped.end <= clipped.start) continue;
+
+    // Back-to-back whole-day windows join into one range
+    const last = ranges[ranges.length - 1];
+    if (last && clipped.start <= last.end) {
+      if (clipped.end > last.end) last.end = clipped.end;
+    } else {
+      ranges.push(clipped);
+    }
+  }
+
+  return ranges;
+}
@@ -0,0 +1,54 @@
+import { RelationshipTier, WritingStyleCategory } from '@prisma/client';
+
+// Keep the prompt short enough that samples don't crowd out the contact details
+const MAX_PROMPT_SAMPLES = 6;
+const MAX_SAMPLE_LENGTH = 600;
+
+export const WRITING_STYLE_LABELS: Record<WritingStyleCategory, string> = {
+  CLOSE: 'close friends and family',
+  CASUAL: 'casual friends',
+  PROFESSIONAL: 'professional contacts',
+};
+
+/**
+ * Which of the user's writing styles fits a relationship tier
+ * Contacts without a relationship get the casual style.
+ */
+export function styleCategoryForTier(tier: RelationshipTier | null | undefined): WritingStyleCategory {
+  switch (tier) {
+    case RelationshipTier.INNER_CIRCLE:
+    case RelationshipTier.CLOSE_FRIENDS:
+      return WritingStyleCategory.CLOSE;
+    case RelationshipTier.PROFESSIONAL:
+      return WritingStyleCategory.PROFESSIONAL;
+    default:
+      return WritingStyleCategory.CASUAL;
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Prompt section showing the model how the user writes to this kind of contact
+ * Returns an empty string when there are no samples, so the prompt is unchanged.
+ */
+export function buildWritingStylePrompt(
+  category: WritingStyleCategory,
+  samples: Array<{ prompt: string; response: string }>
+): string {
+  const selected = samples.filter((sample) => sample.response.trim()).slice(0, MAX_PROMPT_SAMPLES);
+  if (selected.length === 0) return '';
+
+  const examples = selected
+    .map(
+      (sample, index) =>
+        `Example ${index + 1}\nSituation: ${truncate(sample.prompt.trim(), MAX_SAMPLE_LENGTH)}\nWhat I wrote: ${truncate(sample.response.trim(), MAX_SAMPLE_LENGTH)}`
+    )
+    .join('\n\n');
+
+  return `MY WRITING STYLE with ${WRITING_STYLE_LABELS[category]} — match my tone, message length, punctuation, capitalization, slang and emoji use. Don't reuse these messages or their situations:
+
+${examples}`;
+}
@@ -1,4 +1,50 @@
 import { z } from 'zod';
+import { isValidTimezone } from '../utils/timezone';
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Time must be in HH:mm format');
+
+/**
+ * IANA timezone name (e.g., "Asia/Tokyo")
+ */
+const timezoneSchema = z.string().refine((value) => isValidTimezone(value), 'Invalid IANA timezone');
+
+/**
+ * Quiet hours, evaluated in the user's timezone
+ * `start`/`end` are minute-level; `startHour`/`endHour` are accepted from older clients.
+ */
+const quietHoursSchema = z.object({
+  enabled: z.boolean(),
+  start: timeOfDaySchema.optional(),
+  end: timeOfDaySchema.optional(),
+  startHour: z.number().int().min(0).max(23).optional(),
+  endHour: z.number().int().min(0).max(23).optional(),
+});
+
+/**
+ * Working hours, evaluated in the user's timezone
+ * An end before the start runs past midnight; an end equal to the start means the whole day.
+ */
+export const workingHoursSchema = z.object({
+  start: timeOfDaySchema,
+  end: timeOfDaySchema,
+  days: z.array(z.number().int().min(0).max(6)).min(1, 'Pick at least one day').max(7),
+});
+
+/**
+ * Notification preferences validation schema
+ */
+export const notificationPreferencesSchema = z.object({
+  enabled: z.boolean().optional(),
+  reachOut: z.boolean().optional(),
+  birthdays: z.boolean().optional(),
+  anniversaries: z.boolean().optional(),
+  events: z.boolean().optional(),
+  savings: z.boolean().optional(),
+  weeklySummary: z.boolean().optional(),
+  quietHours: quietHoursSchema.optional(),
+});
+
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>;
 
 /**
  * Register validation schema
@@ -7,7 +53,7 @@ export const registerSchema = z.object({
   token: z.string().min(1, 'Token is required'),
   firstName: z.string().min(2).max(50),
   lastName: z.string().min(2).max(50),
-  timezone: z.string().optional().default('UTC'),
+  timezone: timezoneSchema.optional().default('UTC'),
 });
 
 export type RegisterInput = z.infer<typeof registerSchema>;
@@ -38,7 +84,10 @@ export const updateProfileSchema = z.object({
   lastName: z.string().min(1, 'Last name is required').max(100, 'Last name is too long').optional(),
   profileImage: z.string().optional().or(z.literal('')),
   bio: z.string().max(500, 'Bio is too long').optional().or(z.literal('')),
-  timezone: z.string().optional(),
+  timezone: timezoneSchema.optional(),
+  notificationPreferences: notificationPreferencesSchema.optional(),
+  // null resets to the default working hours
+  workingHours: workingHoursSchema.nullable().optional(),
 });
 
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
@@ -1,5 +1,14 @@
 import { z } from 'zod';
-import { ImportSource, RelationshipTier, RelationshipType, CommunicationFrequency, InteractionType, Sentiment } from '@prisma/client';
+import {
+  ImportSource,
+  RelationshipTier,
+  RelationshipType,
+  CommunicationFrequency,
+  InteractionType,
+  Sentiment,
+  FollowUpStatus,
+} from '@prisma/client';
+import { IMPORT_FIELDS } from '../utils/contactFiles';
 
 /**
  * Create contact validation schema
@@ -34,6 +43,30 @@ export const importContactsSchema = z.object({
 
 export type ImportContactsInput = z.infer<typeof importContactsSchema>;
 
+const contactFileFormat = z.enum(['vcard', 'csv']);
+
+/**
+ * vCard or CSV import validation schema
+ * `mapping` picks the CSV column for each field; without it one is guessed from the headers.
+ */
+export const importContactFileSchema = z.object({
+  format: contactFileFormat,
+  content: z.string().min(1, 'File is empty').max(5 * 1024 * 1024, 'File is too large'),
+  mapping: z.partialRecord(z.enum(IMPORT_FIELDS), z.string().min(1)).optional(),
+});
+
+export type ImportContactFileInput = z.infer<typeof importContactFileSchema>;
+
+/**
+ * Query params for exporting contacts
+ */
+export const exportContactsQuerySchema = z.object({
+  format: contactFileFormat.default('vcard'),
+  version: z.enum(['3.0', '4.0']).default('3.0'),
+});
+
+export type ExportContactsQuery = z.infer<typeof exportContactsQuerySchema>;
+
 /**
  * Update relationship validation schema
  */
@@ -57,10 +90,60 @@ export const logInteractionSchema = z.object({
   duration: z.number().int().min(0, 'Duration must be positive').optional(),
   notes: z.string().optional(),
   sentiment: z.nativeEnum(Sentiment).optional(),
+  topics: z.array(z.string().max(40, 'Topic is too long')).max(10, 'Too many topics').optional(),
+  // Have the AI look for follow-ups in the notes
+  extractFollowUps: z.boolean().optional(),
 });
 
 export type LogInteractionInput = z.infer<typeof logInteractionSchema>;
 
+/**
+ * Query params for listing follow-ups
+ */
+export const getFollowUpsQuerySchema = z.object({
+  status: z.nativeEnum(FollowUpStatus).optional(),
+  contactId: z.string().optional(),
+  interactionId: z.string().optional(),
+});
+
+export type GetFollowUpsQuery = z.infer<typeof getFollowUpsQuerySchema>;
+
+/**
+ * Confirm follow-up validation schema; anything left out keeps the AI's draft
+ */
+export const confirmFollowUpSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title is too long').optional(),
+  message: z.string().trim().max(1000, 'Message is too long').optional(),
+  scheduledDate: z.string().datetime('Invalid date format').optional(),
+});
+
+export type ConfirmFollowUpInput = z.infer<typeof confirmFollowUpSchema>;
+
+const mergeChoice = z.enum(['survivor', 'duplicate']);
+
+/**
+ * Merge contacts validation schema; fields without a choice keep the survivor's value unless it's empty
+ */
+export const mergeContactsSchema = z.object({
+  duplicateId: z.string().uuid('Invalid contact ID'),
+  fields: z
+    .object({
+      name: mergeChoice,
+      phone: mergeChoice,
+      email: mergeChoice,
+      profileImage: mergeChoice,
+      bio: mergeChoice,
+      birthday: mergeChoice,
+      anniversary: mergeChoice,
+      notes: mergeChoice,
+    })
+    .partial()
+    .optional(),
+  relationship: mergeChoice.optional(),
+});
+
+export type MergeContactsInput = z.infer<typeof mergeContactsSchema>;
+
 /**
  * Query params for getContacts
  */
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { isValidTimezone } from '../utils/timezone';
+
+/**
+ * Recurrence pattern validation schema
+ * Either an RRULE (e.g. "FREQ=WEEKLY;BYDAY=MO,TH;COUNT=10") or the older
+ * `{ frequency }` shorthand. Rule semantics are checked by the recurrence engine.
+ */
+export const recurringPatternSchema = z.union([
+  z.object({
+    rrule: z.string().min(1, 'rrule is required').max(500, 'rrule is too long'),
+    timeZone: z.string().refine((value) => isValidTimezone(value), 'Invalid IANA timezone').optional(),
+  }),
+  z.object({
+    frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']),
+  }),
+]);
+
+export type RecurringPatternInput = z.infer<typeof recurringPatternSchema>;
+
+/**
+ * Scope of an edit to a recurring reminder
+ */
+export const recurrenceScopeSchema = z.enum(['THIS', 'FUTURE']);
+
+/**
+ * Skip occurrence validation schema
+ */
+export const skipOccurrenceSchema = z.object({
+  occurrenceDate: z.string().datetime().optional(),
+});
+
+export type SkipOccurrenceInput = z.infer<typeof skipOccurrenceSchema>;
+
+/**
+ * Query params for listing upcoming occurrences
+ */
+export const getOccurrencesQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  limit: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1).max(100)).optional(),
+});
+
+export type GetOccurrencesQuery = z.infer<typeof getOccurrencesQuerySchema>;
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { AutoSaveFrequency, SavingsGoalStatus, TransactionType } from '@prisma/client';
+
+/**
+ * Create savings goal validation schema
+ */
+export const createGoalSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(200, 'Name is too long'),
+  targetAmount: z.number().positive('Target amount must be positive'),
+  currency: z.string().length(3, 'Currency must be a 3-letter ISO code').optional(),
+  deadline: z.string().datetime().optional(),
+  eventId: z.string().uuid().optional(),
+  autoSaveEnabled: z.boolean().optional(),
+  autoSaveAmount: z.number().positive('Auto-save amount must be positive').optional(),
+  autoSaveFrequency: z.nativeEnum(AutoSaveFrequency).optional(),
+});
+
+export type CreateGoalInput = z.infer<typeof createGoalSchema>;
+
+/**
+ * Update savings goal validation schema
+ */
+export const updateGoalSchema = createGoalSchema
+  .omit({ eventId: true })
+  .partial()
+  .extend({
+    status: z.nativeEnum(SavingsGoalStatus).optional(),
+  });
+
+export type UpdateGoalInput = z.infer<typeof updateGoalSchema>;
+
+/**
+ * Deposit / withdrawal validation schema
+ */
+export const goalTransactionSchema = z.object({
+  amount: z.number().positive('Amount must be positive'),
+  description: z.string().max(500, 'Description is too long').optional(),
+});
+
+export type GoalTransactionInput = z.infer<typeof goalTransactionSchema>;
+
+/**
+ * Link goal to event validation schema
+ */
+export const linkEventSchema = z.object({
+  eventId: z.string().uuid('Invalid event ID'),
+});
+
+export type LinkEventInput = z.infer<typeof linkEventSchema>;
+
+/**
+ * Query params for transaction history
+ */
+export const getTransactionsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  type: z.nativeEnum(TransactionType).optional(),
+  dateFrom: z.string().datetime().optional(),
+  dateTo: z.string().datetime().optional(),
+});
+
+export type GetTransactionsQuery = z.infer<typeof getTransactionsQuerySchema>;
@@ -8,11 +8,14 @@ import {
 } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
 import { Ionicons } from '@expo/vector-icons';
+import { FeedbackDetails } from '../../services/aiService';
 
 interface ConversationStarterListProps {
   starters: string[] | null;
   contactName?: string;
   isLoading?: boolean;
+  insightId?: string;
+  onFeedback?: (insightId: string, wasUsed: boolean, feedback?: string, details?: FeedbackDetails) => void;
   onRefresh?: () => void;
 }
 
@@ -20,6 +23,8 @@ export function ConversationStarterList({
   starters,
   contactName = 'them',
   isLoading = false,
+  insightId,
+  onFeedback,
   onRefresh,
 }: ConversationStarterListProps) {
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
@@ -28,6 +33,11 @@ export function ConversationStarterList({
     await Clipboard.setStringAsync(text);
     setCopiedIndex(index);
     setTimeout(() => setCopiedIndex(null), 2000);
+
+    // Mark as used when copied
+    if (insightId && onFeedback) {
+      onFeedback(insightId, true, undefined, { usedContent: text });
+    }
   };
 
   // Loading state
@@ -9,7 +9,7 @@ import {
 } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
 import { Ionicons } from '@expo/vector-icons';
-import { MessageSuggestions } from '../../services/aiService';
+import { FeedbackDetails, MessageSuggestions } from '../../services/aiService';
 
 interface MessageOption {
   key: keyof MessageSuggestions;
@@ -29,7 +29,7 @@ interface MessageSuggestionCardProps {
   contactName?: string;
   isLoading?: boolean;
   insightId?: string;
-  onFeedback?: (insightId: string, wasUsed: boolean, feedback?: string) => void;
+  onFeedback?: (insightId: string, wasUsed: boolean, feedback?: string, details?: FeedbackDetails) => void;
   onRefresh?: () => void;
 }
 
@@ -43,6 +43,14 @@ export function MessageSuggestionCard({
 }: MessageSuggestionCardProps) {
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
   const [feedbackGiven, setFeedbackGiven] = useState<'helpful' | 'not_helpful' | null>(null);
+  const [wasUsed, setWasUsed] = useState(false);
+
+  const markUsed = (text: string, key: string) => {
+    setWasUsed(true);
+    if (insightId && onFeedback) {
+      onFeedback(insightId, true, undefined, { selectedOption: key, usedContent: text });
+    }
+  };
 
   const handleCopy = async (text: string, key: string) => {
     await Clipboard.setStringAsync(text);
@@ -50,19 +58,15 @@ export function MessageSuggestionCard({
     setTimeout(() => setCopiedKey(null), 2000);
     
     // Mark as used when copied
-    if (insightId && onFeedback) {
-      onFeedback(insightId, true);
-    }
+    markUsed(text, key);
   };
 
-  const handleShare = async (text: string) => {
+  const handleShare = async (text: string, key: string) => {
     try {
       await Share.share({ message: text });
       
       // Mark as used when shared
-      if (insightId && onFeedback) {
-        onFeedback(insightId, true);
-      }
+      markUsed(text, key);
     } catch (error) {
       console.error('Error sharing:', error);
     }
@@ -71,7 +75,8 @@ export function MessageSuggestionCard({
   const handleFeedback = (helpful: boolean) => {
     setFeedbackGiven(helpful ? 'helpful' : 'not_helpful');
     if (insightId && onFeedback) {
-      onFeedback(insightId, false, helpful ? 'helpful' : 'not_helpful');
+      // Rating shouldn't undo an earlier copy or share
+      onFeedback(insightId, wasUsed, helpful ? 'helpful' : 'not_helpful');
     }
   };
 
@@ -160,7 +165,7 @@ export function MessageSuggestionCard({
 
               <TouchableOpacity
                 style={styles.actionButton}
-                onPress={() => handleShare(message)}
+                onPress={() => handleShare(message, option.key)}
               >
                 <Ionicons name="share-outline" size={16} color="#666" />
                 <Text style={styles.actionText}>Share</Text>
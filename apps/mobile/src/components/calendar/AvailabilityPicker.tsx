@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { Text, Card, Button, ActivityIndicator, Chip } from 'react-native-paper';
 import { Ionicons } from '@expo/vector-icons';
@@ -7,7 +7,10 @@ import { DatePickerModal } from '../common';
 
 interface AvailabilityPickerProps {
   userIds: string[];
-  onSelectSlot: (slot: AvailabilitySlot) => void;
+  onSelectSlot?: (slot: AvailabilitySlot) => void;
+  // Pick several slots (e.g. candidate times for a poll) instead of one
+  multiple?: boolean;
+  onSelectSlots?: (slots: AvailabilitySlot[]) => void;
   minDuration?: number; // minutes
   initialDate?: Date;
 }
@@ -15,6 +18,8 @@ interface AvailabilityPickerProps {
 export default function AvailabilityPicker({
   userIds,
   onSelectSlot,
+  multiple = false,
+  onSelectSlots,
   minDuration = 60,
   initialDate,
 }: AvailabilityPickerProps) {
@@ -29,7 +34,9 @@ export default function AvailabilityPicker({
   const [showEndDatePicker, setShowEndDatePicker] = useState(false);
   const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [selectedSlot, setSelectedSlot] = useState<AvailabilitySlot | null>(null);
+  const [selectedSlots, setSelectedSlots] = useState<AvailabilitySlot[]>([]);
+  // Device calendars are read once per picker so the search sees today's device events
+  const deviceBusyRefresh = useRef<Promise<void> | null>(null);
 
   useEffect(() => {
     if (userIds.length > 0) {
@@ -42,6 +49,11 @@ export default function AvailabilityPicker({
 
     try {
       setIsLoading(true);
+      if (!deviceBusyRefresh.current) {
+        deviceBusyRefresh.current = calendarService.refreshDeviceBusyTime();
+      }
+      await deviceBusyRefresh.current;
+
       const params: AvailabilityParams = {
         userIds,
         dateRange: {
@@ -74,6 +86,18 @@ export default function AvailabilityPicker({
     });
   };
 
+  // A participant's wall-clock time ("YYYY-MM-DDTHH:mm"), e.g. "Mon 2:00 PM"
+  const formatLocalTime = (localDateTime: string) => {
+    const date = new Date(`${localDateTime}:00Z`);
+    return date.toLocaleString('en-US', {
+      timeZone: 'UTC',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    });
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const today = new Date();
@@ -94,8 +118,17 @@ export default function AvailabilityPicker({
   };
 
   const handleSelectSlot = (slot: AvailabilitySlot) => {
-    setSelectedSlot(slot);
-    onSelectSlot(slot);
+    if (!multiple) {
+      setSelectedSlots([slot]);
+      onSelectSlot?.(slot);
+      return;
+    }
+
+    const next = selectedSlots.some((selected) => selected.start === slot.start)
+      ? selectedSlots.filter((selected) => selected.start !== slot.start)
+      : [...selectedSlots, slot];
+    setSelectedSlots(next);
+    onSelectSlots?.(next);
   };
 
   const durationOptions = [30, 60, 90, 120, 180];
@@ -220,7 +253,7 @@ export default function AvailabilityPicker({
             Available Time Slots ({slots.length})
           </Text>
           {slots.map((slot, index) => {
-            const isSelected = selectedSlot?.start === slot.start;
+            const isSelected = selectedSlots.some((selected) => selected.start === slot.start);
             return (
               <TouchableOpacity
                 key={index}
@@ -256,6 +289,16 @@ export default function AvailabilityPicker({
                     </View>
                   )}
                 </View>
+                {slot.participants && slot.participants.length > 1 && (
+                  <View style={styles.participantTimes}>
+                    {slot.participants.map((participant) => (
+                      <Text key={participant.userId} style={styles.participantTime}>
+                        {participant.name}: {formatLocalTime(participant.localStart)} (
+                        {participant.timeZone.split('/').pop()?.replace(/_/g, ' ')})
+                      </Text>
+                    ))}
+                  </View>
+                )}
               </TouchableOpacity>
             );
           })}
@@ -422,4 +465,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFB300',
   },
+  participantTimes: {
+    marginTop: 8,
+    gap: 2,
+  },
+  participantTime: {
+    fontSize: 12,
+    color: '#666',
+  },
 });
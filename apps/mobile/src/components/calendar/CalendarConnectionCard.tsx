@@ -1,9 +1,16 @@
 import React, { useEffect, useState } from 'react';
 import { View, StyleSheet, TouchableOpacity, Alert } from 'react-native';
-import { Text, Card, Button, ActivityIndicator } from 'react-native-paper';
+import { Text, Card, Button, ActivityIndicator, TextInput } from 'react-native-paper';
 import { Ionicons } from '@expo/vector-icons';
 import calendarService, { CalendarConnectionStatus } from '../../services/calendarService';
 
+const PROVIDER_NAMES: Record<string, string> = {
+  google: 'Google Calendar',
+  outlook: 'Outlook Calendar',
+  apple: 'iCloud Calendar',
+  caldav: 'CalDAV Calendar',
+};
+
 interface CalendarConnectionCardProps {
   onConnect?: () => void;
   onDisconnect?: () => void;
@@ -17,6 +24,11 @@ export default function CalendarConnectionCard({
   const [isLoading, setIsLoading] = useState(true);
   const [isConnecting, setIsConnecting] = useState(false);
   const [isDisconnecting, setIsDisconnecting] = useState(false);
+  // Which password-based provider's sign-in form is open
+  const [caldavProvider, setCaldavProvider] = useState<'apple' | 'caldav' | null>(null);
+  const [serverUrl, setServerUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
 
   useEffect(() => {
     loadStatus();
@@ -34,15 +46,45 @@ export default function CalendarConnectionCard({
     }
   };
 
-  const handleConnect = async () => {
+  const handleConnect = async (provider: 'google' | 'outlook') => {
     try {
       setIsConnecting(true);
-      await calendarService.connectGoogleCalendar();
+      if (provider === 'outlook') {
+        await calendarService.connectOutlookCalendar();
+      } else {
+        await calendarService.connectGoogleCalendar();
+      }
       await loadStatus();
       onConnect?.();
-      Alert.alert('Success', 'Google Calendar connected successfully');
+      Alert.alert('Success', `${PROVIDER_NAMES[provider]} connected successfully`);
     } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to connect Google Calendar');
+      Alert.alert('Error', error.message || `Failed to connect ${PROVIDER_NAMES[provider]}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleConnectCalDAV = async () => {
+    if (!caldavProvider) return;
+    if (!username.trim() || !password || (caldavProvider === 'caldav' && !serverUrl.trim())) {
+      Alert.alert('Missing details', 'Please fill in every field');
+      return;
+    }
+
+    try {
+      setIsConnecting(true);
+      await calendarService.connectCalDAV(caldavProvider, {
+        serverUrl: caldavProvider === 'caldav' ? serverUrl.trim() : undefined,
+        username: username.trim(),
+        password,
+      });
+      setCaldavProvider(null);
+      setPassword('');
+      await loadStatus();
+      onConnect?.();
+      Alert.alert('Success', `${PROVIDER_NAMES[caldavProvider]} connected successfully`);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to connect calendar');
     } finally {
       setIsConnecting(false);
     }
@@ -51,7 +93,7 @@ export default function CalendarConnectionCard({
   const handleDisconnect = () => {
     Alert.alert(
       'Disconnect Calendar',
-      'Are you sure you want to disconnect your Google Calendar?',
+      `Are you sure you want to disconnect your ${providerName}?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -75,6 +117,8 @@ export default function CalendarConnectionCard({
     );
   };
 
+  const providerName = (status.provider && PROVIDER_NAMES[status.provider]) || 'calendar';
+
   const formatLastSync = (dateString?: string) => {
     if (!dateString) return 'Never';
     const date = new Date(dateString);
@@ -113,10 +157,12 @@ export default function CalendarConnectionCard({
               color={status.connected ? '#34C759' : '#666'}
             />
             <View style={styles.headerText}>
-              <Text style={styles.title}>Google Calendar</Text>
+              <Text style={styles.title}>{status.connected ? providerName : 'Calendar'}</Text>
               <Text style={styles.subtitle}>
                 {status.connected
-                  ? 'Connected'
+                  ? status.username
+                    ? `Connected as ${status.username}`
+                    : 'Connected'
                   : 'Not connected'}
               </Text>
             </View>
@@ -151,18 +197,100 @@ export default function CalendarConnectionCard({
             >
               Disconnect
             </Button>
+          ) : caldavProvider ? (
+            <View style={styles.form}>
+              <Text style={styles.formHint}>
+                {caldavProvider === 'apple'
+                  ? 'Use your Apple ID and an app-specific password from appleid.apple.com.'
+                  : 'Use your CalDAV server address and an app password.'}
+              </Text>
+              {caldavProvider === 'caldav' && (
+                <TextInput
+                  mode="outlined"
+                  label="Server URL"
+                  value={serverUrl}
+                  onChangeText={setServerUrl}
+                  autoCapitalize="none"
+                  keyboardType="url"
+                  placeholder="https://caldav.fastmail.com/"
+                  dense
+                />
+              )}
+              <TextInput
+                mode="outlined"
+                label={caldavProvider === 'apple' ? 'Apple ID' : 'Username'}
+                value={username}
+                onChangeText={setUsername}
+                autoCapitalize="none"
+                dense
+              />
+              <TextInput
+                mode="outlined"
+                label="App password"
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry
+                dense
+              />
+              <View style={styles.formActions}>
+                <Button mode="text" onPress={() => setCaldavProvider(null)} disabled={isConnecting}>
+                  Cancel
+                </Button>
+                <Button
+                  mode="contained"
+                  onPress={handleConnectCalDAV}
+                  disabled={isConnecting}
+                  loading={isConnecting}
+                  style={styles.button}
+                  labelStyle={styles.buttonLabel}
+                >
+                  Connect
+                </Button>
+              </View>
+            </View>
           ) : (
-            <Button
-              mode="contained"
-              onPress={handleConnect}
-              disabled={isConnecting}
-              loading={isConnecting}
-              icon="link"
-              style={styles.button}
-              labelStyle={styles.buttonLabel}
-            >
-              Connect Google Calendar
-            </Button>
+            <View style={styles.form}>
+              <Button
+                mode="contained"
+                onPress={() => handleConnect('google')}
+                disabled={isConnecting}
+                loading={isConnecting}
+                icon="google"
+                style={styles.button}
+                labelStyle={styles.buttonLabel}
+              >
+                Connect Google Calendar
+              </Button>
+              <Button
+                mode="outlined"
+                onPress={() => handleConnect('outlook')}
+                disabled={isConnecting}
+                icon="microsoft-outlook"
+                style={styles.button}
+                labelStyle={styles.buttonLabel}
+              >
+                Connect Outlook
+              </Button>
+              <Button
+                mode="outlined"
+                onPress={() => setCaldavProvider('apple')}
+                disabled={isConnecting}
+                icon="apple"
+                style={styles.button}
+                labelStyle={styles.buttonLabel}
+              >
+                Connect iCloud
+              </Button>
+              <Button
+                mode="text"
+                onPress={() => setCaldavProvider('caldav')}
+                disabled={isConnecting}
+                style={styles.button}
+                labelStyle={styles.buttonLabel}
+              >
+                Other CalDAV server
+              </Button>
+            </View>
           )}
         </View>
       </Card.Content>
@@ -250,6 +378,18 @@ const styles = StyleSheet.create({
   button: {
     borderRadius: 8,
   },
+  form: {
+    gap: 8,
+  },
+  formHint: {
+    fontSize: 13,
+    color: '#666',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
   buttonLabel: {
     fontSize: 14,
     fontWeight: '600',
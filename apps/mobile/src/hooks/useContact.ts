@@ -45,6 +45,7 @@ export function useContact(id: string, enabled = true) {
       // Refetch contact to get updated relationship
       queryClient.invalidateQueries({ queryKey: ['contact', id] });
       queryClient.invalidateQueries({ queryKey: ['contacts'] });
+      queryClient.invalidateQueries({ queryKey: ['interestSuggestions', id] });
     },
   });
 
@@ -55,6 +56,8 @@ export function useContact(id: string, enabled = true) {
       // Refetch contact to get updated interactions
       queryClient.invalidateQueries({ queryKey: ['contact', id] });
       queryClient.invalidateQueries({ queryKey: ['interactions', id] });
+      // New topics may have come up
+      queryClient.invalidateQueries({ queryKey: ['interestSuggestions', id] });
     },
   });
 
@@ -101,3 +104,16 @@ export function useInteractionHistory(id: string, page = 1, limit = 20) {
     refetch: query.refetch,
   };
 }
+
+export function useSharedInterestSuggestions(id: string) {
+  const query = useQuery({
+    queryKey: ['interestSuggestions', id],
+    queryFn: () => contactService.getSharedInterestSuggestions(id),
+    enabled: !!id,
+  });
+
+  return {
+    suggestions: query.data || [],
+    isLoading: query.isLoading,
+  };
+}
@@ -1,5 +1,11 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import contactService, { ContactFilters, CreateContactData, PaginatedResponse, Contact } from '../services/contactService';
+import contactService, {
+  ContactFilters,
+  CreateContactData,
+  PaginatedResponse,
+  Contact,
+  MergeContactsData,
+} from '../services/contactService';
 
 export interface UseContactsOptions {
   filters?: ContactFilters;
@@ -70,3 +76,34 @@ export function useContacts(options: UseContactsOptions = {}) {
     importResult: importMutation.data,
   };
 }
+
+export function useDuplicateContacts() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['contactDuplicates'],
+    queryFn: () => contactService.getDuplicates(),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ survivorId, ...data }: MergeContactsData & { survivorId: string }) =>
+      contactService.mergeContacts(survivorId, data),
+    onSuccess: (_, { survivorId, duplicateId }) => {
+      queryClient.invalidateQueries({ queryKey: ['contactDuplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['contacts'] });
+      queryClient.invalidateQueries({ queryKey: ['contact', survivorId] });
+      queryClient.invalidateQueries({ queryKey: ['interactions', survivorId] });
+      queryClient.removeQueries({ queryKey: ['contact', duplicateId] });
+    },
+  });
+
+  return {
+    candidates: query.data || [],
+    isLoading: query.isLoading,
+    isError: query.isError,
+    refetch: query.refetch,
+
+    mergeContactsAsync: mergeMutation.mutateAsync,
+    isMerging: mergeMutation.isPending,
+  };
+}
@@ -10,9 +10,11 @@ import AddEditContactScreen from '../screens/contacts/AddEditContactScreen';
 import ImportContactsScreen from '../screens/contacts/ImportContactsScreen';
 import ContactMessagesScreen from '../screens/contacts/ContactMessagesScreen';
 import ContactEventsScreen from '../screens/contacts/ContactEventsScreen';
+import DuplicateContactsScreen from '../screens/contacts/DuplicateContactsScreen';
 import EventsScreen from '../screens/events/EventsScreen';
 import AddEditEventScreen from '../screens/events/AddEditEventScreen';
 import EventDetailScreen from '../screens/events/EventDetailScreen';
+import SchedulingPollScreen from '../screens/events/SchedulingPollScreen';
 import ProfileScreen from '../screens/profile/ProfileScreen';
 import NotificationPreferencesScreen from '../screens/settings/NotificationPreferencesScreen';
 import CalendarSettingsScreen from '../screens/settings/CalendarSettingsScreen';
@@ -28,6 +30,7 @@ type EventStackParamList = {
   EventDetail: { id: string };
   AddEditEvent: { contactId?: string };
   CreateEvent: { preSelectedAttendees?: string[]; contactName?: string };
+  SchedulingPoll: { eventId: string };
 };
 
 const Tab = createBottomTabNavigator<MainTabParamList>();
@@ -64,6 +67,11 @@ function ContactNavigator() {
         component={ImportContactsScreen}
         options={{ title: 'Import Contacts' }}
       />
+      <ContactStack.Screen
+        name="DuplicateContacts"
+        component={DuplicateContactsScreen}
+        options={{ title: 'Duplicates' }}
+      />
       <ContactStack.Screen
         name="ContactMessages"
         component={ContactMessagesScreen}
@@ -115,6 +123,11 @@ function EventNavigator() {
             : 'Create Event',
         })}
       />
+      <EventStack.Screen
+        name="SchedulingPoll"
+        component={SchedulingPollScreen}
+        options={{ title: 'Find a Time' }}
+      />
     </EventStack.Navigator>
   );
 }
@@ -13,17 +13,19 @@ import {
   TextInput,
   SegmentedButtons,
   ActivityIndicator,
+  Switch,
 } from 'react-native-paper';
 import { Ionicons } from '@expo/vector-icons';
 import { useRoute, useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { useContact, useInteractionHistory } from '../../hooks/useContact';
+import { useContact, useInteractionHistory, useSharedInterestSuggestions } from '../../hooks/useContact';
 import TierBadge from '../../components/contacts/TierBadge';
 import InteractionItem from '../../components/contacts/InteractionItem';
 import { MessageSuggestionCard, ConversationStarterList } from '../../components/ai';
 import { InterestUpdatesCard } from '../../components/interests';
 import { useContactAI } from '../../hooks/useAISuggestions';
-import { MessageContext } from '../../services/aiService';
+import { FeedbackDetails, MessageContext } from '../../services/aiService';
+import contactService, { FollowUp } from '../../services/contactService';
 import { ContactStackParamList } from '../../types/navigation';
 import { colors, shadows, radii, spacing, typography } from '../../theme/paperTheme';
 
@@ -44,6 +46,8 @@ export default function ContactDetailScreen() {
   const [messageContext, setMessageContext] = useState<MessageContext>('check-in');
   const [interactionType, setInteractionType] = useState<'CALL' | 'TEXT' | 'VIDEO_CALL' | 'IN_PERSON' | 'EVENT'>('CALL');
   const [interactionNotes, setInteractionNotes] = useState('');
+  const [suggestFollowUps, setSuggestFollowUps] = useState(true);
+  const [followUps, setFollowUps] = useState<FollowUp[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
 
   const INTERACTION_TEMPLATES: Record<string, { type: 'CALL' | 'TEXT' | 'VIDEO_CALL' | 'IN_PERSON' | 'EVENT'; note: string; label: string; emoji: string }> = {
@@ -74,6 +78,7 @@ export default function ContactDetailScreen() {
 
   const { contact, isLoading, updateRelationship, logInteraction, logInteractionAsync, isLoggingInteraction, deleteContact, isDeleting } = useContact(id);
   const { interactions } = useInteractionHistory(id, 1, 10);
+  const { suggestions: interestSuggestions } = useSharedInterestSuggestions(id);
   
   const {
     messageSuggestions,
@@ -191,21 +196,25 @@ export default function ContactDetailScreen() {
     try { await fetchConversationStarters(); } catch (error) { console.log('Error:', error); }
   };
 
-  const handleFeedback = (insightId: string, wasUsed: boolean, feedback?: string) => {
-    if (insightId) { submitFeedback({ insightId, wasUsed, feedback }); }
+  const handleFeedback = (insightId: string, wasUsed: boolean, feedback?: string, details?: FeedbackDetails) => {
+    if (insightId) { submitFeedback({ insightId, wasUsed, feedback, ...details }); }
   };
 
   const handleLogInteraction = async () => {
     try {
-      await logInteractionAsync({
+      const result = await logInteractionAsync({
         type: interactionType,
         date: new Date().toISOString(),
         notes: interactionNotes || undefined,
+        // Template notes have nothing to follow up on
+        extractFollowUps: suggestFollowUps && !selectedTemplate && !!interactionNotes.trim(),
       });
       setShowInteractionDialog(false);
       setInteractionNotes('');
       setSelectedTemplate(null);
-      if (Platform.OS !== 'web') {
+      if (result.followUps?.length) {
+        setFollowUps(result.followUps);
+      } else if (Platform.OS !== 'web') {
         Alert.alert('Logged!', `Interaction with ${contact?.name} recorded.`);
       }
     } catch (error) {
@@ -213,6 +222,19 @@ export default function ContactDetailScreen() {
     }
   };
 
+  const handleResolveFollowUp = async (followUp: FollowUp, accept: boolean) => {
+    try {
+      if (accept) {
+        await contactService.confirmFollowUp(followUp.id);
+      } else {
+        await contactService.rejectFollowUp(followUp.id);
+      }
+      setFollowUps((current) => current.filter((item) => item.id !== followUp.id));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update follow-up. Please try again.');
+    }
+  };
+
   // Quick action data
   const quickActions = [
     { icon: 'call-outline' as const, label: 'Call', onPress: handleCall },
@@ -304,6 +326,21 @@ export default function ContactDetailScreen() {
                   ))}
                 </View>
               )}
+              {interestSuggestions.length > 0 && (
+                <View style={styles.interestChips}>
+                  {interestSuggestions.slice(0, 3).map((suggestion) => (
+                    <TouchableOpacity
+                      key={suggestion.topic}
+                      style={[styles.interestChip, styles.interestChipSuggested]}
+                      onPress={() => updateRelationship({
+                        sharedInterests: [...(contact.relationship?.sharedInterests || []), suggestion.topic],
+                      })}
+                    >
+                      <Text style={styles.interestChipText}>+ {suggestion.topic}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
             </View>
           </View>
         )}
@@ -394,6 +431,10 @@ export default function ContactDetailScreen() {
               numberOfLines={2}
               style={styles.input}
             />
+            <View style={styles.followUpToggle}>
+              <Text style={styles.followUpToggleLabel}>Suggest follow-up reminders from notes</Text>
+              <Switch value={suggestFollowUps} onValueChange={setSuggestFollowUps} />
+            </View>
           </Dialog.Content>
           <Dialog.Actions>
             <Button onPress={() => { setShowInteractionDialog(false); handleClearTemplate(); }}>Cancel</Button>
@@ -402,6 +443,34 @@ export default function ContactDetailScreen() {
         </Dialog>
       </Portal>
 
+      {/* Follow-ups found in the notes */}
+      <Portal>
+        <Dialog visible={followUps.length > 0} onDismiss={() => setFollowUps([])} style={styles.wideDialog}>
+          <Dialog.Title>Follow up?</Dialog.Title>
+          <Dialog.Content>
+            <Text style={styles.templateLabel}>From your notes with {contact.name}:</Text>
+            {followUps.map((followUp) => (
+              <View key={followUp.id} style={styles.followUpItem}>
+                <Text style={styles.followUpTitle}>{followUp.title}</Text>
+                <Text style={styles.followUpMeta}>
+                  {new Date(followUp.dueDate).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                  {followUp.excerpt ? ` · "${followUp.excerpt}"` : ''}
+                </Text>
+                <View style={styles.followUpActions}>
+                  <Button compact onPress={() => handleResolveFollowUp(followUp, false)}>Skip</Button>
+                  <Button compact mode="contained-tonal" onPress={() => handleResolveFollowUp(followUp, true)}>
+                    Remind me
+                  </Button>
+                </View>
+              </View>
+            ))}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setFollowUps([])}>Later</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       {/* Delete Confirmation Dialog */}
       <Portal>
         <Dialog visible={showDeleteDialog} onDismiss={() => setShowDeleteDialog(false)}>
@@ -477,6 +546,8 @@ export default function ContactDetailScreen() {
                 starters={conversationStarters?.starters || null}
                 contactName={contact?.name}
                 isLoading={isLoadingStarters}
+                insightId={conversationStarters?.insightId}
+                onFeedback={handleFeedback}
                 onRefresh={handleRefreshStarters}
               />
             )}
@@ -557,6 +628,7 @@ const styles = StyleSheet.create({
   interestChips: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm },
   interestChip: { backgroundColor: colors.surface, borderRadius: radii.full, paddingHorizontal: spacing.sm, paddingVertical: spacing.xs },
   interestChipText: { ...typography.overline, color: colors.textSecondary },
+  interestChipSuggested: { backgroundColor: 'transparent', borderWidth: 1, borderStyle: 'dashed', borderColor: colors.border },
   logButton: { backgroundColor: colors.primary + '15', paddingHorizontal: spacing.lg, paddingVertical: spacing.sm, borderRadius: radii.md },
   logButtonText: { ...typography.caption, fontWeight: '600', color: colors.primary },
   emptyText: { textAlign: 'center', color: colors.textSecondary, padding: spacing.lg },
@@ -584,6 +656,12 @@ const styles = StyleSheet.create({
   deleteButtonText: { color: colors.error, fontSize: 17, fontWeight: '600' },
   input: { marginTop: spacing.lg },
   wideDialog: { maxWidth: 500, alignSelf: 'center', width: '95%' },
+  followUpToggle: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginTop: spacing.md },
+  followUpToggleLabel: { ...typography.caption, color: colors.textSecondary, flex: 1, marginRight: spacing.sm },
+  followUpItem: { paddingVertical: spacing.sm, borderBottomWidth: 1, borderBottomColor: colors.border },
+  followUpTitle: { ...typography.body, fontWeight: '600', color: colors.textPrimary },
+  followUpMeta: { ...typography.caption, color: colors.textSecondary, marginTop: 2 },
+  followUpActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: spacing.sm, marginTop: spacing.xs },
   templateLabel: { ...typography.caption, fontWeight: '600', color: colors.textSecondary, marginBottom: spacing.sm },
   templatesGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.sm, marginBottom: spacing.sm },
   templateButton: {
@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
+import React, { useLayoutEffect, useState } from 'react';
 import { View, StyleSheet, FlatList, RefreshControl } from 'react-native';
-import { Searchbar, FAB, Text, ActivityIndicator, Chip } from 'react-native-paper';
+import { Searchbar, FAB, Text, ActivityIndicator, Chip, IconButton } from 'react-native-paper';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useContacts } from '../../hooks/useContacts';
@@ -38,6 +38,19 @@ export default function ContactListScreen() {
   const [selectedTier, setSelectedTier] = useState<RelationshipTier | 'ALL'>('ALL');
   const [page, setPage] = useState(1);
 
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <IconButton
+          icon="account-multiple-check-outline"
+          iconColor={colors.primary}
+          accessibilityLabel="Find duplicates"
+          onPress={() => navigation.navigate('DuplicateContacts')}
+        />
+      ),
+    });
+  }, [navigation]);
+
   const { contacts, pagination, isLoading, isError, refetch } = useContacts({
     filters: {
       search: searchQuery || undefined,
@@ -15,7 +15,7 @@ import { useRoute, useNavigation } from '@react-navigation/native';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useContactAI } from '../../hooks/useAISuggestions';
 import { MessageSuggestionCard } from '../../components/ai';
-import { MessageContext } from '../../services/aiService';
+import { FeedbackDetails, MessageContext } from '../../services/aiService';
 import { colors, shadows, radii, spacing, typography } from '../../theme/paperTheme';
 
 export default function ContactMessagesScreen() {
@@ -61,6 +61,7 @@ export default function ContactMessagesScreen() {
       return;
     }
     if (contactPhone) {
+      recordSentMessage();
       Linking.openURL(`sms:${contactPhone}?body=${encodeURIComponent(messageText)}`);
     } else {
       Alert.alert('No Phone Number', 'This contact does not have a phone number');
@@ -74,15 +75,23 @@ export default function ContactMessagesScreen() {
     }
     if (contactPhone) {
       const cleanPhone = contactPhone.replace(/\D/g, '');
+      recordSentMessage();
       Linking.openURL(`whatsapp://send?phone=${cleanPhone}&text=${encodeURIComponent(messageText)}`);
     } else {
       Alert.alert('No Phone Number', 'This contact does not have a phone number for WhatsApp');
     }
   };
 
-  const handleFeedback = (insightId: string, wasUsed: boolean, feedback?: string) => {
+  const handleFeedback = (insightId: string, wasUsed: boolean, feedback?: string, details?: FeedbackDetails) => {
     if (insightId) {
-      submitFeedback({ insightId, wasUsed, feedback });
+      submitFeedback({ insightId, wasUsed, feedback, ...details });
+    }
+  };
+
+  // What actually gets sent, edits included, teaches future suggestions
+  const recordSentMessage = () => {
+    if (messageSuggestions?.insightId) {
+      submitFeedback({ insightId: messageSuggestions.insightId, wasUsed: true, usedContent: messageText.trim() });
     }
   };
 
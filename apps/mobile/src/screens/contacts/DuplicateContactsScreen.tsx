@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, FlatList, Alert, RefreshControl } from 'react-native';
+import { Text, Card, Button, Chip, SegmentedButtons, ActivityIndicator } from 'react-native-paper';
+import { useDuplicateContacts } from '../../hooks/useContacts';
+import { Contact, DuplicateCandidate, MergeChoice, MergeField } from '../../services/contactService';
+import { colors, radii, spacing, typography } from '../../theme/paperTheme';
+
+const reasonLabels: Record<DuplicateCandidate['reasons'][number], string> = {
+  phone: 'Same phone',
+  email: 'Same email',
+  name: 'Similar name',
+};
+
+const fieldLabels: Record<MergeField, string> = {
+  name: 'Name',
+  phone: 'Phone',
+  email: 'Email',
+  profileImage: 'Photo',
+  bio: 'Bio',
+  birthday: 'Birthday',
+  anniversary: 'Anniversary',
+  notes: 'Notes',
+};
+
+function fieldValue(contact: Contact, field: MergeField): string {
+  const value = contact[field];
+  if (!value) return '—';
+  if (field === 'birthday' || field === 'anniversary') return new Date(value).toLocaleDateString();
+  if (field === 'profileImage') return 'Photo';
+  return value;
+}
+
+function DuplicateCard({
+  candidate,
+  isMerging,
+  onMerge,
+}: {
+  candidate: DuplicateCandidate;
+  isMerging: boolean;
+  onMerge: (survivor: Contact, duplicate: Contact, fields: Partial<Record<MergeField, MergeChoice>>) => void;
+}) {
+  const [keepIndex, setKeepIndex] = useState(0);
+  const [fields, setFields] = useState<Partial<Record<MergeField, MergeChoice>>>({});
+
+  const survivor = candidate.contacts[keepIndex];
+  const duplicate = candidate.contacts[1 - keepIndex];
+
+  const switchSurvivor = (value: string) => {
+    setKeepIndex(Number(value));
+    setFields({});
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.reasons}>
+          {candidate.reasons.map((reason) => (
+            <Chip key={reason} compact style={styles.reasonChip} textStyle={styles.reasonText}>
+              {reasonLabels[reason]}
+            </Chip>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Keep</Text>
+        <SegmentedButtons
+          value={String(keepIndex)}
+          onValueChange={switchSurvivor}
+          buttons={candidate.contacts.map((contact, index) => ({
+            value: String(index),
+            label: contact.name,
+          }))}
+        />
+
+        {candidate.conflicts.map((field) => (
+          <View key={field} style={styles.conflict}>
+            <Text style={styles.label}>{fieldLabels[field]}</Text>
+            <SegmentedButtons
+              value={fields[field] ?? 'survivor'}
+              onValueChange={(choice) => setFields({ ...fields, [field]: choice as MergeChoice })}
+              buttons={[
+                { value: 'survivor', label: fieldValue(survivor, field) },
+                { value: 'duplicate', label: fieldValue(duplicate, field) },
+              ]}
+            />
+          </View>
+        ))}
+
+        <Text style={styles.hint}>
+          {duplicate.name}'s interactions, events and reminders will move to {survivor.name}.
+        </Text>
+      </Card.Content>
+      <Card.Actions>
+        <Button mode="contained" onPress={() => onMerge(survivor, duplicate, fields)} disabled={isMerging}>
+          Merge
+        </Button>
+      </Card.Actions>
+    </Card>
+  );
+}
+
+export default function DuplicateContactsScreen() {
+  const { candidates, isLoading, isError, refetch, mergeContactsAsync, isMerging } = useDuplicateContacts();
+
+  const handleMerge = (
+    survivor: Contact,
+    duplicate: Contact,
+    fields: Partial<Record<MergeField, MergeChoice>>
+  ) => {
+    Alert.alert('Merge Contacts', `Merge ${duplicate.name} into ${survivor.name}? This can't be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Merge',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await mergeContactsAsync({ survivorId: survivor.id, duplicateId: duplicate.id, fields });
+          } catch (error) {
+            Alert.alert('Merge Failed', 'Failed to merge contacts. Please try again.');
+            console.error('Merge error:', error);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View style={styles.centerContainer}>
+        <Text style={styles.emptyText}>Failed to find duplicates</Text>
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={candidates}
+      keyExtractor={(item) => item.contactIds.join('-')}
+      renderItem={({ item }) => <DuplicateCard candidate={item} isMerging={isMerging} onMerge={handleMerge} />}
+      contentContainerStyle={styles.listContent}
+      refreshControl={<RefreshControl refreshing={isLoading} onRefresh={refetch} tintColor={colors.primary} />}
+      ListEmptyComponent={
+        <View style={styles.centerContainer}>
+          <Text style={styles.emptyText}>No duplicates found</Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: spacing.lg,
+    gap: spacing.md,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: radii.md,
+  },
+  reasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  reasonChip: {
+    backgroundColor: colors.warning + '20',
+  },
+  reasonText: {
+    ...typography.captionSmall,
+    color: colors.warning,
+  },
+  label: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  conflict: {
+    marginTop: spacing.xs,
+  },
+  hint: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginTop: spacing.md,
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+});
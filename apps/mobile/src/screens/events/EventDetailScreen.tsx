@@ -147,6 +147,10 @@ export default function EventDetailScreen() {
     navigation.navigate('SelectAttendees' as never, { eventId: id } as never);
   }, [navigation, id]);
 
+  const handleOpenPoll = useCallback(() => {
+    navigation.navigate('SchedulingPoll' as never, { eventId: id } as never);
+  }, [navigation, id]);
+
   const handleRemoveAttendee = useCallback(
     (attendee: EventAttendee) => {
       Alert.alert('Remove Attendee', `Are you sure you want to remove ${attendee.contact?.name || 'this attendee'}?`, [
@@ -387,6 +391,10 @@ export default function EventDetailScreen() {
             <TouchableOpacity style={styles.editEventButton} onPress={handleEdit} activeOpacity={0.8}>
               <Text style={styles.editEventButtonText}>Edit Event</Text>
             </TouchableOpacity>
+            <TouchableOpacity style={styles.pollButton} onPress={handleOpenPoll} activeOpacity={0.8}>
+              <Ionicons name="people-outline" size={20} color={colors.primary} />
+              <Text style={styles.pollButtonText}>Find a Time with a Poll</Text>
+            </TouchableOpacity>
             <TouchableOpacity
               style={styles.cancelEventButton}
               onPress={() => setShowCancelDialog(true)}
@@ -628,6 +636,16 @@ const styles = StyleSheet.create({
     ...shadows.light,
   },
   editEventButtonText: { color: '#FFFFFF', ...typography.h5 },
+  pollButton: {
+    flexDirection: 'row',
+    backgroundColor: colors.primary + '12',
+    height: 50,
+    borderRadius: radii.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+  },
+  pollButtonText: { color: colors.primary, ...typography.h5 },
   cancelEventButton: {
     flexDirection: 'row',
     backgroundColor: colors.error + '12',
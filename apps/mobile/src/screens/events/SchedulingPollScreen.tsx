@@ -0,0 +1,300 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, StyleSheet, ScrollView, Alert, Share } from 'react-native';
+import { Text, Button, TextInput, ActivityIndicator } from 'react-native-paper';
+import { useRoute, useNavigation, useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useEvent } from '../../hooks/useEvents';
+import { useAuth } from '../../hooks/useAuth';
+import eventService, { SchedulingPoll, SchedulingPollOption } from '../../services/eventService';
+import { AvailabilitySlot } from '../../services/calendarService';
+import { AvailabilityPicker } from '../../components/calendar';
+import { colors, shadows, radii, spacing, typography } from '../../theme/paperTheme';
+
+const DEFAULT_DURATION_MINUTES = 120;
+
+// The event's length from its "HH:mm" start and end (an end before the start runs past midnight)
+function getEventDurationMinutes(startTime?: string, endTime?: string): number {
+  if (!startTime || !endTime) return DEFAULT_DURATION_MINUTES;
+  const [startHour, startMinute] = startTime.split(':').map(Number);
+  const [endHour, endMinute] = endTime.split(':').map(Number);
+  const minutes = endHour * 60 + endMinute - (startHour * 60 + startMinute);
+  if (Number.isNaN(minutes) || minutes === 0) return DEFAULT_DURATION_MINUTES;
+  return minutes > 0 ? minutes : minutes + 24 * 60;
+}
+
+function formatOption(option: { start: string; end: string }): string {
+  const start = new Date(option.start);
+  const end = new Date(option.end);
+  const time = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return `${start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}, ${time(start)} - ${time(end)}`;
+}
+
+export default function SchedulingPollScreen() {
+  const route = useRoute();
+  const navigation = useNavigation();
+  const { eventId } = (route.params as { eventId: string }) || {};
+  const { user } = useAuth();
+  const { event } = useEvent(eventId);
+
+  const [poll, setPoll] = useState<SchedulingPoll | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedSlots, setSelectedSlots] = useState<AvailabilitySlot[]>([]);
+  const [message, setMessage] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const userIds = useMemo(() => (user?.id ? [user.id] : []), [user?.id]);
+  const durationMinutes = getEventDurationMinutes(event?.startTime, event?.endTime);
+
+  const loadPoll = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setPoll(await eventService.getSchedulingPoll(eventId));
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error || 'Failed to load poll');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPoll();
+    }, [loadPoll])
+  );
+
+  const handleCreatePoll = useCallback(async () => {
+    // Each option lasts as long as the event, trimmed to the free slot it came from
+    const options = selectedSlots.map((slot) => {
+      const start = new Date(slot.start);
+      const end = new Date(Math.min(new Date(slot.end).getTime(), start.getTime() + durationMinutes * 60000));
+      return { start: start.toISOString(), end: end.toISOString() };
+    });
+
+    try {
+      setIsSaving(true);
+      setPoll(await eventService.createSchedulingPoll(eventId, { options, message: message.trim() || undefined }));
+      setSelectedSlots([]);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error || 'Failed to create poll');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [selectedSlots, durationMinutes, eventId, message]);
+
+  const handleShareLinks = useCallback(async () => {
+    try {
+      const links = await eventService.createPollLinks(eventId);
+      if (links.length === 0) {
+        Alert.alert('No Guests', 'Add attendees to the event before sharing the poll.');
+        return;
+      }
+      const text = links.map((link) => `${link.name}: ${link.url}`).join('\n');
+      await Share.share({ message: `Vote on a time for ${event?.title || 'our event'}\n\n${text}` });
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.error || 'Failed to create voting links');
+    }
+  }, [eventId, event?.title]);
+
+  const finalize = useCallback(
+    async (option: SchedulingPollOption, syncToCalendar: boolean) => {
+      try {
+        setIsSaving(true);
+        const result = await eventService.finalizeSchedulingPoll(eventId, option.optionId, syncToCalendar);
+        setPoll(result.poll);
+        if (result.calendarSync && !result.calendarSync.synced) {
+          Alert.alert(
+            'Time Set',
+            `The event was moved, but couldn't be added to your calendar: ${result.calendarSync.error || 'unknown error'}`
+          );
+        } else {
+          Alert.alert('Time Set', `The event is now ${formatOption(option)}.`);
+        }
+      } catch (error: any) {
+        Alert.alert('Error', error.response?.data?.error || 'Failed to finalize poll');
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [eventId]
+  );
+
+  const handleFinalize = useCallback(
+    (option: SchedulingPollOption) => {
+      Alert.alert('Pick This Time?', formatOption(option), [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Pick Time', onPress: () => finalize(option, false) },
+        { text: 'Pick & Add to Calendar', onPress: () => finalize(option, true) },
+      ]);
+    },
+    [finalize]
+  );
+
+  const handleDeletePoll = useCallback(() => {
+    Alert.alert('Delete Poll', 'Guests will no longer be able to vote. Delete this poll?', [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await eventService.deleteSchedulingPoll(eventId);
+            setPoll(null);
+          } catch (error: any) {
+            Alert.alert('Error', error.response?.data?.error || 'Failed to delete poll');
+          }
+        },
+      },
+    ]);
+  }, [eventId]);
+
+  if (isLoading && !poll) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!poll) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Offer a few times</Text>
+          <Text style={styles.hint}>
+            Pick at least two times you're free. Guests vote on each one from a private link.
+          </Text>
+          <TextInput
+            mode="outlined"
+            label="Message to guests (optional)"
+            value={message}
+            onChangeText={setMessage}
+            maxLength={500}
+            style={styles.messageInput}
+          />
+          <Button
+            mode="contained"
+            onPress={handleCreatePoll}
+            loading={isSaving}
+            disabled={isSaving || selectedSlots.length < 2}
+            buttonColor={colors.primary}
+          >
+            {`Create Poll (${selectedSlots.length} times)`}
+          </Button>
+        </View>
+        <AvailabilityPicker
+          userIds={userIds}
+          multiple
+          onSelectSlots={setSelectedSlots}
+          minDuration={Math.min(durationMinutes, DEFAULT_DURATION_MINUTES)}
+          initialDate={event ? new Date(event.date) : undefined}
+        />
+      </View>
+    );
+  }
+
+  const isOpen = poll.status === 'OPEN';
+  const votedCount = poll.attendees.filter((attendee) => attendee.voted).length;
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{isOpen ? 'Voting Open' : 'Time Picked'}</Text>
+        {poll.message && <Text style={styles.hint}>{poll.message}</Text>}
+        <Text style={styles.hint}>
+          {votedCount} of {poll.attendees.length} guests have voted
+        </Text>
+        {poll.attendees.map((attendee) => (
+          <View key={attendee.attendeeId} style={styles.attendeeRow}>
+            <Ionicons
+              name={attendee.voted ? 'checkmark-circle' : 'time-outline'}
+              size={16}
+              color={attendee.voted ? colors.success : colors.textSecondary}
+            />
+            <Text style={styles.attendeeName}>{attendee.name}</Text>
+          </View>
+        ))}
+        {isOpen && (
+          <Button mode="outlined" icon="share-variant" onPress={handleShareLinks} style={styles.shareButton}>
+            Share Voting Links
+          </Button>
+        )}
+      </View>
+
+      {poll.options.map((option) => {
+        const isChosen = poll.chosenOptionId === option.optionId;
+        const isSuggested = isOpen && poll.suggestedOptionId === option.optionId;
+
+        return (
+          <View key={option.optionId} style={[styles.card, (isChosen || isSuggested) && styles.highlightedCard]}>
+            <View style={styles.optionHeader}>
+              <Text style={styles.optionTime}>{formatOption(option)}</Text>
+              {isChosen && <Text style={styles.badge}>Chosen</Text>}
+              {isSuggested && <Text style={styles.badge}>Best</Text>}
+            </View>
+            <Text style={styles.tally}>
+              {option.yes} yes · {option.ifNeeded} if needed · {option.no} no · {option.pending} pending
+            </Text>
+            {option.votes.length > 0 && (
+              <Text style={styles.voters}>
+                {option.votes
+                  .map((vote) => `${vote.name} (${vote.choice === 'IF_NEEDED' ? 'if needed' : vote.choice.toLowerCase()})`)
+                  .join(', ')}
+              </Text>
+            )}
+            {isOpen && (
+              <Button mode="text" compact onPress={() => handleFinalize(option)} disabled={isSaving} textColor={colors.primary}>
+                Pick This Time
+              </Button>
+            )}
+          </View>
+        );
+      })}
+
+      <View style={styles.actions}>
+        {!isOpen && (
+          <Button mode="contained" onPress={() => navigation.goBack()} buttonColor={colors.primary}>
+            Back to Event
+          </Button>
+        )}
+        <Button mode="text" onPress={handleDeletePoll} textColor={colors.error}>
+          Delete Poll
+        </Button>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  centerContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: colors.background },
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+    borderRadius: radii.lg,
+    padding: spacing.lg,
+    ...shadows.light,
+  },
+  highlightedCard: { borderWidth: 1, borderColor: colors.primary },
+  cardTitle: { ...typography.h5, color: colors.textPrimary, marginBottom: spacing.sm },
+  hint: { ...typography.bodySmall, color: colors.textSecondary, marginBottom: spacing.sm },
+  messageInput: { marginBottom: spacing.md, backgroundColor: '#FFFFFF' },
+  attendeeRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm, paddingVertical: 2 },
+  attendeeName: { ...typography.bodySmall, color: colors.textPrimary },
+  shareButton: { marginTop: spacing.md },
+  optionHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  optionTime: { ...typography.body, fontWeight: '600', color: colors.textPrimary, flex: 1 },
+  badge: {
+    ...typography.captionSmall,
+    fontWeight: '700',
+    color: colors.primary,
+    backgroundColor: colors.primary + '15',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: radii.full,
+    overflow: 'hidden',
+  },
+  tally: { ...typography.bodySmall, color: colors.textSecondary, marginTop: spacing.xs },
+  voters: { ...typography.captionSmall, color: colors.textSecondary, marginTop: spacing.xs },
+  actions: { padding: spacing.lg, gap: spacing.sm },
+});
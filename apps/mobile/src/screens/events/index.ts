@@ -4,3 +4,4 @@ export { default as EventDetailScreen } from './EventDetailScreen';
 export { default as CreateEventScreen } from './CreateEventScreen';
 export { default as SelectAttendeesScreen } from './SelectAttendeesScreen';
 export { default as VenueSearchScreen } from './VenueSearchScreen';
+export { default as SchedulingPollScreen } from './SchedulingPollScreen';
@@ -18,6 +18,18 @@ import { colors, shadows, radii, spacing, typography } from '../../theme/paperTh
 const screenWidth = Dimensions.get('window').width;
 const cardWidth = (screenWidth - spacing.lg * 2 - spacing.md) / 2;
 
+const MOOD_ICONS = {
+  improving: 'trending-up',
+  declining: 'trending-down',
+  steady: 'remove-outline',
+} as const;
+
+const MOOD_COLORS = {
+  improving: colors.success,
+  declining: colors.warning,
+  steady: colors.textSecondary,
+};
+
 export default function InsightsScreen() {
   const navigation = useNavigation();
   const { user } = useAuth();
@@ -224,6 +236,26 @@ export default function InsightsScreen() {
             <Text style={styles.noDataText}>No interactions yet</Text>
           )}
         </View>
+
+        {/* Mood Trends Card */}
+        {!!data.sentimentTrends?.byContact.length && (
+          <View style={styles.gridCard}>
+            <Text style={styles.gridCardTitle}>Mood Trends</Text>
+            {data.sentimentTrends.byContact.slice(0, 3).map((trend) => (
+              <View key={trend.contactId} style={styles.topContactRow}>
+                <Ionicons
+                  name={MOOD_ICONS[trend.direction]}
+                  size={18}
+                  color={MOOD_COLORS[trend.direction]}
+                />
+                <View style={styles.topContactInfo}>
+                  <Text style={styles.topContactName} numberOfLines={1}>{trend.name}</Text>
+                  <Text style={styles.topContactCount}>{trend.direction} over {data.sentimentTrends!.weeks} weeks</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
       </View>
 
       {/* Needs Attention Card */}
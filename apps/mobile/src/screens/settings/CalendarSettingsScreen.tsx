@@ -5,6 +5,7 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
+  Share,
 } from 'react-native';
 import {
   Text,
@@ -12,11 +13,46 @@ import {
   Switch,
   ActivityIndicator,
   Divider,
+  SegmentedButtons,
+  Button,
+  Chip,
+  IconButton,
 } from 'react-native-paper';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
 import { CalendarConnectionCard } from '../../components/calendar';
-import calendarService, { CalendarInfo, CalendarConnectionStatus } from '../../services/calendarService';
+import calendarService, {
+  BusyCalendarChoice,
+  BusyCalendarSettings,
+  CalendarInfo,
+  CalendarConnectionStatus,
+  CalendarFeedStatus,
+  CalendarFeedLink,
+  CalendarSyncConflict,
+  ConflictPolicy,
+  SyncedFields,
+  WorkingHours,
+} from '../../services/calendarService';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function formatHour(time: string): string {
+  const [hour, minute] = time.split(':').map(Number);
+  return `${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+// Move an "HH:mm" time by whole hours, wrapping around midnight
+function shiftHour(time: string, hours: number): string {
+  const [hour, minute] = time.split(':').map(Number);
+  return `${String((hour + hours + 24) % 24).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+function describeVersion(version: SyncedFields): string {
+  if (version.cancelled) return 'Cancelled';
+  const place = version.location ? ` · ${version.location}` : '';
+  return `${version.date} ${version.startTime}–${version.endTime}${place}`;
+}
 
 export default function CalendarSettingsScreen() {
   const navigation = useNavigation();
@@ -29,6 +65,14 @@ export default function CalendarSettingsScreen() {
   const [autoSync, setAutoSync] = useState(true);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingCalendars, setIsLoadingCalendars] = useState(false);
+  const [feedStatus, setFeedStatus] = useState<CalendarFeedStatus | null>(null);
+  const [feedLink, setFeedLink] = useState<CalendarFeedLink | null>(null);
+  const [isUpdatingFeed, setIsUpdatingFeed] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [conflicts, setConflicts] = useState<CalendarSyncConflict[]>([]);
+  const [busyCalendars, setBusyCalendars] = useState<BusyCalendarSettings>({ account: [], device: [] });
+  const [isSavingBusyCalendars, setIsSavingBusyCalendars] = useState(false);
+  const [workingHours, setWorkingHours] = useState<WorkingHours | null>(null);
 
   useEffect(() => {
     loadSettings();
@@ -42,9 +86,13 @@ export default function CalendarSettingsScreen() {
 
       if (status.connected) {
         await loadGoogleCalendars();
+        setConflicts(await calendarService.getSyncConflicts());
       }
 
       await loadDeviceCalendars();
+      await loadBusyCalendars();
+      setWorkingHours(await calendarService.getWorkingHours());
+      setFeedStatus(await calendarService.getFeedStatus());
     } catch (error) {
       console.error('Failed to load calendar settings:', error);
     } finally {
@@ -85,6 +133,72 @@ export default function CalendarSettingsScreen() {
     }
   };
 
+  const loadBusyCalendars = async () => {
+    try {
+      const settings = await calendarService.getBusyCalendars();
+      setBusyCalendars(settings);
+      // Keep device busy time current while the settings are open
+      calendarService.uploadDeviceBusyTime(settings.device.map((calendar) => calendar.calendarId)).catch((error) => {
+        console.error('Failed to upload device busy time:', error);
+      });
+    } catch (error) {
+      console.error('Failed to load busy calendars:', error);
+    }
+  };
+
+  const saveBusyCalendars = async (account: BusyCalendarChoice[], device: BusyCalendarChoice[]) => {
+    try {
+      setIsSavingBusyCalendars(true);
+      setBusyCalendars(await calendarService.updateBusyCalendars({ account, device }));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save which calendars count as busy');
+    } finally {
+      setIsSavingBusyCalendars(false);
+    }
+  };
+
+  const handleToggleAccountBusy = (calendarId: string, selected: boolean) => {
+    const account = busyCalendars.account
+      .filter((calendar) => (calendar.calendarId === calendarId ? selected : calendar.selected))
+      .map(({ calendarId: id, name }) => ({ calendarId: id, name }));
+    const device = busyCalendars.device.map(({ calendarId: id, name }) => ({ calendarId: id, name }));
+    saveBusyCalendars(account, device);
+  };
+
+  const handleToggleDeviceBusy = (calendar: CalendarInfo, selected: boolean) => {
+    const account = busyCalendars.account
+      .filter((accountCalendar) => accountCalendar.selected)
+      .map(({ calendarId, name }) => ({ calendarId, name }));
+    const device = busyCalendars.device
+      .filter((deviceCalendar) => deviceCalendar.calendarId !== calendar.id)
+      .map(({ calendarId, name }) => ({ calendarId, name }));
+    if (selected) {
+      device.push({ calendarId: calendar.id, name: calendar.title });
+    }
+    saveBusyCalendars(account, device);
+  };
+
+  const saveWorkingHours = async (next: WorkingHours) => {
+    const previous = workingHours;
+    setWorkingHours(next);
+    try {
+      setWorkingHours(await calendarService.updateWorkingHours(next));
+    } catch (error) {
+      setWorkingHours(previous);
+      Alert.alert('Error', 'Failed to save your available hours');
+    }
+  };
+
+  const handleToggleWorkingDay = (day: number) => {
+    if (!workingHours) return;
+    const days = workingHours.days.includes(day)
+      ? workingHours.days.filter((d) => d !== day)
+      : [...workingHours.days, day].sort((a, b) => a - b);
+    // At least one day has to stay available
+    if (days.length === 0) return;
+    saveWorkingHours({ ...workingHours, days });
+  };
+
   const handleConnect = async () => {
     await loadSettings();
   };
@@ -93,6 +207,7 @@ export default function CalendarSettingsScreen() {
     setConnectionStatus({ connected: false });
     setCalendars([]);
     setSelectedCalendarId(null);
+    setBusyCalendars({ ...busyCalendars, account: [] });
   };
 
   const handleSelectCalendar = (calendarId: string) => {
@@ -101,6 +216,45 @@ export default function CalendarSettingsScreen() {
     Alert.alert('Success', 'Calendar preference saved');
   };
 
+  const handleSyncNow = async () => {
+    try {
+      setIsSyncing(true);
+      const run = await calendarService.runSync();
+      const status = await calendarService.getConnectionStatus();
+      setConnectionStatus(status);
+      setConflicts(await calendarService.getSyncConflicts());
+      Alert.alert(
+        'Sync Complete',
+        `${run.pulled} updated from Google, ${run.pushed} sent to Google` +
+          (run.conflicts ? `, ${run.conflicts} need your choice` : '')
+      );
+    } catch (error) {
+      Alert.alert('Error', 'Failed to sync calendar');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleConflictPolicyChange = async (value: string) => {
+    const previous = connectionStatus.conflictPolicy;
+    setConnectionStatus({ ...connectionStatus, conflictPolicy: value as ConflictPolicy });
+    try {
+      await calendarService.updateConflictPolicy(value as ConflictPolicy);
+    } catch (error) {
+      setConnectionStatus({ ...connectionStatus, conflictPolicy: previous });
+      Alert.alert('Error', 'Failed to save sync preference');
+    }
+  };
+
+  const handleResolveConflict = async (conflictId: string, resolution: 'SOCAP_WINS' | 'GOOGLE_WINS') => {
+    try {
+      await calendarService.resolveSyncConflict(conflictId, resolution);
+      setConflicts(conflicts.filter((conflict) => conflict.id !== conflictId));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to resolve conflict');
+    }
+  };
+
   const handleRequestDevicePermissions = async () => {
     const granted = await calendarService.requestPermissions();
     if (granted) {
@@ -111,6 +265,76 @@ export default function CalendarSettingsScreen() {
     }
   };
 
+  const createOrRotateFeed = async () => {
+    try {
+      setIsUpdatingFeed(true);
+      const link = await calendarService.rotateFeed();
+      setFeedLink(link);
+      setFeedStatus(await calendarService.getFeedStatus());
+    } catch (error) {
+      Alert.alert('Error', 'Failed to create calendar feed link');
+    } finally {
+      setIsUpdatingFeed(false);
+    }
+  };
+
+  const handleRotateFeed = () => {
+    if (!feedStatus?.enabled) {
+      createOrRotateFeed();
+      return;
+    }
+
+    Alert.alert(
+      'Reset Feed Link',
+      'Calendars subscribed with the current link will stop updating. You will need to subscribe again with the new link.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: createOrRotateFeed },
+      ]
+    );
+  };
+
+  const handleRevokeFeed = () => {
+    Alert.alert(
+      'Turn Off Feed',
+      'Calendars subscribed to this feed will stop receiving SoCap events and birthdays.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setIsUpdatingFeed(true);
+              await calendarService.revokeFeed();
+              setFeedLink(null);
+              setFeedStatus(await calendarService.getFeedStatus());
+            } catch (error) {
+              Alert.alert('Error', 'Failed to turn off calendar feed');
+            } finally {
+              setIsUpdatingFeed(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCopyFeedLink = async () => {
+    if (!feedLink) return;
+    await Clipboard.setStringAsync(feedLink.url);
+    Alert.alert('Copied', 'Feed link copied to clipboard');
+  };
+
+  const handleShareFeedLink = async () => {
+    if (!feedLink) return;
+    try {
+      await Share.share({ message: feedLink.webcalUrl });
+    } catch (error) {
+      console.error('Failed to share feed link:', error);
+    }
+  };
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -122,9 +346,9 @@ export default function CalendarSettingsScreen() {
 
   return (
     <ScrollView style={styles.container}>
-      {/* Google Calendar Connection */}
+      {/* Calendar Account Connection */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Google Calendar</Text>
+        <Text style={styles.sectionTitle}>Calendar Account</Text>
         <CalendarConnectionCard
           onConnect={handleConnect}
           onDisconnect={handleDisconnect}
@@ -143,7 +367,59 @@ export default function CalendarSettingsScreen() {
               <Switch value={autoSync} onValueChange={setAutoSync} />
             )}
           />
-          <Divider />
+          {connectionStatus.twoWaySync && (
+            <>
+              <Divider />
+              <List.Item
+                title="Sync Now"
+                description={
+                  connectionStatus.lastSyncAt
+                    ? `Last synced ${new Date(connectionStatus.lastSyncAt).toLocaleString()}`
+                    : 'Bring in changes made in Google Calendar'
+                }
+                left={(props) => <List.Icon {...props} icon="calendar-sync" />}
+                right={() => (isSyncing ? <ActivityIndicator size="small" /> : null)}
+                onPress={handleSyncNow}
+                disabled={isSyncing}
+              />
+              <Divider />
+              <Text style={styles.policyLabel}>When an event changes in both places</Text>
+              <SegmentedButtons
+                value={connectionStatus.conflictPolicy ?? 'ASK'}
+                onValueChange={handleConflictPolicyChange}
+                buttons={[
+                  { value: 'SOCAP_WINS', label: 'Keep SoCap' },
+                  { value: 'GOOGLE_WINS', label: 'Keep Google' },
+                  { value: 'ASK', label: 'Ask me' },
+                ]}
+              />
+            </>
+          )}
+        </View>
+      )}
+
+      {/* Sync Conflicts */}
+      {connectionStatus.connected && conflicts.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Needs Your Choice</Text>
+          <Text style={styles.sectionSubtitle}>
+            These events were changed in both SoCap and Google Calendar
+          </Text>
+          {conflicts.map((conflict) => (
+            <View key={conflict.id} style={styles.conflictCard}>
+              <Text style={styles.calendarItemTitle}>{conflict.event.title}</Text>
+              <Text style={styles.conflictVersion}>SoCap: {describeVersion(conflict.socapVersion)}</Text>
+              <Text style={styles.conflictVersion}>Google: {describeVersion(conflict.googleVersion)}</Text>
+              <View style={styles.conflictActions}>
+                <Button mode="outlined" compact onPress={() => handleResolveConflict(conflict.id, 'SOCAP_WINS')}>
+                  Keep SoCap
+                </Button>
+                <Button mode="outlined" compact onPress={() => handleResolveConflict(conflict.id, 'GOOGLE_WINS')}>
+                  Keep Google
+                </Button>
+              </View>
+            </View>
+          ))}
         </View>
       )}
 
@@ -192,6 +468,87 @@ export default function CalendarSettingsScreen() {
         </View>
       )}
 
+      {/* Calendars That Count Toward Busy Time */}
+      {(busyCalendars.account.length > 0 || deviceCalendars.length > 0) && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Count Toward Busy Time</Text>
+          <Text style={styles.sectionSubtitle}>
+            Availability searches and conflict checks avoid events on these calendars
+          </Text>
+          {busyCalendars.account.map((calendar) => (
+            <List.Item
+              key={`account-${calendar.calendarId}`}
+              title={calendar.name}
+              description={calendar.primary ? 'Primary calendar' : undefined}
+              left={(props) => <List.Icon {...props} icon="calendar-account" color={calendar.color ?? undefined} />}
+              right={() => (
+                <Switch
+                  value={calendar.selected}
+                  disabled={isSavingBusyCalendars}
+                  onValueChange={(value) => handleToggleAccountBusy(calendar.calendarId, value)}
+                />
+              )}
+            />
+          ))}
+          {deviceCalendars.map((calendar) => (
+            <List.Item
+              key={`device-${calendar.id}`}
+              title={calendar.title}
+              description={calendar.source ? `On this device · ${calendar.source}` : 'On this device'}
+              left={(props) => <List.Icon {...props} icon="cellphone" color={calendar.color} />}
+              right={() => (
+                <Switch
+                  value={busyCalendars.device.some((busy) => busy.calendarId === calendar.id)}
+                  disabled={isSavingBusyCalendars}
+                  onValueChange={(value) => handleToggleDeviceBusy(calendar, value)}
+                />
+              )}
+            />
+          ))}
+        </View>
+      )}
+
+      {/* Working Hours */}
+      {workingHours && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Available Hours</Text>
+          <Text style={styles.sectionSubtitle}>
+            Availability searches only suggest times within these hours, in your timezone
+          </Text>
+          {(['start', 'end'] as const).map((field) => (
+            <View key={field} style={styles.hoursRow}>
+              <Text style={styles.hoursLabel}>{field === 'start' ? 'From' : 'Until'}</Text>
+              <View style={styles.hoursStepper}>
+                <IconButton
+                  icon="minus"
+                  size={18}
+                  onPress={() => saveWorkingHours({ ...workingHours, [field]: shiftHour(workingHours[field], -1) })}
+                />
+                <Text style={styles.hoursValue}>{formatHour(workingHours[field])}</Text>
+                <IconButton
+                  icon="plus"
+                  size={18}
+                  onPress={() => saveWorkingHours({ ...workingHours, [field]: shiftHour(workingHours[field], 1) })}
+                />
+              </View>
+            </View>
+          ))}
+          <View style={styles.dayChips}>
+            {DAY_LABELS.map((label, day) => (
+              <Chip
+                key={label}
+                compact
+                selected={workingHours.days.includes(day)}
+                showSelectedCheck={false}
+                onPress={() => handleToggleWorkingDay(day)}
+              >
+                {label}
+              </Chip>
+            ))}
+          </View>
+        </View>
+      )}
+
       {/* Device Calendar */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Device Calendar</Text>
@@ -248,6 +605,70 @@ export default function CalendarSettingsScreen() {
         )}
       </View>
 
+      {/* Calendar Feed Subscription */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Calendar Feed</Text>
+        <Text style={styles.sectionSubtitle}>
+          Subscribe from any calendar app to see your SoCap events, birthdays and anniversaries
+        </Text>
+
+        {feedLink && (
+          <View style={styles.feedLinkCard}>
+            <Text style={styles.feedLinkText} numberOfLines={2} selectable>
+              {feedLink.url}
+            </Text>
+            <Text style={styles.feedLinkHint}>
+              Keep this link private. It is only shown now; reset it to get a new one.
+            </Text>
+            <View style={styles.feedLinkActions}>
+              <TouchableOpacity style={styles.feedLinkAction} onPress={handleCopyFeedLink}>
+                <Ionicons name="copy-outline" size={18} color="#007AFF" />
+                <Text style={styles.feedLinkActionText}>Copy</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.feedLinkAction} onPress={handleShareFeedLink}>
+                <Ionicons name="share-outline" size={18} color="#007AFF" />
+                <Text style={styles.feedLinkActionText}>Share</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {feedStatus?.enabled && !feedLink && (
+          <Text style={styles.feedStatusText}>
+            Feed is on
+            {feedStatus.lastAccessedAt
+              ? ` · last checked ${new Date(feedStatus.lastAccessedAt).toLocaleString()}`
+              : ' · not subscribed yet'}
+          </Text>
+        )}
+
+        <List.Item
+          title={feedStatus?.enabled ? 'Reset Feed Link' : 'Create Feed Link'}
+          description={
+            feedStatus?.enabled
+              ? 'Get a new link; the current one stops working'
+              : 'Generate a private subscription link'
+          }
+          left={(props) => <List.Icon {...props} icon={feedStatus?.enabled ? 'refresh' : 'link-variant'} />}
+          right={() => (isUpdatingFeed ? <ActivityIndicator size="small" /> : null)}
+          onPress={handleRotateFeed}
+          disabled={isUpdatingFeed}
+        />
+        {feedStatus?.enabled && (
+          <>
+            <Divider />
+            <List.Item
+              title="Turn Off Feed"
+              titleStyle={styles.destructiveText}
+              description="Subscribed calendars stop updating"
+              left={(props) => <List.Icon {...props} icon="link-variant-off" color="#e53e3e" />}
+              onPress={handleRevokeFeed}
+              disabled={isUpdatingFeed}
+            />
+          </>
+        )}
+      </View>
+
       {/* Info Section */}
       <View style={styles.infoSection}>
         <Ionicons name="information-circle-outline" size={20} color="#666" />
@@ -290,6 +711,31 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 12,
   },
+  hoursRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  hoursLabel: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  hoursStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  hoursValue: {
+    minWidth: 72,
+    textAlign: 'center',
+    fontSize: 15,
+    color: '#1a1a1a',
+  },
+  dayChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
   loadingCalendars: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -395,6 +841,71 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  feedLinkCard: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    marginBottom: 8,
+  },
+  feedLinkText: {
+    fontSize: 13,
+    color: '#1a1a1a',
+    fontFamily: 'monospace',
+  },
+  feedLinkHint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+  },
+  feedLinkActions: {
+    flexDirection: 'row',
+    gap: 24,
+    marginTop: 12,
+  },
+  feedLinkAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  feedLinkActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  feedStatusText: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  destructiveText: {
+    color: '#e53e3e',
+  },
+  policyLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  conflictCard: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    marginBottom: 8,
+  },
+  conflictVersion: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
   infoSection: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -19,11 +19,16 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { colors, spacing, radii, shadows, typography } from '../../theme/paperTheme';
+import aiService, { WritingStyleCategory, WritingStyleProfile } from '../../services/aiService';
 
-const WRITING_STYLES_KEY = '@writing_styles_v2';
+// Responses saved before the profile moved to the server; uploaded once, then removed
+const LEGACY_WRITING_STYLES_KEY = '@writing_styles_v2';
 
 type StyleType = 'close' | 'casual' | 'professional';
 
+const toCategory = (type: StyleType): WritingStyleCategory => type.toUpperCase() as WritingStyleCategory;
+const toStyleType = (category: WritingStyleCategory): StyleType => category.toLowerCase() as StyleType;
+
 interface PromptResponse {
   promptId: string;
   styleType: StyleType;
@@ -147,14 +152,39 @@ export default function WritingStyleScreen() {
     setDraftText(existing?.response || '');
   }, [selectedType, responses]);
 
+  const profileToResponses = (profile: WritingStyleProfile): PromptResponse[] =>
+    profile.categories.flatMap((category) =>
+      category.samples.map((sample) => ({
+        promptId: sample.promptId,
+        styleType: toStyleType(sample.category),
+        prompt: sample.prompt,
+        response: sample.response,
+        savedAt: sample.updatedAt,
+      }))
+    );
+
   const loadResponses = async () => {
     try {
-      const stored = await AsyncStorage.getItem(WRITING_STYLES_KEY);
-      if (stored) {
-        setResponses(JSON.parse(stored));
+      let profile = await aiService.getWritingStyle();
+
+      const legacy = await AsyncStorage.getItem(LEGACY_WRITING_STYLES_KEY);
+      if (legacy) {
+        const legacyResponses: PromptResponse[] = JSON.parse(legacy);
+        profile = await aiService.syncWritingStyle(
+          legacyResponses.map((r) => ({
+            promptId: r.promptId,
+            category: toCategory(r.styleType),
+            prompt: r.prompt,
+            response: r.response,
+          }))
+        );
+        await AsyncStorage.removeItem(LEGACY_WRITING_STYLES_KEY);
       }
+
+      setResponses(profileToResponses(profile));
     } catch (error) {
       console.error('Failed to load writing styles:', error);
+      Alert.alert('Error', 'Failed to load your writing style. Please try again later.');
     } finally {
       setLoading(false);
     }
@@ -177,19 +207,24 @@ export default function WritingStyleScreen() {
     setSaving(true);
     try {
       const prompt = PROMPTS[selectedType][currentPromptIndex];
-      const newResponse: PromptResponse = {
+      const saved = await aiService.saveWritingStyleSample({
         promptId: prompt.id,
-        styleType: selectedType,
+        category: toCategory(selectedType),
         prompt: prompt.context,
         response: draftText.trim(),
-        savedAt: new Date().toISOString(),
+      });
+      const newResponse: PromptResponse = {
+        promptId: saved.promptId,
+        styleType: selectedType,
+        prompt: saved.prompt,
+        response: saved.response,
+        savedAt: saved.updatedAt,
       };
 
       // Replace existing response for this prompt or add new
       const filtered = responses.filter((r) => r.promptId !== prompt.id);
       const updated = [...filtered, newResponse];
 
-      await AsyncStorage.setItem(WRITING_STYLES_KEY, JSON.stringify(updated));
       setResponses(updated);
       setDraftText('');
 
@@ -220,6 +255,52 @@ export default function WritingStyleScreen() {
     }
   };
 
+  const deleteResponse = () => {
+    const prompt = PROMPTS[selectedType][currentPromptIndex];
+    Alert.alert(
+      'Remove Response?',
+      'The AI will stop using this response to match your style.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await aiService.deleteWritingStyleSample(prompt.id);
+              setResponses((prev) => prev.filter((r) => r.promptId !== prompt.id));
+              setDraftText('');
+            } catch (error) {
+              Alert.alert('Error', 'Failed to remove your response. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const resetStyle = () => {
+    Alert.alert(
+      'Reset This Style?',
+      `The AI will forget everything it learned about how you write to ${STYLE_META[selectedType].label.toLowerCase()}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await aiService.clearWritingStyle(toCategory(selectedType));
+              setResponses((prev) => prev.filter((r) => r.styleType !== selectedType));
+            } catch (error) {
+              Alert.alert('Error', 'Failed to reset this style. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handlePromptNavigation = (index: number) => {
     setCurrentPromptIndex(index);
     const prompt = PROMPTS[selectedType][index];
@@ -299,6 +380,17 @@ export default function WritingStyleScreen() {
             style={s.progressBar}
           />
           <Text style={s.progressDescription}>{currentMeta.description}</Text>
+          {answeredCount > 0 && (
+            <Button
+              mode="text"
+              compact
+              onPress={resetStyle}
+              textColor={colors.error}
+              style={s.resetButton}
+            >
+              Reset this style
+            </Button>
+          )}
         </View>
 
         {/* Prompt Navigation Dots */}
@@ -370,6 +462,11 @@ export default function WritingStyleScreen() {
                 {draftText.length} characters
                 {draftText.length > 0 && draftText.length < 20 && ' (minimum 20)'}
               </Text>
+              {isPromptAnswered(currentPrompt.id) && (
+                <Button mode="text" compact onPress={deleteResponse} textColor={colors.error}>
+                  Remove
+                </Button>
+              )}
               <Button
                 mode="contained"
                 onPress={saveResponse}
@@ -486,6 +583,11 @@ const s = StyleSheet.create({
     color: colors.textSecondary,
     marginTop: spacing.xs,
   },
+  resetButton: {
+    alignSelf: 'flex-start',
+    marginTop: spacing.xs,
+    marginLeft: -spacing.sm,
+  },
   dotsContainer: {
     flexDirection: 'row',
     marginHorizontal: spacing.lg,
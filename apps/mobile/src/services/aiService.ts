@@ -68,11 +68,19 @@ export interface RelationshipTipResponse {
   cached: boolean;
 }
 
+export interface QuotaStatus {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
 export interface UsageStats {
   today: number;
   limit: number;
   remaining: number;
   resetAt: string;
+  features?: Record<string, QuotaStatus>;
+  tokens?: QuotaStatus & { resetAt: string };
 }
 
 export interface InsightHistoryItem {
@@ -88,6 +96,41 @@ export interface FeedbackData {
   insightId: string;
   wasUsed: boolean;
   feedback?: string;
+  // Which suggestion was picked, e.g. the message tone
+  selectedOption?: string;
+  // The text that was actually sent, after any edits
+  usedContent?: string;
+}
+
+export type FeedbackDetails = Pick<FeedbackData, 'selectedOption' | 'usedContent'>;
+
+export type WritingStyleCategory = 'CLOSE' | 'CASUAL' | 'PROFESSIONAL';
+
+export interface WritingStyleSample {
+  id: string;
+  promptId: string;
+  category: WritingStyleCategory;
+  prompt: string;
+  response: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WritingStyleSampleInput {
+  promptId: string;
+  category: WritingStyleCategory;
+  prompt: string;
+  response: string;
+}
+
+export interface WritingStyleProfile {
+  categories: Array<{
+    category: WritingStyleCategory;
+    sampleCount: number;
+    updatedAt: string | null;
+    samples: WritingStyleSample[];
+  }>;
+  totalSamples: number;
 }
 
 // Fallback responses for when API fails or rate limit exceeded
@@ -297,6 +340,48 @@ class AIService {
       return [];
     }
   }
+
+  /**
+   * Get the writing style samples the AI uses to match the user's voice
+   */
+  async getWritingStyle(): Promise<WritingStyleProfile> {
+    const response = await apiClient.get<WritingStyleProfile>('/ai/writing-style');
+    return response.data;
+  }
+
+  /**
+   * Upload samples saved on this device; the server keeps its own copy of any prompt it already has
+   */
+  async syncWritingStyle(samples: WritingStyleSampleInput[]): Promise<WritingStyleProfile> {
+    const response = await apiClient.post<WritingStyleProfile>('/ai/writing-style/sync', { samples });
+    return response.data;
+  }
+
+  /**
+   * Add or edit the sample for one prompt
+   */
+  async saveWritingStyleSample(sample: WritingStyleSampleInput): Promise<WritingStyleSample> {
+    const { promptId, ...body } = sample;
+    const response = await apiClient.put<WritingStyleSample>(
+      `/ai/writing-style/samples/${encodeURIComponent(promptId)}`,
+      body
+    );
+    return response.data;
+  }
+
+  /**
+   * Forget the sample for one prompt
+   */
+  async deleteWritingStyleSample(promptId: string): Promise<void> {
+    await apiClient.delete(`/ai/writing-style/samples/${encodeURIComponent(promptId)}`);
+  }
+
+  /**
+   * Forget a whole category, or everything
+   */
+  async clearWritingStyle(category?: WritingStyleCategory): Promise<void> {
+    await apiClient.delete('/ai/writing-style', { params: category ? { category } : undefined });
+  }
 }
 
 export const aiService = new AIService();
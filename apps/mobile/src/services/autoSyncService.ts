@@ -20,14 +20,26 @@ export interface AutoSyncInteraction {
   date: string;
   duration?: number;
   direction?: 'incoming' | 'outgoing';
+  source?: 'CALL_LOG' | 'QUICK_LOG';
   externalId?: string;
 }
 
+export interface SyncItemResult {
+  index: number;
+  externalId?: string;
+  status: 'created' | 'duplicate' | 'skipped' | 'failed';
+  interactionId?: string;
+  error?: string;
+}
+
 export interface SyncResult {
   success: boolean;
   created: number;
   skipped: number;
+  duplicates?: number;
+  failed?: number;
   errors: string[];
+  results?: SyncItemResult[];
 }
 
 export interface PendingCallLog {
@@ -39,6 +51,10 @@ export interface PendingCallLog {
 }
 
 const LAST_SYNC_KEY = 'last_call_log_sync';
+// Date of the oldest call the server failed to log, so the next sync goes back for it
+const RETRY_FROM_KEY = 'call_log_retry_from';
+// The server takes at most 500 per request
+const SYNC_BATCH_SIZE = 200;
 const PENDING_CALL_KEY = 'pending_call_log';
 const QUICK_LOG_ENABLED_KEY = 'quick_log_enabled';
 
@@ -127,11 +143,14 @@ class AutoSyncService {
    */
   async syncCallLogs(): Promise<SyncResult> {
     try {
-      // Get last sync time
+      // Get last sync time, going further back if earlier calls failed to log
       const lastSync = await this.getLastSyncTime();
-      
+      const retryFrom = await secureStore.getItem(RETRY_FROM_KEY);
+      const since =
+        retryFrom && (!lastSync || new Date(retryFrom) < lastSync) ? new Date(retryFrom) : lastSync;
+
       // Get call logs since last sync
-      const callLogs = await this.getCallLogs(lastSync || undefined);
+      const callLogs = await this.getCallLogs(since || undefined);
 
       if (callLogs.length === 0) {
         return {
@@ -150,18 +169,46 @@ class AutoSyncService {
         date: log.date,
         duration: log.duration,
         direction: log.type === 'outgoing' ? 'outgoing' : 'incoming',
+        source: 'CALL_LOG',
         externalId: log.id,
       }));
 
-      // Send to server
-      const response = await apiClient.post<SyncResult>('/contacts/sync/interactions', {
-        interactions,
-      });
+      // Send to server in batches; calls already logged come back as duplicates,
+      // so resending after a failure is safe
+      const oldestOf = (dates: string[]) => dates.reduce((a, b) => (new Date(a) < new Date(b) ? a : b));
+      const result = { success: true, created: 0, skipped: 0, duplicates: 0, failed: 0, errors: [] as string[] };
+      const failedDates: string[] = [];
+
+      // Until the server has answered for every batch, the whole range needs another look
+      await secureStore.setItem(RETRY_FROM_KEY, oldestOf(interactions.map((interaction) => interaction.date)));
+
+      for (let start = 0; start < interactions.length; start += SYNC_BATCH_SIZE) {
+        const batch = interactions.slice(start, start + SYNC_BATCH_SIZE);
+        const response = await apiClient.post<SyncResult>('/contacts/sync/interactions', {
+          interactions: batch,
+        });
+
+        const { data } = response;
+        result.created += data.created;
+        result.skipped += data.skipped;
+        result.duplicates += data.duplicates ?? 0;
+        result.failed += data.failed ?? 0;
+        result.errors.push(...data.errors);
+        data.results
+          ?.filter((item) => item.status === 'failed')
+          .forEach((item) => failedDates.push(batch[item.index].date));
+      }
 
-      // Update local sync time
-      await secureStore.setItem(LAST_SYNC_KEY, new Date().toISOString());
+      if (failedDates.length > 0) {
+        result.success = false;
+        await secureStore.setItem(RETRY_FROM_KEY, oldestOf(failedDates));
+      } else {
+        await secureStore.deleteItem(RETRY_FROM_KEY);
+        // Update local sync time
+        await secureStore.setItem(LAST_SYNC_KEY, new Date().toISOString());
+      }
 
-      return response.data;
+      return result;
     } catch (error) {
       console.error('Call log sync error:', error);
       return {
@@ -204,18 +251,22 @@ class AutoSyncService {
   async quickLogCall(
     phoneNumber: string,
     duration: number,
-    direction: 'incoming' | 'outgoing'
+    direction: 'incoming' | 'outgoing',
+    startedAt?: Date
   ): Promise<SyncResult> {
     try {
+      // Keyed on when the call started so logging the same call twice is a no-op
+      const callTime = startedAt ?? new Date();
       const response = await apiClient.post<SyncResult>('/contacts/sync/interactions', {
         interactions: [
           {
             contactPhone: phoneNumber,
             type: 'CALL',
-            date: new Date().toISOString(),
+            date: callTime.toISOString(),
             duration,
             direction,
-            externalId: `quick-${Date.now()}`,
+            source: 'QUICK_LOG',
+            externalId: `quick-${callTime.getTime()}`,
           },
         ],
       });
@@ -374,7 +425,8 @@ class AutoSyncService {
               const result = await this.quickLogCall(
                 pendingCall.phoneNumber,
                 duration,
-                pendingCall.direction
+                pendingCall.direction,
+                new Date(pendingCall.startTime)
               );
               resolve(result.created > 0);
             },
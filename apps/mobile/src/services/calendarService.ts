@@ -22,6 +22,19 @@ export interface AvailabilitySlot {
   end: string;
   duration: number; // in minutes
   score?: number; // convenience score (0-100)
+  reasons?: string[];
+  // How the slot lands for each participant, in their own timezone
+  participants?: ParticipantSlotScore[];
+}
+
+export interface ParticipantSlotScore {
+  userId: string;
+  name: string;
+  timeZone: string;
+  localStart: string; // "YYYY-MM-DDTHH:mm" in timeZone
+  localEnd: string;
+  score: number;
+  reasons: string[];
 }
 
 export interface AvailabilityParams {
@@ -44,13 +57,103 @@ export interface Conflict {
   start: string;
   end: string;
   calendarId?: string;
+  // Which calendar the conflicting time is on
+  calendarName?: string;
+  source?: 'account' | 'device';
+}
+
+export interface BusyCalendarChoice {
+  calendarId: string;
+  name: string;
+}
+
+export interface BusyCalendarSettings {
+  account: Array<BusyCalendarChoice & { color: string | null; primary: boolean; selected: boolean }>;
+  device: Array<BusyCalendarChoice & { lastUploadedAt: string | null }>;
 }
 
+// Hours the user can be scheduled, in their timezone; days are 0-6 from Sunday
+export interface WorkingHours {
+  start: string; // "HH:mm"
+  end: string;
+  days: number[];
+}
+
+// How far ahead device busy time is uploaded
+const DEVICE_BUSY_DAYS = 60;
+
+export type ConflictPolicy = 'SOCAP_WINS' | 'GOOGLE_WINS' | 'ASK';
+
+export type CalendarProvider = 'google' | 'outlook' | 'apple' | 'caldav';
+
 export interface CalendarConnectionStatus {
   connected: boolean;
-  provider?: 'google' | 'device';
+  provider?: CalendarProvider | 'device';
+  // Account login for iCloud and CalDAV
+  username?: string | null;
   lastSyncAt?: string;
   primaryCalendarId?: string;
+  conflictPolicy?: ConflictPolicy;
+  // Only Google Calendar syncs changes back into events
+  twoWaySync?: boolean;
+}
+
+export interface CalDAVCredentials {
+  // Required for generic CalDAV; iCloud uses its own server
+  serverUrl?: string;
+  username: string;
+  // An app-specific password, not the account password
+  password: string;
+}
+
+export type SyncedField = 'date' | 'startTime' | 'endTime' | 'location' | 'cancelled';
+
+export interface SyncedFields {
+  date: string;
+  startTime: string;
+  endTime: string;
+  location: string | null;
+  cancelled: boolean;
+}
+
+export interface CalendarSyncRun {
+  id: string;
+  status: 'RUNNING' | 'SUCCESS' | 'PARTIAL' | 'FAILED';
+  fullSync: boolean;
+  pulled: number;
+  pushed: number;
+  conflicts: number;
+  changes: Array<{
+    eventId: string;
+    title: string;
+    action: 'pulled' | 'pushed' | 'conflict';
+    fields: SyncedField[];
+  }>;
+  errors: string[];
+  startedAt: string;
+  completedAt: string | null;
+}
+
+export interface CalendarSyncConflict {
+  id: string;
+  eventId: string;
+  socapVersion: SyncedFields;
+  googleVersion: SyncedFields;
+  createdAt: string;
+  event: { id: string; title: string; date: string; timezone: string };
+}
+
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  createdAt: string | null;
+  rotatedAt: string | null;
+  lastAccessedAt: string | null;
+}
+
+export interface CalendarFeedLink {
+  url: string;
+  webcalUrl: string;
+  createdAt: string;
 }
 
 /**
@@ -81,9 +184,32 @@ class CalendarService {
    * Initiate Google Calendar OAuth flow
    */
   async connectGoogleCalendar(): Promise<void> {
+    return this.connectWithOAuth('google');
+  }
+
+  /**
+   * Initiate Outlook / Microsoft 365 Calendar OAuth flow
+   */
+  async connectOutlookCalendar(): Promise<void> {
+    return this.connectWithOAuth('outlook');
+  }
+
+  /**
+   * Connect iCloud or another CalDAV server (Fastmail, Nextcloud) with an app password
+   */
+  async connectCalDAV(provider: 'apple' | 'caldav', credentials: CalDAVCredentials): Promise<void> {
+    try {
+      await apiClient.post('/calendar/connect/caldav', { provider, ...credentials });
+    } catch (error: any) {
+      console.error('CalDAV connection error:', error);
+      throw new Error(error.response?.data?.message || error.response?.data?.error || error.message || 'Failed to connect calendar');
+    }
+  }
+
+  private async connectWithOAuth(provider: 'google' | 'outlook'): Promise<void> {
     try {
       // Get OAuth URL from backend
-      const response = await apiClient.get('/calendar/auth/url');
+      const response = await apiClient.get('/calendar/auth/url', { params: { provider } });
       const { authUrl } = response.data;
 
       // Open OAuth URL in browser
@@ -109,13 +235,13 @@ class CalendarService {
         throw new Error('OAuth flow cancelled or failed');
       }
     } catch (error) {
-      console.error('Google Calendar connection error:', error);
+      console.error(`${provider} calendar connection error:`, error);
       throw error;
     }
   }
 
   /**
-   * Disconnect Google Calendar
+   * Disconnect the connected calendar
    */
   async disconnectCalendar(): Promise<void> {
     try {
@@ -206,8 +332,115 @@ class CalendarService {
     }
   }
 
+  // ==================== Busy Calendars ====================
+
+  /**
+   * Get the calendars that count toward busy time in availability searches
+   */
+  async getBusyCalendars(): Promise<BusyCalendarSettings> {
+    try {
+      const response = await apiClient.get('/calendar/busy-calendars');
+      return { account: response.data.account, device: response.data.device };
+    } catch (error) {
+      console.error('Get busy calendars error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Choose the calendars that count toward busy time
+   * Uploads busy time from the chosen device calendars right away.
+   */
+  async updateBusyCalendars(choices: {
+    account: BusyCalendarChoice[];
+    device: BusyCalendarChoice[];
+  }): Promise<BusyCalendarSettings> {
+    try {
+      const response = await apiClient.put('/calendar/busy-calendars', choices);
+      if (choices.device.length > 0) {
+        await this.uploadDeviceBusyTime(choices.device.map((calendar) => calendar.calendarId));
+      }
+      return { account: response.data.account, device: response.data.device };
+    } catch (error) {
+      console.error('Update busy calendars error:', error);
+      throw error;
+    }
+  }
+
+  // ==================== Working Hours ====================
+
   /**
-   * Sync app event to Google Calendar
+   * Get the hours availability searches may suggest for the user
+   */
+  async getWorkingHours(): Promise<WorkingHours> {
+    try {
+      const response = await apiClient.get('/auth/profile');
+      return response.data.user.workingHours;
+    } catch (error) {
+      console.error('Get working hours error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the user's working hours; null goes back to the default
+   */
+  async updateWorkingHours(workingHours: WorkingHours | null): Promise<WorkingHours> {
+    try {
+      const response = await apiClient.put('/auth/profile', { workingHours });
+      return response.data.user.workingHours;
+    } catch (error) {
+      console.error('Update working hours error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send busy time from device calendars for the coming weeks
+   * Only start and end times leave the device. All-day and free events are
+   * skipped, as they don't usually block plans.
+   */
+  async uploadDeviceBusyTime(calendarIds: string[]): Promise<void> {
+    if (calendarIds.length === 0 || !(await this.hasPermissions())) return;
+
+    const timeMin = new Date();
+    const timeMax = new Date(timeMin.getTime() + DEVICE_BUSY_DAYS * 24 * 60 * 60 * 1000);
+    const blocks: Array<{ calendarId: string; start: string; end: string }> = [];
+
+    for (const calendarId of calendarIds) {
+      const events = await this.getDeviceEvents(calendarId, timeMin, timeMax);
+      for (const event of events) {
+        if (event.allDay || event.availability === Calendar.Availability.FREE) continue;
+        blocks.push({
+          calendarId,
+          start: new Date(event.startDate).toISOString(),
+          end: new Date(event.endDate).toISOString(),
+        });
+      }
+    }
+
+    await apiClient.put('/calendar/busy-calendars/device-blocks', {
+      timeMin: timeMin.toISOString(),
+      timeMax: timeMax.toISOString(),
+      blocks,
+    });
+  }
+
+  /**
+   * Refresh uploaded device busy time for the calendars already chosen
+   * Best effort: availability still works from what was uploaded before.
+   */
+  async refreshDeviceBusyTime(): Promise<void> {
+    try {
+      const { device } = await this.getBusyCalendars();
+      await this.uploadDeviceBusyTime(device.map((calendar) => calendar.calendarId));
+    } catch (error) {
+      console.error('Refresh device busy time error:', error);
+    }
+  }
+
+  /**
+   * Sync app event to the connected calendar
    */
   async syncEventToCalendar(eventId: string): Promise<string> {
     try {
@@ -231,6 +464,113 @@ class CalendarService {
     }
   }
 
+  // ==================== Two-way Sync ====================
+
+  /**
+   * Pull changes made in Google Calendar and push changes made in SoCap
+   */
+  async runSync(): Promise<CalendarSyncRun> {
+    try {
+      const response = await apiClient.post('/calendar/sync/run');
+      return response.data.run;
+    } catch (error) {
+      console.error('Run calendar sync error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get recent sync runs, newest first
+   */
+  async getSyncLog(limit?: number): Promise<CalendarSyncRun[]> {
+    try {
+      const response = await apiClient.get('/calendar/sync/log', { params: { limit } });
+      return response.data.runs;
+    } catch (error) {
+      console.error('Get sync log error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get events changed in both SoCap and Google
+   */
+  async getSyncConflicts(): Promise<CalendarSyncConflict[]> {
+    try {
+      const response = await apiClient.get('/calendar/sync/conflicts');
+      return response.data.conflicts;
+    } catch (error) {
+      console.error('Get sync conflicts error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Keep one side of a conflicting event
+   */
+  async resolveSyncConflict(conflictId: string, resolution: Exclude<ConflictPolicy, 'ASK'>): Promise<void> {
+    try {
+      await apiClient.post(`/calendar/sync/conflicts/${conflictId}/resolve`, { resolution });
+    } catch (error) {
+      console.error('Resolve sync conflict error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set how events changed on both sides are settled
+   */
+  async updateConflictPolicy(conflictPolicy: ConflictPolicy): Promise<void> {
+    try {
+      await apiClient.put('/calendar/sync/settings', { conflictPolicy });
+    } catch (error) {
+      console.error('Update sync settings error:', error);
+      throw error;
+    }
+  }
+
+  // ==================== iCalendar Feed ====================
+
+  /**
+   * Get the status of the user's calendar feed subscription
+   */
+  async getFeedStatus(): Promise<CalendarFeedStatus> {
+    try {
+      const response = await apiClient.get('/calendar/feed');
+      return response.data;
+    } catch (error) {
+      console.error('Get calendar feed status error:', error);
+      return { enabled: false, createdAt: null, rotatedAt: null, lastAccessedAt: null };
+    }
+  }
+
+  /**
+   * Create the feed URL, or replace it so the old one stops working
+   * The URL is only returned here; the server keeps a hash of it.
+   */
+  async rotateFeed(): Promise<CalendarFeedLink> {
+    try {
+      const response = await apiClient.post('/calendar/feed/rotate');
+      const { url, webcalUrl, createdAt } = response.data;
+      return { url, webcalUrl, createdAt };
+    } catch (error) {
+      console.error('Rotate calendar feed error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke the feed URL
+   */
+  async revokeFeed(): Promise<void> {
+    try {
+      await apiClient.delete('/calendar/feed');
+    } catch (error) {
+      console.error('Revoke calendar feed error:', error);
+      throw error;
+    }
+  }
+
   // ==================== Device Calendar (Expo Calendar) ====================
 
   /**
@@ -12,7 +12,7 @@ export interface Contact {
   birthday?: string | null;
   anniversary?: string | null;
   notes?: string | null;
-  importSource: 'PHONE' | 'MANUAL' | 'SOCIAL';
+  importSource: 'PHONE' | 'MANUAL' | 'SOCIAL' | 'FILE';
   isDeleted: boolean;
   createdAt: string;
   updatedAt: string;
@@ -38,9 +38,18 @@ export interface Interaction {
   duration?: number | null;
   notes?: string | null;
   sentiment?: 'POSITIVE' | 'NEUTRAL' | 'NEGATIVE' | null;
+  // True when sentiment was read from the notes
+  sentimentInferred?: boolean;
+  topics?: string[];
   createdAt: string;
 }
 
+export interface SharedInterestSuggestion {
+  topic: string;
+  mentions: number;
+  lastMentioned: string;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
@@ -54,7 +63,7 @@ export interface PaginatedResponse<T> {
 export interface ContactFilters {
   search?: string;
   tier?: 'INNER_CIRCLE' | 'CLOSE_FRIENDS' | 'FRIENDS' | 'ACQUAINTANCES' | 'PROFESSIONAL';
-  importSource?: 'PHONE' | 'MANUAL' | 'SOCIAL';
+  importSource?: 'PHONE' | 'MANUAL' | 'SOCIAL' | 'FILE';
   sortBy?: 'name' | 'createdAt' | 'lastContactDate';
   sortOrder?: 'asc' | 'desc';
 }
@@ -74,7 +83,7 @@ export interface CreateContactData {
   anniversary?: string;
   notes?: string;
   importantEvents?: ImportantEvent[];
-  importSource: 'PHONE' | 'MANUAL' | 'SOCIAL';
+  importSource: 'PHONE' | 'MANUAL' | 'SOCIAL' | 'FILE';
 }
 
 export interface UpdateContactData {
@@ -87,7 +96,7 @@ export interface UpdateContactData {
   anniversary?: string;
   notes?: string;
   importantEvents?: ImportantEvent[];
-  importSource?: 'PHONE' | 'MANUAL' | 'SOCIAL';
+  importSource?: 'PHONE' | 'MANUAL' | 'SOCIAL' | 'FILE';
 }
 
 export interface UpdateRelationshipData {
@@ -105,6 +114,29 @@ export interface LogInteractionData {
   duration?: number;
   notes?: string;
   sentiment?: 'POSITIVE' | 'NEUTRAL' | 'NEGATIVE';
+  topics?: string[];
+  // Have the AI look for follow-ups in the notes
+  extractFollowUps?: boolean;
+}
+
+export interface FollowUp {
+  id: string;
+  contactId: string;
+  interactionId: string;
+  title: string;
+  detail: string;
+  excerpt?: string | null;
+  dueDate: string;
+  status: 'PENDING' | 'CONFIRMED' | 'REJECTED';
+  reminderId?: string | null;
+  createdAt: string;
+  contact?: { id: string; name: string };
+}
+
+export interface ConfirmFollowUpData {
+  title?: string;
+  message?: string;
+  scheduledDate?: string;
 }
 
 export interface ImportSummary {
@@ -114,6 +146,90 @@ export interface ImportSummary {
   contacts: Contact[];
 }
 
+export type ContactFileFormat = 'vcard' | 'csv';
+
+export type ImportField =
+  | 'name'
+  | 'firstName'
+  | 'middleName'
+  | 'lastName'
+  | 'phone'
+  | 'email'
+  | 'birthday'
+  | 'anniversary'
+  | 'notes'
+  | 'bio'
+  | 'profileImage'
+  | 'tier'
+  | 'sharedInterests';
+
+// Field -> CSV header it's read from
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportFileData {
+  format: ContactFileFormat;
+  content: string;
+  mapping?: ColumnMapping;
+}
+
+export interface ImportRowResult {
+  row: number;
+  name: string;
+  contact: (CreateContactData & { tier?: string; sharedInterests?: string[] }) | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface FileImportPreview {
+  format: ContactFileFormat;
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportRowResult[];
+  valid: number;
+  invalid: number;
+}
+
+export interface FileImportSummary extends ImportSummary {
+  invalid: number;
+  errors: { row: number; errors: string[] }[];
+}
+
+export type MergeField = 'name' | 'phone' | 'email' | 'profileImage' | 'bio' | 'birthday' | 'anniversary' | 'notes';
+export type MergeChoice = 'survivor' | 'duplicate';
+
+export interface DuplicateCandidate {
+  contactIds: [string, string];
+  reasons: ('phone' | 'email' | 'name')[];
+  score: number;
+  // Oldest first, as the suggested survivor
+  contacts: [Contact, Contact];
+  conflicts: MergeField[];
+}
+
+export interface MergeContactsData {
+  duplicateId: string;
+  fields?: Partial<Record<MergeField, MergeChoice>>;
+  relationship?: MergeChoice;
+}
+
+export interface MergeSummary {
+  contact: Contact;
+  fromDuplicate: MergeField[];
+  moved: {
+    interactions: number;
+    eventAttendees: number;
+    reminders: number;
+    aiInsights: number;
+    followUps: number;
+  };
+  removed: {
+    interactions: number;
+    eventAttendees: number;
+    occurrenceRsvps: number;
+    pollVotes: number;
+  };
+}
+
 class ContactService {
   /**
    * Get all contacts with filters and pagination
@@ -177,6 +293,52 @@ class ContactService {
     return response.data.summary;
   }
 
+  /**
+   * Read a vCard or CSV file and show what would be imported, row by row
+   */
+  async previewContactFile(data: ImportFileData): Promise<FileImportPreview> {
+    const response = await apiClient.post<FileImportPreview>('/contacts/import/preview', data);
+    return response.data;
+  }
+
+  /**
+   * Import the valid rows of a vCard or CSV file
+   */
+  async importContactFile(data: ImportFileData): Promise<FileImportSummary> {
+    const response = await apiClient.post<{ success: boolean; summary: FileImportSummary }>(
+      '/contacts/import/file',
+      data
+    );
+    return response.data.summary;
+  }
+
+  /**
+   * All contacts as vCard or CSV text
+   */
+  async exportContacts(format: ContactFileFormat = 'vcard'): Promise<string> {
+    const response = await apiClient.get<string>('/contacts/export', {
+      params: { format },
+      responseType: 'text',
+    });
+    return response.data;
+  }
+
+  /**
+   * Pairs of contacts that look like the same person
+   */
+  async getDuplicates(): Promise<DuplicateCandidate[]> {
+    const response = await apiClient.get<{ candidates: DuplicateCandidate[] }>('/contacts/duplicates');
+    return response.data.candidates;
+  }
+
+  /**
+   * Merge a duplicate into the surviving contact
+   */
+  async mergeContacts(survivorId: string, data: MergeContactsData): Promise<MergeSummary> {
+    const response = await apiClient.post<{ success: boolean } & MergeSummary>(`/contacts/${survivorId}/merge`, data);
+    return response.data;
+  }
+
   /**
    * Update relationship settings for a contact
    */
@@ -188,17 +350,63 @@ class ContactService {
     return response.data;
   }
 
+  /**
+   * Topics that keep coming up with a contact, to add as shared interests
+   */
+  async getSharedInterestSuggestions(id: string): Promise<SharedInterestSuggestion[]> {
+    const response = await apiClient.get<{ suggestions: SharedInterestSuggestion[] }>(
+      `/contacts/${id}/interest-suggestions`
+    );
+    return response.data.suggestions;
+  }
+
   /**
    * Log an interaction with a contact
    */
-  async logInteraction(id: string, data: LogInteractionData): Promise<{ success: boolean; interaction: Interaction }> {
-    const response = await apiClient.post<{ success: boolean; interaction: Interaction }>(
+  async logInteraction(
+    id: string,
+    data: LogInteractionData
+  ): Promise<{ success: boolean; interaction: Interaction; followUps?: FollowUp[] }> {
+    const response = await apiClient.post<{ success: boolean; interaction: Interaction; followUps?: FollowUp[] }>(
       `/contacts/${id}/interactions`,
       data
     );
     return response.data;
   }
 
+  /**
+   * Get follow-ups found in interaction notes
+   */
+  async getFollowUps(params?: {
+    status?: FollowUp['status'];
+    contactId?: string;
+    interactionId?: string;
+  }): Promise<FollowUp[]> {
+    const response = await apiClient.get<{ followUps: FollowUp[] }>('/contacts/follow-ups', { params });
+    return response.data.followUps;
+  }
+
+  /**
+   * Accept a follow-up, turning it into a reminder
+   */
+  async confirmFollowUp(followUpId: string, data: ConfirmFollowUpData = {}): Promise<FollowUp> {
+    const response = await apiClient.post<{ success: boolean; followUp: FollowUp }>(
+      `/contacts/follow-ups/${followUpId}/confirm`,
+      data
+    );
+    return response.data.followUp;
+  }
+
+  /**
+   * Dismiss a follow-up
+   */
+  async rejectFollowUp(followUpId: string): Promise<FollowUp> {
+    const response = await apiClient.post<{ success: boolean; followUp: FollowUp }>(
+      `/contacts/follow-ups/${followUpId}/reject`
+    );
+    return response.data.followUp;
+  }
+
   /**
    * Get interaction history for a contact
    */
@@ -32,6 +32,25 @@ export interface InsightsData {
   neglectedTiers: string[];
   averageHealthScore: number;
   healthScoreHistory: { date: string; score: number }[];
+  sentimentTrends?: SentimentTrends;
+}
+
+export interface SentimentTrendLine {
+  // Weekly average of POSITIVE = 1, NEUTRAL = 0, NEGATIVE = -1
+  points: { weekStart: string; average: number | null; count: number }[];
+  direction: 'improving' | 'declining' | 'steady';
+}
+
+export interface SentimentTrends {
+  weeks: number;
+  overall: SentimentTrendLine;
+  byTier: Record<string, SentimentTrendLine>;
+  byContact: (SentimentTrendLine & {
+    contactId: string;
+    name: string;
+    tier: string;
+    ratedInteractions: number;
+  })[];
 }
 
 export interface Reminder {
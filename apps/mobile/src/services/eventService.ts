@@ -170,6 +170,48 @@ export interface VenueSuggestion {
   openNow?: boolean;
 }
 
+export type PollVoteChoice = 'YES' | 'IF_NEEDED' | 'NO';
+
+export interface SchedulingPollOption {
+  optionId: string;
+  start: string;
+  end: string;
+  yes: number;
+  ifNeeded: number;
+  no: number;
+  pending: number;
+  best: boolean;
+  votes: { attendeeId: string; name: string; choice: PollVoteChoice }[];
+}
+
+export interface SchedulingPoll {
+  id: string;
+  eventId: string;
+  status: 'OPEN' | 'FINALIZED';
+  message: string | null;
+  closesAt: string | null;
+  chosenOptionId: string | null;
+  finalizedAt: string | null;
+  createdAt: string;
+  options: SchedulingPollOption[];
+  suggestedOptionId: string | null;
+  attendees: { attendeeId: string; name: string; voted: boolean }[];
+}
+
+export interface PollLink {
+  attendeeId: string;
+  name: string;
+  url: string;
+  expiresAt: string;
+}
+
+export interface FinalizePollResult {
+  success: boolean;
+  event: Event;
+  poll: SchedulingPoll;
+  calendarSync?: { synced: boolean; calendarEventId?: string; error?: string };
+}
+
 class EventService {
   /**
    * Get all events with filters and pagination
@@ -301,6 +343,56 @@ class EventService {
     return response.data;
   }
 
+  /**
+   * Get an event's scheduling poll, or null if it has none
+   */
+  async getSchedulingPoll(eventId: string): Promise<SchedulingPoll | null> {
+    try {
+      const response = await apiClient.get<SchedulingPoll>(`/events/${eventId}/poll`);
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Open a scheduling poll with candidate times for guests to vote on
+   */
+  async createSchedulingPoll(
+    eventId: string,
+    data: { options: { start: string; end: string }[]; message?: string; closesAt?: string }
+  ): Promise<SchedulingPoll> {
+    const response = await apiClient.post<SchedulingPoll>(`/events/${eventId}/poll`, data);
+    return response.data;
+  }
+
+  /**
+   * Create a voting link for every attendee
+   */
+  async createPollLinks(eventId: string): Promise<PollLink[]> {
+    const response = await apiClient.post<{ links: PollLink[] }>(`/events/${eventId}/poll/links`);
+    return response.data.links;
+  }
+
+  /**
+   * Move the event to the chosen time, optionally adding it to the connected calendar
+   */
+  async finalizeSchedulingPoll(eventId: string, optionId: string, syncToCalendar = false): Promise<FinalizePollResult> {
+    const response = await apiClient.post<FinalizePollResult>(`/events/${eventId}/poll/finalize`, {
+      optionId,
+      syncToCalendar,
+    });
+    return response.data;
+  }
+
+  /**
+   * Delete an event's scheduling poll
+   */
+  async deleteSchedulingPoll(eventId: string): Promise<void> {
+    await apiClient.delete(`/events/${eventId}/poll`);
+  }
+
   /**
    * Get event templates
    */
@@ -12,6 +12,7 @@ export type ContactStackParamList = {
   ContactDetail: { id: string; openLogDialog?: boolean };
   AddEditContact: { contactId?: string };
   ImportContacts: undefined;
+  DuplicateContacts: undefined;
   ContactMessages: { contactId: string; contactName: string; contactPhone?: string };
   ContactEvents: { contactId: string; contactName: string };
 };